@@ -1,25 +1,139 @@
 #!/usr/bin/env python3
 """
 Script pour extraire les images d'un fichier PDF
-Usage: python extract_images.py <chemin_vers_pdf> <dossier_sortie>
+Usage: python extract_images.py <chemin_vers_pdf> <dossier_sortie> [options_json]
+
+options_json (facultatif) :
+  minWidth, minHeight : dimensions minimales en pixels (logos, icônes)
+  minBytes            : taille minimale du fichier image
+  knownHashes         : empreintes perceptuelles déjà présentes (images déjà enregistrées)
+  maxDistance         : distance de Hamming en dessous de laquelle deux images sont des doublons
 """
 
 import os
+import re
 import sys
 import fitz  # PyMuPDF
 import json
 
-def extract_images_from_pdf(pdf_path, output_folder):
+DEFAULT_OPTIONS = {
+    'minWidth': 100,
+    'minHeight': 100,
+    'minBytes': 1024,
+    'knownHashes': [],
+    'maxDistance': 6
+}
+
+# Légendes reconnues sous une image : "Figure 3", "Fig. 2:", "Table 1"...
+CAPTION_PATTERN = re.compile(r'^\s*(fig(ure)?\.?|table|tab\.)\s*\d+', re.IGNORECASE)
+
+def perceptual_hash(doc, xref):
+    """
+    Empreinte perceptuelle (dHash 64 bits) d'une image du PDF
+
+    L'image est réduite à 9x8 niveaux de gris ; chaque bit indique si un pixel
+    est plus clair que son voisin de droite. Deux images proches ont des
+    empreintes à faible distance de Hamming.
+
+    Returns:
+        str: Empreinte en hexadécimal (16 caractères) ou None
+    """
+    try:
+        pix = fitz.Pixmap(doc, xref)
+        if pix.alpha:
+            pix = fitz.Pixmap(pix, 0)
+        if pix.n != 1:
+            pix = fitz.Pixmap(fitz.csGRAY, pix)
+
+        # Réduction grossière (puissances de 2) avant la moyenne par cases
+        while pix.width >= 144 and pix.height >= 128:
+            pix.shrink(1)
+
+        width, height, stride, samples = pix.width, pix.height, pix.stride, pix.samples
+        grid = []
+        for row in range(8):
+            y0, y1 = row * height // 8, max((row + 1) * height // 8, row * height // 8 + 1)
+            for col in range(9):
+                x0, x1 = col * width // 9, max((col + 1) * width // 9, col * width // 9 + 1)
+                total = 0
+                count = 0
+                for y in range(y0, min(y1, height)):
+                    offset = y * stride
+                    for x in range(x0, min(x1, width)):
+                        total += samples[offset + x]
+                        count += 1
+                grid.append(total / count if count else 0)
+
+        bits = 0
+        for row in range(8):
+            for col in range(8):
+                bits = (bits << 1) | (1 if grid[row * 9 + col] > grid[row * 9 + col + 1] else 0)
+
+        return f"{bits:016x}"
+    except Exception as hash_error:
+        print(f"Empreinte impossible pour l'image {xref}: {hash_error}", file=sys.stderr)
+        return None
+
+def hamming_distance(hash_a, hash_b):
+    """Nombre de bits différents entre deux empreintes hexadécimales"""
+    return bin(int(hash_a, 16) ^ int(hash_b, 16)).count('1')
+
+def is_duplicate(image_hash, hashes, max_distance):
+    """L'empreinte est-elle proche d'une empreinte déjà vue ?"""
+    return any(hamming_distance(image_hash, known) <= max_distance for known in hashes)
+
+def find_caption(page, xref):
     """
-    Extrait toutes les images d'un fichier PDF
-    
+    Légende d'une image : premier bloc de texte "Figure n" / "Table n" situé
+    sous l'image (ou juste au-dessus, pour les tableaux)
+
+    Returns:
+        str: Légende sur une ligne ou None
+    """
+    try:
+        rects = page.get_image_rects(xref)
+    except Exception:
+        return None
+    if not rects:
+        return None
+
+    image_rect = rects[0]
+    max_gap = page.rect.height * 0.15
+    candidates = []
+
+    for block in page.get_text("blocks"):
+        x0, y0, x1, y1, text = block[0], block[1], block[2], block[3], block[4]
+        if not CAPTION_PATTERN.match(text):
+            continue
+        # Le bloc doit chevaucher l'image horizontalement
+        if x1 < image_rect.x0 or x0 > image_rect.x1:
+            continue
+
+        if y0 >= image_rect.y1 - 2 and y0 - image_rect.y1 <= max_gap:
+            candidates.append((y0 - image_rect.y1, text))
+        elif y1 <= image_rect.y0 + 2 and image_rect.y0 - y1 <= max_gap:
+            candidates.append((image_rect.y0 - y1 + max_gap, text))
+
+    if not candidates:
+        return None
+
+    caption = min(candidates, key=lambda candidate: candidate[0])[1]
+    return re.sub(r'\s+', ' ', caption).strip()[:500]
+
+def extract_images_from_pdf(pdf_path, output_folder, options=None):
+    """
+    Extrait les images d'un fichier PDF, sans les petites images ni les doublons
+
     Args:
         pdf_path (str): Chemin vers le fichier PDF
         output_folder (str): Dossier où sauvegarder les images
-        
+        options (dict): Seuils de filtrage (voir DEFAULT_OPTIONS)
+
     Returns:
-        list: Liste des chemins des images extraites
+        list: Images extraites (chemin, page, dimensions, empreinte, légende)
     """
+    options = {**DEFAULT_OPTIONS, **(options or {})}
+
     try:
         # Créer le dossier de sortie s'il n'existe pas
         if not os.path.exists(output_folder):
@@ -33,6 +147,10 @@ def extract_images_from_pdf(pdf_path, output_folder):
         # Ouvrir le fichier PDF
         doc = fitz.open(pdf_path)
         extracted_images = []
+        seen_xrefs = set()
+        seen_hashes = list(options['knownHashes'])
+        skipped_small = 0
+        skipped_duplicates = 0
 
         # Parcourir chaque page du PDF
         for page_num in range(len(doc)):
@@ -43,9 +161,32 @@ def extract_images_from_pdf(pdf_path, output_folder):
             for img_index, img in enumerate(image_list):
                 try:
                     xref = img[0]
+
+                    # Même image répétée sur plusieurs pages (logo, en-tête)
+                    if xref in seen_xrefs:
+                        skipped_duplicates += 1
+                        continue
+                    seen_xrefs.add(xref)
+
                     base_image = doc.extract_image(xref)
                     image_bytes = base_image["image"]
                     image_ext = base_image["ext"]
+                    width = base_image.get("width", 0)
+                    height = base_image.get("height", 0)
+
+                    # Ignorer les petites images (icônes, logos, puces)
+                    if (len(image_bytes) < options['minBytes']
+                            or width < options['minWidth'] or height < options['minHeight']):
+                        skipped_small += 1
+                        continue
+
+                    # Ignorer les images quasi identiques à une image déjà retenue ou enregistrée
+                    image_hash = perceptual_hash(doc, xref)
+                    if image_hash and is_duplicate(image_hash, seen_hashes, options['maxDistance']):
+                        skipped_duplicates += 1
+                        continue
+                    if image_hash:
+                        seen_hashes.append(image_hash)
 
                     # Générer un nom de fichier unique
                     filename = f"page_{page_num + 1}_img_{img_index + 1}.{image_ext}"
@@ -55,17 +196,20 @@ def extract_images_from_pdf(pdf_path, output_folder):
                     with open(output_path, "wb") as image_file:
                         image_file.write(image_bytes)
 
-                    # Vérifier que l'image n'est pas trop petite (éviter les icônes, etc.)
-                    if len(image_bytes) > 1024:  # Plus de 1KB
-                        extracted_images.append({
-                            'path': output_path,
-                            'filename': filename,
-                            'page': page_num + 1,
-                            'size': len(image_bytes),
-                            'format': image_ext
-                        })
+                    extracted_images.append({
+                        'path': output_path,
+                        'filename': filename,
+                        'name': filename,
+                        'page': page_num + 1,
+                        'size': len(image_bytes),
+                        'format': image_ext,
+                        'width': width,
+                        'height': height,
+                        'hash': image_hash,
+                        'caption': find_caption(page, xref)
+                    })
 
-                        print(f"Image extraite: {filename} (Page {page_num + 1}, {len(image_bytes)} bytes)", file=sys.stderr)
+                    print(f"Image extraite: {filename} (Page {page_num + 1}, {width}x{height}, {len(image_bytes)} bytes)", file=sys.stderr)
 
                 except Exception as img_error:
                     print(f"Erreur lors de l'extraction de l'image {img_index} de la page {page_num}: {img_error}", file=sys.stderr)
@@ -74,7 +218,8 @@ def extract_images_from_pdf(pdf_path, output_folder):
         # Fermer le document
         doc.close()
 
-        print(f"Extraction terminée: {len(extracted_images)} images extraites", file=sys.stderr)
+        print(f"Extraction terminée: {len(extracted_images)} images extraites, "
+              f"{skipped_small} petites images et {skipped_duplicates} doublons ignorés", file=sys.stderr)
         return extracted_images
 
     except Exception as e:
@@ -83,14 +228,22 @@ def extract_images_from_pdf(pdf_path, output_folder):
 
 def main():
     """Fonction principale"""
-    if len(sys.argv) != 3:
-        print("Usage: python extract_images.py <chemin_vers_pdf> <dossier_sortie>", file=sys.stderr)
+    if len(sys.argv) not in (3, 4):
+        print("Usage: python extract_images.py <chemin_vers_pdf> <dossier_sortie> [options_json]", file=sys.stderr)
         sys.exit(1)
 
     pdf_path = sys.argv[1]
     output_folder = sys.argv[2]
 
-    extracted_images = extract_images_from_pdf(pdf_path, output_folder)
+    options = {}
+    if len(sys.argv) == 4:
+        try:
+            options = json.loads(sys.argv[3])
+        except json.JSONDecodeError as options_error:
+            print(f"Options invalides: {options_error}", file=sys.stderr)
+            sys.exit(1)
+
+    extracted_images = extract_images_from_pdf(pdf_path, output_folder, options)
 
     if extracted_images:
         # Retourner la liste des images au format JSON sur stdout
@@ -101,4 +254,4 @@ def main():
         sys.exit(1)
 
 if __name__ == "__main__":
-    main()
\ No newline at end of file
+    main()
@@ -0,0 +1,60 @@
+#!/usr/bin/env python3
+"""
+Script pour extraire le texte complet d'un fichier PDF (indexation plein texte)
+Usage: python extract_text.py <chemin_vers_pdf>
+"""
+
+import fitz  # PyMuPDF
+import sys
+import os
+
+def extract_text_from_pdf(pdf_path):
+    """
+    Extrait le texte de toutes les pages d'un fichier PDF
+
+    Args:
+        pdf_path (str): Chemin vers le fichier PDF
+
+    Returns:
+        str|None: Le texte extrait ou None en cas d'erreur
+    """
+    try:
+        # Vérifier que le fichier existe
+        if not os.path.exists(pdf_path):
+            print(f"Erreur: Le fichier {pdf_path} n'existe pas", file=sys.stderr)
+            return None
+
+        doc = fitz.open(pdf_path)
+
+        pages_text = []
+        for page_num in range(len(doc)):
+            page = doc.load_page(page_num)
+            pages_text.append(page.get_text())
+
+        doc.close()
+
+        print(f"Texte extrait de {len(pages_text)} pages", file=sys.stderr)
+        return "\n".join(pages_text)
+
+    except Exception as e:
+        print(f"Erreur lors de l'extraction du texte: {str(e)}", file=sys.stderr)
+        return None
+
+def main():
+    """Fonction principale"""
+    if len(sys.argv) != 2:
+        print("Usage: python extract_text.py <chemin_vers_pdf>", file=sys.stderr)
+        sys.exit(1)
+
+    text = extract_text_from_pdf(sys.argv[1])
+
+    if text and text.strip():
+        # Imprimer le texte sur stdout (pour que Node.js puisse le récupérer)
+        sys.stdout.reconfigure(encoding='utf-8')
+        print(text)
+        sys.exit(0)
+    else:
+        sys.exit(1)
+
+if __name__ == "__main__":
+    main()
@@ -1,21 +1,50 @@
 const express = require('express');
 const cors = require('cors');
 const multer = require('multer');
-const axios = require('axios');
 const path = require('path');
 const fs = require('fs');
 const { spawn } = require('child_process');
 const { promisify } = require('util');
 
 // Import de la base de données
-const { paperDB, READING_STATUS } = require('./src/database');
+const {
+  paperDB,
+  READING_STATUS,
+  ITEM_TYPES,
+  PAPER_FIELD_LABELS,
+  EDITABLE_PAPER_FIELDS,
+  getMissingPaperFields,
+  describeMissingFields
+} = require('./src/database');
+const { inferItemType, normalizeDoi } = require('./src/formats/common');
+const notesRoutes = require('./src/routes/notesRoutes');
+const searchRoutes = require('./src/routes/searchRoutes');
+const bibliographyRoutes = require('./src/routes/bibliographyRoutes');
+const duplicateRoutes = require('./src/routes/duplicateRoutes');
+const arxivRoutes = require('./src/routes/arxivRoutes');
+const authorRoutes = require('./src/routes/authorRoutes');
+const venueRoutes = require('./src/routes/venueRoutes');
+const backupRoutes = require('./src/routes/backupRoutes');
+const attachmentRoutes = require('./src/routes/attachmentRoutes');
+const figureRoutes = require('./src/routes/figureRoutes');
+const batchRoutes = require('./src/routes/batchRoutes');
+const trashRoutes = require('./src/routes/trashRoutes');
+const { startBackupScheduler } = require('./src/backup/scheduler');
+const { startTrashPurgeScheduler } = require('./src/database/trash');
+const { arxivClient } = require('./src/metadata/arxiv');
+const { metadataResolver } = require('./src/metadata/resolver');
 
 const app = express();
 const PORT = 5324;
 
+// Pagination de GET /api/papers
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 500;
+
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Limite alignée sur multer : les fichiers .bib importés transitent en JSON
+app.use(express.json({ limit: '10mb' }));
 
 // Configuration multer pour l'upload de fichiers
 const storage = multer.diskStorage({
@@ -65,7 +94,8 @@ async function initializeApp() {
 }
 
 // Fonction pour extraire les images d'un PDF avec Python
-async function extractImagesFromPdf(pdfPath, outputFolder) {
+// options : seuils de filtrage du script (minWidth, minHeight, knownHashes...)
+async function extractImagesFromPdf(pdfPath, outputFolder, options = {}) {
   return new Promise((resolve, reject) => {
     const scriptPath = path.join(__dirname, 'scripts', 'extract_images.py');
     
@@ -77,7 +107,7 @@ async function extractImagesFromPdf(pdfPath, outputFolder) {
     console.log(`Extraction des images du PDF: ${pdfPath}`);
     console.log(`Dossier de sortie: ${outputFolder}`);
 
-    const pythonProcess = spawn('python', [scriptPath, pdfPath, outputFolder]);
+    const pythonProcess = spawn('python', [scriptPath, pdfPath, outputFolder, JSON.stringify(options)]);
     
     let output = '';
     let errorOutput = '';
@@ -167,6 +197,136 @@ async function extractDoiFromPdf(pdfPath) {
   });
 }
 
+// Indexer le texte du PDF sans bloquer la réponse (l'extraction peut être longue)
+function indexPaperPdfInBackground(paperId) {
+  paperDB.search.indexPaperPdf(paperId).catch((error) => {
+    console.error(`❌ Erreur indexation PDF du paper ${paperId}:`, error.message);
+  });
+}
+
+// URL du PDF du dossier d'un paper, servi par /api/papers/files (lecteur intégré)
+function getPaperPdfUrl(paper) {
+  const pdfPath = paperDB.files.findPaperPDF(paper.id, paper.title, paper.created_at);
+  return pdfPath
+    ? `http://localhost:${PORT}/api/papers/files/${path.basename(path.dirname(pdfPath))}/${encodeURIComponent(path.basename(pdfPath))}`
+    : null;
+}
+
+// Image extraite telle que proposée à la sélection (page, dimensions, légende détectée, empreinte)
+function toExtractedImage(img) {
+  return {
+    name: img.name || img.filename,
+    url: `http://localhost:${PORT}/${img.path.split(path.sep).join('/')}`,
+    page: img.page,
+    width: img.width,
+    height: img.height,
+    caption: img.caption || null,
+    hash: img.hash || null
+  };
+}
+
+// Relire depuis uploads/ les images extraites que l'utilisateur a sélectionnées
+// (page, légende et empreinte conservées pour la galerie de figures)
+function loadSelectedExtractedImages(selectedImages) {
+  const uploadsDir = path.resolve('uploads');
+
+  return selectedImages.map((image) => {
+    const urlPath = decodeURIComponent(new URL(image.url, `http://localhost:${PORT}`).pathname);
+    const imagePath = path.resolve('.' + urlPath);
+
+    // Vérification de sécurité - l'image doit provenir du dossier uploads
+    if (!imagePath.startsWith(uploadsDir + path.sep) || !fs.existsSync(imagePath)) {
+      throw new Error(`Image extraite introuvable: ${image.name || image.url}`);
+    }
+
+    return {
+      name: path.basename(image.name || imagePath),
+      buffer: fs.readFileSync(imagePath),
+      page: image.page,
+      caption: image.caption,
+      hash: image.hash,
+      width: image.width,
+      height: image.height
+    };
+  });
+}
+
+// Erreur 400 si le type de document est inconnu ou si des champs requis manquent
+function getPaperValidationError(paper) {
+  if (!ITEM_TYPES[paper.item_type]) {
+    return {
+      error: 'Type de document invalide',
+      message: `Types disponibles: ${Object.keys(ITEM_TYPES).join(', ')}`
+    };
+  }
+
+  const missingFields = getMissingPaperFields(paper);
+  if (missingFields.length > 0) {
+    return {
+      error: 'Données manquantes',
+      message: `Champs requis pour le type « ${ITEM_TYPES[paper.item_type].label} » : ${describeMissingFields(missingFields)}`
+    };
+  }
+
+  return null;
+}
+
+// Erreur 409 d'un DOI déjà présent ; un paper de la corbeille est désigné pour pouvoir être restauré
+async function getDoiConflictError(doi) {
+  const [existing] = doi ? await paperDB.papers.findByDois([doi]) : [];
+
+  if (existing && existing.deleted_at) {
+    return {
+      error: 'DOI déjà existant',
+      message: `Ce DOI appartient à « ${existing.title} », dans la corbeille : restaurez-le depuis la corbeille`,
+      trashedPaperId: existing.id
+    };
+  }
+
+  return {
+    error: 'DOI déjà existant',
+    message: 'Ce DOI existe déjà dans la base de données'
+  };
+}
+
+// Erreur 409 d'une prépublication déjà enregistrée (toutes versions confondues), null sinon
+async function getArxivConflictError(arxivId) {
+  const [existing] = await paperDB.papers.findByArxivIds([arxivId]);
+
+  if (!existing) {
+    return null;
+  }
+
+  return {
+    error: 'Prépublication déjà existante',
+    message: existing.deleted_at
+      ? `L'identifiant arXiv ${arxivId} appartient à "${existing.title}", dans la corbeille : restaurez-le depuis la corbeille`
+      : `L'identifiant arXiv ${arxivId} est déjà utilisé par "${existing.title}"`,
+    ...(existing.deleted_at && { trashedPaperId: existing.id })
+  };
+}
+
+// Erreur 400 si la liste de catégories n'est pas un tableau d'IDs existants
+async function getCategoryIdsError(categoryIds) {
+  if (!Array.isArray(categoryIds) || categoryIds.some(id => !Number.isInteger(Number(id)) || id === '' || id === null)) {
+    return {
+      error: 'Catégories invalides',
+      message: 'Le champ categories doit être un tableau d\'IDs de catégories'
+    };
+  }
+
+  const knownIds = new Set((await paperDB.categories.getAll()).map(category => category.id));
+  const unknownIds = [...new Set(categoryIds.map(Number))].filter(id => !knownIds.has(id));
+  if (unknownIds.length > 0) {
+    return {
+      error: 'Catégories inconnues',
+      message: `Aucune catégorie avec l'ID ${unknownIds.join(', ')}`
+    };
+  }
+
+  return null;
+}
+
 // ================================
 // ROUTES - ORDRE CORRECT
 // ================================
@@ -180,6 +340,7 @@ app.get('/api/health', async (req, res) => {
       database: {
         connected: false,
         stats: null,
+        schema: null,
         error: null
       }
     };
@@ -197,6 +358,7 @@ app.get('/api/health', async (req, res) => {
       // Test simple des stats
       const testStats = await paperDB.getStats();
       health.database.stats = testStats;
+      health.database.schema = await paperDB.getSchemaStatus();
       
     } catch (dbError) {
       console.error('❌ Erreur health check DB:', dbError);
@@ -272,43 +434,24 @@ app.post('/api/papers/metadata-from-doi', async (req, res) => {
 
     console.log(`🔍 Récupération des métadonnées pour DOI: ${doi}`);
 
-    const response = await axios.get(`https://api.crossref.org/works/${doi}`, {
-      headers: {
-        'User-Agent': 'FormPaper3000/1.0 (https://github.com/yourrepo/formpaper3000; mailto:your-email@example.com)'
-      }
-    });
+    const result = await metadataResolver.resolveDoi(doi);
 
-    const work = response.data.message;
-    
-    const paperData = {
-      title: work.title?.[0] || '',
-      authors: work.author?.map(a => `${a.given || ''} ${a.family || ''}`).join(', ') || '',
-      doi: work.DOI || doi,
-      url: work.URL || `https://doi.org/${doi}`,
-      publication_date: work.published?.['date-parts']?.[0] ? 
-        `${work.published['date-parts'][0][0]}-${String(work.published['date-parts'][0][1] || 1).padStart(2, '0')}-${String(work.published['date-parts'][0][2] || 1).padStart(2, '0')}` : 
-        new Date().toISOString().split('T')[0],
-      conference: work['container-title']?.[0] || '',
-      reading_status: 'non_lu'
-    };
+    if (!result) {
+      return res.status(404).json({
+        error: 'DOI non trouvé',
+        message: 'Ce DOI est inconnu des fournisseurs de métadonnées'
+      });
+    }
 
-    console.log(`✅ Métadonnées récupérées: ${paperData.title}`);
-    res.json({ paperData });
+    console.log(`✅ Métadonnées récupérées (${result.sources.join(', ')}): ${result.paperData.title}`);
+    res.json(result);
 
   } catch (error) {
     console.error('❌ Erreur lors de la récupération des métadonnées:', error.message);
-    
-    if (error.response?.status === 404) {
-      res.status(404).json({ 
-        error: 'DOI non trouvé',
-        message: 'Ce DOI n\'existe pas dans la base Crossref'
-      });
-    } else {
-      res.status(500).json({ 
-        error: 'Erreur lors de la récupération des métadonnées',
-        message: error.message
-      });
-    }
+    res.status(500).json({ 
+      error: 'Erreur lors de la récupération des métadonnées',
+      message: error.message
+    });
   }
 });
 
@@ -333,11 +476,7 @@ app.post('/api/papers/extract-images', upload.single('pdf'), async (req, res) =>
     // Nettoyer le fichier PDF temporaire
     fs.unlinkSync(pdfPath);
 
-    const images = extractedImages.map(img => ({
-      name: img.name,
-      url: `http://localhost:${PORT}/${img.path}`,
-      page: img.page
-    }));
+    const images = extractedImages.map(toExtractedImage);
 
     console.log(`🖼️ ${images.length} images extraites`);
     res.json({ images });
@@ -372,10 +511,10 @@ app.post('/api/papers/extract-from-pdf', upload.single('pdf'), async (req, res)
       const fallbackData = {
         title: path.parse(req.file.originalname).name,
         authors: '',
-        doi: '',
+        doi: null,
         conference: '',
         publication_date: new Date().toISOString().split('T')[0],
-        url: '',
+        url: null,
         reading_status: 'non_lu'
       };
       
@@ -389,44 +528,20 @@ app.post('/api/papers/extract-from-pdf', upload.single('pdf'), async (req, res)
     console.log(`🔍 DOI extrait du PDF: ${doi}`);
 
     try {
-      // Récupérer les métadonnées via Crossref
-      const crossrefUrl = `https://api.crossref.org/works/${doi}`;
-      
-      const response = await axios.get(crossrefUrl, {
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'PaperManager/1.0 (mailto:user@example.com)'
-        },
-        timeout: 10000
-      });
-
-      const work = response.data.message;
-      
-      const authors = work.author 
-        ? work.author.map(a => `${a.given || ''} ${a.family || ''}`.trim()).filter(a => a)
-        : [];
-
-      const paperData = {
-        title: work.title ? work.title[0] : path.parse(req.file.originalname).name,
-        authors: authors.length > 0 ? authors.join(', ') : '',
-        doi: work.DOI || doi,
-        conference: work['container-title'] ? work['container-title'][0] : '',
-        publication_date: work.published 
-          ? `${work.published['date-parts'][0][0]}-${String(work.published['date-parts'][0][1] || 1).padStart(2, '0')}-${String(work.published['date-parts'][0][2] || 1).padStart(2, '0')}`
-          : new Date().toISOString().split('T')[0],
-        url: work.URL || `https://doi.org/${doi}`,
-        reading_status: 'non_lu'
-      };
+      const result = await metadataResolver.resolveDoi(doi);
+      if (!result) {
+        throw new Error('DOI inconnu des fournisseurs de métadonnées');
+      }
 
       fs.unlinkSync(req.file.path);
 
-      console.log('✅ Métadonnées récupérées via Crossref:', paperData);
+      console.log(`✅ Métadonnées récupérées (${result.sources.join(', ')}):`, result.paperData);
       
       // ✅ Format compatible avec paperService.extractDataFromPDF()
-      res.json({ paperData });
+      res.json(result);
 
-    } catch (crossrefError) {
-      console.error('⚠️ Erreur Crossref:', crossrefError.message);
+    } catch (resolverError) {
+      console.error('⚠️ Erreur métadonnées:', resolverError.message);
       
       // Fallback avec le DOI trouvé mais métadonnées minimales
       const fallbackData = {
@@ -527,15 +642,41 @@ app.get('/api/papers/stats', async (req, res) => {
 // Récupérer tous les papers
 app.get('/api/papers', async (req, res) => {
   try {
-    console.log('📖 Récupération de tous les papers...');
-    
-    const papers = await paperDB.papers.getAll();
-    console.log(`📚 ${papers.length} papers récupérés`);
+    const {
+      q, status, categories, categoryMode, includeDescendants, year, dateFrom, dateTo, conference, venue, author,
+      sortBy, sortOrder, page, limit
+    } = req.query;
+
+    const filters = {
+      query: q ? String(q).trim() : '',
+      reading_status: status,
+      categories: categories
+        ? String(categories).split(',').map(id => parseInt(id, 10)).filter(id => !isNaN(id))
+        : [],
+      categoryMode: categoryMode === 'all' ? 'all' : 'any',
+      includeDescendants: includeDescendants === 'true',
+      year: year ? parseInt(year, 10) || null : null,
+      dateFrom,
+      dateTo,
+      conference,
+      venue: venue ? parseInt(venue, 10) || null : null,
+      author: author ? parseInt(author, 10) || null : null
+    };
+
+    // limit=0 permet de récupérer tous les papers en une seule page
+    const pagination = {
+      page: parseInt(page, 10) || 1,
+      limit: limit !== undefined ? Math.min(Math.max(0, parseInt(limit, 10) || 0), MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE
+    };
+
+    console.log('📖 Recherche de papers...', { filters, sortBy, sortOrder, ...pagination });
+
+    const result = await paperDB.papers.findPaginated(filters, { sortBy, sortOrder }, pagination);
+    console.log(`📚 ${result.data.length} papers récupérés (page ${result.page}/${result.totalPages}, total ${result.total})`);
 
     res.json({
       success: true,
-      papers: papers,
-      total: papers.length
+      ...result
     });
 
   } catch (error) {
@@ -547,6 +688,25 @@ app.get('/api/papers', async (req, res) => {
   }
 });
 
+// Récupérer la liste des conférences présentes dans la base
+app.get('/api/papers/conferences', async (req, res) => {
+  try {
+    const conferences = await paperDB.papers.getConferences();
+
+    res.json({
+      success: true,
+      conferences
+    });
+
+  } catch (error) {
+    console.error('❌ Erreur lors de la récupération des conférences:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la récupération des conférences',
+      message: error.message
+    });
+  }
+});
+
 // Sauvegarder un paper dans la base avec catégories
 app.post('/api/papers', upload.single('pdf'), async (req, res) => {
   try {
@@ -554,31 +714,55 @@ app.post('/api/papers', upload.single('pdf'), async (req, res) => {
     console.log('Données reçues:', req.body);
     
     const paperData = req.body;
-    const categories = req.body.categories ? JSON.parse(req.body.categories) : [];
-    
-    // Validation des données essentielles
-    if (!paperData.title || !paperData.authors || !paperData.doi || !paperData.url) {
-      return res.status(400).json({ 
-        error: 'Données manquantes',
-        message: 'Titre, auteurs, DOI et URL sont requis'
+    let categories;
+    try {
+      categories = paperData.categories ? JSON.parse(paperData.categories) : [];
+    } catch (parseError) {
+      if (req.file) fs.unlinkSync(req.file.path);
+      return res.status(400).json({
+        error: 'Données invalides',
+        message: 'Le champ categories doit être du JSON valide'
       });
     }
-
-    console.log(`📝 Création du paper: ${paperData.title}`);
-    console.log(`🏷️ Catégories: ${categories.join(', ')}`);
-
+    
     // Préparer les données du paper
     const paperToSave = {
       title: paperData.title,
-      authors: paperData.authors,
+      authors: paperData.authors || '',
       publication_date: paperData.publication_date || new Date().toISOString().split('T')[0],
       conference: paperData.conference || null,
       reading_status: paperData.reading_status || 'non_lu',
       image: paperData.image || null,
-      doi: paperData.doi,
-      url: paperData.url
+      item_type: paperData.item_type || inferItemType(paperData),
+      doi: paperData.doi || null,
+      url: paperData.url || null,
+      arxiv_id: paperData.arxiv_id || null,
+      arxiv_version: paperData.arxiv_version || null,
+      isbn: paperData.isbn || null,
+      publisher: paperData.publisher || null,
+      abstract: paperData.abstract || null,
+      keywords: paperData.keywords || null,
+      // Auteurs structurés (JSON) : ORCID et découpage prénom / nom
+      author_list: paperData.author_list || null
     };
 
+    // Validation des champs requis selon le type de document
+    const validationError = getPaperValidationError(paperToSave) || await getCategoryIdsError(categories);
+    if (validationError) {
+      if (req.file) fs.unlinkSync(req.file.path);
+      return res.status(400).json(validationError);
+    }
+
+    // Une prépublication n'est enregistrée qu'une fois, toutes versions confondues
+    const arxivConflictError = await getArxivConflictError(paperToSave.arxiv_id);
+    if (arxivConflictError) {
+      if (req.file) fs.unlinkSync(req.file.path);
+      return res.status(409).json(arxivConflictError);
+    }
+
+    console.log(`📝 Création du paper: ${paperData.title}`);
+    console.log(`🏷️ Catégories: ${categories.join(', ')}`);
+
     // Buffer et nom du PDF si fourni
     const pdfBuffer = req.file ? fs.readFileSync(req.file.path) : null;
     const pdfName = req.file ? req.file.originalname : null;
@@ -599,6 +783,10 @@ app.post('/api/papers', upload.single('pdf'), async (req, res) => {
 
     console.log(`✅ Paper sauvegardé avec ID: ${savedPaper.id}`);
 
+    if (pdfBuffer) {
+      indexPaperPdfInBackground(savedPaper.id);
+    }
+
     // Statistiques
     const stats = await paperDB.getStats();
     console.log(`📊 Total papers en base: ${stats.totalPapers}`);
@@ -621,10 +809,7 @@ app.post('/api/papers', upload.single('pdf'), async (req, res) => {
 
     // Gestion des erreurs spécifiques
     if (error.message.includes('UNIQUE constraint failed')) {
-      return res.status(409).json({ 
-        error: 'DOI déjà existant',
-        message: 'Ce DOI existe déjà dans la base de données'
-      });
+      return res.status(409).json(await getDoiConflictError(req.body.doi));
     }
 
     res.status(500).json({ 
@@ -634,6 +819,264 @@ app.post('/api/papers', upload.single('pdf'), async (req, res) => {
   }
 });
 
+// Créer un paper complet (PDF, images extraites, catégories, description) en une seule requête
+app.post('/api/papers/create-complete', upload.fields([
+  { name: 'pdf', maxCount: 1 },
+  { name: 'coverImage', maxCount: 1 }
+]), async (req, res) => {
+  const pdfFile = req.files?.pdf?.[0] || null;
+  const coverImageFile = req.files?.coverImage?.[0] || null;
+  let savedPaper = null;
+
+  // Nettoyer les fichiers temporaires déposés par multer
+  const cleanupTempFiles = () => {
+    [pdfFile, coverImageFile].forEach((file) => {
+      if (file && fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+      }
+    });
+  };
+
+  try {
+    console.log('💾 Création d\'un paper complet...');
+    
+    const paperData = req.body;
+
+    const paperToSave = {
+      title: paperData.title,
+      authors: paperData.authors || '',
+      publication_date: paperData.publication_date || new Date().toISOString().split('T')[0],
+      conference: paperData.conference || null,
+      reading_status: paperData.reading_status || 'non_lu',
+      image: paperData.image || null,
+      item_type: paperData.item_type || inferItemType(paperData),
+      doi: paperData.doi || null,
+      url: paperData.url || null,
+      arxiv_id: paperData.arxiv_id || null,
+      arxiv_version: paperData.arxiv_version || null,
+      isbn: paperData.isbn || null,
+      publisher: paperData.publisher || null,
+      abstract: paperData.abstract || null,
+      keywords: paperData.keywords || null,
+      // Auteurs structurés (JSON) : ORCID et découpage prénom / nom
+      author_list: paperData.author_list || null
+    };
+
+    // Validation des champs requis selon le type de document
+    const validationError = getPaperValidationError(paperToSave);
+    if (validationError) {
+      cleanupTempFiles();
+      return res.status(400).json(validationError);
+    }
+
+    let categories;
+    let selectedImages;
+    try {
+      categories = paperData.categories ? JSON.parse(paperData.categories) : [];
+      selectedImages = paperData.selectedImages ? JSON.parse(paperData.selectedImages) : [];
+    } catch (parseError) {
+      cleanupTempFiles();
+      return res.status(400).json({
+        error: 'Données invalides',
+        message: 'Les champs categories et selectedImages doivent être du JSON valide'
+      });
+    }
+
+    const categoriesError = await getCategoryIdsError(categories);
+    if (categoriesError) {
+      cleanupTempFiles();
+      return res.status(400).json(categoriesError);
+    }
+
+    let extractedImages;
+    try {
+      extractedImages = loadSelectedExtractedImages(selectedImages);
+    } catch (imageError) {
+      cleanupTempFiles();
+      return res.status(400).json({
+        error: 'Images invalides',
+        message: imageError.message
+      });
+    }
+
+    // Une prépublication n'est enregistrée qu'une fois, toutes versions confondues
+    const arxivConflictError = await getArxivConflictError(paperToSave.arxiv_id);
+    if (arxivConflictError) {
+      cleanupTempFiles();
+      return res.status(409).json(arxivConflictError);
+    }
+
+    // PDF d'une prépublication arXiv téléchargé côté serveur (aucun fichier fourni)
+    let pdfBuffer = pdfFile ? fs.readFileSync(pdfFile.path) : null;
+    let pdfName = pdfFile ? pdfFile.originalname : null;
+    if (!pdfFile && paperData.downloadArxivPdf === 'true' && paperToSave.arxiv_id) {
+      try {
+        console.log(`📥 Téléchargement du PDF arXiv: ${paperToSave.arxiv_id}${paperToSave.arxiv_version || ''}`);
+        pdfBuffer = await arxivClient.downloadPdf(paperToSave.arxiv_id, paperToSave.arxiv_version);
+        pdfName = `${paperToSave.arxiv_id.replace(/\//g, '_')}${paperToSave.arxiv_version || ''}.pdf`;
+      } catch (downloadError) {
+        cleanupTempFiles();
+        return res.status(502).json({
+          error: 'Téléchargement du PDF arXiv impossible',
+          message: downloadError.message
+        });
+      }
+    }
+
+    console.log(`📝 Création du paper: ${paperData.title}`);
+    console.log(`🏷️ Catégories: ${categories.join(', ')}`);
+    console.log(`🖼️ Images sélectionnées: ${extractedImages.length}`);
+
+    const descriptionData = paperData.description && paperData.description.trim()
+      ? { texte: paperData.description.trim() }
+      : null;
+
+    // Paper, catégories et description créés dans une transaction ; dossier, PDF et images écrits après
+    // sa validation (createCompletePaper retire le paper de la base si l'écriture des fichiers échoue)
+    savedPaper = await paperDB.createCompletePaper(
+      paperToSave,
+      pdfBuffer,
+      pdfName,
+      extractedImages,
+      categories,
+      descriptionData
+    );
+
+    const folderName = path.basename(savedPaper.folder_path);
+
+    // Image de couverture personnalisée, rangée dans imported-images
+    if (coverImageFile) {
+      const relativePath = await paperDB.files.saveImportedImage(
+        savedPaper.id,
+        savedPaper.title,
+        savedPaper.created_at,
+        fs.readFileSync(coverImageFile.path),
+        coverImageFile.originalname
+      );
+
+      await paperDB.papers.update(savedPaper.id, {
+        image: `http://localhost:${PORT}/api/papers/files/${folderName}/${relativePath}`
+      });
+      savedPaper = await paperDB.papers.getByIdWithDetails(savedPaper.id);
+    }
+
+    cleanupTempFiles();
+
+    console.log(`✅ Paper complet sauvegardé avec ID: ${savedPaper.id}`);
+
+    if (pdfBuffer) {
+      indexPaperPdfInBackground(savedPaper.id);
+    }
+
+    const stats = await paperDB.getStats();
+
+    res.status(201).json({
+      success: true,
+      id: savedPaper.id,
+      message: 'Paper sauvegardé avec succès',
+      paper: savedPaper,
+      folderName: folderName,
+      savedImages: extractedImages.length,
+      stats: stats
+    });
+
+  } catch (error) {
+    console.error('❌ Erreur lors de la création du paper complet:', error);
+
+    // Annuler le paper si une étape postérieure à sa création a échoué
+    if (savedPaper) {
+      try {
+        await paperDB.deleteCompletePaper(savedPaper.id);
+      } catch (rollbackError) {
+        console.error('❌ Erreur lors de l\'annulation du paper:', rollbackError);
+      }
+    }
+
+    cleanupTempFiles();
+
+    if (error.message.includes('UNIQUE constraint failed')) {
+      return res.status(409).json(await getDoiConflictError(req.body.doi));
+    }
+
+    res.status(500).json({ 
+      error: 'Erreur lors de la création du paper',
+      message: error.message
+    });
+  }
+});
+
+// ================================
+// ROUTES NOTES ET FICHIERS DES PAPERS
+// ================================
+
+app.use('/api/papers', notesRoutes);
+
+// ================================
+// ROUTES IMPORT / EXPORT BIBLIOGRAPHIQUE
+// ================================
+
+app.use('/api/papers', bibliographyRoutes);
+
+// ================================
+// ROUTES DOUBLONS
+// ================================
+
+app.use('/api/papers', duplicateRoutes);
+
+// ================================
+// ROUTES ARXIV
+// ================================
+
+app.use('/api/papers', arxivRoutes);
+
+// ================================
+// ROUTES PIÈCES JOINTES
+// ================================
+
+app.use('/api/papers', attachmentRoutes);
+
+// ================================
+// ROUTES GALERIE DE FIGURES
+// ================================
+
+app.use('/api/papers', figureRoutes);
+
+// ================================
+// ROUTES ACTIONS GROUPÉES
+// ================================
+
+app.use('/api/papers', batchRoutes);
+
+// ================================
+// ROUTES CORBEILLE
+// ================================
+
+app.use('/api/papers', trashRoutes);
+
+// ================================
+// ROUTES AUTEURS
+// ================================
+
+app.use('/api/authors', authorRoutes);
+
+// ================================
+// ROUTES VENUES
+// ================================
+
+app.use('/api/venues', venueRoutes);
+
+// ================================
+// ROUTES SAUVEGARDES
+// ================================
+
+app.use('/api/backups', backupRoutes);
+
+// ================================
+// ROUTES RECHERCHE PLEIN TEXTE
+// ================================
+
+app.use('/api/search', searchRoutes);
+
 // ✅ ROUTES AVEC PARAMÈTRES EN DERNIER
 
 // Récupérer un paper par ID avec détails
@@ -649,13 +1092,16 @@ app.get('/api/papers/:id', async (req, res) => {
     
     const paper = await paperDB.papers.getByIdWithDetails(paperId);
     
-    if (!paper) {
+    // Un paper de la corbeille n'est plus accessible que depuis la corbeille
+    if (!paper || paper.deleted_at) {
       return res.status(404).json({ 
         error: 'Paper non trouvé',
         message: `Aucun paper trouvé avec l'ID ${paperId}`
       });
     }
 
+    paper.pdf_url = getPaperPdfUrl(paper);
+
     console.log(`📄 Paper récupéré: ${paper.title}`);
     res.json({
       success: true,
@@ -671,32 +1117,282 @@ app.get('/api/papers/:id', async (req, res) => {
   }
 });
 
+// Ajouter, remplacer ou retirer le PDF d'un paper existant
+// Champs : pdf (fichier) ou remove=true ; extractImages=true pour proposer les images du nouveau PDF ;
+// verifyDoi=false pour ne pas comparer le DOI du PDF à celui du paper
+app.put('/api/papers/:id/pdf', upload.single('pdf'), async (req, res) => {
+  const cleanupTempFile = () => {
+    if (req.file && fs.existsSync(req.file.path)) {
+      fs.unlinkSync(req.file.path);
+    }
+  };
+
+  try {
+    const paperId = parseInt(req.params.id);
+
+    if (isNaN(paperId)) {
+      cleanupTempFile();
+      return res.status(400).json({ error: 'ID invalide' });
+    }
+
+    const remove = req.body.remove === 'true';
+    if (!req.file && !remove) {
+      return res.status(400).json({
+        error: 'Fichier PDF requis',
+        message: 'Envoyer un fichier (champ "pdf") ou remove=true pour retirer le PDF'
+      });
+    }
+
+    const pdfBuffer = req.file ? fs.readFileSync(req.file.path) : null;
+    cleanupTempFile();
+
+    // Vérifier la signature du fichier plutôt que son extension
+    if (pdfBuffer && pdfBuffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+      return res.status(400).json({
+        error: 'Fichier invalide',
+        message: `${req.file.originalname} n'est pas un PDF`
+      });
+    }
+
+    const paper = await paperDB.papers.getActiveById(paperId);
+
+    if (!paper) {
+      return res.status(404).json({
+        error: 'Paper non trouvé',
+        message: `Aucun paper trouvé avec l'ID ${paperId}`
+      });
+    }
+
+    const hadPdf = Boolean(paperDB.files.findPaperPDF(paper.id, paper.title, paper.created_at));
+    const warnings = [];
+    let doiCheck = null;
+    let images = [];
+
+    if (pdfBuffer) {
+      console.log(`📄 ${hadPdf ? 'Remplacement' : 'Ajout'} du PDF du paper ${paperId}: ${req.file.originalname}`);
+      // L'ancien PDF n'est supprimé qu'une fois le nouveau enregistré
+      const pdfPath = await paperDB.files.savePaperPDF(paper.id, paper.title, paper.created_at, pdfBuffer);
+      paperDB.files.removePaperPDF(paper.id, paper.title, paper.created_at, pdfPath);
+
+      // Comparer le DOI trouvé dans le PDF à celui du paper
+      if (req.body.verifyDoi !== 'false') {
+        try {
+          const pdfDoi = normalizeDoi(await extractDoiFromPdf(pdfPath)) || null;
+          const paperDoi = paper.doi || null;
+          const matches = pdfDoi && paperDoi ? pdfDoi.toLowerCase() === paperDoi.toLowerCase() : null;
+
+          doiCheck = { pdfDoi, paperDoi, matches };
+          if (matches === false) {
+            warnings.push(`Le DOI du PDF (${pdfDoi}) diffère de celui du paper (${paperDoi})`);
+          }
+        } catch (doiError) {
+          warnings.push(`Vérification du DOI impossible : ${doiError.message}`);
+        }
+      }
+
+      // Images du nouveau PDF, à sélectionner comme lors de l'ajout (POST /api/papers/:id/pdf-images)
+      if (req.body.extractImages === 'true') {
+        try {
+          const outputFolder = path.join('uploads', 'extracted_images', Date.now().toString());
+          const extractedImages = await extractImagesFromPdf(pdfPath, outputFolder);
+
+          images = extractedImages.map(toExtractedImage);
+        } catch (extractError) {
+          warnings.push(`Extraction des images impossible : ${extractError.message}`);
+        }
+      }
+    } else {
+      console.log(`🗑️ Retrait du PDF du paper ${paperId}`);
+      paperDB.files.removePaperPDF(paper.id, paper.title, paper.created_at);
+    }
+
+    // Les surlignages sont positionnés sur les pages de l'ancien PDF
+    const annotations = await paperDB.annotations.getForPaper(paperId);
+    if (hadPdf && annotations.length > 0) {
+      warnings.push(`${annotations.length} annotation${annotations.length > 1 ? 's' : ''} du PDF précédent conservée${annotations.length > 1 ? 's' : ''} : leur position peut ne plus correspondre`);
+    }
+
+    // Réindexer le texte (ou vider l'index si le PDF est retiré)
+    indexPaperPdfInBackground(paperId);
+
+    const updatedPaper = await paperDB.papers.getByIdWithDetails(paperId);
+    updatedPaper.pdf_url = getPaperPdfUrl(updatedPaper);
+
+    console.log(`✅ PDF du paper ${paperId} ${pdfBuffer ? 'enregistré' : 'retiré'}`);
+    res.json({
+      success: true,
+      message: pdfBuffer
+        ? (hadPdf ? 'PDF remplacé avec succès' : 'PDF ajouté avec succès')
+        : (hadPdf ? 'PDF retiré avec succès' : 'Aucun PDF à retirer'),
+      paper: updatedPaper,
+      doiCheck,
+      images,
+      warnings
+    });
+
+  } catch (error) {
+    console.error('❌ Erreur lors de l\'enregistrement du PDF:', error);
+    cleanupTempFile();
+    res.status(500).json({
+      error: 'Erreur lors de l\'enregistrement du PDF',
+      message: error.message
+    });
+  }
+});
+
+// Réextraire les images du PDF d'un paper pour en choisir d'autres (galerie de figures)
+// Les petites images et celles proches d'une image déjà enregistrée (empreinte perceptuelle) sont écartées
+// Body: { minWidth, minHeight } (facultatifs)
+app.post('/api/papers/:id/pdf-images/extract', async (req, res) => {
+  try {
+    const paperId = parseInt(req.params.id);
+
+    if (isNaN(paperId)) {
+      return res.status(400).json({ error: 'ID invalide' });
+    }
+
+    const paper = await paperDB.papers.getActiveById(paperId);
+
+    if (!paper) {
+      return res.status(404).json({
+        error: 'Paper non trouvé',
+        message: `Aucun paper trouvé avec l'ID ${paperId}`
+      });
+    }
+
+    const pdfPath = paperDB.files.findPaperPDF(paper.id, paper.title, paper.created_at);
+
+    if (!pdfPath) {
+      return res.status(400).json({
+        error: 'PDF manquant',
+        message: 'Ce paper n\'a pas de PDF'
+      });
+    }
+
+    const options = { knownHashes: await paperDB.figures.getKnownHashes(paperId) };
+    for (const key of ['minWidth', 'minHeight']) {
+      const value = parseInt(req.body[key]);
+      if (!isNaN(value) && value >= 0) options[key] = value;
+    }
+
+    const outputFolder = path.join('uploads', 'extracted_images', Date.now().toString());
+    const images = (await extractImagesFromPdf(pdfPath, outputFolder, options)).map(toExtractedImage);
+
+    console.log(`🖼️ ${images.length} nouvelles images proposées pour le paper ${paperId}`);
+    res.json({
+      success: true,
+      images,
+      message: images.length > 0
+        ? `${images.length} image${images.length > 1 ? 's' : ''} à sélectionner`
+        : 'Aucune nouvelle image dans le PDF'
+    });
+
+  } catch (error) {
+    console.error('❌ Erreur lors de la réextraction des images:', error);
+    res.status(500).json({
+      error: 'Erreur lors de l\'extraction des images',
+      message: error.message
+    });
+  }
+});
+
+// Enregistrer dans pdf-images les images extraites sélectionnées pour un paper existant
+// Body: { selectedImages: [{ name, url, page, caption, hash, width, height }] }
+app.post('/api/papers/:id/pdf-images', async (req, res) => {
+  try {
+    const paperId = parseInt(req.params.id);
+
+    if (isNaN(paperId)) {
+      return res.status(400).json({ error: 'ID invalide' });
+    }
+
+    const paper = await paperDB.papers.getActiveById(paperId);
+
+    if (!paper) {
+      return res.status(404).json({
+        error: 'Paper non trouvé',
+        message: `Aucun paper trouvé avec l'ID ${paperId}`
+      });
+    }
+
+    let images;
+    try {
+      images = loadSelectedExtractedImages(Array.isArray(req.body.selectedImages) ? req.body.selectedImages : []);
+    } catch (imageError) {
+      return res.status(400).json({
+        error: 'Images invalides',
+        message: imageError.message
+      });
+    }
+
+    await paperDB.files.saveSelectedPdfImages(paper.id, paper.title, paper.created_at, images);
+
+    console.log(`🖼️ ${images.length} images enregistrées pour le paper ${paperId}`);
+    res.json({
+      success: true,
+      savedImages: images.length,
+      message: `${images.length} image${images.length > 1 ? 's' : ''} enregistrée${images.length > 1 ? 's' : ''}`
+    });
+
+  } catch (error) {
+    console.error('❌ Erreur lors de l\'enregistrement des images:', error);
+    res.status(500).json({
+      error: 'Erreur lors de l\'enregistrement des images',
+      message: error.message
+    });
+  }
+});
+
 // Mettre à jour un paper avec catégories
 app.put('/api/papers/:id', async (req, res) => {
   try {
     const paperId = parseInt(req.params.id);
-    const updates = req.body;
-    const categories = updates.categories || [];
+    // Les catégories ne sont pas une colonne : remplacées seulement si elles sont fournies
+    const { categories, ...updates } = req.body;
     
     if (isNaN(paperId)) {
       return res.status(400).json({ error: 'ID invalide' });
     }
 
-    console.log(`✏️ Mise à jour du paper ID: ${paperId}`);
-    console.log('Données de mise à jour:', updates);
+    // Les colonnes gérées par le serveur (id, dossier, corbeille, dates...) ne passent pas par cette route
+    const protectedFields = Object.keys(updates).filter(field => !EDITABLE_PAPER_FIELDS.includes(field));
+    if (protectedFields.length > 0) {
+      return res.status(400).json({
+        error: 'Champs non modifiables',
+        message: `Champs refusés: ${protectedFields.join(', ')}`
+      });
+    }
 
-    // Mettre à jour le paper
-    const updatedPaper = await paperDB.papers.update(paperId, updates);
-    
-    if (!updatedPaper) {
+    const categoriesError = categories !== undefined ? await getCategoryIdsError(categories) : null;
+    if (categoriesError) {
+      return res.status(400).json(categoriesError);
+    }
+
+    // Un paper de la corbeille n'est modifiable qu'après sa restauration
+    const existingPaper = await paperDB.papers.getActiveById(paperId);
+    if (!existingPaper) {
       return res.status(404).json({ 
         error: 'Paper non trouvé',
         message: `Aucun paper trouvé avec l'ID ${paperId}`
       });
     }
 
+    // Type et champs requis vérifiés sur le paper modifié, comme à la création
+    // (un changement de statut ou de note ne bloque pas un paper ancien incomplet)
+    const touchesRequiredFields = Object.keys(updates).some(field => field === 'item_type' || field in PAPER_FIELD_LABELS);
+    const validationError = touchesRequiredFields && getPaperValidationError({ ...existingPaper, ...updates });
+    if (validationError) {
+      return res.status(400).json(validationError);
+    }
+
+    console.log(`✏️ Mise à jour du paper ID: ${paperId}`);
+    console.log('Données de mise à jour:', updates);
+
+    // Mettre à jour le paper
+    await paperDB.papers.update(paperId, updates);
+
     // Mettre à jour les catégories si fournies
-    if (categories.length >= 0) {
+    if (Array.isArray(categories)) {
       await paperDB.paperCategories.setPaperCategories(paperId, categories);
     }
 
@@ -711,6 +1407,14 @@ app.put('/api/papers/:id', async (req, res) => {
     });
 
   } catch (error) {
+    if (error.message.startsWith('Note invalide')) {
+      return res.status(400).json({ error: 'Données invalides', message: error.message });
+    }
+
+    if (error.message.includes('UNIQUE constraint failed')) {
+      return res.status(409).json(await getDoiConflictError(req.body.doi));
+    }
+
     console.error('❌ Erreur lors de la mise à jour du paper:', error);
     res.status(500).json({ 
       error: 'Erreur lors de la mise à jour du paper',
@@ -719,7 +1423,7 @@ app.put('/api/papers/:id', async (req, res) => {
   }
 });
 
-// Supprimer un paper
+// Mettre un paper à la corbeille (suppression définitive depuis la corbeille ou par la purge automatique)
 app.delete('/api/papers/:id', async (req, res) => {
   try {
     const paperId = parseInt(req.params.id);
@@ -728,21 +1432,21 @@ app.delete('/api/papers/:id', async (req, res) => {
       return res.status(400).json({ error: 'ID invalide' });
     }
 
-    console.log(`🗑️ Suppression du paper ID: ${paperId}`);
+    console.log(`🗑️ Mise à la corbeille du paper ID: ${paperId}`);
     
-    const deleted = await paperDB.deleteCompletePaper(paperId);
+    const [trashedId] = await paperDB.trashPapers([paperId]);
     
-    if (!deleted) {
+    if (!trashedId) {
       return res.status(404).json({ 
         error: 'Paper non trouvé',
         message: `Aucun paper trouvé avec l'ID ${paperId}`
       });
     }
 
-    console.log(`✅ Paper ${paperId} supprimé avec succès`);
+    console.log(`✅ Paper ${paperId} mis à la corbeille`);
     res.json({
       success: true,
-      message: 'Paper supprimé avec succès'
+      message: 'Paper mis à la corbeille'
     });
 
   } catch (error) {
@@ -786,10 +1490,22 @@ app.get('/api/categories', async (req, res) => {
   }
 });
 
-// Créer une nouvelle catégorie
+/**
+ * Code HTTP d'une erreur sur les catégories
+ * @param {Error} error
+ * @returns {number}
+ */
+function categoryErrorStatus(error) {
+  if (error.message.startsWith('Données de la catégorie invalides')
+    || error.message.startsWith('Nom de catégorie invalide')
+    || error.message.startsWith('Déplacement impossible')) return 400;
+  return 500;
+}
+
+// Créer une nouvelle catégorie (facultatif : catégorie parente, couleur, icône)
 app.post('/api/categories', async (req, res) => {
   try {
-    const { name } = req.body;
+    const { name, parent_id, color, icon } = req.body;
     
     if (!name || !name.trim()) {
       return res.status(400).json({ 
@@ -799,7 +1515,7 @@ app.post('/api/categories', async (req, res) => {
 
     console.log(`🆕 Création de la catégorie: ${name}`);
     
-    const categoryId = await paperDB.categories.create(name.trim());
+    const categoryId = await paperDB.categories.create(name.trim(), { parent_id, color, icon });
     const category = await paperDB.categories.getById(categoryId);
     console.log(`✅ Catégorie créée avec l'ID: ${categoryId}`);
 
@@ -820,14 +1536,162 @@ app.post('/api/categories', async (req, res) => {
       });
     }
 
-    res.status(500).json({ 
+    res.status(categoryErrorStatus(error)).json({ 
       error: 'Erreur lors de la création de la catégorie',
       message: error.message
     });
   }
 });
 
+// Modifier une catégorie : renommer, changer sa couleur, son icône ou sa catégorie parente (parent_id null : racine)
+app.put('/api/categories/:id', async (req, res) => {
+  try {
+    const categoryId = parseInt(req.params.id);
+
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ error: 'ID de catégorie invalide' });
+    }
+
+    const category = await paperDB.categories.update(categoryId, req.body || {});
+
+    if (!category) {
+      return res.status(404).json({
+        error: 'Catégorie non trouvée',
+        message: `Aucune catégorie trouvée avec l'ID ${categoryId}`
+      });
+    }
+
+    console.log(`✏️ Catégorie ${categoryId} modifiée`);
+    res.json({
+      success: true,
+      category
+    });
+
+  } catch (error) {
+    console.error('❌ Erreur lors de la modification de la catégorie:', error);
+
+    if (error.message.includes('UNIQUE constraint failed')) {
+      return res.status(409).json({
+        error: 'Nom de catégorie déjà existant',
+        message: 'Une autre catégorie porte déjà ce nom'
+      });
+    }
+
+    res.status(categoryErrorStatus(error)).json({
+      error: 'Erreur lors de la modification de la catégorie',
+      message: error.message
+    });
+  }
+});
+
+// Ranger des papers dans une catégorie (glisser-déposer)
+app.post('/api/categories/:id/papers', async (req, res) => {
+  try {
+    const categoryId = parseInt(req.params.id);
+    const paperIds = Array.isArray(req.body.paperIds)
+      ? req.body.paperIds.map(id => parseInt(id, 10)).filter(id => !isNaN(id))
+      : [];
+
+    if (isNaN(categoryId) || paperIds.length === 0) {
+      return res.status(400).json({ error: 'ID de catégorie et liste paperIds requis' });
+    }
+
+    if (!(await paperDB.categories.getById(categoryId))) {
+      return res.status(404).json({
+        error: 'Catégorie non trouvée',
+        message: `Aucune catégorie trouvée avec l'ID ${categoryId}`
+      });
+    }
+
+    const added = await paperDB.paperCategories.addPapersToCategory(categoryId, paperIds);
+    console.log(`🏷️ ${added} paper(s) ajouté(s) à la catégorie ${categoryId}`);
+
+    res.json({
+      success: true,
+      added
+    });
+
+  } catch (error) {
+    console.error('❌ Erreur lors de l\'ajout des papers à la catégorie:', error);
+    res.status(500).json({
+      error: 'Erreur lors de l\'ajout des papers à la catégorie',
+      message: error.message
+    });
+  }
+});
+
+// Fusionner une catégorie dans celle-ci (papers et sous-catégories déplacés, source supprimée)
+app.post('/api/categories/:id/merge', async (req, res) => {
+  try {
+    const targetId = parseInt(req.params.id);
+    const sourceId = parseInt(req.body.sourceId);
+
+    if (isNaN(targetId) || isNaN(sourceId)) {
+      return res.status(400).json({ error: 'ID de catégorie et sourceId requis' });
+    }
+
+    if (targetId === sourceId) {
+      return res.status(400).json({ error: 'Une catégorie ne peut pas être fusionnée avec elle-même' });
+    }
+
+    const result = await paperDB.categories.merge(targetId, sourceId);
+
+    if (!result) {
+      return res.status(404).json({
+        error: 'Catégorie non trouvée',
+        message: `Catégorie ${targetId} ou ${sourceId} introuvable`
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Catégories fusionnées avec succès',
+      ...result
+    });
+
+  } catch (error) {
+    console.error('❌ Erreur lors de la fusion des catégories:', error);
+    res.status(error.message.startsWith('Fusion impossible') ? 400 : 500).json({
+      error: 'Erreur lors de la fusion des catégories',
+      message: error.message
+    });
+  }
+});
+
+// Papers et sous-catégories touchés par la suppression d'une catégorie
+app.get('/api/categories/:id/usage', async (req, res) => {
+  try {
+    const categoryId = parseInt(req.params.id);
+
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ error: 'ID de catégorie invalide' });
+    }
+
+    const usage = await paperDB.categories.getUsage(categoryId);
+
+    if (!usage) {
+      return res.status(404).json({
+        error: 'Catégorie non trouvée',
+        message: `Aucune catégorie trouvée avec l'ID ${categoryId}`
+      });
+    }
+
+    res.json({
+      success: true,
+      ...usage
+    });
+
+  } catch (error) {
+    console.error('❌ Erreur lors de la récupération de l\'usage de la catégorie:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la récupération de l\'usage de la catégorie',
+      message: error.message
+    });
+  }
+});
+
 // Supprimer une catégorie
+// Une catégorie utilisée par des papers n'est supprimée qu'avec ?confirm=true (sinon 409 et liste des papers touchés)
 app.delete('/api/categories/:id', async (req, res) => {
   try {
     const categoryId = parseInt(req.params.id);
@@ -836,20 +1700,32 @@ app.delete('/api/categories/:id', async (req, res) => {
       return res.status(400).json({ error: 'ID de catégorie invalide' });
     }
 
-    console.log(`🗑️ Suppression de la catégorie ID: ${categoryId}`);
-    
-    const deleted = await paperDB.categories.delete(categoryId);
-    
-    if (!deleted) {
+    const usage = await paperDB.categories.getUsage(categoryId);
+
+    if (!usage) {
       return res.status(404).json({ 
         error: 'Catégorie non trouvée',
         message: `Aucune catégorie trouvée avec l'ID ${categoryId}`
       });
     }
 
-    console.log(`✅ Catégorie ${categoryId} supprimée avec succès`);
+    if (usage.papers.length > 0 && req.query.confirm !== 'true') {
+      return res.status(409).json({
+        error: 'Confirmation requise',
+        message: `La catégorie « ${usage.category.name} » est utilisée par ${usage.papers.length} paper(s)`,
+        affectedPapers: usage.papers,
+        childCount: usage.childCount
+      });
+    }
+
+    console.log(`🗑️ Suppression de la catégorie ID: ${categoryId}`);
+    
+    await paperDB.categories.delete(categoryId);
+
+    console.log(`✅ Catégorie ${categoryId} supprimée avec succès (${usage.papers.length} papers retirés)`);
     res.json({
       success: true,
+      affectedPapers: usage.papers.length,
       message: 'Catégorie supprimée avec succès'
     });
 
@@ -887,14 +1763,73 @@ app.get('/', (req, res) => {
       'POST /api/papers/extract-from-pdf',
       'POST /api/papers/upload-image',
       'GET /api/papers/stats',
-      'GET /api/papers',
+      'GET /api/papers?q=&status=&categories=&categoryMode=&includeDescendants=&year=&dateFrom=&dateTo=&conference=&venue=&author=&sortBy=&sortOrder=&page=&limit=',
+      'GET /api/papers/conferences',
       'POST /api/papers',
+      'POST /api/papers/create-complete',
+      'GET /api/papers/:id/notes',
+      'GET /api/papers/:id/citation?style=',
+      'POST /api/papers/:id/notes',
+      'GET /api/papers/:id/annotations',
+      'POST /api/papers/:id/annotations',
+      'PUT /api/papers/:id/annotations/:annotationId',
+      'DELETE /api/papers/:id/annotations/:annotationId',
+      'GET /api/papers/files/:folderName/*',
+      'GET /api/papers/export?format=bibtex|ris|csljson&ids=&q=&status=&categories=...',
+      'GET /api/papers/bibliography?style=apa|ieee|acm|vancouver&output=text|html&ids=&q=&status=&categories=...',
+      'POST /api/papers/import/preview',
+      'POST /api/papers/import',
+      'GET /api/papers/duplicates?threshold=',
+      'POST /api/papers/merge',
+      'POST /api/papers/metadata-from-arxiv',
+      'POST /api/papers/:id/arxiv/refresh',
+      'GET /api/papers/:id/attachments',
+      'POST /api/papers/:id/attachments',
+      'GET /api/papers/:id/attachments/:attachmentId/download?inline=',
+      'PUT /api/papers/:id/attachments/:attachmentId',
+      'DELETE /api/papers/:id/attachments/:attachmentId',
       'GET /api/papers/:id',
       'PUT /api/papers/:id',
+      'PUT /api/papers/:id/pdf',
+      'POST /api/papers/:id/pdf-images',
+      'POST /api/papers/:id/pdf-images/extract',
+      'GET /api/papers/:id/figures',
+      'PUT /api/papers/:id/figures/:folder/:fileName',
+      'DELETE /api/papers/:id/figures/:folder/:fileName',
+      'POST /api/papers/batch/status',
+      'POST /api/papers/batch/categories',
+      'POST /api/papers/batch/delete',
+      'GET /api/papers/trash',
+      'POST /api/papers/trash/restore',
+      'POST /api/papers/trash/purge',
+      'DELETE /api/papers/trash',
       'DELETE /api/papers/:id',
+      'GET /api/authors?q=&limit=',
+      'GET /api/authors/:id',
+      'GET /api/venues',
+      'POST /api/venues',
+      'POST /api/venues/match-papers',
+      'PUT /api/venues/:id',
+      'DELETE /api/venues/:id',
+      'POST /api/venues/:id/merge',
+      'POST /api/venues/:id/aliases',
+      'DELETE /api/venues/:id/aliases/:aliasId',
+      'GET /api/backups',
+      'POST /api/backups',
+      'POST /api/backups/restore',
+      'GET /api/backups/:name/download',
+      'POST /api/backups/:name/restore',
+      'DELETE /api/backups/:name',
+      'GET /api/search?q=&sources=&page=&limit=',
+      'GET /api/search/status',
+      'POST /api/search/reindex',
       'GET /api/categories',
       'POST /api/categories',
-      'DELETE /api/categories/:id'
+      'PUT /api/categories/:id',
+      'POST /api/categories/:id/papers',
+      'POST /api/categories/:id/merge',
+      'GET /api/categories/:id/usage',
+      'DELETE /api/categories/:id?confirm=true'
     ]
   });
 });
@@ -907,6 +1842,10 @@ app.get('/', (req, res) => {
 async function startServer() {
   try {
     await initializeApp();
+
+    // Sauvegardes automatiques de la bibliothèque
+    startBackupScheduler();
+    startTrashPurgeScheduler();
     
     app.listen(PORT, () => {
       console.log(`🚀 Serveur démarré sur http://localhost:${PORT}`);
@@ -967,8 +1906,12 @@ process.on('SIGTERM', async () => {
 // DÉMARRAGE DE L'APPLICATION
 // ================================
 
-// Démarrer l'application
-startServer().catch((error) => {
-  console.error('❌ Erreur fatale au démarrage:', error);
-  process.exit(1);
-});
\ No newline at end of file
+// Démarrer l'application (les tests chargent le module sans démarrer le serveur)
+if (require.main === module) {
+  startServer().catch((error) => {
+    console.error('❌ Erreur fatale au démarrage:', error);
+    process.exit(1);
+  });
+}
+
+module.exports = app;
\ No newline at end of file
@@ -0,0 +1,453 @@
+// backend/src/backup/archive.js - Archives de sauvegarde : base SQLite, dossier MyPaperList et manifeste avec sommes de contrôle
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { Transform } = require('stream');
+const { pipeline } = require('stream/promises');
+const archiver = require('archiver');
+const yauzl = require('yauzl');
+const { getDatabase } = require('../database/database');
+const { getMigrationStatus } = require('../database/migrator');
+const { BACKUP_CONFIG, BACKUP_FORMAT, BACKUP_FORMAT_VERSION, BACKUP_TRIGGERS } = require('./config');
+
+// Emplacements dans l'archive
+const MANIFEST_ENTRY = 'manifest.json';
+const DATABASE_ENTRY = 'database/paperDatabase.db';
+const LIBRARY_PREFIX = 'MyPaperList/';
+
+// Nom des archives : backup-2025-01-31T08-00-00-000Z-manual.zip
+const BACKUP_NAME_PATTERN = /^backup-[0-9TZ-]+-(manual|auto|pre-restore)\.zip$/;
+
+// Une seule sauvegarde ou restauration à la fois
+let activeOperation = null;
+
+/**
+ * Exécuter une sauvegarde ou une restauration en excluant les autres
+ * @param {string} label - Opération en cours (message d'erreur)
+ * @param {Function} work - Fonction asynchrone
+ * @returns {Promise<any>}
+ */
+async function withBackupLock(label, work) {
+  if (activeOperation) {
+    throw new Error(`Opération déjà en cours : ${activeOperation}`);
+  }
+
+  activeOperation = label;
+  try {
+    return await work();
+  } finally {
+    activeOperation = null;
+  }
+}
+
+/**
+ * Vérifier le nom d'une archive (aucun chemin accepté)
+ * @param {string} name
+ * @returns {boolean}
+ */
+function isBackupName(name) {
+  return typeof name === 'string' && BACKUP_NAME_PATTERN.test(name);
+}
+
+/**
+ * Chemin d'une archive du dossier de sauvegarde
+ * @param {string} name
+ * @returns {string|null} - Null si le nom est invalide ou l'archive absente
+ */
+function getBackupPath(name) {
+  if (!isBackupName(name)) {
+    return null;
+  }
+
+  const backupPath = path.join(BACKUP_CONFIG.dir, name);
+  return fs.existsSync(backupPath) ? backupPath : null;
+}
+
+/**
+ * Lister récursivement les fichiers d'un dossier
+ * @param {string} dir
+ * @param {string} prefix - Chemin relatif (séparateurs "/")
+ * @returns {Array<{ fullPath: string, relativePath: string }>}
+ */
+function walkFiles(dir, prefix = '') {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    const relativePath = `${prefix}${entry.name}`;
+
+    if (entry.isDirectory()) return walkFiles(fullPath, `${relativePath}/`);
+    if (entry.isFile()) return [{ fullPath, relativePath }];
+    return [];
+  });
+}
+
+/**
+ * Somme SHA-256 d'un fichier
+ * @param {string} filePath
+ * @returns {Promise<string>}
+ */
+async function sha256File(filePath) {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Exécuter une requête sur la connexion courante
+ * @param {string} method - run ou get
+ * @param {string} sql
+ * @param {Array} params
+ * @returns {Promise<any>}
+ */
+function databaseQuery(method, sql, params = []) {
+  return new Promise((resolve, reject) => {
+    getDatabase()[method](sql, params, (err, result) => {
+      if (err) reject(err);
+      else resolve(result);
+    });
+  });
+}
+
+/**
+ * Nombre d'éléments de la bibliothèque (affiché dans la liste des sauvegardes)
+ * @returns {Promise<Object>} - { papers, categories, authors, venues }
+ */
+async function countLibrary() {
+  const counts = await databaseQuery('get', `
+    SELECT
+      (SELECT COUNT(*) FROM Papers) AS papers,
+      (SELECT COUNT(*) FROM Categories) AS categories,
+      (SELECT COUNT(*) FROM Authors) AS authors,
+      (SELECT COUNT(*) FROM Venues) AS venues
+  `);
+  return { ...counts };
+}
+
+/**
+ * Créer une archive de la bibliothèque
+ * La base est copiée par VACUUM INTO (copie cohérente sans fermer la connexion)
+ * @param {Object} options - { trigger: manual | auto | pre-restore }
+ * @returns {Promise<Object>} - Sauvegarde créée (voir describeBackup)
+ */
+async function createBackup(options = {}) {
+  const trigger = BACKUP_TRIGGERS.includes(options.trigger) ? options.trigger : 'manual';
+  const createdAt = new Date().toISOString();
+  const name = `backup-${createdAt.replace(/[:.]/g, '-')}-${trigger}.zip`;
+  const backupPath = path.join(BACKUP_CONFIG.dir, name);
+  const partialPath = `${backupPath}.part`;
+  const snapshotPath = path.join(BACKUP_CONFIG.dir, `.snapshot-${Date.now()}.db`);
+
+  fs.mkdirSync(BACKUP_CONFIG.dir, { recursive: true });
+
+  try {
+    await databaseQuery('run', 'VACUUM INTO ?', [snapshotPath]);
+
+    const sources = [
+      { fullPath: snapshotPath, entry: DATABASE_ENTRY },
+      ...walkFiles(BACKUP_CONFIG.libraryDir).map(file => ({
+        fullPath: file.fullPath,
+        entry: `${LIBRARY_PREFIX}${file.relativePath}`
+      }))
+    ];
+
+    const files = [];
+    for (const source of sources) {
+      files.push({
+        path: source.entry,
+        size: fs.statSync(source.fullPath).size,
+        sha256: await sha256File(source.fullPath)
+      });
+    }
+
+    const { currentVersion } = await getMigrationStatus();
+    const manifest = {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      createdAt,
+      trigger,
+      schemaVersion: currentVersion,
+      counts: await countLibrary(),
+      files
+    };
+
+    // Écriture dans un fichier temporaire : une archive interrompue n'apparaît pas dans la liste
+    const output = fs.createWriteStream(partialPath);
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    const written = new Promise((resolve, reject) => {
+      output.on('close', resolve);
+      output.on('error', reject);
+      archive.on('error', reject);
+    });
+
+    archive.pipe(output);
+    sources.forEach(source => archive.file(source.fullPath, { name: source.entry }));
+    archive.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_ENTRY });
+    await archive.finalize();
+    await written;
+
+    fs.renameSync(partialPath, backupPath);
+    console.log(`💾 Sauvegarde créée: ${name} (${files.length} fichiers)`);
+
+    return describeBackup(name, manifest);
+  } catch (error) {
+    fs.rmSync(partialPath, { force: true });
+    throw error;
+  } finally {
+    fs.rmSync(snapshotPath, { force: true });
+  }
+}
+
+/**
+ * Ouvrir une archive zip (lecture entrée par entrée)
+ * @param {string} zipPath
+ * @returns {Promise<yauzl.ZipFile>}
+ */
+function openZip(zipPath) {
+  return new Promise((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true }, (err, zipFile) => {
+      if (err) reject(new Error(`Archive invalide: ${err.message}`));
+      else resolve(zipFile);
+    });
+  });
+}
+
+/**
+ * Parcourir les fichiers d'une archive
+ * @param {string} zipPath
+ * @param {Function} handler - async (entry, openStream) => boolean (false pour arrêter le parcours)
+ * @returns {Promise<void>}
+ */
+async function forEachZipEntry(zipPath, handler) {
+  const zipFile = await openZip(zipPath);
+
+  await new Promise((resolve, reject) => {
+    zipFile.on('error', reject);
+    zipFile.on('end', resolve);
+    zipFile.on('entry', async (entry) => {
+      try {
+        // Dossiers ignorés
+        if (entry.fileName.endsWith('/')) {
+          zipFile.readEntry();
+          return;
+        }
+
+        const openStream = () => new Promise((resolveStream, rejectStream) => {
+          zipFile.openReadStream(entry, (err, stream) => {
+            if (err) rejectStream(err);
+            else resolveStream(stream);
+          });
+        });
+
+        const proceed = await handler(entry, openStream);
+        if (proceed === false) {
+          zipFile.close();
+          resolve();
+        } else {
+          zipFile.readEntry();
+        }
+      } catch (error) {
+        zipFile.close();
+        reject(error);
+      }
+    });
+
+    zipFile.readEntry();
+  });
+}
+
+/**
+ * Lire et vérifier le manifeste d'une archive
+ * @param {string} zipPath
+ * @returns {Promise<Object>} - Manifeste
+ */
+async function readManifest(zipPath) {
+  let manifest = null;
+
+  await forEachZipEntry(zipPath, async (entry, openStream) => {
+    if (entry.fileName !== MANIFEST_ENTRY) {
+      return true;
+    }
+
+    const chunks = [];
+    for await (const chunk of await openStream()) {
+      chunks.push(chunk);
+    }
+
+    try {
+      manifest = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new Error('Archive invalide: manifeste illisible');
+    }
+    return false;
+  });
+
+  if (!manifest) {
+    throw new Error('Archive invalide: manifest.json absent');
+  }
+  if (manifest.format !== BACKUP_FORMAT || !Array.isArray(manifest.files)) {
+    throw new Error('Archive invalide: ce fichier n\'est pas une sauvegarde de la bibliothèque');
+  }
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error(`Archive invalide: format v${manifest.formatVersion} non pris en charge`);
+  }
+  if (!manifest.files.some(file => file.path === DATABASE_ENTRY)) {
+    throw new Error('Archive invalide: base de données absente');
+  }
+
+  return manifest;
+}
+
+/**
+ * Extraire une archive dans un dossier après vérification de chaque fichier
+ * - Seuls les fichiers listés dans le manifeste sont acceptés (base et MyPaperList)
+ * - Taille et somme SHA-256 de chaque fichier comparées au manifeste
+ * @param {string} zipPath
+ * @param {string} targetDir - Dossier d'extraction (créé)
+ * @returns {Promise<Object>} - Manifeste
+ */
+async function extractBackup(zipPath, targetDir) {
+  const manifest = await readManifest(zipPath);
+  const expected = new Map(manifest.files.map(file => [file.path, file]));
+  const root = path.resolve(targetDir);
+
+  for (const filePath of expected.keys()) {
+    if (filePath !== DATABASE_ENTRY && !filePath.startsWith(LIBRARY_PREFIX)) {
+      throw new Error(`Archive invalide: chemin inattendu ${filePath}`);
+    }
+  }
+
+  fs.mkdirSync(root, { recursive: true });
+
+  await forEachZipEntry(zipPath, async (entry, openStream) => {
+    if (entry.fileName === MANIFEST_ENTRY) {
+      return true;
+    }
+
+    const file = expected.get(entry.fileName);
+    const destination = path.resolve(root, entry.fileName);
+
+    if (!file || !destination.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Archive invalide: fichier non référencé ${entry.fileName}`);
+    }
+
+    fs.mkdirSync(path.dirname(destination), { recursive: true });
+
+    const hash = crypto.createHash('sha256');
+    const hashing = new Transform({
+      transform(chunk, encoding, callback) {
+        hash.update(chunk);
+        callback(null, chunk);
+      }
+    });
+    await pipeline(await openStream(), hashing, fs.createWriteStream(destination));
+
+    if (fs.statSync(destination).size !== file.size || hash.digest('hex') !== file.sha256) {
+      throw new Error(`Archive invalide: somme de contrôle incorrecte pour ${entry.fileName}`);
+    }
+
+    expected.delete(entry.fileName);
+    return true;
+  });
+
+  if (expected.size > 0) {
+    throw new Error(`Archive invalide: ${expected.size} fichier(s) manquant(s) (${[...expected.keys()][0]}...)`);
+  }
+
+  return manifest;
+}
+
+/**
+ * Résumé d'une sauvegarde pour l'interface
+ * @param {string} name
+ * @param {Object|null} manifest
+ * @returns {Object} - { name, size, createdAt, trigger, schemaVersion, counts, fileCount }
+ */
+function describeBackup(name, manifest) {
+  const stats = fs.statSync(path.join(BACKUP_CONFIG.dir, name));
+
+  return {
+    name,
+    size: stats.size,
+    createdAt: manifest ? manifest.createdAt : stats.mtime.toISOString(),
+    trigger: manifest ? manifest.trigger : name.match(BACKUP_NAME_PATTERN)[1],
+    schemaVersion: manifest ? manifest.schemaVersion : null,
+    counts: manifest ? manifest.counts : null,
+    fileCount: manifest ? manifest.files.length : null
+  };
+}
+
+/**
+ * Lister les sauvegardes, de la plus récente à la plus ancienne
+ * @returns {Promise<Array<Object>>}
+ */
+async function listBackups() {
+  if (!fs.existsSync(BACKUP_CONFIG.dir)) {
+    return [];
+  }
+
+  const names = fs.readdirSync(BACKUP_CONFIG.dir).filter(isBackupName).sort().reverse();
+  const backups = [];
+
+  for (const name of names) {
+    try {
+      backups.push(describeBackup(name, await readManifest(path.join(BACKUP_CONFIG.dir, name))));
+    } catch (error) {
+      backups.push({ ...describeBackup(name, null), error: error.message });
+    }
+  }
+
+  return backups;
+}
+
+/**
+ * Supprimer une sauvegarde
+ * @param {string} name
+ * @returns {boolean} - False si l'archive n'existe pas
+ */
+function deleteBackup(name) {
+  const backupPath = getBackupPath(name);
+  if (!backupPath) {
+    return false;
+  }
+
+  fs.unlinkSync(backupPath);
+  console.log(`🗑️ Sauvegarde supprimée: ${name}`);
+  return true;
+}
+
+/**
+ * Ne garder que les sauvegardes automatiques les plus récentes
+ * @param {number} retention - Nombre de sauvegardes automatiques conservées (0 pour toutes)
+ * @returns {Array<string>} - Archives supprimées
+ */
+function pruneBackups(retention = BACKUP_CONFIG.retention) {
+  if (!retention || !fs.existsSync(BACKUP_CONFIG.dir)) {
+    return [];
+  }
+
+  const removed = fs.readdirSync(BACKUP_CONFIG.dir)
+    .filter(name => isBackupName(name) && name.endsWith('-auto.zip'))
+    .sort()
+    .reverse()
+    .slice(retention);
+
+  removed.forEach(deleteBackup);
+  return removed;
+}
+
+module.exports = {
+  DATABASE_ENTRY,
+  LIBRARY_PREFIX,
+  withBackupLock,
+  isBackupName,
+  getBackupPath,
+  createBackup,
+  readManifest,
+  extractBackup,
+  listBackups,
+  deleteBackup,
+  pruneBackups
+};
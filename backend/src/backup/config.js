@@ -0,0 +1,45 @@
+// backend/src/backup/config.js - Configuration des sauvegardes de la bibliothèque (dossier, planification, rétention)
+const path = require('path');
+
+/**
+ * Lire un entier positif depuis l'environnement
+ * @param {string} name
+ * @param {number} fallback
+ * @returns {number}
+ */
+function envInteger(name, fallback) {
+  const value = parseInt(process.env[name], 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+/**
+ * Configuration par défaut, surchargeable par variables d'environnement
+ * - BACKUP_DIR : dossier des archives (partagé avec les copies prises avant migration)
+ * - BACKUP_INTERVAL_HOURS : intervalle des sauvegardes automatiques (0 pour les désactiver)
+ * - BACKUP_RETENTION : nombre de sauvegardes automatiques conservées (0 pour toutes)
+ */
+const BACKUP_CONFIG = {
+  dir: process.env.BACKUP_DIR || path.join(__dirname, '..', '..', 'backups'),
+  intervalHours: envInteger('BACKUP_INTERVAL_HOURS', 24),
+  retention: envInteger('BACKUP_RETENTION', 7),
+  // Dossier des fichiers des papers (PDF, images, notes)
+  libraryDir: path.join(process.cwd(), 'MyPaperList')
+};
+
+// Format des archives (manifest.json)
+const BACKUP_FORMAT = 'formpaper3000-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+// Origine d'une sauvegarde, reprise dans le nom de l'archive
+const BACKUP_TRIGGERS = ['manual', 'auto', 'pre-restore'];
+
+// Modes de restauration
+const RESTORE_MODES = ['replace', 'merge'];
+
+module.exports = {
+  BACKUP_CONFIG,
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  BACKUP_TRIGGERS,
+  RESTORE_MODES
+};
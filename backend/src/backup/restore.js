@@ -0,0 +1,313 @@
+// backend/src/backup/restore.js - Restauration d'une archive : remplacement de la bibliothèque ou fusion dans la bibliothèque courante
+const fs = require('fs');
+const path = require('path');
+const sqlite3 = require('sqlite3');
+const { paperDB } = require('../database');
+const { getDatabasePath } = require('../database/database');
+const { getMigrationStatus } = require('../database/migrator');
+const { normalizeText } = require('../database/duplicates');
+const {
+  createPaperFolderStructure,
+  formatFolderName,
+  getPaperFolderPath,
+  loadPaperNotes,
+  savePaperNotes,
+  rewriteFileReferences
+} = require('../database/fileOperations');
+const { BACKUP_CONFIG, RESTORE_MODES } = require('./config');
+const { DATABASE_ENTRY, withBackupLock, createBackup, extractBackup } = require('./archive');
+
+// Métadonnées reprises d'un paper de l'archive lors d'une fusion (la venue est rapprochée à nouveau)
+const MERGED_PAPER_FIELDS = [
+  'title', 'authors', 'publication_date', 'conference', 'conference_abbreviation', 'reading_status', 'item_type',
+  'doi', 'url', 'arxiv_id', 'arxiv_version', 'isbn', 'publisher', 'abstract', 'keywords', 'rating'
+];
+
+/**
+ * Déplacer un dossier (copie puis suppression si la destination est sur un autre volume)
+ * @param {string} from
+ * @param {string} to
+ */
+function moveDirectory(from, to) {
+  try {
+    fs.renameSync(from, to);
+  } catch (error) {
+    if (error.code !== 'EXDEV') throw error;
+    fs.cpSync(from, to, { recursive: true });
+    fs.rmSync(from, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Remplacer la base et le dossier MyPaperList par ceux de l'archive
+ * Une sauvegarde de la bibliothèque courante est créée avant toute modification
+ * La base restaurée est mise à niveau par les migrations à la reconnexion
+ * @param {string} stagingDir - Dossier d'extraction de l'archive
+ * @returns {Promise<Object>} - { safetyBackup }
+ */
+async function replaceLibrary(stagingDir) {
+  const safetyBackup = await createBackup({ trigger: 'pre-restore' });
+
+  const dbPath = getDatabasePath();
+  const previousDatabase = `${dbPath}.before-restore`;
+  const previousLibrary = `${BACKUP_CONFIG.libraryDir}.before-restore-${Date.now()}`;
+  const stagedLibrary = path.join(stagingDir, 'MyPaperList');
+
+  await paperDB.disconnect();
+
+  try {
+    fs.copyFileSync(dbPath, previousDatabase);
+
+    try {
+      fs.copyFileSync(path.join(stagingDir, DATABASE_ENTRY), dbPath);
+
+      if (fs.existsSync(BACKUP_CONFIG.libraryDir)) {
+        moveDirectory(BACKUP_CONFIG.libraryDir, previousLibrary);
+      }
+
+      if (fs.existsSync(stagedLibrary)) {
+        moveDirectory(stagedLibrary, BACKUP_CONFIG.libraryDir);
+      } else {
+        fs.mkdirSync(BACKUP_CONFIG.libraryDir, { recursive: true });
+      }
+    } catch (error) {
+      // Remettre la bibliothèque en place
+      console.error('❌ Erreur remplacement de la bibliothèque, retour à l\'état précédent:', error);
+      fs.copyFileSync(previousDatabase, dbPath);
+      if (fs.existsSync(previousLibrary)) {
+        fs.rmSync(BACKUP_CONFIG.libraryDir, { recursive: true, force: true });
+        moveDirectory(previousLibrary, BACKUP_CONFIG.libraryDir);
+      }
+      throw error;
+    }
+  } finally {
+    await paperDB.connect();
+    fs.rmSync(previousDatabase, { force: true });
+  }
+
+  fs.rmSync(previousLibrary, { recursive: true, force: true });
+  console.log(`♻️ Bibliothèque remplacée (sauvegarde préalable: ${safetyBackup.name})`);
+
+  return { safetyBackup: safetyBackup.name };
+}
+
+/**
+ * Lire les données de la base d'une archive (lecture seule, schéma éventuellement plus ancien)
+ * @param {string} archiveDbPath
+ * @returns {Promise<Object>} - { papers, categories, descriptions, authors } (regroupés par ID de paper)
+ */
+async function readArchiveLibrary(archiveDbPath) {
+  const archiveDb = await new Promise((resolve, reject) => {
+    const connection = new sqlite3.Database(archiveDbPath, sqlite3.OPEN_READONLY, (err) => {
+      if (err) reject(err);
+      else resolve(connection);
+    });
+  });
+
+  const query = (sql) => new Promise((resolve, reject) => {
+    archiveDb.all(sql, [], (err, rows) => {
+      if (err) reject(err);
+      else resolve(rows);
+    });
+  });
+
+  const groupBy = (rows, mapRow) => rows.reduce((groups, row) => {
+    if (!groups.has(row.paper_id)) groups.set(row.paper_id, []);
+    groups.get(row.paper_id).push(mapRow(row));
+    return groups;
+  }, new Map());
+
+  try {
+    const tables = new Set((await query("SELECT name FROM sqlite_master WHERE type = 'table'")).map(table => table.name));
+
+    // Les papers de la corbeille de l'archive ne sont pas repris
+    const papers = (await query('SELECT * FROM Papers ORDER BY id')).filter(paper => !paper.deleted_at);
+    const categories = tables.has('PaperCategories')
+      ? groupBy(await query(`
+          SELECT pc.paper_id, c.name FROM PaperCategories pc
+          JOIN Categories c ON c.id = pc.categorie_id
+        `), row => row.name)
+      : new Map();
+    const descriptions = tables.has('Descriptions')
+      ? new Map((await query('SELECT paper_id, texte, images FROM Descriptions')).map(row => [row.paper_id, row]))
+      : new Map();
+    // Auteurs structurés (ORCID), absents des archives antérieures à la table Authors
+    const authors = tables.has('PaperAuthors')
+      ? groupBy(await query(`
+          SELECT pa.paper_id, a.given_name, a.family_name, a.orcid FROM PaperAuthors pa
+          JOIN Authors a ON a.id = pa.author_id
+          ORDER BY pa.paper_id, pa.position
+        `), row => ({ given: row.given_name, family: row.family_name, orcid: row.orcid }))
+      : new Map();
+    // Pièces jointes, absentes des archives antérieures à la table Attachments
+    const attachments = tables.has('Attachments')
+      ? groupBy(await query('SELECT * FROM Attachments ORDER BY paper_id, id'), row => row)
+      : new Map();
+
+    return { papers, categories, descriptions, authors, attachments };
+  } finally {
+    archiveDb.close();
+  }
+}
+
+/**
+ * Index des papers de la bibliothèque courante (DOI, identifiant arXiv, titre et année)
+ * @param {Array<Object>} papers
+ * @returns {Object} - { find(paper) => raison | null, add(paper) }
+ */
+function createLibraryIndex(papers) {
+  const dois = new Set();
+  const arxivIds = new Set();
+  const titles = new Set();
+  const titleKey = (paper) => `${normalizeText(paper.title)}|${String(paper.publication_date || '').slice(0, 4)}`;
+
+  const add = (paper) => {
+    if (paper.doi) dois.add(String(paper.doi).toLowerCase());
+    if (paper.arxiv_id) arxivIds.add(paper.arxiv_id);
+    titles.add(titleKey(paper));
+  };
+
+  papers.forEach(add);
+
+  return {
+    add,
+    find: (paper) => {
+      if (paper.doi && dois.has(String(paper.doi).toLowerCase())) return 'doi';
+      if (paper.arxiv_id && arxivIds.has(paper.arxiv_id)) return 'arxiv';
+      if (titles.has(titleKey(paper))) return 'title';
+      return null;
+    }
+  };
+}
+
+/**
+ * Ajouter à la bibliothèque courante les papers de l'archive qui n'y figurent pas
+ * - Papers déjà présents (même DOI, même identifiant arXiv ou même titre la même année) ignorés
+ * - Catégories rapprochées par nom, dossier copié et URLs de fichiers réécrites vers le nouveau dossier
+ * @param {string} stagingDir - Dossier d'extraction de l'archive
+ * @returns {Promise<Object>} - { added, skipped, failed }
+ */
+async function mergeLibrary(stagingDir) {
+  const archive = await readArchiveLibrary(path.join(stagingDir, DATABASE_ENTRY));
+  const library = createLibraryIndex(await paperDB.papers.getAll());
+  const result = { added: [], skipped: [], failed: [] };
+
+  for (const paper of archive.papers) {
+    const reason = library.find(paper);
+    if (reason) {
+      result.skipped.push({ title: paper.title, reason });
+      continue;
+    }
+
+    let created = null;
+
+    try {
+      const paperData = Object.fromEntries(MERGED_PAPER_FIELDS.map(field => [field, paper[field]]));
+      paperData.author_list = archive.authors.get(paper.id);
+
+      const paperId = await paperDB.papers.create(paperData);
+      created = await paperDB.papers.getById(paperId);
+
+      // Fichiers du paper (PDF, images, notes, pièces jointes) copiés dans son nouveau dossier
+      const fromFolder = formatFolderName(paper.id, paper.title, paper.created_at);
+      const toFolder = formatFolderName(paperId, created.title, created.created_at);
+      const sourceDir = path.join(stagingDir, 'MyPaperList', fromFolder);
+      const rewrite = (text) => rewriteFileReferences(text, fromFolder, toFolder);
+
+      if (fs.existsSync(sourceDir)) {
+        fs.cpSync(sourceDir, getPaperFolderPath(paperId, created.title, created.created_at), { recursive: true });
+      }
+      await createPaperFolderStructure(paperId, created.title, created.created_at);
+
+      if (paper.image) {
+        await paperDB.papers.update(paperId, { image: rewrite(paper.image) });
+      }
+
+      const categoryIds = [];
+      for (const name of archive.categories.get(paper.id) || []) {
+        categoryIds.push(await paperDB.categories.findOrCreateByName(name));
+      }
+      if (categoryIds.length > 0) {
+        await paperDB.paperCategories.setPaperCategories(paperId, categoryIds);
+      }
+
+      const description = archive.descriptions.get(paper.id);
+      if (description && (description.texte || description.images)) {
+        await paperDB.descriptions.createOrUpdate(paperId, {
+          texte: rewrite(description.texte) || null,
+          images: rewrite(description.images) || null
+        });
+      }
+
+      await paperDB.attachments.addRecords(paperId, archive.attachments.get(paper.id));
+
+      const blocks = await loadPaperNotes(paperId, created.title, created.created_at);
+      if (blocks && blocks.length > 0) {
+        const rewritten = JSON.parse(rewrite(JSON.stringify(blocks)));
+        await savePaperNotes(paperId, created.title, created.created_at, rewritten);
+        await paperDB.search.indexPaperNotes(paperId, rewritten);
+      }
+
+      await paperDB.search.indexPaperMetadata(paperId);
+      await paperDB.search.indexPaperPdf(paperId);
+
+      library.add(created);
+      result.added.push({ id: paperId, title: created.title });
+    } catch (error) {
+      console.error(`❌ Erreur fusion du paper « ${paper.title} »:`, error);
+      if (created) {
+        await paperDB.deleteCompletePaper(created.id).catch(() => {});
+      }
+      result.failed.push({ title: paper.title, error: error.message });
+    }
+  }
+
+  console.log(`🔀 Archive fusionnée: ${result.added.length} ajoutés, ${result.skipped.length} déjà présents, ${result.failed.length} en échec`);
+  return result;
+}
+
+/**
+ * Restaurer une archive après vérification complète (manifeste, sommes de contrôle, version du schéma)
+ * @param {string} zipPath - Archive à restaurer
+ * @param {Object} options - { mode: replace | merge }
+ * @returns {Promise<Object>} - { mode, backup: { createdAt, schemaVersion, counts }, ...résultat du mode }
+ */
+async function restoreBackup(zipPath, options = {}) {
+  const mode = options.mode || 'replace';
+  if (!RESTORE_MODES.includes(mode)) {
+    throw new Error(`Mode de restauration inconnu: ${mode}`);
+  }
+
+  return withBackupLock('restauration', async () => {
+    const stagingDir = path.join(BACKUP_CONFIG.dir, `.restore-${Date.now()}`);
+
+    try {
+      const manifest = await extractBackup(zipPath, stagingDir);
+
+      const { latestVersion } = await getMigrationStatus();
+      if (manifest.schemaVersion > latestVersion) {
+        throw new Error(`Archive invalide: schéma v${manifest.schemaVersion} plus récent que celui de l'application (v${latestVersion})`);
+      }
+
+      const result = mode === 'merge'
+        ? await mergeLibrary(stagingDir)
+        : await replaceLibrary(stagingDir);
+
+      return {
+        mode,
+        backup: {
+          createdAt: manifest.createdAt,
+          schemaVersion: manifest.schemaVersion,
+          counts: manifest.counts
+        },
+        ...result
+      };
+    } finally {
+      fs.rmSync(stagingDir, { recursive: true, force: true });
+    }
+  });
+}
+
+module.exports = {
+  restoreBackup
+};
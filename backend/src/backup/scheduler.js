@@ -0,0 +1,100 @@
+// backend/src/backup/scheduler.js - Sauvegardes automatiques périodiques avec rétention
+const fs = require('fs');
+const { BACKUP_CONFIG } = require('./config');
+const { withBackupLock, createBackup, isBackupName, pruneBackups } = require('./archive');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let timer = null;
+let nextRunAt = null;
+
+/**
+ * Date de la dernière sauvegarde automatique (d'après le nom des archives)
+ * @returns {Date|null}
+ */
+function getLastAutoBackupDate() {
+  if (!fs.existsSync(BACKUP_CONFIG.dir)) {
+    return null;
+  }
+
+  const [latest] = fs.readdirSync(BACKUP_CONFIG.dir)
+    .filter(name => isBackupName(name) && name.endsWith('-auto.zip'))
+    .sort()
+    .reverse();
+
+  if (!latest) {
+    return null;
+  }
+
+  // backup-2025-01-31T08-00-00-000Z-auto.zip → 2025-01-31T08:00:00.000Z
+  const [, date, hours, minutes, seconds, ms] = latest.match(/^backup-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/) || [];
+  return date ? new Date(`${date}T${hours}:${minutes}:${seconds}.${ms}Z`) : null;
+}
+
+/**
+ * Programmer la prochaine sauvegarde automatique
+ * @param {number} delay - Délai en millisecondes
+ */
+function scheduleNext(delay) {
+  nextRunAt = new Date(Date.now() + delay);
+  timer = setTimeout(runScheduledBackup, delay);
+  // Le minuteur ne doit pas empêcher l'arrêt du serveur
+  timer.unref();
+}
+
+/**
+ * Créer la sauvegarde automatique puis appliquer la rétention
+ */
+async function runScheduledBackup() {
+  try {
+    await withBackupLock('sauvegarde automatique', async () => {
+      await createBackup({ trigger: 'auto' });
+      const removed = pruneBackups();
+      if (removed.length > 0) {
+        console.log(`🧹 ${removed.length} ancienne(s) sauvegarde(s) automatique(s) supprimée(s)`);
+      }
+    });
+  } catch (error) {
+    console.error('❌ Erreur sauvegarde automatique:', error.message);
+  } finally {
+    scheduleNext(BACKUP_CONFIG.intervalHours * HOUR_MS);
+  }
+}
+
+/**
+ * Démarrer les sauvegardes automatiques (BACKUP_INTERVAL_HOURS, 0 pour désactiver)
+ * Une sauvegarde en retard (serveur arrêté au moment prévu) est faite peu après le démarrage
+ */
+function startBackupScheduler() {
+  if (timer || !BACKUP_CONFIG.intervalHours) {
+    return;
+  }
+
+  const interval = BACKUP_CONFIG.intervalHours * HOUR_MS;
+  const last = getLastAutoBackupDate();
+  const delay = last ? Math.max(last.getTime() + interval - Date.now(), 60 * 1000) : 60 * 1000;
+
+  scheduleNext(delay);
+  console.log(`💾 Sauvegardes automatiques toutes les ${BACKUP_CONFIG.intervalHours} h (prochaine: ${nextRunAt.toLocaleString()})`);
+}
+
+/**
+ * Planification courante (affichée dans les paramètres)
+ * @returns {Object} - { enabled, intervalHours, retention, nextRunAt, lastRunAt }
+ */
+function getBackupSchedule() {
+  const last = getLastAutoBackupDate();
+
+  return {
+    enabled: Boolean(timer),
+    intervalHours: BACKUP_CONFIG.intervalHours,
+    retention: BACKUP_CONFIG.retention,
+    nextRunAt: timer && nextRunAt ? nextRunAt.toISOString() : null,
+    lastRunAt: last ? last.toISOString() : null
+  };
+}
+
+module.exports = {
+  startBackupScheduler,
+  getBackupSchedule
+};
@@ -2,7 +2,8 @@ const sqlite3 = require('sqlite3').verbose();
 const path = require('path');
 const fs = require('fs');
 
-const dbPath = path.join(__dirname, 'paperDatabase.db');
+// Chemin de la base (PAPER_DB_PATH permet de travailler sur une copie)
+const dbPath = process.env.PAPER_DB_PATH ? path.resolve(process.env.PAPER_DB_PATH) : path.join(__dirname, 'paperDatabase.db');
 const dbDir = path.dirname(dbPath);
 
 // Créer le dossier database s'il n'existe pas
@@ -32,123 +33,17 @@ function initDatabase() {
 }
 
 /**
- * Fonction pour supprimer toutes les tables
- * @param {Function} callback 
+ * Exécuter une requête de migration (promesse)
+ * @param {string} method - run, get ou all
+ * @param {string} sql
+ * @param {Array} params
+ * @returns {Promise<any>}
  */
-function clearAllTables(callback) {
-  db.all("SELECT name FROM sqlite_master WHERE type='table' AND name != 'sqlite_sequence'", (err, tables) => {
-    if (err) return callback(err);
-
-    if (tables.length === 0) return callback(null, "Aucune table à supprimer.");
-
-    let remaining = tables.length;
-
-    tables.forEach(({ name }) => {
-      const dropSql = `DROP TABLE IF EXISTS ${name}`;
-      db.run(dropSql, (err) => {
-        if (err) console.error(`❌ Erreur suppression ${name}:`, err);
-
-        remaining--;
-        if (remaining === 0) callback(null, "✅ Tables supprimées.");
-      });
-    });
-  });
-}
-
-/**
- * Fonction pour créer les tables
- * @param {Function} callback 
- */
-function createTables(callback) {
-  db.serialize(() => {
-    db.run(`CREATE TABLE IF NOT EXISTS Papers (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      title TEXT NOT NULL,
-      authors TEXT NOT NULL,
-      publication_date DATE NOT NULL,
-      conference TEXT,
-      reading_status TEXT DEFAULT 'non_lu',
-      image TEXT,
-      doi TEXT NOT NULL UNIQUE,
-      url TEXT NOT NULL,
-      folder_path TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )`);
-
-    db.run(`CREATE TABLE IF NOT EXISTS Categories (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL UNIQUE
-    )`);
-
-    db.run(`CREATE TABLE IF NOT EXISTS PaperCategories (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      paper_id INTEGER,
-      categorie_id INTEGER,
-      FOREIGN KEY (paper_id) REFERENCES Papers(id) ON DELETE CASCADE,
-      FOREIGN KEY (categorie_id) REFERENCES Categories(id) ON DELETE CASCADE
-    )`);
-
-    db.run(`CREATE TABLE IF NOT EXISTS Descriptions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      paper_id INTEGER UNIQUE,
-      texte TEXT,
-      images TEXT,
-      FOREIGN KEY (paper_id) REFERENCES Papers(id) ON DELETE CASCADE
-    )`, callback);
-
-    // Dans votre fonction createTables, ajouter :
-    db.run(`ALTER TABLE Papers ADD COLUMN conference_abbreviation TEXT`, (err) => {
-      // Ignorer l'erreur si la colonne existe déjà
-      if (err && !err.message.includes('duplicate column name')) {
-        console.error('Erreur ajout colonne:', err);
-      } else {
-        console.log('✅ Colonne conference_abbreviation ajoutée');
-      }
-    });
-  });
-}
-
-/**
- * Fonction pour lister les tables
- * @param {Function} callback 
- */
-function listTables(callback) {
-  db.all("SELECT name FROM sqlite_master WHERE type='table'", (err, tables) => {
-    if (err) return callback(err);
-    const names = tables.map(t => t.name);
-    callback(null, names);
-  });
-}
-
-/**
- * Fonction principale d'initialisation
- * @returns {Promise<void>}
- */
-function startInit() {
+function migrationQuery(method, sql, params = []) {
   return new Promise((resolve, reject) => {
-    clearAllTables((err, message) => {
-      if (err) {
-        console.error("❌", err);
-        return reject(err);
-      }
-      console.log(message);
-
-      createTables((err) => {
-        if (err) {
-          console.error("❌ Erreur création:", err);
-          return reject(err);
-        }
-        console.log("✅ Tables créées.");
-
-        listTables((err, tables) => {
-          if (err) {
-            console.error("❌", err);
-            return reject(err);
-          }
-          console.log("📋 Tables en base:", tables);
-          resolve();
-        });
-      });
+    db[method](sql, params, (err, result) => {
+      if (err) reject(err);
+      else resolve(result);
     });
   });
 }
@@ -183,9 +78,66 @@ function getDatabase() {
   return db;
 }
 
+/**
+ * Chemin du fichier de la base
+ * @returns {string}
+ */
+function getDatabasePath() {
+  return dbPath;
+}
+
+/**
+ * Exécuter une instruction de contrôle de transaction (BEGIN, COMMIT, ROLLBACK)
+ * @param {string} sql
+ * @returns {Promise<void>}
+ */
+function runTransactionStatement(sql) {
+  return new Promise((resolve, reject) => {
+    db.run(sql, (err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
+// File d'attente des transactions : une seule connexion, donc une seule transaction à la fois
+let transactionQueue = Promise.resolve();
+
+/**
+ * Exécuter une fonction dans une transaction SQLite
+ * La transaction est annulée si la fonction lève une erreur
+ * @param {Function} work - Fonction asynchrone à exécuter
+ * @returns {Promise<any>} - Résultat de la fonction
+ */
+function withTransaction(work) {
+  const run = async () => {
+    await runTransactionStatement('BEGIN IMMEDIATE TRANSACTION');
+
+    try {
+      const result = await work();
+      await runTransactionStatement('COMMIT');
+      return result;
+    } catch (error) {
+      try {
+        await runTransactionStatement('ROLLBACK');
+        console.log('↩️ Transaction annulée');
+      } catch (rollbackError) {
+        console.error('❌ Erreur lors du rollback:', rollbackError.message);
+      }
+      throw error;
+    }
+  };
+
+  const result = transactionQueue.then(run);
+  transactionQueue = result.catch(() => {});
+  return result;
+}
+
 module.exports = {
   initDatabase,
-  startInit,
   closeDatabase,
-  getDatabase
+  getDatabase,
+  getDatabasePath,
+  migrationQuery,
+  withTransaction
 };
\ No newline at end of file
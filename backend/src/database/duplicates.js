@@ -0,0 +1,238 @@
+// backend/src/database/duplicates.js - Détection des doublons (DOI normalisé, titre, auteurs, année)
+const { normalizeDoi, normalizeArxivId, extractArxivId, splitAuthors } = require('../formats/common');
+
+// Score minimal d'une paire candidate (0 à 1)
+const DEFAULT_DUPLICATE_THRESHOLD = 0.75;
+
+// Poids des critères dans le score de similarité
+const SIMILARITY_WEIGHTS = {
+  title: 0.6,
+  authors: 0.25,
+  year: 0.15
+};
+
+// ================================
+// NORMALISATION
+// ================================
+
+/**
+ * Clé de comparaison d'un DOI (insensible à la casse et aux préfixes)
+ * @param {string} doi
+ * @returns {string}
+ */
+function doiKey(doi) {
+  return normalizeDoi(doi).toLowerCase();
+}
+
+/**
+ * Identifiant arXiv d'un paper (champ arxiv_id, DOI arXiv ou URL arxiv.org), sans numéro de version
+ * @param {Object} paper
+ * @returns {string}
+ */
+function arxivKey(paper) {
+  const id = normalizeArxivId(paper.arxiv_id) || extractArxivId(paper.doi, paper.url);
+
+  return id.toLowerCase().replace(/v\d+$/, '');
+}
+
+/**
+ * Normaliser un texte pour la comparaison (minuscules, sans accents ni ponctuation)
+ * @param {string} text
+ * @returns {string}
+ */
+function normalizeText(text) {
+  return String(text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Noms de famille normalisés des auteurs
+ * @param {string} authors
+ * @returns {Set<string>}
+ */
+function authorFamilies(authors) {
+  return new Set(splitAuthors(authors).map(author => normalizeText(author.family)).filter(Boolean));
+}
+
+/**
+ * Année de publication
+ * @param {string} date
+ * @returns {number|null}
+ */
+function publicationYear(date) {
+  const year = parseInt(String(date || '').slice(0, 4), 10);
+  return isNaN(year) ? null : year;
+}
+
+// ================================
+// SIMILARITÉ
+// ================================
+
+/**
+ * Bigrammes de caractères d'un texte normalisé
+ * @param {string} text
+ * @returns {Map<string, number>}
+ */
+function bigrams(text) {
+  const grams = new Map();
+  const compact = text.replace(/ /g, '');
+
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+
+  return grams;
+}
+
+/**
+ * Coefficient de Dice sur les bigrammes (1 = titres identiques)
+ * @param {Map<string, number>} a
+ * @param {Map<string, number>} b
+ * @returns {number}
+ */
+function diceCoefficient(a, b) {
+  let total = 0;
+  let common = 0;
+
+  a.forEach((count, gram) => {
+    total += count;
+    common += Math.min(count, b.get(gram) || 0);
+  });
+  b.forEach(count => {
+    total += count;
+  });
+
+  return total === 0 ? 0 : (2 * common) / total;
+}
+
+/**
+ * Recouvrement des noms d'auteurs (rapporté à la liste la plus courte)
+ * @param {Set<string>} a
+ * @param {Set<string>} b
+ * @returns {number|null} - null si l'une des listes est vide
+ */
+function authorOverlap(a, b) {
+  if (a.size === 0 || b.size === 0) {
+    return null;
+  }
+
+  let common = 0;
+  a.forEach(name => {
+    if (b.has(name)) common++;
+  });
+
+  return common / Math.min(a.size, b.size);
+}
+
+/**
+ * Proximité des années (une prépublication précède souvent la version publiée)
+ * @param {number|null} a
+ * @param {number|null} b
+ * @returns {number|null} - null si l'une des années est inconnue
+ */
+function yearProximity(a, b) {
+  if (a === null || b === null) {
+    return null;
+  }
+
+  const gap = Math.abs(a - b);
+  return gap === 0 ? 1 : gap === 1 ? 0.5 : 0;
+}
+
+/**
+ * Préparer les clés de comparaison d'un paper
+ * @param {Object} paper
+ * @returns {Object}
+ */
+function buildFingerprint(paper) {
+  const title = normalizeText(paper.title);
+
+  return {
+    paper,
+    doi: doiKey(paper.doi),
+    arxiv: arxivKey(paper),
+    title,
+    titleGrams: bigrams(title),
+    authors: authorFamilies(paper.authors),
+    year: publicationYear(paper.publication_date)
+  };
+}
+
+/**
+ * Comparer deux papers
+ * Les critères inconnus (auteurs ou année manquants) sont retirés du calcul
+ * @param {Object} a - Empreinte (buildFingerprint)
+ * @param {Object} b - Empreinte (buildFingerprint)
+ * @returns {{ score: number, reasons: Array<string>, details: Object }}
+ */
+function compareFingerprints(a, b) {
+  const details = {
+    title: a.title && a.title === b.title ? 1 : diceCoefficient(a.titleGrams, b.titleGrams),
+    authors: authorOverlap(a.authors, b.authors),
+    year: yearProximity(a.year, b.year)
+  };
+  const reasons = [];
+
+  if (a.doi && a.doi === b.doi) reasons.push('doi');
+  if (a.arxiv && a.arxiv === b.arxiv) reasons.push('arxiv');
+
+  // Un même DOI ou un même identifiant arXiv suffit
+  if (reasons.length > 0) {
+    return { score: 1, reasons, details };
+  }
+
+  let weighted = 0;
+  let weights = 0;
+  Object.entries(SIMILARITY_WEIGHTS).forEach(([criterion, weight]) => {
+    if (details[criterion] !== null) {
+      weighted += details[criterion] * weight;
+      weights += weight;
+    }
+  });
+
+  if (details.title >= 0.9) reasons.push('title');
+  if (details.authors !== null && details.authors >= 0.5) reasons.push('authors');
+  if (details.year === 1) reasons.push('year');
+
+  return { score: weights > 0 ? weighted / weights : 0, reasons, details };
+}
+
+/**
+ * Trouver les paires de papers susceptibles d'être des doublons
+ * @param {Array} papers - Liste de papers
+ * @param {Object} options - { threshold }
+ * @returns {Array<{ a: Object, b: Object, score: number, reasons: Array<string>, details: Object }>} - Paires triées par score décroissant
+ */
+function findDuplicateCandidates(papers, options = {}) {
+  const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+  const fingerprints = papers.map(buildFingerprint);
+  const candidates = [];
+
+  for (let i = 0; i < fingerprints.length; i++) {
+    for (let j = i + 1; j < fingerprints.length; j++) {
+      const comparison = compareFingerprints(fingerprints[i], fingerprints[j]);
+
+      // Un titre trop différent exclut la paire même si auteurs et année concordent
+      if (comparison.score >= threshold && (comparison.score === 1 || comparison.details.title >= 0.6)) {
+        candidates.push({ a: fingerprints[i].paper, b: fingerprints[j].paper, ...comparison });
+      }
+    }
+  }
+
+  return candidates.sort((x, y) => y.score - x.score);
+}
+
+module.exports = {
+  DEFAULT_DUPLICATE_THRESHOLD,
+  doiKey,
+  arxivKey,
+  normalizeText,
+  bigrams,
+  diceCoefficient,
+  findDuplicateCandidates
+};
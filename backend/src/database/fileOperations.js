@@ -1,6 +1,15 @@
 // backend/src/database/fileOperations.js - VERSION AMELIOREE
 const fs = require('fs');
 const path = require('path');
+const { spawn } = require('child_process');
+const crypto = require('crypto');
+const { FIGURE_FOLDERS, createFigure } = require('./models');
+
+// Taille maximale du texte PDF conservé pour l'indexation
+const MAX_PDF_TEXT_LENGTH = 500000;
+
+// Extensions affichées dans la galerie de figures
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp', '.svg', '.tif', '.tiff', '.jpx', '.jp2'];
 
 /**
  * Formater le nom du dossier selon les spécifications
@@ -61,7 +70,10 @@ function createPaperFolderStructure(paperId, title, createdAt) {
         main: paperFolderPath,
         pdfImages: path.join(paperFolderPath, 'pdf-images'),
         importedImages: path.join(paperFolderPath, 'imported-images'),
-        notes: path.join(paperFolderPath, 'notes.json') // Fichier JSON pour les notes
+        attachments: path.join(paperFolderPath, 'attachments'), // Pièces jointes (supplémentaire, code, données)
+        notes: path.join(paperFolderPath, 'notes.json'), // Fichier JSON pour les notes
+        annotations: path.join(paperFolderPath, 'annotations.json'), // Surlignages et commentaires du PDF
+        figures: path.join(paperFolderPath, 'figures.json') // Légendes, pages et tags des images
       };
 
       // Créer pdf-images
@@ -76,6 +88,12 @@ function createPaperFolderStructure(paperId, title, createdAt) {
         console.log(`📁 Dossier imported-images créé`);
       }
 
+      // Créer attachments
+      if (!fs.existsSync(subFolders.attachments)) {
+        fs.mkdirSync(subFolders.attachments, { recursive: true });
+        console.log(`📁 Dossier attachments créé`);
+      }
+
       resolve(subFolders);
     } catch (error) {
       console.error('❌ Erreur création structure dossiers:', error);
@@ -106,9 +124,16 @@ function savePaperPDF(paperId, title, createdAt, pdfBuffer) {
       
       const pdfFileName = `${cleanTitle}.pdf`;
       const pdfPath = path.join(folders.main, pdfFileName);
+      const tempPath = `${pdfPath}.tmp`;
 
-      // Sauvegarder le PDF
-      fs.writeFileSync(pdfPath, pdfBuffer);
+      // Sauvegarder le PDF (fichier temporaire renommé : un PDF existant reste intact si l'écriture échoue)
+      try {
+        fs.writeFileSync(tempPath, pdfBuffer);
+        fs.renameSync(tempPath, pdfPath);
+      } catch (writeError) {
+        fs.rmSync(tempPath, { force: true });
+        throw writeError;
+      }
       console.log(`💾 PDF sauvegardé: ${pdfFileName}`);
 
       resolve(pdfPath);
@@ -121,10 +146,12 @@ function savePaperPDF(paperId, title, createdAt, pdfBuffer) {
 
 /**
  * Sauvegarder les images extraites sélectionnées
+ * Une image déjà présente sous le même nom (extraction d'un PDF précédent) n'est pas écrasée ;
+ * la page, la légende et l'empreinte détectées sont enregistrées dans figures.json
  * @param {number} paperId - ID du paper
  * @param {string} title - Titre de l'article
  * @param {string} createdAt - Date de création
- * @param {Array} selectedImages - Images sélectionnées avec checkboxes
+ * @param {Array} selectedImages - Images sélectionnées avec checkboxes { name, buffer, page, caption, hash, width, height }
  * @returns {Promise<Array>} - Chemins des images sauvegardées
  */
 function saveSelectedPdfImages(paperId, title, createdAt, selectedImages) {
@@ -134,15 +161,26 @@ function saveSelectedPdfImages(paperId, title, createdAt, selectedImages) {
       const folders = await createPaperFolderStructure(paperId, title, createdAt);
       
       const savedImagePaths = [];
+      const figures = [];
 
       for (let i = 0; i < selectedImages.length; i++) {
         const image = selectedImages[i];
-        const imageName = image.name || `pdf_image_${i + 1}.png`;
+        const imageName = availableFileName(folders.pdfImages, image.name || `pdf_image_${i + 1}.png`, paperId);
         const imagePath = path.join(folders.pdfImages, imageName);
 
         fs.writeFileSync(imagePath, image.buffer);
         savedImagePaths.push(imagePath);
         console.log(`🖼️ Image PDF sauvegardée: ${imageName}`);
+
+        if (image.page || image.caption || image.hash) {
+          figures.push(createFigure({ ...image, path: `pdf-images/${imageName}`, tags: [] }));
+        }
+      }
+
+      if (figures.length > 0) {
+        const known = loadPaperFigures(paperId, title, createdAt)
+          .filter(figure => !figures.some(added => added.path === figure.path));
+        await savePaperFigures(paperId, title, createdAt, [...known, ...figures]);
       }
 
       resolve(savedImagePaths);
@@ -189,23 +227,23 @@ function savePaperNotes(paperId, title, createdAt, blocks) {
 }
 
 /**
- * Charger les notes depuis le fichier JSON
+ * Charger les notes depuis le fichier JSON (sans créer le dossier du paper s'il n'existe pas)
  * @param {number} paperId - ID du paper
  * @param {string} title - Titre de l'article
  * @param {string} createdAt - Date de création
  * @returns {Promise<Array|null>} - Blocs de notes ou null
  */
 function loadPaperNotes(paperId, title, createdAt) {
-  return new Promise(async (resolve, reject) => {
+  return new Promise((resolve) => {
     try {
-      const folders = await createPaperFolderStructure(paperId, title, createdAt);
+      const notesPath = path.join(getPaperFolderPath(paperId, title, createdAt), 'notes.json');
       
-      if (!fs.existsSync(folders.notes)) {
+      if (!fs.existsSync(notesPath)) {
         resolve(null);
         return;
       }
 
-      const notesJson = fs.readFileSync(folders.notes, 'utf8');
+      const notesJson = fs.readFileSync(notesPath, 'utf8');
       const notesData = JSON.parse(notesJson);
       
       console.log(`📖 Notes chargées pour paper ${paperId}`);
@@ -217,6 +255,110 @@ function loadPaperNotes(paperId, title, createdAt) {
   });
 }
 
+/**
+ * Charger les annotations du PDF d'un paper (annotations.json, à côté de notes.json)
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @returns {Array} - Annotations (vide si le fichier n'existe pas)
+ */
+function loadPaperAnnotations(paperId, title, createdAt) {
+  const annotationsPath = path.join(getPaperFolderPath(paperId, title, createdAt), 'annotations.json');
+
+  if (!fs.existsSync(annotationsPath)) {
+    return [];
+  }
+
+  const annotationsData = JSON.parse(fs.readFileSync(annotationsPath, 'utf8'));
+  return Array.isArray(annotationsData.annotations) ? annotationsData.annotations : [];
+}
+
+/**
+ * Sauvegarder les annotations du PDF d'un paper
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @param {Array} annotations - Annotations triées par page
+ * @returns {Promise<string>} - Chemin du fichier annotations.json
+ */
+async function savePaperAnnotations(paperId, title, createdAt, annotations) {
+  const folders = await createPaperFolderStructure(paperId, title, createdAt);
+
+  const annotationsData = {
+    paperId,
+    annotations,
+    lastModified: new Date().toISOString(),
+    version: '1.0.0'
+  };
+
+  fs.writeFileSync(folders.annotations, JSON.stringify(annotationsData, null, 2));
+  console.log(`🖍️ Annotations sauvegardées: ${annotations.length}`);
+  return folders.annotations;
+}
+
+/**
+ * Charger les métadonnées des figures d'un paper (figures.json : légende, page, tags)
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @returns {Array} - Métadonnées par chemin d'image (vide si le fichier n'existe pas)
+ */
+function loadPaperFigures(paperId, title, createdAt) {
+  const figuresPath = path.join(getPaperFolderPath(paperId, title, createdAt), 'figures.json');
+
+  if (!fs.existsSync(figuresPath)) {
+    return [];
+  }
+
+  const figuresData = JSON.parse(fs.readFileSync(figuresPath, 'utf8'));
+  return Array.isArray(figuresData.figures) ? figuresData.figures : [];
+}
+
+/**
+ * Sauvegarder les métadonnées des figures d'un paper
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @param {Array} figures - Métadonnées des figures
+ * @returns {Promise<string>} - Chemin du fichier figures.json
+ */
+async function savePaperFigures(paperId, title, createdAt, figures) {
+  const folders = await createPaperFolderStructure(paperId, title, createdAt);
+
+  const figuresData = {
+    paperId,
+    figures,
+    lastModified: new Date().toISOString(),
+    version: '1.0.0'
+  };
+
+  fs.writeFileSync(folders.figures, JSON.stringify(figuresData, null, 2));
+  return folders.figures;
+}
+
+/**
+ * Lister les images des dossiers pdf-images et imported-images d'un paper
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @returns {Array<{ path: string, size: number, modifiedAt: string }>} - Chemins relatifs au dossier du paper
+ */
+function listPaperImages(paperId, title, createdAt) {
+  const paperFolderPath = getPaperFolderPath(paperId, title, createdAt);
+
+  return Object.keys(FIGURE_FOLDERS).flatMap(folder => {
+    const dir = path.join(paperFolderPath, folder);
+    if (!fs.existsSync(dir)) return [];
+
+    return fs.readdirSync(dir)
+      .filter(fileName => IMAGE_EXTENSIONS.includes(path.extname(fileName).toLowerCase()))
+      .map(fileName => {
+        const stats = fs.statSync(path.join(dir, fileName));
+        return { path: `${folder}/${fileName}`, size: stats.size, modifiedAt: stats.mtime.toISOString() };
+      });
+  });
+}
+
 /**
  * Sauvegarder une image importée dans les notes
  * @param {number} paperId - ID du paper
@@ -262,6 +404,153 @@ function getPaperFolderPath(paperId, title, createdAt) {
   return path.join(myPaperListDir, paperFolderName);
 }
 
+/**
+ * Trouver le PDF stocké dans le dossier d'un paper
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @returns {string|null} - Chemin du PDF ou null
+ */
+function findPaperPDF(paperId, title, createdAt) {
+  const paperFolderPath = getPaperFolderPath(paperId, title, createdAt);
+
+  if (!fs.existsSync(paperFolderPath)) {
+    return null;
+  }
+
+  const pdfFile = fs.readdirSync(paperFolderPath).find(file => file.toLowerCase().endsWith('.pdf'));
+  return pdfFile ? path.join(paperFolderPath, pdfFile) : null;
+}
+
+/**
+ * Somme de contrôle SHA-256 d'un fichier
+ * @param {string} filePath
+ * @returns {Promise<string>} - Empreinte hexadécimale
+ */
+function fileChecksum(filePath) {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Ranger un fichier envoyé dans le dossier attachments d'un paper
+ * Le fichier temporaire est déplacé ; un nom déjà pris reçoit un suffixe (-2, -3...)
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @param {string} tempPath - Fichier temporaire (multer)
+ * @param {string} originalName - Nom d'origine du fichier
+ * @returns {Promise<{ filename: string, size: number }>} - Nom dans attachments/ et taille
+ */
+async function saveAttachmentFile(paperId, title, createdAt, tempPath, originalName) {
+  const folders = await createPaperFolderStructure(paperId, title, createdAt);
+
+  // Nom de fichier sûr, en gardant l'extension
+  const extension = path.extname(originalName).toLowerCase().replace(/[^a-z0-9.]/g, '');
+  const baseName = path.basename(originalName, path.extname(originalName))
+    .replace(/[^a-zA-Z0-9\s_-]/g, '')
+    .replace(/\s+/g, '_')
+    .substring(0, 100) || 'attachment';
+
+  let filename = `${baseName}${extension}`;
+  for (let counter = 2; fs.existsSync(path.join(folders.attachments, filename)); counter++) {
+    filename = `${baseName}-${counter}${extension}`;
+  }
+
+  const destination = path.join(folders.attachments, filename);
+
+  // Copie puis suppression : le dossier temporaire peut être sur un autre disque
+  fs.copyFileSync(tempPath, destination);
+  fs.rmSync(tempPath, { force: true });
+  console.log(`📎 Pièce jointe sauvegardée: ${filename}`);
+
+  return { filename, size: fs.statSync(destination).size };
+}
+
+/**
+ * Chemin d'une pièce jointe dans le dossier d'un paper
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @param {string} filename - Nom du fichier dans attachments/
+ * @returns {string|null} - Chemin du fichier ou null s'il n'existe pas
+ */
+function getAttachmentPath(paperId, title, createdAt, filename) {
+  const attachmentsDir = path.join(getPaperFolderPath(paperId, title, createdAt), 'attachments');
+  const filePath = path.join(attachmentsDir, path.basename(filename));
+
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+/**
+ * Supprimer le ou les PDF stockés dans le dossier d'un paper (remplacement ou retrait du PDF)
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @param {string|null} keepPath - PDF à conserver (nouveau PDF d'un remplacement)
+ * @returns {number} - Nombre de PDF supprimés
+ */
+function removePaperPDF(paperId, title, createdAt, keepPath = null) {
+  const paperFolderPath = getPaperFolderPath(paperId, title, createdAt);
+
+  if (!fs.existsSync(paperFolderPath)) {
+    return 0;
+  }
+
+  const pdfFiles = fs.readdirSync(paperFolderPath)
+    .filter(file => file.toLowerCase().endsWith('.pdf') && (!keepPath || path.join(paperFolderPath, file) !== keepPath));
+  pdfFiles.forEach(file => {
+    fs.rmSync(path.join(paperFolderPath, file), { force: true });
+    console.log(`🗑️ PDF supprimé: ${file}`);
+  });
+
+  return pdfFiles.length;
+}
+
+/**
+ * Extraire le texte d'un PDF avec le script Python
+ * @param {string} pdfPath - Chemin du PDF
+ * @returns {Promise<string|null>} - Texte extrait ou null si l'extraction échoue
+ */
+function extractPdfText(pdfPath) {
+  return new Promise((resolve) => {
+    const scriptPath = path.join(__dirname, '..', '..', 'scripts', 'extract_text.py');
+
+    if (!fs.existsSync(scriptPath) || !fs.existsSync(pdfPath)) {
+      resolve(null);
+      return;
+    }
+
+    const pythonProcess = spawn('python', [scriptPath, pdfPath]);
+    let output = '';
+
+    pythonProcess.stdout.on('data', (data) => {
+      if (output.length < MAX_PDF_TEXT_LENGTH) {
+        output += data.toString();
+      }
+    });
+
+    pythonProcess.on('close', (code) => {
+      if (code === 0 && output.trim()) {
+        resolve(output.substring(0, MAX_PDF_TEXT_LENGTH));
+      } else {
+        console.log(`⚠️ Aucun texte extrait du PDF: ${path.basename(pdfPath)}`);
+        resolve(null);
+      }
+    });
+
+    pythonProcess.on('error', (error) => {
+      console.error('❌ Erreur extraction texte PDF:', error.message);
+      resolve(null);
+    });
+  });
+}
+
 /**
  * Supprimer complètement le dossier d'un paper
  * @param {number} paperId - ID du paper
@@ -289,14 +578,281 @@ function deletePaperFolder(paperId, title, createdAt) {
   });
 }
 
+/**
+ * Chemin du dossier d'un paper mis à la corbeille (MyPaperList/.trash)
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @returns {string}
+ */
+function getTrashFolderPath(paperId, title, createdAt) {
+  return path.join(process.cwd(), 'MyPaperList', '.trash', formatFolderName(paperId, title, createdAt));
+}
+
+/**
+ * Déplacer un dossier de paper (corbeille ou restauration) ; un dossier déjà présent à destination est conservé
+ * @param {string} from - Chemin d'origine
+ * @param {string} to - Chemin de destination
+ * @returns {boolean} - True si le dossier a été déplacé
+ */
+function movePaperFolder(from, to) {
+  if (!fs.existsSync(from) || fs.existsSync(to)) {
+    return false;
+  }
+
+  fs.mkdirSync(path.dirname(to), { recursive: true });
+  fs.renameSync(from, to);
+  return true;
+}
+
+/**
+ * Mettre le dossier d'un paper à la corbeille
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @returns {boolean} - True si le dossier a été déplacé
+ */
+function trashPaperFolder(paperId, title, createdAt) {
+  const moved = movePaperFolder(getPaperFolderPath(paperId, title, createdAt), getTrashFolderPath(paperId, title, createdAt));
+  if (moved) console.log(`🗑️ Dossier mis à la corbeille: ${formatFolderName(paperId, title, createdAt)}`);
+  return moved;
+}
+
+/**
+ * Remettre le dossier d'un paper dans MyPaperList
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @returns {boolean} - False si le dossier de la corbeille n'a pas pu être remis en place
+ *   (un dossier du même nom existe déjà dans MyPaperList) ; true s'il a été déplacé ou s'il n'y en a pas
+ */
+function restorePaperFolder(paperId, title, createdAt) {
+  const trashPath = getTrashFolderPath(paperId, title, createdAt);
+  if (!fs.existsSync(trashPath)) {
+    return true;
+  }
+
+  const moved = movePaperFolder(trashPath, getPaperFolderPath(paperId, title, createdAt));
+  if (moved) console.log(`♻️ Dossier restauré: ${formatFolderName(paperId, title, createdAt)}`);
+  return moved;
+}
+
+/**
+ * Supprimer définitivement le dossier d'un paper de la corbeille
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @returns {boolean} - True si un dossier a été supprimé
+ */
+function deleteTrashedPaperFolder(paperId, title, createdAt) {
+  const trashPath = getTrashFolderPath(paperId, title, createdAt);
+  if (!fs.existsSync(trashPath)) {
+    return false;
+  }
+
+  fs.rmSync(trashPath, { recursive: true, force: true });
+  console.log(`🔥 Dossier supprimé de la corbeille: ${path.basename(trashPath)}`);
+  return true;
+}
+
+/**
+ * Résumer le contenu du dossier d'un paper (PDF, notes, images)
+ * @param {number} paperId - ID du paper
+ * @param {string} title - Titre de l'article
+ * @param {string} createdAt - Date de création
+ * @returns {{ hasPdf: boolean, hasNotes: boolean, imageCount: number }}
+ */
+function getPaperFolderSummary(paperId, title, createdAt) {
+  const paperFolderPath = getPaperFolderPath(paperId, title, createdAt);
+  const countFiles = (dir) => (fs.existsSync(dir) ? fs.readdirSync(dir).length : 0);
+
+  return {
+    hasPdf: Boolean(findPaperPDF(paperId, title, createdAt)),
+    hasNotes: fs.existsSync(path.join(paperFolderPath, 'notes.json')),
+    imageCount: countFiles(path.join(paperFolderPath, 'pdf-images')) + countFiles(path.join(paperFolderPath, 'imported-images'))
+  };
+}
+
+/**
+ * Choisir un nom de fichier libre dans un dossier (préfixe avec l'ID d'origine en cas de collision)
+ * @param {string} dir - Dossier de destination
+ * @param {string} fileName - Nom souhaité
+ * @param {number} sourceId - ID du paper d'origine
+ * @returns {string} - Nom disponible
+ */
+function availableFileName(dir, fileName, sourceId) {
+  if (!fs.existsSync(path.join(dir, fileName))) {
+    return fileName;
+  }
+
+  let candidate = `${sourceId}_${fileName}`;
+  let counter = 2;
+  while (fs.existsSync(path.join(dir, candidate))) {
+    candidate = `${sourceId}_${counter}_${fileName}`;
+    counter++;
+  }
+  return candidate;
+}
+
+/**
+ * Copier les fichiers du dossier d'un paper fusionné vers celui du paper conservé
+ * - Le PDF devient celui du paper conservé s'il n'en a pas, sinon il est rangé dans merged-pdfs
+ * - Les images (pdf-images, imported-images) et les pièces jointes sont copiées, renommées en cas de collision
+ * Les fichiers d'origine ne sont pas supprimés
+ * @param {Object} source - Paper fusionné { id, title, created_at }
+ * @param {Object} target - Paper conservé { id, title, created_at }
+ * @returns {Promise<{ copied: Array<string>, renamed: Object, pdf: string|null }>} - Fichiers créés, chemins relatifs renommés et PDF copié
+ */
+async function mergePaperFolders(source, target) {
+  const sourceFolder = getPaperFolderPath(source.id, source.title, source.created_at);
+  const folders = await createPaperFolderStructure(target.id, target.title, target.created_at);
+  const result = { copied: [], renamed: {}, pdf: null };
+
+  if (!fs.existsSync(sourceFolder)) {
+    return result;
+  }
+
+  try {
+    // PDF
+    const sourcePdf = findPaperPDF(source.id, source.title, source.created_at);
+    if (sourcePdf) {
+      const targetPdf = findPaperPDF(target.id, target.title, target.created_at);
+      let destination;
+
+      if (targetPdf) {
+        const mergedDir = path.join(folders.main, 'merged-pdfs');
+        fs.mkdirSync(mergedDir, { recursive: true });
+        destination = path.join(mergedDir, availableFileName(mergedDir, path.basename(sourcePdf), source.id));
+      } else {
+        destination = path.join(folders.main, path.basename(sourcePdf));
+      }
+
+      fs.copyFileSync(sourcePdf, destination);
+      result.copied.push(destination);
+      result.pdf = path.relative(folders.main, destination).split(path.sep).join('/');
+      console.log(`📄 PDF fusionné: ${result.pdf}`);
+    }
+
+    // Images et pièces jointes
+    for (const subFolder of ['pdf-images', 'imported-images', 'attachments']) {
+      const sourceDir = path.join(sourceFolder, subFolder);
+      const targetDir = path.join(folders.main, subFolder);
+
+      if (!fs.existsSync(sourceDir)) continue;
+
+      for (const fileName of fs.readdirSync(sourceDir)) {
+        const sourcePath = path.join(sourceDir, fileName);
+        if (!fs.statSync(sourcePath).isFile()) continue;
+
+        const targetName = availableFileName(targetDir, fileName, source.id);
+        const destination = path.join(targetDir, targetName);
+        fs.copyFileSync(sourcePath, destination);
+        result.copied.push(destination);
+
+        if (targetName !== fileName) {
+          result.renamed[`${subFolder}/${fileName}`] = `${subFolder}/${targetName}`;
+        }
+      }
+    }
+
+    console.log(`🔀 ${result.copied.length} fichiers copiés de ${path.basename(sourceFolder)}`);
+    return result;
+  } catch (error) {
+    // Retirer les copies partielles
+    removeFiles(result.copied);
+    console.error('❌ Erreur fusion des dossiers:', error);
+    throw error;
+  }
+}
+
+/**
+ * Supprimer une liste de fichiers (nettoyage après échec)
+ * @param {Array<string>} filePaths
+ */
+function removeFiles(filePaths = []) {
+  for (const filePath of filePaths) {
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch (error) {
+      console.error(`❌ Erreur suppression ${filePath}:`, error.message);
+    }
+  }
+}
+
+/**
+ * Renommer le dossier d'un paper après un changement de titre
+ * @param {number} paperId - ID du paper
+ * @param {string} oldTitle - Ancien titre
+ * @param {string} newTitle - Nouveau titre
+ * @param {string} createdAt - Date de création
+ * @returns {{ from: string, to: string }} - Anciens et nouveaux noms de dossier
+ */
+function renamePaperFolder(paperId, oldTitle, newTitle, createdAt) {
+  const from = getPaperFolderPath(paperId, oldTitle, createdAt);
+  const to = getPaperFolderPath(paperId, newTitle, createdAt);
+
+  if (from !== to && fs.existsSync(from) && !fs.existsSync(to)) {
+    fs.renameSync(from, to);
+    console.log(`📁 Dossier renommé: ${path.basename(from)} → ${path.basename(to)}`);
+  }
+
+  return { from: path.basename(from), to: path.basename(to) };
+}
+
+/**
+ * Réécrire les URLs de fichiers (/api/papers/files/<dossier>/...) d'un dossier vers un autre
+ * Sert aux notes, aux images de description et à l'image de couverture
+ * @param {string} text - Texte ou JSON contenant des URLs
+ * @param {string} fromFolder - Nom du dossier d'origine
+ * @param {string} toFolder - Nom du dossier de destination
+ * @param {Object} renamed - Chemins relatifs renommés { 'pdf-images/a.png': 'pdf-images/12_a.png' }
+ * @returns {string}
+ */
+function rewriteFileReferences(text, fromFolder, toFolder, renamed = {}) {
+  if (!text) {
+    return text;
+  }
+
+  const prefix = `/papers/files/${fromFolder}/`;
+  let result = String(text);
+
+  for (const [fromPath, toPath] of Object.entries(renamed)) {
+    result = result.split(`${prefix}${fromPath}`).join(`/papers/files/${toFolder}/${toPath}`);
+  }
+
+  return result.split(prefix).join(`/papers/files/${toFolder}/`);
+}
+
 module.exports = {
   createPaperFolderStructure,
   savePaperPDF,
   saveSelectedPdfImages,
   savePaperNotes,
   loadPaperNotes,
+  loadPaperAnnotations,
+  savePaperAnnotations,
+  loadPaperFigures,
+  savePaperFigures,
+  listPaperImages,
   saveImportedImage,
   getPaperFolderPath,
+  findPaperPDF,
+  removePaperPDF,
+  fileChecksum,
+  saveAttachmentFile,
+  getAttachmentPath,
+  extractPdfText,
   deletePaperFolder,
-  formatFolderName
+  getTrashFolderPath,
+  trashPaperFolder,
+  restorePaperFolder,
+  deleteTrashedPaperFolder,
+  formatFolderName,
+  getPaperFolderSummary,
+  mergePaperFolders,
+  removeFiles,
+  renamePaperFolder,
+  rewriteFileReferences
 };
\ No newline at end of file
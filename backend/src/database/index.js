@@ -1,14 +1,26 @@
 // Point d'entrée principal pour le module database
-const { initDatabase, closeDatabase, getDatabase } = require('./database');
+const { initDatabase, closeDatabase, getDatabase, withTransaction } = require('./database');
+const { runMigrations, getMigrationStatus } = require('./migrator');
 const { initializeDatabase } = require('./init-db');
 const { 
   paperOperations, 
   categoryOperations, 
   descriptionOperations, 
-  paperCategoryOperations 
+  paperCategoryOperations,
+  authorOperations,
+  venueOperations,
+  annotationOperations,
+  attachmentOperations,
+  figureOperations,
+  searchOperations
 } = require('./operations');
 const { 
   READING_STATUS,
+  ITEM_TYPES,
+  PAPER_FIELD_LABELS,
+  EDITABLE_PAPER_FIELDS,
+  getMissingPaperFields,
+  describeMissingFields,
   validatePaper,
   validateCategory,
   validateDescription,
@@ -17,14 +29,54 @@ const {
   createDescription
 } = require('./models');
 const {
-  createPaperFolder,
-  savePdfFile,
-  saveExtractedImages,
+  createPaperFolderStructure,
+  savePaperPDF,
+  saveSelectedPdfImages,
+  saveImportedImage,
   deletePaperFolder,
+  trashPaperFolder,
+  restorePaperFolder,
+  deleteTrashedPaperFolder,
   getPaperFolderPath,
-  paperFolderExists,
-  listPaperFiles
+  findPaperPDF,
+  removePaperPDF,
+  formatFolderName,
+  loadPaperNotes,
+  savePaperNotes,
+  loadPaperAnnotations,
+  savePaperAnnotations,
+  loadPaperFigures,
+  savePaperFigures,
+  getPaperFolderSummary,
+  mergePaperFolders,
+  removeFiles,
+  renamePaperFolder,
+  rewriteFileReferences
 } = require('./fileOperations');
+const { findDuplicateCandidates } = require('./duplicates');
+
+// Champs de métadonnées choisis lors d'une fusion (valeur du paper conservé ou du doublon)
+const MERGE_FIELDS = [
+  'title', 'item_type', 'authors', 'publication_date', 'conference', 'conference_abbreviation', 'publisher',
+  'doi', 'arxiv_id', 'isbn', 'url', 'abstract', 'keywords', 'reading_status', 'image', 'rating'
+];
+
+// Ordre d'avancement des statuts de lecture (le plus avancé est gardé par défaut)
+const READING_STATUS_RANK = ['non_lu', 'en_cours', 'lu', 'favoris'];
+
+/**
+ * Lire la liste d'images JSON d'une description
+ * @param {Object|null} description
+ * @returns {Array<string>}
+ */
+function parseDescriptionImages(description) {
+  try {
+    const images = JSON.parse(description && description.images ? description.images : '[]');
+    return Array.isArray(images) ? images : [];
+  } catch {
+    return [];
+  }
+}
 
 /**
  * Classe principale pour gérer la base de données des papers
@@ -40,8 +92,17 @@ class PaperDatabase {
   async connect() {
     try {
       await initDatabase();
+
+      // Migrations en attente (la base est sauvegardée avant d'être modifiée)
+      await runMigrations();
       this.isConnected = true;
       console.log('✅ Base de données connectée');
+
+      // Indexer en arrière-plan les papers existants si l'index est vide
+      searchOperations.rebuildIfEmpty()
+        .catch((error) => {
+          console.error('❌ Erreur reconstruction index de recherche:', error);
+        });
     } catch (error) {
       console.error('❌ Erreur connexion DB:', error);
       throw error;
@@ -70,7 +131,15 @@ class PaperDatabase {
   }
 
   /**
-   * Initialiser complètement la base (tables, structure...)
+   * Version du schéma et migrations en attente
+   * @returns {Promise<Object>} - { currentVersion, latestVersion, pending }
+   */
+  async getSchemaStatus() {
+    return getMigrationStatus();
+  }
+
+  /**
+   * Initialiser complètement la base (tables, structure...) par les migrations, sans perte de données
    */
   async initialize() {
     try {
@@ -102,16 +171,47 @@ class PaperDatabase {
     return paperCategoryOperations;
   }
 
+  // Méthodes pour les auteurs
+  get authors() {
+    return authorOperations;
+  }
+
+  // Méthodes pour le registre des venues
+  get venues() {
+    return venueOperations;
+  }
+
+  // Méthodes pour les annotations du PDF
+  get annotations() {
+    return annotationOperations;
+  }
+
+  get attachments() {
+    return attachmentOperations;
+  }
+
+  // Méthodes pour la galerie de figures
+  get figures() {
+    return figureOperations;
+  }
+
+  // Méthodes pour la recherche plein texte
+  get search() {
+    return searchOperations;
+  }
+
   // Méthodes pour les fichiers
   get files() {
     return {
-      createPaperFolder,
-      savePdfFile,
-      saveExtractedImages,
+      createPaperFolderStructure,
+      savePaperPDF,
+      saveSelectedPdfImages,
+      saveImportedImage,
       deletePaperFolder,
       getPaperFolderPath,
-      paperFolderExists,
-      listPaperFiles
+      findPaperPDF,
+      removePaperPDF,
+      formatFolderName
     };
   }
 
@@ -126,18 +226,46 @@ class PaperDatabase {
    * @returns {Promise<Object>} - Paper créé avec détails
    */
   async createCompletePaper(paperData, pdfBuffer = null, pdfName = null, extractedImages = [], categoryIds = [], descriptionData = null) {
+    let createdPaper = null;
+
     try {
-      // Créer le paper avec les fichiers
-      const paperId = await this.papers.create(paperData, pdfBuffer, pdfName, extractedImages);
+      // La transaction ne contient que des requêtes : sur la connexion partagée, une écriture de fichier
+      // la garderait ouverte pendant que d'autres requêtes s'y exécutent
+      const paperId = await withTransaction(async () => {
+        const id = await this.papers.create(paperData);
 
-      // Ajouter les catégories
-      if (categoryIds && categoryIds.length > 0) {
-        await this.paperCategories.setPaperCategories(paperId, categoryIds);
-      }
+        // Ajouter les catégories
+        if (categoryIds && categoryIds.length > 0) {
+          await this.paperCategories.setPaperCategories(id, categoryIds);
+        }
+
+        // Ajouter la description
+        if (descriptionData) {
+          await this.descriptions.createOrUpdate(id, descriptionData);
+        }
+
+        return id;
+      });
+
+      // Dossier, PDF et images écrits après la validation ; en cas d'échec le paper est retiré de la base
+      createdPaper = await this.papers.getById(paperId);
+      try {
+        const { title, created_at: createdAt } = createdPaper;
+        await createPaperFolderStructure(paperId, title, createdAt);
+
+        if (pdfBuffer && pdfName) {
+          await savePaperPDF(paperId, title, createdAt, pdfBuffer);
+        }
 
-      // Ajouter la description
-      if (descriptionData) {
-        await this.descriptions.createOrUpdate(paperId, descriptionData);
+        if (extractedImages && extractedImages.length > 0) {
+          await saveSelectedPdfImages(paperId, title, createdAt, extractedImages);
+        }
+      } catch (fileError) {
+        await withTransaction(async () => {
+          await this.papers.deleteRecord(paperId);
+          await this.authors.removeOrphans();
+        });
+        throw fileError;
       }
 
       // Récupérer le paper complet
@@ -147,6 +275,16 @@ class PaperDatabase {
       return completePaper;
     } catch (error) {
       console.error('❌ Erreur création paper complet:', error);
+
+      // La ligne en base est annulée ou retirée, le dossier MyPaperList doit être supprimé à part
+      if (createdPaper) {
+        try {
+          await deletePaperFolder(createdPaper.id, createdPaper.title, createdPaper.created_at);
+        } catch (cleanupError) {
+          console.error('❌ Erreur suppression dossier après rollback:', cleanupError);
+        }
+      }
+
       throw error;
     }
   }
@@ -172,6 +310,326 @@ class PaperDatabase {
     }
   }
 
+  /**
+   * Mettre des papers à la corbeille : deleted_at renseigné et entrées d'index retirées dans une seule transaction,
+   * puis dossiers déplacés dans MyPaperList/.trash
+   * @param {Array<number>} paperIds - IDs des papers
+   * @returns {Promise<Array<number>>} - IDs des papers mis à la corbeille (IDs inconnus et papers déjà à la corbeille ignorés)
+   */
+  async trashPapers(paperIds) {
+    const papers = (await Promise.all(paperIds.map(id => this.papers.getById(id))))
+      .filter(paper => paper && !paper.deleted_at);
+
+    await withTransaction(async () => {
+      await this.papers.setTrashed(papers.map(paper => paper.id), true);
+      for (const paper of papers) {
+        await this.search.removePaper(paper.id);
+      }
+    });
+
+    for (const paper of papers) {
+      trashPaperFolder(paper.id, paper.title, paper.created_at);
+    }
+
+    console.log(`🗑️ ${papers.length} paper(s) mis à la corbeille`);
+    return papers.map(paper => paper.id);
+  }
+
+  /**
+   * Sortir des papers de la corbeille : dossiers remis dans MyPaperList, puis papers réindexés
+   * Un paper dont le dossier ne peut pas être remis en place (dossier du même nom déjà dans MyPaperList)
+   * reste dans la corbeille avec ses fichiers
+   * @param {Array<number>} paperIds - IDs des papers
+   * @returns {Promise<Object>} - { restoredIds, blocked: [{ id, title }] }
+   */
+  async restorePapers(paperIds) {
+    const trashed = (await Promise.all(paperIds.map(id => this.papers.getById(id))))
+      .filter(paper => paper && paper.deleted_at);
+
+    const papers = [];
+    const blocked = [];
+    for (const paper of trashed) {
+      if (restorePaperFolder(paper.id, paper.title, paper.created_at)) {
+        papers.push(paper);
+      } else {
+        console.warn(`⚠️ Dossier du paper ${paper.id} laissé dans la corbeille : un dossier du même nom existe dans MyPaperList`);
+        blocked.push({ id: paper.id, title: paper.title });
+      }
+    }
+
+    // Notes lues avant la transaction : la connexion partagée ne reste pas verrouillée pendant les lectures de fichiers
+    const notesByPaper = new Map();
+    for (const paper of papers) {
+      notesByPaper.set(paper.id, await loadPaperNotes(paper.id, paper.title, paper.created_at));
+    }
+
+    await withTransaction(async () => {
+      await this.papers.setTrashed(papers.map(paper => paper.id), false);
+      for (const paper of papers) {
+        await this.search.indexPaperMetadata(paper.id);
+
+        const blocks = notesByPaper.get(paper.id);
+        if (blocks) await this.search.indexPaperNotes(paper.id, blocks);
+      }
+    });
+
+    // L'extraction du texte PDF a sa propre transaction
+    for (const paper of papers) {
+      await this.search.indexPaperPdf(paper.id);
+    }
+
+    console.log(`♻️ ${papers.length} paper(s) restauré(s)`);
+    return { restoredIds: papers.map(paper => paper.id), blocked };
+  }
+
+  /**
+   * Supprimer définitivement des papers de la corbeille : la base est modifiée dans une seule transaction,
+   * les dossiers ne sont supprimés qu'une fois la transaction validée
+   * @param {Array<number>} paperIds - IDs des papers
+   * @returns {Promise<Array<number>>} - IDs des papers supprimés (seuls ceux de la corbeille sont concernés)
+   */
+  async purgePapers(paperIds) {
+    const papers = (await Promise.all(paperIds.map(id => this.papers.getById(id))))
+      .filter(paper => paper && paper.deleted_at);
+
+    await withTransaction(async () => {
+      for (const paper of papers) {
+        await this.papers.deleteRecord(paper.id);
+      }
+      await this.authors.removeOrphans();
+    });
+
+    for (const paper of papers) {
+      deleteTrashedPaperFolder(paper.id, paper.title, paper.created_at);
+    }
+
+    console.log(`🔥 ${papers.length} paper(s) supprimé(s) définitivement`);
+    return papers.map(paper => paper.id);
+  }
+
+  /**
+   * Purger les papers restés dans la corbeille plus de retentionDays jours
+   * @param {number} retentionDays - Durée de conservation
+   * @returns {Promise<Array<number>>} - IDs des papers supprimés
+   */
+  async purgeExpiredTrash(retentionDays) {
+    const expiredIds = await this.papers.getExpiredTrashIds(retentionDays);
+    return expiredIds.length > 0 ? this.purgePapers(expiredIds) : [];
+  }
+
+  /**
+   * Trouver les paires de papers susceptibles d'être des doublons
+   * @param {Object} options - { threshold }
+   * @returns {Promise<Array>} - Paires { a, b, score, reasons, details }, chaque paper avec ses catégories et le résumé de son dossier
+   */
+  async findDuplicates(options = {}) {
+    const { data: papers } = await this.papers.findPaginated({}, { sortBy: 'created_at', sortOrder: 'asc' }, { limit: 0 });
+    const candidates = findDuplicateCandidates(papers, options);
+
+    const involvedIds = [...new Set(candidates.flatMap(({ a, b }) => [a.id, b.id]))];
+    const texts = await this.descriptions.getTextsForPapers(involvedIds);
+    const details = new Map(papers
+      .filter(paper => involvedIds.includes(paper.id))
+      .map(paper => [paper.id, {
+        ...paper,
+        description: texts[paper.id] || null,
+        files: getPaperFolderSummary(paper.id, paper.title, paper.created_at)
+      }]));
+
+    console.log(`🔍 ${candidates.length} paires de doublons potentiels parmi ${papers.length} papers`);
+    return candidates.map(candidate => ({
+      ...candidate,
+      a: details.get(candidate.a.id),
+      b: details.get(candidate.b.id)
+    }));
+  }
+
+  /**
+   * Fusionner un doublon dans le paper conservé
+   * - Métadonnées : valeur choisie par champ (fields[champ] = 'duplicate'), sinon celle du paper conservé
+   *   complétée par le doublon si elle est vide ; le statut de lecture le plus avancé est gardé
+   * - Catégories réunies, descriptions et notes mises bout à bout
+   * - PDF, images et pièces jointes copiés dans le dossier du paper conservé, puis dossier du doublon supprimé
+   * - Annotations du doublon reprises quand son PDF devient celui du paper conservé
+   * - Légendes et tags des figures copiées repris (figures.json)
+   * @param {number} survivorId - ID du paper conservé
+   * @param {number} duplicateId - ID du doublon absorbé
+   * @param {Object} fields - Source de chaque champ { title: 'survivor' | 'duplicate', ... }
+   * @returns {Promise<Object>} - { paper, summary }
+   */
+  async mergePapers(survivorId, duplicateId, fields = {}) {
+    const survivor = await this.papers.getByIdWithDetails(survivorId);
+    const duplicate = await this.papers.getByIdWithDetails(duplicateId);
+
+    if (!survivor || !duplicate) {
+      return null;
+    }
+
+    // Métadonnées retenues
+    const updates = {};
+    for (const field of MERGE_FIELDS) {
+      const value = fields[field] === 'duplicate'
+        ? duplicate[field]
+        : fields[field] === 'survivor' ? survivor[field] : survivor[field] || duplicate[field];
+
+      if (value !== survivor[field]) {
+        updates[field] = value;
+      }
+    }
+    if (!fields.reading_status) {
+      const rank = (status) => READING_STATUS_RANK.indexOf(status);
+      const status = rank(duplicate.reading_status) > rank(survivor.reading_status)
+        ? duplicate.reading_status
+        : survivor.reading_status;
+      if (status !== survivor.reading_status) updates.reading_status = status;
+      else delete updates.reading_status;
+    }
+
+    // La version arXiv suit l'identifiant retenu (la plus récente si les deux papers ont le même)
+    const arxivId = 'arxiv_id' in updates ? updates.arxiv_id : survivor.arxiv_id;
+    const [arxivVersion = null] = [survivor, duplicate]
+      .filter(paper => arxivId && paper.arxiv_id === arxivId && paper.arxiv_version)
+      .map(paper => paper.arxiv_version)
+      .sort((a, b) => parseInt(b.slice(1), 10) - parseInt(a.slice(1), 10));
+    if (arxivVersion !== (survivor.arxiv_version || null)) {
+      updates.arxiv_version = arxivVersion;
+    }
+
+    const finalTitle = updates.title || survivor.title;
+    const sourceFolder = formatFolderName(duplicate.id, duplicate.title, duplicate.created_at);
+    const currentFolder = formatFolderName(survivor.id, survivor.title, survivor.created_at);
+    const targetFolder = formatFolderName(survivor.id, finalTitle, survivor.created_at);
+
+    if (currentFolder !== targetFolder) {
+      updates.folder_path = getPaperFolderPath(survivor.id, finalTitle, survivor.created_at);
+    }
+
+    // Copie des fichiers du doublon (annulée si la mise à jour de la base échoue)
+    const copy = await mergePaperFolders(duplicate, survivor);
+
+    // Les URLs de fichiers pointent vers le dossier final du paper conservé
+    const fromSurvivor = (text) => rewriteFileReferences(text, currentFolder, targetFolder);
+    const fromDuplicate = (text) => rewriteFileReferences(text, sourceFolder, targetFolder, copy.renamed);
+
+    // Image de couverture : elle peut être rangée dans l'un ou l'autre dossier
+    const imageFromDuplicate = fields.image === 'duplicate' || (fields.image !== 'survivor' && !survivor.image);
+    const image = imageFromDuplicate ? fromDuplicate(duplicate.image) : fromSurvivor(survivor.image);
+    if (image !== survivor.image) updates.image = image;
+    else delete updates.image;
+
+    // Description : textes mis bout à bout, images réunies
+    const survivorText = survivor.description ? (survivor.description.texte || '').trim() : '';
+    const duplicateText = duplicate.description ? (duplicate.description.texte || '').trim() : '';
+    const texte = [survivorText, duplicateText !== survivorText ? duplicateText : '']
+      .filter(Boolean)
+      .join('\n\n');
+    const images = [...new Set([
+      ...parseDescriptionImages(survivor.description).map(fromSurvivor),
+      ...parseDescriptionImages(duplicate.description).map(fromDuplicate)
+    ])];
+
+    const categoryIds = [...new Set([...survivor.categories, ...duplicate.categories].map(category => category.id))];
+
+    let mergedAttachments = 0;
+
+    try {
+      await withTransaction(async () => {
+        // Pièces jointes rattachées au paper conservé (fichiers déjà copiés)
+        mergedAttachments = await this.attachments.moveToPaper(duplicate.id, survivor.id, copy.renamed);
+
+        // Le doublon est retiré avant la mise à jour (son DOI peut être repris)
+        await this.papers.deleteRecord(duplicate.id);
+        await this.papers.update(survivor.id, updates);
+        await this.paperCategories.setPaperCategories(survivor.id, categoryIds);
+        // Auteurs du doublon qui ne figurent plus sur aucun paper
+        await this.authors.removeOrphans();
+
+        if (texte || images.length > 0) {
+          await this.descriptions.createOrUpdate(survivor.id, {
+            texte: texte || null,
+            images: images.length > 0 ? JSON.stringify(images) : null
+          });
+        }
+
+        await this.search.indexPaperMetadata(survivor.id);
+      });
+    } catch (error) {
+      removeFiles(copy.copied);
+      console.error('❌ Erreur fusion des papers:', error);
+      throw error;
+    }
+
+    // Fichiers : dossier renommé si le titre change, notes réunies, dossier du doublon supprimé
+    if (currentFolder !== targetFolder) {
+      renamePaperFolder(survivor.id, survivor.title, finalTitle, survivor.created_at);
+    }
+
+    const survivorBlocks = await loadPaperNotes(survivor.id, finalTitle, survivor.created_at);
+    const duplicateBlocks = await loadPaperNotes(duplicate.id, duplicate.title, duplicate.created_at);
+    let blocks = survivorBlocks ? JSON.parse(fromSurvivor(JSON.stringify(survivorBlocks))) : null;
+
+    if (duplicateBlocks && duplicateBlocks.length > 0) {
+      const merged = JSON.parse(fromDuplicate(JSON.stringify(duplicateBlocks)))
+        .map(block => ({ ...block, id: `${block.id}-${duplicate.id}` }));
+
+      blocks = [
+        ...(blocks || []),
+        { id: `merge-${duplicate.id}-${Date.now()}`, type: 'h2', content: `Notes fusionnées depuis « ${duplicate.title} »` },
+        ...merged
+      ];
+    }
+
+    if (blocks) {
+      await savePaperNotes(survivor.id, finalTitle, survivor.created_at, blocks);
+      await this.search.indexPaperNotes(survivor.id, blocks);
+    }
+
+    // Annotations du doublon reprises seulement si son PDF devient celui du paper conservé
+    const duplicateAnnotations = copy.pdf && !copy.pdf.includes('/')
+      ? loadPaperAnnotations(duplicate.id, duplicate.title, duplicate.created_at)
+      : [];
+    if (duplicateAnnotations.length > 0) {
+      await savePaperAnnotations(survivor.id, finalTitle, survivor.created_at, [
+        ...loadPaperAnnotations(survivor.id, finalTitle, survivor.created_at),
+        ...duplicateAnnotations
+      ]);
+    }
+
+    // Métadonnées des figures copiées, sous leur nom dans le dossier du paper conservé
+    const duplicateFigures = loadPaperFigures(duplicate.id, duplicate.title, duplicate.created_at)
+      .map(figure => ({ ...figure, path: copy.renamed[figure.path] || figure.path }));
+    if (duplicateFigures.length > 0) {
+      await savePaperFigures(survivor.id, finalTitle, survivor.created_at, [
+        ...loadPaperFigures(survivor.id, finalTitle, survivor.created_at)
+          .filter(figure => !duplicateFigures.some(copied => copied.path === figure.path)),
+        ...duplicateFigures
+      ]);
+    }
+
+    await deletePaperFolder(duplicate.id, duplicate.title, duplicate.created_at);
+
+    if (copy.pdf || currentFolder !== targetFolder) {
+      await this.search.indexPaperPdf(survivor.id);
+    }
+
+    console.log(`🔀 Paper ${duplicate.id} fusionné dans le paper ${survivor.id}`);
+
+    return {
+      paper: await this.papers.getByIdWithDetails(survivor.id),
+      summary: {
+        survivorId: survivor.id,
+        removedId: duplicate.id,
+        updatedFields: Object.keys(updates).filter(field => MERGE_FIELDS.includes(field)),
+        categories: categoryIds.length,
+        copiedFiles: copy.copied.length,
+        pdf: copy.pdf,
+        mergedNotes: Boolean(duplicateBlocks && duplicateBlocks.length > 0),
+        mergedAnnotations: duplicateAnnotations.length,
+        mergedAttachments
+      }
+    };
+  }
+
   /**
  * Obtenir des statistiques sur la base de données - VERSION CORRIGÉE
  * @returns {Promise<Object>} - Statistiques
@@ -302,6 +760,7 @@ module.exports = {
   initDatabase,
   closeDatabase,
   getDatabase,
+  withTransaction,
   initializeDatabase,
   
   // Opérations
@@ -309,9 +768,17 @@ module.exports = {
   categoryOperations,
   descriptionOperations,
   paperCategoryOperations,
+  authorOperations,
+  venueOperations,
+  searchOperations,
   
   // Modèles et validation
   READING_STATUS,
+  ITEM_TYPES,
+  PAPER_FIELD_LABELS,
+  EDITABLE_PAPER_FIELDS,
+  getMissingPaperFields,
+  describeMissingFields,
   validatePaper,
   validateCategory,
   validateDescription,
@@ -320,11 +787,11 @@ module.exports = {
   createDescription,
   
   // Gestion fichiers
-  createPaperFolder,
-  savePdfFile,
-  saveExtractedImages,
+  createPaperFolderStructure,
+  savePaperPDF,
+  saveSelectedPdfImages,
+  saveImportedImage,
   deletePaperFolder,
   getPaperFolderPath,
-  paperFolderExists,
-  listPaperFiles
+  formatFolderName
 };
\ No newline at end of file
@@ -1,17 +1,29 @@
-const { initDatabase, startInit, closeDatabase } = require('./database');
+const { initDatabase, closeDatabase } = require('./database');
+const { getMigrationStatus, runMigrations } = require('./migrator');
 
 /**
- * Script principal d'initialisation
+ * Script principal d'initialisation : crée la base ou applique les migrations en attente
+ * Options : --dry-run (liste les migrations sans les appliquer), --status, --no-backup
+ * @param {Array<string>} args - Arguments de la ligne de commande
  */
-async function main() {
+async function main(args = []) {
   try {
     console.log('🚀 Initialisation de la base de données...');
     
     // Initialiser la connexion
     await initDatabase();
-    
-    // Créer les tables
-    await startInit();
+
+    if (args.includes('--status')) {
+      const status = await getMigrationStatus();
+      console.log(`📋 Schéma en v${status.currentVersion} (dernière version : v${status.latestVersion})`);
+      status.pending.forEach(migration => console.log(`   - en attente : ${migration.version} ${migration.name}`));
+    } else {
+      // Appliquer les migrations (sans supprimer les données existantes)
+      await runMigrations({
+        dryRun: args.includes('--dry-run'),
+        backup: !args.includes('--no-backup')
+      });
+    }
     
     // Fermer la connexion
     await closeDatabase();
@@ -33,10 +45,10 @@ async function initializeDatabase() {
 
 // Exécuter le script si appelé directement
 if (require.main === module) {
-  main();
+  main(process.argv.slice(2));
 }
 
 module.exports = { 
   initializeDatabase,
   main
-};
\ No newline at end of file
+};
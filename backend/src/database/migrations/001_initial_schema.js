@@ -0,0 +1,51 @@
+// Migration 001 - Schéma initial : papers, catégories et descriptions
+// Les tables existantes sont conservées (bases créées avant le suivi des versions)
+
+module.exports = {
+  description: 'Tables Papers, Categories, PaperCategories et Descriptions',
+
+  /**
+   * @param {Object} db - Contexte de migration { run, get, all, insert }
+   */
+  async up(db) {
+    await db.run(`CREATE TABLE IF NOT EXISTS Papers (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      title TEXT NOT NULL,
+      authors TEXT NOT NULL,
+      publication_date DATE NOT NULL,
+      conference TEXT,
+      reading_status TEXT DEFAULT 'non_lu',
+      image TEXT,
+      doi TEXT NOT NULL UNIQUE,
+      url TEXT NOT NULL,
+      folder_path TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`);
+
+    await db.run(`CREATE TABLE IF NOT EXISTS Categories (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE
+    )`);
+
+    await db.run(`CREATE TABLE IF NOT EXISTS PaperCategories (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      paper_id INTEGER,
+      categorie_id INTEGER,
+      FOREIGN KEY (paper_id) REFERENCES Papers(id) ON DELETE CASCADE,
+      FOREIGN KEY (categorie_id) REFERENCES Categories(id) ON DELETE CASCADE
+    )`);
+
+    await db.run(`CREATE TABLE IF NOT EXISTS Descriptions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      paper_id INTEGER UNIQUE,
+      texte TEXT,
+      images TEXT,
+      FOREIGN KEY (paper_id) REFERENCES Papers(id) ON DELETE CASCADE
+    )`);
+
+    // Abréviation de la conférence (ajoutée auparavant par un ALTER TABLE au démarrage)
+    if (!(await db.hasColumn('Papers', 'conference_abbreviation'))) {
+      await db.run('ALTER TABLE Papers ADD COLUMN conference_abbreviation TEXT');
+    }
+  }
+};
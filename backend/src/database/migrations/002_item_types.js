@@ -0,0 +1,76 @@
+// Migration 002 - Types de documents : DOI et URL facultatifs, identifiants arXiv / ISBN
+const { extractArxivId, inferItemType } = require('../../formats/common');
+
+// Colonnes de la table Papers reconstruite
+// Le DOI est facultatif mais unique quand il est renseigné (SQLite accepte plusieurs NULL)
+const PAPERS_COLUMNS = `
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      title TEXT NOT NULL,
+      authors TEXT NOT NULL,
+      publication_date DATE NOT NULL,
+      conference TEXT,
+      reading_status TEXT DEFAULT 'non_lu',
+      image TEXT,
+      item_type TEXT NOT NULL DEFAULT 'journal_article',
+      doi TEXT UNIQUE,
+      url TEXT,
+      arxiv_id TEXT,
+      isbn TEXT,
+      publisher TEXT,
+      folder_path TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      conference_abbreviation TEXT
+    `;
+
+// Colonnes reprises telles quelles de l'ancienne table
+const LEGACY_PAPERS_COLUMNS = ['id', 'title', 'authors', 'publication_date', 'conference', 'reading_status', 'image', 'folder_path', 'created_at', 'conference_abbreviation'];
+
+module.exports = {
+  description: 'Reconstruction de Papers avec types de documents (DOI facultatif)',
+
+  /**
+   * SQLite ne permet pas de retirer une contrainte NOT NULL : la table est reconstruite
+   * Le type de document est déduit du DOI, de l'URL et du conteneur
+   * @param {Object} db - Contexte de migration { run, get, all, insert }
+   */
+  async up(db) {
+    const columns = await db.all('PRAGMA table_info(Papers)');
+    const doiColumn = columns.find(column => column.name === 'doi');
+
+    // Table déjà au format à types de documents
+    if (columns.some(column => column.name === 'item_type') && doiColumn && !doiColumn.notnull) {
+      return;
+    }
+
+    // Colonnes ajoutées depuis à une base qui aurait été partiellement migrée
+    const existing = new Set(columns.map(column => column.name));
+    const copied = LEGACY_PAPERS_COLUMNS.filter(name => existing.has(name)).join(', ');
+
+    // Conserver le compteur d'IDs (les IDs supprimés ne doivent pas être réattribués)
+    const sequence = await db.get("SELECT seq FROM sqlite_sequence WHERE name = 'Papers'");
+
+    await db.run('DROP TABLE IF EXISTS Papers_migration');
+    await db.run(`CREATE TABLE Papers_migration (${PAPERS_COLUMNS})`);
+    await db.run(`
+      INSERT INTO Papers_migration (${copied}, doi, url)
+      SELECT ${copied}, NULLIF(TRIM(doi), ''), NULLIF(TRIM(url), '') FROM Papers
+    `);
+    await db.run('DROP TABLE Papers');
+    await db.run('ALTER TABLE Papers_migration RENAME TO Papers');
+
+    if (sequence) {
+      await db.run("UPDATE sqlite_sequence SET seq = MAX(seq, ?) WHERE name = 'Papers'", [sequence.seq]);
+    }
+
+    const papers = await db.all('SELECT id, doi, url, conference FROM Papers');
+    for (const paper of papers) {
+      await db.run('UPDATE Papers SET item_type = ?, arxiv_id = ? WHERE id = ?', [
+        inferItemType(paper),
+        extractArxivId(paper.doi, paper.url) || null,
+        paper.id
+      ]);
+    }
+
+    console.log(`✅ Table Papers reconstruite (${papers.length} papers)`);
+  }
+};
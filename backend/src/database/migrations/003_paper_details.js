@@ -0,0 +1,32 @@
+// Migration 003 - Version arXiv, résumé et mots-clés des papers
+const { splitArxivVersion } = require('../../formats/common');
+
+// Colonnes ajoutées à la table Papers
+const ADDED_COLUMNS = {
+  arxiv_version: 'TEXT',
+  abstract: 'TEXT',
+  keywords: 'TEXT'
+};
+
+module.exports = {
+  description: 'Colonnes arxiv_version, abstract et keywords de Papers',
+
+  /**
+   * La version arXiv est séparée des identifiants enregistrés avec leur version (1706.03762v5)
+   * @param {Object} db - Contexte de migration { run, get, all, insert }
+   */
+  async up(db) {
+    for (const [name, type] of Object.entries(ADDED_COLUMNS)) {
+      if (!(await db.hasColumn('Papers', name))) {
+        await db.run(`ALTER TABLE Papers ADD COLUMN ${name} ${type}`);
+        console.log(`✅ Colonne ${name} ajoutée à Papers`);
+      }
+    }
+
+    const versioned = await db.all("SELECT id, arxiv_id FROM Papers WHERE arxiv_id GLOB '*v[0-9]*'");
+    for (const paper of versioned) {
+      const { id, version } = splitArxivVersion(paper.arxiv_id);
+      await db.run('UPDATE Papers SET arxiv_id = ?, arxiv_version = COALESCE(arxiv_version, ?) WHERE id = ?', [id, version, paper.id]);
+    }
+  }
+};
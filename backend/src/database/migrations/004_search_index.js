@@ -0,0 +1,18 @@
+// Migration 004 - Index de recherche plein texte (métadonnées, notes, texte PDF)
+// L'index est rempli au démarrage quand il est vide (searchOperations.rebuildIfEmpty)
+
+module.exports = {
+  description: 'Table virtuelle FTS5 PaperSearchIndex',
+
+  /**
+   * @param {Object} db - Contexte de migration { run, get, all, insert }
+   */
+  async up(db) {
+    await db.run(`CREATE VIRTUAL TABLE IF NOT EXISTS PaperSearchIndex USING fts5(
+      paper_id UNINDEXED,
+      source UNINDEXED,
+      content,
+      tokenize = 'unicode61 remove_diacritics 2'
+    )`);
+  }
+};
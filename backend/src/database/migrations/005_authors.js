@@ -0,0 +1,77 @@
+// Migration 005 - Auteurs structurés : un auteur par personne, liens ordonnés vers les papers
+const { parseAuthorList, authorDisplayName, authorNameKey } = require('../../formats/common');
+
+module.exports = {
+  description: 'Tables Authors et PaperAuthors, reprise des chaînes d\'auteurs',
+
+  /**
+   * Chaque nom devient un auteur (les homonymes exacts sont regroupés), dans l'ordre de la chaîne
+   * Les anciennes chaînes "Nom, Prénom and Nom, Prénom" ou séparées par ";" sont réécrites au format "Prénom Nom, Prénom Nom"
+   * @param {Object} db - Contexte de migration { run, get, all, insert }
+   */
+  async up(db) {
+    const existing = await db.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'PaperAuthors'");
+
+    // ORCID unique quand il est connu
+    await db.run(`CREATE TABLE IF NOT EXISTS Authors (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      given_name TEXT,
+      family_name TEXT NOT NULL,
+      name_key TEXT NOT NULL,
+      orcid TEXT UNIQUE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`);
+
+    await db.run(`CREATE TABLE IF NOT EXISTS PaperAuthors (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      paper_id INTEGER NOT NULL,
+      author_id INTEGER NOT NULL,
+      position INTEGER NOT NULL,
+      UNIQUE (paper_id, position),
+      FOREIGN KEY (paper_id) REFERENCES Papers(id) ON DELETE CASCADE,
+      FOREIGN KEY (author_id) REFERENCES Authors(id) ON DELETE CASCADE
+    )`);
+
+    // Recherche par nom, papers d'un auteur
+    await db.run('CREATE INDEX IF NOT EXISTS idx_authors_name_key ON Authors(name_key)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_paper_authors_author ON PaperAuthors(author_id)');
+
+    if (existing) {
+      return;
+    }
+
+    const papers = await db.all("SELECT id, authors FROM Papers WHERE COALESCE(authors, '') != ''");
+    const authorIds = new Map();
+
+    for (const paper of papers) {
+      const authors = parseAuthorList(paper.authors);
+      const displayed = authors.map(authorDisplayName).join(', ');
+
+      if (displayed !== paper.authors) {
+        await db.run('UPDATE Papers SET authors = ? WHERE id = ?', [displayed, paper.id]);
+      }
+
+      for (const [position, author] of authors.entries()) {
+        const key = authorNameKey(author);
+
+        if (!authorIds.has(key)) {
+          const id = await db.insert(
+            'INSERT INTO Authors (given_name, family_name, name_key) VALUES (?, ?, ?)',
+            [author.given || null, author.family, key]
+          );
+          authorIds.set(key, id);
+        }
+
+        await db.run('INSERT INTO PaperAuthors (paper_id, author_id, position) VALUES (?, ?, ?)', [
+          paper.id,
+          authorIds.get(key),
+          position
+        ]);
+      }
+    }
+
+    if (papers.length > 0) {
+      console.log(`✅ ${authorIds.size} auteurs repris de ${papers.length} papers`);
+    }
+  }
+};
@@ -0,0 +1,104 @@
+// Migration 006 - Registre des venues (conférences, revues) et variantes de leur nom
+// Les papers existants sont rattachés au registre dès sa création
+const { VENUE_SEED, venueKey, createVenueMatcher } = require('../venues');
+
+module.exports = {
+  description: 'Tables Venues et VenueAliases, colonne venue_id de Papers',
+
+  /**
+   * alias_key : nom normalisé (venueKey), unique dans tout le registre
+   * @param {Object} db - Contexte de migration { run, get, all, insert }
+   */
+  async up(db) {
+    const existing = await db.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'Venues'");
+
+    await db.run(`CREATE TABLE IF NOT EXISTS Venues (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      abbreviation TEXT,
+      type TEXT NOT NULL DEFAULT 'conference',
+      rank TEXT,
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )`);
+
+    await db.run(`CREATE TABLE IF NOT EXISTS VenueAliases (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      venue_id INTEGER NOT NULL,
+      alias TEXT NOT NULL,
+      alias_key TEXT NOT NULL UNIQUE,
+      FOREIGN KEY (venue_id) REFERENCES Venues(id) ON DELETE CASCADE
+    )`);
+
+    if (!(await db.hasColumn('Papers', 'venue_id'))) {
+      await db.run('ALTER TABLE Papers ADD COLUMN venue_id INTEGER');
+    }
+
+    // Papers d'une venue, alias d'une venue
+    await db.run('CREATE INDEX IF NOT EXISTS idx_papers_venue ON Papers(venue_id)');
+    await db.run('CREATE INDEX IF NOT EXISTS idx_venue_aliases_venue ON VenueAliases(venue_id)');
+
+    // Liste initiale, insérée à la création du registre (les venues supprimées depuis ne reviennent pas)
+    if (existing) {
+      return;
+    }
+
+    for (const venue of VENUE_SEED) {
+      await db.run('INSERT OR IGNORE INTO Venues (name, abbreviation, type, rank, notes) VALUES (?, ?, ?, ?, ?)', [
+        venue.name,
+        venue.abbreviation || null,
+        venue.type,
+        venue.rank || null,
+        venue.notes || null
+      ]);
+
+      for (const alias of venue.aliases || []) {
+        await db.run(
+          'INSERT OR IGNORE INTO VenueAliases (venue_id, alias, alias_key) SELECT id, ?, ? FROM Venues WHERE name = ?',
+          [alias, venueKey(alias), venue.name]
+        );
+      }
+    }
+
+    await matchExistingPapers(db);
+  }
+};
+
+/**
+ * Rattacher les papers existants aux venues de la liste initiale (même règle que venueOperations.matchPapers)
+ * L'abréviation reprise de la venue est ajoutée à l'entrée d'index du paper, s'il est déjà indexé
+ * @param {Object} db - Contexte de migration
+ */
+async function matchExistingPapers(db) {
+  const venues = await db.all('SELECT id, name, abbreviation FROM Venues');
+  const aliases = await db.all('SELECT venue_id, alias FROM VenueAliases');
+  const matcher = createVenueMatcher(venues.map(venue => ({
+    ...venue,
+    aliases: aliases.filter(alias => alias.venue_id === venue.id).map(alias => alias.alias)
+  })));
+
+  const papers = await db.all(`
+    SELECT id, conference, conference_abbreviation FROM Papers
+    WHERE venue_id IS NULL AND COALESCE(conference, '') != ''
+  `);
+
+  let matched = 0;
+  for (const paper of papers) {
+    const match = matcher(paper.conference);
+    if (!match) continue;
+
+    const abbreviation = paper.conference_abbreviation || match.venue.abbreviation || null;
+    await db.run('UPDATE Papers SET venue_id = ?, conference_abbreviation = ? WHERE id = ?', [match.venue.id, abbreviation, paper.id]);
+    if (abbreviation !== paper.conference_abbreviation) {
+      await db.run(
+        "UPDATE PaperSearchIndex SET content = content || ? WHERE paper_id = ? AND source = 'metadata'",
+        [`\n${abbreviation}`, paper.id]
+      );
+    }
+    matched++;
+  }
+
+  if (matched > 0) {
+    console.log(`🏛️ ${matched} papers rattachés au registre des venues`);
+  }
+}
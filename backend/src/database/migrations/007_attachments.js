@@ -0,0 +1,30 @@
+// Migration 007 - Pièces jointes des papers (matériel supplémentaire, présentations, code, données)
+// Les fichiers sont rangés dans le sous-dossier attachments/ du dossier du paper
+
+module.exports = {
+  description: 'Table Attachments',
+
+  /**
+   * filename : nom du fichier dans attachments/ ; original_name : nom proposé au téléchargement
+   * checksum : SHA-256 du contenu (détection des envois en double)
+   * @param {Object} db - Contexte de migration { run, get, all, insert }
+   */
+  async up(db) {
+    await db.run(`CREATE TABLE IF NOT EXISTS Attachments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      paper_id INTEGER NOT NULL,
+      kind TEXT NOT NULL DEFAULT 'other',
+      filename TEXT NOT NULL,
+      original_name TEXT NOT NULL,
+      size INTEGER NOT NULL DEFAULT 0,
+      mime TEXT,
+      checksum TEXT,
+      label TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (paper_id, filename),
+      FOREIGN KEY (paper_id) REFERENCES Papers(id) ON DELETE CASCADE
+    )`);
+
+    await db.run('CREATE INDEX IF NOT EXISTS idx_attachments_paper ON Attachments(paper_id)');
+  }
+};
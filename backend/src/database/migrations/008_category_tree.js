@@ -0,0 +1,27 @@
+// Migration 008 - Arborescence des catégories (catégorie parente), couleur et icône
+// Les catégories existantes restent à la racine
+
+module.exports = {
+  description: 'Colonnes parent_id, color et icon de Categories',
+
+  /**
+   * parent_id : catégorie parente (NULL à la racine) ; color : couleur hexadécimale ; icon : emoji
+   * @param {Object} db - Contexte de migration { run, get, all, insert }
+   */
+  async up(db) {
+    if (!(await db.hasColumn('Categories', 'parent_id'))) {
+      await db.run('ALTER TABLE Categories ADD COLUMN parent_id INTEGER REFERENCES Categories(id) ON DELETE SET NULL');
+    }
+
+    if (!(await db.hasColumn('Categories', 'color'))) {
+      await db.run('ALTER TABLE Categories ADD COLUMN color TEXT');
+    }
+
+    if (!(await db.hasColumn('Categories', 'icon'))) {
+      await db.run('ALTER TABLE Categories ADD COLUMN icon TEXT');
+    }
+
+    // Sous-catégories d'une catégorie
+    await db.run('CREATE INDEX IF NOT EXISTS idx_categories_parent ON Categories(parent_id)');
+  }
+};
@@ -0,0 +1,22 @@
+// Migration 009 - Date d'ajout des liaisons paper-catégorie (dernière utilisation d'une catégorie)
+// Les liaisons existantes prennent la date d'ajout de leur paper
+
+module.exports = {
+  description: 'Colonne created_at de PaperCategories',
+
+  /**
+   * created_at : date à laquelle le paper a été rangé dans la catégorie
+   * (SQLite n'accepte pas CURRENT_TIMESTAMP par défaut dans ALTER TABLE : renseignée à l'insertion)
+   * @param {Object} db - Contexte de migration { run, get, all, insert }
+   */
+  async up(db) {
+    if (!(await db.hasColumn('PaperCategories', 'created_at'))) {
+      await db.run('ALTER TABLE PaperCategories ADD COLUMN created_at DATETIME');
+      await db.run(`UPDATE PaperCategories
+        SET created_at = COALESCE((SELECT created_at FROM Papers WHERE Papers.id = PaperCategories.paper_id), CURRENT_TIMESTAMP)`);
+    }
+
+    // Papers d'une catégorie (comptes, fusion, suppression)
+    await db.run('CREATE INDEX IF NOT EXISTS idx_paper_categories_category ON PaperCategories(categorie_id)');
+  }
+};
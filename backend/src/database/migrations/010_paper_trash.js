@@ -0,0 +1,19 @@
+// Migration 010 - Corbeille : suppression réversible des papers
+// Les papers existants restent dans la bibliothèque (deleted_at NULL)
+
+module.exports = {
+  description: 'Colonne deleted_at de Papers',
+
+  /**
+   * deleted_at : date de mise à la corbeille (NULL pour un paper de la bibliothèque)
+   * @param {Object} db - Contexte de migration { run, get, all, insert }
+   */
+  async up(db) {
+    if (!(await db.hasColumn('Papers', 'deleted_at'))) {
+      await db.run('ALTER TABLE Papers ADD COLUMN deleted_at DATETIME');
+    }
+
+    // Contenu de la corbeille et purge automatique
+    await db.run('CREATE INDEX IF NOT EXISTS idx_papers_deleted_at ON Papers(deleted_at)');
+  }
+};
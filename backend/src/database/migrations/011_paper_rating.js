@@ -0,0 +1,16 @@
+// Migration 011 - Note personnelle des papers (vue tableau)
+// Les papers existants restent sans note (rating NULL)
+
+module.exports = {
+  description: 'Colonne rating de Papers',
+
+  /**
+   * rating : note de 1 à 5 donnée par l'utilisateur (NULL si non noté)
+   * @param {Object} db - Contexte de migration { run, get, all, insert }
+   */
+  async up(db) {
+    if (!(await db.hasColumn('Papers', 'rating'))) {
+      await db.run('ALTER TABLE Papers ADD COLUMN rating INTEGER');
+    }
+  }
+};
@@ -0,0 +1,17 @@
+// Migration 012 - Liaisons paper-catégorie orphelines
+// Les clés étrangères n'étant pas activées, les suppressions et fusions de catégories laissaient leurs liaisons
+
+module.exports = {
+  description: 'Suppression des liaisons PaperCategories sans catégorie ou sans paper',
+
+  /**
+   * @param {Object} db - Contexte de migration { run, get, all, insert }
+   */
+  async up(db) {
+    await db.run(`
+      DELETE FROM PaperCategories
+      WHERE categorie_id NOT IN (SELECT id FROM Categories)
+         OR paper_id NOT IN (SELECT id FROM Papers)
+    `);
+  }
+};
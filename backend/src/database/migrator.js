@@ -0,0 +1,193 @@
+// backend/src/database/migrator.js - Migrations versionnées du schéma (dossier migrations/, table schema_migrations)
+const fs = require('fs');
+const path = require('path');
+const { getDatabase, getDatabasePath, migrationQuery, withTransaction } = require('./database');
+const { BACKUP_CONFIG } = require('../backup/config');
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+
+// Fichiers de migration : numéro de version puis nom ("006_venues.js")
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.js$/;
+
+/**
+ * Charger les migrations du dossier, triées par version
+ * Chaque fichier exporte { description, up(db) }
+ * @param {string} dir - Dossier des migrations
+ * @returns {Array<Object>} - [{ version, name, description, up }]
+ */
+function loadMigrations(dir = MIGRATIONS_DIR) {
+  const migrations = fs.readdirSync(dir)
+    .map(file => ({ file, match: file.match(MIGRATION_FILE_PATTERN) }))
+    .filter(({ match }) => match)
+    .map(({ file, match }) => {
+      const migration = require(path.join(dir, file));
+
+      if (typeof migration.up !== 'function') {
+        throw new Error(`Migration ${file} invalide : fonction up manquante`);
+      }
+
+      return {
+        version: parseInt(match[1], 10),
+        name: match[2],
+        description: migration.description || match[2],
+        up: migration.up
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migrations[index - 1].version === migration.version) {
+      throw new Error(`Deux migrations portent la version ${migration.version}`);
+    }
+  });
+
+  return migrations;
+}
+
+/**
+ * Contexte passé aux migrations (requêtes sur la connexion courante)
+ * @returns {Object} - { run, get, all, insert, hasColumn }
+ */
+function createMigrationContext() {
+  return {
+    run: (sql, params = []) => migrationQuery('run', sql, params),
+    get: (sql, params = []) => migrationQuery('get', sql, params),
+    all: (sql, params = []) => migrationQuery('all', sql, params),
+
+    // INSERT renvoyant l'ID de la ligne créée
+    insert: (sql, params = []) => new Promise((resolve, reject) => {
+      getDatabase().run(sql, params, function(err) {
+        if (err) reject(err);
+        else resolve(this.lastID);
+      });
+    }),
+
+    hasColumn: async (table, column) => {
+      const columns = await migrationQuery('all', `PRAGMA table_info(${table})`);
+      return columns.some(({ name }) => name === column);
+    }
+  };
+}
+
+/**
+ * Versions déjà appliquées (aucune si la table de suivi n'existe pas encore)
+ * @returns {Promise<Set<number>>}
+ */
+async function getAppliedVersions() {
+  const table = await migrationQuery('get', "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'");
+  if (!table) {
+    return new Set();
+  }
+
+  const rows = await migrationQuery('all', 'SELECT version FROM schema_migrations');
+  return new Set(rows.map(row => row.version));
+}
+
+/**
+ * État du schéma : version courante et migrations en attente
+ * @param {Array<Object>} migrations - Migrations connues (dossier migrations/ par défaut)
+ * @returns {Promise<Object>} - { currentVersion, latestVersion, pending: [{ version, name, description }] }
+ */
+async function getMigrationStatus(migrations = loadMigrations()) {
+  const applied = await getAppliedVersions();
+  const pending = migrations.filter(migration => !applied.has(migration.version));
+
+  return {
+    currentVersion: applied.size > 0 ? Math.max(...applied) : 0,
+    latestVersion: migrations.length > 0 ? migrations[migrations.length - 1].version : 0,
+    pending: pending.map(({ version, name, description }) => ({ version, name, description }))
+  };
+}
+
+/**
+ * Copier la base avant migration (VACUUM INTO : copie cohérente depuis la connexion ouverte)
+ * Une base vide (création) n'est pas sauvegardée
+ * @param {number} fromVersion - Version du schéma avant migration
+ * @returns {Promise<string|null>} - Chemin de la sauvegarde
+ */
+async function backupBeforeMigration(fromVersion) {
+  const table = await migrationQuery('get', "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'Papers'");
+  if (!table) {
+    return null;
+  }
+
+  fs.mkdirSync(BACKUP_CONFIG.dir, { recursive: true });
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const baseName = path.basename(getDatabasePath(), '.db');
+  const backupPath = path.join(BACKUP_CONFIG.dir, `${baseName}-v${fromVersion}-${timestamp}.db`);
+
+  await migrationQuery('run', 'VACUUM INTO ?', [backupPath]);
+  console.log(`💾 Base sauvegardée avant migration : ${backupPath}`);
+
+  return backupPath;
+}
+
+/**
+ * Appliquer les migrations en attente, chacune dans sa propre transaction
+ * Les migrations vérifient le schéma existant : une base créée avant le suivi des versions
+ * est mise à niveau sans perte, chaque étape déjà présente étant simplement enregistrée
+ * @param {Object} options - { dryRun, backup, migrations }
+ * @returns {Promise<Object>} - { dryRun, fromVersion, toVersion, applied, pending, backupPath }
+ */
+async function runMigrations(options = {}) {
+  const { dryRun = false, backup = true } = options;
+  const migrations = options.migrations || loadMigrations();
+  const status = await getMigrationStatus(migrations);
+  const pending = migrations.filter(migration => status.pending.some(({ version }) => version === migration.version));
+
+  const result = {
+    dryRun,
+    fromVersion: status.currentVersion,
+    toVersion: status.currentVersion,
+    applied: [],
+    pending: status.pending,
+    backupPath: null
+  };
+
+  if (pending.length === 0) {
+    return result;
+  }
+
+  if (dryRun) {
+    console.log(`🧪 Simulation : ${pending.length} migration(s) à appliquer (v${status.currentVersion} → v${status.latestVersion})`);
+    pending.forEach(migration => console.log(`   - ${String(migration.version).padStart(3, '0')} ${migration.name} : ${migration.description}`));
+    return result;
+  }
+
+  if (backup) {
+    result.backupPath = await backupBeforeMigration(status.currentVersion);
+  }
+
+  await migrationQuery('run', `CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+
+  const context = createMigrationContext();
+
+  for (const migration of pending) {
+    console.log(`🔧 Migration ${String(migration.version).padStart(3, '0')} ${migration.name} : ${migration.description}`);
+
+    await withTransaction(async () => {
+      await migration.up(context);
+      await migrationQuery('run', 'INSERT INTO schema_migrations (version, name) VALUES (?, ?)', [migration.version, migration.name]);
+    });
+
+    result.applied.push({ version: migration.version, name: migration.name, description: migration.description });
+    result.toVersion = Math.max(result.toVersion, migration.version);
+  }
+
+  result.pending = [];
+  console.log(`✅ Schéma à jour (v${result.toVersion})`);
+
+  return result;
+}
+
+module.exports = {
+  MIGRATIONS_DIR,
+  loadMigrations,
+  getMigrationStatus,
+  runMigrations
+};
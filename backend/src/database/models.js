@@ -1,3 +1,19 @@
+const {
+  normalizeDoi,
+  normalizeArxivId,
+  splitArxivVersion,
+  extractArxivId,
+  inferItemType,
+  cleanAbstract,
+  joinKeywords,
+  splitAuthors,
+  authorNameKey,
+  normalizeOrcid
+} = require('../formats/common');
+const crypto = require('crypto');
+const path = require('path');
+const { VENUE_TYPES } = require('./venues');
+
 /**
  * Types pour les statuts de lecture
  */
@@ -9,13 +25,154 @@ const READING_STATUS = {
 };
 
 /**
- * Validation pour Paper
+ * Types de documents et champs requis
+ * - required : champs obligatoires
+ * - requiredOneOf : au moins un de ces champs doit être renseigné
+ */
+const ITEM_TYPES = {
+  journal_article: { label: 'Article de revue', required: ['title', 'authors', 'publication_date'] },
+  conference_paper: { label: 'Article de conférence', required: ['title', 'authors', 'publication_date'] },
+  preprint: { label: 'Prépublication', required: ['title', 'authors', 'publication_date'], requiredOneOf: ['arxiv_id', 'doi', 'url'] },
+  thesis: { label: 'Thèse', required: ['title', 'authors', 'publication_date', 'publisher'] },
+  report: { label: 'Rapport', required: ['title', 'authors', 'publication_date', 'publisher'] },
+  book_chapter: { label: 'Chapitre de livre', required: ['title', 'authors', 'publication_date', 'conference'] },
+  web_page: { label: 'Page web', required: ['title', 'url'] }
+};
+
+const DEFAULT_ITEM_TYPE = 'journal_article';
+
+/**
+ * Note maximale d'un paper (étoiles de 1 à PAPER_RATING_MAX)
+ */
+const PAPER_RATING_MAX = 5;
+
+/**
+ * Couleurs de surlignage des annotations PDF
+ */
+const ANNOTATION_COLORS = ['yellow', 'green', 'blue', 'pink', 'purple'];
+
+/**
+ * Natures des pièces jointes d'un paper et extensions reconnues pour chacune
+ */
+const ATTACHMENT_KINDS = {
+  supplementary: { label: 'Matériel supplémentaire', extensions: ['pdf', 'doc', 'docx', 'odt', 'txt', 'md'] },
+  slides: { label: 'Présentation', extensions: ['ppt', 'pptx', 'key', 'odp'] },
+  code: { label: 'Code', extensions: ['zip', 'tar', 'gz', 'tgz', 'py', 'ipynb', 'js', 'ts', 'r', 'm', 'c', 'cpp', 'java'] },
+  dataset: { label: 'Données', extensions: ['csv', 'tsv', 'json', 'xlsx', 'xls', 'parquet', 'h5', 'hdf5', 'npz', 'mat'] },
+  other: { label: 'Autre', extensions: [] }
+};
+
+/**
+ * Dossiers d'images d'un paper présentés dans la galerie de figures
+ */
+const FIGURE_FOLDERS = {
+  'pdf-images': 'pdf',
+  'imported-images': 'imported'
+};
+
+/**
+ * Libellés des champs d'un paper (messages de validation)
+ */
+const PAPER_FIELD_LABELS = {
+  title: 'titre',
+  authors: 'auteurs',
+  publication_date: 'date de publication',
+  conference: 'conteneur (revue, conférence ou ouvrage)',
+  publisher: 'institution ou éditeur',
+  doi: 'DOI',
+  arxiv_id: 'identifiant arXiv',
+  isbn: 'ISBN',
+  url: 'URL'
+};
+
+/**
+ * Champs d'un paper modifiables par l'API (PUT /api/papers/:id)
+ * L'ID, le dossier, les dates, l'image et la venue rapprochée sont gérés par le serveur
+ */
+const EDITABLE_PAPER_FIELDS = [
+  'title', 'item_type', 'authors', 'author_list', 'publication_date', 'conference', 'conference_abbreviation',
+  'publisher', 'doi', 'arxiv_id', 'isbn', 'url', 'abstract', 'keywords', 'reading_status', 'rating'
+];
+
+/**
+ * Indiquer si un champ est renseigné
+ * @param {*} value
+ * @returns {boolean}
+ */
+function hasValue(value) {
+  return value !== null && value !== undefined && value.toString().trim() !== '';
+}
+
+/**
+ * Champs requis manquants selon le type du paper
+ * @param {Object} paper
+ * @returns {Array<string>} - Champs manquants (un groupe "l'un des" est noté "arxiv_id|doi|url")
+ */
+function getMissingPaperFields(paper) {
+  const itemType = ITEM_TYPES[paper.item_type] || ITEM_TYPES[DEFAULT_ITEM_TYPE];
+  const missing = itemType.required.filter(field => !hasValue(paper[field]));
+
+  if (itemType.requiredOneOf && !itemType.requiredOneOf.some(field => hasValue(paper[field]))) {
+    missing.push(itemType.requiredOneOf.join('|'));
+  }
+
+  return missing;
+}
+
+/**
+ * Décrire les champs manquants pour un message d'erreur
+ * @param {Array<string>} missing - Résultat de getMissingPaperFields
+ * @returns {string}
+ */
+function describeMissingFields(missing) {
+  return missing
+    .map(field => field.split('|').map(name => PAPER_FIELD_LABELS[name] || name).join(' ou '))
+    .join(', ');
+}
+
+/**
+ * Validation pour Paper (champs requis selon le type de document)
  * @param {Object} paper 
  * @returns {boolean}
  */
 function validatePaper(paper) {
-  const required = ['title', 'authors', 'publication_date', 'doi', 'url'];
-  return required.every(field => paper[field] && paper[field].toString().trim() !== '');
+  return Boolean(ITEM_TYPES[paper.item_type]) && getMissingPaperFields(paper).length === 0;
+}
+
+/**
+ * Normaliser les identifiants, le résumé et les mots-clés d'un paper avant écriture
+ * Les identifiants vides sont enregistrés à NULL : la contrainte UNIQUE du DOI ne porte que sur les DOI renseignés
+ * @param {Object} data - Données complètes ou partielles (mise à jour)
+ * @returns {Object}
+ */
+function normalizePaperIdentifiers(data) {
+  const normalized = { ...data };
+
+  if ('doi' in normalized) normalized.doi = normalizeDoi(normalized.doi) || null;
+  // L'identifiant arXiv est enregistré sans version, la version à part
+  if ('arxiv_id' in normalized) {
+    const { id, version } = splitArxivVersion(normalized.arxiv_id);
+    normalized.arxiv_id = id || null;
+    if (version && !normalized.arxiv_version) normalized.arxiv_version = version;
+  }
+  if ('arxiv_version' in normalized) normalized.arxiv_version = normalized.arxiv_version || null;
+  ['url', 'isbn', 'publisher'].forEach(field => {
+    if (field in normalized) normalized[field] = hasValue(normalized[field]) ? normalized[field].toString().trim() : null;
+  });
+  // Résumé en texte brut (balisage JATS retiré), mots-clés en liste "a, b, c"
+  if ('abstract' in normalized) normalized.abstract = cleanAbstract(normalized.abstract) || null;
+  if ('keywords' in normalized) normalized.keywords = joinKeywords(normalized.keywords || []) || null;
+
+  return normalized;
+}
+
+/**
+ * Validation de la note d'un paper (entier de 1 à PAPER_RATING_MAX, ou null pour retirer la note)
+ * @param {*} rating
+ * @returns {boolean}
+ */
+function validateRating(rating) {
+  return rating === null || (Number.isInteger(rating) && rating >= 1 && rating <= PAPER_RATING_MAX);
 }
 
 /**
@@ -24,7 +181,69 @@ function validatePaper(paper) {
  * @returns {boolean}
  */
 function validateCategory(category) {
-  return category.name && category.name.trim() !== '';
+  return Boolean(category.name && category.name.trim() !== '')
+    && (category.parent_id === null || (Number.isInteger(category.parent_id) && category.parent_id > 0))
+    && (category.color === null || /^#[0-9a-f]{6}$/i.test(category.color))
+    && (category.icon === null || (typeof category.icon === 'string' && category.icon.length <= 16));
+}
+
+/**
+ * Validation pour Venue
+ * @param {Object} venue
+ * @returns {boolean}
+ */
+function validateVenue(venue) {
+  return hasValue(venue.name) && venue.type in VENUE_TYPES;
+}
+
+/**
+ * Validation pour une annotation PDF (rectangles en fractions de la page, entre 0 et 1)
+ * @param {Object} annotation
+ * @returns {boolean}
+ */
+function validateAnnotation(annotation) {
+  const isFraction = (value) => typeof value === 'number' && value >= 0 && value <= 1;
+
+  return Number.isInteger(annotation.page) && annotation.page > 0
+    && Array.isArray(annotation.rects) && annotation.rects.length > 0
+    && annotation.rects.every(rect => rect && ['x', 'y', 'width', 'height'].every(key => isFraction(rect[key])))
+    && ANNOTATION_COLORS.includes(annotation.color);
+}
+
+/**
+ * Validation pour une pièce jointe
+ * @param {Object} attachment
+ * @returns {boolean}
+ */
+function validateAttachment(attachment) {
+  return attachment.kind in ATTACHMENT_KINDS
+    && hasValue(attachment.filename)
+    && hasValue(attachment.original_name)
+    && Number.isInteger(attachment.size) && attachment.size >= 0;
+}
+
+/**
+ * Validation pour une figure de la galerie (chemin relatif au dossier du paper)
+ * @param {Object} figure
+ * @returns {boolean}
+ */
+function validateFigure(figure) {
+  const [folder, fileName, ...rest] = String(figure.path || '').split('/');
+
+  return folder in FIGURE_FOLDERS && hasValue(fileName) && rest.length === 0 && !fileName.startsWith('.')
+    && (figure.page === null || (Number.isInteger(figure.page) && figure.page > 0))
+    && Array.isArray(figure.tags) && figure.tags.every(tag => typeof tag === 'string' && tag !== '');
+}
+
+/**
+ * Nature d'une pièce jointe déduite de l'extension du fichier
+ * @param {string} fileName
+ * @returns {string} - Clé de ATTACHMENT_KINDS
+ */
+function inferAttachmentKind(fileName) {
+  const extension = path.extname(String(fileName || '')).slice(1).toLowerCase();
+  const kind = Object.keys(ATTACHMENT_KINDS).find(key => ATTACHMENT_KINDS[key].extensions.includes(extension));
+  return kind || 'other';
 }
 
 /**
@@ -42,30 +261,165 @@ function validateDescription(description) {
  * @returns {Object}
  */
 function createPaper(paperData) {
+  const doi = normalizeDoi(paperData.doi) || null;
+  const url = paperData.url || null;
+
   return {
     id: paperData.id || null,
     title: paperData.title || '',
     authors: paperData.authors || '',
     publication_date: paperData.publication_date || new Date().toISOString().split('T')[0],
     conference: paperData.conference || null,
+    conference_abbreviation: paperData.conference_abbreviation || null,
+    venue_id: paperData.venue_id || null,
     reading_status: paperData.reading_status || READING_STATUS.NON_LU,
     image: paperData.image || null,
-    doi: paperData.doi || '',
-    url: paperData.url || '',
+    item_type: inferItemType(paperData),
+    doi,
+    url,
+    arxiv_id: normalizeArxivId(paperData.arxiv_id) || extractArxivId(doi, url) || null,
+    arxiv_version: paperData.arxiv_version || null,
+    isbn: paperData.isbn || null,
+    publisher: paperData.publisher || null,
+    abstract: paperData.abstract || null,
+    keywords: paperData.keywords || null,
+    rating: validateRating(paperData.rating) ? paperData.rating : null,
     folder_path: paperData.folder_path || null,
     created_at: paperData.created_at || null
   };
 }
 
 /**
- * Créer un objet Category
+ * Construire la liste ordonnée des auteurs d'un paper
+ * La chaîne "Prénom Nom, Prénom Nom" fait foi (elle peut avoir été modifiée dans le formulaire) ;
+ * un auteur structuré de même nom (fournisseur de métadonnées) apporte son découpage et son ORCID
+ * @param {string} authors - Chaîne d'auteurs du paper
+ * @param {Array<Object>|string} authorList - Auteurs { given, family, orcid } ou leur JSON (optionnel)
+ * @returns {Array<{ given: string, family: string, orcid: string|null }>}
+ */
+function buildAuthorList(authors, authorList = []) {
+  let structured = authorList;
+  if (typeof structured === 'string') {
+    try {
+      structured = JSON.parse(structured);
+    } catch {
+      structured = [];
+    }
+  }
+
+  const known = new Map((Array.isArray(structured) ? structured : [])
+    .filter(author => author && author.family)
+    .map(author => [authorNameKey(author), author]));
+
+  return splitAuthors(authors).map(author => {
+    const match = known.get(authorNameKey(author));
+    return match
+      ? { given: String(match.given || '').trim(), family: String(match.family).trim(), orcid: normalizeOrcid(match.orcid) || null }
+      : { ...author, orcid: null };
+  });
+}
+
+/**
+ * Créer un objet Category (catégorie parente, couleur et icône facultatives, enregistrées à NULL)
  * @param {Object} categoryData 
  * @returns {Object}
  */
 function createCategory(categoryData) {
+  const text = (value) => (hasValue(value) ? value.toString().trim() : null);
+  const parentId = categoryData.parent_id;
+
   return {
     id: categoryData.id || null,
-    name: categoryData.name || ''
+    name: text(categoryData.name) || '',
+    parent_id: parentId === null || parentId === undefined || parentId === '' ? null : Number(parentId),
+    color: text(categoryData.color),
+    icon: text(categoryData.icon)
+  };
+}
+
+/**
+ * Créer un objet Venue (champs vides enregistrés à NULL)
+ * @param {Object} venueData
+ * @returns {Object}
+ */
+function createVenue(venueData) {
+  const text = (value) => (hasValue(value) ? value.toString().trim() : null);
+
+  return {
+    id: venueData.id || null,
+    name: text(venueData.name) || '',
+    abbreviation: text(venueData.abbreviation),
+    type: venueData.type || 'conference',
+    rank: text(venueData.rank),
+    notes: text(venueData.notes)
+  };
+}
+
+/**
+ * Créer un objet Annotation (passage surligné du PDF et commentaire)
+ * @param {Object} annotationData
+ * @returns {Object}
+ */
+function createAnnotation(annotationData) {
+  const now = new Date().toISOString();
+  const round = (value) => Math.round(Number(value) * 10000) / 10000;
+
+  return {
+    id: annotationData.id || crypto.randomUUID(),
+    page: Number(annotationData.page),
+    rects: (Array.isArray(annotationData.rects) ? annotationData.rects : []).map(rect => ({
+      x: round(rect.x),
+      y: round(rect.y),
+      width: round(rect.width),
+      height: round(rect.height)
+    })),
+    color: annotationData.color || 'yellow',
+    text: hasValue(annotationData.text) ? annotationData.text.toString().replace(/\s+/g, ' ').trim() : '',
+    comment: hasValue(annotationData.comment) ? annotationData.comment.toString().trim() : null,
+    createdAt: annotationData.createdAt || now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Créer un objet Attachment (fichier rangé dans le dossier attachments du paper)
+ * @param {Object} attachmentData
+ * @returns {Object}
+ */
+function createAttachment(attachmentData) {
+  return {
+    id: attachmentData.id || null,
+    paper_id: attachmentData.paper_id || null,
+    kind: attachmentData.kind || inferAttachmentKind(attachmentData.original_name),
+    filename: attachmentData.filename || '',
+    original_name: hasValue(attachmentData.original_name) ? path.basename(attachmentData.original_name.toString().trim()) : '',
+    size: Number(attachmentData.size) || 0,
+    mime: attachmentData.mime || 'application/octet-stream',
+    checksum: attachmentData.checksum || null,
+    label: hasValue(attachmentData.label) ? attachmentData.label.toString().trim() : null
+  };
+}
+
+/**
+ * Créer les métadonnées d'une figure (figures.json : légende, page, tags, empreinte)
+ * @param {Object} figureData
+ * @returns {Object}
+ */
+function createFigure(figureData) {
+  const toInteger = (value) => Number.isInteger(Number(value)) && Number(value) > 0 ? Number(value) : null;
+  const tags = (Array.isArray(figureData.tags) ? figureData.tags : [])
+    .map(tag => String(tag).trim().toLowerCase())
+    .filter(Boolean);
+
+  return {
+    path: String(figureData.path || ''),
+    caption: hasValue(figureData.caption) ? figureData.caption.toString().replace(/\s+/g, ' ').trim() : null,
+    page: hasValue(figureData.page) ? (Number.isInteger(Number(figureData.page)) ? Number(figureData.page) : NaN) : null,
+    tags: [...new Set(tags)],
+    width: toInteger(figureData.width),
+    height: toInteger(figureData.height),
+    hash: typeof figureData.hash === 'string' && /^[0-9a-f]{16}$/.test(figureData.hash) ? figureData.hash : null,
+    updatedAt: new Date().toISOString()
   };
 }
 
@@ -98,11 +452,33 @@ function createPaperCategory(paperCategoryData) {
 
 module.exports = {
   READING_STATUS,
+  ITEM_TYPES,
+  DEFAULT_ITEM_TYPE,
+  PAPER_RATING_MAX,
+  PAPER_FIELD_LABELS,
+  EDITABLE_PAPER_FIELDS,
+  ANNOTATION_COLORS,
+  ATTACHMENT_KINDS,
+  FIGURE_FOLDERS,
+  getMissingPaperFields,
+  describeMissingFields,
   validatePaper,
+  normalizePaperIdentifiers,
+  validateRating,
   validateCategory,
+  validateVenue,
+  validateAnnotation,
+  validateAttachment,
+  inferAttachmentKind,
+  validateFigure,
   validateDescription,
   createPaper,
+  buildAuthorList,
   createCategory,
+  createVenue,
+  createAnnotation,
+  createAttachment,
+  createFigure,
   createDescription,
   createPaperCategory
 };
\ No newline at end of file
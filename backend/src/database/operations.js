@@ -1,36 +1,192 @@
-const { getDatabase } = require('./database');
-const { validatePaper, validateCategory, validateDescription } = require('./models');
-const { createPaperFolder, deletePaperFolder, savePdfFile, saveExtractedImages } = require('./fileOperations');
+const fs = require('fs');
+const path = require('path');
+const { getDatabase, withTransaction } = require('./database');
+const {
+  ITEM_TYPES,
+  PAPER_RATING_MAX,
+  ANNOTATION_COLORS,
+  ATTACHMENT_KINDS,
+  FIGURE_FOLDERS,
+  getMissingPaperFields,
+  describeMissingFields,
+  validatePaper,
+  validateRating,
+  validateCategory,
+  validateVenue,
+  validateAnnotation,
+  validateAttachment,
+  validateFigure,
+  validateDescription,
+  createPaper,
+  createCategory,
+  createVenue,
+  createAnnotation,
+  createAttachment,
+  createFigure,
+  buildAuthorList,
+  normalizePaperIdentifiers
+} = require('./models');
+const { authorNameKey, normalizeOrcid } = require('../formats/common');
+const { VENUE_TYPES, venueKey, createVenueMatcher } = require('./venues');
+const {
+  deletePaperFolder,
+  getPaperFolderPath,
+  findPaperPDF,
+  extractPdfText,
+  loadPaperAnnotations,
+  savePaperAnnotations,
+  fileChecksum,
+  saveAttachmentFile,
+  getAttachmentPath,
+  loadPaperFigures,
+  savePaperFigures,
+  listPaperImages,
+  formatFolderName
+} = require('./fileOperations');
+
+/**
+ * Exécuter une requête SELECT et retourner toutes les lignes
+ * @param {string} sql
+ * @param {Array} params
+ * @returns {Promise<Array>}
+ */
+function queryAll(sql, params = []) {
+  return new Promise((resolve, reject) => {
+    getDatabase().all(sql, params, (err, rows) => {
+      if (err) reject(err);
+      else resolve(rows || []);
+    });
+  });
+}
+
+/**
+ * Exécuter une requête SELECT et retourner la première ligne
+ * @param {string} sql
+ * @param {Array} params
+ * @returns {Promise<Object|null>}
+ */
+function queryGet(sql, params = []) {
+  return new Promise((resolve, reject) => {
+    getDatabase().get(sql, params, (err, row) => {
+      if (err) reject(err);
+      else resolve(row || null);
+    });
+  });
+}
+
+/**
+ * Exécuter une requête d'écriture
+ * @param {string} sql
+ * @param {Array} params
+ * @returns {Promise<number>} - Nombre de lignes modifiées
+ */
+function runStatement(sql, params = []) {
+  return new Promise((resolve, reject) => {
+    getDatabase().run(sql, params, function(err) {
+      if (err) reject(err);
+      else resolve(this.changes);
+    });
+  });
+}
+
+/**
+ * Exécuter une insertion
+ * @param {string} sql
+ * @param {Array} params
+ * @returns {Promise<number>} - ID de la ligne créée
+ */
+function insertRow(sql, params = []) {
+  return new Promise((resolve, reject) => {
+    getDatabase().run(sql, params, function(err) {
+      if (err) reject(err);
+      else resolve(this.lastID);
+    });
+  });
+}
+
+/**
+ * Motif LIKE « contient » : %, _ et \ saisis par l'utilisateur sont pris littéralement (clause ESCAPE)
+ * @param {string} value
+ * @returns {string}
+ */
+function likeContains(value) {
+  return `%${String(value).replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+// Champs d'un paper repris dans l'index plein texte
+const SEARCH_METADATA_FIELDS = ['title', 'authors', 'conference', 'conference_abbreviation', 'publisher', 'doi', 'arxiv_id', 'isbn', 'abstract', 'keywords'];
+
+// Colonnes de tri autorisées pour la recherche paginée
+const PAPER_SORT_COLUMNS = {
+  title: 'p.title COLLATE NOCASE',
+  authors: 'p.authors COLLATE NOCASE',
+  publication_date: 'p.publication_date',
+  conference: "COALESCE(p.conference, '') COLLATE NOCASE",
+  created_at: 'p.created_at',
+  reading_status: "CASE p.reading_status WHEN 'non_lu' THEN 0 WHEN 'en_cours' THEN 1 WHEN 'lu' THEN 2 WHEN 'favoris' THEN 3 ELSE 4 END",
+  rating: 'COALESCE(p.rating, 0)',
+  // Première catégorie du paper dans l'ordre alphabétique (sans catégorie : en dernier par ordre croissant)
+  categories: `COALESCE((SELECT MIN(c.name) FROM PaperCategories pc JOIN Categories c ON c.id = pc.categorie_id
+    WHERE pc.paper_id = p.id), char(1114111)) COLLATE NOCASE`,
+  deleted_at: 'p.deleted_at'
+};
+
+// Papers de la bibliothèque (hors corbeille), pour les comptes des catégories, des auteurs et des venues
+const ACTIVE_PAPER_IDS = '(SELECT id FROM Papers WHERE deleted_at IS NULL)';
 
 // Opérations pour les Papers
 const paperOperations = {
   /**
-   * Créer un nouveau paper avec gestion des fichiers
+   * Créer un nouveau paper (base uniquement : le dossier et les fichiers sont écrits par l'appelant,
+   * hors transaction, voir paperDB.createCompletePaper)
    * @param {Object} paper - Données du paper
-   * @param {Buffer} pdfBuffer - Buffer du PDF (optionnel)
-   * @param {string} pdfName - Nom du PDF (optionnel)
-   * @param {Array} extractedImages - Images extraites (optionnel)
    * @returns {Promise<number>} - ID du paper créé
    */
-  create: async (paper, pdfBuffer = null, pdfName = null, extractedImages = []) => {
+  create: async (paperData) => {
     return new Promise(async (resolve, reject) => {
+      // Type de document déduit si absent, identifiants vides enregistrés à NULL
+      const paper = normalizePaperIdentifiers(createPaper(paperData));
+
       if (!validatePaper(paper)) {
-        return reject(new Error('Données du paper invalides'));
+        const missing = getMissingPaperFields(paper);
+        return reject(new Error(missing.length > 0
+          ? `Données du paper invalides: ${describeMissingFields(missing)} requis pour le type « ${ITEM_TYPES[paper.item_type].label} »`
+          : `Données du paper invalides: type de document inconnu (${paper.item_type})`));
+      }
+
+      // Conteneur rapproché du registre des venues (abréviation reprise si absente)
+      let venue = null;
+      if (!paper.venue_id) {
+        try {
+          venue = await venueOperations.match(paper.conference);
+        } catch (matchErr) {
+          return reject(matchErr);
+        }
       }
 
       const db = getDatabase();
-      const sql = `INSERT INTO Papers (title, authors, publication_date, conference, reading_status, image, doi, url) 
-                   VALUES (?, ?, ?, ?, ?, ?, ?, ?)`;
+      const sql = `INSERT INTO Papers (title, authors, publication_date, conference, conference_abbreviation, venue_id, reading_status, image, item_type, doi, url, arxiv_id, arxiv_version, isbn, publisher, abstract, keywords, rating) 
+                   VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
       
       db.run(sql, [
         paper.title,
         paper.authors,
         paper.publication_date,
         paper.conference || null,
+        paper.conference_abbreviation || (venue && venue.abbreviation) || null,
+        paper.venue_id || (venue && venue.id) || null,
         paper.reading_status || 'non_lu',
         paper.image || null,
+        paper.item_type,
         paper.doi,
-        paper.url
+        paper.url,
+        paper.arxiv_id,
+        paper.arxiv_version,
+        paper.isbn,
+        paper.publisher,
+        paper.abstract,
+        paper.keywords,
+        paper.rating
       ], async function(err) {
         if (err) {
           reject(err);
@@ -40,42 +196,42 @@ const paperOperations = {
         const paperId = this.lastID;
         
         try {
-          // Créer le dossier du paper
-          const folderPath = await createPaperFolder(paperId);
-          
-          // Sauvegarder le PDF si fourni
-          if (pdfBuffer && pdfName) {
-            await savePdfFile(paperId, pdfBuffer, pdfName);
-          }
+          // created_at est généré par SQLite et entre dans le nom du dossier
+          const { title, created_at } = await paperOperations.getById(paperId);
 
-          // Sauvegarder les images extraites si fournies
-          if (extractedImages && extractedImages.length > 0) {
-            await saveExtractedImages(paperId, extractedImages);
-          }
+          // Chemin du dossier du paper (créé par l'appelant)
+          await paperOperations.update(paperId, { folder_path: getPaperFolderPath(paperId, title, created_at) });
+
+          // Auteurs structurés (ORCID fourni par le fournisseur de métadonnées)
+          await authorOperations.setPaperAuthors(paperId, buildAuthorList(paper.authors, paperData.author_list));
 
-          // Mettre à jour le paper avec le chemin du dossier
-          await paperOperations.update(paperId, { folder_path: folderPath });
+          // Indexer les métadonnées pour la recherche plein texte
+          await searchOperations.indexPaperMetadata(paperId);
 
           console.log(`✅ Paper créé avec ID: ${paperId}`);
           resolve(paperId);
-        } catch (fileErr) {
-          console.error('❌ Erreur gestion fichiers:', fileErr);
-          // En cas d'erreur, supprimer le paper de la DB
-          await paperOperations.delete(paperId);
-          reject(fileErr);
+        } catch (createErr) {
+          console.error('❌ Erreur création paper:', createErr);
+          // En cas d'erreur, retirer le paper incomplet de la DB
+          try {
+            await paperOperations.deleteRecord(paperId);
+          } catch (cleanupErr) {
+            console.error('❌ Erreur nettoyage après échec:', cleanupErr);
+          }
+          reject(createErr);
         }
       });
     });
   },
 
   /**
-   * Récupérer tous les papers
+   * Récupérer tous les papers (hors corbeille)
    * @returns {Promise<Array>} - Liste des papers
    */
   getAll: () => {
     return new Promise((resolve, reject) => {
       const db = getDatabase();
-      db.all('SELECT * FROM Papers ORDER BY publication_date DESC', (err, rows) => {
+      db.all('SELECT * FROM Papers WHERE deleted_at IS NULL ORDER BY publication_date DESC', (err, rows) => {
         if (err) reject(err);
         else resolve(rows || []);
       });
@@ -97,6 +253,17 @@ const paperOperations = {
     });
   },
 
+  /**
+   * Récupérer un paper de la bibliothèque (null s'il est introuvable ou dans la corbeille)
+   * Le dossier d'un paper de la corbeille est dans MyPaperList/.trash : les écritures de fichiers passent par ici
+   * @param {number} id - ID du paper
+   * @returns {Promise<Object|null>} - Paper ou null
+   */
+  getActiveById: async (id) => {
+    const paper = await paperOperations.getById(id);
+    return paper && !paper.deleted_at ? paper : null;
+  },
+
   /**
    * Récupérer un paper avec ses catégories et description
    * @param {number} id - ID du paper
@@ -109,9 +276,11 @@ const paperOperations = {
 
       const categories = await paperCategoryOperations.getCategoriesForPaper(id);
       const description = await descriptionOperations.getByPaperId(id);
+      const authorList = await authorOperations.getAuthorsForPaper(id);
 
       return {
         ...paper,
+        author_list: authorList,
         categories,
         description
       };
@@ -126,7 +295,24 @@ const paperOperations = {
    * @param {Object} updates - Données à mettre à jour
    * @returns {Promise<boolean>} - True si mise à jour réussie
    */
-  update: (id, updates) => {
+  update: async (id, changes) => {
+    // Les auteurs structurés ne sont pas une colonne : ils accompagnent la chaîne d'auteurs
+    const { author_list: authorList, ...columns } = changes;
+    const updates = normalizePaperIdentifiers(columns);
+
+    if ('rating' in updates && !validateRating(updates.rating)) {
+      throw new Error(`Note invalide: entier de 1 à ${PAPER_RATING_MAX} ou null`);
+    }
+
+    // Un conteneur modifié est rapproché à nouveau du registre des venues
+    if ('conference' in updates && !('venue_id' in updates)) {
+      const venue = await venueOperations.match(updates.conference);
+      updates.venue_id = venue ? venue.id : null;
+      if (venue && venue.abbreviation && !updates.conference_abbreviation) {
+        updates.conference_abbreviation = venue.abbreviation;
+      }
+    }
+
     return new Promise((resolve, reject) => {
       const db = getDatabase();
       const fields = Object.keys(updates).map(key => `${key} = ?`).join(', ');
@@ -138,8 +324,21 @@ const paperOperations = {
       }
       
       db.run(`UPDATE Papers SET ${fields} WHERE id = ?`, [...values, id], function(err) {
-        if (err) reject(err);
-        else resolve(this.changes > 0);
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const updated = this.changes > 0;
+        const reindex = updated && Object.keys(updates).some(key => SEARCH_METADATA_FIELDS.includes(key));
+        const syncAuthors = updated && 'authors' in updates
+          ? authorOperations.setPaperAuthors(id, buildAuthorList(updates.authors, authorList))
+          : Promise.resolve();
+
+        syncAuthors
+          .then(() => (reindex ? searchOperations.indexPaperMetadata(id) : null))
+          .then(() => resolve(updated))
+          .catch(reject);
       });
     });
   },
@@ -154,9 +353,22 @@ const paperOperations = {
       try {
         const db = getDatabase();
         
-        // Supprimer les fichiers du paper
-        await deletePaperFolder(id);
+        // Supprimer les fichiers du paper (le nom du dossier dépend du titre et de la date de création)
+        const paper = await paperOperations.getById(id);
+        if (paper) {
+          await deletePaperFolder(id, paper.title, paper.created_at);
+        }
         
+        // Retirer le paper de l'index de recherche
+        await searchOperations.removePaper(id);
+
+        // Retirer ses pièces jointes
+        await attachmentOperations.removePaper(id);
+
+        // Retirer ses auteurs (ceux qui n'ont plus de paper sont supprimés)
+        await authorOperations.removePaper(id);
+        await authorOperations.removeOrphans();
+
         // Supprimer de la base de données
         db.run('DELETE FROM Papers WHERE id = ?', [id], function(err) {
           if (err) reject(err);
@@ -171,6 +383,240 @@ const paperOperations = {
     });
   },
 
+  /**
+   * Supprimer un paper de la base sans toucher à ses fichiers (fusion de doublons)
+   * Retire aussi sa description, ses catégories, ses pièces jointes, ses liens d'auteurs et ses entrées d'index
+   * Les auteurs sans paper restent en base jusqu'à authorOperations.removeOrphans()
+   * @param {number} id - ID du paper
+   * @returns {Promise<boolean>} - True si le paper existait
+   */
+  deleteRecord: async (id) => {
+    await runStatement('DELETE FROM PaperCategories WHERE paper_id = ?', [id]);
+    await runStatement('DELETE FROM Descriptions WHERE paper_id = ?', [id]);
+    await attachmentOperations.removePaper(id);
+    await authorOperations.removePaper(id);
+    await searchOperations.removePaper(id);
+
+    const changes = await runStatement('DELETE FROM Papers WHERE id = ?', [id]);
+    return changes > 0;
+  },
+
+  /**
+   * Changer le statut de lecture de plusieurs papers (actions groupées)
+   * @param {Array<number>} ids - IDs des papers
+   * @param {string} readingStatus - Nouveau statut
+   * @returns {Promise<number>} - Nombre de papers modifiés
+   */
+  updateStatusMany: async (ids, readingStatus) => {
+    if (ids.length === 0) return 0;
+
+    return withTransaction(() => runStatement(
+      `UPDATE Papers SET reading_status = ? WHERE deleted_at IS NULL AND id IN (${ids.map(() => '?').join(', ')})`,
+      [readingStatus, ...ids]
+    ));
+  },
+
+  /**
+   * Marquer des papers comme mis à la corbeille (ou les en sortir)
+   * @param {Array<number>} ids - IDs des papers
+   * @param {boolean} trashed - True pour la corbeille, false pour la restauration
+   * @returns {Promise<number>} - Nombre de papers modifiés
+   */
+  setTrashed: (ids, trashed) => {
+    if (ids.length === 0) return Promise.resolve(0);
+
+    const placeholders = ids.map(() => '?').join(', ');
+    return trashed
+      ? runStatement(`UPDATE Papers SET deleted_at = CURRENT_TIMESTAMP WHERE deleted_at IS NULL AND id IN (${placeholders})`, ids)
+      : runStatement(`UPDATE Papers SET deleted_at = NULL WHERE deleted_at IS NOT NULL AND id IN (${placeholders})`, ids);
+  },
+
+  /**
+   * IDs des papers de la corbeille depuis plus de retentionDays jours
+   * @param {number} retentionDays - Durée de conservation
+   * @returns {Promise<Array<number>>}
+   */
+  getExpiredTrashIds: async (retentionDays) => {
+    const rows = await queryAll(
+      "SELECT id FROM Papers WHERE deleted_at IS NOT NULL AND deleted_at <= datetime('now', ?)",
+      [`-${retentionDays} days`]
+    );
+    return rows.map(row => row.id);
+  },
+
+  /**
+   * Rechercher, filtrer, trier et paginer les papers
+   * @param {Object} filters - { ids, query, reading_status, categories, categoryMode, includeDescendants, year, dateFrom, dateTo, conference, venue, author, trashed }
+   *   (trashed : papers de la corbeille au lieu de ceux de la bibliothèque)
+   * @param {Object} sort - { sortBy, sortOrder }
+   * @param {Object} pagination - { page, limit } (limit à 0 pour tout récupérer)
+   * @returns {Promise<Object>} - { data, total, page, limit, totalPages, hasNext, hasPrev }
+   */
+  findPaginated: async (filters = {}, sort = {}, pagination = {}) => {
+    const conditions = [filters.trashed ? 'p.deleted_at IS NOT NULL' : 'p.deleted_at IS NULL'];
+    const params = [];
+
+    if (filters.ids && filters.ids.length > 0) {
+      conditions.push(`p.id IN (${filters.ids.map(() => '?').join(', ')})`);
+      params.push(...filters.ids);
+    }
+
+    if (filters.query) {
+      const searchedColumns = ['p.title', 'p.authors', 'p.conference', 'p.doi', 'p.keywords', 'p.abstract'];
+      conditions.push(`(${searchedColumns.map(column => `${column} LIKE ? ESCAPE '\\'`).join(' OR ')})`);
+      params.push(...searchedColumns.map(() => likeContains(filters.query)));
+    }
+
+    if (filters.reading_status && filters.reading_status !== 'all') {
+      conditions.push('p.reading_status = ?');
+      params.push(filters.reading_status);
+    }
+
+    if (filters.categories && filters.categories.length > 0 && filters.includeDescendants) {
+      // Une catégorie est satisfaite par un paper rangé dans elle ou dans une de ses sous-catégories
+      const subtreeOf = (placeholders) => `p.id IN (${CATEGORY_SUBTREE_CTE}
+        SELECT pc.paper_id FROM PaperCategories pc JOIN subtree s ON pc.categorie_id = s.id
+        WHERE s.root_id IN (${placeholders}))`;
+
+      if (filters.categoryMode === 'all') {
+        filters.categories.forEach(categoryId => {
+          conditions.push(subtreeOf('?'));
+          params.push(categoryId);
+        });
+      } else {
+        conditions.push(subtreeOf(filters.categories.map(() => '?').join(', ')));
+        params.push(...filters.categories);
+      }
+    } else if (filters.categories && filters.categories.length > 0) {
+      const placeholders = filters.categories.map(() => '?').join(', ');
+
+      if (filters.categoryMode === 'all') {
+        // Le paper doit posséder toutes les catégories demandées
+        conditions.push(`p.id IN (
+          SELECT paper_id FROM PaperCategories
+          WHERE categorie_id IN (${placeholders})
+          GROUP BY paper_id
+          HAVING COUNT(DISTINCT categorie_id) = ?
+        )`);
+        params.push(...filters.categories, filters.categories.length);
+      } else {
+        conditions.push(`p.id IN (SELECT paper_id FROM PaperCategories WHERE categorie_id IN (${placeholders}))`);
+        params.push(...filters.categories);
+      }
+    }
+
+    if (filters.year) {
+      conditions.push("strftime('%Y', p.publication_date) = ?");
+      params.push(String(filters.year));
+    }
+
+    if (filters.dateFrom) {
+      conditions.push('p.publication_date >= ?');
+      params.push(filters.dateFrom);
+    }
+
+    if (filters.dateTo) {
+      conditions.push('p.publication_date <= ?');
+      params.push(filters.dateTo);
+    }
+
+    if (filters.conference) {
+      conditions.push('(p.conference = ? OR p.conference_abbreviation = ?)');
+      params.push(filters.conference, filters.conference);
+    }
+
+    if (filters.venue) {
+      conditions.push('p.venue_id = ?');
+      params.push(filters.venue);
+    }
+
+    if (filters.author) {
+      conditions.push('p.id IN (SELECT paper_id FROM PaperAuthors WHERE author_id = ?)');
+      params.push(filters.author);
+    }
+
+    const where = `WHERE ${conditions.join(' AND ')}`;
+    const orderColumn = PAPER_SORT_COLUMNS[sort.sortBy] || PAPER_SORT_COLUMNS.created_at;
+    const orderDirection = sort.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+    const limit = Math.max(0, parseInt(pagination.limit, 10) || 0);
+    const { total } = await queryGet(`SELECT COUNT(*) AS total FROM Papers p ${where}`, params);
+    const totalPages = limit > 0 ? Math.max(1, Math.ceil(total / limit)) : 1;
+    const page = Math.min(Math.max(1, parseInt(pagination.page, 10) || 1), totalPages);
+
+    let sql = `SELECT p.* FROM Papers p ${where} ORDER BY ${orderColumn} ${orderDirection}, p.id ${orderDirection}`;
+    const pageParams = [...params];
+    if (limit > 0) {
+      sql += ' LIMIT ? OFFSET ?';
+      pageParams.push(limit, (page - 1) * limit);
+    }
+
+    const rows = await queryAll(sql, pageParams);
+    const categoriesByPaper = await paperCategoryOperations.getCategoriesForPapers(rows.map(row => row.id));
+    const authorsByPaper = await authorOperations.getAuthorsForPapers(rows.map(row => row.id));
+
+    return {
+      data: rows.map(row => ({
+        ...row,
+        author_list: authorsByPaper[row.id] || [],
+        categories: categoriesByPaper[row.id] || []
+      })),
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    };
+  },
+
+  /**
+   * Trouver les papers existants pour une liste de DOI (comparaison insensible à la casse)
+   * Les papers de la corbeille sont inclus : leur DOI reste réservé jusqu'à leur suppression définitive
+   * @param {Array<string>} dois - DOI recherchés
+   * @returns {Promise<Array>} - Liste de { id, title, doi, arxiv_id, deleted_at }
+   */
+  findByDois: async (dois = []) => {
+    const normalized = [...new Set(dois.filter(Boolean).map(doi => doi.trim().toLowerCase()))];
+    if (normalized.length === 0) {
+      return [];
+    }
+
+    return queryAll(
+      `SELECT id, title, doi, arxiv_id, deleted_at FROM Papers WHERE LOWER(doi) IN (${normalized.map(() => '?').join(', ')})`,
+      normalized
+    );
+  },
+
+  /**
+   * Trouver les papers existants pour une liste d'identifiants arXiv (sans tenir compte de la version)
+   * @param {Array<string>} arxivIds - Identifiants recherchés
+   * @returns {Promise<Array>} - Liste de { id, title, doi, arxiv_id, deleted_at }
+   */
+  findByArxivIds: async (arxivIds = []) => {
+    const withoutVersion = (id) => id.trim().toLowerCase().replace(/v\d+$/, '');
+    const wanted = new Set(arxivIds.filter(Boolean).map(withoutVersion));
+    if (wanted.size === 0) {
+      return [];
+    }
+
+    const rows = await queryAll('SELECT id, title, doi, arxiv_id, deleted_at FROM Papers WHERE arxiv_id IS NOT NULL');
+    return rows.filter(row => wanted.has(withoutVersion(row.arxiv_id)));
+  },
+
+  /**
+   * Récupérer la liste des conférences distinctes
+   * @returns {Promise<Array>} - Liste de { name, abbreviation }
+   */
+  getConferences: () => {
+    return queryAll(`
+      SELECT DISTINCT conference AS name, conference_abbreviation AS abbreviation
+      FROM Papers
+      WHERE deleted_at IS NULL AND (COALESCE(conference, '') != '' OR COALESCE(conference_abbreviation, '') != '')
+      ORDER BY conference COLLATE NOCASE
+    `);
+  },
+
   /**
    * Rechercher des papers par titre ou auteurs
    * @param {string} searchTerm - Terme de recherche
@@ -181,10 +627,10 @@ const paperOperations = {
       const db = getDatabase();
       const sql = `
         SELECT * FROM Papers 
-        WHERE title LIKE ? OR authors LIKE ? 
+        WHERE deleted_at IS NULL AND (title LIKE ? ESCAPE '\\' OR authors LIKE ? ESCAPE '\\')
         ORDER BY publication_date DESC
       `;
-      const term = `%${searchTerm}%`;
+      const term = likeContains(searchTerm);
       
       db.all(sql, [term, term], (err, rows) => {
         if (err) reject(err);
@@ -195,38 +641,75 @@ const paperOperations = {
 };
 
 // Opérations pour les Categories
+const CATEGORY_ERROR = 'Données de la catégorie invalides: nom, catégorie parente existante, couleur #rrggbb et icône courte requis';
+
+/**
+ * Sous-arbre de chaque catégorie : une ligne (root_id, id) par descendant, la catégorie comprise
+ * (les déplacements refusent les cycles, UNION protège malgré tout des boucles)
+ */
+const CATEGORY_SUBTREE_CTE = `WITH RECURSIVE subtree(root_id, id) AS (
+  SELECT id, id FROM Categories
+  UNION
+  SELECT s.root_id, c.id FROM Categories c JOIN subtree s ON c.parent_id = s.id
+)`;
+
 const categoryOperations = {
   /**
    * Créer une nouvelle catégorie
    * @param {string} name - Nom de la catégorie
+   * @param {Object} options - { parent_id, color, icon }
    * @returns {Promise<number>} - ID de la catégorie créée
    */
-  create: (name) => {
-    return new Promise((resolve, reject) => {
-      if (!name || name.trim() === '') {
-        return reject(new Error('Nom de catégorie invalide'));
-      }
+  create: async (name, options = {}) => {
+    const category = createCategory({ ...options, name });
+    if (!validateCategory(category)) {
+      throw new Error(category.name ? CATEGORY_ERROR : 'Nom de catégorie invalide');
+    }
 
-      const db = getDatabase();
-      db.run('INSERT INTO Categories (name) VALUES (?)', [name.trim()], function(err) {
-        if (err) reject(err);
-        else resolve(this.lastID);
-      });
-    });
+    if (category.parent_id !== null && !(await categoryOperations.getById(category.parent_id))) {
+      throw new Error(CATEGORY_ERROR);
+    }
+
+    return insertRow(
+      'INSERT INTO Categories (name, parent_id, color, icon) VALUES (?, ?, ?, ?)',
+      [category.name, category.parent_id, category.color, category.icon]
+    );
   },
 
   /**
-   * Récupérer toutes les catégories
-   * @returns {Promise<Array>} - Liste des catégories
+   * Récupérer une catégorie par son nom (insensible à la casse) ou la créer
+   * @param {string} name - Nom de la catégorie
+   * @returns {Promise<number>} - ID de la catégorie
+   */
+  findOrCreateByName: async (name) => {
+    const existing = await queryGet('SELECT id FROM Categories WHERE LOWER(name) = LOWER(?)', [String(name || '').trim()]);
+    if (existing) {
+      return existing.id;
+    }
+
+    return categoryOperations.create(name);
+  },
+
+  /**
+   * Récupérer toutes les catégories, avec le nombre de papers de chacune
+   * paper_count : papers rangés directement dans la catégorie
+   * total_count : papers de la catégorie ou d'une de ses sous-catégories (sans doublon)
+   * last_used_at : date du dernier paper rangé dans la catégorie
+   * (les papers de la corbeille ne sont pas pris en compte)
+   * @returns {Promise<Array>} - Liste des catégories (l'arborescence se reconstruit par parent_id)
    */
   getAll: () => {
-    return new Promise((resolve, reject) => {
-      const db = getDatabase();
-      db.all('SELECT * FROM Categories ORDER BY name', (err, rows) => {
-        if (err) reject(err);
-        else resolve(rows || []);
-      });
-    });
+    return queryAll(`${CATEGORY_SUBTREE_CTE}
+      SELECT c.*,
+        (SELECT COUNT(*) FROM PaperCategories pc
+          WHERE pc.categorie_id = c.id AND pc.paper_id IN ${ACTIVE_PAPER_IDS}) AS paper_count,
+        (SELECT MAX(pc.created_at) FROM PaperCategories pc
+          WHERE pc.categorie_id = c.id AND pc.paper_id IN ${ACTIVE_PAPER_IDS}) AS last_used_at,
+        (SELECT COUNT(DISTINCT pc.paper_id) FROM subtree s
+          JOIN PaperCategories pc ON pc.categorie_id = s.id
+          WHERE s.root_id = c.id AND pc.paper_id IN ${ACTIVE_PAPER_IDS}) AS total_count
+      FROM Categories c
+      ORDER BY c.name COLLATE NOCASE`);
   },
 
   /**
@@ -234,28 +717,146 @@ const categoryOperations = {
    * @param {number} id - ID de la catégorie
    * @returns {Promise<Object|null>} - Catégorie ou null
    */
-  getById: (id) => {
-    return new Promise((resolve, reject) => {
-      const db = getDatabase();
-      db.get('SELECT * FROM Categories WHERE id = ?', [id], (err, row) => {
-        if (err) reject(err);
-        else resolve(row || null);
-      });
+  getById: async (id) => {
+    return (await queryGet('SELECT * FROM Categories WHERE id = ?', [id])) || null;
+  },
+
+  /**
+   * IDs des catégories demandées et de toutes leurs sous-catégories
+   * @param {Array<number>} ids - IDs des catégories
+   * @returns {Promise<Array<number>>}
+   */
+  getDescendantIds: async (ids = []) => {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const rows = await queryAll(
+      `${CATEGORY_SUBTREE_CTE} SELECT DISTINCT id FROM subtree WHERE root_id IN (${ids.map(() => '?').join(', ')})`,
+      ids
+    );
+    return rows.map(row => row.id);
+  },
+
+  /**
+   * Modifier une catégorie : nom, couleur, icône ou catégorie parente (déplacement dans l'arbre)
+   * Une catégorie ne peut pas être rangée dans elle-même ni dans une de ses sous-catégories
+   * @param {number} id - ID de la catégorie
+   * @param {Object} changes - { name, parent_id, color, icon } (seuls les champs présents sont modifiés)
+   * @returns {Promise<Object|null>} - Catégorie modifiée ou null si introuvable
+   */
+  update: async (id, changes = {}) => {
+    const existing = await categoryOperations.getById(id);
+    if (!existing) return null;
+
+    const editable = ['name', 'parent_id', 'color', 'icon'].filter(field => field in changes);
+    const category = createCategory({
+      ...existing,
+      ...Object.fromEntries(editable.map(field => [field, changes[field]]))
+    });
+    if (!validateCategory(category)) {
+      throw new Error(CATEGORY_ERROR);
+    }
+
+    if (category.parent_id !== null) {
+      if (!(await categoryOperations.getById(category.parent_id))) {
+        throw new Error(CATEGORY_ERROR);
+      }
+
+      const subtree = await categoryOperations.getDescendantIds([id]);
+      if (subtree.includes(category.parent_id)) {
+        throw new Error('Déplacement impossible: une catégorie ne peut pas être rangée dans une de ses sous-catégories');
+      }
+    }
+
+    await runStatement(
+      'UPDATE Categories SET name = ?, parent_id = ?, color = ?, icon = ? WHERE id = ?',
+      [category.name, category.parent_id, category.color, category.icon, id]
+    );
+    return categoryOperations.getById(id);
+  },
+
+  /**
+   * Papers et sous-catégories touchés par la suppression d'une catégorie
+   * @param {number} id - ID de la catégorie
+   * @returns {Promise<Object|null>} - { category, papers: [{ id, title }], childCount } ou null si introuvable
+   */
+  getUsage: async (id) => {
+    const category = await categoryOperations.getById(id);
+    if (!category) return null;
+
+    const papers = await queryAll(`
+      SELECT p.id, p.title FROM Papers p
+      JOIN PaperCategories pc ON pc.paper_id = p.id
+      WHERE pc.categorie_id = ? AND p.deleted_at IS NULL
+      ORDER BY p.title COLLATE NOCASE
+    `, [id]);
+    const { childCount } = await queryGet('SELECT COUNT(*) AS childCount FROM Categories WHERE parent_id = ?', [id]);
+
+    return { category, papers, childCount };
+  },
+
+  /**
+   * Fusionner une catégorie dans une autre : ses papers et ses sous-catégories passent dans la cible,
+   * puis elle est supprimée
+   * @param {number} targetId - Catégorie conservée
+   * @param {number} sourceId - Catégorie fusionnée puis supprimée
+   * @returns {Promise<Object|null>} - { category, movedPapers } ou null si une catégorie est introuvable
+   * (movedPapers ne compte pas les papers de la corbeille, dont les liaisons sont pourtant déplacées)
+   */
+  merge: async (targetId, sourceId) => {
+    const target = await categoryOperations.getById(targetId);
+    const source = await categoryOperations.getById(sourceId);
+    if (!target || !source) return null;
+
+    const subtree = await categoryOperations.getDescendantIds([sourceId]);
+    if (subtree.includes(targetId)) {
+      throw new Error('Fusion impossible: la catégorie cible est une sous-catégorie de celle fusionnée');
+    }
+
+    const movedPapers = await withTransaction(async () => {
+      const { moved } = await queryGet(`
+        SELECT COUNT(*) AS moved FROM PaperCategories
+        WHERE categorie_id = ? AND paper_id IN ${ACTIVE_PAPER_IDS}
+          AND paper_id NOT IN (SELECT paper_id FROM PaperCategories WHERE categorie_id = ?)
+      `, [sourceId, targetId]);
+
+      // Papers de la source pas encore dans la cible (date d'ajout d'origine conservée)
+      await runStatement(`
+        INSERT INTO PaperCategories (paper_id, categorie_id, created_at)
+        SELECT paper_id, ?, created_at FROM PaperCategories
+        WHERE categorie_id = ? AND paper_id NOT IN (SELECT paper_id FROM PaperCategories WHERE categorie_id = ?)
+      `, [targetId, sourceId, targetId]);
+
+      await runStatement('UPDATE Categories SET parent_id = ? WHERE parent_id = ?', [targetId, sourceId]);
+      await runStatement('DELETE FROM PaperCategories WHERE categorie_id = ?', [sourceId]);
+      await runStatement('DELETE FROM Categories WHERE id = ?', [sourceId]);
+      return moved;
     });
+
+    console.log(`🔀 Catégorie ${sourceId} fusionnée dans ${targetId} (${movedPapers} papers)`);
+
+    return {
+      category: await categoryOperations.getById(targetId),
+      movedPapers
+    };
   },
 
   /**
-   * Supprimer une catégorie
+   * Supprimer une catégorie (ses sous-catégories remontent d'un niveau)
+   * Les clés étrangères n'étant pas activées, ses liaisons aux papers sont supprimées explicitement
    * @param {number} id - ID de la catégorie
    * @returns {Promise<boolean>} - True si suppression réussie
    */
   delete: (id) => {
-    return new Promise((resolve, reject) => {
-      const db = getDatabase();
-      db.run('DELETE FROM Categories WHERE id = ?', [id], function(err) {
-        if (err) reject(err);
-        else resolve(this.changes > 0);
-      });
+    return withTransaction(async () => {
+      const category = await categoryOperations.getById(id);
+      if (!category) return false;
+
+      await runStatement('UPDATE Categories SET parent_id = ? WHERE parent_id = ?', [category.parent_id, id]);
+      await runStatement('DELETE FROM PaperCategories WHERE categorie_id = ?', [id]);
+      const changes = await runStatement('DELETE FROM Categories WHERE id = ?', [id]);
+      return changes > 0;
     });
   }
 };
@@ -281,8 +882,15 @@ const descriptionOperations = {
         description.texte || null, 
         description.images || null
       ], function(err) {
-        if (err) reject(err);
-        else resolve(this.lastID);
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const descriptionId = this.lastID;
+        searchOperations.indexPaperMetadata(description.paper_id)
+          .then(() => resolve(descriptionId))
+          .catch(reject);
       });
     });
   },
@@ -302,6 +910,25 @@ const descriptionOperations = {
     });
   },
 
+  /**
+   * Récupérer les textes de description de plusieurs papers en une seule requête
+   * @param {Array<number>} paperIds - IDs des papers
+   * @returns {Promise<Object>} - Texte de description indexé par ID de paper
+   */
+  getTextsForPapers: async (paperIds = []) => {
+    if (paperIds.length === 0) {
+      return {};
+    }
+
+    const placeholders = paperIds.map(() => '?').join(', ');
+    const rows = await queryAll(
+      `SELECT paper_id, texte FROM Descriptions WHERE paper_id IN (${placeholders}) AND texte IS NOT NULL`,
+      paperIds
+    );
+
+    return Object.fromEntries(rows.map(row => [row.paper_id, row.texte]));
+  },
+
   /**
    * Mettre à jour une description
    * @param {number} paperId - ID du paper
@@ -327,8 +954,15 @@ const descriptionOperations = {
         .map(([, value]) => value);
       
       db.run(`UPDATE Descriptions SET ${fields} WHERE paper_id = ?`, [...values, paperId], function(err) {
-        if (err) reject(err);
-        else resolve(this.changes > 0);
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const updated = this.changes > 0;
+        searchOperations.indexPaperMetadata(paperId)
+          .then(() => resolve(updated))
+          .catch(reject);
       });
     });
   },
@@ -384,7 +1018,7 @@ const paperCategoryOperations = {
           
           // Créer la nouvelle liaison
           db.run(
-            'INSERT INTO PaperCategories (paper_id, categorie_id) VALUES (?, ?)', 
+            'INSERT INTO PaperCategories (paper_id, categorie_id, created_at) VALUES (?, ?, CURRENT_TIMESTAMP)', 
             [paperId, categoryId], 
             function(err) {
               if (err) reject(err);
@@ -396,6 +1030,71 @@ const paperCategoryOperations = {
     });
   },
 
+  /**
+   * Ranger plusieurs papers dans une catégorie (glisser-déposer sur l'arbre des catégories)
+   * Les papers déjà rangés dans la catégorie et les IDs inconnus sont ignorés
+   * @param {number} categoryId - ID de la catégorie
+   * @param {Array<number>} paperIds - IDs des papers
+   * @returns {Promise<number>} - Nombre de papers ajoutés
+   */
+  addPapersToCategory: async (categoryId, paperIds = []) => {
+    let added = 0;
+
+    await withTransaction(async () => {
+      for (const paperId of paperIds) {
+        added += await runStatement(
+          `INSERT INTO PaperCategories (paper_id, categorie_id, created_at)
+           SELECT id, ?, CURRENT_TIMESTAMP FROM Papers
+           WHERE id = ? AND deleted_at IS NULL AND NOT EXISTS (SELECT 1 FROM PaperCategories WHERE paper_id = ? AND categorie_id = ?)`,
+          [categoryId, paperId, paperId, categoryId]
+        );
+      }
+    });
+
+    return added;
+  },
+
+  /**
+   * Ajouter et retirer des catégories sur plusieurs papers (actions groupées)
+   * Les liaisons déjà présentes gardent leur date ; les IDs de papers inconnus sont ignorés
+   * @param {Array<number>} paperIds - IDs des papers
+   * @param {Object} changes - { add: [categoryId], remove: [categoryId] }
+   * @returns {Promise<Object>} - { added, removed } : nombre de liaisons créées et supprimées
+   */
+  updateForPapers: async (paperIds, { add = [], remove = [] } = {}) => {
+    let added = 0;
+    let removed = 0;
+
+    await withTransaction(async () => {
+      for (const categoryId of add) {
+        const category = await queryGet('SELECT id FROM Categories WHERE id = ?', [categoryId]);
+        if (!category) {
+          throw new Error(`Catégorie introuvable: ${categoryId}`);
+        }
+      }
+
+      for (const paperId of paperIds) {
+        for (const categoryId of remove) {
+          removed += await runStatement(
+            'DELETE FROM PaperCategories WHERE paper_id = ? AND categorie_id = ?',
+            [paperId, categoryId]
+          );
+        }
+
+        for (const categoryId of add) {
+          added += await runStatement(
+            `INSERT INTO PaperCategories (paper_id, categorie_id, created_at)
+             SELECT id, ?, CURRENT_TIMESTAMP FROM Papers
+             WHERE id = ? AND deleted_at IS NULL AND NOT EXISTS (SELECT 1 FROM PaperCategories WHERE paper_id = ? AND categorie_id = ?)`,
+            [categoryId, paperId, paperId, categoryId]
+          );
+        }
+      }
+    });
+
+    return { added, removed };
+  },
+
   /**
    * Supprimer une catégorie d'un paper
    * @param {number} paperId - ID du paper
@@ -438,6 +1137,30 @@ const paperCategoryOperations = {
     });
   },
 
+  /**
+   * Récupérer les catégories de plusieurs papers en une seule requête
+   * @param {Array<number>} paperIds - IDs des papers
+   * @returns {Promise<Object>} - Catégories indexées par ID de paper
+   */
+  getCategoriesForPapers: async (paperIds = []) => {
+    if (paperIds.length === 0) {
+      return {};
+    }
+
+    const placeholders = paperIds.map(() => '?').join(', ');
+    const rows = await queryAll(`
+      SELECT pc.paper_id, c.* FROM Categories c
+      JOIN PaperCategories pc ON c.id = pc.categorie_id
+      WHERE pc.paper_id IN (${placeholders})
+      ORDER BY c.name
+    `, paperIds);
+
+    return rows.reduce((acc, { paper_id, ...category }) => {
+      (acc[paper_id] = acc[paper_id] || []).push(category);
+      return acc;
+    }, {});
+  },
+
   /**
    * Récupérer tous les papers d'une catégorie
    * @param {number} categoryId - ID de la catégorie
@@ -449,7 +1172,7 @@ const paperCategoryOperations = {
       const sql = `
         SELECT p.* FROM Papers p 
         JOIN PaperCategories pc ON p.id = pc.paper_id 
-        WHERE pc.categorie_id = ?
+        WHERE pc.categorie_id = ? AND p.deleted_at IS NULL
         ORDER BY p.publication_date DESC
       `;
       
@@ -462,62 +1185,35 @@ const paperCategoryOperations = {
 
   /**
    * Remplacer toutes les catégories d'un paper
+   * Les liaisons conservées gardent leur date d'ajout
    * @param {number} paperId - ID du paper
    * @param {Array} categoryIds - Tableau des IDs des catégories
    * @returns {Promise<boolean>} - True si opération réussie
    */
   setPaperCategories: async (paperId, categoryIds = []) => {
-    try {
-      const db = getDatabase();
-      
-      return new Promise((resolve, reject) => {
-        db.serialize(() => {
-          // Supprimer toutes les catégories existantes
-          db.run(
-            'DELETE FROM PaperCategories WHERE paper_id = ?',
-            [paperId],
-            (err) => {
-              if (err) {
-                reject(err);
-                return;
-              }
-              
-              // Si aucune catégorie à ajouter
-              if (categoryIds.length === 0) {
-                resolve(true);
-                return;
-              }
-              
-              // Ajouter les nouvelles catégories
-              let remaining = categoryIds.length;
-              let hasError = false;
-              
-              categoryIds.forEach(categoryId => {
-                db.run(
-                  'INSERT INTO PaperCategories (paper_id, categorie_id) VALUES (?, ?)',
-                  [paperId, categoryId],
-                  (err) => {
-                    if (err && !hasError) {
-                      hasError = true;
-                      reject(err);
-                      return;
-                    }
-                    
-                    remaining--;
-                    if (remaining === 0 && !hasError) {
-                      resolve(true);
-                    }
-                  }
-                );
-              });
-            }
-          );
-        });
-      });
-    } catch (error) {
-      throw error;
+    const ids = [...new Set(categoryIds.map(id => parseInt(id, 10)).filter(id => !isNaN(id)))];
+
+    if (ids.length === 0) {
+      await runStatement('DELETE FROM PaperCategories WHERE paper_id = ?', [paperId]);
+      return true;
     }
-  },
+
+    await runStatement(
+      `DELETE FROM PaperCategories WHERE paper_id = ? AND categorie_id NOT IN (${ids.map(() => '?').join(', ')})`,
+      [paperId, ...ids]
+    );
+
+    for (const categoryId of ids) {
+      await runStatement(
+        `INSERT INTO PaperCategories (paper_id, categorie_id, created_at)
+         SELECT ?, ?, CURRENT_TIMESTAMP
+         WHERE NOT EXISTS (SELECT 1 FROM PaperCategories WHERE paper_id = ? AND categorie_id = ?)`,
+        [paperId, categoryId, paperId, categoryId]
+      );
+    }
+
+    return true;
+  },
 
   /**
    * Supprimer toutes les liaisons d'un paper
@@ -539,9 +1235,1100 @@ const paperCategoryOperations = {
   }
 };
 
+// Colonnes d'un auteur renvoyées par l'API (même forme que les auteurs des fournisseurs de métadonnées)
+const AUTHOR_COLUMNS = 'a.id, a.given_name AS given, a.family_name AS family, a.orcid';
+
+// Opérations pour les auteurs (Authors / PaperAuthors)
+const authorOperations = {
+  /**
+   * Trouver ou créer un auteur
+   * L'ORCID identifie l'auteur quand il est connu, sinon le nom (casse et accents ignorés) ;
+   * un auteur retrouvé par son nom reçoit l'ORCID s'il n'en avait pas
+   * @param {Object} author - { given, family, orcid }
+   * @returns {Promise<number>} - ID de l'auteur
+   */
+  findOrCreate: async (author) => {
+    const nameKey = authorNameKey(author);
+    const orcid = normalizeOrcid(author.orcid) || null;
+
+    if (orcid) {
+      const byOrcid = await queryGet('SELECT id FROM Authors WHERE orcid = ?', [orcid]);
+      if (byOrcid) return byOrcid.id;
+    }
+
+    const byName = await queryGet(
+      'SELECT id, orcid FROM Authors WHERE name_key = ? AND (? IS NULL OR orcid IS NULL) ORDER BY id LIMIT 1',
+      [nameKey, orcid]
+    );
+
+    if (byName) {
+      if (orcid && !byName.orcid) {
+        await runStatement('UPDATE Authors SET orcid = ? WHERE id = ?', [orcid, byName.id]);
+      }
+      return byName.id;
+    }
+
+    return insertRow(
+      'INSERT INTO Authors (given_name, family_name, name_key, orcid) VALUES (?, ?, ?, ?)',
+      [author.given || null, author.family, nameKey, orcid]
+    );
+  },
+
+  /**
+   * Remplacer les auteurs d'un paper (ordre de la liste conservé)
+   * @param {number} paperId - ID du paper
+   * @param {Array<Object>} authors - Auteurs { given, family, orcid }
+   * @returns {Promise<void>}
+   */
+  setPaperAuthors: async (paperId, authors = []) => {
+    await authorOperations.removePaper(paperId);
+
+    for (const [position, author] of authors.entries()) {
+      const authorId = await authorOperations.findOrCreate(author);
+      await runStatement(
+        'INSERT INTO PaperAuthors (paper_id, author_id, position) VALUES (?, ?, ?)',
+        [paperId, authorId, position]
+      );
+    }
+
+    await authorOperations.removeOrphans();
+  },
+
+  /**
+   * Récupérer les auteurs d'un paper dans l'ordre
+   * @param {number} paperId - ID du paper
+   * @returns {Promise<Array>} - Liste de { id, given, family, orcid }
+   */
+  getAuthorsForPaper: (paperId) => {
+    return queryAll(`
+      SELECT ${AUTHOR_COLUMNS} FROM Authors a
+      JOIN PaperAuthors pa ON a.id = pa.author_id
+      WHERE pa.paper_id = ?
+      ORDER BY pa.position
+    `, [paperId]);
+  },
+
+  /**
+   * Récupérer les auteurs de plusieurs papers en une seule requête
+   * @param {Array<number>} paperIds - IDs des papers
+   * @returns {Promise<Object>} - Auteurs ordonnés, indexés par ID de paper
+   */
+  getAuthorsForPapers: async (paperIds = []) => {
+    if (paperIds.length === 0) {
+      return {};
+    }
+
+    const placeholders = paperIds.map(() => '?').join(', ');
+    const rows = await queryAll(`
+      SELECT pa.paper_id, ${AUTHOR_COLUMNS} FROM Authors a
+      JOIN PaperAuthors pa ON a.id = pa.author_id
+      WHERE pa.paper_id IN (${placeholders})
+      ORDER BY pa.paper_id, pa.position
+    `, paperIds);
+
+    return rows.reduce((acc, { paper_id, ...author }) => {
+      (acc[paper_id] = acc[paper_id] || []).push(author);
+      return acc;
+    }, {});
+  },
+
+  /**
+   * Récupérer un auteur avec son nombre de papers
+   * @param {number} id - ID de l'auteur
+   * @returns {Promise<Object|null>} - { id, given, family, orcid, paper_count } ou null
+   */
+  getById: (id) => {
+    return queryGet(`
+      SELECT ${AUTHOR_COLUMNS}, COUNT(pa.paper_id) AS paper_count
+      FROM Authors a
+      LEFT JOIN PaperAuthors pa ON a.id = pa.author_id AND pa.paper_id IN ${ACTIVE_PAPER_IDS}
+      WHERE a.id = ?
+      GROUP BY a.id
+    `, [id]);
+  },
+
+  /**
+   * Récupérer les co-auteurs d'un auteur (les plus fréquents d'abord)
+   * @param {number} id - ID de l'auteur
+   * @param {number} limit - Nombre maximal de co-auteurs
+   * @returns {Promise<Array>} - Liste de { id, given, family, orcid, paper_count } (papers communs)
+   */
+  getCoauthors: (id, limit = 10) => {
+    return queryAll(`
+      SELECT ${AUTHOR_COLUMNS}, COUNT(DISTINCT other.paper_id) AS paper_count
+      FROM PaperAuthors own
+      JOIN PaperAuthors other ON other.paper_id = own.paper_id AND other.author_id != own.author_id
+      JOIN Authors a ON a.id = other.author_id
+      WHERE own.author_id = ? AND own.paper_id IN ${ACTIVE_PAPER_IDS}
+      GROUP BY a.id
+      ORDER BY paper_count DESC, a.family_name COLLATE NOCASE
+      LIMIT ?
+    `, [id, limit]);
+  },
+
+  /**
+   * Rechercher des auteurs par nom ou ORCID (autocomplétion)
+   * @param {string} query - Début ou partie du nom, ou ORCID
+   * @param {number} limit - Nombre maximal de résultats
+   * @returns {Promise<Array>} - Liste de { id, given, family, orcid, paper_count }, les plus publiés d'abord
+   */
+  search: (query, limit = 10) => {
+    const nameKey = authorNameKey(query);
+    const orcid = normalizeOrcid(query) || null;
+
+    if (!nameKey && !orcid) {
+      return Promise.resolve([]);
+    }
+
+    return queryAll(`
+      SELECT ${AUTHOR_COLUMNS}, COUNT(pa.paper_id) AS paper_count
+      FROM Authors a
+      LEFT JOIN PaperAuthors pa ON a.id = pa.author_id AND pa.paper_id IN ${ACTIVE_PAPER_IDS}
+      WHERE a.name_key LIKE ? OR a.orcid = ?
+      GROUP BY a.id
+      ORDER BY (a.name_key LIKE ?) DESC, paper_count DESC, a.family_name COLLATE NOCASE
+      LIMIT ?
+    `, [`%${nameKey}%`, orcid, `${nameKey}%`, limit]);
+  },
+
+  /**
+   * Retirer les liens d'auteurs d'un paper
+   * @param {number} paperId - ID du paper
+   * @returns {Promise<number>} - Nombre de liens supprimés
+   */
+  removePaper: (paperId) => {
+    return runStatement('DELETE FROM PaperAuthors WHERE paper_id = ?', [paperId]);
+  },
+
+  /**
+   * Supprimer les auteurs qui ne sont plus liés à aucun paper
+   * @returns {Promise<number>} - Nombre d'auteurs supprimés
+   */
+  removeOrphans: () => {
+    return runStatement('DELETE FROM Authors WHERE id NOT IN (SELECT author_id FROM PaperAuthors)');
+  }
+};
+
+// Colonnes d'une venue renvoyées par l'API
+const VENUE_COLUMNS = 'v.id, v.name, v.abbreviation, v.type, v.rank, v.notes';
+
+// Opérations pour le registre des venues (Venues / VenueAliases)
+const venueOperations = {
+  /**
+   * Récupérer toutes les venues avec leurs alias et leur nombre de papers
+   * @returns {Promise<Array>} - Liste de { id, name, abbreviation, type, rank, notes, paper_count, aliases: [{ id, alias }] }
+   */
+  getAll: async () => {
+    const venues = await queryAll(`
+      SELECT ${VENUE_COLUMNS}, COUNT(p.id) AS paper_count
+      FROM Venues v
+      LEFT JOIN Papers p ON p.venue_id = v.id AND p.deleted_at IS NULL
+      GROUP BY v.id
+      ORDER BY COALESCE(v.abbreviation, v.name) COLLATE NOCASE
+    `);
+    const aliases = await queryAll('SELECT id, venue_id, alias FROM VenueAliases ORDER BY alias COLLATE NOCASE');
+
+    const aliasesByVenue = aliases.reduce((acc, { venue_id, ...alias }) => {
+      (acc[venue_id] = acc[venue_id] || []).push(alias);
+      return acc;
+    }, {});
+
+    return venues.map(venue => ({ ...venue, aliases: aliasesByVenue[venue.id] || [] }));
+  },
+
+  /**
+   * Récupérer une venue avec ses alias et son nombre de papers
+   * @param {number} id - ID de la venue
+   * @returns {Promise<Object|null>} - Venue ou null
+   */
+  getById: async (id) => {
+    const venue = await queryGet(`
+      SELECT ${VENUE_COLUMNS}, COUNT(p.id) AS paper_count
+      FROM Venues v
+      LEFT JOIN Papers p ON p.venue_id = v.id AND p.deleted_at IS NULL
+      WHERE v.id = ?
+      GROUP BY v.id
+    `, [id]);
+
+    if (!venue) return null;
+
+    const aliases = await queryAll('SELECT id, alias FROM VenueAliases WHERE venue_id = ? ORDER BY alias COLLATE NOCASE', [id]);
+    return { ...venue, aliases };
+  },
+
+  /**
+   * Créer une venue
+   * @param {Object} venueData - { name, abbreviation, type, rank, notes }
+   * @returns {Promise<number>} - ID de la venue créée
+   */
+  create: async (venueData) => {
+    const venue = createVenue(venueData);
+    if (!validateVenue(venue)) {
+      throw new Error(`Données de la venue invalides: nom requis, type parmi ${Object.keys(VENUE_TYPES).join(', ')}`);
+    }
+
+    return insertRow(
+      'INSERT INTO Venues (name, abbreviation, type, rank, notes) VALUES (?, ?, ?, ?, ?)',
+      [venue.name, venue.abbreviation, venue.type, venue.rank, venue.notes]
+    );
+  },
+
+  /**
+   * Mettre à jour une venue
+   * Une abréviation modifiée est reportée sur les papers de la venue
+   * @param {number} id - ID de la venue
+   * @param {Object} changes - Champs parmi name, abbreviation, type, rank, notes
+   * @returns {Promise<boolean>} - True si la venue existait
+   */
+  update: async (id, changes) => {
+    const current = await venueOperations.getById(id);
+    if (!current) return false;
+
+    const venue = createVenue({ ...current, ...changes });
+    if (!validateVenue(venue)) {
+      throw new Error(`Données de la venue invalides: nom requis, type parmi ${Object.keys(VENUE_TYPES).join(', ')}`);
+    }
+
+    await runStatement(
+      'UPDATE Venues SET name = ?, abbreviation = ?, type = ?, rank = ?, notes = ? WHERE id = ?',
+      [venue.name, venue.abbreviation, venue.type, venue.rank, venue.notes, id]
+    );
+
+    if (venue.abbreviation !== current.abbreviation) {
+      await venueOperations.syncPaperAbbreviations(id, venue.abbreviation);
+    }
+
+    return true;
+  },
+
+  /**
+   * Supprimer une venue et ses alias (les papers gardent leur conteneur et leur abréviation)
+   * @param {number} id - ID de la venue
+   * @returns {Promise<boolean>} - True si la venue existait
+   */
+  delete: async (id) => {
+    return withTransaction(async () => {
+      await runStatement('UPDATE Papers SET venue_id = NULL WHERE venue_id = ?', [id]);
+      await runStatement('DELETE FROM VenueAliases WHERE venue_id = ?', [id]);
+      return (await runStatement('DELETE FROM Venues WHERE id = ?', [id])) > 0;
+    });
+  },
+
+  /**
+   * Ajouter une variante de nom à une venue
+   * @param {number} venueId - ID de la venue
+   * @param {string} alias - Nom tel qu'il apparaît dans les métadonnées
+   * @returns {Promise<number>} - ID de l'alias (erreur UNIQUE si la variante est déjà enregistrée)
+   */
+  addAlias: (venueId, alias) => {
+    const key = venueKey(alias);
+    if (!key) {
+      return Promise.reject(new Error('Alias invalide'));
+    }
+
+    return insertRow('INSERT INTO VenueAliases (venue_id, alias, alias_key) VALUES (?, ?, ?)', [venueId, alias.trim(), key]);
+  },
+
+  /**
+   * Retirer une variante de nom d'une venue
+   * @param {number} venueId - ID de la venue
+   * @param {number} aliasId - ID de l'alias
+   * @returns {Promise<boolean>} - True si l'alias existait
+   */
+  removeAlias: async (venueId, aliasId) => {
+    return (await runStatement('DELETE FROM VenueAliases WHERE id = ? AND venue_id = ?', [aliasId, venueId])) > 0;
+  },
+
+  /**
+   * Fusionner une venue dans une autre
+   * Le nom, l'abréviation et les alias de la venue fusionnée deviennent des alias de la venue conservée,
+   * ses papers sont rattachés à la venue conservée
+   * @param {number} targetId - ID de la venue conservée
+   * @param {number} sourceId - ID de la venue fusionnée (supprimée)
+   * @returns {Promise<Object|null>} - { venue, movedPapers } ou null si l'une des venues n'existe pas
+   */
+  merge: async (targetId, sourceId) => {
+    const target = await venueOperations.getById(targetId);
+    const source = await venueOperations.getById(sourceId);
+    if (!target || !source) return null;
+
+    const movedIds = (await queryAll('SELECT id FROM Papers WHERE venue_id = ?', [sourceId])).map(row => row.id);
+
+    await withTransaction(async () => {
+      await runStatement('UPDATE VenueAliases SET venue_id = ? WHERE venue_id = ?', [targetId, sourceId]);
+
+      const names = [source.name];
+      if (source.abbreviation && venueKey(source.abbreviation) !== venueKey(target.abbreviation)) {
+        names.push(source.abbreviation);
+      }
+      for (const name of names) {
+        await runStatement(
+          'INSERT OR IGNORE INTO VenueAliases (venue_id, alias, alias_key) VALUES (?, ?, ?)',
+          [targetId, name, venueKey(name)]
+        );
+      }
+
+      await runStatement('UPDATE Papers SET venue_id = ? WHERE venue_id = ?', [targetId, sourceId]);
+      await runStatement('DELETE FROM Venues WHERE id = ?', [sourceId]);
+    });
+
+    if (target.abbreviation) {
+      await venueOperations.syncPaperAbbreviations(targetId, target.abbreviation);
+    }
+
+    console.log(`🔀 Venue ${sourceId} fusionnée dans ${targetId} (${movedIds.length} papers)`);
+
+    return {
+      venue: await venueOperations.getById(targetId),
+      movedPapers: movedIds.length
+    };
+  },
+
+  /**
+   * Trouver la venue correspondant à un conteneur (container-title, journal-ref...)
+   * @param {string} container - Nom de la revue ou de la conférence
+   * @returns {Promise<Object|null>} - Venue ou null
+   */
+  match: async (container) => {
+    if (!container || !String(container).trim()) {
+      return null;
+    }
+
+    const match = createVenueMatcher(await venueOperations.getAll())(container);
+    return match ? match.venue : null;
+  },
+
+  /**
+   * Rattacher aux venues les papers dont le conteneur n'est lié à aucune venue
+   * @returns {Promise<number>} - Nombre de papers rattachés
+   */
+  matchPapers: async () => {
+    const matcher = createVenueMatcher(await venueOperations.getAll());
+    const papers = await queryAll(`
+      SELECT id, conference, conference_abbreviation FROM Papers
+      WHERE venue_id IS NULL AND COALESCE(conference, '') != ''
+    `);
+
+    let matched = 0;
+    for (const paper of papers) {
+      const match = matcher(paper.conference);
+      if (!match) continue;
+
+      const abbreviation = paper.conference_abbreviation || match.venue.abbreviation || null;
+      await runStatement('UPDATE Papers SET venue_id = ?, conference_abbreviation = ? WHERE id = ?', [match.venue.id, abbreviation, paper.id]);
+      if (abbreviation !== paper.conference_abbreviation) {
+        await searchOperations.indexPaperMetadata(paper.id);
+      }
+      matched++;
+    }
+
+    return matched;
+  },
+
+  /**
+   * Reporter l'abréviation d'une venue sur ses papers (et sur l'index de recherche)
+   * @param {number} id - ID de la venue
+   * @param {string|null} abbreviation
+   * @returns {Promise<number>} - Nombre de papers modifiés
+   */
+  syncPaperAbbreviations: async (id, abbreviation) => {
+    const papers = await queryAll(
+      "SELECT id FROM Papers WHERE venue_id = ? AND COALESCE(conference_abbreviation, '') != COALESCE(?, '')",
+      [id, abbreviation]
+    );
+
+    for (const paper of papers) {
+      await runStatement('UPDATE Papers SET conference_abbreviation = ? WHERE id = ?', [abbreviation, paper.id]);
+      await searchOperations.indexPaperMetadata(paper.id);
+    }
+
+    return papers.length;
+  }
+};
+
+// Marqueurs de surlignage utilisés par snippet() avant échappement HTML
+const HIGHLIGHT_START = '\u0001';
+const HIGHLIGHT_END = '\u0002';
+
+// Poids appliqués au score bm25 selon la source du texte
+const SEARCH_SOURCE_WEIGHTS = {
+  metadata: 3,
+  notes: 2,
+  pdf: 1
+};
+
+/**
+ * Construire une requête FTS5 sûre à partir de la saisie utilisateur
+ * Chaque mot est cité, le dernier est recherché comme préfixe
+ * @param {string} query
+ * @returns {string} - Requête MATCH (vide si aucun terme)
+ */
+function buildMatchQuery(query) {
+  const terms = String(query || '')
+    .split(/\s+/)
+    .map(term => term.replace(/"/g, '').trim())
+    .filter(Boolean);
+
+  return terms
+    .map((term, index) => (index === terms.length - 1 ? `"${term}"*` : `"${term}"`))
+    .join(' ');
+}
+
+/**
+ * Échapper le HTML d'un extrait puis convertir les marqueurs en <mark>
+ * @param {string} snippet
+ * @returns {string}
+ */
+function formatSnippet(snippet) {
+  return String(snippet || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_END).join('</mark>');
+}
+
+/**
+ * Extraire le texte indexable des blocs de notes
+ * @param {Array} blocks - Blocs de notes
+ * @returns {string}
+ */
+function notesToText(blocks = []) {
+  return blocks
+    .filter(block => block && block.type !== 'image' && typeof block.content === 'string')
+    .map(block => block.content.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+const ANNOTATION_ERROR = `Données de l'annotation invalides: page, rectangles (fractions de la page) et couleur parmi ${ANNOTATION_COLORS.join(', ')} requis`;
+
+/**
+ * Ordre de lecture des annotations : page, puis position du premier rectangle
+ * @param {Object} a
+ * @param {Object} b
+ * @returns {number}
+ */
+function compareAnnotations(a, b) {
+  return a.page - b.page || a.rects[0].y - b.rects[0].y || a.rects[0].x - b.rects[0].x;
+}
+
+// Opérations CRUD pour les annotations du PDF (fichier annotations.json du dossier du paper)
+const annotationOperations = {
+  /**
+   * Récupérer les annotations d'un paper, dans l'ordre de lecture
+   * @param {number} paperId - ID du paper
+   * @returns {Promise<Array|null>} - Annotations ou null si le paper n'existe pas ou est dans la corbeille
+   */
+  getForPaper: async (paperId) => {
+    const paper = await paperOperations.getActiveById(paperId);
+    if (!paper) return null;
+
+    return loadPaperAnnotations(paper.id, paper.title, paper.created_at).sort(compareAnnotations);
+  },
+
+  /**
+   * Ajouter une annotation au PDF d'un paper
+   * @param {number} paperId - ID du paper
+   * @param {Object} annotationData - { page, rects, color, text, comment }
+   * @returns {Promise<Object|null>} - Annotation créée ou null si le paper n'existe pas ou est dans la corbeille
+   */
+  create: async (paperId, annotationData) => {
+    const paper = await paperOperations.getActiveById(paperId);
+    if (!paper) return null;
+
+    const annotation = createAnnotation({ ...annotationData, id: null, createdAt: null });
+    if (!validateAnnotation(annotation)) {
+      throw new Error(ANNOTATION_ERROR);
+    }
+
+    const annotations = loadPaperAnnotations(paper.id, paper.title, paper.created_at);
+    await savePaperAnnotations(paper.id, paper.title, paper.created_at, [...annotations, annotation].sort(compareAnnotations));
+
+    return annotation;
+  },
+
+  /**
+   * Modifier la couleur ou le commentaire d'une annotation
+   * @param {number} paperId - ID du paper
+   * @param {string} annotationId - ID de l'annotation
+   * @param {Object} changes - { color, comment }
+   * @returns {Promise<Object|null>} - Annotation modifiée ou null si introuvable
+   */
+  update: async (paperId, annotationId, changes) => {
+    const paper = await paperOperations.getActiveById(paperId);
+    if (!paper) return null;
+
+    const annotations = loadPaperAnnotations(paper.id, paper.title, paper.created_at);
+    const index = annotations.findIndex(annotation => annotation.id === annotationId);
+    if (index === -1) return null;
+
+    const current = annotations[index];
+    const annotation = createAnnotation({
+      ...current,
+      color: 'color' in changes ? changes.color : current.color,
+      comment: 'comment' in changes ? changes.comment : current.comment
+    });
+    if (!validateAnnotation(annotation)) {
+      throw new Error(ANNOTATION_ERROR);
+    }
+
+    annotations[index] = annotation;
+    await savePaperAnnotations(paper.id, paper.title, paper.created_at, annotations);
+
+    return annotation;
+  },
+
+  /**
+   * Supprimer une annotation
+   * @param {number} paperId - ID du paper
+   * @param {string} annotationId - ID de l'annotation
+   * @returns {Promise<boolean>} - False si le paper ou l'annotation n'existe pas
+   */
+  delete: async (paperId, annotationId) => {
+    const paper = await paperOperations.getActiveById(paperId);
+    if (!paper) return false;
+
+    const annotations = loadPaperAnnotations(paper.id, paper.title, paper.created_at);
+    const remaining = annotations.filter(annotation => annotation.id !== annotationId);
+    if (remaining.length === annotations.length) return false;
+
+    await savePaperAnnotations(paper.id, paper.title, paper.created_at, remaining);
+    return true;
+  }
+};
+
+const ATTACHMENT_ERROR = `Données de la pièce jointe invalides: fichier et nature parmi ${Object.keys(ATTACHMENT_KINDS).join(', ')} requis`;
+
+// Opérations CRUD pour les pièces jointes (table Attachments, fichiers dans attachments/)
+const attachmentOperations = {
+  /**
+   * Récupérer les pièces jointes d'un paper (par nature, puis de la plus ancienne à la plus récente)
+   * @param {number} paperId - ID du paper
+   * @returns {Promise<Array|null>} - Pièces jointes ou null si le paper n'existe pas ou est dans la corbeille
+   */
+  getForPaper: async (paperId) => {
+    const paper = await paperOperations.getActiveById(paperId);
+    if (!paper) return null;
+
+    return queryAll('SELECT * FROM Attachments WHERE paper_id = ? ORDER BY kind, created_at, id', [paperId]);
+  },
+
+  /**
+   * Récupérer une pièce jointe et le chemin de son fichier
+   * @param {number} paperId - ID du paper
+   * @param {number} attachmentId - ID de la pièce jointe
+   * @returns {Promise<Object|null>} - { attachment, filePath } ou null si introuvable
+   */
+  getFile: async (paperId, attachmentId) => {
+    const paper = await paperOperations.getActiveById(paperId);
+    const attachment = paper
+      ? await queryGet('SELECT * FROM Attachments WHERE id = ? AND paper_id = ?', [attachmentId, paperId])
+      : null;
+    if (!attachment) return null;
+
+    const filePath = getAttachmentPath(paper.id, paper.title, paper.created_at, attachment.filename);
+    return filePath ? { attachment, filePath } : null;
+  },
+
+  /**
+   * Ajouter une pièce jointe à partir d'un fichier envoyé
+   * Un fichier identique (même SHA-256) déjà joint au paper est refusé
+   * @param {number} paperId - ID du paper
+   * @param {Object} fileData - { tempPath, originalName, mime, kind, label }
+   * @returns {Promise<Object|null>} - Pièce jointe créée ou null si le paper n'existe pas ou est dans la corbeille
+   */
+  create: async (paperId, fileData) => {
+    const paper = await paperOperations.getActiveById(paperId);
+    if (!paper) return null;
+
+    const attachment = createAttachment({
+      paper_id: paperId,
+      kind: fileData.kind || null,
+      filename: 'pending',
+      original_name: fileData.originalName,
+      mime: fileData.mime,
+      label: fileData.label
+    });
+    if (!validateAttachment(attachment)) {
+      throw new Error(ATTACHMENT_ERROR);
+    }
+
+    attachment.checksum = await fileChecksum(fileData.tempPath);
+    const existing = await queryGet('SELECT original_name FROM Attachments WHERE paper_id = ? AND checksum = ?', [paperId, attachment.checksum]);
+    if (existing) {
+      throw new Error(`Pièce jointe déjà présente: ${existing.original_name}`);
+    }
+
+    const saved = await saveAttachmentFile(paper.id, paper.title, paper.created_at, fileData.tempPath, attachment.original_name);
+
+    try {
+      const id = await insertRow(`
+        INSERT INTO Attachments (paper_id, kind, filename, original_name, size, mime, checksum, label)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [paperId, attachment.kind, saved.filename, attachment.original_name, saved.size, attachment.mime, attachment.checksum, attachment.label]);
+
+      return queryGet('SELECT * FROM Attachments WHERE id = ?', [id]);
+    } catch (error) {
+      // Ne pas laisser de fichier sans enregistrement
+      const orphan = getAttachmentPath(paper.id, paper.title, paper.created_at, saved.filename);
+      if (orphan) fs.rmSync(orphan, { force: true });
+      throw error;
+    }
+  },
+
+  /**
+   * Modifier le libellé ou la nature d'une pièce jointe
+   * @param {number} paperId - ID du paper
+   * @param {number} attachmentId - ID de la pièce jointe
+   * @param {Object} changes - { label, kind }
+   * @returns {Promise<Object|null>} - Pièce jointe modifiée ou null si introuvable
+   */
+  update: async (paperId, attachmentId, changes) => {
+    const current = await queryGet('SELECT * FROM Attachments WHERE id = ? AND paper_id = ?', [attachmentId, paperId]);
+    if (!current) return null;
+
+    const attachment = createAttachment({
+      ...current,
+      kind: 'kind' in changes ? changes.kind : current.kind,
+      label: 'label' in changes ? changes.label : current.label
+    });
+    if (!validateAttachment(attachment)) {
+      throw new Error(ATTACHMENT_ERROR);
+    }
+
+    await runStatement('UPDATE Attachments SET kind = ?, label = ? WHERE id = ?', [attachment.kind, attachment.label, attachmentId]);
+    return queryGet('SELECT * FROM Attachments WHERE id = ?', [attachmentId]);
+  },
+
+  /**
+   * Supprimer une pièce jointe et son fichier
+   * @param {number} paperId - ID du paper
+   * @param {number} attachmentId - ID de la pièce jointe
+   * @returns {Promise<boolean>} - False si le paper ou la pièce jointe n'existe pas
+   */
+  delete: async (paperId, attachmentId) => {
+    const paper = await paperOperations.getActiveById(paperId);
+    if (!paper) return false;
+
+    const attachment = await queryGet('SELECT * FROM Attachments WHERE id = ? AND paper_id = ?', [attachmentId, paperId]);
+    if (!attachment) return false;
+
+    await runStatement('DELETE FROM Attachments WHERE id = ?', [attachmentId]);
+
+    const filePath = getAttachmentPath(paper.id, paper.title, paper.created_at, attachment.filename);
+    if (filePath) {
+      fs.rmSync(filePath, { force: true });
+      console.log(`🗑️ Pièce jointe supprimée: ${attachment.filename}`);
+    }
+    return true;
+  },
+
+  /**
+   * Rattacher les pièces jointes d'un paper à un autre (fusion de doublons, fichiers déjà copiés)
+   * @param {number} fromPaperId - ID du paper absorbé
+   * @param {number} toPaperId - ID du paper conservé
+   * @param {Object} renamed - Chemins relatifs renommés à la copie { 'attachments/a.zip': 'attachments/12_a.zip' }
+   * @returns {Promise<number>} - Nombre de pièces jointes rattachées
+   */
+  moveToPaper: async (fromPaperId, toPaperId, renamed = {}) => {
+    const attachments = await queryAll('SELECT id, filename FROM Attachments WHERE paper_id = ?', [fromPaperId]);
+
+    for (const attachment of attachments) {
+      const target = renamed[`attachments/${attachment.filename}`];
+      const filename = target ? target.replace(/^attachments\//, '') : attachment.filename;
+      await runStatement('UPDATE Attachments SET paper_id = ?, filename = ? WHERE id = ?', [toPaperId, filename, attachment.id]);
+    }
+
+    return attachments.length;
+  },
+
+  /**
+   * Réenregistrer des pièces jointes dont les fichiers sont déjà dans le dossier du paper (restauration)
+   * @param {number} paperId - ID du paper
+   * @param {Array<Object>} attachments - Lignes Attachments d'une autre base
+   * @returns {Promise<number>} - Nombre de pièces jointes enregistrées
+   */
+  addRecords: async (paperId, attachments = []) => {
+    for (const row of attachments) {
+      const attachment = createAttachment({ ...row, paper_id: paperId });
+      await runStatement(`
+        INSERT OR IGNORE INTO Attachments (paper_id, kind, filename, original_name, size, mime, checksum, label, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+      `, [paperId, attachment.kind, attachment.filename, attachment.original_name, attachment.size, attachment.mime, attachment.checksum, attachment.label, row.created_at || null]);
+    }
+
+    return attachments.length;
+  },
+
+  /**
+   * Retirer les pièces jointes d'un paper de la base (les fichiers partent avec son dossier)
+   * @param {number} paperId - ID du paper
+   * @returns {Promise<void>}
+   */
+  removePaper: async (paperId) => {
+    await runStatement('DELETE FROM Attachments WHERE paper_id = ?', [paperId]);
+  }
+};
+
+const FIGURE_ERROR = 'Données de la figure invalides: page entière positive et tags textuels requis';
+
+// Opérations pour la galerie de figures (images de pdf-images et imported-images, métadonnées dans figures.json)
+const figureOperations = {
+  /**
+   * Récupérer les figures d'un paper : images de pdf-images (par page) puis imported-images
+   * @param {number} paperId - ID du paper
+   * @returns {Promise<Object|null>} - { folderName, figures } ou null si le paper n'existe pas ou est dans la corbeille
+   */
+  getForPaper: async (paperId) => {
+    const paper = await paperOperations.getActiveById(paperId);
+    if (!paper) return null;
+
+    const metadata = new Map(loadPaperFigures(paper.id, paper.title, paper.created_at).map(figure => [figure.path, figure]));
+    const figures = listPaperImages(paper.id, paper.title, paper.created_at).map(image => {
+      const figure = metadata.get(image.path) || createFigure({ path: image.path });
+      // Page déduite du nom donné à l'extraction (page_3_img_1.png) pour les images antérieures à figures.json
+      const pageFromName = image.path.match(/^pdf-images\/page_(\d+)_/);
+
+      return {
+        ...figure,
+        page: figure.page || (pageFromName ? Number(pageFromName[1]) : null),
+        path: image.path,
+        source: FIGURE_FOLDERS[image.path.split('/')[0]],
+        size: image.size,
+        createdAt: image.modifiedAt
+      };
+    });
+
+    figures.sort((a, b) =>
+      (a.source === b.source ? 0 : a.source === 'pdf' ? -1 : 1)
+      || (a.page || Infinity) - (b.page || Infinity)
+      || a.path.localeCompare(b.path, undefined, { numeric: true })
+    );
+
+    return { folderName: formatFolderName(paper.id, paper.title, paper.created_at), figures };
+  },
+
+  /**
+   * Modifier la légende, la page ou les tags d'une figure
+   * @param {number} paperId - ID du paper
+   * @param {string} figurePath - Chemin relatif (pdf-images/page_1_img_2.png)
+   * @param {Object} changes - { caption, page, tags }
+   * @returns {Promise<Object|null>} - Figure modifiée ou null si l'image n'existe pas
+   */
+  update: async (paperId, figurePath, changes) => {
+    const gallery = await figureOperations.getForPaper(paperId);
+    const current = gallery && gallery.figures.find(figure => figure.path === figurePath);
+    if (!current) return null;
+
+    const figure = createFigure({
+      ...current,
+      caption: 'caption' in changes ? changes.caption : current.caption,
+      page: 'page' in changes ? changes.page : current.page,
+      tags: 'tags' in changes ? changes.tags : current.tags
+    });
+    if (!validateFigure(figure)) {
+      throw new Error(FIGURE_ERROR);
+    }
+
+    const paper = await paperOperations.getActiveById(paperId);
+    const figures = loadPaperFigures(paper.id, paper.title, paper.created_at).filter(item => item.path !== figurePath);
+    await savePaperFigures(paper.id, paper.title, paper.created_at, [...figures, figure]);
+
+    return { ...current, ...figure };
+  },
+
+  /**
+   * Supprimer une image de la galerie et ses métadonnées
+   * @param {number} paperId - ID du paper
+   * @param {string} figurePath - Chemin relatif de l'image
+   * @returns {Promise<boolean>} - False si le paper ou l'image n'existe pas
+   */
+  delete: async (paperId, figurePath) => {
+    const paper = await paperOperations.getActiveById(paperId);
+    if (!paper || !validateFigure(createFigure({ path: figurePath }))) return false;
+
+    const imagePath = path.join(getPaperFolderPath(paper.id, paper.title, paper.created_at), figurePath);
+    if (!fs.existsSync(imagePath)) return false;
+
+    fs.rmSync(imagePath, { force: true });
+    const figures = loadPaperFigures(paper.id, paper.title, paper.created_at);
+    if (figures.some(figure => figure.path === figurePath)) {
+      await savePaperFigures(paper.id, paper.title, paper.created_at, figures.filter(figure => figure.path !== figurePath));
+    }
+
+    console.log(`🗑️ Figure supprimée: ${figurePath}`);
+    return true;
+  },
+
+  /**
+   * Empreintes perceptuelles des images déjà enregistrées (doublons ignorés à la réextraction)
+   * @param {number} paperId - ID du paper
+   * @returns {Promise<Array<string>>}
+   */
+  getKnownHashes: async (paperId) => {
+    const gallery = await figureOperations.getForPaper(paperId);
+    return gallery ? gallery.figures.map(figure => figure.hash).filter(Boolean) : [];
+  }
+};
+
+// Opérations pour l'index de recherche plein texte (FTS5)
+const searchOperations = {
+  /**
+   * Remplacer le texte indexé d'un paper pour une source donnée
+   * @param {number} paperId - ID du paper
+   * @param {string} source - metadata | notes | pdf
+   * @param {string} content - Texte à indexer (vide pour retirer la source)
+   * @returns {Promise<void>}
+   */
+  replaceEntry: async (paperId, source, content) => {
+    await runStatement('DELETE FROM PaperSearchIndex WHERE paper_id = ? AND source = ?', [paperId, source]);
+
+    if (content && content.trim()) {
+      await runStatement(
+        'INSERT INTO PaperSearchIndex (paper_id, source, content) VALUES (?, ?, ?)',
+        [paperId, source, content]
+      );
+    }
+  },
+
+  /**
+   * Indexer les métadonnées d'un paper (titre, auteurs, conférence, DOI, description)
+   * Les papers de la corbeille ne sont pas indexés (ils le sont à nouveau à leur restauration)
+   * @param {number} paperId - ID du paper
+   * @returns {Promise<void>}
+   */
+  indexPaperMetadata: async (paperId) => {
+    const paper = await queryGet(`
+      SELECT p.title, p.authors, p.conference, p.conference_abbreviation, p.publisher, p.doi, p.arxiv_id, p.isbn, p.keywords, p.abstract, d.texte
+      FROM Papers p
+      LEFT JOIN Descriptions d ON d.paper_id = p.id
+      WHERE p.id = ? AND p.deleted_at IS NULL
+    `, [paperId]);
+
+    if (!paper) {
+      return;
+    }
+
+    const content = [
+      paper.title,
+      paper.authors,
+      paper.conference,
+      paper.conference_abbreviation,
+      paper.publisher,
+      paper.doi,
+      paper.arxiv_id,
+      paper.isbn,
+      paper.keywords,
+      paper.abstract,
+      paper.texte
+    ].filter(Boolean).join('\n');
+
+    await searchOperations.replaceEntry(paperId, 'metadata', content);
+  },
+
+  /**
+   * Indexer le contenu des notes d'un paper (ignoré pour un paper de la corbeille)
+   * @param {number} paperId - ID du paper
+   * @param {Array} blocks - Blocs de notes (tableau vide pour retirer les notes)
+   * @returns {Promise<void>}
+   */
+  indexPaperNotes: async (paperId, blocks = []) => {
+    if (!(await paperOperations.getActiveById(paperId))) {
+      return;
+    }
+
+    await searchOperations.replaceEntry(paperId, 'notes', notesToText(blocks));
+  },
+
+  /**
+   * Extraire et indexer le texte du PDF stocké d'un paper (ignoré pour un paper de la corbeille)
+   * L'écriture passe par une transaction : ne pas appeler depuis withTransaction
+   * @param {number} paperId - ID du paper
+   * @returns {Promise<boolean>} - True si du texte a été indexé
+   */
+  indexPaperPdf: async (paperId) => {
+    const paper = await paperOperations.getActiveById(paperId);
+    if (!paper) {
+      return false;
+    }
+
+    const pdfPath = findPaperPDF(paperId, paper.title, paper.created_at);
+    const text = pdfPath ? await extractPdfText(pdfPath) : null;
+
+    await withTransaction(() => searchOperations.replaceEntry(paperId, 'pdf', text || ''));
+
+    if (text) {
+      console.log(`🔎 Texte PDF indexé pour paper ${paperId}`);
+    }
+    return Boolean(text);
+  },
+
+  /**
+   * Retirer toutes les entrées d'un paper de l'index
+   * @param {number} paperId - ID du paper
+   * @returns {Promise<void>}
+   */
+  removePaper: async (paperId) => {
+    await runStatement('DELETE FROM PaperSearchIndex WHERE paper_id = ?', [paperId]);
+  },
+
+  /**
+   * Compter les entrées de l'index par source
+   * @returns {Promise<Object>} - { metadata, notes, pdf }
+   */
+  getIndexStats: async () => {
+    const rows = await queryAll('SELECT source, COUNT(*) AS count FROM PaperSearchIndex GROUP BY source');
+
+    return rows.reduce((acc, row) => {
+      acc[row.source] = row.count;
+      return acc;
+    }, { metadata: 0, notes: 0, pdf: 0 });
+  },
+
+  /**
+   * Reconstruire entièrement l'index à partir de la base et des dossiers des papers
+   * @returns {Promise<number>} - Nombre de papers indexés
+   */
+  rebuild: async () => {
+    console.log('🔎 Reconstruction de l\'index de recherche...');
+    const papers = await queryAll('SELECT id, title, created_at FROM Papers WHERE deleted_at IS NULL');
+
+    await withTransaction(async () => {
+      await runStatement('DELETE FROM PaperSearchIndex');
+
+      for (const paper of papers) {
+        await searchOperations.indexPaperMetadata(paper.id);
+
+        // Lecture directe de notes.json pour ne pas recréer de dossier manquant
+        const notesPath = path.join(getPaperFolderPath(paper.id, paper.title, paper.created_at), 'notes.json');
+        if (fs.existsSync(notesPath)) {
+          try {
+            const notesData = JSON.parse(fs.readFileSync(notesPath, 'utf8'));
+            await searchOperations.indexPaperNotes(paper.id, notesData.blocks || []);
+          } catch (error) {
+            console.warn(`⚠️ Notes illisibles pour paper ${paper.id}:`, error.message);
+          }
+        }
+      }
+    });
+
+    // L'extraction du texte PDF est longue : chaque paper dans sa propre transaction
+    for (const paper of papers) {
+      await searchOperations.indexPaperPdf(paper.id);
+    }
+
+    console.log(`✅ Index de recherche reconstruit (${papers.length} papers)`);
+    return papers.length;
+  },
+
+  /**
+   * Reconstruire l'index s'il est vide alors que la base contient des papers
+   * @returns {Promise<boolean>} - True si une reconstruction a été lancée
+   */
+  rebuildIfEmpty: async () => {
+    const { indexed } = await queryGet('SELECT COUNT(*) AS indexed FROM PaperSearchIndex');
+    const { total } = await queryGet('SELECT COUNT(*) AS total FROM Papers WHERE deleted_at IS NULL');
+
+    if (indexed > 0 || total === 0) {
+      return false;
+    }
+
+    await searchOperations.rebuild();
+    return true;
+  },
+
+  /**
+   * Rechercher dans l'index plein texte
+   * @param {string} query - Texte recherché
+   * @param {Object} options - { sources, page, limit }
+   * @returns {Promise<Object>} - { query, data, total, page, limit, totalPages, hasNext, hasPrev }
+   */
+  search: async (query, options = {}) => {
+    const limit = Math.max(1, parseInt(options.limit, 10) || 20);
+    const emptyResult = { query, total: 0, page: 1, limit, totalPages: 1, hasNext: false, hasPrev: false, data: [] };
+
+    const matchQuery = buildMatchQuery(query);
+    if (!matchQuery) {
+      return emptyResult;
+    }
+
+    const sources = (options.sources || []).filter(source => SEARCH_SOURCE_WEIGHTS[source]);
+    const params = [HIGHLIGHT_START, HIGHLIGHT_END, matchQuery];
+    let sourceClause = '';
+
+    if (sources.length > 0) {
+      sourceClause = `AND source IN (${sources.map(() => '?').join(', ')})`;
+      params.push(...sources);
+    }
+
+    const rows = await queryAll(`
+      SELECT paper_id, source, bm25(PaperSearchIndex) AS rank,
+             snippet(PaperSearchIndex, 2, ?, ?, '…', 16) AS snippet
+      FROM PaperSearchIndex
+      WHERE PaperSearchIndex MATCH ? ${sourceClause} AND paper_id IN ${ACTIVE_PAPER_IDS}
+      ORDER BY rank
+    `, params);
+
+    // Regrouper les correspondances par paper (bm25 est négatif : plus petit = plus pertinent)
+    const hitsByPaper = new Map();
+    for (const row of rows) {
+      const paperId = Number(row.paper_id);
+      const hit = hitsByPaper.get(paperId) || { paperId, score: 0, matches: [] };
+
+      hit.score += -row.rank * SEARCH_SOURCE_WEIGHTS[row.source];
+      hit.matches.push({ source: row.source, snippet: formatSnippet(row.snippet) });
+      hitsByPaper.set(paperId, hit);
+    }
+
+    const rankedHits = [...hitsByPaper.values()].sort((a, b) => b.score - a.score);
+    const total = rankedHits.length;
+
+    if (total === 0) {
+      return emptyResult;
+    }
+
+    const totalPages = Math.max(1, Math.ceil(total / limit));
+    const page = Math.min(Math.max(1, parseInt(options.page, 10) || 1), totalPages);
+    const pageHits = rankedHits.slice((page - 1) * limit, page * limit);
+
+    const paperIds = pageHits.map(hit => hit.paperId);
+    const papers = await queryAll(
+      `SELECT * FROM Papers WHERE id IN (${paperIds.map(() => '?').join(', ')}) AND deleted_at IS NULL`,
+      paperIds
+    );
+    const categoriesByPaper = await paperCategoryOperations.getCategoriesForPapers(paperIds);
+    const papersById = new Map(papers.map(paper => [paper.id, paper]));
+
+    return {
+      query,
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+      data: pageHits
+        .filter(hit => papersById.has(hit.paperId))
+        .map(hit => ({
+          paper: { ...papersById.get(hit.paperId), categories: categoriesByPaper[hit.paperId] || [] },
+          score: Math.round(hit.score * 1000) / 1000,
+          matches: hit.matches
+        }))
+    };
+  }
+};
+
 module.exports = {
   paperOperations,
   categoryOperations,
   descriptionOperations,
-  paperCategoryOperations
+  paperCategoryOperations,
+  authorOperations,
+  venueOperations,
+  annotationOperations,
+  attachmentOperations,
+  figureOperations,
+  searchOperations
 };
\ No newline at end of file
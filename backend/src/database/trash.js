@@ -0,0 +1,62 @@
+// backend/src/database/trash.js - Corbeille : durée de conservation et purge automatique
+const { paperDB } = require('./index');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lire un entier positif depuis l'environnement
+ * @param {string} name
+ * @param {number} fallback
+ * @returns {number}
+ */
+function envInteger(name, fallback) {
+  const value = parseInt(process.env[name], 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+/**
+ * Configuration par défaut, surchargeable par variable d'environnement
+ * - TRASH_RETENTION_DAYS : jours passés dans la corbeille avant suppression définitive (0 pour ne jamais purger)
+ */
+const TRASH_CONFIG = {
+  retentionDays: envInteger('TRASH_RETENTION_DAYS', 30)
+};
+
+let timer = null;
+
+/**
+ * Supprimer les papers dont la durée de conservation est dépassée
+ */
+async function runTrashPurge() {
+  try {
+    const purged = await paperDB.purgeExpiredTrash(TRASH_CONFIG.retentionDays);
+    if (purged.length > 0) {
+      console.log(`🧹 ${purged.length} paper(s) purgé(s) de la corbeille (plus de ${TRASH_CONFIG.retentionDays} jours)`);
+    }
+  } catch (error) {
+    console.error('❌ Erreur purge de la corbeille:', error.message);
+  }
+}
+
+/**
+ * Démarrer la purge automatique : peu après le démarrage, puis une fois par jour
+ */
+function startTrashPurgeScheduler() {
+  if (timer || !TRASH_CONFIG.retentionDays) {
+    return;
+  }
+
+  const first = setTimeout(runTrashPurge, 60 * 1000);
+  first.unref();
+
+  // Le minuteur ne doit pas empêcher l'arrêt du serveur
+  timer = setInterval(runTrashPurge, DAY_MS);
+  timer.unref();
+
+  console.log(`🗑️ Corbeille purgée automatiquement après ${TRASH_CONFIG.retentionDays} jours`);
+}
+
+module.exports = {
+  TRASH_CONFIG,
+  startTrashPurgeScheduler
+};
@@ -0,0 +1,157 @@
+// backend/src/database/venues.js - Registre des venues : liste initiale et rapprochement des conteneurs (container-title)
+const { normalizeText, bigrams, diceCoefficient } = require('./duplicates');
+
+// Types de venues
+const VENUE_TYPES = {
+  conference: 'Conférence',
+  journal: 'Revue',
+  workshop: 'Atelier',
+  other: 'Autre'
+};
+
+// Score minimal pour rattacher un conteneur à une venue (0 à 1)
+const VENUE_MATCH_THRESHOLD = 0.9;
+
+// Mots ignorés dans les clés de venue ("Proceedings of the 2023 ACM ...")
+const VENUE_STOPWORDS = new Set(['proceedings', 'proc', 'of', 'the', 'and', 'annual', 'acm', 'ieee', 'cvf', 'sigchi']);
+
+// Venues courantes (informatique, IHM, réalité virtuelle), insérées à la création du registre
+// rank : classement CORE quand il est établi
+const VENUE_SEED = [
+  // IHM
+  { name: 'CHI Conference on Human Factors in Computing Systems', abbreviation: 'CHI', type: 'conference', rank: 'A*', aliases: ['Conference on Human Factors in Computing Systems'] },
+  { name: 'Extended Abstracts of the CHI Conference on Human Factors in Computing Systems', abbreviation: 'CHI EA', type: 'conference', notes: 'Late-breaking work, posters, démonstrations', aliases: ['CHI Conference on Human Factors in Computing Systems Extended Abstracts'] },
+  { name: 'ACM Symposium on User Interface Software and Technology', abbreviation: 'UIST', type: 'conference', rank: 'A*' },
+  { name: 'ACM Conference on Computer-Supported Cooperative Work and Social Computing', abbreviation: 'CSCW', type: 'conference', rank: 'A', aliases: ['Conference on Computer Supported Cooperative Work'] },
+  { name: 'ACM Designing Interactive Systems Conference', abbreviation: 'DIS', type: 'conference', rank: 'A' },
+  { name: 'International Conference on Intelligent User Interfaces', abbreviation: 'IUI', type: 'conference', rank: 'A' },
+  { name: 'International Conference on Tangible, Embedded, and Embodied Interaction', abbreviation: 'TEI', type: 'conference' },
+  { name: 'International Conference on Human-Computer Interaction with Mobile Devices and Services', abbreviation: 'MobileHCI', type: 'conference' },
+  { name: 'ACM International Joint Conference on Pervasive and Ubiquitous Computing', abbreviation: 'UbiComp', type: 'conference', aliases: ['ACM International Conference on Ubiquitous Computing'] },
+  { name: 'International Conference on Multimodal Interaction', abbreviation: 'ICMI', type: 'conference' },
+  { name: 'ACM Interactive Surfaces and Spaces', abbreviation: 'ISS', type: 'conference', aliases: ['ACM International Conference on Interactive Surfaces and Spaces'] },
+  { name: 'ACM Symposium on Spatial User Interaction', abbreviation: 'SUI', type: 'conference' },
+  { name: 'Nordic Conference on Human-Computer Interaction', abbreviation: 'NordiCHI', type: 'conference' },
+  { name: 'Conférence Francophone sur l\'Interaction Humain-Machine', abbreviation: 'IHM', type: 'conference', aliases: ['Conférence Francophone sur l\'Interaction Homme-Machine'] },
+
+  // Réalité virtuelle et augmentée, graphisme
+  { name: 'IEEE Conference on Virtual Reality and 3D User Interfaces', abbreviation: 'IEEE VR', type: 'conference', rank: 'A*', aliases: ['IEEE Virtual Reality Conference', 'IEEE Conference on Virtual Reality'] },
+  { name: 'IEEE International Symposium on Mixed and Augmented Reality', abbreviation: 'ISMAR', type: 'conference', rank: 'A*' },
+  { name: 'ACM Symposium on Virtual Reality Software and Technology', abbreviation: 'VRST', type: 'conference', rank: 'A' },
+  { name: 'IEEE Symposium on 3D User Interfaces', abbreviation: '3DUI', type: 'conference' },
+  { name: 'ACM SIGGRAPH Conference', abbreviation: 'SIGGRAPH', type: 'conference', aliases: ['Special Interest Group on Computer Graphics and Interactive Techniques Conference'] },
+  { name: 'IEEE Visualization Conference', abbreviation: 'VIS', type: 'conference' },
+
+  // Apprentissage automatique, vision, langage
+  { name: 'Advances in Neural Information Processing Systems', abbreviation: 'NeurIPS', type: 'conference', rank: 'A*', aliases: ['Conference on Neural Information Processing Systems', 'NIPS'] },
+  { name: 'International Conference on Machine Learning', abbreviation: 'ICML', type: 'conference', rank: 'A*' },
+  { name: 'International Conference on Learning Representations', abbreviation: 'ICLR', type: 'conference' },
+  { name: 'IEEE/CVF Conference on Computer Vision and Pattern Recognition', abbreviation: 'CVPR', type: 'conference', rank: 'A*' },
+  { name: 'IEEE/CVF International Conference on Computer Vision', abbreviation: 'ICCV', type: 'conference', rank: 'A*' },
+  { name: 'AAAI Conference on Artificial Intelligence', abbreviation: 'AAAI', type: 'conference', rank: 'A*' },
+  { name: 'Annual Meeting of the Association for Computational Linguistics', abbreviation: 'ACL', type: 'conference', rank: 'A*' },
+
+  // Génie logiciel
+  { name: 'International Conference on Software Engineering', abbreviation: 'ICSE', type: 'conference', rank: 'A*' },
+
+  // Revues
+  { name: 'ACM Transactions on Computer-Human Interaction', abbreviation: 'TOCHI', type: 'journal' },
+  { name: 'Proceedings of the ACM on Human-Computer Interaction', abbreviation: 'PACMHCI', type: 'journal', notes: 'Publie les actes de CSCW, ISS, MobileHCI, CHI PLAY' },
+  { name: 'Proceedings of the ACM on Interactive, Mobile, Wearable and Ubiquitous Technologies', abbreviation: 'IMWUT', type: 'journal', notes: 'Articles présentés à UbiComp' },
+  { name: 'International Journal of Human-Computer Studies', abbreviation: 'IJHCS', type: 'journal' },
+  { name: 'International Journal of Human-Computer Interaction', abbreviation: 'IJHCI', type: 'journal' },
+  { name: 'IEEE Transactions on Visualization and Computer Graphics', abbreviation: 'TVCG', type: 'journal' },
+  { name: 'ACM Transactions on Graphics', abbreviation: 'TOG', type: 'journal' },
+  { name: 'PRESENCE: Virtual and Augmented Reality', abbreviation: 'PRESENCE', type: 'journal', aliases: ['Presence: Teleoperators and Virtual Environments'] },
+  { name: 'Frontiers in Virtual Reality', abbreviation: 'Front. Virtual Real.', type: 'journal' },
+  { name: 'Computers & Graphics', abbreviation: 'C&G', type: 'journal' },
+  { name: 'Communications of the ACM', abbreviation: 'CACM', type: 'journal' },
+  { name: 'Journal of Machine Learning Research', abbreviation: 'JMLR', type: 'journal' }
+];
+
+/**
+ * Clé de comparaison d'un nom de venue
+ * Minuscules sans accents ni ponctuation, sans années, numéros d'édition ("36th") ni mots ignorés
+ * @param {string} name
+ * @returns {string}
+ */
+function venueKey(name) {
+  return normalizeText(name)
+    .split(' ')
+    .filter(word => word && !VENUE_STOPWORDS.has(word) && !/^\d+(st|nd|rd|th)?$/.test(word))
+    .join(' ');
+}
+
+/**
+ * Contenus entre parenthèses d'un conteneur ("... Pattern Recognition (CVPR)")
+ * @param {string} container
+ * @returns {Array<string>} - Clés des contenus
+ */
+function parentheticalKeys(container) {
+  return [...String(container).matchAll(/\(([^)]*)\)/g)]
+    .map(match => venueKey(match[1]))
+    .filter(Boolean);
+}
+
+/**
+ * Préparer le rapprochement des conteneurs avec une liste de venues
+ * - nom ou alias identique (après normalisation) : score 1
+ * - abréviation seule ("CHI 2023") ou entre parenthèses : score 0.95
+ * - sinon similarité des bigrammes avec le nom ou un alias
+ * @param {Array<Object>} venues - Venues { id, name, abbreviation, aliases: [{ alias }] | [string] }
+ * @param {Object} options - { threshold }
+ * @returns {Function} - (container) => { venue, score } | null
+ */
+function createVenueMatcher(venues, options = {}) {
+  const threshold = options.threshold ?? VENUE_MATCH_THRESHOLD;
+
+  const entries = venues.map(venue => {
+    const names = [venue.name, ...(venue.aliases || []).map(alias => (typeof alias === 'string' ? alias : alias.alias))];
+    const keys = [...new Set(names.map(venueKey).filter(Boolean))];
+
+    return {
+      venue,
+      keys,
+      grams: keys.map(bigrams),
+      abbreviation: venueKey(venue.abbreviation)
+    };
+  });
+
+  return (container) => {
+    const text = String(container || '').trim();
+    if (!text) {
+      return null;
+    }
+
+    const key = venueKey(text.replace(/\([^)]*\)/g, ' '));
+    const hints = parentheticalKeys(text);
+    const grams = bigrams(key);
+    let best = null;
+
+    for (const entry of entries) {
+      let score;
+
+      if (key && entry.keys.includes(key)) {
+        score = 1;
+      } else if (entry.abbreviation && (entry.abbreviation === key || hints.includes(entry.abbreviation))) {
+        score = 0.95;
+      } else {
+        score = key ? Math.max(0, ...entry.grams.map(venueGrams => diceCoefficient(grams, venueGrams))) : 0;
+      }
+
+      if (score >= threshold && (!best || score > best.score)) {
+        best = { venue: entry.venue, score };
+      }
+    }
+
+    return best;
+  };
+}
+
+module.exports = {
+  VENUE_TYPES,
+  VENUE_MATCH_THRESHOLD,
+  VENUE_SEED,
+  venueKey,
+  createVenueMatcher
+};
@@ -0,0 +1,547 @@
+// backend/src/formats/bibtex.js - Sérialisation et analyse du format BibTeX
+const {
+  normalizeDoi,
+  normalizeArxivId,
+  splitAuthors,
+  parseAuthorList,
+  authorDisplayName,
+  inferItemType,
+  itemTypeFromFormat,
+  formatItemType,
+  paperKeywords,
+  buildDate,
+  buildMappingReport
+} = require('./common');
+
+// Mois BibTeX (macros jan, feb...) vers numéro de mois
+const BIBTEX_MONTHS = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+};
+
+const MONTH_MACROS = Object.keys(BIBTEX_MONTHS);
+
+// Champs BibTeX lus pour chaque champ de FormPaper, par ordre de priorité
+const BIBTEX_FIELD_MAP = [
+  { target: 'title', sources: ['title'] },
+  { target: 'authors', sources: ['author', 'editor'] },
+  { target: 'publication_date', sources: ['date', 'year', 'month', 'day'], combine: true },
+  { target: 'conference', sources: ['booktitle', 'journal', 'series'] },
+  { target: 'publisher', sources: ['school', 'institution', 'organization', 'publisher'] },
+  { target: 'doi', sources: ['doi'] },
+  { target: 'arxiv_id', sources: ['eprint'] },
+  { target: 'isbn', sources: ['isbn'] },
+  { target: 'url', sources: ['url', 'howpublished'] },
+  { target: 'keywords', sources: ['keywords'] },
+  { target: 'abstract', sources: ['abstract'] },
+  { target: 'description', sources: ['note', 'annote'], combine: true }
+];
+
+// Champ recevant la revue ou la conférence selon le type d'entrée (series par défaut)
+const CONTAINER_FIELDS = {
+  article: 'journal',
+  inproceedings: 'booktitle',
+  incollection: 'booktitle',
+  misc: 'howpublished'
+};
+
+// Auteurs collectifs, exportés entre accolades pour que BibTeX ne les découpe pas
+const CORPORATE_AUTHOR_PATTERN = /\b(consortium|collaboration|organi[sz]ation|institute|university|université|team|group|association|committee|council|foundation|society|agency|laboratory|project|inc|ltd|corporation)\b/i;
+
+// Mots ignorés pour le choix du mot du titre dans la clé de citation
+const CITATION_KEY_STOP_WORDS = new Set([
+  'a', 'an', 'the', 'on', 'of', 'in', 'for', 'to', 'and', 'with', 'at', 'by', 'from',
+  'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'pour', 'sur'
+]);
+
+// Accents LaTeX courants vers caractères Unicode
+const LATEX_ACCENTS = {
+  "'": { a: 'á', e: 'é', i: 'í', o: 'ó', u: 'ú', y: 'ý', c: 'ć', n: 'ń', s: 'ś', z: 'ź', A: 'Á', E: 'É', I: 'Í', O: 'Ó', U: 'Ú', Y: 'Ý', C: 'Ć', N: 'Ń', S: 'Ś', Z: 'Ź' },
+  '`': { a: 'à', e: 'è', i: 'ì', o: 'ò', u: 'ù', A: 'À', E: 'È', I: 'Ì', O: 'Ò', U: 'Ù' },
+  '^': { a: 'â', e: 'ê', i: 'î', o: 'ô', u: 'û', A: 'Â', E: 'Ê', I: 'Î', O: 'Ô', U: 'Û' },
+  '"': { a: 'ä', e: 'ë', i: 'ï', o: 'ö', u: 'ü', y: 'ÿ', A: 'Ä', E: 'Ë', I: 'Ï', O: 'Ö', U: 'Ü' },
+  '~': { a: 'ã', n: 'ñ', o: 'õ', A: 'Ã', N: 'Ñ', O: 'Õ' },
+  c: { c: 'ç', C: 'Ç', s: 'ş', S: 'Ş' },
+  v: { c: 'č', s: 'š', z: 'ž', r: 'ř', e: 'ě', C: 'Č', S: 'Š', Z: 'Ž', R: 'Ř', E: 'Ě' }
+};
+
+const LATEX_SYMBOLS = {
+  '\\ss': 'ß', '\\o': 'ø', '\\O': 'Ø', '\\ae': 'æ', '\\AE': 'Æ', '\\aa': 'å', '\\AA': 'Å', '\\l': 'ł', '\\L': 'Ł'
+};
+
+// Caractères spéciaux LaTeX à échapper dans les valeurs exportées
+const BIBTEX_ESCAPES = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '&': '\\&',
+  '%': '\\%',
+  '$': '\\$',
+  '#': '\\#',
+  '_': '\\_',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}'
+};
+
+// ================================
+// UTILITAIRES
+// ================================
+
+/**
+ * Convertir une chaîne Unicode en ASCII (pour les clés de citation)
+ * @param {string} text
+ * @returns {string}
+ */
+function toAscii(text) {
+  return String(text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ß/g, 'ss')
+    .replace(/[øØ]/g, 'o')
+    .replace(/[æÆ]/g, 'ae')
+    .replace(/[łŁ]/g, 'l');
+}
+
+/**
+ * Échapper les caractères spéciaux LaTeX d'une valeur de champ
+ * @param {string} value
+ * @returns {string}
+ */
+function escapeBibtex(value) {
+  return String(value || '')
+    .replace(/[\\{}&%$#_~^]/g, char => BIBTEX_ESCAPES[char])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Convertir le LaTeX d'une valeur BibTeX en texte brut
+ * @param {string} value
+ * @returns {string}
+ */
+function latexToText(value) {
+  let text = String(value || '');
+
+  const applyAccent = (match, accent, letter) => {
+    const map = LATEX_ACCENTS[accent];
+    return map && map[letter] ? map[letter] : letter;
+  };
+
+  // Accents : {\'e}, \'{e}, \'e puis \c{c}, \v{s} (accolades ou espace obligatoires)
+  text = text
+    .replace(/\{?\\([`'^"~])\s*\{?([a-zA-Z])\}?\}?/g, applyAccent)
+    .replace(/\{?\\([cv])(?:\{([a-zA-Z])\}|\s+([a-zA-Z]))\}?/g, (match, accent, braced, spaced) => applyAccent(match, accent, braced || spaced));
+
+  // Symboles : \ss, \o, \ae...
+  text = text.replace(/\{?(\\(?:ss|o|O|ae|AE|aa|AA|l|L))\b\}?/g, (match, symbol) => LATEX_SYMBOLS[symbol] || match);
+
+  // ~ est une espace insécable en LaTeX (avant de convertir \textasciitilde)
+  return text
+    .replace(/~/g, ' ')
+    .replace(/\\textbackslash\{\}/g, '\\')
+    .replace(/\\textasciitilde\{\}/g, '~')
+    .replace(/\\textasciicircum\{\}/g, '^')
+    .replace(/\\(?:emph|textit|textbf|textsc|texttt|mathrm)\s*/g, '')
+    .replace(/--/g, '–')
+    .replace(/\\([&%$#_{}])|[{}]/g, (match, escaped) => escaped || '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Nom d'auteur BibTeX : "Nom, Prénom", ou nom entier entre accolades pour un auteur collectif
+ * @param {{ given: string, family: string }} author
+ * @returns {string}
+ */
+function bibtexAuthorName({ given, family }) {
+  const fullName = [given, family].filter(Boolean).join(' ');
+
+  if (!given || CORPORATE_AUTHOR_PATTERN.test(fullName)) {
+    return `{${escapeBibtex(fullName)}}`;
+  }
+  return escapeBibtex(`${family}, ${given}`);
+}
+
+// ================================
+// EXPORT
+// ================================
+
+/**
+ * Générer une clé de citation stable : nomPremierAuteur + année + premier mot du titre
+ * @param {Object} paper - PaperData
+ * @returns {string} - Clé de base (sans suffixe de désambiguïsation)
+ */
+function generateCitationKey(paper) {
+  const [firstAuthor] = splitAuthors(paper.authors);
+  const family = toAscii(firstAuthor ? firstAuthor.family : 'anon').toLowerCase().replace(/[^a-z0-9]/g, '') || 'anon';
+
+  const yearMatch = String(paper.publication_date || '').match(/^(\d{4})/);
+  const year = yearMatch ? yearMatch[1] : 'nd';
+
+  const titleWord = toAscii(paper.title)
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .find(word => word && !CITATION_KEY_STOP_WORDS.has(word)) || '';
+
+  return `${family}${year}${titleWord}`;
+}
+
+/**
+ * Attribuer des clés uniques à une liste de papers
+ * Les collisions sont départagées par ordre d'ID (a, b, c...) pour rester stables
+ * @param {Array} papers - Liste de PaperData
+ * @returns {Map<number, string>} - Clé de citation par ID de paper
+ */
+function assignCitationKeys(papers) {
+  const keys = new Map();
+  const byBaseKey = new Map();
+
+  [...papers]
+    .sort((a, b) => (a.id || 0) - (b.id || 0))
+    .forEach(paper => {
+      const baseKey = generateCitationKey(paper);
+      const group = byBaseKey.get(baseKey) || [];
+      group.push(paper);
+      byBaseKey.set(baseKey, group);
+    });
+
+  byBaseKey.forEach((group, baseKey) => {
+    group.forEach((paper, index) => {
+      keys.set(paper.id, group.length > 1 ? `${baseKey}${String.fromCharCode(97 + (index % 26))}${index >= 26 ? Math.floor(index / 26) : ''}` : baseKey);
+    });
+  });
+
+  return keys;
+}
+
+/**
+ * Sérialiser un paper en entrée BibTeX
+ * @param {Object} paper - PaperData (avec categories et description optionnelles)
+ * @param {string} citationKey
+ * @returns {string}
+ */
+function paperToBibtex(paper, citationKey) {
+  const container = paper.conference || '';
+  const itemType = inferItemType(paper);
+  // Un article sans revue reste une entrée @misc (@article exige le champ journal)
+  const entryType = !container && ['journal_article', 'conference_paper'].includes(itemType)
+    ? 'misc'
+    : formatItemType(paper, 'bibtex');
+
+  const dateMatch = String(paper.publication_date || '').match(/^(\d{4})(?:-(\d{2}))?/);
+  const fields = [];
+
+  // Les doubles accolades conservent la casse du titre
+  fields.push(['title', `{${escapeBibtex(paper.title)}}`]);
+  const authors = splitAuthors(paper.authors);
+  if (authors.length > 0) {
+    fields.push(['author', authors.map(bibtexAuthorName).join(' and ')]);
+  }
+
+  if (container) {
+    fields.push([CONTAINER_FIELDS[entryType] || 'series', escapeBibtex(container)]);
+  }
+  if (paper.publisher) {
+    const publisherField = { phdthesis: 'school', techreport: 'institution' }[entryType] || 'publisher';
+    fields.push([publisherField, escapeBibtex(paper.publisher)]);
+  }
+  if (dateMatch) {
+    fields.push(['year', dateMatch[1]]);
+    if (dateMatch[2]) {
+      fields.push(['month', MONTH_MACROS[parseInt(dateMatch[2], 10) - 1] || dateMatch[2]]);
+    }
+  }
+  // DOI et URL sont lus en verbatim par biblatex : pas d'échappement
+  if (paper.doi) {
+    fields.push(['doi', normalizeDoi(paper.doi).replace(/[{}]/g, '')]);
+  }
+  if (paper.arxiv_id) {
+    fields.push(['eprint', String(paper.arxiv_id).replace(/[{}]/g, '')]);
+    fields.push(['archiveprefix', 'arXiv']);
+  }
+  if (paper.isbn) {
+    fields.push(['isbn', escapeBibtex(paper.isbn)]);
+  }
+  if (paper.url) {
+    fields.push(['url', String(paper.url).replace(/[{}]/g, '')]);
+  }
+  const keywords = paperKeywords(paper);
+  if (keywords.length > 0) {
+    fields.push(['keywords', escapeBibtex(keywords.join(', '))]);
+  }
+  if (paper.abstract || paper.description) {
+    fields.push(['abstract', escapeBibtex(paper.abstract || paper.description)]);
+  }
+
+  const body = fields
+    .map(([name, value]) => (name === 'month' ? `  ${name} = ${value}` : `  ${name} = {${value}}`))
+    .join(',\n');
+
+  return `@${entryType}{${citationKey},\n${body}\n}`;
+}
+
+/**
+ * Sérialiser une liste de papers en fichier BibTeX
+ * @param {Array} papers - Liste de PaperData
+ * @returns {string}
+ */
+function exportBibtex(papers) {
+  const keys = assignCitationKeys(papers);
+
+  return [...papers]
+    .sort((a, b) => (a.id || 0) - (b.id || 0))
+    .map(paper => paperToBibtex(paper, keys.get(paper.id)))
+    .join('\n\n') + '\n';
+}
+
+// ================================
+// IMPORT
+// ================================
+
+/**
+ * Lire une valeur délimitée par des accolades équilibrées
+ * @returns {{ value: string, end: number }}
+ */
+function readBracedValue(text, start) {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (char === '{') depth++;
+    else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return { value: text.slice(start + 1, i), end: i + 1 };
+      }
+    }
+  }
+  throw new Error('Accolade fermante manquante');
+}
+
+/**
+ * Lire une valeur entre guillemets (les accolades peuvent contenir des guillemets)
+ * @returns {{ value: string, end: number }}
+ */
+function readQuotedValue(text, start) {
+  let depth = 0;
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (char === '{') depth++;
+    else if (char === '}') depth--;
+    else if (char === '"' && depth === 0) {
+      return { value: text.slice(start + 1, i), end: i + 1 };
+    }
+  }
+  throw new Error('Guillemet fermant manquant');
+}
+
+/**
+ * Lire une valeur de champ, avec concaténation (#) et macros @string
+ * @returns {{ value: string, end: number }}
+ */
+function readFieldValue(text, start, strings) {
+  const parts = [];
+  let i = start;
+
+  while (i < text.length) {
+    while (/\s/.test(text[i])) i++;
+
+    let part;
+    if (text[i] === '{') {
+      part = readBracedValue(text, i);
+    } else if (text[i] === '"') {
+      part = readQuotedValue(text, i);
+    } else {
+      const match = /^[^\s,#}]+/.exec(text.slice(i));
+      if (!match) throw new Error('Valeur de champ invalide');
+      const token = match[0];
+      const macro = strings[token.toLowerCase()];
+      part = { value: macro !== undefined ? macro : token, end: i + token.length };
+    }
+
+    parts.push(part.value);
+    i = part.end;
+    while (/\s/.test(text[i])) i++;
+
+    if (text[i] === '#') {
+      i++;
+      continue;
+    }
+    break;
+  }
+
+  return { value: parts.join(''), end: i };
+}
+
+/**
+ * Lire le corps d'une entrée (clé puis champs)
+ * @returns {{ citationKey: string, fields: Object }}
+ */
+function parseEntryBody(body, strings) {
+  const commaIndex = body.indexOf(',');
+  const citationKey = (commaIndex === -1 ? body : body.slice(0, commaIndex)).trim();
+  const fields = {};
+
+  let i = commaIndex === -1 ? body.length : commaIndex + 1;
+  while (i < body.length) {
+    const match = /^\s*([A-Za-z][\w:.-]*)\s*=\s*/.exec(body.slice(i));
+    if (!match) break;
+
+    const name = match[1].toLowerCase();
+    const { value, end } = readFieldValue(body, i + match[0].length, strings);
+    fields[name] = value;
+
+    i = end;
+    while (i < body.length && /[\s,]/.test(body[i])) i++;
+  }
+
+  return { citationKey, fields };
+}
+
+/**
+ * Analyser un fichier BibTeX
+ * Les entrées mal formées sont retournées avec une erreur au lieu d'interrompre l'analyse
+ * @param {string} content - Contenu du fichier .bib
+ * @returns {Array<{ type: string, citationKey: string, fields: Object, error?: string }>}
+ */
+function parseBibtex(content) {
+  const text = String(content || '');
+  const entries = [];
+  const strings = Object.fromEntries(MONTH_MACROS.map(month => [month, String(BIBTEX_MONTHS[month])]));
+
+  let i = 0;
+  while ((i = text.indexOf('@', i)) !== -1) {
+    const header = /^@\s*([A-Za-z]+)\s*([{(])/.exec(text.slice(i));
+    if (!header) {
+      i++;
+      continue;
+    }
+
+    const type = header[1].toLowerCase();
+    const open = i + header[0].length - 1;
+
+    let block;
+    try {
+      if (header[2] === '{') {
+        block = readBracedValue(text, open);
+      } else {
+        const close = text.indexOf(')', open);
+        if (close === -1) throw new Error('Parenthèse fermante manquante');
+        block = { value: text.slice(open + 1, close), end: close + 1 };
+      }
+    } catch (error) {
+      entries.push({ type, citationKey: '', fields: {}, error: error.message });
+      break;
+    }
+
+    i = block.end;
+
+    if (type === 'comment' || type === 'preamble') {
+      continue;
+    }
+
+    try {
+      if (type === 'string') {
+        const match = /^\s*([A-Za-z][\w-]*)\s*=\s*/.exec(block.value);
+        if (match) {
+          strings[match[1].toLowerCase()] = readFieldValue(block.value, match[0].length, strings).value;
+        }
+        continue;
+      }
+
+      const { citationKey, fields } = parseEntryBody(block.value, strings);
+      entries.push({ type, citationKey, fields });
+    } catch (error) {
+      entries.push({ type, citationKey: '', fields: {}, error: error.message });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Convertir la liste d'auteurs BibTeX ("Nom, Prénom and Prénom Nom") au format stocké
+ * @param {string} authorField
+ * @returns {string}
+ */
+function bibtexAuthorsToString(authorField) {
+  return parseAuthorList(latexToText(authorField))
+    .map(authorDisplayName)
+    .filter(author => author && author.toLowerCase() !== 'others')
+    .join(', ');
+}
+
+/**
+ * Construire la date de publication (YYYY-MM-DD) à partir des champs BibTeX
+ * @param {Object} fields
+ * @returns {string}
+ */
+function bibtexDate(fields) {
+  if (fields.date && /^\d{4}-\d{2}-\d{2}$/.test(fields.date.trim())) {
+    return fields.date.trim();
+  }
+
+  const rawMonth = String(fields.month || '').trim().toLowerCase();
+  const month = parseInt(rawMonth, 10) || BIBTEX_MONTHS[rawMonth.slice(0, 3)];
+
+  return buildDate(fields.year || fields.date, month, fields.day);
+}
+
+/**
+ * Convertir une entrée BibTeX analysée en données de paper
+ * @param {Object} entry - Entrée retournée par parseBibtex
+ * @returns {{ paper: Object, keywords: Array<string>, abstract: string, notes: string, mapping: Array, ignored: Array<string> }}
+ */
+function bibtexEntryToPaper(entry) {
+  const { fields } = entry;
+  const doi = normalizeDoi(latexToText(fields.doi));
+  const presentFields = Object.keys(fields).filter(name => String(fields[name]).trim());
+  const isArxivEprint = fields.eprint && (!fields.archiveprefix || /arxiv/i.test(fields.archiveprefix));
+  const howPublished = String(fields.howpublished || '').match(/\\url\{([^}]+)\}|^(https?:\/\/\S+)$/);
+  // howpublished porte la revue des entrées @misc quand ce n'est pas une URL
+  const venue = fields.booktitle || fields.journal || fields.series || (howPublished ? '' : fields.howpublished);
+
+  const paper = {
+    title: latexToText(fields.title),
+    authors: bibtexAuthorsToString(fields.author || fields.editor),
+    publication_date: bibtexDate(fields),
+    conference: latexToText(venue) || null,
+    publisher: latexToText(fields.school || fields.institution || fields.organization || fields.publisher) || null,
+    doi: doi || null,
+    arxiv_id: isArxivEprint ? normalizeArxivId(fields.eprint) : null,
+    isbn: latexToText(fields.isbn) || null,
+    url: (fields.url || '').trim() || (howPublished ? howPublished[1] || howPublished[2] : '') || (doi ? `https://doi.org/${doi}` : null),
+    reading_status: 'non_lu'
+  };
+
+  // Une entrée @misc avec un identifiant arXiv est une prépublication
+  paper.item_type = itemTypeFromFormat('bibtex', entry.type) || inferItemType(paper);
+
+  return {
+    paper,
+    keywords: String(fields.keywords || '')
+      .split(/[,;]/)
+      .map(keyword => latexToText(keyword))
+      .filter(Boolean),
+    abstract: latexToText(fields.abstract),
+    notes: [fields.note, fields.annote].map(value => latexToText(value)).filter(Boolean).join('\n\n'),
+    ...buildMappingReport(presentFields, BIBTEX_FIELD_MAP)
+  };
+}
+
+module.exports = {
+  generateCitationKey,
+  assignCitationKeys,
+  paperToBibtex,
+  exportBibtex,
+  parseBibtex,
+  bibtexEntryToPaper,
+  latexToText
+};
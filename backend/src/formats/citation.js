@@ -0,0 +1,362 @@
+// backend/src/formats/citation.js - Références formatées selon les styles CSL (APA, IEEE, ACM, Vancouver)
+const { paperToCsl } = require('./csljson');
+
+// ================================
+// UTILITAIRES
+// ================================
+
+/**
+ * Échapper une chaîne pour l'insérer dans du HTML
+ * @param {string} text
+ * @returns {string}
+ */
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Segment en italique (titre de revue ou d'actes)
+ * @param {string} text
+ * @returns {{ italic: string }}
+ */
+function italic(text) {
+  return { italic: text };
+}
+
+/**
+ * Assembler les segments d'une référence en texte brut et en HTML
+ * @param {Array<string|{ italic: string }>} parts
+ * @returns {{ text: string, html: string }}
+ */
+function renderParts(parts) {
+  const segments = parts.filter(part => part && (typeof part === 'string' || part.italic));
+
+  return {
+    text: segments.map(part => (typeof part === 'string' ? part : part.italic)).join('').trim(),
+    html: segments.map(part => (typeof part === 'string' ? escapeHtml(part) : `<i>${escapeHtml(part.italic)}</i>`)).join('').trim()
+  };
+}
+
+/**
+ * Terminer une phrase par un point sauf si elle a déjà une ponctuation finale
+ * @param {string} text
+ * @returns {string}
+ */
+function endWithPeriod(text) {
+  return /[.?!]$/.test(text) ? text : `${text}.`;
+}
+
+/**
+ * Initiales d'un prénom ("Chang-Min" → "C.-M." ou "CM")
+ * @param {string} given
+ * @param {boolean} withPeriods - Initiales pointées (APA, IEEE) ou collées (Vancouver)
+ * @returns {string}
+ */
+function initials(given, withPeriods = true) {
+  return String(given || '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word
+      .split('-')
+      .filter(Boolean)
+      .map(part => (withPeriods ? `${part[0].toUpperCase()}.` : part[0].toUpperCase()))
+      .join(withPeriods ? '-' : ''))
+    .join(withPeriods ? ' ' : '');
+}
+
+/**
+ * Joindre une liste de noms : "A", "A and B", "A, B, and C"
+ * @param {Array<string>} names
+ * @returns {string}
+ */
+function joinNames(names) {
+  if (names.length <= 1) return names.join('');
+  if (names.length === 2) return `${names[0]} and ${names[1]}`;
+  return `${names.slice(0, -1).join(', ')}, and ${names[names.length - 1]}`;
+}
+
+/**
+ * Année de publication d'un élément CSL
+ * @param {Object} item
+ * @returns {string}
+ */
+function itemYear(item) {
+  return item.issued ? String(item.issued['date-parts'][0][0]) : '';
+}
+
+/**
+ * Lien DOI complet (ou URL à défaut)
+ * @param {Object} item
+ * @returns {string}
+ */
+function itemLink(item) {
+  return item.DOI ? `https://doi.org/${item.DOI}` : item.URL || '';
+}
+
+/**
+ * Indiquer si l'élément est publié dans un recueil (actes de conférence ou ouvrage collectif)
+ * @param {Object} item
+ * @returns {boolean}
+ */
+function isContainedIn(item) {
+  return item.type === 'paper-conference' || item.type === 'chapter';
+}
+
+/**
+ * Éditeur ou établissement (thèse, rapport, ouvrage), à défaut serveur de prépublication
+ * @param {Object} item
+ * @returns {string}
+ */
+function itemPublisher(item) {
+  return item.publisher || (/^arxiv:/i.test(item.number || '') ? 'arXiv' : '');
+}
+
+// ================================
+// STYLES
+// ================================
+
+/**
+ * APA 7e édition : Kim, C.-M., & Nam, T.-J. (2025). Titre. In Actes. https://doi.org/...
+ */
+function renderApa(item) {
+  const names = (item.author || []).map(author => (author.literal || `${author.family}, ${initials(author.given)}`));
+  const authors = names.length > 20
+    ? `${names.slice(0, 19).join(', ')}, . . . ${names[names.length - 1]}`
+    : names.length > 1
+      ? `${names.slice(0, -1).join(', ')}, & ${names[names.length - 1]}`
+      : names.join('');
+  const container = item['container-title'];
+  const publisher = itemPublisher(item);
+
+  // Sans conteneur, c'est le titre qui est en italique
+  const titleParts = container
+    ? [`${endWithPeriod(item.title)} `, isContainedIn(item) ? 'In ' : '', italic(container), '. ']
+    : [italic(item.title), /[.?!]$/.test(item.title) ? ' ' : '. '];
+
+  return renderParts([
+    authors ? `${endWithPeriod(authors)} ` : '',
+    `(${itemYear(item) || 'n.d.'}). `,
+    ...titleParts,
+    publisher ? `${endWithPeriod(publisher)} ` : '',
+    itemLink(item)
+  ]);
+}
+
+/**
+ * IEEE : [1] C.-M. Kim and T.-J. Nam, "Titre," in Actes, 2025, doi: 10.1145/...
+ */
+function renderIeee(item, number) {
+  const names = (item.author || []).map(author => (author.literal || `${initials(author.given)} ${author.family}`.trim()));
+  const authors = names.length > 6 ? `${names[0]} et al.` : joinNames(names);
+  const container = item['container-title'];
+  const year = itemYear(item);
+
+  const publisher = itemPublisher(item);
+
+  const segments = [];
+  if (container) segments.push(isContainedIn(item) ? ['in ', italic(container)] : [italic(container)]);
+  if (publisher) segments.push([publisher]);
+  if (year) segments.push([year]);
+  if (item.DOI) segments.push([`doi: ${item.DOI}`]);
+
+  return renderParts([
+    `[${number}] `,
+    authors ? `${authors}, ` : '',
+    // La virgule finale du titre est omise après un point d'interrogation ou d'exclamation
+    segments.length > 0
+      ? `“${item.title}${/[?!]$/.test(item.title) ? '' : ','}” `
+      : `“${endWithPeriod(item.title)}”`,
+    ...segments.flatMap((segment, index) => (index > 0 ? [', ', ...segment] : segment)),
+    segments.length > 0 ? '.' : '',
+    !item.DOI && item.URL ? ` [Online]. Available: ${item.URL}` : ''
+  ]);
+}
+
+/**
+ * ACM (acm-sig-proceedings) : Chang-Min Kim and Tek-Jin Nam. 2025. Titre. In Actes. https://doi.org/...
+ */
+function renderAcm(item) {
+  const names = (item.author || []).map(author => (author.literal || `${author.given || ''} ${author.family}`.trim()));
+  const container = item['container-title'];
+  const year = itemYear(item);
+  const isConference = isContainedIn(item);
+  const publisher = itemPublisher(item);
+
+  return renderParts([
+    names.length > 0 ? `${endWithPeriod(joinNames(names))} ` : '',
+    year ? `${year}. ` : '',
+    `${endWithPeriod(item.title)} `,
+    container && isConference ? 'In ' : '',
+    container ? italic(container) : '',
+    container && !isConference && year ? ` (${year})` : '',
+    container ? '. ' : '',
+    publisher ? `${endWithPeriod(publisher)} ` : '',
+    itemLink(item)
+  ]);
+}
+
+/**
+ * Vancouver : 1. Kim CM, Nam TJ. Titre. In: Actes; 2025. doi:10.1145/...
+ */
+function renderVancouver(item, number) {
+  const names = (item.author || []).map(author => (author.literal || `${author.family} ${initials(author.given, false)}`.trim()));
+  const authors = names.length > 6 ? `${names.slice(0, 6).join(', ')}, et al` : names.join(', ');
+  const container = item['container-title'];
+  const year = itemYear(item);
+
+  const publisher = itemPublisher(item);
+
+  let source = year ? `${year}. ` : '';
+  if (container && isContainedIn(item)) {
+    source = `In: ${container}${year ? `; ${year}` : ''}. `;
+  } else if (container) {
+    source = `${endWithPeriod(container)} ${source}`;
+  } else if (publisher) {
+    source = `${publisher}${year ? `; ${year}` : ''}. `;
+  }
+
+  return renderParts([
+    `${number}. `,
+    authors ? `${endWithPeriod(authors)} ` : '',
+    `${endWithPeriod(item.title)} `,
+    source,
+    item.DOI ? `doi:${item.DOI}` : (item.URL ? `Available from: ${item.URL}` : '')
+  ]);
+}
+
+/**
+ * Clé de tri auteur-date (premier auteur, année, titre)
+ * @param {Object} item
+ * @returns {string}
+ */
+function authorDateSortKey(item) {
+  const [firstAuthor] = item.author || [];
+  const name = firstAuthor ? (firstAuthor.family || firstAuthor.literal || '') : '';
+  return `${name} ${itemYear(item)} ${item.title}`.toLowerCase();
+}
+
+/**
+ * Styles disponibles
+ * - numbered : références numérotées dans l'ordre de la liste (sinon triées par auteur et année)
+ * - render(item, number) : { text, html } pour un élément CSL
+ */
+const CITATION_STYLES = {
+  apa: { label: 'APA 7', cslId: 'apa', numbered: false, render: renderApa },
+  ieee: { label: 'IEEE', cslId: 'ieee', numbered: true, render: renderIeee },
+  acm: { label: 'ACM', cslId: 'acm-sig-proceedings', numbered: false, render: renderAcm },
+  vancouver: { label: 'Vancouver', cslId: 'vancouver', numbered: true, render: renderVancouver }
+};
+
+// ================================
+// RENDU
+// ================================
+
+/**
+ * Récupérer un style par son nom
+ * @param {string} name - Nom du style (apa, ieee, acm, vancouver)
+ * @returns {Object|null}
+ */
+function getCitationStyle(name) {
+  return CITATION_STYLES[String(name || '').toLowerCase()] || null;
+}
+
+/**
+ * Convertir un paper en élément CSL (l'ID du paper sert d'identifiant)
+ * @param {Object} paper - PaperData
+ * @returns {Object}
+ */
+function paperToCitationItem(paper) {
+  return paperToCsl(paper, String(paper.id || ''));
+}
+
+/**
+ * Formater la référence d'un paper dans un style
+ * @param {Object} paper - PaperData
+ * @param {string} styleName
+ * @returns {{ text: string, html: string }}
+ */
+function formatCitation(paper, styleName) {
+  const style = getCitationStyle(styleName);
+  if (!style) {
+    throw new Error(`Style de citation non supporté: ${styleName}`);
+  }
+
+  return style.render(paperToCitationItem(paper), 1);
+}
+
+/**
+ * Formater la référence d'un paper dans tous les styles
+ * @param {Object} paper - PaperData
+ * @returns {Object} - { apa: { text, html }, ieee: ... }
+ */
+function formatCitations(paper) {
+  return Object.fromEntries(
+    Object.keys(CITATION_STYLES).map(name => [name, formatCitation(paper, name)])
+  );
+}
+
+/**
+ * Formater une bibliographie (ordre de la liste pour les styles numérotés, auteur-date sinon)
+ * @param {Array} papers - Liste de PaperData
+ * @param {string} styleName
+ * @returns {Array<{ text: string, html: string }>}
+ */
+function formatBibliography(papers, styleName) {
+  const style = getCitationStyle(styleName);
+  if (!style) {
+    throw new Error(`Style de citation non supporté: ${styleName}`);
+  }
+
+  const items = papers.map(paper => paperToCitationItem(paper));
+  if (!style.numbered) {
+    items.sort((a, b) => authorDateSortKey(a).localeCompare(authorDateSortKey(b)));
+  }
+
+  return items.map((item, index) => style.render(item, index + 1));
+}
+
+/**
+ * Générer le fichier de bibliographie (texte brut ou page HTML)
+ * @param {Array} papers - Liste de PaperData
+ * @param {string} styleName
+ * @param {string} output - 'text' ou 'html'
+ * @returns {string}
+ */
+function exportBibliography(papers, styleName, output = 'text') {
+  const entries = formatBibliography(papers, styleName);
+
+  if (output !== 'html') {
+    return entries.map(entry => entry.text).join('\n\n') + '\n';
+  }
+
+  const { label } = getCitationStyle(styleName);
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="fr">',
+    '<head>',
+    '  <meta charset="utf-8">',
+    `  <title>Bibliographie (${escapeHtml(label)})</title>`,
+    '  <style>.csl-entry { margin: 0 0 0.75em 2em; text-indent: -2em; font-family: serif; }</style>',
+    '</head>',
+    '<body>',
+    '  <div class="csl-bib-body">',
+    ...entries.map(entry => `    <div class="csl-entry">${entry.html}</div>`),
+    '  </div>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+module.exports = {
+  CITATION_STYLES,
+  getCitationStyle,
+  formatCitation,
+  formatCitations,
+  formatBibliography,
+  exportBibliography
+};
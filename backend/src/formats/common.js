@@ -0,0 +1,476 @@
+// backend/src/formats/common.js - Utilitaires partagés par les formats bibliographiques
+
+// Indices d'un titre de conférence (sinon le conteneur est traité comme une revue)
+const PROCEEDINGS_PATTERN = /proceedings|conference|symposium|workshop|companion|extended abstracts|\bconf\b/i;
+
+// DOI attribués par arXiv (10.48550/arXiv.2101.00001)
+const ARXIV_DOI_PATTERN = /^10\.48550\/arxiv\.(.+)$/i;
+
+// Identifiant dans une URL arXiv (abs/2101.00001v2, pdf/2101.00001.pdf)
+const ARXIV_URL_PATTERN = /arxiv\.org\/(?:abs|pdf)\/([^?#\s]+?)(?:\.pdf)?(?:[?#]|$)/i;
+
+// Entités décodées dans les textes XML (flux Atom, résumés JATS)
+const XML_ENTITIES = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' '
+};
+
+// Type de document de chaque format bibliographique (export)
+const ITEM_TYPE_FORMATS = {
+  journal_article: { bibtex: 'article', ris: 'JOUR', csl: 'article-journal' },
+  conference_paper: { bibtex: 'inproceedings', ris: 'CONF', csl: 'paper-conference' },
+  preprint: { bibtex: 'misc', ris: 'UNPB', csl: 'article' },
+  thesis: { bibtex: 'phdthesis', ris: 'THES', csl: 'thesis' },
+  report: { bibtex: 'techreport', ris: 'RPRT', csl: 'report' },
+  book_chapter: { bibtex: 'incollection', ris: 'CHAP', csl: 'chapter' },
+  web_page: { bibtex: 'misc', ris: 'ELEC', csl: 'webpage' }
+};
+
+// Types des formats (et de Crossref) reconnus à l'import
+const FORMAT_ITEM_TYPES = {
+  bibtex: {
+    article: 'journal_article',
+    inproceedings: 'conference_paper',
+    conference: 'conference_paper',
+    phdthesis: 'thesis',
+    mastersthesis: 'thesis',
+    thesis: 'thesis',
+    techreport: 'report',
+    report: 'report',
+    incollection: 'book_chapter',
+    inbook: 'book_chapter',
+    online: 'web_page',
+    electronic: 'web_page',
+    www: 'web_page',
+    unpublished: 'preprint'
+  },
+  ris: {
+    JOUR: 'journal_article',
+    JFULL: 'journal_article',
+    EJOUR: 'journal_article',
+    CONF: 'conference_paper',
+    CPAPER: 'conference_paper',
+    THES: 'thesis',
+    RPRT: 'report',
+    CHAP: 'book_chapter',
+    ELEC: 'web_page',
+    WEB: 'web_page',
+    UNPB: 'preprint'
+  },
+  csl: {
+    'article-journal': 'journal_article',
+    'paper-conference': 'conference_paper',
+    article: 'preprint',
+    thesis: 'thesis',
+    report: 'report',
+    chapter: 'book_chapter',
+    webpage: 'web_page',
+    'post-weblog': 'web_page'
+  },
+  crossref: {
+    'journal-article': 'journal_article',
+    'proceedings-article': 'conference_paper',
+    'posted-content': 'preprint',
+    dissertation: 'thesis',
+    report: 'report',
+    'book-chapter': 'book_chapter'
+  },
+  // resourceTypeGeneral de DataCite (comparé en minuscules)
+  datacite: {
+    journalarticle: 'journal_article',
+    conferencepaper: 'conference_paper',
+    preprint: 'preprint',
+    dissertation: 'thesis',
+    report: 'report',
+    bookchapter: 'book_chapter'
+  },
+  openalex: {
+    preprint: 'preprint',
+    dissertation: 'thesis',
+    report: 'report',
+    'book-chapter': 'book_chapter'
+  },
+  // publicationTypes de Semantic Scholar (comparé en minuscules)
+  semanticscholar: {
+    journalarticle: 'journal_article',
+    conference: 'conference_paper',
+    booksection: 'book_chapter'
+  }
+};
+
+/**
+ * Nettoyer un DOI (préfixes doi: ou https://doi.org/)
+ * @param {string} doi
+ * @returns {string}
+ */
+function normalizeDoi(doi) {
+  return String(doi || '')
+    .trim()
+    .replace(/^https?:\/\/(dx\.)?doi\.org\//i, '')
+    .replace(/^doi:\s*/i, '')
+    .trim();
+}
+
+/**
+ * Nettoyer un identifiant arXiv (préfixe arXiv: ou URL arxiv.org)
+ * @param {string} value
+ * @returns {string}
+ */
+function normalizeArxivId(value) {
+  const text = String(value || '').trim();
+  const urlMatch = text.match(ARXIV_URL_PATTERN);
+
+  return (urlMatch ? urlMatch[1] : text).replace(/^arxiv:\s*/i, '').trim();
+}
+
+/**
+ * Séparer un identifiant arXiv de son numéro de version (1706.03762v5 → 1706.03762 + v5)
+ * @param {string} value
+ * @returns {{ id: string, version: string|null }}
+ */
+function splitArxivVersion(value) {
+  const id = normalizeArxivId(value);
+  const match = id.match(/^(.+?)(v\d+)$/i);
+
+  return match ? { id: match[1], version: match[2].toLowerCase() } : { id, version: null };
+}
+
+/**
+ * Identifiant arXiv déduit d'un DOI arXiv ou d'une URL arxiv.org
+ * @param {string} doi
+ * @param {string} url
+ * @returns {string} - Identifiant (avec sa version éventuelle) ou chaîne vide
+ */
+function extractArxivId(doi, url) {
+  const doiMatch = normalizeDoi(doi).match(ARXIV_DOI_PATTERN);
+  const urlMatch = String(url || '').match(ARXIV_URL_PATTERN);
+
+  return doiMatch ? doiMatch[1] : urlMatch ? urlMatch[1] : '';
+}
+
+/**
+ * Découper la chaîne d'auteurs stockée ("Prénom Nom, Prénom Nom")
+ * @param {string} authors
+ * @returns {Array<{ given: string, family: string }>}
+ */
+function splitAuthors(authors) {
+  return String(authors || '')
+    .split(',')
+    .map(author => author.trim())
+    .filter(Boolean)
+    .map(splitAuthorName);
+}
+
+/**
+ * Découper un nom "Prénom Nom" (le dernier mot est le nom de famille)
+ * Les particules en minuscules qui le précèdent ("van der Berg", "de la Fontaine") en font partie
+ * @param {string} name
+ * @returns {{ given: string, family: string }}
+ */
+function splitAuthorName(name) {
+  const parts = String(name || '').trim().split(/\s+/).filter(Boolean);
+  let start = Math.max(parts.length - 1, 0);
+
+  while (start > 1 && /^\p{Ll}/u.test(parts[start - 1])) {
+    start--;
+  }
+
+  return { given: parts.slice(0, start).join(' '), family: parts.slice(start).join(' ') };
+}
+
+/**
+ * Découper une liste d'auteurs saisie librement (champ author BibTeX, ancienne chaîne d'auteurs)
+ * " and " et ";" séparent les auteurs en priorité ; dans une liste séparée par des virgules,
+ * les couples "Nom, Prénom" ("Lovelace, Ada, Berg, J.") restent un seul auteur
+ * @param {string} value
+ * @returns {Array<{ given: string, family: string }>}
+ */
+function parseAuthorList(value) {
+  const text = String(value || '').replace(/\s+/g, ' ').trim();
+  if (!text) return [];
+
+  const fromFamilyFirst = (name) => {
+    const [family, ...given] = name.split(',').map(part => part.trim());
+    return given.length > 0 && given.join(' ')
+      ? { given: given.join(' '), family }
+      : splitAuthorName(family);
+  };
+
+  if (/\s+and\s+|;/i.test(text)) {
+    return text
+      .split(/\s+and\s+|;/i)
+      .map(name => name.trim())
+      .filter(Boolean)
+      .map(fromFamilyFirst);
+  }
+
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+  // Un nom de famille d'un seul mot, éventuellement précédé de particules ("van der Berg")
+  const isFamilyName = (part) => /^(?:\p{Ll}+\s+)*[^\s]+$/u.test(part);
+  const isFamilyFirst = parts.length % 2 === 0 && parts.every((part, index) => index % 2 === 1 || isFamilyName(part));
+
+  if (isFamilyFirst) {
+    const authors = [];
+    for (let i = 0; i < parts.length; i += 2) {
+      authors.push({ given: parts[i + 1], family: parts[i] });
+    }
+    return authors;
+  }
+
+  return parts.map(splitAuthorName);
+}
+
+/**
+ * Nom affiché d'un auteur ("Prénom Nom")
+ * @param {{ given: string, family: string }} author
+ * @returns {string}
+ */
+function authorDisplayName(author) {
+  return [author.given, author.family].map(part => String(part || '').trim()).filter(Boolean).join(' ');
+}
+
+/**
+ * Clé de comparaison d'un nom d'auteur (casse, accents et ponctuation ignorés)
+ * @param {Object|string} author - { given, family } ou nom affiché
+ * @returns {string}
+ */
+function authorNameKey(author) {
+  const name = typeof author === 'string' ? author : authorDisplayName(author);
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Normaliser un ORCID (URL ou identifiant nu) en "0000-0002-1825-0097"
+ * @param {string} value
+ * @returns {string} - Chaîne vide si la valeur n'est pas un ORCID
+ */
+function normalizeOrcid(value) {
+  const match = String(value || '').match(/(\d{4})-?(\d{4})-?(\d{4})-?(\d{3}[\dX])\b/i);
+  return match ? `${match[1]}-${match[2]}-${match[3]}-${match[4].toUpperCase()}` : '';
+}
+
+/**
+ * Indiquer si un conteneur (conférence ou revue) est un recueil d'actes
+ * @param {string} container
+ * @returns {boolean}
+ */
+function isProceedings(container) {
+  return PROCEEDINGS_PATTERN.test(String(container || ''));
+}
+
+/**
+ * Type de document d'un paper : type enregistré, sinon déduit des identifiants et du conteneur
+ * @param {Object} paper
+ * @returns {string}
+ */
+function inferItemType(paper) {
+  if (paper.item_type && ITEM_TYPE_FORMATS[paper.item_type]) {
+    return paper.item_type;
+  }
+  if (paper.arxiv_id || extractArxivId(paper.doi, paper.url)) {
+    return 'preprint';
+  }
+  // Ni conteneur ni DOI : une simple adresse désigne une page web
+  if (!paper.conference && !paper.doi && paper.url) {
+    return 'web_page';
+  }
+  return isProceedings(paper.conference) ? 'conference_paper' : 'journal_article';
+}
+
+/**
+ * Type de document correspondant au type d'une entrée importée
+ * @param {string} format - bibtex, ris, csl, crossref, datacite, openalex ou semanticscholar
+ * @param {string} type - Type de l'entrée dans ce format
+ * @returns {string|null} - null si le type n'est pas reconnu
+ */
+function itemTypeFromFormat(format, type) {
+  const types = FORMAT_ITEM_TYPES[format] || {};
+  const key = format === 'ris' ? String(type || '').toUpperCase() : String(type || '').toLowerCase();
+  return types[key] || null;
+}
+
+/**
+ * Type à écrire dans un format d'export
+ * @param {Object} paper
+ * @param {string} format - bibtex, ris ou csl
+ * @returns {string}
+ */
+function formatItemType(paper, format) {
+  return ITEM_TYPE_FORMATS[inferItemType(paper)][format];
+}
+
+/**
+ * Convertir un nom "Nom, Prénom" en "Prénom Nom"
+ * @param {string} name
+ * @returns {string}
+ */
+function invertAuthorName(name) {
+  const [family, given] = String(name || '').split(',').map(part => part.trim());
+  return given ? `${given} ${family}` : family || '';
+}
+
+/**
+ * Découper une liste de mots-clés séparés par des virgules ou des points-virgules
+ * @param {string} value
+ * @returns {Array<string>}
+ */
+function splitKeywords(value) {
+  return String(value || '')
+    .split(/[,;]/)
+    .map(keyword => keyword.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Joindre des mots-clés en une chaîne "a, b, c" (doublons retirés, casse ignorée)
+ * @param {Array<string>|string} keywords - Liste ou chaîne séparée par des virgules
+ * @returns {string}
+ */
+function joinKeywords(keywords) {
+  const seen = new Set();
+
+  return (Array.isArray(keywords) ? keywords : [keywords])
+    .flatMap(keyword => splitKeywords(keyword))
+    .filter(keyword => {
+      const key = keyword.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .join(', ');
+}
+
+/**
+ * Mots-clés d'un paper pour l'export (mots-clés enregistrés puis noms des catégories)
+ * @param {Object} paper - PaperData (avec categories optionnelles)
+ * @returns {Array<string>}
+ */
+function paperKeywords(paper) {
+  return splitKeywords(joinKeywords([
+    paper.keywords || '',
+    ...(paper.categories || []).map(category => category.name)
+  ]));
+}
+
+/**
+ * Décoder les entités XML / HTML courantes
+ * @param {string} text
+ * @returns {string}
+ */
+function decodeXmlEntities(text) {
+  return String(text || '')
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&(amp|lt|gt|quot|apos|nbsp);/g, (_, name) => XML_ENTITIES[name]);
+}
+
+/**
+ * Convertir un résumé balisé (JATS de Crossref, HTML) en texte brut
+ * Les paragraphes sont séparés par une ligne vide, l'intitulé "Abstract" est retiré
+ * @param {string} text
+ * @returns {string}
+ */
+function cleanAbstract(text) {
+  return decodeXmlEntities(
+    String(text || '')
+      .replace(/<(jats:)?title[^>]*>[\s\S]*?<\/(jats:)?title>/gi, '')
+      .replace(/<\/(jats:)?(p|sec)>|<br\s*\/?>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n')
+    .replace(/^abstract\s*[:.]?\s*/i, '');
+}
+
+/**
+ * Construire une date de publication YYYY-MM-DD (mois et jour par défaut à 01)
+ * @param {string|number} year
+ * @param {string|number} month
+ * @param {string|number} day
+ * @returns {string} - Date ou chaîne vide si l'année est absente
+ */
+function buildDate(year, month, day) {
+  const yearMatch = String(year || '').match(/\d{4}/);
+  if (!yearMatch) {
+    return '';
+  }
+
+  const pad = (value) => String(Math.min(Math.max(parseInt(value, 10) || 1, 1), 31)).padStart(2, '0');
+  return `${yearMatch[0]}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Découper une date stockée (YYYY-MM-DD) en parties numériques
+ * @param {string} date
+ * @returns {Array<number>} - [année, mois?, jour?] ou tableau vide
+ */
+function dateParts(date) {
+  const match = String(date || '').match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+  return match ? match.slice(1).filter(Boolean).map(part => parseInt(part, 10)) : [];
+}
+
+/**
+ * Rendre compte de la correspondance entre les champs du fichier et ceux de FormPaper
+ * @param {Array<string>} presentFields - Champs non vides de l'entrée
+ * @param {Array<{ target: string, sources: Array<string>, combine?: boolean }>} fieldMap
+ *   Champs sources par ordre de priorité ; combine = toutes les sources sont utilisées (ex: date)
+ * @returns {{ mapping: Array<{ source: string, target: string }>, ignored: Array<string> }}
+ */
+function buildMappingReport(presentFields, fieldMap) {
+  const present = new Set(presentFields);
+  const used = new Set();
+  const mapping = [];
+
+  fieldMap.forEach(({ target, sources, combine }) => {
+    const matched = sources.filter(source => present.has(source));
+    const selected = combine ? matched : matched.slice(0, 1);
+
+    if (selected.length > 0) {
+      selected.forEach(source => used.add(source));
+      mapping.push({ source: selected.join(' + '), target });
+    }
+  });
+
+  return {
+    mapping,
+    ignored: presentFields.filter(field => !used.has(field))
+  };
+}
+
+module.exports = {
+  normalizeDoi,
+  normalizeArxivId,
+  splitArxivVersion,
+  extractArxivId,
+  splitAuthors,
+  splitAuthorName,
+  parseAuthorList,
+  authorDisplayName,
+  authorNameKey,
+  normalizeOrcid,
+  isProceedings,
+  inferItemType,
+  itemTypeFromFormat,
+  formatItemType,
+  invertAuthorName,
+  splitKeywords,
+  joinKeywords,
+  paperKeywords,
+  decodeXmlEntities,
+  cleanAbstract,
+  buildDate,
+  dateParts,
+  buildMappingReport
+};
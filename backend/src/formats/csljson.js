@@ -0,0 +1,223 @@
+// backend/src/formats/csljson.js - Sérialisation et analyse du format CSL-JSON (Zotero, Mendeley, citeproc)
+const { assignCitationKeys } = require('./bibtex');
+const {
+  normalizeDoi,
+  normalizeArxivId,
+  extractArxivId,
+  splitAuthors,
+  inferItemType,
+  itemTypeFromFormat,
+  formatItemType,
+  splitKeywords,
+  paperKeywords,
+  cleanAbstract,
+  buildDate,
+  dateParts,
+  buildMappingReport
+} = require('./common');
+
+// Champs CSL lus pour chaque champ de FormPaper, par ordre de priorité
+const CSL_FIELD_MAP = [
+  { target: 'title', sources: ['title'] },
+  { target: 'authors', sources: ['author', 'editor'] },
+  { target: 'publication_date', sources: ['issued', 'published-print', 'published-online', 'event-date'] },
+  { target: 'conference', sources: ['container-title', 'event-title', 'event'] },
+  { target: 'publisher', sources: ['publisher'] },
+  { target: 'doi', sources: ['DOI'] },
+  { target: 'arxiv_id', sources: ['number'] },
+  { target: 'isbn', sources: ['ISBN'] },
+  { target: 'url', sources: ['URL'] },
+  { target: 'keywords', sources: ['keyword'] },
+  { target: 'abstract', sources: ['abstract'] },
+  { target: 'description', sources: ['note'] }
+];
+
+// Champs de structure, jamais reportés comme ignorés
+const CSL_STRUCTURE_FIELDS = ['id', 'type', 'citation-key'];
+
+// ================================
+// EXPORT
+// ================================
+
+/**
+ * Convertir un paper en élément CSL-JSON
+ * @param {Object} paper - PaperData (avec categories et description optionnelles)
+ * @param {string} id - Identifiant de l'élément (clé de citation)
+ * @returns {Object}
+ */
+function paperToCsl(paper, id) {
+  const container = paper.conference || '';
+  const itemType = inferItemType(paper);
+  const item = {
+    id,
+    type: !container && ['journal_article', 'conference_paper'].includes(itemType) ? 'article' : formatItemType(paper, 'csl'),
+    title: paper.title
+  };
+
+  const authors = splitAuthors(paper.authors);
+  if (authors.length > 0) {
+    item.author = authors.map(({ given, family }) => (given ? { family, given } : { literal: family }));
+  }
+
+  const parts = dateParts(paper.publication_date);
+  if (parts.length > 0) {
+    item.issued = { 'date-parts': [parts] };
+  }
+
+  if (container) item['container-title'] = container;
+  if (paper.conference_abbreviation) item['container-title-short'] = paper.conference_abbreviation;
+  if (paper.publisher) item.publisher = paper.publisher;
+  if (paper.doi) item.DOI = normalizeDoi(paper.doi);
+  // Convention Zotero : l'identifiant arXiv d'une prépublication est porté par "number"
+  if (paper.arxiv_id) item.number = `arXiv:${paper.arxiv_id}`;
+  if (paper.isbn) item.ISBN = paper.isbn;
+  if (paper.url) item.URL = paper.url;
+  const keywords = paperKeywords(paper);
+  if (keywords.length > 0) item.keyword = keywords.join(', ');
+  if (paper.abstract || paper.description) item.abstract = paper.abstract || paper.description;
+
+  return item;
+}
+
+/**
+ * Sérialiser une liste de papers en fichier CSL-JSON
+ * @param {Array} papers - Liste de PaperData
+ * @returns {string}
+ */
+function exportCslJson(papers) {
+  const keys = assignCitationKeys(papers);
+
+  const items = [...papers]
+    .sort((a, b) => (a.id || 0) - (b.id || 0))
+    .map(paper => paperToCsl(paper, keys.get(paper.id)));
+
+  return JSON.stringify(items, null, 2) + '\n';
+}
+
+// ================================
+// IMPORT
+// ================================
+
+/**
+ * Analyser un fichier CSL-JSON (tableau d'éléments, élément seul ou { items: [...] })
+ * @param {string} content - Contenu du fichier .json
+ * @returns {Array<{ type: string, citationKey: string, item: Object, error?: string }>}
+ */
+function parseCslJson(content) {
+  let data;
+  try {
+    data = JSON.parse(String(content || '').replace(/^\uFEFF/, ''));
+  } catch (error) {
+    return [{ type: '', citationKey: '', item: {}, error: `JSON invalide: ${error.message}` }];
+  }
+
+  const items = Array.isArray(data) ? data : (data && Array.isArray(data.items) ? data.items : [data]);
+
+  return items.map(item => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return { type: '', citationKey: '', item: {}, error: 'Élément CSL invalide (objet attendu)' };
+    }
+
+    return {
+      type: String(item.type || ''),
+      citationKey: String(item['citation-key'] || item.id || ''),
+      item
+    };
+  });
+}
+
+/**
+ * Lire une valeur texte CSL (certaines sources comme Crossref renvoient des tableaux)
+ * @param {*} value
+ * @returns {string}
+ */
+function cslText(value) {
+  const text = Array.isArray(value) ? value[0] : value;
+  return text === undefined || text === null ? '' : String(text).trim();
+}
+
+/**
+ * Convertir une date CSL ({ date-parts }, { raw } ou { literal }) en YYYY-MM-DD
+ * @param {Object} date
+ * @returns {string}
+ */
+function cslDate(date) {
+  if (!date || typeof date !== 'object') {
+    return '';
+  }
+
+  if (Array.isArray(date['date-parts']) && Array.isArray(date['date-parts'][0])) {
+    const [year, month, day] = date['date-parts'][0];
+    return buildDate(year, month, day);
+  }
+
+  const [year, month, day] = String(date.raw || date.literal || '').split(/[/-]/);
+  return buildDate(year, month, day);
+}
+
+/**
+ * Convertir la liste de noms CSL au format stocké ("Prénom Nom, Prénom Nom")
+ * @param {Array} names
+ * @returns {string}
+ */
+function cslNamesToString(names) {
+  return (Array.isArray(names) ? names : [])
+    .map(name => (name.literal || [name.given, name['non-dropping-particle'], name.family].filter(Boolean).join(' ')).trim())
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Convertir un élément CSL analysé en données de paper
+ * @param {Object} entry - Entrée retournée par parseCslJson
+ * @returns {{ paper: Object, keywords: Array<string>, abstract: string, notes: string, mapping: Array, ignored: Array<string> }}
+ */
+function cslEntryToPaper(entry) {
+  const { item } = entry;
+  const doi = normalizeDoi(cslText(item.DOI));
+  const date = ['issued', 'published-print', 'published-online', 'event-date']
+    .map(field => cslDate(item[field]))
+    .find(Boolean) || '';
+  const eventTitle = item.event && typeof item.event === 'object' ? item.event.name : item.event;
+
+  const presentFields = Object.keys(item).filter(field => {
+    const value = item[field];
+    return !CSL_STRUCTURE_FIELDS.includes(field)
+      && value !== null && value !== undefined && value !== ''
+      && !(Array.isArray(value) && value.length === 0);
+  });
+
+  const url = cslText(item.URL) || (doi ? `https://doi.org/${doi}` : null);
+  const number = cslText(item.number);
+
+  const paper = {
+    title: cslText(item.title),
+    authors: cslNamesToString(item.author && item.author.length > 0 ? item.author : item.editor),
+    publication_date: date,
+    conference: cslText(item['container-title']) || cslText(item['event-title']) || cslText(eventTitle) || null,
+    publisher: cslText(item.publisher) || null,
+    doi: doi || null,
+    arxiv_id: (/^arxiv:/i.test(number) ? normalizeArxivId(number) : extractArxivId(doi, url)) || null,
+    isbn: cslText(item.ISBN) || null,
+    url,
+    reading_status: 'non_lu'
+  };
+  paper.item_type = itemTypeFromFormat('csl', entry.type) || inferItemType(paper);
+
+  return {
+    paper,
+    keywords: (Array.isArray(item.keyword) ? item.keyword : [item.keyword])
+      .flatMap(keyword => splitKeywords(keyword)),
+    // Les résumés Crossref contiennent des balises JATS
+    abstract: cleanAbstract(cslText(item.abstract)),
+    notes: cslText(item.note),
+    ...buildMappingReport(presentFields, CSL_FIELD_MAP)
+  };
+}
+
+module.exports = {
+  paperToCsl,
+  exportCslJson,
+  parseCslJson,
+  cslEntryToPaper
+};
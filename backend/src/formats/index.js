@@ -0,0 +1,84 @@
+// backend/src/formats/index.js - Registre des formats bibliographiques d'import/export
+const { exportBibtex, parseBibtex, bibtexEntryToPaper } = require('./bibtex');
+const { exportRis, parseRis, risEntryToPaper } = require('./ris');
+const { exportCslJson, parseCslJson, cslEntryToPaper } = require('./csljson');
+
+/**
+ * Appliquer la conversion en paper aux entrées analysées sans erreur
+ * @param {Array} parsed - Entrées brutes du parseur
+ * @param {Function} toPaper - Conversion d'une entrée en données de paper
+ * @returns {Array}
+ */
+function convertEntries(parsed, toPaper) {
+  return parsed.map(entry => {
+    const base = { citationKey: entry.citationKey || '', type: entry.type || '' };
+
+    if (entry.error) {
+      return { ...base, error: entry.error };
+    }
+
+    return { ...base, ...toPaper(entry) };
+  });
+}
+
+/**
+ * Formats disponibles
+ * - serialize(papers) : texte du fichier exporté
+ * - parse(content) : entrées { citationKey, type, paper, keywords, abstract, notes, mapping, ignored } ou { error }
+ */
+const FORMATS = {
+  bibtex: {
+    label: 'BibTeX',
+    extension: 'bib',
+    mimeType: 'application/x-bibtex',
+    serialize: exportBibtex,
+    parse: (content) => convertEntries(parseBibtex(content), bibtexEntryToPaper)
+  },
+  ris: {
+    label: 'RIS',
+    extension: 'ris',
+    mimeType: 'application/x-research-info-systems',
+    serialize: exportRis,
+    parse: (content) => convertEntries(
+      parseRis(content).map(entry => ({ ...entry, citationKey: entry.fields.ID ? entry.fields.ID[0] : '' })),
+      risEntryToPaper
+    )
+  },
+  csljson: {
+    label: 'CSL-JSON',
+    extension: 'json',
+    mimeType: 'application/vnd.citationstyles.csl+json',
+    serialize: exportCslJson,
+    parse: (content) => convertEntries(parseCslJson(content), cslEntryToPaper)
+  }
+};
+
+/**
+ * Récupérer un format par son nom
+ * @param {string} name - Nom du format (bibtex, ris, csljson)
+ * @returns {Object|null}
+ */
+function getFormat(name) {
+  return FORMATS[String(name || '').toLowerCase()] || null;
+}
+
+/**
+ * Deviner le format d'un fichier à partir de son contenu
+ * @param {string} content
+ * @returns {string|null} - Nom du format ou null si non reconnu
+ */
+function detectFormat(content) {
+  const text = String(content || '').replace(/^\uFEFF/, '').trimStart();
+
+  if (text.startsWith('[') || text.startsWith('{')) return 'csljson';
+  if (/^TY  - /m.test(text)) return 'ris';
+  if (/@\s*[A-Za-z]+\s*[{(]/.test(text)) return 'bibtex';
+
+  return null;
+}
+
+module.exports = {
+  FORMATS,
+  getFormat,
+  detectFormat
+};
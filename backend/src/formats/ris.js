@@ -0,0 +1,252 @@
+// backend/src/formats/ris.js - Sérialisation et analyse du format RIS (Zotero, Mendeley, EndNote)
+const {
+  normalizeDoi,
+  extractArxivId,
+  splitAuthors,
+  inferItemType,
+  itemTypeFromFormat,
+  formatItemType,
+  invertAuthorName,
+  splitKeywords,
+  paperKeywords,
+  buildDate,
+  dateParts,
+  buildMappingReport
+} = require('./common');
+
+// Ligne RIS : deux caractères de tag, deux espaces, un tiret
+const RIS_LINE_PATTERN = /^([A-Z][A-Z0-9])  -(?: (.*))?$/;
+
+// Tags pouvant apparaître plusieurs fois dans une entrée
+const RIS_REPEATABLE_TAGS = new Set(['AU', 'A1', 'A2', 'A3', 'A4', 'ED', 'KW']);
+
+// Tags RIS lus pour chaque champ de FormPaper, par ordre de priorité
+const RIS_FIELD_MAP = [
+  { target: 'title', sources: ['TI', 'T1', 'CT'] },
+  { target: 'authors', sources: ['AU', 'A1', 'A2', 'ED'] },
+  { target: 'publication_date', sources: ['DA', 'PY', 'Y1'] },
+  { target: 'conference', sources: ['T2', 'JF', 'JO', 'BT', 'T3'] },
+  { target: 'publisher', sources: ['PB'] },
+  { target: 'doi', sources: ['DO'] },
+  { target: 'isbn', sources: ['SN'] },
+  { target: 'url', sources: ['UR'] },
+  { target: 'keywords', sources: ['KW'] },
+  { target: 'abstract', sources: ['AB', 'N2'] },
+  { target: 'description', sources: ['N1'] }
+];
+
+// Tags de structure, jamais reportés comme ignorés
+const RIS_STRUCTURE_TAGS = ['TY', 'ER', 'ID'];
+
+// ================================
+// EXPORT
+// ================================
+
+/**
+ * Formater une ligne RIS
+ * @param {string} tag
+ * @param {string} value
+ * @returns {string}
+ */
+function risLine(tag, value = '') {
+  // Une valeur RIS tient sur une seule ligne
+  return `${tag}  - ${String(value).replace(/\s*\n\s*/g, ' ')}`.trimEnd();
+}
+
+/**
+ * Sérialiser un paper en entrée RIS
+ * @param {Object} paper - PaperData (avec categories et description optionnelles)
+ * @returns {string}
+ */
+function paperToRis(paper) {
+  const container = paper.conference || '';
+  const itemType = inferItemType(paper);
+  const type = !container && ['journal_article', 'conference_paper'].includes(itemType)
+    ? 'GEN'
+    : formatItemType(paper, 'ris');
+  const lines = [risLine('TY', type), risLine('TI', paper.title)];
+
+  splitAuthors(paper.authors).forEach(({ given, family }) => {
+    lines.push(risLine('AU', given ? `${family}, ${given}` : family));
+  });
+
+  const [year, month, day] = dateParts(paper.publication_date);
+  if (year) {
+    lines.push(risLine('PY', year));
+    lines.push(risLine('DA', [year, month, day].map(part => (part ? String(part).padStart(2, '0') : '')).join('/') + '/'));
+  }
+
+  if (container) {
+    lines.push(risLine('T2', container));
+  }
+  if (paper.conference_abbreviation) {
+    lines.push(risLine('J2', paper.conference_abbreviation));
+  }
+  if (paper.publisher) {
+    lines.push(risLine('PB', paper.publisher));
+  }
+  if (paper.doi) {
+    lines.push(risLine('DO', normalizeDoi(paper.doi)));
+  }
+  if (paper.isbn) {
+    lines.push(risLine('SN', paper.isbn));
+  }
+  // RIS n'a pas de tag arXiv : l'identifiant est conservé dans l'URL
+  if (paper.url || paper.arxiv_id) {
+    lines.push(risLine('UR', paper.url || `https://arxiv.org/abs/${paper.arxiv_id}`));
+  }
+  paperKeywords(paper).forEach(keyword => {
+    lines.push(risLine('KW', keyword));
+  });
+  if (paper.abstract || paper.description) {
+    lines.push(risLine('AB', paper.abstract || paper.description));
+  }
+
+  lines.push(risLine('ER'));
+  return lines.join('\r\n');
+}
+
+/**
+ * Sérialiser une liste de papers en fichier RIS
+ * @param {Array} papers - Liste de PaperData
+ * @returns {string}
+ */
+function exportRis(papers) {
+  return [...papers]
+    .sort((a, b) => (a.id || 0) - (b.id || 0))
+    .map(paper => paperToRis(paper))
+    .join('\r\n\r\n') + '\r\n';
+}
+
+// ================================
+// IMPORT
+// ================================
+
+/**
+ * Analyser un fichier RIS
+ * Les lignes sans tag prolongent la valeur précédente (résumés sur plusieurs lignes)
+ * @param {string} content - Contenu du fichier .ris
+ * @returns {Array<{ type: string, fields: Object, error?: string }>}
+ */
+function parseRis(content) {
+  const lines = String(content || '').replace(/^\uFEFF/, '').split(/\r?\n/);
+  const entries = [];
+  let current = null;
+  let lastTag = null;
+
+  lines.forEach((line, lineIndex) => {
+    const match = RIS_LINE_PATTERN.exec(line.trimEnd());
+
+    if (!match) {
+      if (current && lastTag && line.trim()) {
+        const values = current.fields[lastTag];
+        values[values.length - 1] = `${values[values.length - 1]} ${line.trim()}`.trim();
+      }
+      return;
+    }
+
+    const [, tag, rawValue = ''] = match;
+    const value = rawValue.trim();
+
+    if (tag === 'TY') {
+      if (current) {
+        entries.push({ ...current, error: `Entrée sans ER avant la ligne ${lineIndex + 1}` });
+      }
+      current = { type: value.toUpperCase(), fields: {} };
+      lastTag = null;
+      return;
+    }
+
+    if (tag === 'ER') {
+      if (current) {
+        entries.push(current);
+      } else {
+        entries.push({ type: '', fields: {}, error: `ER sans TY à la ligne ${lineIndex + 1}` });
+      }
+      current = null;
+      lastTag = null;
+      return;
+    }
+
+    if (!current) {
+      return;
+    }
+
+    current.fields[tag] = current.fields[tag] || [];
+    if (RIS_REPEATABLE_TAGS.has(tag) || current.fields[tag].length === 0) {
+      current.fields[tag].push(value);
+    }
+    lastTag = tag;
+  });
+
+  if (current) {
+    entries.push({ ...current, error: 'Entrée sans ER en fin de fichier' });
+  }
+
+  return entries;
+}
+
+/**
+ * Construire la date de publication à partir de DA ou PY ("2025/04/26/", "2025///")
+ * @param {Object} fields
+ * @returns {string}
+ */
+function risDate(fields) {
+  const raw = [fields.DA, fields.PY, fields.Y1]
+    .map(values => (values ? values[0] : ''))
+    .find(value => /\d{4}/.test(value || ''));
+
+  if (!raw) {
+    return '';
+  }
+
+  const [year, month, day] = raw.split(/[/-]/);
+  return buildDate(year, month, day);
+}
+
+/**
+ * Convertir une entrée RIS analysée en données de paper
+ * @param {Object} entry - Entrée retournée par parseRis
+ * @returns {{ paper: Object, keywords: Array<string>, abstract: string, notes: string, mapping: Array, ignored: Array<string> }}
+ */
+function risEntryToPaper(entry) {
+  const { fields } = entry;
+  const first = (...tags) => {
+    const tag = tags.find(name => fields[name] && fields[name].some(Boolean));
+    return tag ? fields[tag].filter(Boolean) : [];
+  };
+
+  const doi = normalizeDoi(first('DO')[0]);
+  const presentFields = Object.keys(fields)
+    .filter(tag => !RIS_STRUCTURE_TAGS.includes(tag) && fields[tag].some(Boolean));
+  const url = first('UR')[0] || (doi ? `https://doi.org/${doi}` : null);
+
+  const paper = {
+    title: first('TI', 'T1', 'CT')[0] || '',
+    authors: first('AU', 'A1', 'A2', 'ED').map(author => invertAuthorName(author)).filter(Boolean).join(', '),
+    publication_date: risDate(fields),
+    conference: first('T2', 'JF', 'JO', 'BT', 'T3')[0] || null,
+    publisher: first('PB')[0] || null,
+    doi: doi || null,
+    arxiv_id: extractArxivId(doi, url) || null,
+    isbn: first('SN')[0] || null,
+    url,
+    reading_status: 'non_lu'
+  };
+  paper.item_type = itemTypeFromFormat('ris', entry.type) || inferItemType(paper);
+
+  return {
+    paper,
+    keywords: first('KW').flatMap(keyword => splitKeywords(keyword)),
+    abstract: first('AB', 'N2')[0] || '',
+    notes: first('N1')[0] || '',
+    ...buildMappingReport(presentFields, RIS_FIELD_MAP)
+  };
+}
+
+module.exports = {
+  paperToRis,
+  exportRis,
+  parseRis,
+  risEntryToPaper
+};
@@ -0,0 +1,225 @@
+// backend/src/metadata/arxiv.js - Métadonnées (API Atom) et PDF des prépublications arXiv
+const axios = require('axios');
+const { normalizeArxivId, splitArxivVersion, extractArxivId, normalizeDoi, decodeXmlEntities, joinKeywords } = require('../formats/common');
+const { buildUserAgent } = require('./config');
+
+// Adresses par défaut, surchargeables (ex. serveur de fixtures local)
+const DEFAULT_ARXIV_API_URL = process.env.ARXIV_API_URL || 'https://export.arxiv.org/api/query';
+const DEFAULT_ARXIV_PDF_URL = process.env.ARXIV_PDF_URL || 'https://arxiv.org/pdf';
+
+// Identifiant arXiv : schéma actuel (2101.00001v2) ou ancien schéma (hep-th/9901001v1)
+const ARXIV_ID_PATTERN = /^(?:\d{4}\.\d{4,5}|[a-z][a-z-]*(?:\.[a-z]{2})?\/\d{7})(?:v\d+)?$/i;
+
+// ================================
+// IDENTIFIANTS
+// ================================
+
+/**
+ * Extraire un identifiant arXiv d'une saisie libre
+ * Accepte "2101.00001v2", "arXiv:2101.00001", une URL abs/pdf ou un DOI 10.48550/arXiv.*
+ * @param {string} input
+ * @returns {{ id: string, version: string|null }|null} - null si la saisie n'est pas un identifiant arXiv
+ */
+function parseArxivIdentifier(input) {
+  const text = String(input || '').trim();
+  const candidate = extractArxivId(text, text) || normalizeArxivId(text);
+
+  if (!ARXIV_ID_PATTERN.test(candidate)) {
+    return null;
+  }
+
+  return splitArxivVersion(candidate);
+}
+
+// ================================
+// LECTURE DU FLUX ATOM
+// ================================
+
+/**
+ * Texte du premier élément <tag> (espaces normalisés)
+ * @param {string} xml
+ * @param {string} tag - Nom qualifié (ex. "arxiv:doi")
+ * @returns {string}
+ */
+function elementText(xml, tag) {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXmlEntities(match[1]).replace(/\s+/g, ' ').trim() : '';
+}
+
+/**
+ * Contenu brut de tous les éléments <tag>
+ * @param {string} xml
+ * @param {string} tag
+ * @returns {Array<string>}
+ */
+function elementBlocks(xml, tag) {
+  return Array.from(xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g')), match => match[1]);
+}
+
+/**
+ * Attributs de tous les éléments <tag> (ouvrants ou auto-fermants)
+ * @param {string} xml
+ * @param {string} tag
+ * @returns {Array<Object>}
+ */
+function elementAttributes(xml, tag) {
+  return Array.from(xml.matchAll(new RegExp(`<${tag}\\s([^>]*?)/?>`, 'g')), match => (
+    Object.fromEntries(
+      Array.from(match[1].matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g), ([, name, value]) => [name, decodeXmlEntities(value)])
+    )
+  ));
+}
+
+/**
+ * Lire les entrées d'un flux Atom de l'API arXiv
+ * Une entrée dont l'identifiant pointe vers /api/errors décrit une erreur de requête
+ * @param {string} xml
+ * @returns {Array<Object>} - { arxivId, version, title, summary, authors, published, updated, doi, journalRef, comment, primaryCategory, categories, pdfUrl } ou { error }
+ */
+function parseAtomFeed(xml) {
+  return elementBlocks(String(xml || ''), 'entry').map(entry => {
+    const entryId = elementText(entry, 'id');
+
+    if (/\/api\/errors/.test(entryId)) {
+      return { error: elementText(entry, 'summary') || 'Requête arXiv invalide' };
+    }
+
+    const { id, version } = splitArxivVersion(entryId);
+    const links = elementAttributes(entry, 'link');
+    const pdfLink = links.find(link => link.title === 'pdf' || link.type === 'application/pdf');
+    const primaryCategory = elementAttributes(entry, 'arxiv:primary_category')[0];
+
+    return {
+      arxivId: id,
+      version,
+      title: elementText(entry, 'title'),
+      summary: elementText(entry, 'summary'),
+      authors: elementBlocks(entry, 'author').map(author => elementText(author, 'name')).filter(Boolean),
+      published: elementText(entry, 'published'),
+      updated: elementText(entry, 'updated'),
+      doi: normalizeDoi(elementText(entry, 'arxiv:doi')),
+      journalRef: elementText(entry, 'arxiv:journal_ref'),
+      comment: elementText(entry, 'arxiv:comment'),
+      primaryCategory: primaryCategory ? primaryCategory.term : '',
+      categories: elementAttributes(entry, 'category').map(category => category.term).filter(Boolean),
+      pdfUrl: pdfLink ? pdfLink.href : ''
+    };
+  });
+}
+
+/**
+ * Convertir une entrée Atom en données de paper
+ * Le DOI de la version publiée, s'il est connu, devient le DOI du paper
+ * @param {Object} entry - Entrée lue par parseAtomFeed
+ * @returns {{ paperData: Object, abstract: string, keywords: Array<string>, version: Object }}
+ */
+function atomEntryToPaper(entry) {
+  return {
+    paperData: {
+      item_type: 'preprint',
+      title: entry.title,
+      authors: entry.authors.join(', '),
+      publication_date: entry.published.slice(0, 10),
+      conference: entry.journalRef || null,
+      publisher: 'arXiv',
+      doi: entry.doi || null,
+      url: `https://arxiv.org/abs/${entry.arxivId}`,
+      arxiv_id: entry.arxivId,
+      arxiv_version: entry.version,
+      abstract: entry.summary,
+      keywords: joinKeywords(entry.categories)
+    },
+    abstract: entry.summary,
+    keywords: entry.categories,
+    version: {
+      current: entry.version,
+      published: entry.published,
+      updated: entry.updated,
+      publishedDoi: entry.doi || null,
+      journalRef: entry.journalRef || null,
+      comment: entry.comment || null
+    }
+  };
+}
+
+// ================================
+// CLIENT
+// ================================
+
+/**
+ * Créer un client arXiv
+ * Le client HTTP est injectable (axios par défaut) pour interroger un serveur de fixtures
+ * @param {Object} options - { http, apiUrl, pdfUrl, timeout }
+ * @returns {{ fetchMetadata: Function, downloadPdf: Function }}
+ */
+function createArxivClient(options = {}) {
+  const http = options.http || axios;
+  const apiUrl = options.apiUrl || DEFAULT_ARXIV_API_URL;
+  const pdfUrl = (options.pdfUrl || DEFAULT_ARXIV_PDF_URL).replace(/\/+$/, '');
+  const timeout = options.timeout || 15000;
+
+  return {
+    /**
+     * Récupérer les métadonnées d'une prépublication
+     * Sans numéro de version, arXiv renvoie la dernière version
+     * @param {string} identifier - Identifiant, URL ou DOI arXiv
+     * @returns {Promise<Object|null>} - Résultat de atomEntryToPaper, null si introuvable
+     */
+    async fetchMetadata(identifier) {
+      const parsed = parseArxivIdentifier(identifier);
+      if (!parsed) {
+        throw new Error(`Identifiant arXiv invalide: ${identifier}`);
+      }
+
+      const response = await http.get(apiUrl, {
+        params: { id_list: `${parsed.id}${parsed.version || ''}`, max_results: 1 },
+        headers: { 'User-Agent': buildUserAgent() },
+        responseType: 'text',
+        timeout
+      });
+
+      const [entry] = parseAtomFeed(response.data);
+      if (!entry || !entry.arxivId) {
+        if (entry && entry.error) {
+          console.warn(`⚠️ arXiv: ${entry.error}`);
+        }
+        return null;
+      }
+
+      return atomEntryToPaper(entry);
+    },
+
+    /**
+     * Télécharger le PDF d'une prépublication
+     * @param {string} id - Identifiant arXiv sans version
+     * @param {string|null} version - Version (ex. "v2"), dernière version si absente
+     * @returns {Promise<Buffer>}
+     */
+    async downloadPdf(id, version = null) {
+      const response = await http.get(`${pdfUrl}/${id}${version || ''}`, {
+        headers: { 'User-Agent': buildUserAgent() },
+        responseType: 'arraybuffer',
+        timeout: timeout * 4
+      });
+
+      const buffer = Buffer.from(response.data);
+      if (buffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+        throw new Error(`Le fichier téléchargé pour ${id}${version || ''} n'est pas un PDF`);
+      }
+
+      return buffer;
+    }
+  };
+}
+
+// Client par défaut (adresses publiques ou variables d'environnement)
+const arxivClient = createArxivClient();
+
+module.exports = {
+  ARXIV_ID_PATTERN,
+  parseArxivIdentifier,
+  parseAtomFeed,
+  atomEntryToPaper,
+  createArxivClient,
+  arxivClient
+};
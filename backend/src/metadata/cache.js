@@ -0,0 +1,87 @@
+// backend/src/metadata/cache.js - Cache disque des réponses des fournisseurs de métadonnées
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+// Une réponse « introuvable » est revérifiée plus tôt qu'une notice trouvée
+const NOT_FOUND_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Nom de fichier d'un identifiant (lisible, haché s'il est trop long)
+ * Sert aussi pour les fichiers de fixtures : <dossier>/<fournisseur>/<nom>.json
+ * @param {string} identifier - Identifiant normalisé (ex. DOI en minuscules)
+ * @returns {string}
+ */
+function entryFileName(identifier) {
+  const encoded = encodeURIComponent(identifier);
+  return encoded.length <= 180
+    ? `${encoded}.json`
+    : `${crypto.createHash('sha1').update(identifier).digest('hex')}.json`;
+}
+
+/**
+ * Créer un cache disque
+ * Chaque entrée est un fichier JSON { identifier, fetchedAt, found, data }
+ * @param {Object} options - { dir, ttlDays }
+ * @returns {{ get: Function, set: Function }}
+ */
+function createMetadataCache(options = {}) {
+  const { dir } = options;
+  const ttlMs = (options.ttlDays ?? 30) * 24 * 60 * 60 * 1000;
+
+  const entryPath = (provider, identifier) => path.join(dir, provider, entryFileName(identifier));
+
+  return {
+    /**
+     * Lire une réponse en cache
+     * @param {string} provider
+     * @param {string} identifier
+     * @returns {{ found: boolean, data: Object|null }|null} - null si absente ou expirée
+     */
+    get(provider, identifier) {
+      if (!dir) return null;
+
+      try {
+        const entry = JSON.parse(fs.readFileSync(entryPath(provider, identifier), 'utf8'));
+        const age = Date.now() - new Date(entry.fetchedAt).getTime();
+
+        if (isNaN(age) || age > (entry.found ? ttlMs : Math.min(ttlMs, NOT_FOUND_TTL_MS))) {
+          return null;
+        }
+
+        return { found: entry.found, data: entry.data };
+      } catch (error) {
+        // Entrée absente ou illisible : traitée comme un défaut de cache
+        return null;
+      }
+    },
+
+    /**
+     * Enregistrer une réponse (ou l'absence de notice)
+     * @param {string} provider
+     * @param {string} identifier
+     * @param {Object|null} data - Réponse brute du fournisseur, null si introuvable
+     */
+    set(provider, identifier, data) {
+      if (!dir) return;
+
+      try {
+        const filePath = entryPath(provider, identifier);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify({
+          identifier,
+          fetchedAt: new Date().toISOString(),
+          found: data !== null,
+          data
+        }));
+      } catch (error) {
+        console.warn(`⚠️ Cache métadonnées non écrit (${provider}): ${error.message}`);
+      }
+    }
+  };
+}
+
+module.exports = {
+  entryFileName,
+  createMetadataCache
+};
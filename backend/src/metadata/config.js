@@ -0,0 +1,54 @@
+// backend/src/metadata/config.js - Configuration des services de métadonnées (contact, cache, débit, fixtures)
+const path = require('path');
+
+// Fournisseurs interrogés dans l'ordre pour un DOI
+const DEFAULT_METADATA_PROVIDERS = ['crossref', 'datacite', 'openalex', 'semanticscholar'];
+
+/**
+ * Lire un entier positif depuis l'environnement
+ * @param {string} name
+ * @param {number|null} fallback
+ * @returns {number|null}
+ */
+function envInteger(name, fallback) {
+  const value = parseInt(process.env[name], 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+/**
+ * Configuration par défaut, surchargeable par variables d'environnement
+ * - METADATA_CONTACT_EMAIL : adresse transmise aux API (pool « poli » de Crossref et OpenAlex)
+ * - METADATA_PROVIDERS : liste ordonnée, séparée par des virgules
+ * - METADATA_CACHE_DIR / METADATA_CACHE_TTL_DAYS : cache disque des réponses
+ * - METADATA_RATE_LIMIT_MS : délai minimal entre deux requêtes vers un même fournisseur
+ * - METADATA_FIXTURES_DIR : mode fixtures (réponses lues sur disque, aucune requête réseau)
+ */
+const METADATA_CONFIG = {
+  contactEmail: process.env.METADATA_CONTACT_EMAIL || '',
+  providers: process.env.METADATA_PROVIDERS
+    ? process.env.METADATA_PROVIDERS.split(',').map(name => name.trim()).filter(Boolean)
+    : DEFAULT_METADATA_PROVIDERS,
+  cacheDir: process.env.METADATA_CACHE_DIR || path.join(__dirname, '..', '..', '.cache', 'metadata'),
+  cacheTtlDays: envInteger('METADATA_CACHE_TTL_DAYS', 30),
+  rateLimitMs: envInteger('METADATA_RATE_LIMIT_MS', null),
+  fixturesDir: process.env.METADATA_FIXTURES_DIR || null,
+  semanticScholarApiKey: process.env.SEMANTIC_SCHOLAR_API_KEY || '',
+  timeout: envInteger('METADATA_TIMEOUT_MS', 10000)
+};
+
+/**
+ * User-Agent des requêtes sortantes (avec l'adresse de contact si elle est configurée)
+ * @param {string} contactEmail
+ * @returns {string}
+ */
+function buildUserAgent(contactEmail = METADATA_CONFIG.contactEmail) {
+  return contactEmail
+    ? `FormPaper3000/1.0 (https://github.com/Moh-BENKHELIFA/FormPaper3000; mailto:${contactEmail})`
+    : 'FormPaper3000/1.0 (https://github.com/Moh-BENKHELIFA/FormPaper3000)';
+}
+
+module.exports = {
+  DEFAULT_METADATA_PROVIDERS,
+  METADATA_CONFIG,
+  buildUserAgent
+};
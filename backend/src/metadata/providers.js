@@ -0,0 +1,241 @@
+// backend/src/metadata/providers.js - Fournisseurs de métadonnées par DOI (Crossref, DataCite, OpenAlex, Semantic Scholar)
+const { itemTypeFromFormat, normalizeArxivId, normalizeOrcid, splitAuthorName } = require('../formats/common');
+
+// ================================
+// UTILITAIRES
+// ================================
+
+/**
+ * Encoder un DOI dans un chemin d'URL (les barres obliques sont conservées)
+ * @param {string} doi
+ * @returns {string}
+ */
+function encodeDoi(doi) {
+  return doi.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Date AAAA-MM-JJ depuis des parties [année, mois, jour] (mois et jour à 1 par défaut)
+ * @param {Array<number>} parts
+ * @returns {string}
+ */
+function formatDateParts(parts) {
+  if (!Array.isArray(parts) || !parts[0]) {
+    return '';
+  }
+
+  return `${parts[0]}-${String(parts[1] || 1).padStart(2, '0')}-${String(parts[2] || 1).padStart(2, '0')}`;
+}
+
+/**
+ * Date AAAA-MM-JJ depuis une date ISO partielle ("2021", "2021-05", "2021-05-03T...")
+ * @param {string|number} value
+ * @returns {string}
+ */
+function formatIsoDate(value) {
+  const match = String(value || '').match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+  return match ? formatDateParts([match[1], match[2], match[3]]) : '';
+}
+
+/**
+ * Reconstituer un résumé OpenAlex (index inversé mot → positions)
+ * @param {Object} invertedIndex
+ * @returns {string}
+ */
+function invertedIndexToText(invertedIndex) {
+  if (!invertedIndex || typeof invertedIndex !== 'object') {
+    return '';
+  }
+
+  const words = [];
+  Object.entries(invertedIndex).forEach(([word, positions]) => {
+    positions.forEach(position => {
+      words[position] = word;
+    });
+  });
+
+  return words.filter(Boolean).join(' ');
+}
+
+/**
+ * Liste de mots-clés sans doublons ni valeurs vides
+ * @param {Array<string>} values
+ * @returns {Array<string>}
+ */
+function uniqueKeywords(values) {
+  const seen = new Set();
+
+  return values
+    .map(value => String(value || '').trim())
+    .filter(value => {
+      const key = value.toLowerCase();
+      if (!value || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Auteur normalisé depuis un nom complet et un ORCID éventuel
+ * @param {string} name - "Prénom Nom"
+ * @param {string} orcid
+ * @returns {{ given: string, family: string, orcid: string }|null}
+ */
+function namedAuthor(name, orcid = '') {
+  const { given, family } = splitAuthorName(name);
+  return family ? { given, family, orcid: normalizeOrcid(orcid) } : null;
+}
+
+// ================================
+// FOURNISSEURS
+// ================================
+
+/**
+ * Chaque fournisseur décrit :
+ * - minInterval : délai minimal (ms) entre deux requêtes, sauf réglage global METADATA_RATE_LIMIT_MS
+ * - request(doi, config) : { url, params, headers } de la requête HTTP
+ * - parse(data) : notice normalisée ou null si la réponse ne décrit pas de document
+ *   { title, authors, publication_date, container, item_type, publisher, isbn, url, arxiv_id, abstract, keywords }
+ *   Les auteurs sont des objets { given, family, orcid } dans l'ordre de la publication
+ */
+const METADATA_PROVIDERS = {
+  crossref: {
+    label: 'Crossref',
+    minInterval: 100,
+    request: (doi, config) => ({
+      url: `https://api.crossref.org/works/${encodeDoi(doi)}`,
+      params: config.contactEmail ? { mailto: config.contactEmail } : {}
+    }),
+    parse: (data) => {
+      const work = data?.message;
+      if (!work) return null;
+
+      return {
+        title: work.title?.[0] || '',
+        // Auteur institutionnel (name) ou personne (given / family)
+        authors: (work.author || [])
+          .map(author => (author.family
+            ? { given: author.given || '', family: author.family, orcid: normalizeOrcid(author.ORCID) }
+            : namedAuthor(author.name || author.given, author.ORCID)))
+          .filter(Boolean),
+        publication_date: formatDateParts((work.published || work.issued)?.['date-parts']?.[0]),
+        container: work['container-title']?.[0] || '',
+        item_type: itemTypeFromFormat('crossref', work.type),
+        // Établissement d'une thèse ou d'un rapport, à défaut éditeur
+        publisher: work.institution?.[0]?.name || work.publisher || '',
+        isbn: work.ISBN?.[0] || '',
+        url: work.URL || '',
+        arxiv_id: '',
+        abstract: work.abstract || '',
+        keywords: uniqueKeywords(work.subject || [])
+      };
+    }
+  },
+
+  datacite: {
+    label: 'DataCite',
+    minInterval: 100,
+    request: (doi) => ({
+      url: `https://api.datacite.org/dois/${encodeDoi(doi)}`
+    }),
+    parse: (data) => {
+      const attributes = data?.data?.attributes;
+      if (!attributes) return null;
+
+      const issued = (attributes.dates || []).find(date => date.dateType === 'Issued');
+      const abstract = (attributes.descriptions || []).find(description => description.descriptionType === 'Abstract');
+      const arxivIdentifier = (attributes.identifiers || [])
+        .find(identifier => String(identifier.identifierType).toLowerCase() === 'arxiv');
+      const publisher = attributes.publisher;
+
+      return {
+        title: attributes.titles?.[0]?.title || '',
+        authors: (attributes.creators || [])
+          .map(creator => {
+            const orcid = (creator.nameIdentifiers || [])
+              .find(identifier => String(identifier.nameIdentifierScheme).toUpperCase() === 'ORCID');
+            return creator.familyName
+              ? { given: creator.givenName || '', family: creator.familyName, orcid: normalizeOrcid(orcid?.nameIdentifier) }
+              : namedAuthor(creator.name, orcid?.nameIdentifier);
+          })
+          .filter(Boolean),
+        publication_date: formatIsoDate(issued?.date || attributes.publicationYear),
+        container: attributes.container?.title || '',
+        item_type: itemTypeFromFormat('datacite', attributes.types?.resourceTypeGeneral),
+        // Chaîne ou objet { name } selon la version de l'API
+        publisher: (typeof publisher === 'object' ? publisher?.name : publisher) || '',
+        isbn: '',
+        url: attributes.url || '',
+        arxiv_id: arxivIdentifier ? normalizeArxivId(arxivIdentifier.identifier) : '',
+        abstract: abstract?.description || '',
+        keywords: uniqueKeywords((attributes.subjects || []).map(subject => subject.subject))
+      };
+    }
+  },
+
+  openalex: {
+    label: 'OpenAlex',
+    minInterval: 100,
+    request: (doi, config) => ({
+      url: `https://api.openalex.org/works/doi:${encodeDoi(doi)}`,
+      params: config.contactEmail ? { mailto: config.contactEmail } : {}
+    }),
+    parse: (work) => {
+      if (!work || !work.id) return null;
+
+      const source = work.primary_location?.source;
+
+      return {
+        title: work.display_name || work.title || '',
+        authors: (work.authorships || [])
+          .map(authorship => namedAuthor(authorship.author?.display_name, authorship.author?.orcid))
+          .filter(Boolean),
+        publication_date: formatIsoDate(work.publication_date || work.publication_year),
+        container: source?.display_name || '',
+        item_type: itemTypeFromFormat('openalex', work.type),
+        publisher: source?.host_organization_name || '',
+        isbn: '',
+        url: work.primary_location?.landing_page_url || '',
+        arxiv_id: '',
+        abstract: invertedIndexToText(work.abstract_inverted_index),
+        keywords: uniqueKeywords((work.keywords || []).map(keyword => keyword.display_name))
+      };
+    }
+  },
+
+  semanticscholar: {
+    label: 'Semantic Scholar',
+    // API publique limitée à une requête par seconde sans clé
+    minInterval: 1000,
+    request: (doi, config) => ({
+      url: `https://api.semanticscholar.org/graph/v1/paper/DOI:${encodeDoi(doi)}`,
+      params: {
+        fields: 'title,authors,year,publicationDate,venue,publicationTypes,abstract,externalIds,fieldsOfStudy,url'
+      },
+      headers: config.semanticScholarApiKey ? { 'x-api-key': config.semanticScholarApiKey } : {}
+    }),
+    parse: (paper) => {
+      if (!paper || !paper.paperId) return null;
+
+      const publicationTypes = paper.publicationTypes || [];
+
+      return {
+        title: paper.title || '',
+        authors: (paper.authors || []).map(author => namedAuthor(author.name)).filter(Boolean),
+        publication_date: formatIsoDate(paper.publicationDate || paper.year),
+        container: paper.venue || '',
+        item_type: publicationTypes.map(type => itemTypeFromFormat('semanticscholar', type)).find(Boolean) || null,
+        publisher: '',
+        isbn: '',
+        url: paper.url || '',
+        arxiv_id: paper.externalIds?.ArXiv ? normalizeArxivId(paper.externalIds.ArXiv) : '',
+        abstract: paper.abstract || '',
+        keywords: uniqueKeywords(paper.fieldsOfStudy || [])
+      };
+    }
+  }
+};
+
+module.exports = {
+  METADATA_PROVIDERS
+};
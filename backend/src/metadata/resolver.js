@@ -0,0 +1,214 @@
+// backend/src/metadata/resolver.js - Chaîne de fournisseurs de métadonnées par DOI (cache disque, débit limité, fixtures)
+const fs = require('fs');
+const path = require('path');
+const axios = require('axios');
+const { normalizeDoi, extractArxivId, inferItemType, cleanAbstract, joinKeywords, authorDisplayName } = require('../formats/common');
+const { METADATA_CONFIG, buildUserAgent } = require('./config');
+const { METADATA_PROVIDERS } = require('./providers');
+const { createMetadataCache, entryFileName } = require('./cache');
+
+// Types de document pour lesquels l'éditeur ou l'établissement est conservé
+const PUBLISHER_ITEM_TYPES = ['thesis', 'report', 'book_chapter', 'preprint'];
+
+// Champs de notice dont l'absence justifie d'interroger le fournisseur suivant
+const COMPLETENESS_FIELDS = ['title', 'authors', 'publication_date', 'abstract', 'keywords'];
+
+/**
+ * Indiquer si une valeur de notice est renseignée
+ * @param {*} value
+ * @returns {boolean}
+ */
+function isFilled(value) {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * Compléter une notice avec celle d'un fournisseur suivant (les valeurs déjà présentes sont conservées)
+ * @param {Object|null} record
+ * @param {Object} next
+ * @returns {Object}
+ */
+function mergeRecords(record, next) {
+  if (!record) {
+    return { ...next };
+  }
+
+  return Object.fromEntries(
+    Object.keys({ ...record, ...next }).map(key => [key, isFilled(record[key]) ? record[key] : next[key]])
+  );
+}
+
+/**
+ * Convertir une notice normalisée en données de paper
+ * @param {Object} record
+ * @param {string} doi
+ * @returns {Object}
+ */
+function recordToPaperData(record, doi) {
+  const paperData = {
+    title: record.title,
+    authors: record.authors.map(authorDisplayName).join(', '),
+    doi,
+    url: record.url || `https://doi.org/${doi}`,
+    publication_date: record.publication_date || new Date().toISOString().split('T')[0],
+    conference: record.container || '',
+    reading_status: 'non_lu'
+  };
+  const arxivId = record.arxiv_id || extractArxivId(paperData.doi, paperData.url) || null;
+  const itemType = record.item_type || inferItemType({ ...paperData, arxiv_id: arxivId });
+
+  return {
+    ...paperData,
+    item_type: itemType,
+    arxiv_id: arxivId,
+    isbn: record.isbn || null,
+    publisher: PUBLISHER_ITEM_TYPES.includes(itemType) ? (record.publisher || null) : null,
+    abstract: cleanAbstract(record.abstract) || null,
+    keywords: joinKeywords(record.keywords || []) || null,
+    // Auteurs structurés (prénom, nom, ORCID) enregistrés dans Authors / PaperAuthors
+    author_list: record.authors.map(({ given, family, orcid }) => ({ given, family, orcid: orcid || null }))
+  };
+}
+
+/**
+ * Créer un résolveur de métadonnées
+ * Les fournisseurs sont interrogés dans l'ordre ; les suivants ne complètent que les champs manquants
+ * @param {Object} options - Surcharges de METADATA_CONFIG, plus { http, cache }
+ * @returns {{ resolveDoi: Function, providers: Array<string> }}
+ */
+function createMetadataResolver(options = {}) {
+  const { http = axios, cache: customCache, ...overrides } = options;
+  const config = { ...METADATA_CONFIG, ...overrides };
+  const cache = customCache || createMetadataCache({ dir: config.cacheDir, ttlDays: config.cacheTtlDays });
+
+  const providers = config.providers.filter(name => {
+    if (!METADATA_PROVIDERS[name]) {
+      console.warn(`⚠️ Fournisseur de métadonnées inconnu ignoré: ${name}`);
+      return false;
+    }
+    return true;
+  });
+
+  // File d'attente par fournisseur : une requête à la fois, espacées de minInterval
+  const queues = new Map();
+  const lastRequestAt = new Map();
+
+  const waitForTurn = (name) => {
+    const interval = config.rateLimitMs ?? METADATA_PROVIDERS[name].minInterval;
+    const turn = (queues.get(name) || Promise.resolve()).then(async () => {
+      const delay = (lastRequestAt.get(name) || 0) + interval - Date.now();
+      if (delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      lastRequestAt.set(name, Date.now());
+    });
+
+    queues.set(name, turn);
+    return turn;
+  };
+
+  /**
+   * Réponse brute d'un fournisseur : fixture, sinon cache, sinon réseau
+   * @param {string} name
+   * @param {string} doi - DOI normalisé en minuscules
+   * @returns {Promise<Object|null>} - null si le fournisseur ne connaît pas ce DOI
+   */
+  const fetchResponse = async (name, doi) => {
+    if (config.fixturesDir) {
+      const fixturePath = path.join(config.fixturesDir, name, entryFileName(doi));
+      return fs.existsSync(fixturePath) ? JSON.parse(fs.readFileSync(fixturePath, 'utf8')) : null;
+    }
+
+    const cached = cache.get(name, doi);
+    if (cached) {
+      return cached.data;
+    }
+
+    await waitForTurn(name);
+
+    const request = METADATA_PROVIDERS[name].request(doi, config);
+    try {
+      const response = await http.get(request.url, {
+        params: request.params,
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': buildUserAgent(config.contactEmail),
+          ...request.headers
+        },
+        timeout: config.timeout
+      });
+
+      cache.set(name, doi, response.data);
+      return response.data;
+    } catch (error) {
+      if (error.response?.status === 404) {
+        cache.set(name, doi, null);
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  return {
+    providers,
+
+    /**
+     * Résoudre un DOI
+     * @param {string} doi
+     * @returns {Promise<{ paperData: Object, abstract: string, keywords: Array<string>, sources: Array<string> }|null>}
+     *   null si aucun fournisseur ne connaît ce DOI ; erreur si tous les fournisseurs ont échoué
+     */
+    async resolveDoi(doi) {
+      const normalized = normalizeDoi(doi);
+      if (!normalized) {
+        return null;
+      }
+
+      const key = normalized.toLowerCase();
+      const sources = [];
+      const failures = [];
+      let record = null;
+
+      for (const name of providers) {
+        if (record && COMPLETENESS_FIELDS.every(field => isFilled(record[field]))) {
+          break;
+        }
+
+        try {
+          const parsed = METADATA_PROVIDERS[name].parse(await fetchResponse(name, key));
+          if (parsed && parsed.title) {
+            record = mergeRecords(record, parsed);
+            sources.push(name);
+          }
+        } catch (error) {
+          console.warn(`⚠️ ${METADATA_PROVIDERS[name].label}: ${error.message}`);
+          failures.push(`${METADATA_PROVIDERS[name].label}: ${error.message}`);
+        }
+      }
+
+      if (!record) {
+        if (failures.length > 0 && failures.length === providers.length) {
+          throw new Error(`Fournisseurs de métadonnées indisponibles (${failures.join(' ; ')})`);
+        }
+        return null;
+      }
+
+      const paperData = recordToPaperData(record, normalized);
+
+      return {
+        paperData,
+        abstract: paperData.abstract || '',
+        keywords: record.keywords || [],
+        sources
+      };
+    }
+  };
+}
+
+// Résolveur par défaut (configuration de l'environnement)
+const metadataResolver = createMetadataResolver();
+
+module.exports = {
+  createMetadataResolver,
+  metadataResolver
+};
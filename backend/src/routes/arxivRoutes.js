@@ -0,0 +1,130 @@
+// backend/src/routes/arxivRoutes.js - Ajout par identifiant arXiv et suivi des versions
+const express = require('express');
+const { paperDB } = require('../database');
+const { parseArxivIdentifier, arxivClient } = require('../metadata/arxiv');
+
+const router = express.Router();
+
+/**
+ * POST /api/papers/metadata-from-arxiv
+ * Récupérer les métadonnées d'une prépublication arXiv
+ * Body: { identifier } - Identifiant (2101.00001v2), URL arxiv.org ou DOI 10.48550/arXiv.*
+ */
+router.post('/metadata-from-arxiv', async (req, res) => {
+  try {
+    const { identifier } = req.body;
+
+    if (!identifier || !parseArxivIdentifier(identifier)) {
+      return res.status(400).json({
+        error: 'Identifiant arXiv invalide',
+        details: 'Formats acceptés: 2101.00001, arXiv:2101.00001v2, https://arxiv.org/abs/2101.00001'
+      });
+    }
+
+    console.log(`🔍 Récupération des métadonnées arXiv: ${identifier}`);
+    const result = await arxivClient.fetchMetadata(identifier);
+
+    if (!result) {
+      return res.status(404).json({
+        error: 'Prépublication non trouvée sur arXiv'
+      });
+    }
+
+    // Prépublication déjà présente (toutes versions confondues)
+    const [existingPaper] = await paperDB.papers.findByArxivIds([result.paperData.arxiv_id]);
+
+    res.json({
+      success: true,
+      ...result,
+      existingPaper: existingPaper || null
+    });
+
+  } catch (error) {
+    console.error('Erreur métadonnées arXiv:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la récupération des métadonnées arXiv',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/papers/:id/arxiv/refresh
+ * Mettre à jour la version d'une prépublication et rattacher le DOI de sa version publiée
+ * Le DOI n'est rattaché que si le paper n'en a pas et qu'aucun autre paper ne l'utilise
+ */
+router.post('/:id/arxiv/refresh', async (req, res) => {
+  try {
+    const paperId = parseInt(req.params.id, 10);
+    const paper = await paperDB.papers.getActiveById(paperId);
+
+    if (!paper) {
+      return res.status(404).json({
+        error: 'Paper non trouvé'
+      });
+    }
+
+    if (!paper.arxiv_id) {
+      return res.status(400).json({
+        error: 'Ce paper n\'a pas d\'identifiant arXiv'
+      });
+    }
+
+    const result = await arxivClient.fetchMetadata(paper.arxiv_id);
+    if (!result) {
+      return res.status(404).json({
+        error: 'Prépublication non trouvée sur arXiv'
+      });
+    }
+
+    const { version } = result;
+    const updates = {};
+    const changes = {
+      version: null,
+      doi: null,
+      doiConflict: null
+    };
+
+    if (version.current && version.current !== paper.arxiv_version) {
+      updates.arxiv_version = version.current;
+      changes.version = { from: paper.arxiv_version || null, to: version.current };
+    }
+
+    if (version.publishedDoi && !paper.doi) {
+      const [owner] = await paperDB.papers.findByDois([version.publishedDoi]);
+
+      // La version publiée est déjà dans la bibliothèque : c'est un doublon à fusionner
+      if (owner && owner.id !== paperId) {
+        changes.doiConflict = { id: owner.id, title: owner.title, doi: owner.doi };
+      } else {
+        updates.doi = version.publishedDoi;
+        changes.doi = version.publishedDoi;
+
+        if (version.journalRef && !paper.conference) {
+          updates.conference = version.journalRef;
+        }
+      }
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await paperDB.papers.update(paperId, updates);
+      console.log(`🔄 Prépublication ${paper.arxiv_id} mise à jour:`, updates);
+    }
+
+    res.json({
+      success: true,
+      paper: await paperDB.papers.getByIdWithDetails(paperId),
+      version,
+      changes
+    });
+
+  } catch (error) {
+    console.error('Erreur mise à jour arXiv:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la mise à jour de la prépublication',
+      details: error.message
+    });
+  }
+});
+
+module.exports = router;
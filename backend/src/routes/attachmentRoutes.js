@@ -0,0 +1,206 @@
+// backend/src/routes/attachmentRoutes.js - Pièces jointes des papers (matériel supplémentaire, présentations, code, données)
+const express = require('express');
+const multer = require('multer');
+const fs = require('fs');
+const path = require('path');
+const { paperDB } = require('../database');
+
+const router = express.Router();
+
+// Taille maximale d'une pièce jointe (les jeux de données dépassent souvent la limite des PDF)
+const MAX_ATTACHMENT_SIZE = 100 * 1024 * 1024;
+
+// Fichiers envoyés stockés sur disque, puis déplacés dans le dossier attachments du paper
+const upload = multer({
+  dest: path.join('uploads', '.attachments'),
+  limits: {
+    fileSize: MAX_ATTACHMENT_SIZE
+  }
+});
+
+/**
+ * Code HTTP d'une erreur sur les pièces jointes
+ * @param {Error} error
+ * @returns {number}
+ */
+function attachmentErrorStatus(error) {
+  if (error.message.startsWith('Données de la pièce jointe invalides')) return 400;
+  if (error.message.startsWith('Pièce jointe déjà présente')) return 409;
+  return 500;
+}
+
+/**
+ * GET /api/papers/:id/attachments
+ * Pièces jointes d'un paper
+ */
+router.get('/:id/attachments', async (req, res) => {
+  try {
+    const attachments = await paperDB.attachments.getForPaper(parseInt(req.params.id));
+
+    if (!attachments) {
+      return res.status(404).json({
+        error: 'Paper non trouvé'
+      });
+    }
+
+    res.json({
+      success: true,
+      attachments
+    });
+
+  } catch (error) {
+    console.error('Erreur liste des pièces jointes:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la récupération des pièces jointes',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/papers/:id/attachments
+ * Joindre un fichier (champ "file")
+ * Body: { kind: 'supplementary' | 'slides' | 'code' | 'dataset' | 'other', label }
+ */
+router.post('/:id/attachments', (req, res, next) => {
+  // Fichier refusé par multer (taille) : réponse JSON plutôt que l'erreur Express par défaut
+  upload.single('file')(req, res, (err) => {
+    if (err) {
+      return res.status(err.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+        error: 'Fichier refusé',
+        details: err.code === 'LIMIT_FILE_SIZE'
+          ? `Taille maximale : ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} Mo`
+          : err.message
+      });
+    }
+    next();
+  });
+}, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'Fichier requis (champ "file")'
+      });
+    }
+
+    const attachment = await paperDB.attachments.create(parseInt(req.params.id), {
+      tempPath: req.file.path,
+      // multer lit le nom en latin1 : le ramener en UTF-8 (accents)
+      originalName: Buffer.from(req.file.originalname, 'latin1').toString('utf8'),
+      mime: req.file.mimetype,
+      kind: req.body.kind,
+      label: req.body.label
+    });
+
+    if (!attachment) {
+      return res.status(404).json({
+        error: 'Paper non trouvé'
+      });
+    }
+
+    console.log(`📎 Pièce jointe ajoutée au paper ${req.params.id}: ${attachment.original_name}`);
+    res.status(201).json({
+      success: true,
+      attachment
+    });
+
+  } catch (error) {
+    console.error('Erreur ajout pièce jointe:', error);
+    res.status(attachmentErrorStatus(error)).json({
+      error: 'Erreur lors de l\'ajout de la pièce jointe',
+      details: error.message
+    });
+  } finally {
+    if (req.file) {
+      fs.rmSync(req.file.path, { force: true });
+    }
+  }
+});
+
+/**
+ * GET /api/papers/:id/attachments/:attachmentId/download
+ * Télécharger une pièce jointe sous son nom d'origine (?inline=true pour l'aperçu dans le navigateur)
+ */
+router.get('/:id/attachments/:attachmentId/download', async (req, res) => {
+  try {
+    const file = await paperDB.attachments.getFile(parseInt(req.params.id), parseInt(req.params.attachmentId));
+
+    if (!file) {
+      return res.status(404).json({
+        error: 'Pièce jointe non trouvée'
+      });
+    }
+
+    if (req.query.inline === 'true') {
+      res.type(file.attachment.mime || path.extname(file.filePath));
+      res.set('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(file.attachment.original_name)}`);
+      return res.sendFile(file.filePath);
+    }
+
+    res.download(file.filePath, file.attachment.original_name);
+
+  } catch (error) {
+    console.error('Erreur téléchargement pièce jointe:', error);
+    res.status(500).json({
+      error: 'Erreur lors du téléchargement de la pièce jointe',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/papers/:id/attachments/:attachmentId
+ * Modifier le libellé ou la nature d'une pièce jointe
+ * Body: { label, kind }
+ */
+router.put('/:id/attachments/:attachmentId', async (req, res) => {
+  try {
+    const attachment = await paperDB.attachments.update(parseInt(req.params.id), parseInt(req.params.attachmentId), req.body || {});
+
+    if (!attachment) {
+      return res.status(404).json({
+        error: 'Pièce jointe non trouvée'
+      });
+    }
+
+    res.json({
+      success: true,
+      attachment
+    });
+
+  } catch (error) {
+    console.error('Erreur modification pièce jointe:', error);
+    res.status(attachmentErrorStatus(error)).json({
+      error: 'Erreur lors de la modification de la pièce jointe',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/papers/:id/attachments/:attachmentId
+ * Supprimer une pièce jointe et son fichier
+ */
+router.delete('/:id/attachments/:attachmentId', async (req, res) => {
+  try {
+    if (!(await paperDB.attachments.delete(parseInt(req.params.id), parseInt(req.params.attachmentId)))) {
+      return res.status(404).json({
+        error: 'Pièce jointe non trouvée'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Pièce jointe supprimée avec succès'
+    });
+
+  } catch (error) {
+    console.error('Erreur suppression pièce jointe:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la suppression de la pièce jointe',
+      details: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,72 @@
+// backend/src/routes/authorRoutes.js - Auteurs structurés : autocomplétion et page d'auteur
+const express = require('express');
+const { paperDB } = require('../database');
+
+const router = express.Router();
+
+/**
+ * GET /api/authors?q=...&limit=10
+ * Rechercher des auteurs par nom ou ORCID (autocomplétion du formulaire)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const query = req.query.q ? String(req.query.q).trim() : '';
+    const limit = Math.min(Math.max(1, parseInt(req.query.limit, 10) || 10), 50);
+
+    const authors = query ? await paperDB.authors.search(query, limit) : [];
+
+    res.json({
+      success: true,
+      authors
+    });
+
+  } catch (error) {
+    console.error('Erreur recherche auteurs:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la recherche des auteurs',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/authors/:id
+ * Auteur, nombre de papers et co-auteurs les plus fréquents
+ * Les papers de l'auteur sont listés par GET /api/papers?author=:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const authorId = parseInt(req.params.id, 10);
+
+    if (isNaN(authorId)) {
+      return res.status(400).json({
+        error: 'ID invalide'
+      });
+    }
+
+    const author = await paperDB.authors.getById(authorId);
+    if (!author) {
+      return res.status(404).json({
+        error: 'Auteur non trouvé',
+        details: `Aucun auteur trouvé avec l'ID ${authorId}`
+      });
+    }
+
+    const coauthors = await paperDB.authors.getCoauthors(authorId);
+
+    res.json({
+      success: true,
+      author,
+      coauthors
+    });
+
+  } catch (error) {
+    console.error('Erreur récupération auteur:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la récupération de l\'auteur',
+      details: error.message
+    });
+  }
+});
+
+module.exports = router;
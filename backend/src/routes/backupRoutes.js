@@ -0,0 +1,196 @@
+// backend/src/routes/backupRoutes.js - Sauvegarde et restauration de la bibliothèque (base, PDF, images, notes)
+const express = require('express');
+const multer = require('multer');
+const fs = require('fs');
+const path = require('path');
+const { BACKUP_CONFIG } = require('../backup/config');
+const { withBackupLock, getBackupPath, createBackup, listBackups, deleteBackup } = require('../backup/archive');
+const { restoreBackup } = require('../backup/restore');
+const { getBackupSchedule } = require('../backup/scheduler');
+
+const router = express.Router();
+
+// Archives envoyées pour restauration, stockées sur disque le temps de la vérification
+const upload = multer({
+  dest: path.join(BACKUP_CONFIG.dir, '.uploads'),
+  fileFilter: (req, file, cb) => {
+    if (file.originalname.toLowerCase().endsWith('.zip')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Seules les archives .zip sont acceptées'), false);
+    }
+  }
+});
+
+/**
+ * Code HTTP d'une erreur de sauvegarde ou de restauration
+ * @param {Error} error
+ * @returns {number}
+ */
+function backupErrorStatus(error) {
+  if (error.message.startsWith('Opération déjà en cours')) return 409;
+  if (error.message.startsWith('Archive invalide') || error.message.startsWith('Mode de restauration inconnu')) return 400;
+  return 500;
+}
+
+/**
+ * GET /api/backups
+ * Sauvegardes disponibles (de la plus récente à la plus ancienne) et planification automatique
+ */
+router.get('/', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      backups: await listBackups(),
+      schedule: getBackupSchedule()
+    });
+
+  } catch (error) {
+    console.error('Erreur liste des sauvegardes:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la récupération des sauvegardes',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/backups
+ * Créer une sauvegarde complète (base, MyPaperList, manifeste avec sommes de contrôle)
+ */
+router.post('/', async (req, res) => {
+  try {
+    const backup = await withBackupLock('sauvegarde', () => createBackup({ trigger: 'manual' }));
+
+    res.status(201).json({
+      success: true,
+      backup
+    });
+
+  } catch (error) {
+    console.error('Erreur création sauvegarde:', error);
+    res.status(backupErrorStatus(error)).json({
+      error: 'Erreur lors de la création de la sauvegarde',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/backups/restore
+ * Restaurer une archive envoyée (champ "archive")
+ * Body: { mode: 'replace' | 'merge' }
+ */
+router.post('/restore', (req, res, next) => {
+  // Archive refusée par multer (extension) : réponse JSON plutôt que l'erreur Express par défaut
+  upload.single('archive')(req, res, (err) => {
+    if (err) {
+      return res.status(400).json({
+        error: 'Archive refusée',
+        details: err.message
+      });
+    }
+    next();
+  });
+}, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'Archive requise (champ "archive")'
+      });
+    }
+
+    const result = await restoreBackup(req.file.path, { mode: req.body.mode });
+
+    res.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Erreur restauration archive envoyée:', error);
+    res.status(backupErrorStatus(error)).json({
+      error: 'Erreur lors de la restauration',
+      details: error.message
+    });
+  } finally {
+    if (req.file) {
+      fs.rmSync(req.file.path, { force: true });
+    }
+  }
+});
+
+/**
+ * GET /api/backups/:name/download
+ * Télécharger une sauvegarde
+ */
+router.get('/:name/download', (req, res) => {
+  const backupPath = getBackupPath(req.params.name);
+
+  if (!backupPath) {
+    return res.status(404).json({
+      error: 'Sauvegarde non trouvée'
+    });
+  }
+
+  res.download(backupPath, req.params.name);
+});
+
+/**
+ * POST /api/backups/:name/restore
+ * Restaurer une sauvegarde du dossier de sauvegarde
+ * Body: { mode: 'replace' | 'merge' }
+ */
+router.post('/:name/restore', async (req, res) => {
+  try {
+    const backupPath = getBackupPath(req.params.name);
+
+    if (!backupPath) {
+      return res.status(404).json({
+        error: 'Sauvegarde non trouvée'
+      });
+    }
+
+    const result = await restoreBackup(backupPath, { mode: req.body.mode });
+
+    res.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Erreur restauration sauvegarde:', error);
+    res.status(backupErrorStatus(error)).json({
+      error: 'Erreur lors de la restauration',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/backups/:name
+ * Supprimer une sauvegarde
+ */
+router.delete('/:name', (req, res) => {
+  try {
+    if (!deleteBackup(req.params.name)) {
+      return res.status(404).json({
+        error: 'Sauvegarde non trouvée'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Sauvegarde supprimée avec succès'
+    });
+
+  } catch (error) {
+    console.error('Erreur suppression sauvegarde:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la suppression de la sauvegarde',
+      details: error.message
+    });
+  }
+});
+
+module.exports = router;
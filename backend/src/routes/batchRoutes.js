@@ -0,0 +1,149 @@
+// backend/src/routes/batchRoutes.js - Actions groupées sur plusieurs papers (statut, catégories, mise à la corbeille)
+const express = require('express');
+const { paperDB, READING_STATUS } = require('../database');
+
+const router = express.Router();
+
+// Nombre maximal de papers par action groupée
+const MAX_BATCH_SIZE = 1000;
+
+/**
+ * Lire une liste d'IDs du corps de la requête (doublons et valeurs invalides retirés)
+ * @param {*} value
+ * @returns {Array<number>}
+ */
+function parseIdArray(value) {
+  if (!Array.isArray(value)) return [];
+  return [...new Set(value.map(id => parseInt(id, 10)).filter(id => !isNaN(id) && id > 0))];
+}
+
+/**
+ * Lire les papers visés par une action groupée
+ * @param {Object} req
+ * @param {Object} res
+ * @returns {Array<number>|null} - IDs, ou null si la réponse d'erreur a été envoyée
+ */
+function readPaperIds(req, res) {
+  const ids = parseIdArray(req.body.ids);
+
+  if (ids.length === 0) {
+    res.status(400).json({ error: 'Données manquantes: ids requis' });
+    return null;
+  }
+
+  if (ids.length > MAX_BATCH_SIZE) {
+    res.status(400).json({
+      error: 'Trop de papers sélectionnés',
+      details: `${MAX_BATCH_SIZE} papers au maximum par action groupée`
+    });
+    return null;
+  }
+
+  return ids;
+}
+
+/**
+ * POST /api/papers/batch/status
+ * Changer le statut de lecture de plusieurs papers
+ * Body: { ids: [1, 2], reading_status: 'lu' }
+ */
+router.post('/batch/status', async (req, res) => {
+  try {
+    const ids = readPaperIds(req, res);
+    if (!ids) return;
+
+    const readingStatus = req.body.reading_status;
+    const statuses = Object.values(READING_STATUS);
+    if (!statuses.includes(readingStatus)) {
+      return res.status(400).json({
+        error: 'Statut de lecture invalide',
+        details: `Valeurs acceptées: ${statuses.join(', ')}`
+      });
+    }
+
+    const updated = await paperDB.papers.updateStatusMany(ids, readingStatus);
+
+    console.log(`✏️ Statut « ${readingStatus} » appliqué à ${updated} paper(s)`);
+    res.json({
+      success: true,
+      updated,
+      message: `${updated} paper(s) mis à jour`
+    });
+
+  } catch (error) {
+    console.error('Erreur changement de statut groupé:', error);
+    res.status(500).json({
+      error: 'Erreur lors du changement de statut',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/papers/batch/categories
+ * Ajouter et retirer des catégories sur plusieurs papers
+ * Body: { ids: [1, 2], add: [3], remove: [4] }
+ */
+router.post('/batch/categories', async (req, res) => {
+  try {
+    const ids = readPaperIds(req, res);
+    if (!ids) return;
+
+    const add = parseIdArray(req.body.add);
+    const remove = parseIdArray(req.body.remove).filter(id => !add.includes(id));
+
+    if (add.length === 0 && remove.length === 0) {
+      return res.status(400).json({ error: 'Données manquantes: add ou remove requis' });
+    }
+
+    const result = await paperDB.paperCategories.updateForPapers(ids, { add, remove });
+
+    console.log(`🏷️ Catégories des papers ${ids.join(', ')} : +${result.added} / -${result.removed}`);
+    res.json({
+      success: true,
+      ...result,
+      message: 'Catégories mises à jour'
+    });
+
+  } catch (error) {
+    if (error.message.startsWith('Catégorie introuvable')) {
+      return res.status(404).json({ error: error.message });
+    }
+
+    console.error('Erreur modification groupée des catégories:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la modification des catégories',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/papers/batch/delete
+ * Mettre plusieurs papers à la corbeille (restauration par POST /api/papers/trash/restore)
+ * Body: { ids: [1, 2] }
+ */
+router.post('/batch/delete', async (req, res) => {
+  try {
+    const ids = readPaperIds(req, res);
+    if (!ids) return;
+
+    const deletedIds = await paperDB.trashPapers(ids);
+
+    res.json({
+      success: true,
+      deleted: deletedIds.length,
+      deletedIds,
+      message: `${deletedIds.length} paper(s) mis à la corbeille`
+    });
+
+  } catch (error) {
+    console.error('Erreur suppression groupée:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la suppression des papers',
+      details: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,416 @@
+// backend/src/routes/bibliographyRoutes.js - Import/export bibliographique (BibTeX, RIS, CSL-JSON) et citations
+const express = require('express');
+const { paperDB, getMissingPaperFields, describeMissingFields } = require('../database');
+const { getFormat, detectFormat, FORMATS } = require('../formats');
+const { getCitationStyle, formatCitation, formatCitations, exportBibliography, CITATION_STYLES } = require('../formats/citation');
+
+const router = express.Router();
+
+/**
+ * Lire une liste d'IDs séparés par des virgules
+ * @param {string} value
+ * @returns {Array<number>}
+ */
+function parseIdList(value) {
+  return value
+    ? String(value).split(',').map(id => parseInt(id, 10)).filter(id => !isNaN(id))
+    : [];
+}
+
+/**
+ * Lire les filtres de la liste des papers (mêmes paramètres que GET /api/papers, plus ids)
+ * Sans tri demandé, les papers sont exportés par ordre d'ajout
+ * @param {Object} query - req.query
+ * @returns {{ filters: Object, sort: Object }}
+ */
+function parseListQuery(query) {
+  const { ids, q, status, categories, categoryMode, includeDescendants, year, dateFrom, dateTo, conference, venue, author, sortBy, sortOrder } = query;
+
+  return {
+    filters: {
+      ids: parseIdList(ids),
+      query: q ? String(q).trim() : '',
+      reading_status: status,
+      categories: parseIdList(categories),
+      categoryMode: categoryMode === 'all' ? 'all' : 'any',
+      includeDescendants: includeDescendants === 'true',
+      year: year ? parseInt(year, 10) || null : null,
+      dateFrom,
+      dateTo,
+      conference,
+      venue: venue ? parseInt(venue, 10) || null : null,
+      author: author ? parseInt(author, 10) || null : null
+    },
+    sort: sortBy ? { sortBy, sortOrder } : { sortBy: 'created_at', sortOrder: 'asc' }
+  };
+}
+
+/**
+ * Résoudre le format demandé ('auto' = détection d'après le contenu)
+ * @param {string} formatName
+ * @param {string} content
+ * @returns {{ name: string, format: Object|null }}
+ */
+function resolveFormat(formatName, content) {
+  const name = formatName === 'auto' ? detectFormat(content) : formatName;
+  return { name, format: getFormat(name) };
+}
+
+/**
+ * Clé de rapprochement d'un paper : DOI, à défaut identifiant arXiv (sans version)
+ * @param {Object} paper
+ * @returns {string|null}
+ */
+function identifierKey(paper) {
+  if (paper.doi) return `doi:${paper.doi.toLowerCase()}`;
+  if (paper.arxiv_id) return `arxiv:${paper.arxiv_id.toLowerCase().replace(/v\d+$/, '')}`;
+  return null;
+}
+
+/**
+ * Analyser un fichier et classer chaque entrée (nouvelle, doublon, invalide)
+ * @param {Object} format - Format du registre
+ * @param {string} content - Contenu du fichier
+ * @returns {Promise<Array>} - Entrées de prévisualisation
+ */
+async function buildImportPreview(format, content) {
+  const parsed = format.parse(content);
+
+  const validEntries = parsed.filter(entry => !entry.error);
+  const existingPapers = [
+    ...await paperDB.papers.findByDois(validEntries.map(entry => entry.paper.doi)),
+    ...await paperDB.papers.findByArxivIds(validEntries.map(entry => entry.paper.arxiv_id))
+  ];
+  const existingByKey = new Map();
+  existingPapers.forEach(paper => {
+    [identifierKey(paper), paper.arxiv_id && identifierKey({ arxiv_id: paper.arxiv_id })]
+      .filter(Boolean)
+      .forEach(key => existingByKey.set(key, paper));
+  });
+  const seenKeys = new Map();
+
+  return parsed.map((entry, index) => {
+    const base = { index, citationKey: entry.citationKey || '', type: entry.type || '' };
+
+    if (entry.error) {
+      return { ...base, status: 'invalid', errors: [entry.error] };
+    }
+
+    const { paper, keywords, abstract, notes, mapping, ignored } = entry;
+    // Champs requis selon le type de document (le DOI n'est plus obligatoire)
+    const missing = getMissingPaperFields(paper);
+    const errors = missing.length > 0 ? [`Champs requis manquants : ${describeMissingFields(missing)}`] : [];
+
+    const result = { ...base, paper, keywords, abstract, notes, mapping, ignored, errors };
+
+    if (errors.length > 0) {
+      return { ...result, status: 'invalid' };
+    }
+
+    // Sans DOI ni identifiant arXiv, l'entrée ne peut pas être rapprochée
+    const key = identifierKey(paper);
+    if (!key) {
+      return { ...result, status: 'new' };
+    }
+
+    const existing = existingByKey.get(key);
+    if (existing) {
+      return { ...result, status: 'duplicate', existingPaper: { id: existing.id, title: existing.title } };
+    }
+
+    if (seenKeys.has(key)) {
+      return { ...result, status: 'duplicate_in_file', duplicateOf: seenKeys.get(key) };
+    }
+
+    seenKeys.set(key, index);
+    return { ...result, status: 'new' };
+  });
+}
+
+/**
+ * Résumer une prévisualisation par statut
+ * @param {Array} entries
+ * @returns {Object}
+ */
+function summarizePreview(entries) {
+  return entries.reduce((acc, entry) => {
+    acc[entry.status] = (acc[entry.status] || 0) + 1;
+    return acc;
+  }, { total: entries.length, new: 0, duplicate: 0, duplicate_in_file: 0, invalid: 0 });
+}
+
+/**
+ * GET /api/papers/export?format=bibtex|ris|csljson&ids=3,4 (+ filtres de GET /api/papers)
+ * Exporter la bibliothèque (filtrée ou limitée à une sélection)
+ */
+router.get('/export', async (req, res) => {
+  try {
+    const { format: formatName = 'bibtex' } = req.query;
+    const format = getFormat(formatName);
+
+    if (!format) {
+      return res.status(400).json({
+        error: `Format d'export non supporté: ${formatName}`,
+        details: `Formats disponibles: ${Object.keys(FORMATS).join(', ')}`
+      });
+    }
+
+    const { filters, sort } = parseListQuery(req.query);
+    const { data: papers } = await paperDB.papers.findPaginated(filters, sort, { limit: 0 });
+
+    // Les descriptions sont exportées comme résumés
+    const descriptions = await paperDB.descriptions.getTextsForPapers(papers.map(paper => paper.id));
+    papers.forEach(paper => {
+      paper.description = descriptions[paper.id] || '';
+    });
+
+    const date = new Date().toISOString().split('T')[0];
+    console.log(`📤 Export ${format.label}: ${papers.length} papers`);
+
+    res.setHeader('Content-Type', `${format.mimeType}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="formpaper-${date}.${format.extension}"`);
+    // Le frontend (autre origine) lit le nom du fichier dans cet en-tête
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition');
+    res.send(format.serialize(papers));
+
+  } catch (error) {
+    console.error('Erreur export bibliographique:', error);
+    res.status(500).json({
+      error: 'Erreur lors de l\'export',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/papers/bibliography?style=apa|ieee|acm|vancouver&output=text|html (+ filtres de GET /api/papers)
+ * Exporter une bibliographie formatée de la liste filtrée
+ */
+router.get('/bibliography', async (req, res) => {
+  try {
+    const { style: styleName = 'apa', output = 'text' } = req.query;
+    const style = getCitationStyle(styleName);
+
+    if (!style) {
+      return res.status(400).json({
+        error: `Style de citation non supporté: ${styleName}`,
+        details: `Styles disponibles: ${Object.keys(CITATION_STYLES).join(', ')}`
+      });
+    }
+
+    const { filters, sort } = parseListQuery(req.query);
+    const { data: papers } = await paperDB.papers.findPaginated(filters, sort, { limit: 0 });
+
+    const isHtml = output === 'html';
+    const date = new Date().toISOString().split('T')[0];
+    console.log(`📚 Bibliographie ${style.label}: ${papers.length} papers`);
+
+    res.setHeader('Content-Type', `${isHtml ? 'text/html' : 'text/plain'}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="bibliographie-${styleName.toLowerCase()}-${date}.${isHtml ? 'html' : 'txt'}"`);
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition');
+    res.send(exportBibliography(papers, styleName, isHtml ? 'html' : 'text'));
+
+  } catch (error) {
+    console.error('Erreur export bibliographie:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la génération de la bibliographie',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/papers/:id/citation?style=apa
+ * Référence formatée d'un paper (texte et HTML), dans un style ou dans tous
+ */
+router.get('/:id/citation', async (req, res) => {
+  try {
+    const { style: styleName } = req.query;
+
+    if (styleName && !getCitationStyle(styleName)) {
+      return res.status(400).json({
+        error: `Style de citation non supporté: ${styleName}`,
+        details: `Styles disponibles: ${Object.keys(CITATION_STYLES).join(', ')}`
+      });
+    }
+
+    const paper = await paperDB.papers.getActiveById(parseInt(req.params.id, 10));
+
+    if (!paper) {
+      return res.status(404).json({
+        error: 'Paper non trouvé'
+      });
+    }
+
+    res.json({
+      success: true,
+      citations: styleName
+        ? { [styleName.toLowerCase()]: formatCitation(paper, styleName) }
+        : formatCitations(paper)
+    });
+
+  } catch (error) {
+    console.error('Erreur génération citation:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la génération de la citation',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/papers/import/preview
+ * Analyser un fichier et signaler les doublons (DOI ou identifiant arXiv déjà en base ou répété dans le fichier)
+ * format = bibtex, ris, csljson ou auto (détection d'après le contenu)
+ */
+router.post('/import/preview', async (req, res) => {
+  try {
+    const { format: requestedFormat = 'auto', content } = req.body;
+
+    if (!content || typeof content !== 'string') {
+      return res.status(400).json({
+        error: 'Données manquantes: content requis'
+      });
+    }
+
+    const { name: formatName, format } = resolveFormat(requestedFormat, content);
+
+    if (!format) {
+      return res.status(400).json({
+        error: requestedFormat === 'auto'
+          ? 'Format du fichier non reconnu'
+          : `Format d'import non supporté: ${requestedFormat}`,
+        details: `Formats disponibles: ${Object.keys(FORMATS).join(', ')}`
+      });
+    }
+
+    const entries = await buildImportPreview(format, content);
+
+    res.json({
+      success: true,
+      format: formatName,
+      entries,
+      summary: summarizePreview(entries)
+    });
+
+  } catch (error) {
+    console.error('Erreur prévisualisation import:', error);
+    res.status(500).json({
+      error: 'Erreur lors de l\'analyse du fichier',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/papers/import
+ * Créer les papers sélectionnés d'un fichier avec les catégories choisies
+ */
+router.post('/import', async (req, res) => {
+  try {
+    const {
+      format: requestedFormat = 'auto',
+      content,
+      selected,
+      categoryIds = [],
+      keywordsAsCategories = false
+    } = req.body;
+
+    if (!content || typeof content !== 'string') {
+      return res.status(400).json({
+        error: 'Données manquantes: content requis'
+      });
+    }
+
+    const { format } = resolveFormat(requestedFormat, content);
+
+    if (!format) {
+      return res.status(400).json({
+        error: requestedFormat === 'auto'
+          ? 'Format du fichier non reconnu'
+          : `Format d'import non supporté: ${requestedFormat}`
+      });
+    }
+
+    const entries = await buildImportPreview(format, content);
+    const selectedIndexes = Array.isArray(selected) ? new Set(selected.map(Number)) : null;
+
+    const created = [];
+    const skipped = [];
+    const conflicts = [];
+    const failed = [];
+
+    for (const entry of entries) {
+      if (selectedIndexes && !selectedIndexes.has(entry.index)) {
+        continue;
+      }
+
+      const title = entry.paper ? entry.paper.title : entry.citationKey;
+
+      if (entry.status === 'duplicate' || entry.status === 'duplicate_in_file') {
+        conflicts.push({
+          index: entry.index,
+          title,
+          status: entry.status,
+          reason: entry.existingPaper
+            ? `Déjà présent: ${entry.existingPaper.title}`
+            : `Même identifiant que l'entrée ${entry.duplicateOf + 1}`
+        });
+        continue;
+      }
+
+      if (entry.status !== 'new') {
+        skipped.push({ index: entry.index, title, status: entry.status, reason: (entry.errors || []).join(', ') || entry.status });
+        continue;
+      }
+
+      try {
+        const entryCategoryIds = [...categoryIds.map(Number)];
+        if (keywordsAsCategories) {
+          for (const keyword of entry.keywords || []) {
+            entryCategoryIds.push(await paperDB.categories.findOrCreateByName(keyword));
+          }
+        }
+
+        // Résumé et mots-clés enregistrés avec le paper, notes dans la description
+        const description = String(entry.notes || '').trim();
+        const paper = await paperDB.createCompletePaper(
+          { ...entry.paper, abstract: entry.abstract, keywords: entry.keywords },
+          null,
+          null,
+          [],
+          [...new Set(entryCategoryIds)],
+          description ? { texte: description } : null
+        );
+
+        created.push({ index: entry.index, id: paper.id, title: paper.title });
+      } catch (error) {
+        if (error.message.includes('UNIQUE constraint failed')) {
+          conflicts.push({ index: entry.index, title, status: 'duplicate', reason: error.message });
+        } else {
+          failed.push({ index: entry.index, title, status: 'error', reason: error.message });
+        }
+      }
+    }
+
+    console.log(`📥 Import ${format.label}: ${created.length} créés, ${skipped.length} ignorés, ${conflicts.length} conflits, ${failed.length} en erreur`);
+
+    res.status(created.length > 0 ? 201 : 200).json({
+      success: true,
+      message: `${created.length} papers importés`,
+      created,
+      skipped,
+      conflicts,
+      failed
+    });
+
+  } catch (error) {
+    console.error('Erreur import bibliographique:', error);
+    res.status(500).json({
+      error: 'Erreur lors de l\'import',
+      details: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,108 @@
+// backend/src/routes/duplicateRoutes.js - Détection et fusion des doublons
+const express = require('express');
+const { paperDB } = require('../database');
+const { DEFAULT_DUPLICATE_THRESHOLD } = require('../database/duplicates');
+
+const router = express.Router();
+
+// Valeurs acceptées pour la source d'un champ fusionné
+const MERGE_FIELD_SOURCES = ['survivor', 'duplicate'];
+
+/**
+ * GET /api/papers/duplicates?threshold=0.75
+ * Lister les paires de papers susceptibles d'être des doublons
+ */
+router.get('/duplicates', async (req, res) => {
+  try {
+    const threshold = parseFloat(req.query.threshold);
+
+    const candidates = await paperDB.findDuplicates({
+      threshold: isNaN(threshold) ? DEFAULT_DUPLICATE_THRESHOLD : Math.min(Math.max(threshold, 0), 1)
+    });
+
+    res.json({
+      success: true,
+      total: candidates.length,
+      candidates
+    });
+
+  } catch (error) {
+    console.error('Erreur recherche doublons:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la recherche des doublons',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/papers/merge
+ * Fusionner un doublon dans le paper conservé
+ * Body: { survivorId, duplicateId, fields: { title: 'survivor' | 'duplicate', ... } }
+ */
+router.post('/merge', async (req, res) => {
+  try {
+    const survivorId = parseInt(req.body.survivorId, 10);
+    const duplicateId = parseInt(req.body.duplicateId, 10);
+    const fields = req.body.fields && typeof req.body.fields === 'object' ? req.body.fields : {};
+
+    if (isNaN(survivorId) || isNaN(duplicateId)) {
+      return res.status(400).json({
+        error: 'Données manquantes: survivorId et duplicateId requis'
+      });
+    }
+
+    if (survivorId === duplicateId) {
+      return res.status(400).json({
+        error: 'Un paper ne peut pas être fusionné avec lui-même'
+      });
+    }
+
+    const invalidField = Object.entries(fields).find(([, source]) => !MERGE_FIELD_SOURCES.includes(source));
+    if (invalidField) {
+      return res.status(400).json({
+        error: `Source invalide pour le champ ${invalidField[0]}`,
+        details: `Valeurs acceptées: ${MERGE_FIELD_SOURCES.join(', ')}`
+      });
+    }
+
+    const papers = await Promise.all([survivorId, duplicateId].map(id => paperDB.papers.getById(id)));
+    if (papers.some(paper => !paper)) {
+      return res.status(404).json({
+        error: 'Paper non trouvé'
+      });
+    }
+
+    // Le dossier d'un paper de la corbeille est rangé dans .trash : il faut le restaurer avant de fusionner
+    const trashed = papers.filter(paper => paper.deleted_at);
+    if (trashed.length > 0) {
+      return res.status(409).json({
+        error: 'Paper dans la corbeille',
+        details: `Restaurer ${trashed.map(paper => `« ${paper.title} »`).join(' et ')} avant de fusionner`
+      });
+    }
+
+    const result = await paperDB.mergePapers(survivorId, duplicateId, fields);
+
+    if (!result) {
+      return res.status(404).json({
+        error: 'Paper non trouvé'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Papers fusionnés avec succès',
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Erreur fusion papers:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la fusion des papers',
+      details: error.message
+    });
+  }
+});
+
+module.exports = router;
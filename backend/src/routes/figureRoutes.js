@@ -0,0 +1,94 @@
+// backend/src/routes/figureRoutes.js - Galerie de figures des papers (images extraites du PDF et importées)
+const express = require('express');
+const { paperDB } = require('../database');
+
+const router = express.Router();
+
+/**
+ * GET /api/papers/:id/figures
+ * Figures d'un paper avec légende, page et tags
+ */
+router.get('/:id/figures', async (req, res) => {
+  try {
+    const gallery = await paperDB.figures.getForPaper(parseInt(req.params.id));
+
+    if (!gallery) {
+      return res.status(404).json({
+        error: 'Paper non trouvé'
+      });
+    }
+
+    res.json({
+      success: true,
+      ...gallery
+    });
+
+  } catch (error) {
+    console.error('Erreur galerie de figures:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la récupération des figures',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/papers/:id/figures/:folder/:fileName
+ * Modifier la légende, la page ou les tags d'une figure
+ * Body: { caption, page, tags }
+ */
+router.put('/:id/figures/:folder/:fileName', async (req, res) => {
+  try {
+    const figure = await paperDB.figures.update(
+      parseInt(req.params.id),
+      `${req.params.folder}/${req.params.fileName}`,
+      req.body || {}
+    );
+
+    if (!figure) {
+      return res.status(404).json({
+        error: 'Figure non trouvée'
+      });
+    }
+
+    res.json({
+      success: true,
+      figure
+    });
+
+  } catch (error) {
+    console.error('Erreur modification figure:', error);
+    res.status(error.message.startsWith('Données de la figure invalides') ? 400 : 500).json({
+      error: 'Erreur lors de la modification de la figure',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/papers/:id/figures/:folder/:fileName
+ * Supprimer une image de la galerie (les blocs des notes qui l'affichent ne la trouveront plus)
+ */
+router.delete('/:id/figures/:folder/:fileName', async (req, res) => {
+  try {
+    if (!(await paperDB.figures.delete(parseInt(req.params.id), `${req.params.folder}/${req.params.fileName}`))) {
+      return res.status(404).json({
+        error: 'Figure non trouvée'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Figure supprimée avec succès'
+    });
+
+  } catch (error) {
+    console.error('Erreur suppression figure:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la suppression de la figure',
+      details: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -11,9 +11,30 @@ const {
   deletePaperFolder,
   getPaperFolderPath
 } = require('../database/fileOperations');
+const { paperDB } = require('../database');
 
 const router = express.Router();
 
+/**
+ * Répondre 404 si le paper n'existe pas ou est dans la corbeille (son dossier est alors dans MyPaperList/.trash)
+ * À appeler avant toute lecture ou écriture de fichier et toute mise à jour de l'index
+ * @param {Object} res
+ * @param {*} paperId
+ * @returns {Promise<Object|null>} - Paper, ou null si la réponse 404 a été envoyée
+ */
+async function findActivePaper(res, paperId) {
+  const paper = await paperDB.papers.getActiveById(parseInt(paperId));
+
+  if (!paper) {
+    res.status(404).json({
+      error: 'Paper non trouvé'
+    });
+    return null;
+  }
+
+  return paper;
+}
+
 // Configuration multer pour upload d'images
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -44,6 +65,8 @@ router.post('/:id/notes', async (req, res) => {
       });
     }
 
+    if (!await findActivePaper(res, paperId)) return;
+
     const notesPath = await savePaperNotes(
       parseInt(paperId),
       title,
@@ -51,6 +74,9 @@ router.post('/:id/notes', async (req, res) => {
       blocks
     );
 
+    // Mettre à jour l'index de recherche plein texte
+    await paperDB.search.indexPaperNotes(parseInt(paperId), blocks);
+
     res.json({
       success: true,
       message: 'Notes sauvegardées avec succès',
@@ -82,6 +108,8 @@ router.get('/:id/notes', async (req, res) => {
       });
     }
 
+    if (!await findActivePaper(res, id)) return;
+
     const blocks = await loadPaperNotes(
       parseInt(id),
       title,
@@ -135,6 +163,8 @@ router.delete('/:id/notes', async (req, res) => {
       console.log(`Notes supprimées: ${notesPath}`);
     }
 
+    await paperDB.search.indexPaperNotes(parseInt(id), []);
+
     res.json({
       success: true,
       message: 'Notes supprimées avec succès'
@@ -182,6 +212,116 @@ router.get('/:id/notes/exists', async (req, res) => {
   }
 });
 
+/**
+ * Réponse d'erreur d'une opération sur les annotations (400 pour des données invalides)
+ * @param {Object} res
+ * @param {Error} error
+ * @param {string} message
+ */
+function sendAnnotationError(res, error, message) {
+  console.error(`${message}:`, error);
+  res.status(error.message.startsWith('Données de l\'annotation invalides') ? 400 : 500).json({
+    error: message,
+    details: error.message
+  });
+}
+
+/**
+ * GET /api/papers/:id/annotations
+ * Surlignages et commentaires du PDF d'un paper, dans l'ordre de lecture
+ */
+router.get('/:id/annotations', async (req, res) => {
+  try {
+    const annotations = await paperDB.annotations.getForPaper(parseInt(req.params.id));
+
+    if (!annotations) {
+      return res.status(404).json({
+        error: 'Paper non trouvé'
+      });
+    }
+
+    res.json({
+      success: true,
+      annotations
+    });
+
+  } catch (error) {
+    sendAnnotationError(res, error, 'Erreur lors du chargement des annotations');
+  }
+});
+
+/**
+ * POST /api/papers/:id/annotations
+ * Ajouter une annotation
+ * Body: { page, rects: [{ x, y, width, height }], color, text, comment }
+ */
+router.post('/:id/annotations', async (req, res) => {
+  try {
+    const annotation = await paperDB.annotations.create(parseInt(req.params.id), req.body || {});
+
+    if (!annotation) {
+      return res.status(404).json({
+        error: 'Paper non trouvé'
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      annotation
+    });
+
+  } catch (error) {
+    sendAnnotationError(res, error, 'Erreur lors de la création de l\'annotation');
+  }
+});
+
+/**
+ * PUT /api/papers/:id/annotations/:annotationId
+ * Modifier la couleur ou le commentaire d'une annotation
+ * Body: { color, comment }
+ */
+router.put('/:id/annotations/:annotationId', async (req, res) => {
+  try {
+    const annotation = await paperDB.annotations.update(parseInt(req.params.id), req.params.annotationId, req.body || {});
+
+    if (!annotation) {
+      return res.status(404).json({
+        error: 'Annotation non trouvée'
+      });
+    }
+
+    res.json({
+      success: true,
+      annotation
+    });
+
+  } catch (error) {
+    sendAnnotationError(res, error, 'Erreur lors de la modification de l\'annotation');
+  }
+});
+
+/**
+ * DELETE /api/papers/:id/annotations/:annotationId
+ * Supprimer une annotation (les citations des notes gardent leur texte)
+ */
+router.delete('/:id/annotations/:annotationId', async (req, res) => {
+  try {
+    if (!await paperDB.annotations.delete(parseInt(req.params.id), req.params.annotationId)) {
+      return res.status(404).json({
+        error: 'Annotation non trouvée'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Annotation supprimée avec succès'
+    });
+
+  } catch (error) {
+    sendAnnotationError(res, error, 'Erreur lors de la suppression de l\'annotation');
+  }
+});
+
 /**
  * POST /api/papers/:id/imported-images
  * Sauvegarder une image importée
@@ -203,6 +343,8 @@ router.post('/:id/imported-images', upload.single('image'), async (req, res) =>
       });
     }
 
+    if (!await findActivePaper(res, paperId)) return;
+
     const relativePath = await saveImportedImage(
       parseInt(paperId),
       title,
@@ -337,12 +479,19 @@ router.post('/notes/import', async (req, res) => {
           continue;
         }
 
+        // Les notes d'un paper supprimé ou dans la corbeille ne sont pas importées
+        if (!await paperDB.papers.getActiveById(parseInt(notes.paperId))) {
+          errors.push(`${folderName}: paper ${notes.paperId} introuvable ou dans la corbeille`);
+          continue;
+        }
+
         await savePaperNotes(
           notes.paperId,
           notes.title,
           notes.createdAt,
           notes.blocks || []
         );
+        await paperDB.search.indexPaperNotes(notes.paperId, notes.blocks || []);
 
         imported++;
       } catch (error) {
@@ -0,0 +1,97 @@
+// backend/src/routes/searchRoutes.js - Routes pour la recherche plein texte
+const express = require('express');
+const { paperDB } = require('../database');
+
+const router = express.Router();
+
+// Sources de texte interrogeables
+const SEARCH_SOURCES = ['metadata', 'notes', 'pdf'];
+
+/**
+ * GET /api/search?q=...&sources=metadata,notes,pdf&page=1&limit=20
+ * Rechercher dans les métadonnées, les notes et le texte des PDF
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { q, sources, page, limit } = req.query;
+    const query = q ? String(q).trim() : '';
+
+    if (!query) {
+      return res.status(400).json({
+        error: 'Paramètre manquant: q requis'
+      });
+    }
+
+    const requestedSources = sources
+      ? String(sources).split(',').map(source => source.trim()).filter(source => SEARCH_SOURCES.includes(source))
+      : [];
+
+    const result = await paperDB.search.search(query, {
+      sources: requestedSources,
+      page,
+      limit: Math.min(parseInt(limit, 10) || 20, 100)
+    });
+
+    console.log(`🔎 Recherche "${query}": ${result.total} papers trouvés`);
+
+    res.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Erreur recherche plein texte:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la recherche',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/search/status
+ * Nombre d'entrées indexées par source
+ */
+router.get('/status', async (req, res) => {
+  try {
+    const stats = await paperDB.search.getIndexStats();
+
+    res.json({
+      success: true,
+      indexed: stats
+    });
+
+  } catch (error) {
+    console.error('Erreur statut index:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la lecture de l\'index',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/search/reindex
+ * Reconstruire l'index de recherche
+ */
+router.post('/reindex', async (req, res) => {
+  try {
+    const indexedPapers = await paperDB.search.rebuild();
+    const stats = await paperDB.search.getIndexStats();
+
+    res.json({
+      success: true,
+      message: `Index reconstruit: ${indexedPapers} papers`,
+      indexed: stats
+    });
+
+  } catch (error) {
+    console.error('Erreur reconstruction index:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la reconstruction de l\'index',
+      details: error.message
+    });
+  }
+});
+
+module.exports = router;
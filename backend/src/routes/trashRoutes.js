@@ -0,0 +1,143 @@
+// backend/src/routes/trashRoutes.js - Corbeille : liste, restauration et suppression définitive des papers
+const express = require('express');
+const { paperDB } = require('../database');
+const { TRASH_CONFIG } = require('../database/trash');
+
+const router = express.Router();
+
+/**
+ * Lire une liste d'IDs du corps de la requête (doublons et valeurs invalides retirés)
+ * @param {*} value
+ * @returns {Array<number>}
+ */
+function parseIdArray(value) {
+  if (!Array.isArray(value)) return [];
+  return [...new Set(value.map(id => parseInt(id, 10)).filter(id => !isNaN(id) && id > 0))];
+}
+
+/**
+ * GET /api/papers/trash
+ * Lister les papers de la corbeille (les plus récemment supprimés d'abord)
+ */
+router.get('/trash', async (req, res) => {
+  try {
+    const result = await paperDB.papers.findPaginated(
+      { trashed: true },
+      { sortBy: 'deleted_at', sortOrder: 'desc' },
+      { limit: 0 }
+    );
+
+    res.json({
+      success: true,
+      papers: result.data,
+      total: result.total,
+      retentionDays: TRASH_CONFIG.retentionDays
+    });
+
+  } catch (error) {
+    console.error('Erreur lecture de la corbeille:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la lecture de la corbeille',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/papers/trash/restore
+ * Remettre des papers de la corbeille dans la bibliothèque
+ * Body: { ids: [1, 2] }
+ */
+router.post('/trash/restore', async (req, res) => {
+  try {
+    const ids = parseIdArray(req.body.ids);
+    if (ids.length === 0) {
+      return res.status(400).json({ error: 'Données manquantes: ids requis' });
+    }
+
+    const { restoredIds, blocked } = await paperDB.restorePapers(ids);
+
+    // Les papers dont le dossier n'a pas pu être remis en place restent dans la corbeille
+    if (blocked.length > 0) {
+      return res.status(409).json({
+        error: 'Restauration incomplète',
+        details: `Un dossier du même nom existe déjà dans MyPaperList pour ${blocked.map(paper => `« ${paper.title} »`).join(', ')} : `
+          + 'ce(s) paper(s) restent dans la corbeille',
+        restored: restoredIds.length,
+        restoredIds,
+        blockedIds: blocked.map(paper => paper.id)
+      });
+    }
+
+    res.json({
+      success: true,
+      restored: restoredIds.length,
+      restoredIds,
+      message: `${restoredIds.length} paper(s) restauré(s)`
+    });
+
+  } catch (error) {
+    console.error('Erreur restauration depuis la corbeille:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la restauration des papers',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/papers/trash/purge
+ * Supprimer définitivement des papers de la corbeille (base et fichiers)
+ * Body: { ids: [1, 2] }
+ */
+router.post('/trash/purge', async (req, res) => {
+  try {
+    const ids = parseIdArray(req.body.ids);
+    if (ids.length === 0) {
+      return res.status(400).json({ error: 'Données manquantes: ids requis' });
+    }
+
+    const purgedIds = await paperDB.purgePapers(ids);
+
+    res.json({
+      success: true,
+      purged: purgedIds.length,
+      purgedIds,
+      message: `${purgedIds.length} paper(s) supprimé(s) définitivement`
+    });
+
+  } catch (error) {
+    console.error('Erreur suppression définitive:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la suppression définitive',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/papers/trash
+ * Vider la corbeille
+ */
+router.delete('/trash', async (req, res) => {
+  try {
+    const { data } = await paperDB.papers.findPaginated({ trashed: true }, {}, { limit: 0 });
+    const purgedIds = await paperDB.purgePapers(data.map(paper => paper.id));
+
+    res.json({
+      success: true,
+      purged: purgedIds.length,
+      purgedIds,
+      message: 'Corbeille vidée'
+    });
+
+  } catch (error) {
+    console.error('Erreur vidage de la corbeille:', error);
+    res.status(500).json({
+      error: 'Erreur lors du vidage de la corbeille',
+      details: error.message
+    });
+  }
+});
+
+module.exports = router;
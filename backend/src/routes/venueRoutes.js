@@ -0,0 +1,305 @@
+// backend/src/routes/venueRoutes.js - Registre des venues : liste, édition, alias et fusion
+const express = require('express');
+const { paperDB } = require('../database');
+
+const router = express.Router();
+
+/**
+ * Lire un ID de venue depuis les paramètres de la route
+ * @param {string} value
+ * @returns {number|null}
+ */
+function parseVenueId(value) {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+}
+
+/**
+ * GET /api/venues
+ * Toutes les venues avec leurs alias et leur nombre de papers
+ */
+router.get('/', async (req, res) => {
+  try {
+    const venues = await paperDB.venues.getAll();
+
+    res.json({
+      success: true,
+      venues
+    });
+
+  } catch (error) {
+    console.error('Erreur récupération venues:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la récupération des venues',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/venues/match-papers
+ * Rattacher aux venues les papers dont le conteneur n'est lié à aucune venue
+ */
+router.post('/match-papers', async (req, res) => {
+  try {
+    const matched = await paperDB.venues.matchPapers();
+    console.log(`🏛️ ${matched} papers rattachés au registre des venues`);
+
+    res.json({
+      success: true,
+      matched
+    });
+
+  } catch (error) {
+    console.error('Erreur rapprochement venues:', error);
+    res.status(500).json({
+      error: 'Erreur lors du rapprochement des papers avec les venues',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/venues
+ * Créer une venue
+ * Body: { name, abbreviation, type, rank, notes }
+ */
+router.post('/', async (req, res) => {
+  try {
+    if (!req.body.name || !String(req.body.name).trim()) {
+      return res.status(400).json({
+        error: 'Nom de venue requis'
+      });
+    }
+
+    const venueId = await paperDB.venues.create(req.body);
+    const venue = await paperDB.venues.getById(venueId);
+
+    res.status(201).json({
+      success: true,
+      venue
+    });
+
+  } catch (error) {
+    console.error('Erreur création venue:', error);
+
+    if (error.message.includes('UNIQUE constraint failed')) {
+      return res.status(409).json({
+        error: 'Venue déjà existante',
+        details: 'Une venue porte déjà ce nom'
+      });
+    }
+
+    res.status(error.message.startsWith('Données de la venue invalides') ? 400 : 500).json({
+      error: 'Erreur lors de la création de la venue',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * PUT /api/venues/:id
+ * Modifier une venue (l'abréviation est reportée sur ses papers)
+ * Body: { name, abbreviation, type, rank, notes } (champs facultatifs)
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const venueId = parseVenueId(req.params.id);
+    if (venueId === null) {
+      return res.status(400).json({ error: 'ID invalide' });
+    }
+
+    const { name, abbreviation, type, rank, notes } = req.body;
+    const changes = Object.fromEntries(
+      Object.entries({ name, abbreviation, type, rank, notes }).filter(([, value]) => value !== undefined)
+    );
+
+    const updated = await paperDB.venues.update(venueId, changes);
+    if (!updated) {
+      return res.status(404).json({
+        error: 'Venue non trouvée',
+        details: `Aucune venue trouvée avec l'ID ${venueId}`
+      });
+    }
+
+    res.json({
+      success: true,
+      venue: await paperDB.venues.getById(venueId)
+    });
+
+  } catch (error) {
+    console.error('Erreur modification venue:', error);
+
+    if (error.message.includes('UNIQUE constraint failed')) {
+      return res.status(409).json({
+        error: 'Venue déjà existante',
+        details: 'Une autre venue porte déjà ce nom'
+      });
+    }
+
+    res.status(error.message.startsWith('Données de la venue invalides') ? 400 : 500).json({
+      error: 'Erreur lors de la modification de la venue',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/venues/:id
+ * Supprimer une venue (ses papers gardent leur conteneur)
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const venueId = parseVenueId(req.params.id);
+    if (venueId === null) {
+      return res.status(400).json({ error: 'ID invalide' });
+    }
+
+    const deleted = await paperDB.venues.delete(venueId);
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Venue non trouvée',
+        details: `Aucune venue trouvée avec l'ID ${venueId}`
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Venue supprimée avec succès'
+    });
+
+  } catch (error) {
+    console.error('Erreur suppression venue:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la suppression de la venue',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/venues/:id/merge
+ * Fusionner une venue dans celle-ci (son nom et ses alias deviennent des alias)
+ * Body: { sourceId }
+ */
+router.post('/:id/merge', async (req, res) => {
+  try {
+    const targetId = parseVenueId(req.params.id);
+    const sourceId = parseVenueId(req.body.sourceId);
+
+    if (targetId === null || sourceId === null) {
+      return res.status(400).json({
+        error: 'Données manquantes: ID de la venue et sourceId requis'
+      });
+    }
+
+    if (targetId === sourceId) {
+      return res.status(400).json({
+        error: 'Une venue ne peut pas être fusionnée avec elle-même'
+      });
+    }
+
+    const result = await paperDB.venues.merge(targetId, sourceId);
+    if (!result) {
+      return res.status(404).json({
+        error: 'Venue non trouvée'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Venues fusionnées avec succès',
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Erreur fusion venues:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la fusion des venues',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/venues/:id/aliases
+ * Ajouter une variante de nom à une venue
+ * Body: { alias }
+ */
+router.post('/:id/aliases', async (req, res) => {
+  try {
+    const venueId = parseVenueId(req.params.id);
+    const alias = req.body.alias ? String(req.body.alias).trim() : '';
+
+    if (venueId === null || !alias) {
+      return res.status(400).json({
+        error: 'Données manquantes: ID de la venue et alias requis'
+      });
+    }
+
+    if (!(await paperDB.venues.getById(venueId))) {
+      return res.status(404).json({
+        error: 'Venue non trouvée',
+        details: `Aucune venue trouvée avec l'ID ${venueId}`
+      });
+    }
+
+    await paperDB.venues.addAlias(venueId, alias);
+
+    res.status(201).json({
+      success: true,
+      venue: await paperDB.venues.getById(venueId)
+    });
+
+  } catch (error) {
+    console.error('Erreur ajout alias venue:', error);
+
+    if (error.message.includes('UNIQUE constraint failed')) {
+      return res.status(409).json({
+        error: 'Alias déjà enregistré',
+        details: 'Cette variante de nom est déjà rattachée à une venue'
+      });
+    }
+
+    res.status(500).json({
+      error: 'Erreur lors de l\'ajout de l\'alias',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * DELETE /api/venues/:id/aliases/:aliasId
+ * Retirer une variante de nom d'une venue
+ */
+router.delete('/:id/aliases/:aliasId', async (req, res) => {
+  try {
+    const venueId = parseVenueId(req.params.id);
+    const aliasId = parseVenueId(req.params.aliasId);
+
+    if (venueId === null || aliasId === null) {
+      return res.status(400).json({ error: 'ID invalide' });
+    }
+
+    const removed = await paperDB.venues.removeAlias(venueId, aliasId);
+    if (!removed) {
+      return res.status(404).json({
+        error: 'Alias non trouvé'
+      });
+    }
+
+    res.json({
+      success: true,
+      venue: await paperDB.venues.getById(venueId)
+    });
+
+  } catch (error) {
+    console.error('Erreur suppression alias venue:', error);
+    res.status(500).json({
+      error: 'Erreur lors de la suppression de l\'alias',
+      details: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,114 @@
+// backend/test/arxiv.test.js - Client arXiv interrogé avec des flux Atom de fixtures
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { createArxivClient, parseArxivIdentifier } = require('../src/metadata/arxiv');
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'arxiv');
+const API_URL = 'http://arxiv.test/api/query';
+
+const readFixture = (name) => fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+
+/**
+ * Client HTTP factice : enregistre les requêtes et répond avec la fixture demandée
+ * @param {Function} respond - (url, config) => données de la réponse (ou exception)
+ */
+function fakeHttp(respond) {
+  const calls = [];
+  return {
+    calls,
+    async get(url, config) {
+      calls.push({ url, config });
+      return { data: await respond(url, config) };
+    }
+  };
+}
+
+test('fetchMetadata lit une entrée Atom complète', async () => {
+  const http = fakeHttp(() => readFixture('entry.xml'));
+  const client = createArxivClient({ http, apiUrl: API_URL });
+
+  const result = await client.fetchMetadata('arXiv:2101.00001v2');
+
+  assert.equal(http.calls.length, 1);
+  assert.equal(http.calls[0].url, API_URL);
+  assert.deepEqual(http.calls[0].config.params, { id_list: '2101.00001v2', max_results: 1 });
+
+  assert.deepEqual(result.paperData, {
+    item_type: 'preprint',
+    title: 'Attention Is Still All You Need & More',
+    authors: 'Ada Lovelace, Jan van der Berg',
+    publication_date: '2021-01-04',
+    conference: 'J. Fixtures 12 (2021) 1-10',
+    publisher: 'arXiv',
+    doi: '10.1000/journal.2021.42',
+    url: 'https://arxiv.org/abs/2101.00001',
+    arxiv_id: '2101.00001',
+    arxiv_version: 'v2',
+    abstract: 'We revisit attention for sequence models.',
+    keywords: 'cs.CL, cs.LG'
+  });
+  assert.deepEqual(result.keywords, ['cs.CL', 'cs.LG']);
+  assert.deepEqual(result.version, {
+    current: 'v2',
+    published: '2021-01-04T18:00:00Z',
+    updated: '2021-02-15T10:00:00Z',
+    publishedDoi: '10.1000/journal.2021.42',
+    journalRef: 'J. Fixtures 12 (2021) 1-10',
+    comment: '12 pages, 3 figures'
+  });
+});
+
+test('la version demandée est transmise telle quelle, sinon arXiv renvoie la dernière', async () => {
+  const http = fakeHttp(() => readFixture('entry.xml'));
+  const client = createArxivClient({ http, apiUrl: API_URL });
+
+  await client.fetchMetadata('https://arxiv.org/abs/2101.00001v1');
+  await client.fetchMetadata('10.48550/arXiv.2101.00001');
+  await client.fetchMetadata('hep-th/9901001v3');
+
+  assert.deepEqual(http.calls.map(call => call.config.params.id_list), [
+    '2101.00001v1',
+    '2101.00001',
+    'hep-th/9901001v3'
+  ]);
+  assert.deepEqual(parseArxivIdentifier('https://arxiv.org/pdf/2101.00001v2.pdf'), { id: '2101.00001', version: 'v2' });
+  assert.equal(parseArxivIdentifier('10.1000/not-arxiv'), null);
+});
+
+test('downloadPdf demande la version voulue et refuse un fichier qui n\'est pas un PDF', async () => {
+  const http = fakeHttp(url => Buffer.from(url.endsWith('v2') ? '%PDF-1.7 fixture' : '<html>captcha</html>'));
+  const client = createArxivClient({ http, apiUrl: API_URL, pdfUrl: 'http://arxiv.test/pdf/' });
+
+  const pdf = await client.downloadPdf('2101.00001', 'v2');
+  assert.equal(pdf.toString('latin1'), '%PDF-1.7 fixture');
+  assert.equal(http.calls[0].url, 'http://arxiv.test/pdf/2101.00001v2');
+
+  await assert.rejects(client.downloadPdf('2101.00001'), /n'est pas un PDF/);
+});
+
+test('une erreur de l\'API ou une entrée absente donne null', async (t) => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  const client = createArxivClient({
+    http: fakeHttp((url, config) => readFixture(config.params.id_list === '2101.99999' ? 'error.xml' : 'empty.xml')),
+    apiUrl: API_URL
+  });
+
+  assert.equal(await client.fetchMetadata('2101.99999'), null);
+  assert.match(warn.mock.calls[0].arguments[0], /incorrect id format for 2101\.99999/);
+
+  assert.equal(await client.fetchMetadata('2101.00002'), null);
+});
+
+test('un identifiant invalide ou une panne réseau est signalé par une exception', async () => {
+  const http = fakeHttp(() => {
+    throw new Error('connect ECONNREFUSED');
+  });
+  const client = createArxivClient({ http, apiUrl: API_URL });
+
+  await assert.rejects(client.fetchMetadata('not an id'), /Identifiant arXiv invalide/);
+  assert.equal(http.calls.length, 0);
+
+  await assert.rejects(client.fetchMetadata('2101.00001'), /ECONNREFUSED/);
+});
@@ -0,0 +1,119 @@
+// backend/test/metadata.test.js - Résolution de DOI : fixtures (METADATA_FIXTURES_DIR), cache disque et DOI inconnus
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createMetadataResolver } = require('../src/metadata/resolver');
+const { entryFileName } = require('../src/metadata/cache');
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'metadata');
+const FIXTURE_DOI = '10.1000/fixture.2021.1';
+
+// En mode fixtures, aucune requête réseau ne doit partir
+const offlineHttp = {
+  get() {
+    throw new Error('Requête réseau inattendue');
+  }
+};
+
+/**
+ * Client HTTP factice comptant les requêtes
+ * @param {Function} respond - (url) => données de la réponse (ou exception)
+ */
+function countingHttp(respond) {
+  const calls = [];
+  return {
+    calls,
+    async get(url) {
+      calls.push(url);
+      return { data: await respond(url) };
+    }
+  };
+}
+
+/**
+ * Résolveur limité à Crossref, avec un cache dans un dossier temporaire
+ */
+function cachedResolver(t, http) {
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'formpaper-metadata-'));
+  t.after(() => fs.rmSync(cacheDir, { recursive: true, force: true }));
+
+  return {
+    cacheDir,
+    resolver: createMetadataResolver({ http, cacheDir, providers: ['crossref'], rateLimitMs: 0, fixturesDir: null })
+  };
+}
+
+const crossrefFixture = () => JSON.parse(
+  fs.readFileSync(path.join(FIXTURES_DIR, 'crossref', entryFileName(FIXTURE_DOI)), 'utf8')
+);
+
+test('les fixtures remplacent les fournisseurs et se complètent dans l\'ordre de la chaîne', async () => {
+  const resolver = createMetadataResolver({ fixturesDir: FIXTURES_DIR, http: offlineHttp });
+
+  const result = await resolver.resolveDoi(`https://doi.org/${FIXTURE_DOI.toUpperCase()}`);
+
+  // Crossref fournit la notice, OpenAlex le résumé et les mots-clés ; les suivants ne sont pas lus
+  assert.deepEqual(result.sources, ['crossref', 'openalex']);
+  assert.equal(result.paperData.title, 'Fixtures for Metadata Resolution');
+  assert.equal(result.paperData.authors, 'Ada Lovelace, Jan van der Berg, FormPaper Consortium');
+  assert.equal(result.paperData.item_type, 'book_chapter');
+  assert.equal(result.paperData.conference, 'Handbook of Reproducible Tests');
+  assert.equal(result.paperData.publisher, 'Fixture Press');
+  assert.equal(result.paperData.isbn, '978-3-16-148410-0');
+  assert.equal(result.paperData.publication_date, '2021-03-09');
+  assert.equal(result.abstract, 'Offline fixtures replace providers.');
+  assert.deepEqual(result.keywords, ['Metadata', 'Testing']);
+  assert.deepEqual(result.paperData.author_list[0], { given: 'Ada', family: 'Lovelace', orcid: '0000-0002-1825-0097' });
+  assert.deepEqual(result.paperData.author_list[1], { given: 'Jan', family: 'van der Berg', orcid: null });
+});
+
+test('un DOI absent des fixtures ou vide donne null', async () => {
+  const resolver = createMetadataResolver({ fixturesDir: FIXTURES_DIR, http: offlineHttp });
+
+  assert.equal(await resolver.resolveDoi('10.1000/unknown'), null);
+  assert.equal(await resolver.resolveDoi('   '), null);
+});
+
+test('une notice trouvée est servie par le cache disque', async (t) => {
+  const http = countingHttp(() => crossrefFixture());
+  const { resolver, cacheDir } = cachedResolver(t, http);
+
+  const first = await resolver.resolveDoi(FIXTURE_DOI);
+  const second = await resolver.resolveDoi(FIXTURE_DOI.toUpperCase());
+
+  assert.equal(http.calls.length, 1);
+  assert.equal(http.calls[0], `https://api.crossref.org/works/${FIXTURE_DOI}`);
+  assert.deepEqual(second.sources, ['crossref']);
+  assert.equal(second.paperData.title, first.paperData.title);
+
+  const entry = JSON.parse(fs.readFileSync(path.join(cacheDir, 'crossref', entryFileName(FIXTURE_DOI)), 'utf8'));
+  assert.equal(entry.found, true);
+});
+
+test('un 404 est mis en cache comme introuvable', async (t) => {
+  const http = countingHttp(() => {
+    throw Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } });
+  });
+  const { resolver, cacheDir } = cachedResolver(t, http);
+
+  assert.equal(await resolver.resolveDoi('10.1000/missing'), null);
+  assert.equal(await resolver.resolveDoi('10.1000/missing'), null);
+  assert.equal(http.calls.length, 1);
+
+  const entry = JSON.parse(fs.readFileSync(path.join(cacheDir, 'crossref', entryFileName('10.1000/missing')), 'utf8'));
+  assert.deepEqual({ found: entry.found, data: entry.data }, { found: false, data: null });
+});
+
+test('une panne de tous les fournisseurs est signalée et n\'est pas mise en cache', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const http = countingHttp(() => {
+    throw Object.assign(new Error('Request failed with status code 503'), { response: { status: 503 } });
+  });
+  const { resolver } = cachedResolver(t, http);
+
+  await assert.rejects(resolver.resolveDoi(FIXTURE_DOI), /Fournisseurs de métadonnées indisponibles \(Crossref: .*503\)/);
+  await assert.rejects(resolver.resolveDoi(FIXTURE_DOI), /indisponibles/);
+  assert.equal(http.calls.length, 2);
+});
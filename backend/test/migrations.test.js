@@ -0,0 +1,210 @@
+// backend/test/migrations.test.js - Mise à niveau d'une base au schéma d'origine par toutes les migrations numérotées
+const { test, before, after, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const sqlite3 = require('sqlite3');
+
+// La base et les sauvegardes sont lues dans l'environnement au chargement des modules
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'formpaper-migrations-'));
+process.env.PAPER_DB_PATH = path.join(workDir, 'paperDatabase.db');
+process.env.BACKUP_DIR = path.join(workDir, 'backups');
+
+const { initDatabase, closeDatabase, migrationQuery } = require('../src/database/database');
+const { loadMigrations, runMigrations } = require('../src/database/migrator');
+
+// Schéma des bases créées avant le suivi des versions (DOI et URL obligatoires, pas de schema_migrations)
+const BASELINE_SCHEMA = `
+  CREATE TABLE Papers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    title TEXT NOT NULL,
+    authors TEXT NOT NULL,
+    publication_date DATE NOT NULL,
+    conference TEXT,
+    reading_status TEXT DEFAULT 'non_lu',
+    image TEXT,
+    doi TEXT NOT NULL UNIQUE,
+    url TEXT NOT NULL,
+    folder_path TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  , conference_abbreviation TEXT);
+  CREATE TABLE Categories (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE
+  );
+  CREATE TABLE PaperCategories (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    paper_id INTEGER,
+    categorie_id INTEGER,
+    FOREIGN KEY (paper_id) REFERENCES Papers(id) ON DELETE CASCADE,
+    FOREIGN KEY (categorie_id) REFERENCES Categories(id) ON DELETE CASCADE
+  );
+  CREATE TABLE Descriptions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    paper_id INTEGER UNIQUE,
+    texte TEXT,
+    images TEXT,
+    FOREIGN KEY (paper_id) REFERENCES Papers(id) ON DELETE CASCADE
+  );
+`;
+
+const BASELINE_DATA = `
+  INSERT INTO Papers (id, title, authors, publication_date, conference, reading_status, doi, url, folder_path, created_at) VALUES
+    (1, 'Haptic Feedback in VR', 'Chang-Min Kim, Tek-Jin Nam', '2024-05-11',
+     'International Journal of Human-Computer Studies', 'lu', '10.1016/j.ijhcs.2024.1', 'https://doi.org/10.1016/j.ijhcs.2024.1',
+     'MyPaperList/1_haptic', '2024-06-01 10:00:00'),
+    (2, 'Attention Revisited', 'Lovelace, Ada and van der Berg, Jan', '2021-01-04',
+     'arXiv', 'en_cours', '10.48550/arXiv.2101.00001', 'https://arxiv.org/abs/2101.00001',
+     'MyPaperList/2_attention', '2024-06-02 11:00:00'),
+    (3, 'Notes on Engines', 'Babbage, Charles; Lovelace, Ada', '1843-10-01',
+     NULL, 'non_lu', '10.1000/engines', 'https://example.org/engines',
+     NULL, '2024-06-03 12:00:00');
+  INSERT INTO Categories (id, name) VALUES (1, 'IHM'), (2, 'Apprentissage');
+  INSERT INTO PaperCategories (paper_id, categorie_id) VALUES (1, 1), (2, 2), (3, 1), (2, 99), (42, 1);
+  INSERT INTO Descriptions (paper_id, texte, images) VALUES (1, 'Résumé de lecture', '[]');
+`;
+
+/**
+ * Créer la base de fixture au schéma d'origine (connexion séparée, fermée avant la migration)
+ */
+function createBaselineDatabase(dbPath) {
+  return new Promise((resolve, reject) => {
+    const db = new sqlite3.Database(dbPath, (openError) => {
+      if (openError) return reject(openError);
+      db.exec(BASELINE_SCHEMA + BASELINE_DATA, (execError) => {
+        db.close(closeError => (execError || closeError ? reject(execError || closeError) : resolve()));
+      });
+    });
+  });
+}
+
+const query = (sql, params) => migrationQuery('all', sql, params);
+
+let firstRun;
+
+before(async () => {
+  mock.method(console, 'log', () => {});
+  await createBaselineDatabase(process.env.PAPER_DB_PATH);
+  await initDatabase();
+  firstRun = await runMigrations();
+});
+
+after(async () => {
+  await closeDatabase();
+  mock.restoreAll();
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test('toutes les migrations numérotées sont appliquées et enregistrées', async () => {
+  const versions = loadMigrations().map(migration => migration.version);
+  const recorded = await query('SELECT version, name FROM schema_migrations ORDER BY version');
+
+  assert.equal(firstRun.fromVersion, 0);
+  assert.equal(firstRun.toVersion, Math.max(...versions));
+  assert.deepEqual(firstRun.applied.map(migration => migration.version), versions);
+  assert.deepEqual(recorded.map(row => row.version), versions);
+  assert.deepEqual(recorded.map(row => row.name), loadMigrations().map(migration => migration.name));
+
+  // Une base au schéma d'origine est sauvegardée avant d'être modifiée
+  assert.ok(firstRun.backupPath && fs.existsSync(firstRun.backupPath));
+});
+
+test('les nouvelles tables et colonnes existent', async () => {
+  const tables = (await query("SELECT name FROM sqlite_master WHERE type = 'table'")).map(row => row.name);
+  for (const table of ['schema_migrations', 'PaperSearchIndex', 'Authors', 'PaperAuthors', 'Venues', 'VenueAliases', 'Attachments']) {
+    assert.ok(tables.includes(table), `table ${table} manquante`);
+  }
+
+  const paperColumns = (await query('PRAGMA table_info(Papers)')).map(column => column.name);
+  for (const column of ['item_type', 'arxiv_id', 'isbn', 'publisher', 'arxiv_version', 'abstract', 'keywords', 'venue_id', 'deleted_at', 'rating']) {
+    assert.ok(paperColumns.includes(column), `colonne Papers.${column} manquante`);
+  }
+
+  const categoryColumns = (await query('PRAGMA table_info(Categories)')).map(column => column.name);
+  assert.deepEqual(['parent_id', 'color', 'icon'].filter(column => !categoryColumns.includes(column)), []);
+
+  // Le DOI n'est plus obligatoire
+  const doiColumn = (await query('PRAGMA table_info(Papers)')).find(column => column.name === 'doi');
+  assert.equal(doiColumn.notnull, 0);
+});
+
+test('les papers, catégories, liaisons et descriptions sont conservés', async () => {
+  const papers = await query('SELECT id, title, publication_date, conference, reading_status, doi, url, folder_path, created_at, deleted_at, rating FROM Papers ORDER BY id');
+
+  assert.deepEqual(papers.map(paper => [paper.id, paper.title, paper.reading_status, paper.doi, paper.created_at]), [
+    [1, 'Haptic Feedback in VR', 'lu', '10.1016/j.ijhcs.2024.1', '2024-06-01 10:00:00'],
+    [2, 'Attention Revisited', 'en_cours', '10.48550/arXiv.2101.00001', '2024-06-02 11:00:00'],
+    [3, 'Notes on Engines', 'non_lu', '10.1000/engines', '2024-06-03 12:00:00']
+  ]);
+  assert.equal(papers[0].folder_path, 'MyPaperList/1_haptic');
+  assert.ok(papers.every(paper => paper.deleted_at === null && paper.rating === null));
+
+  const categories = await query('SELECT id, name, parent_id FROM Categories ORDER BY id');
+  assert.deepEqual(categories.map(category => ({ ...category })), [
+    { id: 1, name: 'IHM', parent_id: null },
+    { id: 2, name: 'Apprentissage', parent_id: null }
+  ]);
+
+  // Les liaisons existantes prennent la date d'ajout de leur paper
+  const links = await query(`
+    SELECT pc.paper_id, pc.categorie_id, pc.created_at = p.created_at AS dated
+    FROM PaperCategories pc JOIN Papers p ON p.id = pc.paper_id
+    ORDER BY pc.paper_id
+  `);
+  assert.deepEqual(links.map(link => [link.paper_id, link.categorie_id, link.dated]), [[1, 1, 1], [2, 2, 1], [3, 1, 1]]);
+
+  // Les liaisons vers une catégorie ou un paper supprimés sont retirées
+  const [{ orphans }] = await query(`
+    SELECT COUNT(*) AS orphans FROM PaperCategories
+    WHERE categorie_id NOT IN (SELECT id FROM Categories) OR paper_id NOT IN (SELECT id FROM Papers)
+  `);
+  assert.equal(orphans, 0);
+
+  const descriptions = await query('SELECT paper_id, texte FROM Descriptions');
+  assert.deepEqual(descriptions.map(description => ({ ...description })), [{ paper_id: 1, texte: 'Résumé de lecture' }]);
+});
+
+test('les types de documents, auteurs et venues sont repris des données existantes', async () => {
+  const papers = await query('SELECT id, item_type, arxiv_id, authors, venue_id, conference_abbreviation FROM Papers ORDER BY id');
+
+  assert.equal(papers[1].item_type, 'preprint');
+  assert.equal(papers[1].arxiv_id, '2101.00001');
+
+  // Les anciennes chaînes "Nom, Prénom and ..." ou séparées par ";" sont découpées par auteur
+  assert.deepEqual(papers.map(paper => paper.authors), [
+    'Chang-Min Kim, Tek-Jin Nam',
+    'Ada Lovelace, Jan van der Berg',
+    'Charles Babbage, Ada Lovelace'
+  ]);
+
+  const authors = await query(`
+    SELECT pa.paper_id, a.given_name, a.family_name
+    FROM PaperAuthors pa JOIN Authors a ON a.id = pa.author_id
+    ORDER BY pa.paper_id, pa.position
+  `);
+  assert.deepEqual(authors.map(author => [author.paper_id, author.given_name, author.family_name]), [
+    [1, 'Chang-Min', 'Kim'],
+    [1, 'Tek-Jin', 'Nam'],
+    [2, 'Ada', 'Lovelace'],
+    [2, 'Jan', 'van der Berg'],
+    [3, 'Charles', 'Babbage'],
+    [3, 'Ada', 'Lovelace']
+  ]);
+  const [{ count }] = await query("SELECT COUNT(*) AS count FROM Authors WHERE family_name = 'Lovelace'");
+  assert.equal(count, 1);
+
+  // Les papers existants sont rattachés au registre des venues par la migration elle-même
+  const [venue] = await query('SELECT id, abbreviation FROM Venues WHERE id = ?', [papers[0].venue_id]);
+  assert.equal(venue.abbreviation, 'IJHCS');
+  assert.equal(papers[0].conference_abbreviation, 'IJHCS');
+  assert.equal(papers[2].venue_id, null);
+});
+
+test('une seconde exécution ne rejoue aucune migration', async () => {
+  const secondRun = await runMigrations();
+
+  assert.deepEqual(secondRun.applied, []);
+  assert.equal(secondRun.fromVersion, firstRun.toVersion);
+  assert.equal(secondRun.backupPath, null);
+});
@@ -0,0 +1,209 @@
+// backend/test/trash.test.js - Un paper de la corbeille refuse les écritures et retrouve ses fichiers à la restauration
+const { test, before, after, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// La base, les sauvegardes et MyPaperList (relatif au dossier courant) sont isolés dans un dossier temporaire
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'formpaper-trash-'));
+process.env.PAPER_DB_PATH = path.join(workDir, 'paperDatabase.db');
+process.env.BACKUP_DIR = path.join(workDir, 'backups');
+const initialCwd = process.cwd();
+process.chdir(workDir);
+
+const app = require('../server');
+const { paperDB } = require('../src/database');
+const { savePaperNotes, getPaperFolderPath } = require('../src/database/fileOperations');
+
+const NOTES = [{ id: 'b1', type: 'text', content: 'Notes de lecture originales' }];
+
+let server;
+let baseUrl;
+
+/**
+ * Requête JSON sur le serveur de test
+ * @returns {Promise<{ status: number, body: Object }>}
+ */
+async function request(method, url, body) {
+  const response = await fetch(`${baseUrl}${url}`, {
+    method,
+    headers: body instanceof FormData ? undefined : { 'Content-Type': 'application/json' },
+    body: body instanceof FormData ? body : body && JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json().catch(() => ({})) };
+}
+
+/**
+ * Créer un paper avec des notes dans son dossier
+ */
+async function createPaperWithNotes(title) {
+  const paper = await paperDB.createCompletePaper({
+    title,
+    authors: 'Ada Lovelace',
+    publication_date: '2024-01-15',
+    item_type: 'journal_article'
+  });
+  await savePaperNotes(paper.id, paper.title, paper.created_at, NOTES);
+  return paper;
+}
+
+const readNotes = (paper) =>
+  JSON.parse(fs.readFileSync(path.join(getPaperFolderPath(paper.id, paper.title, paper.created_at), 'notes.json'), 'utf8')).blocks;
+
+before(async () => {
+  for (const method of ['log', 'warn', 'error']) {
+    mock.method(console, method, () => {});
+  }
+  await paperDB.connect();
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${server.address().port}/api`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await paperDB.disconnect();
+  mock.restoreAll();
+  process.chdir(initialCwd);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test('un paper de la corbeille refuse les écritures et retrouve ses fichiers une fois restauré', async () => {
+  const paper = await createPaperWithNotes('Trashed Writes');
+  const folderPath = getPaperFolderPath(paper.id, paper.title, paper.created_at);
+
+  assert.equal((await request('DELETE', `/papers/${paper.id}`)).status, 200);
+  assert.equal(fs.existsSync(folderPath), false);
+
+  const pdf = new FormData();
+  pdf.append('pdf', new Blob(['%PDF-1.4 fixture']), 'replacement.pdf');
+
+  const writes = [
+    ['GET', `/papers/${paper.id}`],
+    ['PUT', `/papers/${paper.id}`, { title: 'Renamed' }],
+    ['PUT', `/papers/${paper.id}/pdf`, pdf],
+    ['POST', `/papers/${paper.id}/pdf-images`, { selectedImages: [] }],
+    ['POST', `/papers/${paper.id}/pdf-images/extract`, {}],
+    ['POST', `/papers/${paper.id}/notes`, { paperId: paper.id, title: paper.title, createdAt: paper.created_at, blocks: [] }],
+    ['GET', `/papers/${paper.id}/notes?title=${encodeURIComponent(paper.title)}&createdAt=${encodeURIComponent(paper.created_at)}`],
+    ['GET', `/papers/${paper.id}/annotations`],
+    ['POST', `/papers/${paper.id}/annotations`, { page: 1, rects: [{ x: 0, y: 0, width: 1, height: 1 }], color: 'yellow' }]
+  ];
+  for (const [method, url, body] of writes) {
+    assert.equal((await request(method, url, body)).status, 404, `${method} ${url}`);
+  }
+
+  const notesImport = await request('POST', '/papers/notes/import', {
+    export: { folder: { paperId: paper.id, title: paper.title, createdAt: paper.created_at, blocks: [] } }
+  });
+  assert.equal(notesImport.body.imported, 0);
+
+  // Aucun dossier ne doit avoir été recréé dans MyPaperList à la place de celui de la corbeille
+  assert.equal(fs.existsSync(folderPath), false);
+  assert.equal((await paperDB.papers.getById(paper.id)).title, 'Trashed Writes');
+
+  const restore = await request('POST', '/papers/trash/restore', { ids: [paper.id] });
+  assert.equal(restore.status, 200);
+  assert.deepEqual(restore.body.restoredIds, [paper.id]);
+  assert.deepEqual(readNotes(paper), NOTES);
+  assert.equal((await request('GET', `/papers/${paper.id}`)).status, 200);
+});
+
+test('la recherche plein texte ignore les papers de la corbeille, même réindexés', async () => {
+  const paper = await createPaperWithNotes('Quasicrystalline Lattices');
+  const search = async () => (await request('GET', '/search?q=quasicrystalline')).body;
+
+  assert.deepEqual((await search()).data.map(hit => hit.paper.id), [paper.id]);
+
+  await request('DELETE', `/papers/${paper.id}`);
+  // Une écriture qui réindexerait le paper par erreur ne le fait pas réapparaître
+  await paperDB.search.indexPaperMetadata(paper.id);
+  await paperDB.search.indexPaperNotes(paper.id, NOTES);
+  await paperDB.search.replaceEntry(paper.id, 'pdf', 'quasicrystalline');
+
+  const hidden = await search();
+  assert.equal(hidden.total, 0);
+  assert.deepEqual(hidden.data, []);
+
+  await request('POST', '/papers/trash/restore', { ids: [paper.id] });
+  assert.deepEqual((await search()).data.map(hit => hit.paper.id), [paper.id]);
+});
+
+test('un paper dont le dossier ne peut pas être remis en place reste dans la corbeille', async () => {
+  const paper = await createPaperWithNotes('Blocked Restore');
+  const folderPath = getPaperFolderPath(paper.id, paper.title, paper.created_at);
+
+  await request('DELETE', `/papers/${paper.id}`);
+  fs.mkdirSync(folderPath, { recursive: true });
+
+  const restore = await request('POST', '/papers/trash/restore', { ids: [paper.id] });
+  assert.equal(restore.status, 409);
+  assert.deepEqual(restore.body.blockedIds, [paper.id]);
+  assert.deepEqual(restore.body.restoredIds, []);
+  assert.ok((await paperDB.papers.getById(paper.id)).deleted_at);
+
+  // Le dossier d'origine est toujours dans la corbeille ; il est remis en place une fois la voie libre
+  fs.rmSync(folderPath, { recursive: true });
+  assert.equal((await request('POST', '/papers/trash/restore', { ids: [paper.id] })).status, 200);
+  assert.deepEqual(readNotes(paper), NOTES);
+});
+
+test('un paper de la corbeille ne peut pas être fusionné', async () => {
+  const survivor = await createPaperWithNotes('Merge Survivor');
+  const duplicate = await createPaperWithNotes('Merge Duplicate');
+
+  await request('DELETE', `/papers/${duplicate.id}`);
+  for (const ids of [[survivor.id, duplicate.id], [duplicate.id, survivor.id]]) {
+    const merge = await request('POST', '/papers/merge', { survivorId: ids[0], duplicateId: ids[1] });
+    assert.equal(merge.status, 409);
+  }
+
+  assert.ok(await paperDB.papers.getById(duplicate.id));
+  assert.deepEqual(readNotes(survivor), NOTES);
+});
+
+test('la modification d\'un paper refuse les colonnes gérées par le serveur et les champs requis vides', async () => {
+  const paper = await createPaperWithNotes('Protected Columns');
+  const folderPath = getPaperFolderPath(paper.id, paper.title, paper.created_at);
+
+  for (const updates of [{ deleted_at: '2024-01-01 00:00:00' }, { folder_path: '/tmp' }, { id: 999 }, { authors: '' }, { item_type: 'thesis' }]) {
+    assert.equal((await request('PUT', `/papers/${paper.id}`, updates)).status, 400, JSON.stringify(updates));
+  }
+
+  const stored = await paperDB.papers.getById(paper.id);
+  assert.equal(stored.deleted_at, null);
+  assert.equal(stored.folder_path, folderPath);
+  assert.equal(stored.authors, 'Ada Lovelace');
+
+  const update = await request('PUT', `/papers/${paper.id}`, { item_type: 'thesis', publisher: 'EPFL', rating: 4 });
+  assert.equal(update.status, 200);
+  assert.equal(update.body.paper.item_type, 'thesis');
+});
+
+test('une prépublication de la corbeille bloque sa recréation par les deux routes de création', async () => {
+  const preprint = await paperDB.createCompletePaper({
+    title: 'Trashed Preprint',
+    authors: 'Ada Lovelace',
+    publication_date: '2024-01-15',
+    item_type: 'preprint',
+    arxiv_id: '2401.00001',
+    arxiv_version: 'v1'
+  });
+  await request('DELETE', `/papers/${preprint.id}`);
+
+  const form = (fields) => {
+    const body = new FormData();
+    Object.entries({ title: 'Again', authors: 'Ada Lovelace', publication_date: '2024-02-01', ...fields })
+      .forEach(([key, value]) => body.append(key, value));
+    return body;
+  };
+
+  const invalidCategories = await request('POST', '/papers', form({ categories: '[1,' }));
+  assert.equal(invalidCategories.status, 400);
+
+  for (const url of ['/papers', '/papers/create-complete']) {
+    const created = await request('POST', url, form({ item_type: 'preprint', arxiv_id: '2401.00001', arxiv_version: 'v2' }));
+    assert.equal(created.status, 409, url);
+    assert.equal(created.body.trashedPaperId, preprint.id);
+  }
+});
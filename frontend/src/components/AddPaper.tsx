@@ -3,8 +3,12 @@ import React, { useState, useEffect } from 'react';
 import { paperService } from '../services/paperService';
 import { useToast } from '../contexts/ToastContext';
 import AddPaperByDOI from './AddPaperByDOI';
+import AddPaperByArxiv from './AddPaperByArxiv';
 import AddPaperByPDF from './AddPaperByPDF';
-import type { PaperData, Category } from '../types/Paper';
+import AddPaperByImport from './AddPaperByImport';
+import AuthorInput from './AuthorInput';
+import { ITEM_TYPE_CONFIGS, getItemTypeConfig, getItemFieldLabel, getMissingItemFields, getAuthorName } from '../types/Paper';
+import type { PaperData, Category, ItemType, ItemField, ArxivMetadata, AuthorSummary } from '../types/Paper';
 
 interface ExtractedImage {
   id: string;
@@ -13,18 +17,33 @@ interface ExtractedImage {
   page: number;
   width?: number;
   height?: number;
+  caption?: string | null;
+  hash?: string | null;
   buffer?: Buffer;
 }
 
 interface AddPaperProps {
   onClose?: () => void;
   onSave?: (paperData: PaperData) => void;
+  onPapersImported?: (count: number) => void;
 }
 
-const InputMethodValues = ['doi', 'pdf', 'form'] as const;
+const InputMethodValues = ['doi', 'arxiv', 'pdf', 'import', 'form'] as const;
 type InputMethod = typeof InputMethodValues[number];
 
-const AddPaper: React.FC<AddPaperProps> = ({ onClose, onSave }) => {
+// Champs bibliographiques effacés quand ils ne concernent pas le type choisi
+const ALL_ITEM_FIELDS: ItemField[] = ['title', 'authors', 'publication_date', 'conference', 'publisher', 'doi', 'arxiv_id', 'isbn', 'url'];
+
+// Type de saisie de chaque champ du formulaire
+const ITEM_FIELD_INPUTS: Partial<Record<ItemField, { type: string; placeholder?: string }>> = {
+  publication_date: { type: 'date' },
+  url: { type: 'url', placeholder: 'https://...' },
+  doi: { type: 'text', placeholder: '10.1145/3532106.3533472' },
+  arxiv_id: { type: 'text', placeholder: '2101.00001' },
+  isbn: { type: 'text', placeholder: '978-2-07-036822-8' }
+};
+
+const AddPaper: React.FC<AddPaperProps> = ({ onClose, onSave, onPapersImported }) => {
   // États de navigation
 const [currentStep, setCurrentStep] = useState<InputMethod>('doi');
   const [isLoading, setIsLoading] = useState(false);
@@ -38,13 +57,17 @@ const [currentStep, setCurrentStep] = useState<InputMethod>('doi');
     publication_date: '',
     url: '',
     image: '',
-    reading_status: 'non_lu'
+    reading_status: 'non_lu',
+    item_type: 'journal_article'
   });
   
   // États PDF
   const [pdfFile, setPdfFile] = useState<File | null>(null);
   const [selectedImages, setSelectedImages] = useState<ExtractedImage[]>([]);
   const [imageFile, setImageFile] = useState<File | null>(null);
+  const [description, setDescription] = useState('');
+  // PDF d'une prépublication téléchargé par le serveur à l'enregistrement
+  const [downloadArxivPdf, setDownloadArxivPdf] = useState(false);
 
   // États pour les tags
   const [tags, setTags] = useState<Category[]>([]);
@@ -106,17 +129,30 @@ const [currentStep, setCurrentStep] = useState<InputMethod>('doi');
 
   // Callbacks pour les sous-composants
   const handleDOISuccess = (data: PaperData) => {
-    setPaperData(data);
+    setPaperData({ ...data, item_type: data.item_type || 'journal_article' });
+    setCurrentStep('form');
+  };
+
+  // Le résumé et les catégories arXiv sont repris dans paperData (résumé, mots-clés)
+  const handleArxivSuccess = (metadata: ArxivMetadata) => {
+    setPaperData({ ...metadata.paperData, item_type: metadata.paperData.item_type || 'preprint' });
+    setDownloadArxivPdf(true);
     setCurrentStep('form');
   };
 
   const handlePDFSuccess = (result: { paperData: PaperData; pdfFile: File; selectedImages: ExtractedImage[] }) => {
-    setPaperData(result.paperData);
+    setPaperData({ ...result.paperData, item_type: result.paperData.item_type || 'journal_article' });
     setPdfFile(result.pdfFile);
     setSelectedImages(result.selectedImages);
     setCurrentStep('form');
   };
 
+  // L'import de fichier crée les papers directement, la modale reste ouverte pour afficher le bilan
+  const handleFileImported = (count: number) => {
+    loadTags();
+    if (onPapersImported) onPapersImported(count);
+  };
+
   const handleBackToSelection = () => {
     setCurrentStep('doi');
     // Reset des états
@@ -128,11 +164,14 @@ const [currentStep, setCurrentStep] = useState<InputMethod>('doi');
       publication_date: '',
       url: '',
       image: '',
-      reading_status: 'non_lu'
+      reading_status: 'non_lu',
+      item_type: 'journal_article'
     });
     setPdfFile(null);
     setSelectedImages([]);
     setImageFile(null);
+    setDescription('');
+    setDownloadArxivPdf(false);
     setSelectedTags([]);
   };
 
@@ -141,67 +180,30 @@ const [currentStep, setCurrentStep] = useState<InputMethod>('doi');
     try {
       setIsLoading(true);
       
-      // Validation
-      if (!paperData.title || !paperData.authors || !paperData.doi || !paperData.url) {
-        warning('Veuillez remplir tous les champs obligatoires (titre, auteurs, DOI, URL)');
+      // Validation selon le type de document
+      const missingFields = getMissingItemFields(paperData);
+      if (missingFields.length > 0) {
+        warning(`Veuillez remplir les champs obligatoires : ${missingFields.join(', ')}`);
         return;
       }
+
+      // Les champs masqués par le type choisi ne sont pas enregistrés
+      const visibleFields = getItemTypeConfig(paperData.item_type).fields;
+      const hiddenFields = Object.fromEntries(
+        ALL_ITEM_FIELDS.filter(field => !visibleFields.includes(field)).map(field => [field, null])
+      );
+      const dataToSave: PaperData = { ...paperData, ...hiddenFields };
       
       info('Création de l\'article en cours...', 'Traitement');
       
-      // Préparer les données pour l'API
-      const formData = new FormData();
-      
-      // Ajouter les données du paper
-      Object.entries(paperData).forEach(([key, value]) => {
-        if (value) {
-          formData.append(key, value.toString());
-        }
+      const result = await paperService.createCompletePaper(dataToSave, {
+        pdfFile,
+        selectedImages,
+        categoryIds: selectedTags,
+        description,
+        coverImage: imageFile,
+        downloadArxivPdf: downloadArxivPdf && Boolean(dataToSave.arxiv_id)
       });
-
-      // Ajouter les tags sélectionnés
-      if (selectedTags.length > 0) {
-        formData.append('categories', JSON.stringify(selectedTags));
-      }
-
-      // Ajouter le PDF si présent
-      if (pdfFile) {
-        formData.append('pdf', pdfFile);
-      }
-
-      // Ajouter les images sélectionnées
-      if (selectedImages.length > 0) {
-        formData.append('selectedImages', JSON.stringify(selectedImages));
-      }
-
-      // Ajouter l'image de couverture personnalisée si présente
-      if (imageFile) {
-        formData.append('coverImage', imageFile);
-      }
-
-      // Tentative nouvelle API, fallback vers ancienne
-      let result;
-      try {
-        const response = await fetch('/api/papers/create-complete', {
-          method: 'POST',
-          body: formData
-        });
-
-        if (!response.ok) {
-          throw new Error(`Erreur HTTP: ${response.status}`);
-        }
-
-        result = await response.json();
-      } catch (error) {
-        // Fallback vers l'ancienne méthode
-        console.log('Utilisation de l\'ancienne API de sauvegarde');
-        
-        const paperToSave: PaperData = {
-          ...paperData,
-        };
-        
-        result = await paperService.savePaper(paperToSave);
-      }
       
       console.log('Article créé:', result);
 
@@ -214,8 +216,8 @@ const [currentStep, setCurrentStep] = useState<InputMethod>('doi');
       const successMessage = [
         `Article "${paperData.title}" créé avec succès !`,
         result.folderName ? `📁 Dossier: ${result.folderName}` : '',
-        pdfFile ? `📄 PDF sauvegardé` : '',
-        selectedImages.length > 0 ? `🖼️ ${selectedImages.length} images sauvegardées` : ''
+        pdfFile || (downloadArxivPdf && dataToSave.arxiv_id) ? `📄 PDF sauvegardé` : '',
+        result.savedImages > 0 ? `🖼️ ${result.savedImages} images sauvegardées` : ''
       ].filter(Boolean).join('\n');
 
       success(successMessage, 'Création réussie', 7000);
@@ -235,6 +237,27 @@ const [currentStep, setCurrentStep] = useState<InputMethod>('doi');
     }
   };
 
+  // Changer le type de document (les champs affichés et requis en dépendent)
+  const handleItemTypeChange = (itemType: ItemType) => {
+    setPaperData(prev => ({ ...prev, item_type: itemType }));
+  };
+
+  const updateItemField = (field: ItemField, value: string) => {
+    setPaperData(prev => ({ ...prev, [field]: value }));
+  };
+
+  // Auteur connu choisi dans l'autocomplétion : son ORCID accompagne le nom
+  const handleSelectAuthor = (author: AuthorSummary) => {
+    const { given, family, orcid } = author;
+    setPaperData(prev => ({
+      ...prev,
+      author_list: [
+        ...(prev.author_list || []).filter(entry => getAuthorName(entry) !== getAuthorName(author)),
+        { given, family, orcid }
+      ]
+    }));
+  };
+
   // Upload d'image de couverture
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -243,38 +266,48 @@ const [currentStep, setCurrentStep] = useState<InputMethod>('doi');
     }
   };
 
+  // Navigation entre les méthodes d'ajout (DOI, arXiv, PDF, import de fichier)
+  const renderMethodTabs = () => {
+    const methods: Array<{ step: InputMethod; label: string; activeColor: string }> = [
+      { step: 'doi', label: 'Par DOI', activeColor: 'bg-blue-600' },
+      { step: 'arxiv', label: 'Par arXiv', activeColor: 'bg-orange-600' },
+      { step: 'pdf', label: 'Par PDF', activeColor: 'bg-green-600' },
+      { step: 'import', label: 'Import fichier', activeColor: 'bg-purple-600' },
+      // Thèses, rapports, prépublications : documents souvent sans DOI
+      { step: 'form', label: 'Saisie manuelle', activeColor: 'bg-gray-700' }
+    ];
+
+    return (
+      <div className="flex justify-center mb-6">
+        <div className="inline-flex rounded-lg border border-gray-200 p-1 bg-gray-50">
+          {methods.map(({ step, label, activeColor }) => (
+            <button
+              key={step}
+              onClick={() => setCurrentStep(step)}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                currentStep === step
+                  ? `${activeColor} text-white shadow-sm`
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const itemTypeConfig = getItemTypeConfig(paperData.item_type);
+  const missingFields = getMissingItemFields(paperData);
+
   // Rendu conditionnel selon l'étape
   const renderContent = () => {
     switch (currentStep) {
       case 'doi':
         return (
           <div className="space-y-6">
-            {/* Navigation entre DOI et PDF */}
-            <div className="flex justify-center mb-6">
-              <div className="inline-flex rounded-lg border border-gray-200 p-1 bg-gray-50">
-                <button
-                  onClick={() => setCurrentStep('doi')}
-                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                    currentStep === 'doi'
-                      ? 'bg-blue-600 text-white shadow-sm'
-                      : 'text-gray-600 hover:text-gray-900 hover:bg-white'
-                  }`}
-                >
-                  Par DOI
-                </button>
-                <button
-                  onClick={() => setCurrentStep('pdf')}
-                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                    currentStep === 'pdf'
-                      ? 'bg-green-600 text-white shadow-sm'
-                      : 'text-gray-600 hover:text-gray-900 hover:bg-white'
-                  }`}
-                >
-                  Par PDF
-                </button>
-              </div>
-            </div>
-            
+            {renderMethodTabs()}
             <AddPaperByDOI
               onSuccess={handleDOISuccess}
               onCancel={() => {}}
@@ -282,35 +315,18 @@ const [currentStep, setCurrentStep] = useState<InputMethod>('doi');
           </div>
         );
 
+      case 'arxiv':
+        return (
+          <div className="space-y-6">
+            {renderMethodTabs()}
+            <AddPaperByArxiv onSuccess={handleArxivSuccess} />
+          </div>
+        );
+
       case 'pdf':
         return (
           <div className="space-y-6">
-            {/* Navigation entre DOI et PDF */}
-            <div className="flex justify-center mb-6">
-              <div className="inline-flex rounded-lg border border-gray-200 p-1 bg-gray-50">
-                <button
-                  onClick={() => setCurrentStep('doi')}
-                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                    currentStep === 'doi'
-                      ? 'bg-blue-600 text-white shadow-sm'
-                      : 'text-gray-600 hover:text-gray-900 hover:bg-white'
-                  }`}
-                >
-                  Par DOI
-                </button>
-                <button
-                  onClick={() => setCurrentStep('pdf')}
-                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                    currentStep === 'pdf'
-                      ? 'bg-green-600 text-white shadow-sm'
-                      : 'text-gray-600 hover:text-gray-900 hover:bg-white'
-                  }`}
-                >
-                  Par PDF
-                </button>
-              </div>
-            </div>
-            
+            {renderMethodTabs()}
             <AddPaperByPDF
               onSuccess={handlePDFSuccess}
               onCancel={() => {}}
@@ -318,120 +334,173 @@ const [currentStep, setCurrentStep] = useState<InputMethod>('doi');
           </div>
         );
 
+      case 'import':
+        return (
+          <div className="space-y-6">
+            {renderMethodTabs()}
+            <AddPaperByImport
+              categories={tags}
+              onImported={handleFileImported}
+            />
+          </div>
+        );
+
       case 'form':
         return (
           <div className="space-y-6">
             {/* Aperçu des données récupérées */}
-            <div className="bg-blue-50 p-6 rounded-lg">
-              <h3 className="text-xl font-bold mb-4 text-blue-800">{paperData.title}</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                <div>
-                  <span className="font-medium text-gray-700">Auteurs:</span>
-                  <span className="ml-2 text-gray-600">{paperData.authors}</span>
-                </div>
-                <div>
-                  <span className="font-medium text-gray-700">DOI:</span>
-                  <span className="ml-2 text-blue-600">{paperData.doi}</span>
-                </div>
-                <div>
-                  <span className="font-medium text-gray-700">Conférence:</span>
-                  <span className="ml-2 text-gray-600">{paperData.conference || 'Non spécifiée'}</span>
-                </div>
-                <div>
-                  <span className="font-medium text-gray-700">Date:</span>
-                  <span className="ml-2 text-gray-600">{paperData.publication_date || 'Non spécifiée'}</span>
+            {paperData.title && (
+              <div className="bg-blue-50 p-6 rounded-lg">
+                <h3 className="text-xl font-bold mb-4 text-blue-800">{paperData.title}</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <span className="font-medium text-gray-700">Auteurs:</span>
+                    <span className="ml-2 text-gray-600">{paperData.authors || 'Non spécifiés'}</span>
+                  </div>
+                  <div>
+                    <span className="font-medium text-gray-700">Type:</span>
+                    <span className="ml-2 text-gray-600">{itemTypeConfig.label}</span>
+                  </div>
+                  {paperData.doi && (
+                    <div>
+                      <span className="font-medium text-gray-700">DOI:</span>
+                      <span className="ml-2 text-blue-600">{paperData.doi}</span>
+                    </div>
+                  )}
+                  {paperData.arxiv_id && (
+                    <div>
+                      <span className="font-medium text-gray-700">arXiv:</span>
+                      <span className="ml-2 text-blue-600">{paperData.arxiv_id}{paperData.arxiv_version || ''}</span>
+                    </div>
+                  )}
+                  <div>
+                    <span className="font-medium text-gray-700">{getItemFieldLabel(paperData.item_type, 'conference')}:</span>
+                    <span className="ml-2 text-gray-600">{paperData.conference || 'Non spécifiée'}</span>
+                  </div>
+                  <div>
+                    <span className="font-medium text-gray-700">Date:</span>
+                    <span className="ml-2 text-gray-600">{paperData.publication_date || 'Non spécifiée'}</span>
+                  </div>
                 </div>
+                {paperData.url && (
+                  <div className="mt-3">
+                    <a
+                      href={paperData.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:text-blue-800 underline text-sm"
+                    >
+                      Lien vers l'article
+                    </a>
+                  </div>
+                )}
               </div>
-              <div className="mt-3">
-                <a
-                  href={paperData.url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-blue-600 hover:text-blue-800 underline text-sm"
-                >
-                  Lien vers l'article
-                </a>
+            )}
+
+            {/* Type de document */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Type de document
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(ITEM_TYPE_CONFIGS) as ItemType[]).map(itemType => (
+                  <button
+                    key={itemType}
+                    type="button"
+                    onClick={() => handleItemTypeChange(itemType)}
+                    className={`px-3 py-2 rounded-full text-sm font-medium transition-colors ${
+                      (paperData.item_type || 'journal_article') === itemType
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    }`}
+                  >
+                    {ITEM_TYPE_CONFIGS[itemType].icon} {ITEM_TYPE_CONFIGS[itemType].label}
+                  </button>
+                ))}
               </div>
+              {itemTypeConfig.requiredOneOf && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Renseignez au moins un identifiant : {itemTypeConfig.requiredOneOf
+                    .map(field => getItemFieldLabel(paperData.item_type, field))
+                    .join(', ')}
+                </p>
+              )}
             </div>
 
-            {/* Champs éditables */}
+            {/* Champs éditables (selon le type de document) */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Titre *
-                </label>
-                <input
-                  type="text"
-                  value={paperData.title}
-                  onChange={(e) => setPaperData(prev => ({ ...prev, title: e.target.value }))}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  required
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Auteurs *
-                </label>
-                <input
-                  type="text"
-                  value={paperData.authors}
-                  onChange={(e) => setPaperData(prev => ({ ...prev, authors: e.target.value }))}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  required
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  DOI *
-                </label>
-                <input
-                  type="text"
-                  value={paperData.doi}
-                  onChange={(e) => setPaperData(prev => ({ ...prev, doi: e.target.value }))}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  required
-                />
-              </div>
+              {itemTypeConfig.fields.map(field => {
+                const input = ITEM_FIELD_INPUTS[field] || { type: 'text' };
+                const isRequired = itemTypeConfig.required.includes(field);
+
+                return (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {getItemFieldLabel(paperData.item_type, field)}{isRequired && ' *'}
+                    </label>
+                    {field === 'authors' ? (
+                      <AuthorInput
+                        value={paperData.authors || ''}
+                        onChange={(value) => updateItemField(field, value)}
+                        onSelectAuthor={handleSelectAuthor}
+                        placeholder={input.placeholder}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        required={isRequired}
+                      />
+                    ) : (
+                      <input
+                        type={input.type}
+                        value={paperData[field] || ''}
+                        onChange={(e) => updateItemField(field, e.target.value)}
+                        placeholder={input.placeholder}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        required={isRequired}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Conférence
-                </label>
-                <input
-                  type="text"
-                  value={paperData.conference || ''}
-                  onChange={(e) => setPaperData(prev => ({ ...prev, conference: e.target.value }))}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                />
-              </div>
+            {/* Résumé et mots-clés (pré-remplis par le fournisseur de métadonnées) */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Résumé
+              </label>
+              <textarea
+                value={paperData.abstract || ''}
+                onChange={(e) => setPaperData(prev => ({ ...prev, abstract: e.target.value }))}
+                rows={5}
+                placeholder="Résumé de l'article..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Date de publication
-                </label>
-                <input
-                  type="date"
-                  value={paperData.publication_date || ''}
-                  onChange={(e) => setPaperData(prev => ({ ...prev, publication_date: e.target.value }))}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                />
-              </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Mots-clés
+              </label>
+              <input
+                type="text"
+                value={paperData.keywords || ''}
+                onChange={(e) => setPaperData(prev => ({ ...prev, keywords: e.target.value }))}
+                placeholder="Séparés par des virgules : apprentissage, vision..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  URL *
-                </label>
+            {/* PDF de la prépublication */}
+            {paperData.arxiv_id && !pdfFile && (
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
                 <input
-                  type="url"
-                  value={paperData.url}
-                  onChange={(e) => setPaperData(prev => ({ ...prev, url: e.target.value }))}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  required
+                  type="checkbox"
+                  checked={downloadArxivPdf}
+                  onChange={(e) => setDownloadArxivPdf(e.target.checked)}
+                  className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
                 />
-              </div>
-            </div>
+                <span>Télécharger le PDF depuis arXiv ({paperData.arxiv_id}{paperData.arxiv_version || ''})</span>
+              </label>
+            )}
 
             {/* Images extraites du PDF */}
             {selectedImages.length > 0 && (
@@ -515,6 +584,20 @@ const [currentStep, setCurrentStep] = useState<InputMethod>('doi');
               </div>
             </div>
 
+            {/* Description */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Description (optionnelle)
+              </label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+                placeholder="Remarques sur l'article..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
             {/* Image de couverture */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -545,7 +628,7 @@ const [currentStep, setCurrentStep] = useState<InputMethod>('doi');
 
               <button
                 onClick={handleSavePaper}
-                disabled={isLoading || !paperData.title || !paperData.authors || !paperData.doi || !paperData.url}
+                disabled={isLoading || missingFields.length > 0}
                 className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isLoading ? (
@@ -573,7 +656,9 @@ const [currentStep, setCurrentStep] = useState<InputMethod>('doi');
         <div className="flex-shrink-0 flex items-center justify-between p-6 border-b">
           <h1 className="text-2xl font-bold text-gray-800">
             {currentStep === 'doi' && 'Récupération par DOI'}
-            {currentStep === 'pdf' && 'Import par PDF'}  
+            {currentStep === 'arxiv' && 'Récupération par arXiv'}
+            {currentStep === 'pdf' && 'Import par PDF'}
+            {currentStep === 'import' && 'Import BibTeX / RIS / CSL-JSON'}
             {currentStep === 'form' && 'Finaliser l\'article'}
           </h1>
           <button
@@ -0,0 +1,109 @@
+// frontend/src/components/AddPaperByArxiv.tsx
+import React, { useState } from 'react';
+import { paperService } from '../services/paperService';
+import { useToast } from '../contexts/ToastContext';
+import type { ArxivMetadata } from '../types/Paper';
+
+interface AddPaperByArxivProps {
+  onSuccess: (metadata: ArxivMetadata) => void;
+}
+
+// Identifiant arXiv : 2101.00001, 2101.00001v2, hep-th/9901001, avec ou sans préfixe arXiv:
+const ARXIV_ID_PATTERN = /^(?:arxiv:\s*)?(?:\d{4}\.\d{4,5}|[a-z][a-z-]*(?:\.[a-z]{2})?\/\d{7})(?:v\d+)?$/i;
+
+// URL arxiv.org (abs ou pdf) ou DOI arXiv (10.48550/arXiv.2101.00001)
+const ARXIV_LINK_PATTERN = /arxiv\.org\/(?:abs|pdf)\/|10\.48550\/arxiv\./i;
+
+const AddPaperByArxiv: React.FC<AddPaperByArxivProps> = ({ onSuccess }) => {
+  const [identifier, setIdentifier] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { success, error: showError, warning, info } = useToast();
+
+  const handleSubmit = async () => {
+    const value = identifier.trim();
+    if (!value) return;
+
+    if (!ARXIV_ID_PATTERN.test(value) && !ARXIV_LINK_PATTERN.test(value)) {
+      warning('Identifiant arXiv non reconnu. Vérifiez le format saisi.');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      info('Récupération des métadonnées arXiv en cours...', 'Traitement');
+      const metadata = await paperService.getMetadataFromArxiv(value);
+
+      if (metadata.existingPaper) {
+        warning(`Cette prépublication est déjà dans la bibliothèque : "${metadata.existingPaper.title}"`, 'Doublon');
+        return;
+      }
+
+      success(
+        metadata.version.publishedDoi
+          ? `Métadonnées récupérées (version publiée : ${metadata.version.publishedDoi})`
+          : 'Métadonnées récupérées avec succès !',
+        'Succès'
+      );
+      onSuccess(metadata);
+
+    } catch (error) {
+      console.error('Erreur arXiv:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Erreur inconnue';
+      showError(`Erreur lors de la récupération des métadonnées: ${errorMessage}`, 'Erreur');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">
+          Récupération par arXiv
+        </h3>
+        <p className="text-gray-600">
+          Entrez l'identifiant ou l'URL de la prépublication : les métadonnées et le PDF seront récupérés automatiquement
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Identifiant ou URL arXiv
+          </label>
+          <input
+            type="text"
+            value={identifier}
+            onChange={(e) => setIdentifier(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+            placeholder="https://arxiv.org/abs/1706.03762"
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            disabled={isLoading}
+          />
+          <p className="mt-1 text-sm text-gray-500">
+            Formats acceptés : 1706.03762, arXiv:1706.03762v5, URL abs ou pdf, DOI 10.48550/arXiv.1706.03762
+          </p>
+        </div>
+
+        <button
+          onClick={handleSubmit}
+          disabled={isLoading || !identifier.trim()}
+          className="w-full px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading ? (
+            <div className="flex items-center justify-center">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+              Récupération...
+            </div>
+          ) : (
+            'Récupérer la prépublication'
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AddPaperByArxiv;
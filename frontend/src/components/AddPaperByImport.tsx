@@ -0,0 +1,537 @@
+// frontend/src/components/AddPaperByImport.tsx
+import React, { useMemo, useState } from 'react';
+import { paperService } from '../services/paperService';
+import { useToast } from '../contexts/ToastContext';
+import { BIBLIOGRAPHY_FORMATS, getItemTypeConfig } from '../types/Paper';
+import type {
+  BibliographyFormat,
+  Category,
+  ImportEntryStatus,
+  ImportPreviewEntry,
+  ImportPreviewSummary,
+  ImportResult,
+  ImportResultEntry
+} from '../types/Paper';
+
+interface AddPaperByImportProps {
+  categories: Category[];
+  onImported: (count: number) => void;
+}
+
+type WizardStep = 'source' | 'preview' | 'result';
+
+const WIZARD_STEPS: Array<{ step: WizardStep; label: string }> = [
+  { step: 'source', label: 'Fichier' },
+  { step: 'preview', label: 'Vérification' },
+  { step: 'result', label: 'Bilan' }
+];
+
+const STATUS_CONFIG: Record<ImportEntryStatus, { label: string; color: string }> = {
+  new: { label: 'Nouveau', color: 'bg-green-100 text-green-800' },
+  duplicate: { label: 'Déjà présent', color: 'bg-yellow-100 text-yellow-800' },
+  duplicate_in_file: { label: 'Doublon du fichier', color: 'bg-orange-100 text-orange-800' },
+  invalid: { label: 'Invalide', color: 'bg-red-100 text-red-800' }
+};
+
+// Libellés des champs FormPaper dans le rapport de correspondance
+const TARGET_LABELS: Record<string, string> = {
+  title: 'Titre',
+  authors: 'Auteurs',
+  publication_date: 'Date',
+  conference: 'Conférence',
+  publisher: 'Éditeur / institution',
+  doi: 'DOI',
+  arxiv_id: 'arXiv',
+  isbn: 'ISBN',
+  url: 'URL',
+  keywords: 'Mots-clés',
+  abstract: 'Résumé',
+  description: 'Notes'
+};
+
+// Deviner le format d'après l'extension du fichier
+const formatFromFileName = (name: string): BibliographyFormat | 'auto' => {
+  const extension = name.slice(name.lastIndexOf('.')).toLowerCase();
+  const match = (Object.keys(BIBLIOGRAPHY_FORMATS) as BibliographyFormat[])
+    .find(format => BIBLIOGRAPHY_FORMATS[format].extension === extension);
+  return match || 'auto';
+};
+
+const AddPaperByImport: React.FC<AddPaperByImportProps> = ({ categories, onImported }) => {
+  const [step, setStep] = useState<WizardStep>('source');
+  const [format, setFormat] = useState<BibliographyFormat | 'auto'>('auto');
+  const [detectedFormat, setDetectedFormat] = useState<BibliographyFormat | null>(null);
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [entries, setEntries] = useState<ImportPreviewEntry[]>([]);
+  const [summary, setSummary] = useState<ImportPreviewSummary | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [expandedEntry, setExpandedEntry] = useState<number | null>(null);
+  const [selectedCategories, setSelectedCategories] = useState<number[]>([]);
+  const [keywordsAsCategories, setKeywordsAsCategories] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { success, error: showError, warning } = useToast();
+
+  // Rapport global : nombre d'entrées par correspondance et champs ignorés
+  const mappingReport = useMemo(() => {
+    const mapped = new Map<string, { source: string; target: string; count: number }>();
+    const ignored = new Map<string, number>();
+
+    entries.forEach(entry => {
+      (entry.mapping || []).forEach(({ source, target }) => {
+        const key = `${source}→${target}`;
+        const current = mapped.get(key) || { source, target, count: 0 };
+        mapped.set(key, { ...current, count: current.count + 1 });
+      });
+      (entry.ignored || []).forEach(field => {
+        ignored.set(field, (ignored.get(field) || 0) + 1);
+      });
+    });
+
+    return {
+      mapped: [...mapped.values()].sort((a, b) => Object.keys(TARGET_LABELS).indexOf(a.target) - Object.keys(TARGET_LABELS).indexOf(b.target)),
+      ignored: [...ignored.entries()].sort((a, b) => b[1] - a[1])
+    };
+  }, [entries]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setContent(await file.text());
+      setFileName(file.name);
+      setFormat(formatFromFileName(file.name));
+    } catch (error) {
+      console.error('Erreur lecture du fichier:', error);
+      showError('Impossible de lire le fichier', 'Erreur');
+    }
+  };
+
+  // Analyser le fichier : les nouvelles entrées sont présélectionnées
+  const handlePreview = async () => {
+    if (!content.trim()) return;
+
+    setIsLoading(true);
+
+    try {
+      const preview = await paperService.previewImport(format, content);
+
+      if (preview.entries.length === 0) {
+        warning('Aucune entrée trouvée dans ce fichier');
+        return;
+      }
+
+      setDetectedFormat(preview.format);
+      setEntries(preview.entries);
+      setSummary(preview.summary);
+      setSelected(preview.entries.filter(entry => entry.status === 'new').map(entry => entry.index));
+      setExpandedEntry(null);
+      setStep('preview');
+    } catch (error) {
+      console.error('Erreur analyse du fichier:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Erreur inconnue';
+      showError(`Erreur lors de l'analyse du fichier: ${errorMessage}`, 'Erreur');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (selected.length === 0 || !detectedFormat) return;
+
+    setIsLoading(true);
+
+    try {
+      const importResult = await paperService.importPapers(detectedFormat, content, {
+        selected,
+        categoryIds: selectedCategories,
+        keywordsAsCategories
+      });
+
+      setResult(importResult);
+      setStep('result');
+
+      if (importResult.created.length > 0) {
+        success(`${importResult.created.length} article(s) importé(s)`, 'Import réussi');
+        onImported(importResult.created.length);
+      }
+    } catch (error) {
+      console.error('Erreur import:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Erreur inconnue';
+      showError(`Erreur lors de l'import: ${errorMessage}`, 'Erreur');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    setStep('source');
+    setFormat('auto');
+    setDetectedFormat(null);
+    setContent('');
+    setFileName(null);
+    setEntries([]);
+    setSummary(null);
+    setSelected([]);
+    setResult(null);
+  };
+
+  const toggleEntry = (index: number) => {
+    setSelected(prev =>
+      prev.includes(index)
+        ? prev.filter(i => i !== index)
+        : [...prev, index]
+    );
+  };
+
+  const toggleCategory = (categoryId: number) => {
+    setSelectedCategories(prev =>
+      prev.includes(categoryId)
+        ? prev.filter(id => id !== categoryId)
+        : [...prev, categoryId]
+    );
+  };
+
+  // Indicateur des étapes de l'assistant
+  const renderSteps = () => (
+    <div className="flex items-center justify-center gap-2 text-sm">
+      {WIZARD_STEPS.map(({ step: wizardStep, label }, index) => {
+        const currentIndex = WIZARD_STEPS.findIndex(s => s.step === step);
+        return (
+          <React.Fragment key={wizardStep}>
+            {index > 0 && <div className="w-8 h-px bg-gray-300" />}
+            <div className={`flex items-center gap-2 ${index <= currentIndex ? 'text-purple-700' : 'text-gray-400'}`}>
+              <span className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium ${
+                index < currentIndex
+                  ? 'bg-purple-600 text-white'
+                  : index === currentIndex
+                    ? 'border-2 border-purple-600'
+                    : 'border border-gray-300'
+              }`}>
+                {index + 1}
+              </span>
+              {label}
+            </div>
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+
+  const renderResultList = (title: string, items: ImportResultEntry[], color: string) => (
+    items.length > 0 && (
+      <div>
+        <h4 className={`text-sm font-medium mb-1 ${color}`}>{title}</h4>
+        <ul className="text-sm text-gray-700 space-y-1 max-h-40 overflow-y-auto border border-gray-200 rounded-lg p-3">
+          {items.map(item => (
+            <li key={item.index}>
+              <span className="font-medium">{item.title || `Entrée ${item.index + 1}`}</span>
+              <span className="text-gray-500"> — {item.reason}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )
+  );
+
+  // Étape 3 : bilan de l'import
+  if (step === 'result' && result) {
+    return (
+      <div className="space-y-6">
+        {renderSteps()}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+          <div className="bg-green-50 rounded-lg p-4">
+            <div className="text-2xl font-bold text-green-700">{result.created.length}</div>
+            <div className="text-sm text-green-800">Créés</div>
+          </div>
+          <div className="bg-yellow-50 rounded-lg p-4">
+            <div className="text-2xl font-bold text-yellow-700">{result.conflicts.length}</div>
+            <div className="text-sm text-yellow-800">Conflits</div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-4">
+            <div className="text-2xl font-bold text-gray-700">{result.skipped.length}</div>
+            <div className="text-sm text-gray-800">Ignorés</div>
+          </div>
+          <div className="bg-red-50 rounded-lg p-4">
+            <div className="text-2xl font-bold text-red-700">{result.failed.length}</div>
+            <div className="text-sm text-red-800">En erreur</div>
+          </div>
+        </div>
+
+        {renderResultList('Conflits (doublons)', result.conflicts, 'text-yellow-800')}
+        {renderResultList('Entrées ignorées', result.skipped, 'text-gray-800')}
+        {renderResultList('Erreurs', result.failed, 'text-red-800')}
+
+        <button
+          onClick={handleReset}
+          className="w-full px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+        >
+          Importer un autre fichier
+        </button>
+      </div>
+    );
+  }
+
+  // Étape 2 : vérification des entrées et de la correspondance des champs
+  if (step === 'preview' && summary) {
+    return (
+      <div className="space-y-6">
+        {renderSteps()}
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-600">
+            {detectedFormat && `${BIBLIOGRAPHY_FORMATS[detectedFormat].label} · `}
+            {summary.total} entrée{summary.total > 1 ? 's' : ''} :
+          </span>
+          {(Object.keys(STATUS_CONFIG) as ImportEntryStatus[])
+            .filter(status => summary[status] > 0)
+            .map(status => (
+              <span key={status} className={`px-2 py-0.5 rounded ${STATUS_CONFIG[status].color}`}>
+                {summary[status]} {STATUS_CONFIG[status].label.toLowerCase()}
+              </span>
+            ))}
+        </div>
+
+        {/* Rapport de correspondance des champs */}
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm">
+          <h4 className="font-medium text-gray-800 mb-2">Correspondance des champs</h4>
+          <div className="flex flex-wrap gap-2">
+            {mappingReport.mapped.map(({ source, target, count }) => (
+              <span key={`${source}-${target}`} className="px-2 py-0.5 rounded bg-white border border-gray-200 text-gray-700">
+                <span className="font-mono">{source}</span> → {TARGET_LABELS[target] || target}
+                <span className="text-gray-400"> ({count})</span>
+              </span>
+            ))}
+          </div>
+          {mappingReport.ignored.length > 0 && (
+            <p className="mt-2 text-gray-500">
+              Champs ignorés : {mappingReport.ignored.map(([field, count]) => `${field} (${count})`).join(', ')}
+            </p>
+          )}
+        </div>
+
+        <div className="border border-gray-200 rounded-lg divide-y max-h-80 overflow-y-auto">
+          {entries.map(entry => {
+            const selectable = entry.status === 'new';
+            const isExpanded = expandedEntry === entry.index;
+            return (
+              <div key={entry.index} className={`p-3 ${selectable ? '' : 'opacity-70'}`}>
+                <div className="flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(entry.index)}
+                    onChange={() => toggleEntry(entry.index)}
+                    disabled={!selectable}
+                    className="mt-1"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 truncate">
+                        {entry.paper?.title || entry.citationKey || `Entrée ${entry.index + 1}`}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded text-xs flex-shrink-0 ${STATUS_CONFIG[entry.status].color}`}>
+                        {STATUS_CONFIG[entry.status].label}
+                      </span>
+                    </div>
+                    {entry.paper && (
+                      <p className="text-sm text-gray-600 truncate">
+                        {entry.paper.authors}
+                        {entry.paper.publication_date && ` · ${entry.paper.publication_date.slice(0, 4)}`}
+                        {entry.paper.doi ? ` · ${entry.paper.doi}` : entry.paper.arxiv_id && ` · arXiv:${entry.paper.arxiv_id}`}
+                      </p>
+                    )}
+                    {entry.existingPaper && (
+                      <p className="text-xs text-yellow-700">Déjà dans la bibliothèque : {entry.existingPaper.title}</p>
+                    )}
+                    {entry.duplicateOf !== undefined && (
+                      <p className="text-xs text-orange-700">Même identifiant que l'entrée {entry.duplicateOf + 1}</p>
+                    )}
+                    {entry.errors.length > 0 && (
+                      <p className="text-xs text-red-700">{entry.errors.join(', ')}</p>
+                    )}
+                  </div>
+                  {entry.paper && (
+                    <button
+                      onClick={() => setExpandedEntry(isExpanded ? null : entry.index)}
+                      className="text-xs text-purple-600 hover:text-purple-800 flex-shrink-0"
+                    >
+                      {isExpanded ? 'Masquer' : 'Détails'}
+                    </button>
+                  )}
+                </div>
+
+                {/* Détail de l'entrée : champs lus et ignorés */}
+                {isExpanded && entry.paper && (
+                  <div className="mt-2 ml-7 text-xs text-gray-600 space-y-1">
+                    <p><span className="font-medium">Type :</span> {getItemTypeConfig(entry.paper.item_type).label}</p>
+                    <p><span className="font-medium">Conférence :</span> {entry.paper.conference || '—'}</p>
+                    {entry.paper.publisher && (
+                      <p><span className="font-medium">Éditeur / institution :</span> {entry.paper.publisher}</p>
+                    )}
+                    <p><span className="font-medium">URL :</span> {entry.paper.url || '—'}</p>
+                    {entry.keywords && entry.keywords.length > 0 && (
+                      <p><span className="font-medium">Mots-clés :</span> {entry.keywords.join(', ')}</p>
+                    )}
+                    {entry.abstract && (
+                      <p className="line-clamp-3"><span className="font-medium">Résumé :</span> {entry.abstract}</p>
+                    )}
+                    {entry.notes && (
+                      <p className="line-clamp-2"><span className="font-medium">Notes :</span> {entry.notes}</p>
+                    )}
+                    <p>
+                      <span className="font-medium">Champs lus :</span>{' '}
+                      {(entry.mapping || []).map(({ source, target }) => `${source} → ${TARGET_LABELS[target] || target}`).join(', ') || '—'}
+                    </p>
+                    {entry.ignored && entry.ignored.length > 0 && (
+                      <p><span className="font-medium">Champs ignorés :</span> {entry.ignored.join(', ')}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Catégories appliquées à tous les papers importés */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Tags à appliquer
+          </label>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {categories.map(category => (
+              <button
+                key={category.id}
+                onClick={() => toggleCategory(category.id)}
+                className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                  selectedCategories.includes(category.id)
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {category.name}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={keywordsAsCategories}
+              onChange={(e) => setKeywordsAsCategories(e.target.checked)}
+            />
+            Créer des tags à partir des mots-clés du fichier
+          </label>
+        </div>
+
+        <div className="flex justify-between">
+          <button
+            onClick={() => setStep('source')}
+            disabled={isLoading}
+            className="px-6 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 disabled:opacity-50"
+          >
+            ← Retour
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={isLoading || selected.length === 0}
+            className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'Import...' : `Importer ${selected.length} article${selected.length > 1 ? 's' : ''}`}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Étape 1 : choix du fichier et du format
+  return (
+    <div className="space-y-6">
+      {renderSteps()}
+
+      <div className="text-center">
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">
+          Import depuis un gestionnaire de références
+        </h3>
+        <p className="text-gray-600">
+          Importez un export BibTeX, RIS ou CSL-JSON (Zotero, Mendeley, EndNote...) pour ajouter plusieurs articles
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Format
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {(['auto', ...Object.keys(BIBLIOGRAPHY_FORMATS)] as Array<BibliographyFormat | 'auto'>).map(option => (
+              <button
+                key={option}
+                onClick={() => setFormat(option)}
+                className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                  format === option
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                {option === 'auto' ? 'Détection automatique' : BIBLIOGRAPHY_FORMATS[option].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Fichier
+          </label>
+          <input
+            type="file"
+            accept=".bib,.bibtex,.ris,.json,.txt"
+            onChange={handleFileChange}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+            disabled={isLoading}
+          />
+          {fileName && (
+            <p className="mt-1 text-sm text-green-600">✓ {fileName}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Ou collez le contenu
+          </label>
+          <textarea
+            value={content}
+            onChange={(e) => {
+              setContent(e.target.value);
+              setFileName(null);
+            }}
+            rows={8}
+            placeholder={'@inproceedings{kim2025exploration, ...}\nTY  - CONF ...\n[{ "type": "paper-conference", ... }]'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+            disabled={isLoading}
+          />
+        </div>
+
+        <button
+          onClick={handlePreview}
+          disabled={isLoading || !content.trim()}
+          className="w-full px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isLoading ? (
+            <div className="flex items-center justify-center">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+              Analyse...
+            </div>
+          ) : (
+            'Analyser le fichier'
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AddPaperByImport;
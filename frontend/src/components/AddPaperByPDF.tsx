@@ -12,6 +12,8 @@ interface ExtractedImage {
   page: number;
   width?: number;
   height?: number;
+  caption?: string | null;
+  hash?: string | null;
   buffer?: Buffer;
 }
 
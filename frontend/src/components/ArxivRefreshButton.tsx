@@ -0,0 +1,68 @@
+// frontend/src/components/ArxivRefreshButton.tsx - Suivi d'une prépublication : nouvelle version et DOI de la version publiée
+import React, { useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { paperService } from '../services/paperService';
+import { useToast } from '../contexts/ToastContext';
+import type { PaperData } from '../types/Paper';
+
+interface ArxivRefreshButtonProps {
+  paper: PaperData;
+}
+
+const ArxivRefreshButton: React.FC<ArxivRefreshButtonProps> = ({ paper }) => {
+  const [version, setVersion] = useState(paper.arxiv_version || null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const { success, warning, info, error: showError } = useToast();
+
+  if (!paper.id || !paper.arxiv_id) return null;
+
+  const handleRefresh = async () => {
+    if (!paper.id) return;
+
+    setIsRefreshing(true);
+    try {
+      const result = await paperService.refreshArxivPaper(paper.id);
+      const { changes } = result;
+
+      setVersion(result.paper.arxiv_version || null);
+
+      if (changes.doiConflict) {
+        warning(
+          `La version publiée (${changes.doiConflict.doi}) est déjà dans la bibliothèque : "${changes.doiConflict.title}". Fusionnez les doublons pour les rattacher.`,
+          'Version publiée'
+        );
+      }
+
+      const messages = [
+        changes.version ? `Version ${changes.version.from || '?'} → ${changes.version.to}` : '',
+        changes.doi ? `DOI publié rattaché : ${changes.doi}` : ''
+      ].filter(Boolean);
+
+      if (messages.length > 0) {
+        success(messages.join('\n'), 'Prépublication mise à jour');
+      } else if (!changes.doiConflict) {
+        info('La prépublication est déjà à jour', 'arXiv');
+      }
+    } catch (error) {
+      console.error('Erreur lors de la mise à jour arXiv:', error);
+      showError(error instanceof Error ? error.message : 'Erreur inconnue', 'Erreur');
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleRefresh}
+      disabled={isRefreshing}
+      className="p-2 bg-orange-600 text-white rounded-full shadow-lg hover:bg-orange-700 transition-all disabled:opacity-50"
+      title={`arXiv ${paper.arxiv_id}${version || ''} : vérifier les nouvelles versions et la version publiée`}
+    >
+      <RefreshCw className={`w-5 h-5 ${isRefreshing ? 'animate-spin' : ''}`} />
+    </button>
+  );
+};
+
+export default ArxivRefreshButton;
@@ -0,0 +1,131 @@
+// frontend/src/components/AuthorInput.tsx - Saisie des auteurs avec autocomplétion sur les auteurs connus
+import React, { useState, useEffect, useRef } from 'react';
+import { paperService } from '../services/paperService';
+import { getAuthorName } from '../types/Paper';
+import type { AuthorSummary } from '../types/Paper';
+
+interface AuthorInputProps {
+  // Auteurs séparés par des virgules ("Jane Doe, John Smith")
+  value: string;
+  onChange: (value: string) => void;
+  // Auteur connu choisi dans les suggestions (permet de garder son ORCID)
+  onSelectAuthor?: (author: AuthorSummary) => void;
+  placeholder?: string;
+  required?: boolean;
+  className?: string;
+}
+
+// Délai avant d'interroger le serveur pendant la frappe
+const SEARCH_DELAY_MS = 250;
+
+const AuthorInput: React.FC<AuthorInputProps> = ({
+  value,
+  onChange,
+  onSelectAuthor,
+  placeholder,
+  required,
+  className = ''
+}) => {
+  const [suggestions, setSuggestions] = useState<AuthorSummary[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Seul le nom en cours de saisie (après la dernière virgule) est complété
+  const segments = value.split(',');
+  const currentSegment = segments[segments.length - 1].trim();
+
+  useEffect(() => {
+    if (!isFocused || currentSegment.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const authors = await paperService.searchAuthors(currentSegment);
+        if (!cancelled) {
+          setSuggestions(authors);
+          setHighlighted(0);
+        }
+      } catch (error) {
+        console.error('Erreur autocomplétion auteurs:', error);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [currentSegment, isFocused]);
+
+  const selectAuthor = (author: AuthorSummary) => {
+    const previous = segments.slice(0, -1).map(segment => segment.trim()).filter(Boolean);
+    onChange([...previous, getAuthorName(author)].join(', ') + ', ');
+    onSelectAuthor?.(author);
+    setSuggestions([]);
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      selectAuthor(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        // Délai pour laisser le clic sur une suggestion aboutir
+        onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+        placeholder={placeholder}
+        required={required}
+        autoComplete="off"
+        className={className}
+      />
+
+      {isFocused && suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.map((author, index) => (
+            <li key={author.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectAuthor(author)}
+                className={`w-full text-left px-3 py-2 text-sm flex justify-between items-center ${
+                  index === highlighted ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className="text-gray-800">{getAuthorName(author)}</span>
+                <span className="text-xs text-gray-500">
+                  {author.orcid && <span className="text-green-700 mr-2">ORCID</span>}
+                  {author.paper_count} paper{author.paper_count > 1 ? 's' : ''}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AuthorInput;
@@ -0,0 +1,62 @@
+// frontend/src/components/AuthorLinks.tsx - Auteurs d'un paper, chacun lié à sa page d'auteur
+import React from 'react';
+import { getAuthorName } from '../types/Paper';
+import type { PaperData } from '../types/Paper';
+
+interface AuthorLinksProps {
+  paper: Pick<PaperData, 'authors' | 'author_list'>;
+  // Nombre d'auteurs affichés avant "et al." (tous si absent)
+  maxAuthors?: number;
+  onAuthorClick?: (authorId: number) => void;
+  className?: string;
+}
+
+const AuthorLinks: React.FC<AuthorLinksProps> = ({ paper, maxAuthors, onAuthorClick, className = '' }) => {
+  const authors = paper.author_list || [];
+  const names = authors.length > 0
+    ? authors.map(getAuthorName)
+    : paper.authors.split(',').map(name => name.trim()).filter(Boolean);
+  const fullNames = names.join(', ');
+
+  // Sans auteurs structurés (ou sans navigation), simple texte coupé après maxAuthors noms
+  if (authors.length === 0 || !onAuthorClick) {
+    const shownNames = maxAuthors ? names.slice(0, maxAuthors) : names;
+    return (
+      <span className={className} title={fullNames}>
+        {shownNames.join(', ')}
+        {shownNames.length < names.length && ' et al.'}
+      </span>
+    );
+  }
+
+  const shown = maxAuthors ? authors.slice(0, maxAuthors) : authors;
+
+  return (
+    <span className={className} title={fullNames}>
+      {shown.map((author, index) => (
+        <React.Fragment key={author.id ?? index}>
+          {index > 0 && ', '}
+          {author.id ? (
+            <button
+              type="button"
+              onClick={(e) => {
+                // Le clic ne doit pas ouvrir le paper (carte ou ligne cliquable)
+                e.stopPropagation();
+                e.preventDefault();
+                onAuthorClick(author.id!);
+              }}
+              onDoubleClick={(e) => e.stopPropagation()}
+              className="hover:text-blue-600 hover:underline"
+              title={author.orcid ? `${getAuthorName(author)} · ORCID ${author.orcid}` : getAuthorName(author)}
+            >
+              {getAuthorName(author)}
+            </button>
+          ) : getAuthorName(author)}
+        </React.Fragment>
+      ))}
+      {shown.length < authors.length && ' et al.'}
+    </span>
+  );
+};
+
+export default AuthorLinks;
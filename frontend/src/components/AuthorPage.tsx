@@ -0,0 +1,128 @@
+// frontend/src/components/AuthorPage.tsx - Page d'un auteur : fiche, co-auteurs et papers
+import React, { useState, useEffect, useCallback } from 'react';
+import { User, Users, ExternalLink } from 'lucide-react';
+import PaperCard from './PaperCard';
+import { paperService } from '../services/paperService';
+import { getAuthorName } from '../types/Paper';
+import type { AuthorDetails, PaperData } from '../types/Paper';
+
+interface AuthorPageProps {
+  authorId: number;
+  onPaperClick?: (paper: PaperData) => void;
+  onAuthorClick?: (authorId: number) => void;
+}
+
+const AuthorPage: React.FC<AuthorPageProps> = ({ authorId, onPaperClick, onAuthorClick }) => {
+  const [details, setDetails] = useState<AuthorDetails | null>(null);
+  const [papers, setPapers] = useState<PaperData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const loadAuthor = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      // Tous les papers de l'auteur, du plus récent au plus ancien
+      const [authorDetails, result] = await Promise.all([
+        paperService.getAuthor(authorId),
+        paperService.searchPapers(
+          { author: authorId },
+          { sortBy: 'publication_date', sortOrder: 'desc' },
+          { page: 1, limit: 0 }
+        )
+      ]);
+      setDetails(authorDetails);
+      setPapers(result.data);
+      setLoadError(null);
+    } catch (error) {
+      console.error('Erreur lors du chargement de l\'auteur:', error);
+      setLoadError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [authorId]);
+
+  useEffect(() => {
+    loadAuthor();
+  }, [loadAuthor]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (loadError || !details) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-6xl mb-4">❌</div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Auteur non trouvé</h2>
+        <p className="text-gray-600">{loadError}</p>
+      </div>
+    );
+  }
+
+  const { author, coauthors } = details;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto p-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center space-x-3">
+          <User className="w-7 h-7 text-blue-600" />
+          <span>{getAuthorName(author)}</span>
+        </h1>
+        <div className="flex items-center space-x-4 text-gray-600 mt-1">
+          <span>{author.paper_count} paper{author.paper_count > 1 ? 's' : ''} dans la bibliothèque</span>
+          {author.orcid && (
+            <a
+              href={`https://orcid.org/${author.orcid}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center text-green-700 hover:text-green-800 hover:underline"
+            >
+              ORCID {author.orcid}
+              <ExternalLink className="w-3 h-3 ml-1" />
+            </a>
+          )}
+        </div>
+      </div>
+
+      {coauthors.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3 flex items-center">
+            <Users className="w-5 h-5 mr-2 text-gray-500" />
+            Co-auteurs
+          </h2>
+          <div className="flex flex-wrap gap-2">
+            {coauthors.map(coauthor => (
+              <button
+                key={coauthor.id}
+                onClick={() => onAuthorClick?.(coauthor.id)}
+                className="px-3 py-1 bg-white border rounded-full text-sm text-gray-700 hover:bg-blue-50 hover:border-blue-300 transition-colors"
+                title={`${coauthor.paper_count} paper${coauthor.paper_count > 1 ? 's' : ''} en commun`}
+              >
+                {getAuthorName(coauthor)}
+                <span className="ml-1 text-gray-400">· {coauthor.paper_count}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <h2 className="text-lg font-semibold text-gray-900 mb-3">Papers</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {papers.map(paper => (
+          <PaperCard
+            key={paper.id}
+            paper={paper}
+            onClick={onPaperClick}
+            onAuthorClick={onAuthorClick}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AuthorPage;
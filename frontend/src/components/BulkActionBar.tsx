@@ -0,0 +1,167 @@
+// frontend/src/components/BulkActionBar.tsx - Barre d'actions groupées sur les articles sélectionnés
+import React, { useMemo, useState } from 'react';
+import { Download, Tag, Trash2, X } from 'lucide-react';
+import {
+  BIBLIOGRAPHY_FORMATS,
+  CITATION_STYLES,
+  READING_STATUS_CONFIGS,
+  buildCategoryTree,
+  flattenCategoryTree
+} from '../types/Paper';
+import type {
+  BibliographyFormat,
+  Category,
+  CitationOutput,
+  CitationStyle,
+  ReadingStatus
+} from '../types/Paper';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  filteredCount: number;               // Articles correspondant aux filtres (toutes pages)
+  categories: Category[];
+  busy?: boolean;                       // Action en cours : boutons désactivés
+  onSelectAllFiltered: () => void;
+  onClear: () => void;
+  onStatusChange: (status: ReadingStatus) => void;
+  onCategoriesChange: (changes: { add?: number[]; remove?: number[] }) => void;
+  onExport: (format: BibliographyFormat) => void;
+  onBibliographyExport: (style: CitationStyle, output: CitationOutput) => void;
+  onDelete: () => void;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  filteredCount,
+  categories,
+  busy = false,
+  onSelectAllFiltered,
+  onClear,
+  onStatusChange,
+  onCategoriesChange,
+  onExport,
+  onBibliographyExport,
+  onDelete
+}) => {
+  const [categoryId, setCategoryId] = useState<number | null>(null);
+
+  const orderedCategories = useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories]);
+
+  // Valeur du menu d'export : « format:bibtex » ou « style:apa:html »
+  const handleExportChoice = (value: string) => {
+    const [kind, name, output] = value.split(':');
+    if (kind === 'format') onExport(name as BibliographyFormat);
+    if (kind === 'style') onBibliographyExport(name as CitationStyle, output as CitationOutput);
+  };
+
+  return (
+    <div className="sticky top-16 z-20 mb-4 px-4 py-3 bg-blue-50 border border-blue-200 rounded-lg shadow-sm flex flex-wrap items-center gap-3 text-sm">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onClear}
+          className="p-1 text-blue-700 hover:bg-blue-100 rounded"
+          title="Vider la sélection (Échap)"
+        >
+          <X className="w-4 h-4" />
+        </button>
+        <span className="font-medium text-blue-900">{selectedCount} sélectionné(s)</span>
+        {selectedCount < filteredCount && (
+          <button onClick={onSelectAllFiltered} disabled={busy} className="text-blue-700 hover:underline disabled:opacity-50">
+            Sélectionner les {filteredCount} articles filtrés
+          </button>
+        )}
+      </div>
+
+      <div className="h-6 w-px bg-blue-200" />
+
+      {/* Statut de lecture */}
+      <div className="flex items-center gap-1">
+        {(Object.keys(READING_STATUS_CONFIGS) as ReadingStatus[]).map(status => (
+          <button
+            key={status}
+            onClick={() => onStatusChange(status)}
+            disabled={busy}
+            className="px-2 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+            title={`Marquer comme ${READING_STATUS_CONFIGS[status].text.toLowerCase()}`}
+          >
+            {READING_STATUS_CONFIGS[status].icon}
+            <span className="ml-1 hidden xl:inline">{READING_STATUS_CONFIGS[status].text}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="h-6 w-px bg-blue-200" />
+
+      {/* Catégories */}
+      <div className="flex items-center gap-1">
+        <Tag className="w-4 h-4 text-blue-700" />
+        <select
+          value={categoryId ?? ''}
+          onChange={(e) => setCategoryId(e.target.value ? parseInt(e.target.value, 10) : null)}
+          className="max-w-[12rem] px-2 py-1 bg-white border border-gray-200 rounded"
+        >
+          <option value="">Catégorie…</option>
+          {orderedCategories.map(node => (
+            <option key={node.id} value={node.id}>
+              {'  '.repeat(node.depth)}{node.icon ? `${node.icon} ` : ''}{node.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => categoryId !== null && onCategoriesChange({ add: [categoryId] })}
+          disabled={busy || categoryId === null}
+          className="px-2 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+        >
+          Ajouter
+        </button>
+        <button
+          onClick={() => categoryId !== null && onCategoriesChange({ remove: [categoryId] })}
+          disabled={busy || categoryId === null}
+          className="px-2 py-1 bg-white border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+        >
+          Retirer
+        </button>
+      </div>
+
+      <div className="h-6 w-px bg-blue-200" />
+
+      {/* Export de la sélection */}
+      <div className="flex items-center gap-1">
+        <Download className="w-4 h-4 text-blue-700" />
+        <select
+          value=""
+          onChange={(e) => handleExportChoice(e.target.value)}
+          disabled={busy}
+          className="px-2 py-1 bg-white border border-gray-200 rounded disabled:opacity-50"
+        >
+          <option value="">Exporter…</option>
+          <optgroup label="Références">
+            {(Object.keys(BIBLIOGRAPHY_FORMATS) as BibliographyFormat[]).map(format => (
+              <option key={format} value={`format:${format}`}>
+                {BIBLIOGRAPHY_FORMATS[format].label} ({BIBLIOGRAPHY_FORMATS[format].extension})
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="Bibliographie">
+            {(Object.keys(CITATION_STYLES) as CitationStyle[]).flatMap(style => [
+              <option key={`${style}-text`} value={`style:${style}:text`}>{CITATION_STYLES[style].label} (TXT)</option>,
+              <option key={`${style}-html`} value={`style:${style}:html`}>{CITATION_STYLES[style].label} (HTML)</option>
+            ])}
+          </optgroup>
+        </select>
+      </div>
+
+      <button
+        onClick={onDelete}
+        disabled={busy}
+        className="ml-auto px-3 py-1 flex items-center gap-1 text-red-700 bg-white border border-red-200 rounded hover:bg-red-50 disabled:opacity-50"
+        title="Mettre la sélection à la corbeille (annulable)"
+      >
+        <Trash2 className="w-4 h-4" />
+        Supprimer
+      </button>
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,403 @@
+// frontend/src/components/CategoryManager.tsx - Gestion des catégories : renommage, couleur, déplacement, fusion et suppression
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Tags, Plus, GitMerge, Trash2, Save } from 'lucide-react';
+import { paperService } from '../services/paperService';
+import { useToast } from '../contexts/ToastContext';
+import { CATEGORY_COLORS, buildCategoryTree, flattenCategoryTree, formatDate } from '../types/Paper';
+import type { Category, CategoryInput, CategoryNode, CategoryUsage } from '../types/Paper';
+
+interface CategoryManagerProps {
+  // Appelé quand les catégories ont changé (arbre de la sidebar, catégories des papers)
+  onChanged?: () => void;
+  // Afficher la liste des papers d'une catégorie
+  onShowPapers?: (categoryId: number) => void;
+  hasSidebar?: boolean;
+}
+
+const EMPTY_CATEGORY: CategoryInput = { name: '', parent_id: null, color: null, icon: '' };
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Dates SQLite (UTC, "AAAA-MM-JJ HH:MM:SS")
+const formatLastUsed = (value?: string | null) => (value ? formatDate(`${value.replace(' ', 'T')}Z`) : 'jamais');
+
+interface ColorPickerProps {
+  value: string | null | undefined;
+  onChange: (color: string | null) => void;
+}
+
+// Pastilles de couleur (un second clic retire la couleur)
+const ColorPicker: React.FC<ColorPickerProps> = ({ value, onChange }) => (
+  <div className="flex items-center gap-1">
+    {CATEGORY_COLORS.map(color => (
+      <button
+        key={color}
+        type="button"
+        onClick={() => onChange(value === color ? null : color)}
+        className={`w-5 h-5 rounded-full border-2 ${value === color ? 'border-gray-800' : 'border-transparent'}`}
+        style={{ backgroundColor: color }}
+        title={color}
+      />
+    ))}
+  </div>
+);
+
+interface CategoryRowProps {
+  category: CategoryNode;
+  categories: CategoryNode[];
+  isBusy: boolean;
+  onSave: (changes: CategoryInput) => void;
+  onDelete: () => void;
+  onMerge: (sourceId: number) => void;
+  onShowPapers?: () => void;
+}
+
+const CategoryRow: React.FC<CategoryRowProps> = ({
+  category,
+  categories,
+  isBusy,
+  onSave,
+  onDelete,
+  onMerge,
+  onShowPapers
+}) => {
+  const [name, setName] = useState(category.name);
+  const [icon, setIcon] = useState(category.icon || '');
+  const [mergeSource, setMergeSource] = useState('');
+
+  const isRenamed = name.trim() !== category.name || icon.trim() !== (category.icon || '');
+
+  // Parents possibles : toute catégorie hors de son propre sous-arbre
+  const parentOptions = useMemo(() => {
+    const excluded = new Set(flattenCategoryTree([category]).map(node => node.id));
+    return categories.filter(other => !excluded.has(other.id));
+  }, [category, categories]);
+
+  const handleRename = () => {
+    if (!isRenamed || !name.trim()) return;
+    onSave({ name: name.trim(), icon: icon.trim() || null });
+  };
+
+  const handleMerge = () => {
+    if (!mergeSource) return;
+    onMerge(parseInt(mergeSource, 10));
+    setMergeSource('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4" style={{ marginLeft: `${category.depth * 1.5}rem` }}>
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="text"
+          value={icon}
+          onChange={(e) => setIcon(e.target.value)}
+          maxLength={4}
+          placeholder="🏷️"
+          className="w-12 text-center px-1 py-1 border border-gray-200 rounded text-sm"
+          title="Icône (emoji)"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleRename();
+          }}
+          className="flex-1 min-w-[12rem] px-2 py-1 border border-transparent hover:border-gray-200 focus:border-gray-300 rounded font-medium text-gray-900"
+          style={category.color ? { borderLeft: `4px solid ${category.color}` } : undefined}
+          title="Renommer"
+        />
+        {isRenamed && (
+          <button
+            onClick={handleRename}
+            disabled={isBusy || !name.trim()}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors flex items-center space-x-1 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            <span>Enregistrer</span>
+          </button>
+        )}
+        <ColorPicker value={category.color} onChange={(color) => onSave({ color })} />
+        <button
+          onClick={onDelete}
+          disabled={isBusy}
+          className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+          title="Supprimer la catégorie"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-3 text-xs text-gray-500">
+        <button
+          onClick={onShowPapers}
+          disabled={!onShowPapers}
+          className="hover:text-blue-600"
+          title="Afficher les papers de la catégorie"
+        >
+          {category.paper_count ?? 0} paper{(category.paper_count ?? 0) > 1 ? 's' : ''}
+          {(category.total_count ?? 0) !== (category.paper_count ?? 0) && ` (${category.total_count} avec les sous-catégories)`}
+        </button>
+        <span>Dernière utilisation : {formatLastUsed(category.last_used_at)}</span>
+
+        <label className="flex items-center space-x-1">
+          <span>Parent :</span>
+          <select
+            value={category.parent_id ?? ''}
+            onChange={(e) => onSave({ parent_id: e.target.value ? parseInt(e.target.value, 10) : null })}
+            disabled={isBusy}
+            className="px-2 py-1 border border-gray-200 rounded text-xs max-w-[12rem]"
+          >
+            <option value="">(racine)</option>
+            {parentOptions.map(other => (
+              <option key={other.id} value={other.id}>{`${'  '.repeat(other.depth)}${other.name}`}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex items-center space-x-2">
+          <select
+            value={mergeSource}
+            onChange={(e) => setMergeSource(e.target.value)}
+            className="px-2 py-1 border border-gray-200 rounded text-xs max-w-xs"
+          >
+            <option value="">Fusionner une autre catégorie dans celle-ci…</option>
+            {categories
+              .filter(other => other.id !== category.id)
+              .map(other => (
+                <option key={other.id} value={other.id}>
+                  {`${other.name} (${other.paper_count ?? 0})`}
+                </option>
+              ))}
+          </select>
+          <button
+            onClick={handleMerge}
+            disabled={isBusy || !mergeSource}
+            className="px-2 py-1 text-xs bg-gray-100 text-gray-700 hover:bg-gray-200 rounded flex items-center space-x-1 disabled:opacity-50"
+          >
+            <GitMerge className="w-3 h-3" />
+            <span>Fusionner</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CategoryManager: React.FC<CategoryManagerProps> = ({ onChanged, onShowPapers, hasSidebar = true }) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [newCategory, setNewCategory] = useState<CategoryInput>(EMPTY_CATEGORY);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const { success, error: showError } = useToast();
+
+  const loadCategories = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      // Comptes et dates à jour : ne pas réutiliser la liste en cache
+      paperService.invalidateCache('all-categories');
+      setCategories(await paperService.getAllCategories());
+      setLoadError(null);
+    } catch (error) {
+      console.error('Erreur lors du chargement des catégories:', error);
+      setLoadError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  const orderedCategories = useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories]);
+
+  // Exécuter une action sur une catégorie puis recharger la liste
+  const runAction = async (categoryId: number | null, action: () => Promise<string | null>) => {
+    setBusyId(categoryId);
+    try {
+      const message = await action();
+      if (message) success(message);
+      await loadCategories();
+      onChanged?.();
+    } catch (error) {
+      console.error('Erreur gestion des catégories:', error);
+      showError(error instanceof Error ? error.message : 'Erreur inconnue', 'Erreur');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newCategory.name?.trim();
+    if (!name) return;
+    runAction(null, async () => {
+      const category = await paperService.createCategory(name, {
+        parent_id: newCategory.parent_id ?? null,
+        color: newCategory.color ?? null,
+        icon: newCategory.icon?.trim() || null
+      });
+      setNewCategory(EMPTY_CATEGORY);
+      return `Catégorie « ${category.name} » ajoutée`;
+    });
+  };
+
+  // Confirmation listant les papers qui perdront la catégorie
+  const handleDelete = async (category: Category) => {
+    let usage: CategoryUsage;
+    try {
+      usage = await paperService.getCategoryUsage(category.id);
+    } catch (error) {
+      console.error('Erreur usage de la catégorie:', error);
+      showError(error instanceof Error ? error.message : 'Erreur inconnue', 'Erreur');
+      return;
+    }
+
+    const lines = [`Supprimer la catégorie « ${category.name} » ?`];
+    if (usage.papers.length > 0) {
+      lines.push('', `${usage.papers.length} paper${usage.papers.length > 1 ? 's' : ''} perdront cette catégorie :`);
+      lines.push(...usage.papers.slice(0, 10).map(paper => `• ${paper.title}`));
+      if (usage.papers.length > 10) lines.push(`… et ${usage.papers.length - 10} autre(s)`);
+    }
+    if (usage.childCount > 0) {
+      lines.push('', `${usage.childCount} sous-catégorie${usage.childCount > 1 ? 's' : ''} remonteront d'un niveau.`);
+    }
+
+    if (!window.confirm(lines.join('\n'))) {
+      return;
+    }
+
+    runAction(category.id, async () => {
+      const affected = await paperService.deleteCategory(category.id, true);
+      return `Catégorie supprimée (${affected} paper${affected > 1 ? 's' : ''} concerné${affected > 1 ? 's' : ''})`;
+    });
+  };
+
+  const handleMerge = (target: Category, sourceId: number) => {
+    const source = categories.find(category => category.id === sourceId);
+    if (!source || !window.confirm(
+      `Fusionner « ${source.name} » dans « ${target.name} » ? Ses papers et ses sous-catégories passeront dans « ${target.name} », puis elle sera supprimée.`
+    )) {
+      return;
+    }
+    runAction(target.id, async () => {
+      const { movedPapers } = await paperService.mergeCategories(target.id, sourceId);
+      return `Catégories fusionnées (${movedPapers} paper${movedPapers > 1 ? 's' : ''} déplacé${movedPapers > 1 ? 's' : ''})`;
+    });
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const visibleCategories = term
+    ? orderedCategories.filter(category => category.name.toLowerCase().includes(term))
+    : orderedCategories;
+
+  const marginStyle = hasSidebar
+    ? { marginLeft: '16rem', padding: '2rem' }
+    : { padding: '2rem' };
+
+  return (
+    <div className="flex-1 mt-16" style={marginStyle}>
+      <div className="w-full max-w-6xl">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center space-x-3">
+            <Tags className="w-7 h-7 text-blue-600" />
+            <span>Catégories</span>
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Renommez, colorez, déplacez ou fusionnez les catégories ; les papers d'une catégorie fusionnée passent dans la catégorie conservée.
+          </p>
+        </div>
+
+        <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-md p-4 mb-6 space-y-2">
+          <h2 className="text-sm font-medium text-gray-700">Nouvelle catégorie</h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={newCategory.icon || ''}
+              onChange={(e) => setNewCategory({ ...newCategory, icon: e.target.value })}
+              maxLength={4}
+              placeholder="🏷️"
+              className={`${inputClass} w-14 text-center`}
+              title="Icône (emoji)"
+            />
+            <input
+              type="text"
+              value={newCategory.name || ''}
+              onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
+              placeholder="Nom"
+              className={`${inputClass} flex-1 min-w-[12rem]`}
+            />
+            <select
+              value={newCategory.parent_id ?? ''}
+              onChange={(e) => setNewCategory({ ...newCategory, parent_id: e.target.value ? parseInt(e.target.value, 10) : null })}
+              className={inputClass}
+            >
+              <option value="">(racine)</option>
+              {orderedCategories.map(category => (
+                <option key={category.id} value={category.id}>{`${'  '.repeat(category.depth)}${category.name}`}</option>
+              ))}
+            </select>
+            <ColorPicker value={newCategory.color} onChange={(color) => setNewCategory({ ...newCategory, color })} />
+            <button
+              type="submit"
+              disabled={!newCategory.name?.trim()}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors flex items-center space-x-1 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Ajouter</span>
+            </button>
+          </div>
+        </form>
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            Erreur lors du chargement des catégories : {loadError}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mb-4">
+          <p className="text-sm text-gray-500">
+            {visibleCategories.length} catégorie{visibleCategories.length > 1 ? 's' : ''}
+          </p>
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Filtrer par nom"
+            className={`${inputClass} w-72`}
+          />
+        </div>
+
+        {isLoading && categories.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visibleCategories.map(category => (
+              <CategoryRow
+                key={`${category.id}-${category.name}-${category.icon ?? ''}`}
+                category={category}
+                categories={orderedCategories}
+                isBusy={busyId === category.id}
+                onSave={(changes) => runAction(category.id, async () => {
+                  await paperService.updateCategory(category.id, changes);
+                  return null;
+                })}
+                onDelete={() => handleDelete(category)}
+                onMerge={(sourceId) => handleMerge(category, sourceId)}
+                onShowPapers={onShowPapers ? () => onShowPapers(category.id) : undefined}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryManager;
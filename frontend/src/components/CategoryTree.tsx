@@ -0,0 +1,311 @@
+// frontend/src/components/CategoryTree.tsx - Arborescence des catégories : comptes, filtre, glisser-déposer de papers et de catégories
+import React, { useState, useEffect, useMemo } from 'react';
+import { ChevronDown, ChevronRight, Plus, X } from 'lucide-react';
+import { paperService } from '../services/paperService';
+import { useToast } from '../contexts/ToastContext';
+import {
+  CATEGORY_COLORS,
+  CATEGORY_DRAG_TYPE,
+  PAPER_DRAG_TYPE,
+  buildCategoryTree
+} from '../types/Paper';
+import type { Category, CategoryNode } from '../types/Paper';
+
+interface CategoryTreeProps {
+  selectedCategoryId?: number | null;
+  onCategorySelect?: (categoryId: number | null) => void;
+  onPapersCategorized?: () => void;   // Papers rangés par glisser-déposer
+  refreshKey?: number;                // Incrémenté pour recharger les comptes
+}
+
+// Catégories repliées (IDs), conservées entre les sessions
+const COLLAPSED_CATEGORIES_KEY = 'collapsedCategories';
+
+const loadCollapsed = (): number[] => {
+  try {
+    return JSON.parse(localStorage.getItem(COLLAPSED_CATEGORIES_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const hasDragType = (e: React.DragEvent, type: string) => Array.from(e.dataTransfer.types).includes(type);
+
+const CategoryTree: React.FC<CategoryTreeProps> = ({
+  selectedCategoryId = null,
+  onCategorySelect,
+  onPapersCategorized,
+  refreshKey = 0
+}) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [collapsed, setCollapsed] = useState<number[]>(loadCollapsed);
+  const [dropTargetId, setDropTargetId] = useState<number | 'root' | null>(null);
+  const [isDraggingCategory, setIsDraggingCategory] = useState(false);
+  // Formulaire de création : parent (null : racine), undefined quand il est fermé
+  const [newParentId, setNewParentId] = useState<number | null | undefined>(undefined);
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<string | null>(null);
+  const [newIcon, setNewIcon] = useState('');
+
+  const { success, error: showError } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Comptes à jour : ne pas réutiliser la liste en cache
+    paperService.invalidateCache('all-categories');
+    paperService.getAllCategories()
+      .then(list => {
+        if (!cancelled) setCategories(list);
+      })
+      .catch(error => console.error('Erreur chargement arborescence des catégories:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, reloadKey]);
+
+  const tree = useMemo(() => buildCategoryTree(categories), [categories]);
+  const visibleNodes = useMemo(() => {
+    const hidden = new Set(collapsed);
+    const walk = (nodes: CategoryNode[]): CategoryNode[] =>
+      nodes.flatMap(node => [node, ...(hidden.has(node.id) ? [] : walk(node.children))]);
+    return walk(tree);
+  }, [tree, collapsed]);
+
+  const toggleCollapsed = (categoryId: number) => {
+    const next = collapsed.includes(categoryId)
+      ? collapsed.filter(id => id !== categoryId)
+      : [...collapsed, categoryId];
+    setCollapsed(next);
+    localStorage.setItem(COLLAPSED_CATEGORIES_KEY, JSON.stringify(next));
+  };
+
+  const openCreateForm = (parentId: number | null) => {
+    setNewParentId(parentId);
+    setNewName('');
+    setNewColor(null);
+    setNewIcon('');
+    if (parentId !== null && collapsed.includes(parentId)) toggleCollapsed(parentId);
+  };
+
+  const createCategory = async () => {
+    if (!newName.trim() || newParentId === undefined) return;
+
+    try {
+      await paperService.createCategory(newName.trim(), {
+        parent_id: newParentId,
+        color: newColor,
+        icon: newIcon.trim() || null
+      });
+      setNewParentId(undefined);
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Erreur création catégorie:', error);
+      showError('Impossible de créer la catégorie (nom déjà utilisé ?)', 'Catégories');
+    }
+  };
+
+  // Déposer des papers sur une catégorie, ou une catégorie sur une autre (ou à la racine)
+  const handleDrop = async (e: React.DragEvent, target: CategoryNode | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTargetId(null);
+    setIsDraggingCategory(false);
+
+    try {
+      if (target && hasDragType(e, PAPER_DRAG_TYPE)) {
+        const { ids } = JSON.parse(e.dataTransfer.getData(PAPER_DRAG_TYPE)) as { ids: number[] };
+        const added = await paperService.addPapersToCategory(target.id, ids);
+        success(
+          added > 0 ? `${added} article(s) ajouté(s) à « ${target.name} »` : `Déjà dans « ${target.name} »`,
+          'Catégories',
+          3000
+        );
+        setReloadKey(key => key + 1);
+        if (added > 0) onPapersCategorized?.();
+        return;
+      }
+
+      if (hasDragType(e, CATEGORY_DRAG_TYPE)) {
+        const categoryId = parseInt(e.dataTransfer.getData(CATEGORY_DRAG_TYPE), 10);
+        const parentId = target ? target.id : null;
+        const moved = categories.find(category => category.id === categoryId);
+        if (!moved || categoryId === parentId || (moved.parent_id ?? null) === parentId) return;
+
+        await paperService.updateCategory(categoryId, { parent_id: parentId });
+        setReloadKey(key => key + 1);
+      }
+    } catch (error) {
+      console.error('Erreur glisser-déposer catégorie:', error);
+      showError(error instanceof Error ? error.message : 'Erreur lors du déplacement', 'Catégories');
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent, targetId: number | 'root') => {
+    const acceptsPapers = targetId !== 'root' && hasDragType(e, PAPER_DRAG_TYPE);
+    if (!acceptsPapers && !hasDragType(e, CATEGORY_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = acceptsPapers ? 'copy' : 'move';
+    setDropTargetId(targetId);
+  };
+
+  const renderCreateForm = () => (
+    <div className="my-1 p-2 bg-white border border-gray-200 rounded-lg space-y-2" style={{ marginLeft: newParentId !== null ? '1rem' : 0 }}>
+      <div className="flex items-center gap-1">
+        <input
+          value={newIcon}
+          onChange={(e) => setNewIcon(e.target.value)}
+          maxLength={4}
+          placeholder="🏷️"
+          className="w-9 text-center text-sm border border-gray-200 rounded px-1 py-0.5"
+          title="Icône (emoji)"
+        />
+        <input
+          autoFocus
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') createCategory();
+            if (e.key === 'Escape') setNewParentId(undefined);
+          }}
+          placeholder={newParentId === null ? 'Nouvelle catégorie' : 'Nouvelle sous-catégorie'}
+          className="flex-1 min-w-0 text-sm border border-gray-200 rounded px-2 py-0.5"
+        />
+        <button type="button" onClick={() => setNewParentId(undefined)} className="p-0.5 text-gray-400 hover:text-gray-700" title="Annuler">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="flex items-center gap-1">
+        {CATEGORY_COLORS.map(color => (
+          <button
+            key={color}
+            type="button"
+            onClick={() => setNewColor(current => current === color ? null : color)}
+            className={`w-4 h-4 rounded-full border-2 ${newColor === color ? 'border-gray-800' : 'border-transparent'}`}
+            style={{ backgroundColor: color }}
+            title={color}
+          />
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3 flex items-center justify-between">
+        <span>Catégories</span>
+        <button
+          type="button"
+          onClick={() => openCreateForm(null)}
+          className="p-0.5 text-gray-400 hover:text-gray-700 rounded"
+          title="Nouvelle catégorie"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </h3>
+
+      {newParentId === null && renderCreateForm()}
+
+      {categories.length === 0 && newParentId === undefined && (
+        <p className="text-xs text-gray-400">Aucune catégorie</p>
+      )}
+
+      <ul className="space-y-0.5">
+        {visibleNodes.map(node => {
+          const isSelected = selectedCategoryId === node.id;
+          const isCollapsed = collapsed.includes(node.id);
+
+          return (
+            <li key={node.id}>
+              <div
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(CATEGORY_DRAG_TYPE, String(node.id));
+                  e.dataTransfer.effectAllowed = 'move';
+                  setIsDraggingCategory(true);
+                }}
+                onDragEnd={() => {
+                  setIsDraggingCategory(false);
+                  setDropTargetId(null);
+                }}
+                onDragOver={(e) => handleDragOver(e, node.id)}
+                onDragLeave={() => setDropTargetId(current => current === node.id ? null : current)}
+                onDrop={(e) => handleDrop(e, node)}
+                onClick={() => onCategorySelect?.(isSelected ? null : node.id)}
+                className={`group flex items-center gap-1 pr-1 py-1 rounded-lg cursor-pointer text-sm transition-colors ${
+                  dropTargetId === node.id
+                    ? 'bg-blue-100 ring-2 ring-blue-400'
+                    : isSelected
+                      ? 'bg-blue-100 text-blue-700'
+                      : 'text-gray-700 hover:bg-gray-200'
+                }`}
+                style={{ paddingLeft: `${node.depth * 0.875 + 0.25}rem` }}
+                title={`${node.name} : ${node.total_count ?? 0} article(s)${node.children.length > 0 ? ' avec les sous-catégories' : ''}`}
+              >
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    toggleCollapsed(node.id);
+                  }}
+                  className={`p-0.5 text-gray-400 hover:text-gray-700 ${node.children.length === 0 ? 'invisible' : ''}`}
+                  title={isCollapsed ? 'Déplier' : 'Replier'}
+                >
+                  {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                </button>
+                {node.icon ? (
+                  <span className="text-sm leading-none">{node.icon}</span>
+                ) : (
+                  <span className="w-2.5 h-2.5 rounded-full flex-shrink-0 bg-gray-300" style={node.color ? { backgroundColor: node.color } : undefined}></span>
+                )}
+                <span className="flex-1 truncate" style={node.icon && node.color ? { color: node.color } : undefined}>{node.name}</span>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    openCreateForm(node.id);
+                  }}
+                  className="p-0.5 text-gray-400 hover:text-gray-700 opacity-0 group-hover:opacity-100"
+                  title="Nouvelle sous-catégorie"
+                >
+                  <Plus className="w-3 h-3" />
+                </button>
+                <span className="text-xs text-gray-500 tabular-nums">{node.total_count ?? 0}</span>
+              </div>
+
+              {newParentId === node.id && renderCreateForm()}
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Zone de dépôt pour remettre une catégorie à la racine */}
+      {isDraggingCategory && (
+        <div
+          onDragOver={(e) => handleDragOver(e, 'root')}
+          onDragLeave={() => setDropTargetId(current => current === 'root' ? null : current)}
+          onDrop={(e) => handleDrop(e, null)}
+          className={`mt-2 px-2 py-2 border-2 border-dashed rounded-lg text-xs text-center ${
+            dropTargetId === 'root' ? 'border-blue-400 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-500'
+          }`}
+        >
+          Déposer ici pour placer à la racine
+        </div>
+      )}
+
+      {selectedCategoryId !== null && (
+        <button
+          type="button"
+          onClick={() => onCategorySelect?.(null)}
+          className="mt-2 text-xs text-gray-500 hover:text-gray-700"
+        >
+          Afficher tous les articles
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CategoryTree;
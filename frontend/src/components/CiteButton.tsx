@@ -0,0 +1,171 @@
+// frontend/src/components/CiteButton.tsx - Bouton "Citer" : référence formatée à copier (texte ou HTML)
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Quote, Copy, Code } from 'lucide-react';
+import Modal from './Modal';
+import { paperService } from '../services/paperService';
+import { useToast } from '../contexts/ToastContext';
+import { CITATION_STYLES } from '../types/Paper';
+import type { PaperData, CitationStyle, FormattedCitation } from '../types/Paper';
+
+interface CiteButtonProps {
+  paper: PaperData;
+  // 'icon' : icône discrète (carte), 'floating' : bouton rond (en-tête des notes)
+  variant?: 'icon' | 'floating';
+}
+
+const CiteButton: React.FC<CiteButtonProps> = ({ paper, variant = 'icon' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [citations, setCitations] = useState<Record<CitationStyle, FormattedCitation> | null>(null);
+  const [style, setStyle] = useState<CitationStyle>('apa');
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const { success, error: showError } = useToast();
+
+  const handleOpen = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setIsOpen(true);
+
+    if (!paper.id) return;
+
+    // Les références sont recalculées à chaque ouverture (le paper a pu être modifié)
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      setCitations(await paperService.getCitations(paper.id));
+    } catch (error) {
+      console.error('Erreur lors du chargement des citations:', error);
+      setLoadError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopyText = async () => {
+    if (!citations) return;
+
+    try {
+      await navigator.clipboard.writeText(citations[style].text);
+      success(`Référence ${CITATION_STYLES[style].label} copiée`, 'Citation');
+    } catch (error) {
+      console.error('Erreur lors de la copie:', error);
+      showError('Impossible de copier la référence', 'Erreur');
+    }
+  };
+
+  // Copie enrichie (italiques conservées dans un traitement de texte), texte brut à défaut
+  const handleCopyHtml = async () => {
+    if (!citations) return;
+
+    const { text, html } = citations[style];
+
+    try {
+      if (typeof ClipboardItem !== 'undefined' && navigator.clipboard.write) {
+        await navigator.clipboard.write([
+          new ClipboardItem({
+            'text/html': new Blob([html], { type: 'text/html' }),
+            'text/plain': new Blob([text], { type: 'text/plain' })
+          })
+        ]);
+      } else {
+        await navigator.clipboard.writeText(html);
+      }
+      success(`Référence ${CITATION_STYLES[style].label} copiée (HTML)`, 'Citation');
+    } catch (error) {
+      console.error('Erreur lors de la copie:', error);
+      showError('Impossible de copier la référence', 'Erreur');
+    }
+  };
+
+  return (
+    <>
+      {variant === 'floating' ? (
+        <button
+          type="button"
+          onClick={handleOpen}
+          className="p-2 bg-purple-600 text-white rounded-full shadow-lg hover:bg-purple-700 transition-all"
+          title="Citer cet article"
+        >
+          <Quote className="w-5 h-5" />
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={handleOpen}
+          className="text-gray-400 hover:text-purple-600 transition-colors"
+          title="Citer cet article"
+        >
+          <Quote className="w-4 h-4" />
+        </button>
+      )}
+
+      {isOpen && createPortal(
+        // Les événements d'un portail remontent quand même jusqu'à la carte
+        <div onClick={(e) => e.stopPropagation()} onDoubleClick={(e) => e.stopPropagation()}>
+          <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} maxWidth="2xl">
+            <div className="p-6 select-text">
+              <h2 className="text-xl font-semibold text-gray-900 mb-1 pr-10">Citer cet article</h2>
+              <p className="text-sm text-gray-500 mb-4 line-clamp-1">{paper.title}</p>
+
+              <div className="flex flex-wrap gap-2 mb-4">
+                {(Object.keys(CITATION_STYLES) as CitationStyle[]).map(styleName => (
+                  <button
+                    key={styleName}
+                    type="button"
+                    onClick={() => setStyle(styleName)}
+                    className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                      style === styleName
+                        ? 'bg-purple-600 border-purple-600 text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {CITATION_STYLES[styleName].label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="min-h-[5rem] p-4 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-800 font-serif leading-relaxed">
+                {isLoading ? (
+                  <div className="flex items-center justify-center py-4">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-600"></div>
+                  </div>
+                ) : loadError ? (
+                  <p className="text-red-600 font-sans">Erreur lors de la génération de la référence : {loadError}</p>
+                ) : citations ? (
+                  // HTML produit par le serveur (contenu échappé, seules les italiques sont balisées)
+                  <div dangerouslySetInnerHTML={{ __html: citations[style].html }} />
+                ) : null}
+              </div>
+
+              <div className="flex justify-end gap-2 mt-4">
+                <button
+                  type="button"
+                  onClick={handleCopyHtml}
+                  disabled={!citations}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2 disabled:opacity-50"
+                >
+                  <Code className="w-4 h-4" />
+                  <span>Copier le HTML</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCopyText}
+                  disabled={!citations}
+                  className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+                >
+                  <Copy className="w-4 h-4" />
+                  <span>Copier le texte</span>
+                </button>
+              </div>
+            </div>
+          </Modal>
+        </div>,
+        document.body
+      )}
+    </>
+  );
+};
+
+export default CiteButton;
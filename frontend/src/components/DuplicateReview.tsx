@@ -0,0 +1,375 @@
+// frontend/src/components/DuplicateReview.tsx - Revue des doublons potentiels et fusion
+import React, { useState, useEffect, useCallback } from 'react';
+import { Copy, FileText, Image, StickyNote, RefreshCw, GitMerge, X } from 'lucide-react';
+import { paperService } from '../services/paperService';
+import { notesStorage } from '../services/notesStorage';
+import { useToast } from '../contexts/ToastContext';
+import { getStatusConfig, getItemTypeConfig } from '../types/Paper';
+import type {
+  DuplicateCandidate,
+  DuplicatePaper,
+  DuplicateReason,
+  MergeField,
+  MergeFieldSources
+} from '../types/Paper';
+
+interface DuplicateReviewProps {
+  onMerged?: (removedId: number) => void;
+  hasSidebar?: boolean;
+}
+
+// Libellés des critères de rapprochement
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  doi: 'Même DOI',
+  arxiv: 'Même identifiant arXiv',
+  title: 'Titre similaire',
+  authors: 'Auteurs communs',
+  year: 'Même année'
+};
+
+// Champs comparés, dans l'ordre d'affichage
+const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  title: 'Titre',
+  item_type: 'Type',
+  authors: 'Auteurs',
+  publication_date: 'Date',
+  conference: 'Conférence / revue',
+  conference_abbreviation: 'Abréviation',
+  publisher: 'Éditeur / institution',
+  doi: 'DOI',
+  arxiv_id: 'arXiv',
+  isbn: 'ISBN',
+  url: 'URL',
+  abstract: 'Résumé',
+  keywords: 'Mots-clés',
+  reading_status: 'Statut',
+  image: 'Image',
+  rating: 'Note'
+};
+
+// Ordre d'avancement des statuts (le plus avancé est gardé par défaut, comme côté serveur)
+const READING_STATUS_RANK = ['non_lu', 'en_cours', 'lu', 'favoris'];
+
+// Clé stable d'une paire
+const pairKey = (candidate: DuplicateCandidate) => `${candidate.a.id}-${candidate.b.id}`;
+
+// Valeur affichée d'un champ
+const displayValue = (paper: DuplicatePaper, field: MergeField): string => {
+  const value = paper[field];
+  if (!value) return '—';
+  if (field === 'reading_status') return getStatusConfig(paper.reading_status).text;
+  if (field === 'item_type') return getItemTypeConfig(paper.item_type).label;
+  if (field === 'rating') return '★'.repeat(Number(value));
+  return String(value);
+};
+
+interface DuplicatePairProps {
+  candidate: DuplicateCandidate;
+  isMerging: boolean;
+  onMerge: (survivor: DuplicatePaper, duplicate: DuplicatePaper, fields: MergeFieldSources) => void;
+  onDismiss: () => void;
+}
+
+const DuplicatePair: React.FC<DuplicatePairProps> = ({ candidate, isMerging, onMerge, onDismiss }) => {
+  // Par défaut, le paper ajouté en premier est conservé
+  const [survivorSide, setSurvivorSide] = useState<'a' | 'b'>('a');
+  const [fieldSides, setFieldSides] = useState<Partial<Record<MergeField, 'a' | 'b'>>>({});
+
+  const differingFields = (Object.keys(MERGE_FIELD_LABELS) as MergeField[])
+    .filter(field => (candidate.a[field] || '') !== (candidate.b[field] || ''));
+
+  // Sans choix explicite, la valeur du paper conservé est gardée (complétée par l'autre si vide)
+  const sideForField = (field: MergeField): 'a' | 'b' => {
+    if (fieldSides[field]) return fieldSides[field]!;
+    const other = survivorSide === 'a' ? 'b' : 'a';
+    if (field === 'reading_status') {
+      const rank = (side: 'a' | 'b') => READING_STATUS_RANK.indexOf(candidate[side].reading_status);
+      return rank(other) > rank(survivorSide) ? other : survivorSide;
+    }
+    return candidate[survivorSide][field] ? survivorSide : other;
+  };
+
+  const handleMerge = () => {
+    const survivor = candidate[survivorSide];
+    const duplicate = candidate[survivorSide === 'a' ? 'b' : 'a'];
+
+    const fields: MergeFieldSources = {};
+    Object.entries(fieldSides).forEach(([field, side]) => {
+      fields[field as MergeField] = side === survivorSide ? 'survivor' : 'duplicate';
+    });
+
+    onMerge(survivor, duplicate, fields);
+  };
+
+  const renderPaper = (side: 'a' | 'b') => {
+    const paper = candidate[side];
+    const isSurvivor = survivorSide === side;
+
+    return (
+      <label
+        className={`block p-4 rounded-lg border-2 cursor-pointer transition-colors ${
+          isSurvivor ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+        }`}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <span className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+            <input
+              type="radio"
+              checked={isSurvivor}
+              onChange={() => setSurvivorSide(side)}
+              className="text-blue-600"
+            />
+            <span>{isSurvivor ? 'Conservé' : 'Fusionné puis supprimé'}</span>
+          </span>
+          <span className="text-xs text-gray-400">#{paper.id}</span>
+        </div>
+
+        <h3 className="font-semibold text-gray-900 mb-1">{paper.title}</h3>
+        <p className="text-sm text-gray-600 mb-1">{paper.authors}</p>
+        <p className="text-xs text-gray-500 mb-2">
+          {paper.publication_date}
+          {paper.conference && ` · ${paper.conference}`}
+          {paper.doi && ` · ${paper.doi}`}
+        </p>
+
+        {paper.categories && paper.categories.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {paper.categories.map(category => (
+              <span key={category.id} className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs">
+                {category.name}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {paper.description && (
+          <p className="text-xs text-gray-500 line-clamp-2 mb-2">{paper.description}</p>
+        )}
+
+        <div className="flex items-center space-x-3 text-xs text-gray-500">
+          <span className={`flex items-center space-x-1 ${paper.files.hasPdf ? 'text-green-600' : ''}`}>
+            <FileText className="w-3 h-3" />
+            <span>{paper.files.hasPdf ? 'PDF' : 'Pas de PDF'}</span>
+          </span>
+          <span className={`flex items-center space-x-1 ${paper.files.hasNotes ? 'text-green-600' : ''}`}>
+            <StickyNote className="w-3 h-3" />
+            <span>{paper.files.hasNotes ? 'Notes' : 'Pas de notes'}</span>
+          </span>
+          <span className="flex items-center space-x-1">
+            <Image className="w-3 h-3" />
+            <span>{paper.files.imageCount} image{paper.files.imageCount > 1 ? 's' : ''}</span>
+          </span>
+        </div>
+      </label>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center flex-wrap gap-2">
+          <span className="px-2 py-1 bg-purple-100 text-purple-700 rounded text-sm font-medium">
+            {Math.round(candidate.score * 100)} %
+          </span>
+          {candidate.reasons.map(reason => (
+            <span key={reason} className="px-2 py-1 bg-gray-100 text-gray-600 rounded text-xs">
+              {REASON_LABELS[reason]}
+            </span>
+          ))}
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={onDismiss}
+            disabled={isMerging}
+            className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors flex items-center space-x-1 disabled:opacity-50"
+            title="Ces papers ne sont pas des doublons"
+          >
+            <X className="w-4 h-4" />
+            <span>Ignorer</span>
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={isMerging}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors flex items-center space-x-1 disabled:opacity-50"
+          >
+            {isMerging ? (
+              <div className="w-4 h-4 animate-spin border-2 border-white border-t-transparent rounded-full"></div>
+            ) : (
+              <GitMerge className="w-4 h-4" />
+            )}
+            <span>Fusionner</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {renderPaper('a')}
+        {renderPaper('b')}
+      </div>
+
+      {/* Valeurs conservées pour les champs qui diffèrent */}
+      {differingFields.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Valeurs à conserver</h4>
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+            {differingFields.map(field => (
+              <div key={field} className="grid grid-cols-[8rem_1fr_1fr] gap-2 px-3 py-2 text-sm items-start">
+                <span className="text-gray-500">{MERGE_FIELD_LABELS[field]}</span>
+                {(['a', 'b'] as const).map(side => (
+                  <label key={side} className="flex items-start space-x-2 cursor-pointer min-w-0">
+                    <input
+                      type="radio"
+                      name={`${pairKey(candidate)}-${field}`}
+                      checked={sideForField(field) === side}
+                      onChange={() => setFieldSides(prev => ({ ...prev, [field]: side }))}
+                      className="mt-1 text-blue-600"
+                    />
+                    <span className={`text-gray-800 break-words min-w-0 ${field === 'abstract' ? 'line-clamp-4' : ''}`}>
+                      {displayValue(candidate[side], field)}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Les catégories sont réunies ; la description, les notes, le PDF et les images du paper supprimé sont ajoutés au paper conservé.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({ onMerged, hasSidebar = true }) => {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  const { success, error: showError } = useToast();
+
+  const loadCandidates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setCandidates(await paperService.findDuplicates());
+      setLoadError(null);
+    } catch (error) {
+      console.error('Erreur lors de la recherche des doublons:', error);
+      setLoadError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCandidates();
+  }, [loadCandidates]);
+
+  const handleMerge = async (
+    candidate: DuplicateCandidate,
+    survivor: DuplicatePaper,
+    duplicate: DuplicatePaper,
+    fields: MergeFieldSources
+  ) => {
+    if (!window.confirm(`Fusionner « ${duplicate.title} » dans « ${survivor.title} » ? Le doublon sera supprimé.`)) {
+      return;
+    }
+
+    setMergingKey(pairKey(candidate));
+    try {
+      const { summary } = await paperService.mergePapers(survivor.id, duplicate.id, fields);
+
+      // Les notes locales du paper supprimé ne servent plus
+      notesStorage.deleteNotes(duplicate.id.toString());
+
+      const annotations = summary.mergedAnnotations > 1 ? 's' : '';
+      const attachments = summary.mergedAttachments > 1 ? 's' : '';
+      success(
+        `${summary.copiedFiles} fichier${summary.copiedFiles > 1 ? 's' : ''} copié${summary.copiedFiles > 1 ? 's' : ''}${summary.mergedNotes ? ', notes réunies' : ''}`
+          + (summary.mergedAnnotations > 0 ? `, ${summary.mergedAnnotations} annotation${annotations} reprise${annotations}` : '')
+          + (summary.mergedAttachments > 0 ? `, ${summary.mergedAttachments} pièce${attachments} jointe${attachments} reprise${attachments}` : ''),
+        'Papers fusionnés'
+      );
+
+      // Les autres paires peuvent concerner les papers fusionnés
+      await loadCandidates();
+      onMerged?.(summary.removedId);
+    } catch (error) {
+      console.error('Erreur lors de la fusion:', error);
+      showError(error instanceof Error ? error.message : 'Erreur lors de la fusion', 'Erreur');
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  const visibleCandidates = candidates.filter(candidate => !dismissed.has(pairKey(candidate)));
+
+  const marginStyle = hasSidebar
+    ? { marginLeft: '16rem', padding: '2rem' }
+    : { padding: '2rem' };
+
+  return (
+    <div className="flex-1 mt-16" style={marginStyle}>
+      <div className="w-full max-w-6xl">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center space-x-3">
+              <Copy className="w-7 h-7 text-purple-600" />
+              <span>Doublons</span>
+            </h1>
+            <p className="text-gray-600 mt-1">
+              Papers rapprochés par DOI, identifiant arXiv, titre, auteurs et année.
+            </p>
+          </div>
+          <button
+            onClick={loadCandidates}
+            disabled={isLoading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span>Relancer l'analyse</span>
+          </button>
+        </div>
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            Erreur lors de la recherche des doublons : {loadError}
+          </div>
+        )}
+
+        {isLoading && candidates.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : visibleCandidates.length === 0 && !loadError ? (
+          <div className="text-center py-12">
+            <div className="text-6xl mb-4">✨</div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Aucun doublon détecté</h3>
+            <p className="text-gray-600">
+              {dismissed.size > 0 ? 'Toutes les paires restantes ont été ignorées.' : 'La bibliothèque ne contient pas de doublons apparents.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-500">
+              {visibleCandidates.length} paire{visibleCandidates.length > 1 ? 's' : ''} à examiner
+            </p>
+            {visibleCandidates.map(candidate => (
+              <DuplicatePair
+                key={pairKey(candidate)}
+                candidate={candidate}
+                isMerging={mergingKey === pairKey(candidate)}
+                onMerge={(survivor, duplicate, fields) => handleMerge(candidate, survivor, duplicate, fields)}
+                onDismiss={() => setDismissed(prev => new Set(prev).add(pairKey(candidate)))}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReview;
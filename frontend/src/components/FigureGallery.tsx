@@ -0,0 +1,429 @@
+// frontend/src/components/FigureGallery.tsx - Galerie des figures d'un paper : légendes, pages, tags, réextraction, insertion dans les notes
+import React, { useState, useEffect, useMemo } from 'react';
+import { ChevronDown, ChevronRight, Images, RefreshCw, Trash2, NotebookPen, GripVertical } from 'lucide-react';
+import ImageSelectionModal from './ImageSelectionModal';
+import { paperService } from '../services/paperService';
+import { useToast } from '../contexts/ToastContext';
+import { FIGURE_DRAG_TYPE } from '../types/Paper';
+import type { ExtractedImage, PaperFigure } from '../types/Paper';
+
+interface FigureGalleryProps {
+  paperId: number;
+  paperTitle: string;
+  hasPdf: boolean;
+  // Insertion d'une figure à la fin des notes (bouton) ; le glisser-déposer passe par FIGURE_DRAG_TYPE
+  onInsert?: (url: string, caption: string | null) => void;
+  className?: string;
+}
+
+// Dimensions mesurées à l'affichage et empreinte perceptuelle calculée dans le navigateur
+interface MeasuredFigure {
+  width: number;
+  height: number;
+  hash: string | null;
+}
+
+// En dessous de cette taille (pixels), l'image est considérée comme un logo ou une icône
+const MIN_FIGURE_SIZE = 100;
+// Distance de Hamming maximale entre les empreintes de deux images considérées comme doublons
+const MAX_HASH_DISTANCE = 6;
+
+/**
+ * Empreinte perceptuelle (dHash 64 bits) d'une image chargée : réduction à 9x8 niveaux de gris,
+ * chaque bit indique si un pixel est plus clair que son voisin de droite
+ */
+const computeImageHash = (image: HTMLImageElement): string | null => {
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = 9;
+    canvas.height = 8;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    context.drawImage(image, 0, 0, 9, 8);
+    const { data } = context.getImageData(0, 0, 9, 8);
+    const gray = (x: number, y: number) => {
+      const i = (y * 9 + x) * 4;
+      return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+
+    let hash = '';
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x += 4) {
+        let nibble = 0;
+        for (let bit = 0; bit < 4; bit++) {
+          nibble = (nibble << 1) | (gray(x + bit, y) > gray(x + bit + 1, y) ? 1 : 0);
+        }
+        hash += nibble.toString(16);
+      }
+    }
+    return hash;
+  } catch {
+    // Image servie sans en-têtes CORS : pas d'empreinte
+    return null;
+  }
+};
+
+const hashDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+};
+
+const parseTags = (value: string): string[] =>
+  [...new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+interface FigureEditorProps {
+  figure: PaperFigure;
+  onUpdate: (changes: Partial<Pick<PaperFigure, 'caption' | 'page' | 'tags'>>) => void;
+  onInsert?: () => void;
+  onDelete: () => void;
+}
+
+// Légende, page et tags de la figure sélectionnée (enregistrés en quittant le champ)
+const FigureEditor: React.FC<FigureEditorProps> = ({ figure, onUpdate, onInsert, onDelete }) => {
+  const [caption, setCaption] = useState(figure.caption || '');
+  const [page, setPage] = useState(figure.page ? String(figure.page) : '');
+  const [tags, setTags] = useState(figure.tags.join(', '));
+
+  useEffect(() => {
+    setCaption(figure.caption || '');
+    setPage(figure.page ? String(figure.page) : '');
+    setTags(figure.tags.join(', '));
+  }, [figure]);
+
+  const saveCaption = () => {
+    if (caption.trim() !== (figure.caption || '')) onUpdate({ caption: caption.trim() || null });
+  };
+
+  const savePage = () => {
+    const value = page.trim() ? parseInt(page, 10) : null;
+    if (value !== figure.page && (value === null || value > 0)) onUpdate({ page: value });
+  };
+
+  const saveTags = () => {
+    const value = parseTags(tags);
+    if (value.join(',') !== figure.tags.join(',')) onUpdate({ tags: value });
+  };
+
+  return (
+    <div className="mt-2 p-3 border border-gray-200 rounded-lg bg-white space-y-2">
+      <textarea
+        value={caption}
+        onChange={(e) => setCaption(e.target.value)}
+        onBlur={saveCaption}
+        placeholder="Légende"
+        rows={2}
+        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+      />
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min={1}
+          value={page}
+          onChange={(e) => setPage(e.target.value)}
+          onBlur={savePage}
+          placeholder="Page"
+          className="w-20 px-2 py-1 text-sm border border-gray-300 rounded"
+        />
+        <input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          onBlur={saveTags}
+          placeholder="Tags séparés par des virgules"
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-400 truncate" title={figure.path}>{figure.path}</span>
+        <div className="flex items-center gap-1">
+          {onInsert && (
+            <button
+              type="button"
+              onClick={onInsert}
+              className="px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded flex items-center gap-1"
+            >
+              <NotebookPen className="w-3.5 h-3.5" />
+              Insérer dans les notes
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onDelete}
+            className="px-2 py-1 text-xs text-gray-600 hover:text-red-600 hover:bg-red-50 rounded flex items-center gap-1"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Supprimer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const FigureGallery: React.FC<FigureGalleryProps> = ({ paperId, paperTitle, hasPdf, onInsert, className = '' }) => {
+  const [figures, setFigures] = useState<PaperFigure[]>([]);
+  const [folderName, setFolderName] = useState('');
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [measured, setMeasured] = useState<Record<string, MeasuredFigure>>({});
+  const [hideSmall, setHideSmall] = useState(true);
+  const [hideDuplicates, setHideDuplicates] = useState(true);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [candidateImages, setCandidateImages] = useState<(ExtractedImage & { id: string })[]>([]);
+  // Incrémenté pour recharger la galerie après l'ajout d'images
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const { success, error: showError, info } = useToast();
+
+  // Rechargée à l'ouverture : des images ont pu être ajoutées depuis le PDF ou les notes
+  useEffect(() => {
+    let cancelled = false;
+    setSelectedPath(null);
+    setTagFilter(null);
+    if (!isExpanded) return;
+
+    paperService.getFigures(paperId)
+      .then(gallery => {
+        if (cancelled) return;
+        setFolderName(gallery.folderName);
+        setFigures(gallery.figures);
+      })
+      .catch(error => console.error('Erreur chargement figures:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [paperId, isExpanded, reloadKey]);
+
+  const figureUrl = (figure: PaperFigure) => paperService.getFigureUrl(folderName, figure.path);
+
+  const allTags = useMemo(
+    () => [...new Set(figures.flatMap(figure => figure.tags))].sort((a, b) => a.localeCompare(b)),
+    [figures]
+  );
+
+  // Petites images et doublons (empreintes proches d'une image déjà affichée) masqués
+  const visibleFigures = useMemo(() => {
+    const keptHashes: string[] = [];
+
+    return figures.filter(figure => {
+      if (tagFilter && !figure.tags.includes(tagFilter)) return false;
+
+      const size = measured[figure.path];
+      const width = size?.width ?? figure.width;
+      const height = size?.height ?? figure.height;
+      if (hideSmall && width && height && (width < MIN_FIGURE_SIZE || height < MIN_FIGURE_SIZE)) return false;
+
+      const hash = size?.hash;
+      if (hideDuplicates && hash) {
+        if (keptHashes.some(kept => hashDistance(kept, hash) <= MAX_HASH_DISTANCE)) return false;
+        keptHashes.push(hash);
+      }
+      return true;
+    });
+  }, [figures, measured, hideSmall, hideDuplicates, tagFilter]);
+
+  const hiddenCount = figures.filter(figure => !tagFilter || figure.tags.includes(tagFilter)).length - visibleFigures.length;
+  const selectedFigure = figures.find(figure => figure.path === selectedPath) || null;
+
+  const handleImageLoad = (figure: PaperFigure, image: HTMLImageElement) => {
+    if (measured[figure.path]) return;
+    const size = { width: image.naturalWidth, height: image.naturalHeight, hash: computeImageHash(image) };
+    setMeasured(current => ({ ...current, [figure.path]: size }));
+  };
+
+  const handleDragStart = (e: React.DragEvent, figure: PaperFigure) => {
+    const url = figureUrl(figure);
+    e.dataTransfer.setData(FIGURE_DRAG_TYPE, JSON.stringify({ url, caption: figure.caption }));
+    e.dataTransfer.setData('text/uri-list', url);
+    e.dataTransfer.effectAllowed = 'copy';
+  };
+
+  const updateFigure = async (figure: PaperFigure, changes: Partial<Pick<PaperFigure, 'caption' | 'page' | 'tags'>>) => {
+    try {
+      const updated = await paperService.updateFigure(paperId, figure.path, changes);
+      setFigures(current => current.map(item => item.path === updated.path ? updated : item));
+    } catch (error) {
+      console.error('Erreur modification figure:', error);
+      showError(error instanceof Error ? error.message : 'Erreur lors de la modification de la figure', 'Figures');
+    }
+  };
+
+  const deleteFigure = async (figure: PaperFigure) => {
+    if (!window.confirm('Supprimer cette image ? Les notes qui l\'affichent ne la trouveront plus.')) {
+      return;
+    }
+
+    try {
+      await paperService.deleteFigure(paperId, figure.path);
+      setFigures(current => current.filter(item => item.path !== figure.path));
+      setSelectedPath(null);
+      success('Image supprimée', 'Figures', 2000);
+    } catch (error) {
+      console.error('Erreur suppression figure:', error);
+      showError('Erreur lors de la suppression de l\'image', 'Figures');
+    }
+  };
+
+  // Réouvrir la sélection sur les images du PDF qui ne sont pas encore dans la galerie
+  const extractMore = async () => {
+    try {
+      setIsExtracting(true);
+      const images = await paperService.extractMorePdfImages(paperId);
+
+      if (images.length === 0) {
+        info('Aucune nouvelle image dans le PDF', 'Figures');
+        return;
+      }
+      setCandidateImages(images.map((image, index) => ({ ...image, id: `${index}-${image.name}` })));
+    } catch (error) {
+      console.error('Erreur réextraction images:', error);
+      showError(error instanceof Error ? error.message : 'Erreur lors de l\'extraction des images', 'Figures');
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const saveSelectedImages = async (images: ExtractedImage[]) => {
+    try {
+      const saved = await paperService.savePaperPdfImages(paperId, images);
+      success(`${saved} image${saved > 1 ? 's' : ''} ajoutée${saved > 1 ? 's' : ''} à la galerie`, 'Figures');
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Erreur enregistrement images:', error);
+      showError('Erreur lors de l\'enregistrement des images', 'Figures');
+    }
+  };
+
+  return (
+    <div className={className}>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(expanded => !expanded)}
+        className="flex items-center text-xs font-medium text-gray-600 hover:text-gray-900"
+        title={isExpanded ? 'Masquer les figures' : 'Afficher les figures'}
+      >
+        {isExpanded ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+        <Images className="w-3 h-3 mr-1" />
+        Figures
+        {figures.length > 0 && <span className="ml-1 text-gray-400">· {figures.length}</span>}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-2">
+          <div className="flex flex-wrap items-center gap-3 mb-2 text-xs text-gray-600">
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={hideSmall} onChange={(e) => setHideSmall(e.target.checked)} className="rounded border-gray-300" />
+              Masquer les petites images
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={hideDuplicates} onChange={(e) => setHideDuplicates(e.target.checked)} className="rounded border-gray-300" />
+              Masquer les doublons
+            </label>
+            {allTags.length > 0 && (
+              <select
+                value={tagFilter || ''}
+                onChange={(e) => setTagFilter(e.target.value || null)}
+                className="border border-gray-200 rounded px-1 py-0.5"
+              >
+                <option value="">Tous les tags</option>
+                {allTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+              </select>
+            )}
+            {hiddenCount > 0 && <span className="text-gray-400">{hiddenCount} masquée{hiddenCount > 1 ? 's' : ''}</span>}
+            {hasPdf && (
+              <button
+                type="button"
+                onClick={extractMore}
+                disabled={isExtracting}
+                className="ml-auto px-2 py-1 text-blue-600 hover:bg-blue-50 rounded flex items-center gap-1 disabled:opacity-50"
+                title="Extraire à nouveau les images du PDF pour en ajouter"
+              >
+                <RefreshCw className={`w-3.5 h-3.5 ${isExtracting ? 'animate-spin' : ''}`} />
+                Extraire d'autres images
+              </button>
+            )}
+          </div>
+
+          {figures.length === 0 ? (
+            <p className="text-xs text-gray-500 py-2">
+              Aucune image enregistrée. Les images sélectionnées à l'extraction du PDF et celles importées dans les notes apparaissent ici.
+            </p>
+          ) : (
+            <div className="flex gap-2 overflow-x-auto pb-2">
+              {/* Les figures masquées restent montées (cachées) pour être mesurées */}
+              {figures.map(figure => (
+                <div
+                  key={figure.path}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, figure)}
+                  onClick={() => setSelectedPath(path => path === figure.path ? null : figure.path)}
+                  className={`relative shrink-0 w-36 border rounded-lg overflow-hidden bg-white cursor-grab ${
+                    visibleFigures.includes(figure) ? '' : 'hidden'
+                  } ${figure.path === selectedPath ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200 hover:border-gray-300'}`}
+                  title="Glisser dans les notes pour insérer l'image"
+                >
+                  <div className="h-24 bg-gray-100 flex items-center justify-center">
+                    <img
+                      src={figureUrl(figure)}
+                      alt={figure.caption || figure.path}
+                      crossOrigin="anonymous"
+                      draggable={false}
+                      onLoad={(e) => handleImageLoad(figure, e.currentTarget)}
+                      className="max-w-full max-h-full object-contain"
+                    />
+                  </div>
+                  {figure.page && (
+                    <span className="absolute top-1 right-1 bg-black/70 text-white text-[10px] px-1.5 py-0.5 rounded">
+                      p. {figure.page}
+                    </span>
+                  )}
+                  <GripVertical className="absolute top-1 left-1 w-3.5 h-3.5 text-gray-400" />
+                  <div className="px-2 py-1 border-t">
+                    <p className="text-xs text-gray-700 line-clamp-2 min-h-[2rem]">
+                      {figure.caption || <em className="text-gray-400">Sans légende</em>}
+                    </p>
+                    {figure.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {figure.tags.map(tag => (
+                          <span key={tag} className="bg-purple-50 text-purple-700 text-[10px] px-1.5 rounded-full">{tag}</span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {selectedFigure && (
+            <FigureEditor
+              figure={selectedFigure}
+              onUpdate={(changes) => updateFigure(selectedFigure, changes)}
+              onInsert={onInsert ? () => onInsert(figureUrl(selectedFigure), selectedFigure.caption) : undefined}
+              onDelete={() => deleteFigure(selectedFigure)}
+            />
+          )}
+        </div>
+      )}
+
+      <ImageSelectionModal
+        isOpen={candidateImages.length > 0}
+        images={candidateImages}
+        onClose={() => setCandidateImages([])}
+        onSave={saveSelectedImages}
+        paperTitle={paperTitle}
+      />
+    </div>
+  );
+};
+
+export default FigureGallery;
@@ -6,10 +6,17 @@ import MainContent from './MainContent';
 import PaperNotes from './PaperNotes';
 import Modal from './Modal';
 import AddPaper from './AddPaper';
+import DuplicateReview from './DuplicateReview';
+import VenueManager from './VenueManager';
+import CategoryManager from './CategoryManager';
+import TrashView from './TrashView';
+import SettingsPage from './SettingsPage';
+import AuthorPage from './AuthorPage';
 import { ToastProvider, useToast } from '../contexts/ToastContext';
 import { paperService } from '../services/paperService';
 import { notesStorage } from '../services/notesStorage';
-import type { PaperData } from '../types/Paper';
+import type { PaperData, RestoreMode } from '../types/Paper';
+import type { ViewMode } from './PaperFilters';
 import type { Block } from '../types/BlockTypes';
 
 // Extension de l'interface PaperData pour inclure les notes
@@ -19,12 +26,12 @@ interface PaperWithNotes extends PaperData {
 }
 
 // Types pour le système de routes
-type Route = 'home' | 'paper';
+type Route = 'home' | 'paper' | 'author';
 
 interface AppState {
   currentRoute: Route;
   currentPaper: PaperWithNotes | null;
-  papers: PaperWithNotes[];
+  currentAuthorId: number | null;
   currentPaperIndex: number;
   filteredPapers: PaperWithNotes[];
 }
@@ -35,7 +42,7 @@ const HomePageContent: React.FC = () => {
   const [appState, setAppState] = useState<AppState>({
     currentRoute: 'home',
     currentPaper: null,
-    papers: [],
+    currentAuthorId: null,
     currentPaperIndex: -1,
     filteredPapers: []
   });
@@ -44,6 +51,10 @@ const HomePageContent: React.FC = () => {
   const [isAddPaperModalOpen, setIsAddPaperModalOpen] = useState(false);
   const [loading, setLoading] = useState(true);
   const [recentPapers, setRecentPapers] = useState<PaperWithNotes[]>([]);  // ✅ AJOUT: Historique des articles récents
+  const [selectedCategoryId, setSelectedCategoryId] = useState<number | null>(null);  // Catégorie choisie dans la sidebar
+  const [libraryVersion, setLibraryVersion] = useState(0);  // Comptes de l'arbre des catégories à recharger
+  const [libraryTotal, setLibraryTotal] = useState(0);      // Nombre d'articles de la bibliothèque
+  const [viewMode, setViewMode] = useState<ViewMode>('cards');  // Affichage de la liste, conservé quand MainContent est démonté
   
   const { success, error: showError } = useToast();
 
@@ -61,26 +72,13 @@ const HomePageContent: React.FC = () => {
   }, []);
   
   // ✅ CORRECTION: loadPapers stabilisée avec useCallback sans dépendances
+  // Seul le premier chargement affiche l'écran d'attente : les rechargements suivants rafraîchissent
+  // MainContent sur place, sans le démonter (sélection, filtres et page conservés)
   const loadPapers = useCallback(async () => {
     try {
-      setLoading(true);
-      const papersData = await paperService.getAllPapers();
-      
-      // Charger les notes pour chaque paper
-      const papersWithNotes: PaperWithNotes[] = papersData.map(paper => {
-        const notes = notesStorage.loadNotes(paper.id?.toString() || '');
-        return {
-          ...paper,
-          notes: notes || undefined,
-          hasNotes: notes ? notes.length > 0 : undefined
-        };
-      });
-      
-      setAppState(prev => ({
-        ...prev,
-        papers: papersWithNotes,
-        filteredPapers: prev.filteredPapers.length === 0 ? papersWithNotes : prev.filteredPapers
-      }));
+      // Seul le total est chargé ici : MainContent récupère les articles page par page
+      setLibraryTotal(await paperService.getPaperCount());
+      setLibraryVersion(version => version + 1);
       
     } catch (error) {
       console.error('Erreur lors du chargement des papers:', error);
@@ -99,29 +97,41 @@ const HomePageContent: React.FC = () => {
   useEffect(() => {
     const handlePopState = (event: PopStateEvent) => {
       if (event.state) {
-        const { route, paperId } = event.state;
+        const { route, paperId, authorId } = event.state;
         if (route === 'home') {
           setAppState(prev => ({ ...prev, currentRoute: 'home', currentPaper: null }));
           setActiveItem('home');
         } else if (route === 'paper' && paperId) {
-          const paper = appState.papers.find(p => p.id === paperId);
-          if (paper) {
-            const index = appState.filteredPapers.findIndex(p => p.id === paperId);
+          const index = appState.filteredPapers.findIndex(p => p.id === paperId);
+          const showPaper = (paper: PaperWithNotes) => {
+            const notes = notesStorage.loadNotes(paperId.toString());
             setAppState(prev => ({
               ...prev,
               currentRoute: 'paper',
-              currentPaper: paper,
+              currentPaper: { ...paper, notes: notes || undefined, hasNotes: notes ? notes.length > 0 : undefined },
               currentPaperIndex: index
             }));
             setActiveItem('paper-view');
+          };
+
+          // Le paper peut ne plus être dans la page affichée : le recharger depuis le serveur
+          if (index >= 0) {
+            showPaper(appState.filteredPapers[index]);
+          } else {
+            paperService.getPaperById(paperId)
+              .then(paper => paper && showPaper(paper))
+              .catch(error => console.error('Erreur lors du chargement du paper:', error));
           }
+        } else if (route === 'author' && authorId) {
+          setAppState(prev => ({ ...prev, currentRoute: 'author', currentAuthorId: authorId }));
+          setActiveItem('author-view');
         }
       }
     };
 
     window.addEventListener('popstate', handlePopState);
     return () => window.removeEventListener('popstate', handlePopState);
-  }, [appState.papers, appState.filteredPapers]); // ✅ Dépendances correctes pour le popstate uniquement
+  }, [appState.filteredPapers]); // ✅ Dépendances correctes pour le popstate uniquement
 
   // Navigation vers la page d'accueil
   const navigateToHome = useCallback(() => {
@@ -165,6 +175,22 @@ const HomePageContent: React.FC = () => {
     );
   }, [appState.filteredPapers, updateRecentPapers]);
 
+  // Navigation vers la page d'un auteur
+  const navigateToAuthor = useCallback((authorId: number) => {
+    setAppState(prev => ({
+      ...prev,
+      currentRoute: 'author',
+      currentAuthorId: authorId
+    }));
+    setActiveItem('author-view');
+
+    window.history.pushState(
+      { route: 'author', authorId },
+      '',
+      `/author/${authorId}`
+    );
+  }, []);
+
   // Navigation vers le paper précédent
   const navigateToPrevious = useCallback(() => {
     if (appState.currentPaperIndex > 0) {
@@ -201,12 +227,7 @@ const HomePageContent: React.FC = () => {
           ...prev.currentPaper, 
           notes: blocks,
           hasNotes: blocks.length > 0
-        } : null,
-        papers: prev.papers.map(p => 
-          p.id === prev.currentPaper?.id 
-            ? { ...p, notes: blocks, hasNotes: blocks.length > 0 }
-            : p
-        )
+        } : null
       }));
       
       success('Notes sauvegardées', 'Succès');
@@ -214,24 +235,53 @@ const HomePageContent: React.FC = () => {
   }, [appState.currentPaper, success]);
 
   // ✅ AJOUT: Gérer le clic sur un article récent
-  const handleRecentPaperClick = useCallback((paperId: number) => {
-    const paper = appState.papers.find(p => p.id === paperId);
-    if (paper) {
-      navigateToPaper(paper);
-    } else {
-      // Si le paper n'est pas dans la liste actuelle, essayer de le charger
-      showError('Article non trouvé dans la liste actuelle');
+  const handleRecentPaperClick = useCallback(async (paperId: number) => {
+    try {
+      // Recharger le paper : l'historique peut contenir une version périmée
+      const paper = await paperService.getPaperById(paperId);
+      if (paper) {
+        navigateToPaper(paper);
+      } else {
+        showError('Article introuvable (supprimé ?)');
+      }
+    } catch (error) {
+      console.error('Erreur lors du chargement du paper:', error);
+      showError('Erreur lors du chargement de l\'article');
     }
-  }, [appState.papers, navigateToPaper, showError]);
+  }, [navigateToPaper, showError]);
 
   // Gestion des actions de la sidebar
   const handleItemSelect = useCallback((item: string) => {
     if (item === 'home') {
       navigateToHome();
+    } else if (item === 'duplicates') {
+      setActiveItem('duplicates');
+    } else if (item === 'venues') {
+      setActiveItem('venues');
+    } else if (item === 'categories') {
+      setActiveItem('categories');
+    } else if (item === 'trash') {
+      setActiveItem('trash');
+    } else if (item === 'settings') {
+      setActiveItem('settings');
     }
     console.log('Navigation vers:', item);
   }, [navigateToHome]);
 
+  // Catégorie choisie dans l'arbre de la sidebar : revenir à la liste filtrée
+  const handleCategorySelect = useCallback((categoryId: number | null) => {
+    setSelectedCategoryId(categoryId);
+    if (categoryId !== null) {
+      setActiveItem('home');
+    }
+  }, []);
+
+  // Catégories modifiées (glisser-déposer, page de gestion) : recharger la liste et l'arbre
+  const handleCategoriesChanged = useCallback(() => {
+    paperService.invalidateCache();
+    loadPapers();
+  }, [loadPapers]);
+
   const handleAddPaperClick = useCallback(() => {
     setIsAddPaperModalOpen(true);
   }, []);
@@ -252,6 +302,43 @@ const HomePageContent: React.FC = () => {
     success('Article ajouté avec succès', 'Succès');
   }, [loadPapers, success]); // ✅ loadPapers ajouté aux dépendances
 
+  // Import de fichier : recharger la liste sans fermer la modale (bilan affiché)
+  const handlePapersImported = useCallback(async (count: number) => {
+    console.log(`${count} articles importés`);
+
+    paperService.invalidateCache();
+    await loadPapers();
+  }, [loadPapers]);
+
+  // Fusion de doublons : recharger la liste et retirer le paper supprimé de l'historique
+  const handlePapersMerged = useCallback(async (removedId: number) => {
+    paperService.invalidateCache();
+    await loadPapers();
+
+    setRecentPapers(prev => {
+      const remaining = prev.filter(p => p.id !== removedId);
+      localStorage.setItem('recentPapersHistory', JSON.stringify(remaining));
+      return remaining;
+    });
+  }, [loadPapers]);
+
+  // Les abréviations et rattachements des papers ont pu changer
+  const handleVenuesChanged = useCallback(async () => {
+    paperService.invalidateCache();
+    await loadPapers();
+  }, [loadPapers]);
+
+  // Restauration d'une sauvegarde : recharger la liste (l'historique ne correspond plus après un remplacement)
+  const handleLibraryRestored = useCallback(async (mode: RestoreMode) => {
+    paperService.invalidateCache();
+    await loadPapers();
+
+    if (mode === 'replace') {
+      setRecentPapers([]);
+      localStorage.removeItem('recentPapersHistory');
+    }
+  }, [loadPapers]);
+
   // Rendu conditionnel du contenu principal
   const renderMainContent = () => {
     if (loading) {
@@ -338,22 +425,100 @@ const HomePageContent: React.FC = () => {
                 initialBlocks={appState.currentPaper.notes}
                 onClose={navigateToHome}
                 onSave={handleSaveNotes}
+                onAuthorClick={navigateToAuthor}
               />
             </div>
           </div>
         );
 
+      case 'author':
+        return (
+          <div className="flex-1 flex flex-col">
+            {/* Barre de navigation pour la page d'auteur - pas de sidebar */}
+            <div className="bg-white border-b px-6 py-3 flex items-center mt-16">
+              <button
+                onClick={navigateToHome}
+                className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                <Home className="w-5 h-5" />
+                <span>Accueil</span>
+              </button>
+            </div>
+
+            {appState.currentAuthorId && (
+              <AuthorPage
+                key={appState.currentAuthorId}
+                authorId={appState.currentAuthorId}
+                onPaperClick={navigateToPaper}
+                onAuthorClick={navigateToAuthor}
+              />
+            )}
+          </div>
+        );
+
       case 'home':
       default:
+        if (activeItem === 'duplicates') {
+          return (
+            <DuplicateReview
+              onMerged={handlePapersMerged}
+              hasSidebar={true}
+            />
+          );
+        }
+
+        if (activeItem === 'venues') {
+          return (
+            <VenueManager
+              onChanged={handleVenuesChanged}
+              hasSidebar={true}
+            />
+          );
+        }
+
+        if (activeItem === 'categories') {
+          return (
+            <CategoryManager
+              onChanged={handleCategoriesChanged}
+              onShowPapers={handleCategorySelect}
+              hasSidebar={true}
+            />
+          );
+        }
+
+        if (activeItem === 'trash') {
+          return (
+            <TrashView
+              onChanged={handleCategoriesChanged}
+              hasSidebar={true}
+            />
+          );
+        }
+
+        if (activeItem === 'settings') {
+          return (
+            <SettingsPage
+              onRestored={handleLibraryRestored}
+              hasSidebar={true}
+            />
+          );
+        }
+
         return (
           <MainContent 
-            papers={appState.papers}
+            libraryVersion={libraryVersion}
+            libraryTotal={libraryTotal}
             loading={loading}
+            viewMode={viewMode}
+            onViewModeChange={setViewMode}
             activeView={activeItem}
             onPaperClick={navigateToPaper}
+            onAuthorClick={navigateToAuthor}
             onPapersFiltered={handlePapersFiltered}
             onReload={loadPapers}
             hasSidebar={true}  // ✅ La sidebar est visible sur la page d'accueil
+            selectedCategoryId={selectedCategoryId}
+            onCategorySelect={setSelectedCategoryId}
           />
         );
     }
@@ -379,6 +544,10 @@ const HomePageContent: React.FC = () => {
               reading_status: p.reading_status as string  // ✅ CORRECTION: Cast en string
             }))}
             onRecentPaperClick={handleRecentPaperClick}  // ✅ Callback pour ouvrir un article récent
+            selectedCategoryId={selectedCategoryId}
+            onCategorySelect={handleCategorySelect}
+            onPapersCategorized={handleCategoriesChanged}
+            libraryVersion={libraryVersion}
           />
         )}
         
@@ -395,6 +564,7 @@ const HomePageContent: React.FC = () => {
         <AddPaper 
           onClose={handleAddPaperClose}
           onSave={handlePaperSaved}
+          onPapersImported={handlePapersImported}
         />
       </Modal>
     </div>
@@ -9,6 +9,8 @@ interface ExtractedImage {
   page: number;
   width?: number;
   height?: number;
+  caption?: string | null;
+  hash?: string | null;
   buffer?: Buffer;
 }
 
@@ -175,6 +177,11 @@ const ImageSelectionModal: React.FC<ImageSelectionModalProps> = ({
                       {image.width} × {image.height}
                     </div>
                   )}
+                  {image.caption && (
+                    <div className="text-xs text-gray-700 mt-1 line-clamp-2" title={image.caption}>
+                      {image.caption}
+                    </div>
+                  )}
                 </div>
 
                 {/* Bouton aperçu */}
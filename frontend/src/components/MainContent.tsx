@@ -1,11 +1,29 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import PaperCard from './PaperCard';
 import PaperListView from './PaperListView';
+import PaperTableView from './PaperTableView';
 import PaperFilters from './PaperFilters';
+import PaperPagination from './PaperPagination';
+import SearchResults from './SearchResults';
+import BulkActionBar from './BulkActionBar';
+import { Download } from 'lucide-react';
 import { paperService } from '../services/paperService';
 import { useToast } from '../contexts/ToastContext';
-import { notesStorage } from '../services/notesStorage';
-import type { PaperData } from '../types/Paper';
+import { BIBLIOGRAPHY_FORMATS, CITATION_STYLES } from '../types/Paper';
+import type {
+  PaperData,
+  ReadingStatus,
+  Category,
+  PaginatedResult,
+  Venue,
+  FullTextSearchResult,
+  SearchSource,
+  SearchFilters,
+  SortBy,
+  BibliographyFormat,
+  CitationStyle,
+  CitationOutput
+} from '../types/Paper';
 import type { Block } from '../types/BlockTypes';
 import type { FilterOptions, SortOptions, ViewMode } from './PaperFilters';
 
@@ -15,40 +33,67 @@ interface PaperWithNotes extends PaperData {
   hasNotes?: boolean;
 }
 
+// Délai avant d'envoyer la recherche textuelle au serveur
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Nombre minimal de caractères pour lancer une recherche plein texte
+const MIN_FULL_TEXT_LENGTH = 2;
+
+// Durée d'affichage du toast permettant d'annuler une mise à la corbeille
+const UNDO_DELETE_MS = 8000;
+
 // ✅ CORRECTION: Props interface mise à jour pour recevoir les papers
 interface MainContentProps {
-  papers: PaperWithNotes[];        // ✅ Papers reçus depuis HomePage
+  libraryVersion: number;           // Incrémenté à chaque modification de la bibliothèque
+  libraryTotal: number;             // Nombre total d'articles de la bibliothèque
   loading: boolean;                 // ✅ État de chargement depuis HomePage
+  viewMode: ViewMode;               // Cartes, liste ou tableau (conservé par HomePage)
+  onViewModeChange: (mode: ViewMode) => void;
   activeView?: string;
   onPaperClick?: (paper: PaperWithNotes) => void;
+  onAuthorClick?: (authorId: number) => void;  // Ouvre la page d'un auteur
   onPapersFiltered?: (papers: PaperWithNotes[]) => void;
   onReload?: () => void;           // ✅ Fonction pour recharger les papers
   hasSidebar?: boolean;            // ✅ AJOUT: Indique si la sidebar est visible
+  selectedCategoryId?: number | null;                        // Catégorie choisie dans l'arbre de la sidebar
+  onCategorySelect?: (categoryId: number | null) => void;   // Filtre de catégories modifié ici
 }
 
 const MainContent: React.FC<MainContentProps> = ({ 
-  papers: initialPapers,          // ✅ Papers reçus en props
+  libraryVersion,
+  libraryTotal,
   loading: isLoading,              // ✅ Loading reçu en props
+  viewMode,
+  onViewModeChange,
   activeView = 'home',
   onPaperClick,
+  onAuthorClick,
   onPapersFiltered,
   onReload,
-  hasSidebar = true               // ✅ Par défaut, la sidebar est visible
+  hasSidebar = true,              // ✅ Par défaut, la sidebar est visible
+  selectedCategoryId = null,
+  onCategorySelect
 }) => {
-  // ✅ CORRECTION: Utiliser les papers reçus en props
-  const [papers, setPapers] = useState<PaperWithNotes[]>(initialPapers);
-  const [categories, setCategories] = useState<{ id: number; name: string }[]>([]);
-  const [viewMode, setViewMode] = useState<ViewMode>('cards');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [showExportMenu, setShowExportMenu] = useState(false);
   
-  const { success, error: showError, info } = useToast();
+  const { success, error: showError, info, addToast } = useToast();
+
+  // Sélection multiple (conservée d'une page à l'autre)
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
+  const selectionAnchorRef = useRef<number | null>(null);
 
   // États pour les filtres et le tri
   const [filters, setFilters] = useState<FilterOptions>({
     searchTerm: '',
     statusFilter: 'all',
     dateRange: { start: '', end: '' },
-    conferenceFilter: '',
-    categoryFilter: []
+    venueFilter: null,
+    categoryFilter: [],
+    categoryMode: 'any',
+    includeSubcategories: false,
+    fullText: false
   });
 
   const [sortOptions, setSortOptions] = useState<SortOptions>({
@@ -56,11 +101,6 @@ const MainContent: React.FC<MainContentProps> = ({
     order: 'desc'
   });
 
-  // ✅ CORRECTION: Mettre à jour les papers quand ils changent dans les props
-  useEffect(() => {
-    setPapers(initialPapers);
-  }, [initialPapers]);
-
   // ✅ CORRECTION: Charger uniquement les catégories (pas les papers)
   useEffect(() => {
     const loadCategories = async () => {
@@ -74,123 +114,181 @@ const MainContent: React.FC<MainContentProps> = ({
     };
     
     loadCategories();
-  }, []); // ✅ Charger une seule fois
-
-  // Filtrage et tri des papers
-  const filteredAndSortedPapers = useMemo(() => {
-    let filtered = [...papers];
-
-    // Appliquer les filtres
-    if (filters.searchTerm) {
-      const searchLower = filters.searchTerm.toLowerCase();
-      filtered = filtered.filter(paper => 
-        paper.title?.toLowerCase().includes(searchLower) ||
-        paper.authors?.toLowerCase().includes(searchLower) ||
-        paper.conference?.toLowerCase().includes(searchLower) ||
-        paper.doi?.toLowerCase().includes(searchLower)
-      );
-    }
+  }, [libraryVersion]); // ✅ Recharger avec la bibliothèque (arborescence modifiée dans la sidebar)
 
-    if (filters.statusFilter !== 'all') {
-      filtered = filtered.filter(paper => paper.reading_status === filters.statusFilter);
-    }
+  // Pagination côté serveur
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(24);
+  const [pageResult, setPageResult] = useState<PaginatedResult<PaperWithNotes> | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState(filters.searchTerm);
+  const [fullTextResult, setFullTextResult] = useState<FullTextSearchResult | null>(null);
+  const [searchSources, setSearchSources] = useState<SearchSource[]>([]);
+  const requestIdRef = useRef(0);
 
-    if (filters.dateRange.start) {
-      filtered = filtered.filter(paper => 
-        new Date(paper.publication_date) >= new Date(filters.dateRange.start)
-      );
-    }
+  const isFullTextSearch = filters.fullText && debouncedSearchTerm.trim().length >= MIN_FULL_TEXT_LENGTH;
 
-    if (filters.dateRange.end) {
-      filtered = filtered.filter(paper => 
-        new Date(paper.publication_date) <= new Date(filters.dateRange.end)
-      );
-    }
+  // Filtres envoyés au serveur (liste paginée et exports de la liste filtrée)
+  const searchFilters = useMemo<SearchFilters>(() => ({
+    query: debouncedSearchTerm,
+    reading_status: filters.statusFilter,
+    categories: filters.categoryFilter,
+    categoryMode: filters.categoryMode,
+    includeDescendants: filters.includeSubcategories,
+    dateFrom: filters.dateRange.start || undefined,
+    dateTo: filters.dateRange.end || undefined,
+    venue: filters.venueFilter ?? undefined
+  }), [
+    debouncedSearchTerm,
+    filters.statusFilter,
+    filters.categoryFilter,
+    filters.categoryMode,
+    filters.includeSubcategories,
+    filters.dateRange.start,
+    filters.dateRange.end,
+    filters.venueFilter
+  ]);
 
-    if (filters.conferenceFilter) {
-      filtered = filtered.filter(paper => 
-        paper.conference === filters.conferenceFilter ||
-        paper.conference_abbreviation === filters.conferenceFilter
-      );
-    }
+  // Attendre la fin de la saisie avant d'interroger le serveur
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearchTerm(filters.searchTerm), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [filters.searchTerm]);
+
+  // Recherche, filtrage, tri et pagination effectués par le serveur
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
 
-    if (filters.categoryFilter.length > 0) {
-      filtered = filtered.filter(paper => {
-        if (!paper.categories) return false;
-        return paper.categories.some(cat => 
-          filters.categoryFilter.includes(cat.id)
+    const searchPapers = async () => {
+      setIsSearching(true);
+      try {
+        // Recherche plein texte classée (métadonnées, notes, PDF)
+        if (isFullTextSearch) {
+          const result = await paperService.fullTextSearch(
+            debouncedSearchTerm,
+            { page, limit: pageSize },
+            searchSources
+          );
+
+          if (requestId !== requestIdRef.current) return;
+
+          setFullTextResult(result);
+          setSearchError(null);
+          if (result.page !== page) {
+            setPage(result.page);
+          }
+          return;
+        }
+
+        const result = await paperService.searchPapers(
+          searchFilters,
+          { sortBy: sortOptions.field, sortOrder: sortOptions.order },
+          { page, limit: pageSize }
         );
-      });
-    }
 
-    // Appliquer le tri
-    filtered.sort((a, b) => {
-      let aValue: any, bValue: any;
-
-      switch (sortOptions.field) {
-        case 'title':
-          aValue = a.title.toLowerCase();
-          bValue = b.title.toLowerCase();
-          break;
-        case 'authors':
-          aValue = a.authors.toLowerCase();
-          bValue = b.authors.toLowerCase();
-          break;
-        case 'publication_date':
-          aValue = new Date(a.publication_date || '1970-01-01');
-          bValue = new Date(b.publication_date || '1970-01-01');
-          break;
-        case 'conference':
-          aValue = (a.conference || '').toLowerCase();
-          bValue = (b.conference || '').toLowerCase();
-          break;
-        case 'reading_status':
-          const statusOrder: Record<string, number> = { 'non_lu': 0, 'en_cours': 1, 'lu': 2, 'favoris': 3 };  // ✅ Complet
-          aValue = statusOrder[a.reading_status] ?? 0;
-          bValue = statusOrder[b.reading_status];
-          break;
-        case 'created_at':
-        default:
-          aValue = new Date(a.created_at || '1970-01-01');
-          bValue = new Date(b.created_at || '1970-01-01');
-          break;
+        // Ignorer les réponses d'une recherche déjà remplacée
+        if (requestId !== requestIdRef.current) return;
+
+        setPageResult(result);
+        setFullTextResult(null);
+        setSearchError(null);
+        if (result.page !== page) {
+          setPage(result.page);
+        }
+      } catch (error) {
+        if (requestId !== requestIdRef.current) return;
+        console.error('Erreur lors de la recherche des articles:', error);
+        setSearchError(error instanceof Error ? error.message : 'Erreur inconnue');
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setIsSearching(false);
+        }
       }
+    };
 
-      if (aValue < bValue) return sortOptions.order === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortOptions.order === 'asc' ? 1 : -1;
-      return 0;
-    });
+    searchPapers();
+  }, [
+    isFullTextSearch,
+    searchSources,
+    debouncedSearchTerm,
+    searchFilters,
+    sortOptions,
+    page,
+    pageSize,
+    libraryVersion,
+    reloadKey
+  ]);
 
-    return filtered;
-  }, [papers, filters, sortOptions]);
+  // Venues du registre ayant au moins un paper, pour le filtre
+  useEffect(() => {
+    paperService.getVenues().then(all => setVenues(all.filter(venue => venue.paper_count > 0)));
+  }, [libraryVersion]);
 
-  // Notifier le parent quand les papers filtrés changent
+  const pagePapers = useMemo(
+    () => (fullTextResult ? fullTextResult.data.map(hit => hit.paper) : pageResult?.data ?? []),
+    [fullTextResult, pageResult]
+  );
+  const activeResult = fullTextResult ?? pageResult;
+
+  // Notifier le parent quand les papers affichés changent
   useEffect(() => {
     if (onPapersFiltered) {
-      onPapersFiltered(filteredAndSortedPapers);
+      onPapersFiltered(pagePapers);
     }
-  }, [filteredAndSortedPapers, onPapersFiltered]);
-
-  // Extraction des conférences uniques pour le filtre
-  const uniqueConferences = useMemo(() => {
-    const conferences = papers
-      .map(paper => ({
-        name: paper.conference,
-        abbreviation: paper.conference_abbreviation
-      }))
-      .filter((conf) => conf.name || conf.abbreviation);
-
-    // Supprimer les doublons
-    const seen = new Set();
-    return conferences.filter(conf => {
-      const key = `${conf.name}-${conf.abbreviation}`;
-      if (seen.has(key)) {
-        return false;
-      }
-      seen.add(key);
-      return true;
+  }, [pagePapers, onPapersFiltered]);
+
+  // Catégorie choisie dans la sidebar : filtre sur elle et ses sous-catégories
+  const [appliedCategoryId, setAppliedCategoryId] = useState<number | null>(null);
+  if (selectedCategoryId !== appliedCategoryId) {
+    setAppliedCategoryId(selectedCategoryId);
+    setFilters(current => ({
+      ...current,
+      categoryFilter: selectedCategoryId !== null ? [selectedCategoryId] : [],
+      includeSubcategories: selectedCategoryId !== null || current.includeSubcategories
+    }));
+    setPage(1);
+    setSelectedIds(new Set());
+  }
+
+  // Tout changement de filtre ou de tri ramène à la première page
+  const handleFiltersChange = (newFilters: FilterOptions) => {
+    setFilters(newFilters);
+    setPage(1);
+    setSelectedIds(new Set());
+
+    // Filtre de catégories modifié ici : la sélection de la sidebar ne s'applique plus
+    if (selectedCategoryId !== null
+      && (newFilters.categoryFilter.length !== 1 || newFilters.categoryFilter[0] !== selectedCategoryId)) {
+      setAppliedCategoryId(null);
+      onCategorySelect?.(null);
+    }
+  };
+
+  const handleSortChange = (newSort: SortOptions) => {
+    setSortOptions(newSort);
+    setPage(1);
+  };
+
+  // En-tête du tableau : un second clic inverse l'ordre
+  const handleColumnSort = (field: SortBy) => {
+    handleSortChange({
+      field,
+      order: sortOptions.field === field && sortOptions.order === 'asc' ? 'desc' : 'asc'
     });
-  }, [papers]);
+  };
+
+  const handlePageSizeChange = (newPageSize: number) => {
+    setPageSize(newPageSize);
+    setPage(1);
+  };
+
+  const handleSearchSourcesChange = (sources: SearchSource[]) => {
+    setSearchSources(sources);
+    setPage(1);
+  };
 
   // Gestion du clic sur un paper
   const handlePaperClick = (paper: PaperWithNotes) => {
@@ -204,12 +302,16 @@ const MainContent: React.FC<MainContentProps> = ({
       await paperService.updatePaper(paperId, { reading_status: newStatus });
       
       // Mettre à jour localement
-      setPapers(papers.map(paper => 
-        paper.id === paperId ? { ...paper, reading_status: newStatus } : paper
-      ));
+      setPageResult(prev => prev && {
+        ...prev,
+        data: prev.data.map(paper =>
+          paper.id === paperId ? { ...paper, reading_status: newStatus } : paper
+        )
+      });
       
-      // ✅ Invalider le cache pour forcer la mise à jour
+      // ✅ Invalider le cache et relancer la recherche (le filtre de statut peut exclure l'article)
       paperService.invalidateCache();
+      setReloadKey(key => key + 1);
       
       success('Statut mis à jour', 'Succès');
     } catch (error) {
@@ -218,30 +320,79 @@ const MainContent: React.FC<MainContentProps> = ({
     }
   };
 
-  const handleDelete = async (paperId: number) => {
-    if (!window.confirm('Êtes-vous sûr de vouloir supprimer cet article et ses notes ?')) {
-      return;
+  const handleRatingChange = async (paperId: number, rating: number | null) => {
+    try {
+      await paperService.updatePaper(paperId, { rating });
+
+      setPageResult(prev => prev && {
+        ...prev,
+        data: prev.data.map(paper => (paper.id === paperId ? { ...paper, rating } : paper))
+      });
+
+      // Relancer la recherche : le tri par note peut déplacer l'article
+      paperService.invalidateCache();
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Erreur lors de la mise à jour de la note:', error);
+      showError('Erreur lors de la mise à jour de la note', 'Erreur');
     }
+  };
 
+  // Catégories modifiées depuis le tableau (les comptes de la sidebar suivent)
+  const handlePaperCategoriesChange = async (paperId: number, changes: { add?: number[]; remove?: number[] }) => {
+    try {
+      await paperService.updatePapersCategories([paperId], changes);
+      reloadLibrary();
+    } catch (error) {
+      console.error('Erreur lors de la mise à jour des catégories:', error);
+      showError(error instanceof Error ? error.message : 'Erreur lors de la mise à jour des catégories', 'Erreur');
+    }
+  };
+
+  // Recharger la bibliothèque (liste et arborescence des catégories)
+  const reloadLibrary = () => {
+    paperService.invalidateCache();
+    if (onReload) {
+      onReload();
+    } else {
+      setReloadKey(key => key + 1);
+    }
+  };
+
+  // Toast de confirmation d'une mise à la corbeille, avec restauration immédiate
+  const showUndoDelete = (paperIds: number[]) => {
+    addToast({
+      type: 'info',
+      title: 'Corbeille',
+      message: paperIds.length > 1 ? `${paperIds.length} articles mis à la corbeille` : 'Article mis à la corbeille',
+      duration: UNDO_DELETE_MS,
+      action: {
+        label: 'Annuler',
+        onClick: async () => {
+          try {
+            await paperService.restorePapers(paperIds);
+            reloadLibrary();
+            success(paperIds.length > 1 ? 'Articles restaurés' : 'Article restauré', 'Corbeille');
+          } catch (error) {
+            console.error('Erreur lors de la restauration:', error);
+            showError('Erreur lors de la restauration', 'Erreur');
+          }
+        }
+      }
+    });
+  };
+
+  // Les notes (dossier et localStorage) sont conservées tant que le paper est dans la corbeille
+  const handleDelete = async (paperId: number) => {
     try {
       await paperService.deletePaper(paperId);
       
-      // Supprimer les notes du localStorage
-      notesStorage.deleteNotes(paperId.toString());
-      
-      // Mettre à jour localement
-      setPapers(papers.filter(paper => paper.id !== paperId));
-      
       // ✅ Invalider le cache et recharger si possible
-      paperService.invalidateCache();
-      if (onReload) {
-        onReload();
-      }
-      
-      success('Article supprimé', 'Succès');
+      reloadLibrary();
+      showUndoDelete([paperId]);
     } catch (error) {
       console.error('Erreur lors de la suppression:', error);
-      showError('Erreur lors de la suppression de l\'article', 'Erreur');
+      showError('Erreur lors de la mise à la corbeille de l\'article', 'Erreur');
     }
   };
 
@@ -253,6 +404,171 @@ const MainContent: React.FC<MainContentProps> = ({
     }
   };
 
+  // Télécharger un fichier exporté
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+
+    URL.revokeObjectURL(url);
+  };
+
+  // Exporter les articles sélectionnés, sinon ceux de la liste filtrée (ou toute la bibliothèque)
+  const handleExport = async (format: BibliographyFormat, paperIds?: number[]) => {
+    setShowExportMenu(false);
+
+    try {
+      const { blob, filename } = await paperService.exportPapers(format, paperIds
+        ? { paperIds }
+        : { filters: searchFilters, sort: { sortBy: sortOptions.field, sortOrder: sortOptions.order } });
+      downloadBlob(blob, filename);
+
+      success(`Export ${BIBLIOGRAPHY_FORMATS[format].label} téléchargé`, 'Export');
+    } catch (error) {
+      console.error('Erreur lors de l\'export:', error);
+      showError(`Erreur lors de l'export ${BIBLIOGRAPHY_FORMATS[format].label}`, 'Erreur');
+    }
+  };
+
+  // Exporter la bibliographie formatée des articles sélectionnés, sinon de la liste filtrée
+  const handleBibliographyExport = async (style: CitationStyle, output: CitationOutput, paperIds?: number[]) => {
+    setShowExportMenu(false);
+
+    try {
+      const { blob, filename } = await paperService.exportBibliography(style, output, paperIds
+        ? { paperIds }
+        : { filters: searchFilters, sort: { sortBy: sortOptions.field, sortOrder: sortOptions.order } });
+      downloadBlob(blob, filename);
+
+      success(`Bibliographie ${CITATION_STYLES[style].label} téléchargée`, 'Export');
+    } catch (error) {
+      console.error('Erreur lors de l\'export de la bibliographie:', error);
+      showError(`Erreur lors de l'export de la bibliographie ${CITATION_STYLES[style].label}`, 'Erreur');
+    }
+  };
+
+  // ================================
+  // SÉLECTION ET ACTIONS GROUPÉES
+  // ================================
+
+  // Cocher un article ; Maj+clic coche la plage depuis le dernier article cliqué
+  const handleSelect = (paperId: number, shiftKey: boolean) => {
+    const pageIds = pagePapers.map(paper => paper.id).filter((id): id is number => Boolean(id));
+    const anchorIndex = selectionAnchorRef.current !== null ? pageIds.indexOf(selectionAnchorRef.current) : -1;
+    const index = pageIds.indexOf(paperId);
+
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (shiftKey && anchorIndex >= 0 && index >= 0) {
+        pageIds
+          .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+          .forEach(id => next.add(id));
+      } else if (next.has(paperId)) {
+        next.delete(paperId);
+      } else {
+        next.add(paperId);
+      }
+      return next;
+    });
+    selectionAnchorRef.current = paperId;
+  };
+
+  const handleSelectPage = (selected: boolean) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      pagePapers.forEach(paper => {
+        if (!paper.id) return;
+        if (selected) next.add(paper.id);
+        else next.delete(paper.id);
+      });
+      return next;
+    });
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  };
+
+  // Sélectionner tous les articles correspondant aux filtres, toutes pages confondues
+  const handleSelectAllFiltered = async () => {
+    try {
+      const result = await paperService.searchPapers(
+        searchFilters,
+        { sortBy: sortOptions.field, sortOrder: sortOptions.order },
+        { page: 1, limit: 0 }
+      );
+      setSelectedIds(new Set(result.data.map(paper => paper.id).filter((id): id is number => Boolean(id))));
+    } catch (error) {
+      console.error('Erreur lors de la sélection des articles filtrés:', error);
+      showError('Impossible de sélectionner les articles filtrés', 'Erreur');
+    }
+  };
+
+  // Échap vide la sélection (hors champs de saisie)
+  useEffect(() => {
+    if (selectedIds.size === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.key === 'Escape' && !['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) && !target.isContentEditable) {
+        setSelectedIds(new Set());
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedIds.size]);
+
+  // Exécuter une action groupée puis relancer la recherche
+  const runBulkAction = async (action: () => Promise<string>, libraryChanged = false) => {
+    setIsBulkRunning(true);
+    try {
+      const message = await action();
+      if (libraryChanged) {
+        reloadLibrary();
+      } else {
+        paperService.invalidateCache();
+        setReloadKey(key => key + 1);
+      }
+      success(message, 'Actions groupées');
+    } catch (error) {
+      console.error('Erreur lors de l\'action groupée:', error);
+      showError(error instanceof Error ? error.message : 'Erreur lors de l\'action groupée', 'Erreur');
+    } finally {
+      setIsBulkRunning(false);
+    }
+  };
+
+  const handleBulkStatusChange = (status: ReadingStatus) => runBulkAction(async () => {
+    const updated = await paperService.updatePapersStatus([...selectedIds], status);
+    return `${updated} article(s) mis à jour`;
+  });
+
+  // Les comptes de l'arborescence des catégories suivent la bibliothèque
+  const handleBulkCategoriesChange = (changes: { add?: number[]; remove?: number[] }) => runBulkAction(async () => {
+    const { added, removed } = await paperService.updatePapersCategories([...selectedIds], changes);
+    return changes.add ? `${added} article(s) ajouté(s) à la catégorie` : `${removed} article(s) retiré(s) de la catégorie`;
+  }, true);
+
+  // Mettre la sélection à la corbeille (annulable depuis le toast)
+  const handleBulkDelete = async () => {
+    setIsBulkRunning(true);
+    try {
+      const deletedIds = await paperService.deletePapers([...selectedIds]);
+      clearSelection();
+      reloadLibrary();
+      showUndoDelete(deletedIds);
+    } catch (error) {
+      console.error('Erreur lors de la mise à la corbeille groupée:', error);
+      showError('Erreur lors de la mise à la corbeille des articles', 'Erreur');
+    } finally {
+      setIsBulkRunning(false);
+    }
+  };
+
   // ✅ Utiliser isLoading reçu en props au lieu de loading local
   if (isLoading) {
     // ✅ Ajuster la marge selon la présence de la sidebar
@@ -283,67 +599,188 @@ const MainContent: React.FC<MainContentProps> = ({
           <h1 className="text-3xl font-bold text-gray-900">
             {activeView === 'home' ? 'Tous les articles' : 'Articles'}
           </h1>
-          <button
-            onClick={handleRefresh}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
-            title="Actualiser la liste"
-          >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-            </svg>
-            <span>Actualiser</span>
-          </button>
+          <div className="flex items-center space-x-2">
+            <div className="relative">
+              <button
+                onClick={() => setShowExportMenu(prev => !prev)}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+                title="Exporter la liste filtrée"
+              >
+                <Download className="w-4 h-4" />
+                <span>Exporter</span>
+              </button>
+              {showExportMenu && (
+                <div className="absolute right-0 mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+                  <div className="px-4 pt-1 pb-1 text-xs font-medium text-gray-400 uppercase">Références</div>
+                  {(Object.keys(BIBLIOGRAPHY_FORMATS) as BibliographyFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleExport(format)}
+                      className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      {BIBLIOGRAPHY_FORMATS[format].label}
+                      <span className="text-gray-400"> ({BIBLIOGRAPHY_FORMATS[format].extension})</span>
+                    </button>
+                  ))}
+                  <div className="px-4 pt-2 pb-1 mt-1 border-t border-gray-100 text-xs font-medium text-gray-400 uppercase">Bibliographie</div>
+                  {(Object.keys(CITATION_STYLES) as CitationStyle[]).map(style => (
+                    <div key={style} className="flex items-center px-4 py-1.5 text-sm text-gray-700">
+                      <span className="flex-1">{CITATION_STYLES[style].label}</span>
+                      <button
+                        onClick={() => handleBibliographyExport(style, 'text')}
+                        className="px-2 py-0.5 text-xs rounded hover:bg-gray-100 text-gray-600"
+                      >
+                        TXT
+                      </button>
+                      <button
+                        onClick={() => handleBibliographyExport(style, 'html')}
+                        className="px-2 py-0.5 text-xs rounded hover:bg-gray-100 text-gray-600"
+                      >
+                        HTML
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <button
+              onClick={handleRefresh}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+              title="Actualiser la liste"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              <span>Actualiser</span>
+            </button>
+          </div>
         </div>
         
         {/* Filtres */}
         <PaperFilters
           filters={filters}
-          onFiltersChange={setFilters}
+          onFiltersChange={handleFiltersChange}
           sortOptions={sortOptions}
-          onSortChange={setSortOptions}
+          onSortChange={handleSortChange}
           viewMode={viewMode}
-          onViewModeChange={setViewMode}
+          onViewModeChange={onViewModeChange}
           categories={categories}
-          conferences={uniqueConferences}
-          totalCount={papers.length}
-          filteredCount={filteredAndSortedPapers.length}
+          venues={venues}
+          totalCount={libraryTotal}
+          filteredCount={activeResult?.total ?? libraryTotal}
         />
         
+        {searchError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            Erreur lors de la recherche des articles : {searchError}
+          </div>
+        )}
+
+        {/* Actions groupées sur la sélection */}
+        {!fullTextResult && selectedIds.size > 0 && (
+          <BulkActionBar
+            selectedCount={selectedIds.size}
+            filteredCount={Math.max(pageResult?.total ?? 0, selectedIds.size)}
+            categories={categories}
+            busy={isBulkRunning}
+            onSelectAllFiltered={handleSelectAllFiltered}
+            onClear={clearSelection}
+            onStatusChange={handleBulkStatusChange}
+            onCategoriesChange={handleBulkCategoriesChange}
+            onExport={(format) => handleExport(format, [...selectedIds])}
+            onBibliographyExport={(style, output) => handleBibliographyExport(style, output, [...selectedIds])}
+            onDelete={handleBulkDelete}
+          />
+        )}
+
         {/* Liste des papers */}
-        {filteredAndSortedPapers.length === 0 ? (
+        {fullTextResult ? (
+          <SearchResults
+            query={fullTextResult.query}
+            hits={fullTextResult.data}
+            total={fullTextResult.total}
+            sources={searchSources}
+            onSourcesChange={handleSearchSourcesChange}
+            onPaperClick={handlePaperClick}
+            isSearching={isSearching}
+          />
+        ) : isSearching && !pageResult ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : pagePapers.length === 0 ? (
           <div className="text-center py-12">
             <div className="text-6xl mb-4">📚</div>
             <h2 className="text-2xl font-semibold text-gray-900 mb-2">
-              {papers.length === 0 ? 'Aucun article' : 'Aucun résultat'}
+              {libraryTotal === 0 ? 'Aucun article' : 'Aucun résultat'}
             </h2>
             <p className="text-gray-600">
-              {papers.length === 0 
+              {libraryTotal === 0 
                 ? 'Commencez par ajouter votre premier article scientifique'
                 : 'Essayez de modifier vos critères de recherche'}
             </p>
           </div>
         ) : (
           viewMode === 'cards' ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredAndSortedPapers.map((paper) => (
+            <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 transition-opacity ${isSearching ? 'opacity-60' : ''}`}>
+              {pagePapers.map((paper) => (
                 <PaperCard
                   key={paper.id}
                   paper={paper}
                   onClick={() => handlePaperClick(paper)}
                   onStatusChange={handleStatusChange}
                   onDelete={handleDelete}
+                  onAuthorClick={onAuthorClick}
+                  selected={Boolean(paper.id && selectedIds.has(paper.id))}
+                  selectionMode={selectedIds.size > 0}
+                  onSelect={handleSelect}
+                  dragIds={paper.id && selectedIds.has(paper.id) ? [...selectedIds] : undefined}
                 />
               ))}
             </div>
+          ) : viewMode === 'table' ? (
+            <div className={`transition-opacity ${isSearching ? 'opacity-60' : ''}`}>
+              <PaperTableView
+                papers={pagePapers}
+                categories={categories}
+                sortField={sortOptions.field}
+                sortOrder={sortOptions.order}
+                onSort={handleColumnSort}
+                onPaperClick={handlePaperClick}
+                onStatusChange={handleStatusChange}
+                onCategoriesChange={handlePaperCategoriesChange}
+                onRatingChange={handleRatingChange}
+                onAuthorClick={onAuthorClick}
+                selectedIds={selectedIds}
+                onSelect={handleSelect}
+                onSelectPage={handleSelectPage}
+              />
+            </div>
           ) : (
             <PaperListView
-              papers={filteredAndSortedPapers}
+              papers={pagePapers}
               onPaperClick={handlePaperClick}
               onStatusChange={handleStatusChange}
               onDelete={handleDelete}
+              onAuthorClick={onAuthorClick}
+              selectedIds={selectedIds}
+              onSelect={handleSelect}
+              onSelectPage={handleSelectPage}
             />
           )
         )}
+
+        {/* Pagination */}
+        {activeResult && (
+          <PaperPagination
+            page={activeResult.page}
+            totalPages={activeResult.totalPages}
+            total={activeResult.total}
+            limit={pageSize}
+            onPageChange={setPage}
+            onLimitChange={handlePageSizeChange}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,72 @@
+// frontend/src/components/PaperAbstract.tsx - Résumé dépliable et mots-clés d'un paper
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { splitKeywords } from '../types/Paper';
+import type { PaperData } from '../types/Paper';
+
+interface PaperAbstractProps {
+  paper: Pick<PaperData, 'abstract' | 'keywords'>;
+  // Replié par défaut (cartes et liste), déplié dans l'en-tête des notes
+  defaultExpanded?: boolean;
+  className?: string;
+}
+
+const PaperAbstract: React.FC<PaperAbstractProps> = ({ paper, defaultExpanded = false, className = '' }) => {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+
+  const keywords = splitKeywords(paper.keywords);
+  const keywordsLabel = keywords.length > 1 ? `${keywords.length} mots-clés` : `${keywords.length} mot-clé`;
+
+  if (!paper.abstract && keywords.length === 0) return null;
+
+  const handleToggle = (e: React.MouseEvent) => {
+    // Le clic ne doit pas ouvrir le paper (carte ou ligne cliquable)
+    e.stopPropagation();
+    e.preventDefault();
+    setIsExpanded(expanded => !expanded);
+  };
+
+  return (
+    <div className={className} onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="flex items-center text-xs font-medium text-gray-600 hover:text-gray-900"
+        title={isExpanded ? 'Masquer le résumé' : 'Afficher le résumé et les mots-clés'}
+      >
+        {isExpanded ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+        {paper.abstract ? 'Résumé' : 'Mots-clés'}
+        {keywords.length > 0 && paper.abstract && (
+          <span className="ml-1 text-gray-400">· {keywordsLabel}</span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-2 space-y-2">
+          {paper.abstract && (
+            <div className="max-h-48 overflow-y-auto pr-1 text-xs text-gray-700 leading-relaxed space-y-2">
+              {paper.abstract.split(/\n\s*\n/).map((paragraph, index) => (
+                <p key={index}>{paragraph}</p>
+              ))}
+            </div>
+          )}
+
+          {keywords.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {keywords.map(keyword => (
+                <span
+                  key={keyword}
+                  className="inline-block bg-purple-50 text-purple-700 text-xs px-2 py-0.5 rounded-full"
+                >
+                  {keyword}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaperAbstract;
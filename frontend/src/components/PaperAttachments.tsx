@@ -0,0 +1,267 @@
+// frontend/src/components/PaperAttachments.tsx - Pièces jointes d'un paper : envoi, aperçu, téléchargement, suppression
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronDown, ChevronRight, Paperclip, Upload, Download, Eye, Trash2, X } from 'lucide-react';
+import { paperService } from '../services/paperService';
+import { useToast } from '../contexts/ToastContext';
+import { ATTACHMENT_KINDS } from '../types/Paper';
+import type { Attachment, AttachmentKind } from '../types/Paper';
+
+interface PaperAttachmentsProps {
+  paperId: number;
+  className?: string;
+}
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Aperçu possible dans le navigateur : images et PDF
+const previewType = (attachment: Attachment): 'image' | 'pdf' | null => {
+  const mime = attachment.mime || '';
+  const name = attachment.original_name.toLowerCase();
+  if (mime.startsWith('image/') || /\.(png|jpe?g|gif|webp|svg)$/.test(name)) return 'image';
+  if (mime === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  return null;
+};
+
+const PaperAttachments: React.FC<PaperAttachmentsProps> = ({ paperId, className = '' }) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  // Nature choisie à l'envoi ('' : déduite de l'extension par le serveur)
+  const [uploadKind, setUploadKind] = useState<AttachmentKind | ''>('');
+  const [preview, setPreview] = useState<Attachment | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { success, error: showError } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    paperService.getAttachments(paperId)
+      .then(list => {
+        if (!cancelled) setAttachments(list);
+      })
+      .catch(error => console.error('Erreur chargement pièces jointes:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [paperId]);
+
+  const uploadFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    setIsExpanded(true);
+    try {
+      for (const file of files) {
+        try {
+          const attachment = await paperService.uploadAttachment(paperId, file, { kind: uploadKind || undefined });
+          setAttachments(current => [...current, attachment]);
+          success(`${attachment.original_name} joint au paper`, 'Pièces jointes', 3000);
+        } catch (error) {
+          console.error('Erreur envoi pièce jointe:', error);
+          showError(error instanceof Error ? error.message : `Erreur lors de l'envoi de ${file.name}`, 'Pièces jointes');
+        }
+      }
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const updateAttachment = async (attachment: Attachment, changes: Partial<Pick<Attachment, 'label' | 'kind'>>) => {
+    try {
+      const updated = await paperService.updateAttachment(paperId, attachment.id, changes);
+      setAttachments(current => current.map(item => item.id === updated.id ? updated : item));
+    } catch (error) {
+      console.error('Erreur modification pièce jointe:', error);
+      showError('Erreur lors de la modification de la pièce jointe', 'Pièces jointes');
+    }
+  };
+
+  const deleteAttachment = async (attachment: Attachment) => {
+    if (!window.confirm(`Supprimer la pièce jointe « ${attachment.original_name} » ?`)) {
+      return;
+    }
+
+    try {
+      await paperService.deleteAttachment(paperId, attachment.id);
+      setAttachments(current => current.filter(item => item.id !== attachment.id));
+      success('Pièce jointe supprimée', 'Pièces jointes', 3000);
+    } catch (error) {
+      console.error('Erreur suppression pièce jointe:', error);
+      showError('Erreur lors de la suppression de la pièce jointe', 'Pièces jointes');
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!Array.from(e.dataTransfer.types).includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!Array.from(e.dataTransfer.types).includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(false);
+    if (!isUploading) uploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    uploadFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  return (
+    <div className={className}>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(expanded => !expanded)}
+        className="flex items-center text-xs font-medium text-gray-600 hover:text-gray-900"
+        title={isExpanded ? 'Masquer les pièces jointes' : 'Afficher les pièces jointes'}
+      >
+        {isExpanded ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+        <Paperclip className="w-3 h-3 mr-1" />
+        Pièces jointes
+        {attachments.length > 0 && <span className="ml-1 text-gray-400">· {attachments.length}</span>}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-2 space-y-2">
+          {attachments.length > 0 && (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg bg-white">
+              {attachments.map(attachment => (
+                <li key={attachment.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <select
+                    value={attachment.kind}
+                    onChange={(e) => updateAttachment(attachment, { kind: e.target.value as AttachmentKind })}
+                    className="text-xs border border-gray-200 rounded px-1 py-0.5 text-gray-600 bg-gray-50"
+                    title="Nature de la pièce jointe"
+                  >
+                    {(Object.keys(ATTACHMENT_KINDS) as AttachmentKind[]).map(kind => (
+                      <option key={kind} value={kind}>{ATTACHMENT_KINDS[kind].label}</option>
+                    ))}
+                  </select>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate text-gray-800" title={attachment.original_name}>{attachment.original_name}</div>
+                    <input
+                      key={`${attachment.id}-${attachment.label ?? ''}`}
+                      defaultValue={attachment.label || ''}
+                      onBlur={(e) => {
+                        const label = e.target.value.trim();
+                        if (label !== (attachment.label || '')) updateAttachment(attachment, { label: label || null });
+                      }}
+                      placeholder="Ajouter un libellé"
+                      className="w-full text-xs text-gray-500 bg-transparent border-0 p-0 focus:ring-0 focus:text-gray-800"
+                    />
+                  </div>
+
+                  <span className="text-xs text-gray-400 whitespace-nowrap">{formatSize(attachment.size)}</span>
+
+                  <div className="flex items-center gap-1">
+                    {previewType(attachment) && (
+                      <button
+                        type="button"
+                        onClick={() => setPreview(attachment)}
+                        className="p-1 text-gray-500 hover:text-blue-600 rounded"
+                        title="Aperçu"
+                      >
+                        <Eye className="w-4 h-4" />
+                      </button>
+                    )}
+                    <a
+                      href={paperService.getAttachmentUrl(paperId, attachment.id)}
+                      className="p-1 text-gray-500 hover:text-blue-600 rounded"
+                      title="Télécharger"
+                    >
+                      <Download className="w-4 h-4" />
+                    </a>
+                    <button
+                      type="button"
+                      onClick={() => deleteAttachment(attachment)}
+                      className="p-1 text-gray-500 hover:text-red-600 rounded"
+                      title="Supprimer"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div
+            onDragOver={handleDragOver}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`flex items-center justify-between gap-4 px-3 py-2 border-2 border-dashed rounded-lg transition-colors ${
+              isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300'
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+            >
+              {isUploading ? (
+                <div className="w-4 h-4 animate-spin border-2 border-blue-600 border-t-transparent rounded-full"></div>
+              ) : (
+                <Upload className="w-4 h-4 text-gray-400" />
+              )}
+              {isUploading ? 'Envoi en cours...' : 'Déposez des fichiers ici ou cliquez pour les choisir'}
+            </button>
+            <select
+              value={uploadKind}
+              onChange={(e) => setUploadKind(e.target.value as AttachmentKind | '')}
+              className="text-xs border border-gray-200 rounded px-1 py-0.5 text-gray-600"
+              title="Nature des fichiers envoyés"
+            >
+              <option value="">Nature automatique</option>
+              {(Object.keys(ATTACHMENT_KINDS) as AttachmentKind[]).map(kind => (
+                <option key={kind} value={kind}>{ATTACHMENT_KINDS[kind].label}</option>
+              ))}
+            </select>
+            <input ref={fileInputRef} type="file" multiple onChange={handleFileChange} className="hidden" />
+          </div>
+        </div>
+      )}
+
+      {/* Aperçu d'une image ou d'un PDF joint */}
+      {preview && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6" onClick={() => setPreview(null)}>
+          <div className="relative flex flex-col w-full max-w-5xl h-full bg-white rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between px-4 py-2 border-b">
+              <span className="text-sm font-medium text-gray-700 truncate">{preview.label || preview.original_name}</span>
+              <button type="button" onClick={() => setPreview(null)} className="p-1 text-gray-500 hover:bg-gray-100 rounded" title="Fermer">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex-1 min-h-0 flex items-center justify-center bg-gray-100">
+              {previewType(preview) === 'image' ? (
+                <img
+                  src={paperService.getAttachmentUrl(paperId, preview.id, true)}
+                  alt={preview.original_name}
+                  className="max-w-full max-h-full object-contain"
+                />
+              ) : (
+                <iframe
+                  src={paperService.getAttachmentUrl(paperId, preview.id, true)}
+                  title={preview.original_name}
+                  className="w-full h-full"
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaperAttachments;
@@ -1,4 +1,9 @@
 import React from 'react';
+import CiteButton from './CiteButton';
+import PaperAbstract from './PaperAbstract';
+import AuthorLinks from './AuthorLinks';
+import PdfDropZone from './PdfDropZone';
+import { getItemTypeConfig, PAPER_DRAG_TYPE } from '../types/Paper';
 import type { PaperData } from '../types/Paper';
 
 interface PaperCardProps {
@@ -6,13 +11,23 @@ interface PaperCardProps {
   onClick?: (paper: PaperData) => void;
   onStatusChange?: (paperId: number, newStatus: PaperData['reading_status']) => void;
   onDelete?: (paperId: number) => void;
+  onAuthorClick?: (authorId: number) => void;
+  selected?: boolean;
+  selectionMode?: boolean;   // Au moins un article sélectionné : cases toujours visibles
+  onSelect?: (paperId: number, shiftKey: boolean) => void;
+  dragIds?: number[];        // Articles déplacés avec la carte (sélection en cours)
 }
 
 const PaperCard: React.FC<PaperCardProps> = ({ 
   paper, 
   onClick, 
   onStatusChange, 
-  onDelete 
+  onDelete,
+  onAuthorClick,
+  selected = false,
+  selectionMode = false,
+  onSelect,
+  dragIds
 }) => {
   const getStatusConfig = (status: PaperData['reading_status']) => {
     switch (status) {
@@ -70,7 +85,7 @@ const PaperCard: React.FC<PaperCardProps> = ({
   const handleDeleteClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault();
-    if (onDelete && paper.id && window.confirm('Êtes-vous sûr de vouloir supprimer cet article ?')) {
+    if (onDelete && paper.id) {
       onDelete(paper.id);
     }
   };
@@ -88,9 +103,20 @@ const PaperCard: React.FC<PaperCardProps> = ({
     e.stopPropagation();
   };
 
-  return (
+  // Glisser la carte sur une catégorie de la sidebar pour y ranger l'article
+  const handleDragStart = (e: React.DragEvent) => {
+    if (!paper.id) return;
+    e.dataTransfer.setData(PAPER_DRAG_TYPE, JSON.stringify({ ids: dragIds && dragIds.length > 0 ? dragIds : [paper.id] }));
+    e.dataTransfer.effectAllowed = 'copy';
+  };
+
+  const card = (
     <div
-      className="bg-white rounded-lg shadow-md hover:shadow-lg transition-all duration-200 overflow-hidden cursor-pointer group select-none"
+      className={`bg-white rounded-lg shadow-md hover:shadow-lg transition-all duration-200 overflow-hidden cursor-pointer group select-none ${
+        selected ? 'ring-2 ring-blue-500' : ''
+      }`}
+      draggable={Boolean(paper.id)}
+      onDragStart={handleDragStart}
       onDoubleClick={handleCardDoubleClick}  // ✅ Double-clic pour ouvrir
       onClick={handleCardClick}               // ✅ Simple clic ne fait rien
       title="Double-cliquez pour ouvrir l'article"
@@ -116,6 +142,26 @@ const PaperCard: React.FC<PaperCardProps> = ({
           <span className="text-sm">Pas d'image</span>
         </div>
         
+        {/* Case de sélection (Maj+clic : plage d'articles) */}
+        {onSelect && paper.id && (
+          <label
+            className={`absolute top-3 left-3 p-1 bg-white/90 rounded shadow-sm transition-opacity ${
+              selected || selectionMode ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+            }`}
+            onClick={(e) => e.stopPropagation()}
+            onDoubleClick={(e) => e.stopPropagation()}
+          >
+            <input
+              type="checkbox"
+              checked={selected}
+              readOnly
+              onClick={(e) => onSelect(paper.id!, e.shiftKey)}
+              className="w-4 h-4 cursor-pointer"
+              title="Sélectionner (Maj+clic pour une plage)"
+            />
+          </label>
+        )}
+
         {/* Badge de statut en overlay */}
         <div className="absolute top-3 right-3">
           <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${statusConfig.color}`}>
@@ -141,25 +187,35 @@ const PaperCard: React.FC<PaperCardProps> = ({
         
         {/* Auteurs */}
         <p className="text-gray-600 text-sm mb-2 line-clamp-1">
-          <span className="font-medium">Auteurs:</span> {paper.authors}
+          <span className="font-medium">Auteurs:</span>{' '}
+          <AuthorLinks paper={paper} maxAuthors={3} onAuthorClick={onAuthorClick} />
         </p>
         
-        {/* DOI */}
+        {/* Identifiant : DOI, à défaut arXiv ou ISBN, sinon type de document */}
         <div className="text-xs text-blue-600 mb-2 truncate">
-          <span className="font-medium">DOI:</span> 
-          <a 
-            href={`https://doi.org/${paper.doi}`}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="ml-1 underline hover:text-blue-800"
-            onClick={(e) => {
-              e.stopPropagation();
-              e.preventDefault();
-              window.open(`https://doi.org/${paper.doi}`, '_blank');
-            }}
-          >
-            {paper.doi}
-          </a>
+          {paper.doi || paper.arxiv_id ? (
+            <>
+              <span className="font-medium">{paper.doi ? 'DOI:' : 'arXiv:'}</span> 
+              <a 
+                href={paper.doi ? `https://doi.org/${paper.doi}` : `https://arxiv.org/abs/${paper.arxiv_id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="ml-1 underline hover:text-blue-800"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  e.preventDefault();
+                  window.open(e.currentTarget.href, '_blank');
+                }}
+              >
+                {paper.doi || paper.arxiv_id}
+              </a>
+            </>
+          ) : (
+            <span className="text-gray-500">
+              {getItemTypeConfig(paper.item_type).icon} {getItemTypeConfig(paper.item_type).label}
+              {paper.isbn && ` · ISBN ${paper.isbn}`}
+            </span>
+          )}
         </div>
         
         {/* Conférence et Date */}
@@ -199,6 +255,9 @@ const PaperCard: React.FC<PaperCardProps> = ({
           </div>
         )}
         
+        {/* Résumé et mots-clés */}
+        <PaperAbstract paper={paper} className="mb-3" />
+        
         {/* Actions */}
         <div className="flex items-center justify-between pt-3 border-t border-gray-100">
           {/* Changement de statut */}
@@ -235,7 +294,7 @@ const PaperCard: React.FC<PaperCardProps> = ({
                 onClick={(e) => {
                   e.stopPropagation();
                   e.preventDefault();
-                  window.open(paper.url, '_blank');
+                  window.open(e.currentTarget.href, '_blank');
                 }}
                 className="text-gray-400 hover:text-blue-600 transition-colors"
                 title="Ouvrir l'article original"
@@ -246,11 +305,14 @@ const PaperCard: React.FC<PaperCardProps> = ({
               </a>
             )}
             
+            {/* Citer */}
+            <CiteButton paper={paper} />
+
             {/* Supprimer */}
             <button
               onClick={handleDeleteClick}
               className="text-gray-400 hover:text-red-600 transition-colors"
-              title="Supprimer l'article"
+              title="Mettre à la corbeille (annulable)"
             >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -276,6 +338,13 @@ const PaperCard: React.FC<PaperCardProps> = ({
       </div>
     </div>
   );
+
+  // Déposer un PDF sur la carte l'ajoute au paper (ou le remplace après confirmation)
+  return paper.id ? (
+    <PdfDropZone paperId={paper.id} paperTitle={paper.title} hasPdf={null} variant="overlay">
+      {card}
+    </PdfDropZone>
+  ) : card;
 };
 
 export default PaperCard;
\ No newline at end of file
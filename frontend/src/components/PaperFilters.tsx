@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
-import type { PaperData } from '../types/Paper';
+import React, { useState, useMemo } from 'react';
+import { buildCategoryTree, flattenCategoryTree } from '../types/Paper';
+import type { PaperData, Category, CategoryMatchMode, SortBy, Venue } from '../types/Paper';
 
 export interface FilterOptions {
   searchTerm: string;
@@ -8,16 +9,19 @@ export interface FilterOptions {
     start: string;
     end: string;
   };
-  conferenceFilter: string;
+  venueFilter: number | null;
   categoryFilter: number[];
+  categoryMode: CategoryMatchMode;
+  includeSubcategories: boolean;
+  fullText: boolean;
 }
 
 export interface SortOptions {
-  field: 'title' | 'authors' | 'publication_date' | 'conference' | 'created_at' | 'reading_status';
+  field: SortBy;
   order: 'asc' | 'desc';
 }
 
-export type ViewMode = 'cards' | 'list';
+export type ViewMode = 'cards' | 'list' | 'table';
 
 interface PaperFiltersProps {
   filters: FilterOptions;
@@ -26,8 +30,8 @@ interface PaperFiltersProps {
   onSortChange: (sort: SortOptions) => void;
   viewMode: ViewMode;
   onViewModeChange: (mode: ViewMode) => void;
-  conferences: { name: string | null | undefined; abbreviation: string | null | undefined }[];
-  categories: { id: number; name: string }[];
+  venues: Venue[];
+  categories: Category[];
   totalCount: number;
   filteredCount: number;
 }
@@ -39,23 +43,30 @@ const PaperFilters: React.FC<PaperFiltersProps> = ({
   onSortChange,
   viewMode,
   onViewModeChange,
-  conferences,
+  venues,
   categories,
   totalCount,
   filteredCount
 }) => {
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
 
+  // Catégories dans l'ordre de l'arborescence (parents avant enfants)
+  const orderedCategories = useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories]);
+
   const handleSearchChange = (searchTerm: string) => {
     onFiltersChange({ ...filters, searchTerm });
   };
 
+  const toggleFullText = () => {
+    onFiltersChange({ ...filters, fullText: !filters.fullText });
+  };
+
   const handleStatusFilterChange = (statusFilter: FilterOptions['statusFilter']) => {
     onFiltersChange({ ...filters, statusFilter });
   };
 
-  const handleConferenceFilterChange = (conferenceFilter: string) => {
-    onFiltersChange({ ...filters, conferenceFilter });
+  const handleVenueFilterChange = (value: string) => {
+    onFiltersChange({ ...filters, venueFilter: value ? parseInt(value, 10) : null });
   };
 
   const handleCategoryFilterChange = (categoryId: number) => {
@@ -65,6 +76,14 @@ const PaperFilters: React.FC<PaperFiltersProps> = ({
     onFiltersChange({ ...filters, categoryFilter: newCategoryFilter });
   };
 
+  const handleCategoryModeChange = (categoryMode: CategoryMatchMode) => {
+    onFiltersChange({ ...filters, categoryMode });
+  };
+
+  const toggleIncludeSubcategories = () => {
+    onFiltersChange({ ...filters, includeSubcategories: !filters.includeSubcategories });
+  };
+
   const handleDateRangeChange = (field: 'start' | 'end', value: string) => {
     onFiltersChange({
       ...filters,
@@ -88,8 +107,11 @@ const PaperFilters: React.FC<PaperFiltersProps> = ({
       searchTerm: '',
       statusFilter: 'all',
       dateRange: { start: '', end: '' },
-      conferenceFilter: '',
-      categoryFilter: []
+      venueFilter: null,
+      categoryFilter: [],
+      categoryMode: 'any',
+      includeSubcategories: false,
+      fullText: filters.fullText
     });
   };
 
@@ -97,7 +119,7 @@ const PaperFilters: React.FC<PaperFiltersProps> = ({
                           filters.statusFilter !== 'all' || 
                           filters.dateRange.start || 
                           filters.dateRange.end || 
-                          filters.conferenceFilter ||
+                          filters.venueFilter !== null ||
                           filters.categoryFilter.length > 0;
 
   return (
@@ -109,10 +131,10 @@ const PaperFilters: React.FC<PaperFiltersProps> = ({
           <div className="relative">
             <input
               type="text"
-              placeholder="Rechercher dans les articles..."
+              placeholder={filters.fullText ? 'Rechercher dans les titres, notes et PDF...' : 'Rechercher dans les articles...'}
               value={filters.searchTerm}
               onChange={(e) => handleSearchChange(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              className="w-full pl-10 pr-28 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
             <svg
               className="absolute left-3 top-2.5 h-5 w-5 text-gray-400"
@@ -127,6 +149,17 @@ const PaperFilters: React.FC<PaperFiltersProps> = ({
                 d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
               />
             </svg>
+            <button
+              onClick={toggleFullText}
+              className={`absolute right-1.5 top-1.5 px-2 py-1 rounded text-xs transition-colors ${
+                filters.fullText
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+              title="Rechercher aussi dans les notes et le texte des PDF"
+            >
+              Plein texte
+            </button>
           </div>
         </div>
 
@@ -146,6 +179,8 @@ const PaperFilters: React.FC<PaperFiltersProps> = ({
               <option value="authors">Auteurs</option>
               <option value="conference">Conférence</option>
               <option value="reading_status">Statut</option>
+              <option value="categories">Catégories</option>
+              <option value="rating">Note</option>
             </select>
             
             <button
@@ -193,6 +228,19 @@ const PaperFilters: React.FC<PaperFiltersProps> = ({
                 <path fillRule="evenodd" d="M3 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z" clipRule="evenodd" />
               </svg>
             </button>
+            <button
+              onClick={() => onViewModeChange('table')}
+              className={`p-2 rounded transition-colors ${
+                viewMode === 'table' 
+                  ? 'bg-white text-blue-600 shadow-sm' 
+                  : 'text-gray-600 hover:text-gray-800'
+              }`}
+              title="Vue en tableau"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18M10 3v18M5 3h14a2 2 0 012 2v14a2 2 0 01-2 2H5a2 2 0 01-2-2V5a2 2 0 012-2z" />
+              </svg>
+            </button>
           </div>
 
           {/* Bouton filtres avancés */}
@@ -213,7 +261,7 @@ const PaperFilters: React.FC<PaperFiltersProps> = ({
                 <span className="bg-blue-600 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
                   {[
                     filters.statusFilter !== 'all', 
-                    !!filters.conferenceFilter, 
+                    filters.venueFilter !== null,
                     !!filters.dateRange.start, 
                     !!filters.dateRange.end,
                     filters.categoryFilter.length > 0
@@ -250,23 +298,20 @@ const PaperFilters: React.FC<PaperFiltersProps> = ({
       {showAdvancedFilters && (
         <div className="border-t pt-4">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {/* Filtre par conférence */}
+            {/* Filtre par venue (registre des conférences et revues) */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Conférence
+                Conférence / revue
               </label>
               <select
-                value={filters.conferenceFilter}
-                onChange={(e) => handleConferenceFilterChange(e.target.value)}
+                value={filters.venueFilter ?? ''}
+                onChange={(e) => handleVenueFilterChange(e.target.value)}
                 className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
-                <option value="">Toutes les conférences</option>
-                {conferences.map((conference, idx) => (
-                  <option
-                    key={conference.abbreviation ?? conference.name ?? idx}
-                    value={conference.abbreviation ?? conference.name ?? ''}
-                  >
-                    {conference.name ?? conference.abbreviation ?? 'Unknown'}
+                <option value="">Toutes les conférences et revues</option>
+                {venues.map((venue) => (
+                  <option key={venue.id} value={venue.id} title={venue.name}>
+                    {venue.abbreviation ? `${venue.abbreviation} — ${venue.name}` : venue.name} ({venue.paper_count})
                   </option>
                 ))}
               </select>
@@ -299,6 +344,63 @@ const PaperFilters: React.FC<PaperFiltersProps> = ({
             </div>
           </div>
 
+          {/* Filtre par catégories */}
+          {categories.length > 0 && (
+            <div className="mt-4">
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Catégories
+                </label>
+                <div className="flex items-center bg-gray-100 rounded-lg p-1 text-xs">
+                  {(['any', 'all'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => handleCategoryModeChange(mode)}
+                      className={`px-2 py-1 rounded transition-colors ${
+                        filters.categoryMode === mode
+                          ? 'bg-white text-blue-600 shadow-sm'
+                          : 'text-gray-600 hover:text-gray-800'
+                      }`}
+                      title={mode === 'any' ? 'Au moins une des catégories sélectionnées' : 'Toutes les catégories sélectionnées'}
+                    >
+                      {mode === 'any' ? 'Au moins une' : 'Toutes'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {orderedCategories.map((category) => (
+                  <button
+                    key={category.id}
+                    onClick={() => handleCategoryFilterChange(category.id)}
+                    className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                      filters.categoryFilter.includes(category.id)
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    }`}
+                  >
+                    {category.depth > 0 && <span className="opacity-60 mr-1">{'↳'}</span>}
+                    {category.icon ? (
+                      <span className="mr-1">{category.icon}</span>
+                    ) : category.color && (
+                      <span className="inline-block w-2 h-2 rounded-full mr-1.5 align-middle" style={{ backgroundColor: category.color }}></span>
+                    )}
+                    {category.name}
+                  </button>
+                ))}
+              </div>
+              <label className="mt-2 inline-flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={filters.includeSubcategories}
+                  onChange={toggleIncludeSubcategories}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Inclure les sous-catégories
+              </label>
+            </div>
+          )}
+
           {/* Bouton pour effacer les filtres */}
           {hasActiveFilters && (
             <div className="mt-4 flex justify-end">
@@ -1,4 +1,7 @@
 import React from 'react';
+import PaperAbstract from './PaperAbstract';
+import AuthorLinks from './AuthorLinks';
+import { getItemTypeConfig, PAPER_DRAG_TYPE } from '../types/Paper';
 import type { PaperData } from '../types/Paper';
 
 interface PaperListViewProps {
@@ -6,9 +9,13 @@ interface PaperListViewProps {
   onPaperClick?: (paper: PaperData) => void;
   onStatusChange?: (paperId: number, newStatus: PaperData['reading_status']) => void;
   onDelete?: (paperId: number) => void;
+  onAuthorClick?: (authorId: number) => void;
   sortField?: string;
   sortOrder?: 'asc' | 'desc';
   onSort?: (field: string) => void;
+  selectedIds?: Set<number>;
+  onSelect?: (paperId: number, shiftKey: boolean) => void;
+  onSelectPage?: (selected: boolean) => void;   // Case de l'en-tête : toute la page
 }
 
 const PaperListView: React.FC<PaperListViewProps> = ({
@@ -16,9 +23,13 @@ const PaperListView: React.FC<PaperListViewProps> = ({
   onPaperClick,
   onStatusChange,
   onDelete,
+  onAuthorClick,
   sortField,
   sortOrder,
-  onSort
+  onSort,
+  selectedIds,
+  onSelect,
+  onSelectPage
 }) => {
   const getStatusConfig = (status: PaperData['reading_status']) => {
     switch (status) {
@@ -72,7 +83,7 @@ const PaperListView: React.FC<PaperListViewProps> = ({
 
   const handleDeleteClick = (e: React.MouseEvent, paperId: number | undefined) => {
     e.stopPropagation();
-    if (onDelete && paperId && window.confirm('Êtes-vous sûr de vouloir supprimer cet article ?')) {
+    if (onDelete && paperId) {
       onDelete(paperId);
     }
   };
@@ -97,6 +108,8 @@ const PaperListView: React.FC<PaperListViewProps> = ({
     </button>
   );
 
+  const selectedOnPage = selectedIds ? papers.filter(paper => paper.id && selectedIds.has(paper.id)).length : 0;
+
   if (papers.length === 0) {
     return (
       <div className="text-center text-gray-500 py-12">
@@ -110,8 +123,20 @@ const PaperListView: React.FC<PaperListViewProps> = ({
   return (
     <div className="bg-white rounded-lg shadow-sm overflow-hidden">
       {/* En-tête du tableau */}
-      <div className="bg-gray-50 px-6 py-3 border-b border-gray-200">
-        <div className="grid grid-cols-12 gap-4 items-center text-sm font-medium text-gray-700">
+      <div className="bg-gray-50 px-6 py-3 border-b border-gray-200 flex items-center gap-4">
+        {onSelect && (
+          <input
+            type="checkbox"
+            checked={selectedOnPage > 0 && selectedOnPage === papers.length}
+            ref={(input) => {
+              if (input) input.indeterminate = selectedOnPage > 0 && selectedOnPage < papers.length;
+            }}
+            onChange={(e) => onSelectPage?.(e.target.checked)}
+            className="w-4 h-4 cursor-pointer"
+            title="Sélectionner les articles de la page"
+          />
+        )}
+        <div className="flex-1 grid grid-cols-12 gap-4 items-center text-sm font-medium text-gray-700">
           <div className="col-span-1">
             <SortButton field="image">Image</SortButton>
           </div>
@@ -140,145 +165,175 @@ const PaperListView: React.FC<PaperListViewProps> = ({
       <div className="divide-y divide-gray-200">
         {papers.map((paper) => {
           const statusConfig = getStatusConfig(paper.reading_status);
+          const isSelected = Boolean(paper.id && selectedIds?.has(paper.id));
           
           return (
             <div
               key={paper.id}
-              className="px-6 py-4 hover:bg-gray-50 cursor-pointer transition-colors"
+              className={`px-6 py-4 cursor-pointer transition-colors ${isSelected ? 'bg-blue-50 hover:bg-blue-100' : 'hover:bg-gray-50'}`}
               onClick={() => onPaperClick?.(paper)}
+              draggable={Boolean(paper.id)}
+              onDragStart={(e) => {
+                // Déposer la ligne sur une catégorie de la sidebar pour y ranger l'article (ou toute la sélection)
+                const ids = isSelected && selectedIds ? [...selectedIds] : [paper.id];
+                e.dataTransfer.setData(PAPER_DRAG_TYPE, JSON.stringify({ ids }));
+                e.dataTransfer.effectAllowed = 'copy';
+              }}
             >
-              <div className="grid grid-cols-12 gap-4 items-center">
-                {/* Image */}
-                <div className="col-span-1">
-                  <div className="w-12 h-12 bg-gray-200 rounded overflow-hidden">
-                    {paper.image ? (
-                      <img
-                        src={paper.image}
-                        alt={paper.title}
-                        className="w-full h-full object-cover"
-                        onError={(e) => {
-                          const target = e.target as HTMLImageElement;
-                          target.style.display = 'none';
-                          target.nextElementSibling?.classList.remove('hidden');
-                        }}
-                      />
-                    ) : null}
-                    <div className={`${paper.image ? 'hidden' : 'flex'} items-center justify-center h-full text-gray-400`}>
-                      <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd" />
-                      </svg>
+              <div className="flex items-center gap-4">
+                {onSelect && paper.id && (
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    readOnly
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onSelect(paper.id!, e.shiftKey);
+                    }}
+                    className="w-4 h-4 cursor-pointer"
+                    title="Sélectionner (Maj+clic pour une plage)"
+                  />
+                )}
+                <div className="flex-1 grid grid-cols-12 gap-4 items-center">
+                  {/* Image */}
+                  <div className="col-span-1">
+                    <div className="w-12 h-12 bg-gray-200 rounded overflow-hidden">
+                      {paper.image ? (
+                        <img
+                          src={paper.image}
+                          alt={paper.title}
+                          className="w-full h-full object-cover"
+                          onError={(e) => {
+                            const target = e.target as HTMLImageElement;
+                            target.style.display = 'none';
+                            target.nextElementSibling?.classList.remove('hidden');
+                          }}
+                        />
+                      ) : null}
+                      <div className={`${paper.image ? 'hidden' : 'flex'} items-center justify-center h-full text-gray-400`}>
+                        <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd" />
+                        </svg>
+                      </div>
                     </div>
                   </div>
-                </div>
 
-                {/* Titre */}
-                <div className="col-span-3">
-                  <h3 className="font-medium text-gray-900 truncate pr-2" title={paper.title}>
-                    {paper.title}
-                  </h3>
-                  <p className="text-sm text-blue-600 truncate mt-1">
-                    <a 
-                      href={`https://doi.org/${paper.doi}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      onClick={(e) => e.stopPropagation()}
-                      className="hover:underline"
-                      title={paper.doi}
-                    >
-                      {paper.doi}
-                    </a>
-                  </p>
-                </div>
+                  {/* Titre */}
+                  <div className="col-span-3">
+                    <h3 className="font-medium text-gray-900 truncate pr-2" title={paper.title}>
+                      {paper.title}
+                    </h3>
+                    <p className="text-sm text-blue-600 truncate mt-1">
+                      {paper.doi || paper.arxiv_id ? (
+                        <a 
+                          href={paper.doi ? `https://doi.org/${paper.doi}` : `https://arxiv.org/abs/${paper.arxiv_id}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          onClick={(e) => e.stopPropagation()}
+                          className="hover:underline"
+                          title={paper.doi || `arXiv:${paper.arxiv_id}`}
+                        >
+                          {paper.doi || `arXiv:${paper.arxiv_id}`}
+                        </a>
+                      ) : (
+                        <span className="text-gray-500">{getItemTypeConfig(paper.item_type).label}</span>
+                      )}
+                    </p>
+                  </div>
 
-                {/* Auteurs */}
-                <div className="col-span-2">
-                  <p className="text-sm text-gray-600 truncate" title={paper.authors}>
-                    {paper.authors}
-                  </p>
-                </div>
+                  {/* Auteurs */}
+                  <div className="col-span-2">
+                    <p className="text-sm text-gray-600 truncate">
+                      <AuthorLinks paper={paper} onAuthorClick={onAuthorClick} />
+                    </p>
+                  </div>
 
-                {/* Conférence */}
-                <div className="col-span-2">
-                  {(paper.conference_abbreviation || paper.conference) && (
-                    <span 
-                      className="inline-block bg-orange-100 text-orange-800 text-xs px-2 py-1 rounded truncate max-w-full"
-                      title={(paper.conference || paper.conference_abbreviation) ?? undefined}
-                    >
-                      {paper.conference_abbreviation || paper.conference}
-                    </span>
-                  )}
-                </div>
+                  {/* Conférence */}
+                  <div className="col-span-2">
+                    {(paper.conference_abbreviation || paper.conference) && (
+                      <span 
+                        className="inline-block bg-orange-100 text-orange-800 text-xs px-2 py-1 rounded truncate max-w-full"
+                        title={(paper.conference || paper.conference_abbreviation) ?? undefined}
+                      >
+                        {paper.conference_abbreviation || paper.conference}
+                      </span>
+                    )}
+                  </div>
 
-                {/* Date */}
-                <div className="col-span-1">
-                  <span className="text-sm text-gray-600">
-                    {formatDate(paper.publication_date)}
-                  </span>
-                </div>
+                  {/* Date */}
+                  <div className="col-span-1">
+                    <span className="text-sm text-gray-600">
+                      {formatDate(paper.publication_date)}
+                    </span>
+                  </div>
 
-                {/* Statut */}
-                <div className="col-span-1">
-                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${statusConfig.color}`}>
-                    <span className="mr-1">{statusConfig.icon}</span>
-                    <span className="hidden sm:inline">{statusConfig.text}</span>
-                  </span>
-                </div>
+                  {/* Statut */}
+                  <div className="col-span-1">
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${statusConfig.color}`}>
+                      <span className="mr-1">{statusConfig.icon}</span>
+                      <span className="hidden sm:inline">{statusConfig.text}</span>
+                    </span>
+                  </div>
 
-                {/* Actions */}
-                <div className="col-span-2">
-                  <div className="flex items-center space-x-2">
-                    {/* Changement de statut */}
-                    <div className="flex space-x-1">
-                      {(['non_lu', 'en_cours', 'lu'] as const).map((status) => {
-                        const config = getStatusConfig(status);
-                        return (
-                          <button
-                            key={status}
-                            onClick={(e) => handleStatusClick(e, paper.id, status)}
-                            className={`
-                              p-1 rounded text-xs transition-all duration-200
-                              ${paper.reading_status === status 
-                                ? config.color 
-                                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-                              }
-                            `}
-                            title={`Marquer comme ${config.text.toLowerCase()}`}
-                          >
-                            {config.icon}
-                          </button>
-                        );
-                      })}
-                    </div>
+                  {/* Actions */}
+                  <div className="col-span-2">
+                    <div className="flex items-center space-x-2">
+                      {/* Changement de statut */}
+                      <div className="flex space-x-1">
+                        {(['non_lu', 'en_cours', 'lu'] as const).map((status) => {
+                          const config = getStatusConfig(status);
+                          return (
+                            <button
+                              key={status}
+                              onClick={(e) => handleStatusClick(e, paper.id, status)}
+                              className={`
+                                p-1 rounded text-xs transition-all duration-200
+                                ${paper.reading_status === status 
+                                  ? config.color 
+                                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                }
+                              `}
+                              title={`Marquer comme ${config.text.toLowerCase()}`}
+                            >
+                              {config.icon}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    
+                      {/* Lien vers l'article */}
+                      {paper.url && (
+                        <a
+                          href={paper.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-gray-400 hover:text-blue-600 transition-colors"
+                          title="Ouvrir l'article"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                          </svg>
+                        </a>
+                      )}
                     
-                    {/* Lien vers l'article */}
-                    {paper.url && (
-                      <a
-                        href={paper.url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        onClick={(e) => e.stopPropagation()}
-                        className="text-gray-400 hover:text-blue-600 transition-colors"
-                        title="Ouvrir l'article"
+                      {/* Supprimer */}
+                      <button
+                        onClick={(e) => handleDeleteClick(e, paper.id)}
+                        className="text-gray-400 hover:text-red-600 transition-colors"
+                        title="Mettre à la corbeille (annulable)"
                       >
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                         </svg>
-                      </a>
-                    )}
-                    
-                    {/* Supprimer */}
-                    <button
-                      onClick={(e) => handleDeleteClick(e, paper.id)}
-                      className="text-gray-400 hover:text-red-600 transition-colors"
-                      title="Supprimer l'article"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    </button>
+                      </button>
+                    </div>
                   </div>
                 </div>
               </div>
+
+              {/* Résumé et mots-clés */}
+              <PaperAbstract paper={paper} className="mt-2 pl-[calc(100%/12)]" />
             </div>
           );
         })}
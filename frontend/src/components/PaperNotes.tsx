@@ -1,13 +1,24 @@
 // frontend/src/components/PaperNotes.tsx - Mis à jour pour le système de fichiers
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { FileText, Calendar, Tag, ExternalLink, Plus, Check, Download, Upload, Save } from 'lucide-react';
+import { FileText, Calendar, Tag, ExternalLink, Plus, Check, Download, Upload, Save, BookOpen, Columns2, NotebookPen } from 'lucide-react';
 import type { Block, BlockType, Position } from '../types/BlockTypes';
-import type { PaperData } from '../types/Paper';
+import type { PaperData, PdfAnnotation, AnnotationInput } from '../types/Paper';
+import { FIGURE_DRAG_TYPE } from '../types/Paper';
+import CiteButton from './CiteButton';
+import ArxivRefreshButton from './ArxivRefreshButton';
+import PaperAbstract from './PaperAbstract';
+import PaperAttachments from './PaperAttachments';
+import FigureGallery from './FigureGallery';
+import AuthorLinks from './AuthorLinks';
+import PdfViewer from './PdfViewer';
+import PdfDropZone from './PdfDropZone';
 import { TextBlock } from './commands/TextBlock';
 import { HeadingBlock } from './commands/HeadingBlock';
 import { ListBlock } from './commands/ListBlock';
 import { ImageBlock } from './commands/ImageBlock';
+import { QuoteBlock } from './commands/QuoteBlock';
 import { notesFileStorage } from '../services/notesStorageFile';
+import { paperService } from '../services/paperService';
 import { useToast } from '../contexts/ToastContext';
 
 interface PaperNotesProps {
@@ -15,8 +26,18 @@ interface PaperNotesProps {
   initialBlocks?: Block[];
   onClose: () => void;
   onSave?: (blocks: Block[]) => void;
+  onAuthorClick?: (authorId: number) => void;
 }
 
+// Disposition de la vue : notes seules, PDF à côté des notes ou PDF seul
+type PaperViewMode = 'notes' | 'split' | 'pdf';
+
+const VIEW_MODES: { mode: PaperViewMode; label: string; icon: React.ElementType }[] = [
+  { mode: 'notes', label: 'Notes', icon: NotebookPen },
+  { mode: 'split', label: 'Côte à côte', icon: Columns2 },
+  { mode: 'pdf', label: 'PDF', icon: BookOpen }
+];
+
 interface Command {
   name: string;
   command: string;
@@ -29,7 +50,8 @@ const PaperNotes: React.FC<PaperNotesProps> = ({
   paper, 
   initialBlocks, 
   onClose, 
-  onSave 
+  onSave,
+  onAuthorClick
 }) => {
   const [blocks, setBlocks] = useState<Block[]>(
     initialBlocks && initialBlocks.length > 0 
@@ -48,6 +70,13 @@ const PaperNotes: React.FC<PaperNotesProps> = ({
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [isSaving, setIsSaving] = useState<boolean>(false);
   const [autoSaveEnabled, setAutoSaveEnabled] = useState<boolean>(true);
+  // undefined tant que le détail du paper n'est pas chargé
+  const [pdfUrl, setPdfUrl] = useState<string | null | undefined>(undefined);
+  const [viewMode, setViewMode] = useState<PaperViewMode>('notes');
+  const [annotations, setAnnotations] = useState<PdfAnnotation[]>([]);
+  const [focusRequest, setFocusRequest] = useState<{ annotationId: string; nonce: number } | null>(null);
+  // Figure de la galerie glissée au-dessus des notes
+  const [isFigureDragOver, setIsFigureDragOver] = useState<boolean>(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
 
@@ -89,6 +118,35 @@ const PaperNotes: React.FC<PaperNotesProps> = ({
     loadNotes();
   }, [paper.id]);
 
+  // PDF du paper (absent de la liste des papers, fourni par le détail)
+  useEffect(() => {
+    let cancelled = false;
+    setPdfUrl(undefined);
+    setViewMode('notes');
+    setAnnotations([]);
+    setFocusRequest(null);
+
+    if (paper.id) {
+      const paperId = paper.id;
+      paperService.getPaperById(paperId).then(async details => {
+        if (cancelled) return;
+        setPdfUrl(details?.pdf_url || null);
+        if (!details?.pdf_url) return;
+
+        try {
+          const loaded = await paperService.getAnnotations(paperId);
+          if (!cancelled) setAnnotations(loaded);
+        } catch (error) {
+          console.error('Erreur chargement annotations:', error);
+        }
+      });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [paper.id]);
+
   const loadNotes = async () => {
     try {
       const loadedBlocks = await notesFileStorage.loadNotes(paper);
@@ -297,6 +355,157 @@ const PaperNotes: React.FC<PaperNotesProps> = ({
     }
   }, []);
 
+  // PDF ajouté, remplacé ou retiré depuis la page du paper
+  const handlePdfChange = async (url: string | null) => {
+    setPdfUrl(url);
+
+    if (!url) {
+      setViewMode('notes');
+      return;
+    }
+
+    if (viewMode === 'notes') setViewMode('split');
+    if (paper.id) {
+      try {
+        setAnnotations(await paperService.getAnnotations(paper.id));
+      } catch (error) {
+        console.error('Erreur chargement annotations:', error);
+      }
+    }
+  };
+
+  // Annotations du PDF (surlignages et commentaires)
+  const handleCreateAnnotation = async (input: AnnotationInput): Promise<PdfAnnotation | null> => {
+    if (!paper.id) return null;
+
+    try {
+      const created = await paperService.createAnnotation(paper.id, input);
+      setAnnotations(prev => [...prev, created].sort((a, b) =>
+        a.page - b.page || a.rects[0].y - b.rects[0].y || a.rects[0].x - b.rects[0].x
+      ));
+      return created;
+    } catch (error) {
+      console.error('Erreur création annotation:', error);
+      showError('Erreur lors de l\'enregistrement du surlignage', 'Annotations');
+      return null;
+    }
+  };
+
+  const handleUpdateAnnotation = async (annotationId: string, changes: Partial<Pick<PdfAnnotation, 'color' | 'comment'>>) => {
+    if (!paper.id) return;
+
+    try {
+      const updated = await paperService.updateAnnotation(paper.id, annotationId, changes);
+      setAnnotations(prev => prev.map(annotation => annotation.id === annotationId ? updated : annotation));
+
+      // Citations de cette annotation alignées sur sa couleur et son commentaire
+      setBlocks(prev => prev.map(block =>
+        block.type === 'quote' && block.metadata?.annotationId === annotationId
+          ? { ...block, metadata: { ...block.metadata, color: updated.color, comment: updated.comment || undefined } }
+          : block
+      ));
+    } catch (error) {
+      console.error('Erreur mise à jour annotation:', error);
+      showError('Erreur lors de la mise à jour de l\'annotation', 'Annotations');
+    }
+  };
+
+  const handleDeleteAnnotation = async (annotationId: string) => {
+    if (!paper.id) return;
+
+    try {
+      await paperService.deleteAnnotation(paper.id, annotationId);
+      setAnnotations(prev => prev.filter(annotation => annotation.id !== annotationId));
+      success('Annotation supprimée', 'Annotations', 2000);
+    } catch (error) {
+      console.error('Erreur suppression annotation:', error);
+      showError('Erreur lors de la suppression de l\'annotation', 'Annotations');
+    }
+  };
+
+  // Bloc citation lié à une annotation
+  const createQuoteBlock = (annotation: PdfAnnotation, id: string): Block => ({
+    id,
+    type: 'quote',
+    content: annotation.text,
+    metadata: {
+      annotationId: annotation.id,
+      page: annotation.page,
+      color: annotation.color,
+      comment: annotation.comment || undefined
+    }
+  });
+
+  // Retirer le bloc vide initial avant d'ajouter des citations
+  const withoutEmptyBlock = (prevBlocks: Block[]) =>
+    prevBlocks.length === 1 && prevBlocks[0].type === 'text' && !prevBlocks[0].content ? [] : prevBlocks;
+
+  const handleQuoteAnnotation = (annotation: PdfAnnotation) => {
+    setBlocks(prev => [...withoutEmptyBlock(prev), createQuoteBlock(annotation, Date.now().toString())]);
+    success('Citation ajoutée aux notes', 'Annotations', 2000);
+  };
+
+  // Exporter tous les surlignages dans une section des notes
+  const handleExportAnnotations = () => {
+    if (annotations.length === 0) return;
+
+    const baseId = Date.now();
+    const section: Block[] = [
+      { id: baseId.toString(), type: 'h2', content: 'Surlignages du PDF' },
+      ...annotations.map((annotation, index) => createQuoteBlock(annotation, (baseId + index + 1).toString()))
+    ];
+
+    setBlocks(prev => [...withoutEmptyBlock(prev), ...section]);
+    success(`${annotations.length} surlignage${annotations.length > 1 ? 's' : ''} ajouté${annotations.length > 1 ? 's' : ''} aux notes`, 'Annotations');
+  };
+
+  // Citation ouverte depuis les notes : afficher le PDF à côté et aller au passage
+  const openAnnotation = (annotationId: string) => {
+    if (viewMode === 'notes') setViewMode('split');
+    setFocusRequest({ annotationId, nonce: Date.now() });
+  };
+
+  // Insérer une figure de la galerie comme bloc image (après le bloc visé, sinon à la fin)
+  const handleInsertFigure = (url: string, caption: string | null, afterBlockId?: string) => {
+    const figureBlock: Block = {
+      id: Date.now().toString(),
+      type: 'image',
+      content: url,
+      metadata: caption ? { caption } : undefined
+    };
+
+    setBlocks(prev => {
+      const current = withoutEmptyBlock(prev);
+      const index = afterBlockId ? current.findIndex(block => block.id === afterBlockId) : -1;
+      if (index === -1) return [...current, figureBlock];
+      return [...current.slice(0, index + 1), figureBlock, ...current.slice(index + 1)];
+    });
+    success('Figure insérée dans les notes', 'Figures', 2000);
+  };
+
+  const handleFigureDragOver = (e: React.DragEvent) => {
+    if (!Array.from(e.dataTransfer.types).includes(FIGURE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsFigureDragOver(true);
+  };
+
+  const handleFigureDrop = (e: React.DragEvent) => {
+    const payload = e.dataTransfer.getData(FIGURE_DRAG_TYPE);
+    setIsFigureDragOver(false);
+    if (!payload) return;
+    e.preventDefault();
+
+    try {
+      const { url, caption } = JSON.parse(payload) as { url: string; caption: string | null };
+      // Bloc sous le point de dépôt
+      const target = (e.target as HTMLElement).closest<HTMLElement>('[data-block-id]');
+      handleInsertFigure(url, caption, target?.dataset.blockId);
+    } catch (error) {
+      console.error('Erreur insertion figure:', error);
+    }
+  };
+
   // Render d'un bloc selon son type
   const renderBlock = (block: Block) => {
     const commonProps = {
@@ -317,6 +526,11 @@ const PaperNotes: React.FC<PaperNotesProps> = ({
         return <ListBlock {...commonProps} isOrdered={block.type === 'list'} />;
       case 'image':
         return <ImageBlock {...commonProps} />;
+      case 'quote': {
+        const annotationId = block.metadata?.annotationId;
+        const annotationExists = annotations.some(annotation => annotation.id === annotationId);
+        return <QuoteBlock {...commonProps} onOpenAnnotation={pdfUrl && annotationExists ? openAnnotation : undefined} />;
+      }
       default:
         return <TextBlock {...commonProps} />;
     }
@@ -349,7 +563,7 @@ const PaperNotes: React.FC<PaperNotesProps> = ({
               {paper.authors && (
                 <div className="flex items-center">
                   <FileText className="w-4 h-4 mr-1" />
-                  {paper.authors.length > 50 ? `${paper.authors.substring(0, 50)}...` : paper.authors}
+                  <AuthorLinks paper={paper} maxAuthors={3} onAuthorClick={onAuthorClick} />
                 </div>
               )}
               {paper.url && (
@@ -400,6 +614,12 @@ const PaperNotes: React.FC<PaperNotesProps> = ({
               )}
             </button>
 
+            {/* Bouton Citer */}
+            <CiteButton paper={paper} variant="floating" />
+
+            {/* Suivi de la prépublication arXiv */}
+            <ArxivRefreshButton paper={paper} />
+
             {/* Bouton Export */}
             <button
               type="button"
@@ -421,17 +641,98 @@ const PaperNotes: React.FC<PaperNotesProps> = ({
             </button>
           </div>
         </div>
+
+        {/* Résumé et mots-clés */}
+        <PaperAbstract key={paper.id} paper={paper} defaultExpanded className="px-6 pb-4" />
+
+        {/* Pièces jointes (matériel supplémentaire, présentations, code, données) */}
+        {paper.id && <PaperAttachments key={`attachments-${paper.id}`} paperId={paper.id} className="px-6 pb-3" />}
+
+        {/* Galerie des figures (glisser une figure dans les notes pour l'insérer) */}
+        {paper.id && (
+          <FigureGallery
+            key={`figures-${paper.id}`}
+            paperId={paper.id}
+            paperTitle={paper.title}
+            hasPdf={Boolean(pdfUrl)}
+            onInsert={viewMode !== 'pdf' ? handleInsertFigure : undefined}
+            className="px-6 pb-3"
+          />
+        )}
+
+        {/* Choix de la vue quand le paper a un PDF, sinon zone de dépôt du PDF */}
+        {pdfUrl && paper.id && (
+          <div className="px-6 pb-3 flex items-center justify-between gap-4">
+            <div className="inline-flex rounded-lg border border-gray-200 bg-white p-0.5">
+              {VIEW_MODES.map(({ mode, label, icon: Icon }) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setViewMode(mode)}
+                  className={`px-3 py-1 text-sm rounded-md flex items-center space-x-1 transition-colors ${
+                    viewMode === mode ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  <span>{label}</span>
+                </button>
+              ))}
+            </div>
+            <PdfDropZone
+              paperId={paper.id}
+              paperTitle={paper.title}
+              hasPdf={true}
+              variant="panel"
+              onPdfChange={handlePdfChange}
+            />
+          </div>
+        )}
+        {pdfUrl === null && paper.id && (
+          <PdfDropZone
+            paperId={paper.id}
+            paperTitle={paper.title}
+            hasPdf={false}
+            variant="panel"
+            onPdfChange={handlePdfChange}
+            className="mx-6 mb-3"
+          />
+        )}
       </div>
 
-      {/* Zone d'édition des notes */}
-      <div className="flex-1 overflow-auto p-6">
-        <div className="max-w-4xl mx-auto space-y-2">
-          {blocks.map((block) => (
-            <div key={block.id}>
-              {renderBlock(block)}
+      <div className="flex-1 flex min-h-0">
+        {/* Lecteur PDF */}
+        {pdfUrl && paper.id && viewMode !== 'notes' && (
+          <PdfViewer
+            paperId={paper.id}
+            url={pdfUrl}
+            className={viewMode === 'split' ? 'w-1/2 border-r' : 'flex-1'}
+            annotations={annotations}
+            focusRequest={focusRequest}
+            onCreateAnnotation={handleCreateAnnotation}
+            onUpdateAnnotation={handleUpdateAnnotation}
+            onDeleteAnnotation={handleDeleteAnnotation}
+            onQuoteAnnotation={handleQuoteAnnotation}
+            onExportAnnotations={handleExportAnnotations}
+          />
+        )}
+
+        {/* Zone d'édition des notes */}
+        {viewMode !== 'pdf' && (
+          <div
+            className={`flex-1 overflow-auto p-6 ${isFigureDragOver ? 'bg-blue-50/50' : ''}`}
+            onDragOver={handleFigureDragOver}
+            onDragLeave={() => setIsFigureDragOver(false)}
+            onDrop={handleFigureDrop}
+          >
+            <div className="max-w-4xl mx-auto space-y-2">
+              {blocks.map((block) => (
+                <div key={block.id} data-block-id={block.id}>
+                  {renderBlock(block)}
+                </div>
+              ))}
             </div>
-          ))}
-        </div>
+          </div>
+        )}
       </div>
 
       {/* Input caché pour upload d'images */}
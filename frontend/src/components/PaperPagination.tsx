@@ -0,0 +1,99 @@
+import React from 'react';
+
+const PAGE_SIZE_OPTIONS = [12, 24, 48, 96] as const;
+
+interface PaperPaginationProps {
+  page: number;
+  totalPages: number;
+  total: number;
+  limit: number;
+  onPageChange: (page: number) => void;
+  onLimitChange: (limit: number) => void;
+}
+
+const PaperPagination: React.FC<PaperPaginationProps> = ({
+  page,
+  totalPages,
+  total,
+  limit,
+  onPageChange,
+  onLimitChange
+}) => {
+  if (total === 0) {
+    return null;
+  }
+
+  const firstItem = (page - 1) * limit + 1;
+  const lastItem = Math.min(page * limit, total);
+
+  // Pages affichées autour de la page courante
+  const visiblePages = Array.from({ length: totalPages }, (_, i) => i + 1)
+    .filter(p => p === 1 || p === totalPages || Math.abs(p - page) <= 2);
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mt-6">
+      <div className="flex items-center space-x-2 text-sm text-gray-600">
+        <span>
+          {firstItem}–{lastItem} sur {total}
+        </span>
+        <span className="text-gray-300">|</span>
+        <span>Par page:</span>
+        <select
+          value={limit}
+          onChange={(e) => onLimitChange(Number(e.target.value))}
+          className="text-sm border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {PAGE_SIZE_OPTIONS.map(size => (
+            <option key={size} value={size}>{size}</option>
+          ))}
+        </select>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => onPageChange(page - 1)}
+            disabled={page <= 1}
+            className="p-2 border border-gray-300 rounded hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Page précédente"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+
+          {visiblePages.map((p, index) => (
+            <React.Fragment key={p}>
+              {index > 0 && p - visiblePages[index - 1] > 1 && (
+                <span className="px-2 text-gray-400">…</span>
+              )}
+              <button
+                onClick={() => onPageChange(p)}
+                className={`min-w-[2.25rem] px-3 py-1.5 rounded text-sm transition-colors ${
+                  p === page
+                    ? 'bg-blue-600 text-white'
+                    : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {p}
+              </button>
+            </React.Fragment>
+          ))}
+
+          <button
+            onClick={() => onPageChange(page + 1)}
+            disabled={page >= totalPages}
+            className="p-2 border border-gray-300 rounded hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Page suivante"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaperPagination;
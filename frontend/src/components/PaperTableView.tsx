@@ -0,0 +1,529 @@
+// frontend/src/components/PaperTableView.tsx - Vue tableau : colonnes triables, redimensionnables et réordonnables, édition en ligne
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Columns, Plus, Star, X } from 'lucide-react';
+import AuthorLinks from './AuthorLinks';
+import { notesStorage } from '../services/notesStorage';
+import {
+  PAPER_DRAG_TYPE,
+  PAPER_RATING_MAX,
+  READING_STATUS_CONFIGS,
+  buildCategoryTree,
+  flattenCategoryTree
+} from '../types/Paper';
+import type { Category, PaperData, ReadingStatus, SortBy, SortOrder } from '../types/Paper';
+
+interface PaperTableViewProps {
+  papers: PaperData[];
+  categories: Category[];
+  sortField: SortBy;
+  sortOrder: SortOrder;
+  onSort: (field: SortBy) => void;
+  onPaperClick?: (paper: PaperData) => void;
+  onStatusChange?: (paperId: number, newStatus: ReadingStatus) => void;
+  onCategoriesChange?: (paperId: number, changes: { add?: number[]; remove?: number[] }) => void;
+  onRatingChange?: (paperId: number, rating: number | null) => void;
+  onAuthorClick?: (authorId: number) => void;
+  selectedIds?: Set<number>;
+  onSelect?: (paperId: number, shiftKey: boolean) => void;
+  onSelectPage?: (selected: boolean) => void;   // Case de l'en-tête : toute la page
+}
+
+type ColumnId = 'title' | 'authors' | 'year' | 'venue' | 'status' | 'categories' | 'added' | 'words' | 'rating';
+
+interface TableColumn {
+  label: string;
+  sortBy: SortBy | null;   // Tri du serveur (null : tri de la page affichée)
+  width: number;           // Largeur par défaut en pixels
+}
+
+// Colonnes disponibles, dans l'ordre par défaut
+const TABLE_COLUMNS: Record<ColumnId, TableColumn> = {
+  title: { label: 'Titre', sortBy: 'title', width: 320 },
+  authors: { label: 'Auteurs', sortBy: 'authors', width: 220 },
+  year: { label: 'Année', sortBy: 'publication_date', width: 80 },
+  venue: { label: 'Conférence / revue', sortBy: 'conference', width: 160 },
+  status: { label: 'Statut', sortBy: 'reading_status', width: 130 },
+  categories: { label: 'Catégories', sortBy: 'categories', width: 240 },
+  added: { label: 'Ajouté le', sortBy: 'created_at', width: 110 },
+  words: { label: 'Mots (notes)', sortBy: null, width: 110 },
+  rating: { label: 'Note', sortBy: 'rating', width: 120 }
+};
+
+const DEFAULT_COLUMN_ORDER = Object.keys(TABLE_COLUMNS) as ColumnId[];
+const MIN_COLUMN_WIDTH = 60;
+
+// Disposition des colonnes (ordre, colonnes masquées, largeurs), conservée entre les sessions
+const TABLE_LAYOUT_KEY = 'paperTableLayout';
+
+// Glisser-déposer des en-têtes pour réordonner les colonnes
+const COLUMN_DRAG_TYPE = 'application/x-formpaper-column';
+
+interface TableLayout {
+  order: ColumnId[];
+  hidden: ColumnId[];
+  widths: Partial<Record<ColumnId, number>>;
+}
+
+const DEFAULT_LAYOUT: TableLayout = { order: DEFAULT_COLUMN_ORDER, hidden: [], widths: {} };
+
+const isColumnId = (value: unknown): value is ColumnId => typeof value === 'string' && value in TABLE_COLUMNS;
+
+// Colonnes inconnues retirées, colonnes ajoutées depuis la sauvegarde placées à la fin
+const loadLayout = (): TableLayout => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TABLE_LAYOUT_KEY) || '{}');
+    const order = [...new Set<ColumnId>(Array.isArray(saved.order) ? saved.order.filter(isColumnId) : [])];
+    const widths: TableLayout['widths'] = {};
+    Object.entries(saved.widths || {}).forEach(([id, width]) => {
+      if (isColumnId(id) && typeof width === 'number') widths[id] = Math.max(MIN_COLUMN_WIDTH, width);
+    });
+
+    return {
+      order: [...order, ...DEFAULT_COLUMN_ORDER.filter(id => !order.includes(id))],
+      hidden: Array.isArray(saved.hidden) ? saved.hidden.filter((id: unknown) => isColumnId(id) && id !== 'title') : [],
+      widths
+    };
+  } catch {
+    return DEFAULT_LAYOUT;
+  }
+};
+
+const hasDragType = (e: React.DragEvent, type: string) => Array.from(e.dataTransfer.types).includes(type);
+
+// created_at est stocké en UTC par SQLite (« AAAA-MM-JJ HH:MM:SS »)
+const formatAddedDate = (value?: string) =>
+  value ? new Date(`${value.replace(' ', 'T')}Z`).toLocaleDateString('fr-FR') : '—';
+
+// Les éléments de saisie gèrent eux-mêmes le clavier
+const isEditingTarget = (target: EventTarget) =>
+  ['INPUT', 'SELECT', 'TEXTAREA', 'BUTTON', 'A'].includes((target as HTMLElement).tagName);
+
+const PaperTableView: React.FC<PaperTableViewProps> = ({
+  papers,
+  categories,
+  sortField,
+  sortOrder,
+  onSort,
+  onPaperClick,
+  onStatusChange,
+  onCategoriesChange,
+  onRatingChange,
+  onAuthorClick,
+  selectedIds,
+  onSelect,
+  onSelectPage
+}) => {
+  const [layout, setLayout] = useState<TableLayout>(loadLayout);
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+  const [dropTarget, setDropTarget] = useState<ColumnId | null>(null);
+  const [wordsOrder, setWordsOrder] = useState<SortOrder | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const resizingRef = useRef(false);
+  const rowRefs = useRef<(HTMLTableRowElement | null)[]>([]);
+
+  useEffect(() => {
+    localStorage.setItem(TABLE_LAYOUT_KEY, JSON.stringify(layout));
+  }, [layout]);
+
+  const orderedCategories = useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories]);
+
+  // Nombre de mots des notes (stockées dans le navigateur), pour la colonne et son tri
+  const wordCounts = useMemo(
+    () => new Map(papers.map(paper => [paper.id, notesStorage.getNotesMetadata(String(paper.id))?.wordCount ?? 0])),
+    [papers]
+  );
+
+  const rows = useMemo(() => {
+    if (!wordsOrder) return papers;
+    const direction = wordsOrder === 'asc' ? 1 : -1;
+    return [...papers].sort((a, b) => direction * ((wordCounts.get(a.id) ?? 0) - (wordCounts.get(b.id) ?? 0)));
+  }, [papers, wordsOrder, wordCounts]);
+
+  const visibleColumns = layout.order.filter(id => !layout.hidden.includes(id));
+  const widthOf = (id: ColumnId) => layout.widths[id] ?? TABLE_COLUMNS[id].width;
+  const currentIndex = Math.min(activeIndex, rows.length - 1);
+  const selectedOnPage = selectedIds ? papers.filter(paper => paper.id && selectedIds.has(paper.id)).length : 0;
+
+  // Garder la ligne active visible pendant la navigation au clavier
+  useEffect(() => {
+    rowRefs.current[currentIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [currentIndex]);
+
+  // ================================
+  // DISPOSITION DES COLONNES
+  // ================================
+
+  const handleHeaderClick = (id: ColumnId) => {
+    const sortBy = TABLE_COLUMNS[id].sortBy;
+    if (sortBy) {
+      setWordsOrder(null);
+      onSort(sortBy);
+    } else {
+      setWordsOrder(current => (current === 'desc' ? 'asc' : 'desc'));
+    }
+  };
+
+  const toggleColumn = (id: ColumnId) => {
+    setLayout(current => ({
+      ...current,
+      hidden: current.hidden.includes(id) ? current.hidden.filter(hidden => hidden !== id) : [...current.hidden, id]
+    }));
+  };
+
+  // Tirer le bord droit d'un en-tête pour élargir ou rétrécir la colonne
+  const startResize = (e: React.MouseEvent, id: ColumnId) => {
+    e.preventDefault();
+    e.stopPropagation();
+    resizingRef.current = true;
+
+    const startX = e.clientX;
+    const startWidth = widthOf(id);
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const width = Math.max(MIN_COLUMN_WIDTH, startWidth + event.clientX - startX);
+      setLayout(current => ({ ...current, widths: { ...current.widths, [id]: width } }));
+    };
+
+    const handleMouseUp = () => {
+      resizingRef.current = false;
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  // Déposer un en-tête sur un autre le place devant lui
+  const moveColumn = (id: ColumnId, beforeId: ColumnId) => {
+    if (id === beforeId) return;
+    setLayout(current => {
+      const order = current.order.filter(column => column !== id);
+      order.splice(order.indexOf(beforeId), 0, id);
+      return { ...current, order };
+    });
+  };
+
+  // ================================
+  // NAVIGATION AU CLAVIER
+  // ================================
+
+  // ↑/↓ (Début/Fin) changent de ligne, Entrée ouvre l'article, Espace le sélectionne
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (rows.length === 0 || isEditingTarget(e.target)) return;
+
+    const paper = rows[currentIndex];
+    switch (e.key) {
+      case 'ArrowDown':
+        setActiveIndex(Math.min(currentIndex + 1, rows.length - 1));
+        break;
+      case 'ArrowUp':
+        setActiveIndex(Math.max(currentIndex - 1, 0));
+        break;
+      case 'Home':
+        setActiveIndex(0);
+        break;
+      case 'End':
+        setActiveIndex(rows.length - 1);
+        break;
+      case 'Enter':
+        onPaperClick?.(paper);
+        break;
+      case ' ':
+        if (paper.id) onSelect?.(paper.id, e.shiftKey);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  // ================================
+  // CELLULES
+  // ================================
+
+  const renderCell = (paper: PaperData, id: ColumnId) => {
+    switch (id) {
+      case 'title':
+        return (
+          <span className="font-medium text-gray-900" title={paper.title}>{paper.title}</span>
+        );
+
+      case 'authors':
+        return <AuthorLinks paper={paper} onAuthorClick={onAuthorClick} className="text-gray-600" />;
+
+      case 'year':
+        return <span className="text-gray-600">{paper.publication_date?.slice(0, 4) || '—'}</span>;
+
+      case 'venue':
+        return (
+          <span className="text-gray-600" title={paper.conference ?? undefined}>
+            {paper.conference_abbreviation || paper.conference || '—'}
+          </span>
+        );
+
+      case 'status':
+        return (
+          <select
+            value={paper.reading_status}
+            onClick={(e) => e.stopPropagation()}
+            onChange={(e) => paper.id && onStatusChange?.(paper.id, e.target.value as ReadingStatus)}
+            disabled={!onStatusChange}
+            className="w-full text-sm bg-transparent border border-transparent hover:border-gray-300 rounded px-1 py-0.5"
+          >
+            {(Object.keys(READING_STATUS_CONFIGS) as ReadingStatus[]).map(status => (
+              <option key={status} value={status}>
+                {READING_STATUS_CONFIGS[status].icon} {READING_STATUS_CONFIGS[status].text}
+              </option>
+            ))}
+          </select>
+        );
+
+      case 'categories': {
+        const assigned = paper.categories || [];
+        return (
+          <div className="flex flex-wrap items-center gap-1" onClick={(e) => e.stopPropagation()}>
+            {assigned.map(category => (
+              <span
+                key={category.id}
+                className="inline-flex items-center bg-blue-100 text-blue-800 text-xs pl-2 pr-1 py-0.5 rounded-full"
+                title={category.name}
+              >
+                {category.color && (
+                  <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: category.color }}></span>
+                )}
+                <span className="truncate max-w-[8rem]">{category.icon ? `${category.icon} ` : ''}{category.name}</span>
+                {onCategoriesChange && paper.id && (
+                  <button
+                    onClick={() => onCategoriesChange(paper.id!, { remove: [category.id] })}
+                    className="ml-0.5 p-0.5 rounded-full hover:bg-blue-200"
+                    title={`Retirer de « ${category.name} »`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            ))}
+            {onCategoriesChange && paper.id && (
+              <label className="relative inline-flex items-center text-gray-400 hover:text-blue-600 cursor-pointer" title="Ajouter une catégorie">
+                <Plus className="w-4 h-4" />
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && onCategoriesChange(paper.id!, { add: [parseInt(e.target.value, 10)] })}
+                  className="absolute inset-0 opacity-0 cursor-pointer"
+                >
+                  <option value="">Ajouter une catégorie…</option>
+                  {orderedCategories
+                    .filter(node => !assigned.some(category => category.id === node.id))
+                    .map(node => (
+                      <option key={node.id} value={node.id}>
+                        {'  '.repeat(node.depth)}{node.icon ? `${node.icon} ` : ''}{node.name}
+                      </option>
+                    ))}
+                </select>
+              </label>
+            )}
+          </div>
+        );
+      }
+
+      case 'added':
+        return <span className="text-gray-600">{formatAddedDate(paper.created_at)}</span>;
+
+      case 'words': {
+        const words = wordCounts.get(paper.id) ?? 0;
+        return <span className="block text-right text-gray-600 tabular-nums">{words > 0 ? words.toLocaleString('fr-FR') : '—'}</span>;
+      }
+
+      case 'rating':
+        return (
+          <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+            {Array.from({ length: PAPER_RATING_MAX }, (_, index) => index + 1).map(value => (
+              <button
+                key={value}
+                onClick={() => paper.id && onRatingChange?.(paper.id, value === paper.rating ? null : value)}
+                disabled={!onRatingChange}
+                className="p-0.5 text-yellow-500 disabled:cursor-default"
+                title={value === paper.rating ? 'Retirer la note' : `${value} / ${PAPER_RATING_MAX}`}
+              >
+                <Star className="w-4 h-4" fill={paper.rating && value <= paper.rating ? 'currentColor' : 'none'} />
+              </button>
+            ))}
+          </div>
+        );
+    }
+  };
+
+  const sortIndicator = (id: ColumnId) => {
+    const column = TABLE_COLUMNS[id];
+    const order = wordsOrder
+      ? (column.sortBy === null ? wordsOrder : null)
+      : (column.sortBy === sortField ? sortOrder : null);
+    return order && <span className="text-blue-600 ml-1">{order === 'asc' ? '↑' : '↓'}</span>;
+  };
+
+  return (
+    <div>
+      {/* Barre d'outils : colonnes affichées et aide clavier */}
+      <div className="flex items-center justify-between mb-2 text-sm text-gray-500">
+        <span>↑ ↓ pour changer de ligne, Entrée pour ouvrir, Espace pour sélectionner</span>
+        <div className="relative">
+          <button
+            onClick={() => setShowColumnMenu(prev => !prev)}
+            className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+          >
+            <Columns className="w-4 h-4" />
+            <span>Colonnes</span>
+          </button>
+          {showColumnMenu && (
+            <div className="absolute right-0 mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+              {layout.order.map(id => (
+                <label key={id} className="flex items-center px-4 py-1.5 text-gray-700 hover:bg-gray-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!layout.hidden.includes(id)}
+                    disabled={id === 'title'}
+                    onChange={() => toggleColumn(id)}
+                    className="mr-2"
+                  />
+                  {TABLE_COLUMNS[id].label}
+                </label>
+              ))}
+              <button
+                onClick={() => setLayout(DEFAULT_LAYOUT)}
+                className="w-full mt-1 px-4 py-2 border-t border-gray-100 text-left text-gray-600 hover:bg-gray-50"
+              >
+                Réinitialiser la disposition
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div
+        className="bg-white rounded-lg shadow-sm overflow-x-auto focus:outline-none focus:ring-2 focus:ring-blue-500"
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+      >
+        <table className="table-fixed text-sm" style={{ width: visibleColumns.reduce((sum, id) => sum + widthOf(id), onSelect ? 40 : 0) }}>
+          <colgroup>
+            {onSelect && <col style={{ width: 40 }} />}
+            {visibleColumns.map(id => <col key={id} style={{ width: widthOf(id) }} />)}
+          </colgroup>
+          <thead className="bg-gray-50 border-b border-gray-200 text-gray-700">
+            <tr>
+              {onSelect && (
+                <th className="px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedOnPage > 0 && selectedOnPage === papers.length}
+                    ref={(input) => {
+                      if (input) input.indeterminate = selectedOnPage > 0 && selectedOnPage < papers.length;
+                    }}
+                    onChange={(e) => onSelectPage?.(e.target.checked)}
+                    className="w-4 h-4 cursor-pointer"
+                    title="Sélectionner les articles de la page"
+                  />
+                </th>
+              )}
+              {visibleColumns.map(id => (
+                <th
+                  key={id}
+                  draggable
+                  onDragStart={(e) => {
+                    if (resizingRef.current) {
+                      e.preventDefault();
+                      return;
+                    }
+                    e.dataTransfer.setData(COLUMN_DRAG_TYPE, id);
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  onDragOver={(e) => {
+                    if (!hasDragType(e, COLUMN_DRAG_TYPE)) return;
+                    e.preventDefault();
+                    setDropTarget(id);
+                  }}
+                  onDragLeave={() => setDropTarget(current => (current === id ? null : current))}
+                  onDrop={(e) => {
+                    const dragged = e.dataTransfer.getData(COLUMN_DRAG_TYPE);
+                    setDropTarget(null);
+                    if (isColumnId(dragged)) moveColumn(dragged, id);
+                  }}
+                  onDragEnd={() => setDropTarget(null)}
+                  className={`relative px-3 py-2 text-left font-medium select-none ${dropTarget === id ? 'border-l-2 border-blue-500' : ''}`}
+                >
+                  <button
+                    onClick={() => handleHeaderClick(id)}
+                    className="w-full flex items-center truncate hover:text-blue-600"
+                    title={TABLE_COLUMNS[id].sortBy
+                      ? `Trier par ${TABLE_COLUMNS[id].label.toLowerCase()} (glisser pour déplacer la colonne)`
+                      : 'Trier la page affichée (les notes sont stockées dans le navigateur)'}
+                  >
+                    <span className="truncate">{TABLE_COLUMNS[id].label}</span>
+                    {sortIndicator(id)}
+                  </button>
+                  <span
+                    onMouseDown={(e) => startResize(e, id)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-300"
+                    title="Glisser pour redimensionner"
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.map((paper, index) => {
+              const isSelected = Boolean(paper.id && selectedIds?.has(paper.id));
+              const isActive = index === currentIndex;
+
+              return (
+                <tr
+                  key={paper.id}
+                  ref={(row) => { rowRefs.current[index] = row; }}
+                  onClick={() => {
+                    setActiveIndex(index);
+                    onPaperClick?.(paper);
+                  }}
+                  draggable={Boolean(paper.id)}
+                  onDragStart={(e) => {
+                    // Déposer la ligne sur une catégorie de la sidebar pour y ranger l'article (ou toute la sélection)
+                    const ids = isSelected && selectedIds ? [...selectedIds] : [paper.id];
+                    e.dataTransfer.setData(PAPER_DRAG_TYPE, JSON.stringify({ ids }));
+                    e.dataTransfer.effectAllowed = 'copy';
+                  }}
+                  className={`cursor-pointer transition-colors ${isSelected ? 'bg-blue-50 hover:bg-blue-100' : 'hover:bg-gray-50'} ${isActive ? 'outline outline-2 -outline-offset-2 outline-blue-400' : ''}`}
+                >
+                  {onSelect && (
+                    <td className="px-3 py-2">
+                      {paper.id && (
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          readOnly
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onSelect(paper.id!, e.shiftKey);
+                          }}
+                          className="w-4 h-4 cursor-pointer"
+                          title="Sélectionner (Maj+clic pour une plage)"
+                        />
+                      )}
+                    </td>
+                  )}
+                  {visibleColumns.map(id => (
+                    <td key={id} className={`px-3 py-2 align-top ${id === 'categories' ? '' : 'truncate'}`}>
+                      {renderCell(paper, id)}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PaperTableView;
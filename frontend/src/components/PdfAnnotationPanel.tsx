@@ -0,0 +1,174 @@
+// frontend/src/components/PdfAnnotationPanel.tsx - Liste des surlignages du PDF : commentaires, couleurs, citations
+import React, { useState, useEffect, useRef } from 'react';
+import { Quote, Trash2, NotebookPen, X } from 'lucide-react';
+import { ANNOTATION_COLORS } from '../types/Paper';
+import type { AnnotationColor, PdfAnnotation } from '../types/Paper';
+
+interface PdfAnnotationPanelProps {
+  annotations: PdfAnnotation[];
+  selectedId: string | null;
+  onSelect: (annotation: PdfAnnotation) => void;
+  onUpdate?: (annotationId: string, changes: Partial<Pick<PdfAnnotation, 'color' | 'comment'>>) => void;
+  onDelete?: (annotationId: string) => void;
+  onQuote?: (annotation: PdfAnnotation) => void;
+  onExport?: () => void;
+  onClose: () => void;
+}
+
+interface AnnotationItemProps {
+  annotation: PdfAnnotation;
+  isSelected: boolean;
+  onSelect: () => void;
+  onUpdate?: PdfAnnotationPanelProps['onUpdate'];
+  onDelete?: PdfAnnotationPanelProps['onDelete'];
+  onQuote?: PdfAnnotationPanelProps['onQuote'];
+}
+
+// Une annotation : passage, commentaire modifiable et actions
+const AnnotationItem: React.FC<AnnotationItemProps> = ({ annotation, isSelected, onSelect, onUpdate, onDelete, onQuote }) => {
+  const [comment, setComment] = useState(annotation.comment || '');
+  const itemRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setComment(annotation.comment || '');
+  }, [annotation.comment]);
+
+  useEffect(() => {
+    if (isSelected) {
+      itemRef.current?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [isSelected]);
+
+  // Commentaire enregistré en quittant le champ
+  const saveComment = () => {
+    if (comment.trim() !== (annotation.comment || '')) {
+      onUpdate?.(annotation.id, { comment: comment.trim() || null });
+    }
+  };
+
+  return (
+    <div
+      ref={itemRef}
+      onClick={onSelect}
+      className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+        isSelected ? 'border-blue-400 bg-blue-50' : 'border-gray-200 bg-white hover:border-gray-300'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-1">
+        <span className="flex items-center gap-1 text-xs text-gray-500">
+          <span className={`w-2.5 h-2.5 rounded-full ${ANNOTATION_COLORS[annotation.color].swatch}`}></span>
+          Page {annotation.page}
+        </span>
+        <div className="flex items-center gap-1">
+          {onQuote && (
+            <button
+              type="button"
+              onClick={(e) => { e.stopPropagation(); onQuote(annotation); }}
+              className="p-1 text-gray-500 hover:text-blue-600 rounded"
+              title="Citer dans les notes"
+            >
+              <Quote className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {onDelete && (
+            <button
+              type="button"
+              onClick={(e) => { e.stopPropagation(); onDelete(annotation.id); }}
+              className="p-1 text-gray-500 hover:text-red-600 rounded"
+              title="Supprimer"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-800 line-clamp-3">{annotation.text || <em className="text-gray-400">Zone sans texte</em>}</p>
+
+      {isSelected && onUpdate ? (
+        <div className="mt-2 space-y-2" onClick={(e) => e.stopPropagation()}>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            onBlur={saveComment}
+            placeholder="Ajouter un commentaire"
+            rows={2}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+          />
+          <div className="flex gap-1">
+            {(Object.keys(ANNOTATION_COLORS) as AnnotationColor[]).map(color => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => onUpdate(annotation.id, { color })}
+                className={`w-5 h-5 rounded-full ${ANNOTATION_COLORS[color].swatch} ${
+                  annotation.color === color ? 'ring-2 ring-offset-1 ring-gray-500' : ''
+                }`}
+                title={ANNOTATION_COLORS[color].label}
+              />
+            ))}
+          </div>
+        </div>
+      ) : annotation.comment && (
+        <p className="mt-1 text-xs text-gray-600 italic">{annotation.comment}</p>
+      )}
+    </div>
+  );
+};
+
+const PdfAnnotationPanel: React.FC<PdfAnnotationPanelProps> = ({
+  annotations,
+  selectedId,
+  onSelect,
+  onUpdate,
+  onDelete,
+  onQuote,
+  onExport,
+  onClose
+}) => (
+  <div className="w-72 shrink-0 flex flex-col border-l bg-gray-50 min-h-0">
+    <div className="flex items-center justify-between px-3 py-2 border-b bg-white">
+      <span className="text-sm font-medium text-gray-700">
+        {annotations.length} annotation{annotations.length > 1 ? 's' : ''}
+      </span>
+      <div className="flex items-center gap-1">
+        {onExport && annotations.length > 0 && (
+          <button
+            type="button"
+            onClick={onExport}
+            className="px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded flex items-center gap-1"
+            title="Ajouter tous les surlignages à la fin des notes"
+          >
+            <NotebookPen className="w-3.5 h-3.5" />
+            Exporter dans les notes
+          </button>
+        )}
+        <button type="button" onClick={onClose} className="p-1 text-gray-500 hover:bg-gray-100 rounded" title="Fermer">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+
+    <div className="flex-1 overflow-y-auto p-2 space-y-2">
+      {annotations.length === 0 ? (
+        <p className="text-xs text-gray-500 text-center py-6 px-2">
+          Sélectionnez du texte dans le PDF puis choisissez une couleur pour le surligner.
+        </p>
+      ) : (
+        annotations.map(annotation => (
+          <AnnotationItem
+            key={annotation.id}
+            annotation={annotation}
+            isSelected={annotation.id === selectedId}
+            onSelect={() => onSelect(annotation)}
+            onUpdate={onUpdate}
+            onDelete={onDelete}
+            onQuote={onQuote}
+          />
+        ))
+      )}
+    </div>
+  </div>
+);
+
+export default PdfAnnotationPanel;
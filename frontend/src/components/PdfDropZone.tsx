@@ -0,0 +1,278 @@
+// frontend/src/components/PdfDropZone.tsx - Ajout, remplacement ou retrait du PDF d'un paper existant (glisser-déposer)
+import React, { useState, useRef } from 'react';
+import { Upload, FileText, RefreshCw, Trash2 } from 'lucide-react';
+import ImageSelectionModal from './ImageSelectionModal';
+import { paperService } from '../services/paperService';
+import { useToast } from '../contexts/ToastContext';
+import type { ExtractedImage, PdfUploadResult } from '../types/Paper';
+
+interface PdfDropZoneProps {
+  paperId: number;
+  paperTitle: string;
+  // PDF présent ; null quand il n'est pas connu (carte de la liste) : vérifié au dépôt
+  hasPdf: boolean | null;
+  // 'panel' : zone affichée dans la page du paper ; 'overlay' : dépôt sur le contenu enveloppé (carte)
+  variant: 'panel' | 'overlay';
+  onPdfChange?: (pdfUrl: string | null) => void;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+const isPdfFile = (file: File) =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+// Le glissement contient-il des fichiers (et non du texte ou un lien) ?
+const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+const PdfDropZone: React.FC<PdfDropZoneProps> = ({
+  paperId,
+  paperTitle,
+  hasPdf,
+  variant,
+  onPdfChange,
+  className = '',
+  children
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [extractImages, setExtractImages] = useState(false);
+  const [candidateImages, setCandidateImages] = useState<(ExtractedImage & { id: string })[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Compteur des dragenter/dragleave imbriqués (enfants de la zone)
+  const dragDepth = useRef(0);
+
+  const { success, error: showError, warning } = useToast();
+
+  const reportResult = (result: PdfUploadResult) => {
+    success(result.message, 'PDF', 3000);
+    result.warnings.forEach(message => warning(message, 'PDF', 8000));
+
+    if (result.doiCheck?.pdfDoi && !result.doiCheck.paperDoi) {
+      warning(`DOI trouvé dans le PDF : ${result.doiCheck.pdfDoi}`, 'PDF', 8000);
+    }
+
+    // Même nom de fichier après remplacement : forcer le rechargement du lecteur
+    onPdfChange?.(result.paper.pdf_url ? `${result.paper.pdf_url}?v=${Date.now()}` : null);
+  };
+
+  const uploadPdf = async (file: File) => {
+    if (!isPdfFile(file)) {
+      showError(`${file.name} n'est pas un PDF`, 'PDF');
+      return;
+    }
+
+    try {
+      // Carte : savoir si un PDF existe avant de l'écraser
+      let replacing = hasPdf;
+      if (replacing === null) {
+        const details = await paperService.getPaperById(paperId);
+        replacing = Boolean(details?.pdf_url);
+      }
+      if (replacing && !window.confirm(`Remplacer le PDF de « ${paperTitle} » par ${file.name} ?`)) {
+        return;
+      }
+
+      setIsUploading(true);
+      const result = await paperService.uploadPaperPdf(paperId, file, {
+        extractImages: variant === 'panel' && extractImages
+      });
+      reportResult(result);
+
+      if (result.images.length > 0) {
+        setCandidateImages(result.images.map((image, index) => ({ ...image, id: `${index}-${image.name}` })));
+      }
+    } catch (error) {
+      console.error('Erreur envoi PDF:', error);
+      showError(error instanceof Error ? error.message : 'Erreur lors de l\'envoi du PDF', 'PDF');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const removePdf = async () => {
+    if (!window.confirm(`Retirer le PDF de « ${paperTitle} » ? Les notes et annotations sont conservées.`)) {
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+      reportResult(await paperService.removePaperPdf(paperId));
+    } catch (error) {
+      console.error('Erreur retrait PDF:', error);
+      showError(error instanceof Error ? error.message : 'Erreur lors du retrait du PDF', 'PDF');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const saveSelectedImages = async (images: ExtractedImage[]) => {
+    try {
+      const saved = await paperService.savePaperPdfImages(paperId, images);
+      success(`${saved} image${saved > 1 ? 's' : ''} enregistrée${saved > 1 ? 's' : ''}`, 'Images');
+    } catch (error) {
+      console.error('Erreur enregistrement images:', error);
+      showError('Erreur lors de l\'enregistrement des images', 'Images');
+    }
+  };
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepth.current += 1;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    dragDepth.current = 0;
+    setIsDragging(false);
+
+    const file = e.dataTransfer.files[0];
+    if (file && !isUploading) uploadPdf(file);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) uploadPdf(file);
+    e.target.value = '';
+  };
+
+  const dropHandlers = {
+    onDragEnter: handleDragEnter,
+    onDragOver: handleDragOver,
+    onDragLeave: handleDragLeave,
+    onDrop: handleDrop
+  };
+
+  const fileInput = (
+    <input ref={fileInputRef} type="file" accept="application/pdf,.pdf" onChange={handleFileChange} className="hidden" />
+  );
+
+  const imageModal = (
+    <ImageSelectionModal
+      isOpen={candidateImages.length > 0}
+      images={candidateImages}
+      onClose={() => setCandidateImages([])}
+      onSave={saveSelectedImages}
+      paperTitle={paperTitle}
+    />
+  );
+
+  // Carte : le contenu reste inchangé, un voile apparaît pendant le glissement
+  if (variant === 'overlay') {
+    return (
+      <div className={`relative ${className}`} {...dropHandlers}>
+        {children}
+        {(isDragging || isUploading) && (
+          <div className="absolute inset-0 z-10 flex flex-col items-center justify-center bg-blue-50/90 border-2 border-dashed border-blue-400 rounded-lg text-blue-700 text-sm pointer-events-none">
+            {isUploading ? (
+              <div className="w-6 h-6 animate-spin border-2 border-blue-600 border-t-transparent rounded-full mb-2"></div>
+            ) : (
+              <Upload className="w-6 h-6 mb-2" />
+            )}
+            {isUploading ? 'Envoi du PDF...' : 'Déposer le PDF de l\'article'}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const extractOption = (
+    <label className="flex items-center gap-1 text-xs text-gray-600" onClick={(e) => e.stopPropagation()}>
+      <input
+        type="checkbox"
+        checked={extractImages}
+        onChange={(e) => setExtractImages(e.target.checked)}
+        className="rounded border-gray-300"
+      />
+      Extraire les images
+    </label>
+  );
+
+  // Page du paper avec PDF : remplacement (dépôt ou choix du fichier) et retrait
+  // (champ fichier et sélection des images rendus hors de la zone pour que leurs clics n'y remontent pas)
+  if (hasPdf) {
+    return (
+      <>
+        <div
+          className={`flex items-center gap-2 px-2 py-1 rounded-lg border text-sm transition-colors ${
+            isDragging ? 'border-blue-400 border-dashed bg-blue-50' : 'border-transparent'
+          } ${className}`}
+          {...dropHandlers}
+        >
+          {isUploading ? (
+            <div className="w-4 h-4 animate-spin border-2 border-blue-600 border-t-transparent rounded-full"></div>
+          ) : (
+            <FileText className="w-4 h-4 text-gray-400" />
+          )}
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            className="px-2 py-1 text-gray-600 hover:bg-gray-100 rounded flex items-center gap-1 disabled:opacity-50"
+            title="Remplacer le PDF (ou déposer un fichier ici)"
+          >
+            <RefreshCw className="w-3.5 h-3.5" />
+            Remplacer
+          </button>
+          <button
+            type="button"
+            onClick={removePdf}
+            disabled={isUploading}
+            className="px-2 py-1 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded flex items-center gap-1 disabled:opacity-50"
+            title="Retirer le PDF"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Retirer
+          </button>
+          {extractOption}
+        </div>
+        {fileInput}
+        {imageModal}
+      </>
+    );
+  }
+
+  // Page du paper sans PDF : zone de dépôt
+  return (
+    <>
+      <div
+        onClick={() => !isUploading && fileInputRef.current?.click()}
+        className={`flex items-center justify-between gap-4 px-4 py-3 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+          isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+        } ${className}`}
+        {...dropHandlers}
+      >
+        <div className="flex items-center gap-3 text-sm text-gray-600">
+          {isUploading ? (
+            <div className="w-5 h-5 animate-spin border-2 border-blue-600 border-t-transparent rounded-full"></div>
+          ) : (
+            <Upload className="w-5 h-5 text-gray-400" />
+          )}
+          <span>
+            {isUploading ? 'Envoi du PDF...' : 'Déposez le PDF de l\'article ici ou cliquez pour le choisir'}
+          </span>
+        </div>
+        {extractOption}
+      </div>
+      {fileInput}
+      {imageModal}
+    </>
+  );
+};
+
+export default PdfDropZone;
@@ -0,0 +1,719 @@
+// frontend/src/components/PdfViewer.tsx - Lecteur PDF intégré : miniatures, zoom, recherche, surlignages et dernière page lue
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Maximize2, Search, PanelLeft, X, ExternalLink, MessageSquare } from 'lucide-react';
+import { GlobalWorkerOptions, getDocument, TextLayer } from 'pdfjs-dist';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import 'pdfjs-dist/web/pdf_viewer.css';
+import PdfAnnotationPanel from './PdfAnnotationPanel';
+import { ANNOTATION_COLORS } from '../types/Paper';
+import type { AnnotationColor, AnnotationInput, AnnotationRect, PdfAnnotation } from '../types/Paper';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+interface PdfViewerProps {
+  paperId: number;
+  url: string;
+  className?: string;
+  annotations?: PdfAnnotation[];
+  // Annotation à afficher (citation ouverte depuis les notes) ; nonce pour répéter la même demande
+  focusRequest?: { annotationId: string; nonce: number } | null;
+  onCreateAnnotation?: (annotation: AnnotationInput) => Promise<PdfAnnotation | null>;
+  onUpdateAnnotation?: (annotationId: string, changes: Partial<Pick<PdfAnnotation, 'color' | 'comment'>>) => void;
+  onDeleteAnnotation?: (annotationId: string) => void;
+  onQuoteAnnotation?: (annotation: PdfAnnotation) => void;
+  onExportAnnotations?: () => void;
+}
+
+// Passage sélectionné dans la couche de texte, en attente d'une couleur
+interface PendingSelection {
+  text: string;
+  rects: AnnotationRect[];
+  // Position de la barre de couleurs, en pixels dans la page
+  top: number;
+  left: number;
+}
+
+// Page atteinte dans chaque PDF (clé : ID du paper)
+const READING_POSITIONS_KEY = 'pdfReadingPositions';
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+const SCALE_STEP = 0.25;
+const THUMBNAIL_WIDTH = 96;
+
+const loadReadingPosition = (paperId: number): number => {
+  try {
+    const positions = JSON.parse(localStorage.getItem(READING_POSITIONS_KEY) || '{}');
+    return Number(positions[paperId]) || 1;
+  } catch {
+    return 1;
+  }
+};
+
+const saveReadingPosition = (paperId: number, page: number) => {
+  try {
+    const positions = JSON.parse(localStorage.getItem(READING_POSITIONS_KEY) || '{}');
+    positions[paperId] = page;
+    localStorage.setItem(READING_POSITIONS_KEY, JSON.stringify(positions));
+  } catch (error) {
+    console.error('Erreur sauvegarde de la page lue:', error);
+  }
+};
+
+// Texte normalisé pour la recherche (casse et accents ignorés)
+const normalizeForSearch = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const countOccurrences = (text: string, term: string): number => {
+  let count = 0;
+  let index = text.indexOf(term);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(term, index + term.length);
+  }
+  return count;
+};
+
+// Rectangles de la sélection, en fractions de la page (lignes fusionnées)
+const selectionRects = (range: Range, page: DOMRect): AnnotationRect[] => {
+  const rects: AnnotationRect[] = [];
+
+  for (const rect of Array.from(range.getClientRects())) {
+    if (rect.width < 1 || rect.height < 1) continue;
+
+    const x = (rect.left - page.left) / page.width;
+    const y = (rect.top - page.top) / page.height;
+    const width = rect.width / page.width;
+    const height = rect.height / page.height;
+    const last = rects[rects.length - 1];
+
+    // Fragments d'une même ligne réunis en un seul rectangle
+    if (last && Math.abs(last.y - y) < height / 2 && x <= last.x + last.width + 0.01) {
+      const right = Math.max(last.x + last.width, x + width);
+      last.x = Math.min(last.x, x);
+      last.width = right - last.x;
+      last.height = Math.max(last.height, height);
+    } else {
+      rects.push({ x, y, width, height });
+    }
+  }
+
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  return rects.map(rect => ({
+    x: clamp(rect.x),
+    y: clamp(rect.y),
+    width: clamp(Math.min(rect.width, 1 - clamp(rect.x))),
+    height: clamp(Math.min(rect.height, 1 - clamp(rect.y)))
+  }));
+};
+
+interface SearchMatch {
+  page: number;
+  count: number;
+}
+
+interface PdfThumbnailProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  isActive: boolean;
+  onSelect: () => void;
+}
+
+// Miniature d'une page, rendue quand elle devient visible
+const PdfThumbnail: React.FC<PdfThumbnailProps> = ({ pdf, pageNumber, isActive, onSelect }) => {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    const button = buttonRef.current;
+    if (!button) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setIsVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(button);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible) return;
+
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+
+    pdf.getPage(pageNumber).then(page => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      renderTask = page.render({ canvas, viewport });
+      return renderTask.promise;
+    }).catch(error => {
+      if (!cancelled) console.error(`Erreur miniature page ${pageNumber}:`, error);
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, isVisible]);
+
+  useEffect(() => {
+    if (isActive) {
+      buttonRef.current?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [isActive]);
+
+  return (
+    <button
+      ref={buttonRef}
+      type="button"
+      onClick={onSelect}
+      className={`block mx-auto p-1 rounded border-2 transition-colors ${
+        isActive ? 'border-blue-500' : 'border-transparent hover:border-gray-300'
+      }`}
+      title={`Page ${pageNumber}`}
+    >
+      <canvas ref={canvasRef} className="bg-white shadow-sm" style={{ width: THUMBNAIL_WIDTH, minHeight: 60 }} />
+      <span className="block text-xs text-gray-500 mt-1">{pageNumber}</span>
+    </button>
+  );
+};
+
+const PdfViewer: React.FC<PdfViewerProps> = ({
+  paperId,
+  url,
+  className = '',
+  annotations = [],
+  focusRequest = null,
+  onCreateAnnotation,
+  onUpdateAnnotation,
+  onDeleteAnnotation,
+  onQuoteAnnotation,
+  onExportAnnotations
+}) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [scale, setScale] = useState(1);
+  // Largeur de page ajustée au lecteur tant que l'utilisateur n'a pas zoomé
+  const [fitWidth, setFitWidth] = useState(true);
+  const [fitScale, setFitScale] = useState(1);
+  const [viewerWidth, setViewerWidth] = useState(0);
+  const [showThumbnails, setShowThumbnails] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [matches, setMatches] = useState<SearchMatch[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [showAnnotations, setShowAnnotations] = useState(false);
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+  const [pendingSelection, setPendingSelection] = useState<PendingSelection | null>(null);
+
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  // Texte de chaque page, extrait une seule fois pour la recherche
+  const pageTexts = useRef<Map<number, string>>(new Map());
+
+  // Chargement du document (reprise à la dernière page lue)
+  useEffect(() => {
+    let cancelled = false;
+    const loadingTask = getDocument(url);
+
+    setPdf(null);
+    setLoadError(null);
+    setMatches([]);
+    setSearchTerm('');
+    pageTexts.current = new Map();
+
+    loadingTask.promise.then(document => {
+      if (cancelled) return;
+      setPdf(document);
+      setPageNumber(Math.min(loadReadingPosition(paperId), document.numPages));
+    }).catch(error => {
+      if (cancelled) return;
+      console.error('Erreur chargement PDF:', error);
+      setLoadError(error instanceof Error ? error.message : 'Erreur inconnue');
+    });
+
+    return () => {
+      cancelled = true;
+      loadingTask.destroy();
+    };
+  }, [url, paperId]);
+
+  useEffect(() => {
+    if (pdf) {
+      saveReadingPosition(paperId, pageNumber);
+    }
+  }, [pdf, paperId, pageNumber]);
+
+  // Rendu de la page courante (canvas et couche de texte sélectionnable)
+  useEffect(() => {
+    if (!pdf) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+
+    const renderPage = async () => {
+      const page = await pdf.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      const textContainer = textLayerRef.current;
+      const viewer = viewerRef.current;
+      if (cancelled || !canvas || !textContainer || !viewer) return;
+
+      let pageScale = scale;
+      if (fitWidth) {
+        // Marge du conteneur (p-4) retirée de la largeur disponible
+        pageScale = Math.max(MIN_SCALE, (viewer.clientWidth - 32) / page.getViewport({ scale: 1 }).width);
+        setFitScale(pageScale);
+      }
+
+      const viewport = page.getViewport({ scale: pageScale });
+      const outputScale = window.devicePixelRatio || 1;
+
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+      renderTask = page.render({
+        canvas,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+      });
+      await renderTask.promise;
+      if (cancelled) return;
+
+      textContainer.replaceChildren();
+      textContainer.style.setProperty('--total-scale-factor', String(pageScale));
+      textLayer = new TextLayer({
+        textContentSource: page.streamTextContent(),
+        container: textContainer,
+        viewport
+      });
+      await textLayer.render();
+      if (cancelled || !searchTerm) return;
+
+      // Surligner les fragments de texte contenant le terme recherché
+      textLayer.textDivs.forEach(div => {
+        if (normalizeForSearch(div.textContent || '').includes(searchTerm)) {
+          div.classList.add('highlight');
+        }
+      });
+    };
+
+    renderPage().catch(error => {
+      if (!cancelled && error?.name !== 'RenderingCancelledException') {
+        console.error(`Erreur rendu page ${pageNumber}:`, error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [pdf, pageNumber, scale, fitWidth, viewerWidth, searchTerm]);
+
+  // Réajuster la largeur quand le lecteur est redimensionné (vue côte à côte)
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer) return;
+
+    const observer = new ResizeObserver(() => {
+      setViewerWidth(current => (Math.abs(viewer.clientWidth - current) > 8 ? viewer.clientWidth : current));
+    });
+
+    observer.observe(viewer);
+    return () => observer.disconnect();
+  }, []);
+
+  const goToPage = useCallback((page: number) => {
+    if (!pdf) return;
+    setPageNumber(Math.min(Math.max(1, page), pdf.numPages));
+    viewerRef.current?.scrollTo({ top: 0 });
+  }, [pdf]);
+
+  // Annotations courantes, lues par la demande de focus sans la rejouer à chaque modification
+  const annotationsRef = useRef(annotations);
+  useEffect(() => {
+    annotationsRef.current = annotations;
+  }, [annotations]);
+
+  // Citation ouverte depuis les notes : aller à la page du passage et le sélectionner
+  useEffect(() => {
+    if (!focusRequest || !pdf) return;
+    const annotation = annotationsRef.current.find(item => item.id === focusRequest.annotationId);
+    if (!annotation) return;
+
+    goToPage(annotation.page);
+    setSelectedAnnotationId(annotation.id);
+    setShowAnnotations(true);
+  }, [focusRequest, pdf, goToPage]);
+
+  const displayedScale = fitWidth ? fitScale : scale;
+
+  // La barre de couleurs est positionnée en pixels : abandonnée au changement de page ou de zoom
+  useEffect(() => {
+    setPendingSelection(null);
+  }, [pageNumber, displayedScale]);
+
+  const zoom = (delta: number) => {
+    setFitWidth(false);
+    setScale(Math.min(MAX_SCALE, Math.max(MIN_SCALE, Math.round((displayedScale + delta) / SCALE_STEP) * SCALE_STEP)));
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const term = normalizeForSearch(searchQuery.trim());
+
+    if (!pdf || !term) {
+      setSearchTerm('');
+      setMatches([]);
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const found: SearchMatch[] = [];
+
+      for (let page = 1; page <= pdf.numPages; page++) {
+        if (!pageTexts.current.has(page)) {
+          const content = await (await pdf.getPage(page)).getTextContent();
+          const text = content.items.map(item => ('str' in item ? item.str : '')).join(' ');
+          pageTexts.current.set(page, normalizeForSearch(text));
+        }
+
+        const count = countOccurrences(pageTexts.current.get(page) || '', term);
+        if (count > 0) {
+          found.push({ page, count });
+        }
+      }
+
+      setSearchTerm(term);
+      setMatches(found);
+
+      // Aller au premier résultat à partir de la page courante
+      const next = found.find(match => match.page >= pageNumber) || found[0];
+      if (next) goToPage(next.page);
+    } catch (error) {
+      console.error('Erreur recherche PDF:', error);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const clearSearch = () => {
+    setSearchQuery('');
+    setSearchTerm('');
+    setMatches([]);
+  };
+
+  const goToMatch = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    const next = direction === 1
+      ? matches.find(match => match.page > pageNumber) || matches[0]
+      : [...matches].reverse().find(match => match.page < pageNumber) || matches[matches.length - 1];
+    goToPage(next.page);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target instanceof HTMLInputElement) return;
+    if (e.key === 'ArrowRight' || e.key === 'PageDown') goToPage(pageNumber + 1);
+    if (e.key === 'ArrowLeft' || e.key === 'PageUp') goToPage(pageNumber - 1);
+  };
+
+  // Fin de sélection dans la page : proposer un surlignage, ou sélectionner l'annotation cliquée
+  const handlePageMouseUp = (e: React.MouseEvent) => {
+    const page = pageRef.current;
+    const textContainer = textLayerRef.current;
+    if (!page || !textContainer) return;
+
+    const pageBox = page.getBoundingClientRect();
+    const selection = window.getSelection();
+    const text = selection?.toString().replace(/\s+/g, ' ').trim() || '';
+
+    if (onCreateAnnotation && selection && !selection.isCollapsed && text &&
+        textContainer.contains(selection.anchorNode) && textContainer.contains(selection.focusNode)) {
+      const rects = selectionRects(selection.getRangeAt(0), pageBox);
+      if (rects.length > 0) {
+        const last = rects[rects.length - 1];
+        setPendingSelection({
+          text,
+          rects,
+          top: (last.y + last.height) * pageBox.height + 4,
+          left: Math.min(last.x * pageBox.width, pageBox.width - 160)
+        });
+        return;
+      }
+    }
+
+    setPendingSelection(null);
+
+    const x = (e.clientX - pageBox.left) / pageBox.width;
+    const y = (e.clientY - pageBox.top) / pageBox.height;
+    const clicked = pageAnnotations.find(annotation => annotation.rects.some(rect =>
+      x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height
+    ));
+
+    if (clicked) {
+      setSelectedAnnotationId(clicked.id);
+      setShowAnnotations(true);
+    }
+  };
+
+  const createHighlight = async (color: AnnotationColor) => {
+    if (!pendingSelection || !onCreateAnnotation) return;
+
+    const created = await onCreateAnnotation({
+      page: pageNumber,
+      rects: pendingSelection.rects,
+      color,
+      text: pendingSelection.text
+    });
+
+    window.getSelection()?.removeAllRanges();
+    setPendingSelection(null);
+    if (created) {
+      setSelectedAnnotationId(created.id);
+    }
+  };
+
+  const selectAnnotation = (annotation: PdfAnnotation) => {
+    setSelectedAnnotationId(annotation.id);
+    if (annotation.page !== pageNumber) goToPage(annotation.page);
+  };
+
+  const pageAnnotations = annotations.filter(annotation => annotation.page === pageNumber);
+  const totalMatches = matches.reduce((total, match) => total + match.count, 0);
+  const currentMatchIndex = matches.findIndex(match => match.page === pageNumber);
+
+  if (loadError) {
+    return (
+      <div className={`flex flex-col items-center justify-center bg-gray-100 text-sm text-gray-600 p-6 ${className}`}>
+        <p className="mb-2">Impossible d'afficher le PDF : {loadError}</p>
+        <a href={url} target="_blank" rel="noopener noreferrer" className="flex items-center text-blue-600 hover:underline">
+          <ExternalLink className="w-4 h-4 mr-1" />
+          Ouvrir dans un nouvel onglet
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex flex-col bg-gray-100 min-h-0 ${className}`} tabIndex={0} onKeyDown={handleKeyDown}>
+      {/* Barre d'outils */}
+      <div className="flex items-center justify-between gap-2 px-3 py-2 bg-white border-b text-sm">
+        <div className="flex items-center space-x-1">
+          <button
+            type="button"
+            onClick={() => setShowThumbnails(!showThumbnails)}
+            className={`p-1.5 rounded hover:bg-gray-100 ${showThumbnails ? 'text-blue-600' : 'text-gray-500'}`}
+            title="Miniatures"
+          >
+            <PanelLeft className="w-4 h-4" />
+          </button>
+          {onCreateAnnotation && (
+            <button
+              type="button"
+              onClick={() => setShowAnnotations(!showAnnotations)}
+              className={`p-1.5 rounded hover:bg-gray-100 flex items-center gap-0.5 ${showAnnotations ? 'text-blue-600' : 'text-gray-500'}`}
+              title="Annotations"
+            >
+              <MessageSquare className="w-4 h-4" />
+              {annotations.length > 0 && <span className="text-xs">{annotations.length}</span>}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => goToPage(pageNumber - 1)}
+            disabled={!pdf || pageNumber <= 1}
+            className="p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            title="Page précédente"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <input
+            type="number"
+            min={1}
+            max={pdf?.numPages || 1}
+            value={pageNumber}
+            onChange={(e) => goToPage(parseInt(e.target.value, 10) || 1)}
+            className="w-14 px-1 py-0.5 border border-gray-300 rounded text-center"
+          />
+          <span className="text-gray-500">/ {pdf?.numPages ?? '…'}</span>
+          <button
+            type="button"
+            onClick={() => goToPage(pageNumber + 1)}
+            disabled={!pdf || pageNumber >= pdf.numPages}
+            className="p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            title="Page suivante"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex items-center space-x-1">
+          <button
+            type="button"
+            onClick={() => zoom(-SCALE_STEP)}
+            disabled={displayedScale <= MIN_SCALE}
+            className="p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            title="Zoom arrière"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <span className="w-12 text-center text-gray-600">{Math.round(displayedScale * 100)}%</span>
+          <button
+            type="button"
+            onClick={() => zoom(SCALE_STEP)}
+            disabled={displayedScale >= MAX_SCALE}
+            className="p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            title="Zoom avant"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setFitWidth(true)}
+            className={`p-1.5 rounded hover:bg-gray-100 ${fitWidth ? 'text-blue-600' : 'text-gray-500'}`}
+            title="Ajuster à la largeur"
+          >
+            <Maximize2 className="w-4 h-4" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSearch} className="flex items-center space-x-1">
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Rechercher dans le PDF"
+              className="w-48 pl-7 pr-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          {isSearching && <div className="w-4 h-4 animate-spin border-2 border-blue-600 border-t-transparent rounded-full"></div>}
+          {searchTerm && !isSearching && (
+            <>
+              <span className="text-xs text-gray-500 whitespace-nowrap">
+                {totalMatches === 0
+                  ? 'Aucun résultat'
+                  : `${totalMatches} résultat${totalMatches > 1 ? 's' : ''} · page ${currentMatchIndex + 1 || '-'}/${matches.length}`}
+              </span>
+              <button type="button" onClick={() => goToMatch(-1)} disabled={matches.length === 0} className="p-1 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40" title="Résultat précédent">
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button type="button" onClick={() => goToMatch(1)} disabled={matches.length === 0} className="p-1 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40" title="Résultat suivant">
+                <ChevronRight className="w-4 h-4" />
+              </button>
+              <button type="button" onClick={clearSearch} className="p-1 rounded text-gray-500 hover:bg-gray-100" title="Effacer la recherche">
+                <X className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </form>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* Miniatures */}
+        {showThumbnails && pdf && (
+          <div className="w-32 shrink-0 overflow-y-auto border-r bg-gray-50 py-2 space-y-2">
+            {Array.from({ length: pdf.numPages }, (_, index) => index + 1).map(page => (
+              <PdfThumbnail
+                key={page}
+                pdf={pdf}
+                pageNumber={page}
+                isActive={page === pageNumber}
+                onSelect={() => goToPage(page)}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Page courante */}
+        <div ref={viewerRef} className="flex-1 overflow-auto p-4">
+          {!pdf ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div ref={pageRef} className="relative mx-auto w-fit shadow-lg bg-white" onMouseUp={handlePageMouseUp}>
+              <canvas ref={canvasRef} className="block" />
+
+              {/* Surlignages de la page, sous la couche de texte pour garder la sélection possible */}
+              <div className="absolute inset-0 pointer-events-none">
+                {pageAnnotations.flatMap(annotation => annotation.rects.map((rect, index) => (
+                  <div
+                    key={`${annotation.id}-${index}`}
+                    className={`absolute mix-blend-multiply ${annotation.id === selectedAnnotationId ? 'ring-2 ring-blue-500' : ''}`}
+                    style={{
+                      left: `${rect.x * 100}%`,
+                      top: `${rect.y * 100}%`,
+                      width: `${rect.width * 100}%`,
+                      height: `${rect.height * 100}%`,
+                      backgroundColor: ANNOTATION_COLORS[annotation.color].highlight
+                    }}
+                    title={annotation.comment || undefined}
+                  />
+                )))}
+              </div>
+
+              <div ref={textLayerRef} className="textLayer" />
+
+              {/* Choix de la couleur du surlignage */}
+              {pendingSelection && (
+                <div
+                  className="absolute z-10 flex items-center gap-1 px-2 py-1 bg-white border border-gray-200 rounded-lg shadow-lg"
+                  style={{ top: pendingSelection.top, left: Math.max(0, pendingSelection.left) }}
+                  onMouseUp={(e) => e.stopPropagation()}
+                >
+                  {(Object.keys(ANNOTATION_COLORS) as AnnotationColor[]).map(color => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => createHighlight(color)}
+                      className={`w-5 h-5 rounded-full ${ANNOTATION_COLORS[color].swatch} hover:ring-2 hover:ring-offset-1 hover:ring-gray-400`}
+                      title={`Surligner en ${ANNOTATION_COLORS[color].label.toLowerCase()}`}
+                    />
+                  ))}
+                  <button type="button" onClick={() => setPendingSelection(null)} className="p-0.5 text-gray-400 hover:text-gray-600" title="Annuler">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Annotations du document */}
+        {showAnnotations && onCreateAnnotation && (
+          <PdfAnnotationPanel
+            annotations={annotations}
+            selectedId={selectedAnnotationId}
+            onSelect={selectAnnotation}
+            onUpdate={onUpdateAnnotation}
+            onDelete={onDeleteAnnotation}
+            onQuote={onQuoteAnnotation}
+            onExport={onExportAnnotations}
+            onClose={() => setShowAnnotations(false)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PdfViewer;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { FileText, StickyNote, BookOpen } from 'lucide-react';
+import type { FullTextSearchHit, PaperData, SearchSource } from '../types/Paper';
+
+interface SearchResultsProps {
+  query: string;
+  hits: FullTextSearchHit[];
+  total: number;
+  sources: SearchSource[];
+  onSourcesChange: (sources: SearchSource[]) => void;
+  onPaperClick: (paper: PaperData) => void;
+  isSearching?: boolean;
+}
+
+const SOURCE_CONFIG: Record<SearchSource, { label: string; icon: React.ElementType; color: string }> = {
+  metadata: { label: 'Métadonnées', icon: BookOpen, color: 'bg-blue-100 text-blue-800' },
+  notes: { label: 'Notes', icon: StickyNote, color: 'bg-yellow-100 text-yellow-800' },
+  pdf: { label: 'PDF', icon: FileText, color: 'bg-red-100 text-red-800' }
+};
+
+const ALL_SOURCES: SearchSource[] = ['metadata', 'notes', 'pdf'];
+
+const SearchResults: React.FC<SearchResultsProps> = ({
+  query,
+  hits,
+  total,
+  sources,
+  onSourcesChange,
+  onPaperClick,
+  isSearching = false
+}) => {
+  // Aucune source sélectionnée = toutes les sources
+  const isSourceActive = (source: SearchSource) => sources.length === 0 || sources.includes(source);
+
+  const toggleSource = (source: SearchSource) => {
+    const active = ALL_SOURCES.filter(isSourceActive);
+    const next = active.includes(source)
+      ? active.filter(s => s !== source)
+      : [...active, source];
+
+    onSourcesChange(next.length === ALL_SOURCES.length || next.length === 0 ? [] : next);
+  };
+
+  return (
+    <div className={`transition-opacity ${isSearching ? 'opacity-60' : ''}`}>
+      {/* En-tête : résumé et filtre par source */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <p className="text-sm text-gray-600">
+          {total} article{total > 1 ? 's' : ''} correspondant{total > 1 ? 's' : ''} à « {query} »
+        </p>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-600">Chercher dans:</span>
+          {ALL_SOURCES.map(source => {
+            const { label, icon: Icon } = SOURCE_CONFIG[source];
+            return (
+              <button
+                key={source}
+                onClick={() => toggleSource(source)}
+                className={`px-3 py-1 rounded-full text-sm transition-colors flex items-center gap-1 ${
+                  isSourceActive(source)
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                <Icon className="w-3 h-3" />
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {hits.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="text-6xl mb-4">🔎</div>
+          <h2 className="text-2xl font-semibold text-gray-900 mb-2">Aucun résultat</h2>
+          <p className="text-gray-600">Aucun titre, note ou PDF ne contient ces termes</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {hits.map(({ paper, matches }) => (
+            <div
+              key={paper.id}
+              onClick={() => onPaperClick(paper)}
+              className="bg-white rounded-lg shadow-sm border border-gray-200 p-5 hover:shadow-md hover:border-blue-300 transition-all cursor-pointer"
+            >
+              <div className="flex items-start justify-between gap-4 mb-2">
+                <div className="min-w-0">
+                  <h3 className="text-lg font-semibold text-gray-900 line-clamp-2">{paper.title}</h3>
+                  <p className="text-sm text-gray-600 truncate">
+                    {paper.authors}
+                    {paper.publication_date && ` · ${new Date(paper.publication_date).getFullYear()}`}
+                    {(paper.conference_abbreviation || paper.conference) && ` · ${paper.conference_abbreviation || paper.conference}`}
+                  </p>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  {matches.map(({ source }) => {
+                    const { label, icon: Icon, color } = SOURCE_CONFIG[source];
+                    return (
+                      <span key={source} className={`px-2 py-0.5 rounded text-xs flex items-center gap-1 ${color}`}>
+                        <Icon className="w-3 h-3" />
+                        {label}
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {matches.map(({ source, snippet }) => (
+                  <p
+                    key={source}
+                    className="text-sm text-gray-700 border-l-2 border-gray-200 pl-3 [&_mark]:bg-yellow-200 [&_mark]:rounded [&_mark]:px-0.5"
+                    // Extrait échappé côté serveur, seules les balises <mark> sont ajoutées
+                    dangerouslySetInnerHTML={{ __html: snippet }}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchResults;
@@ -0,0 +1,314 @@
+// frontend/src/components/SettingsPage.tsx - Paramètres : sauvegarde et restauration de la bibliothèque
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Settings, Archive, Download, Trash2, RotateCcw, GitMerge, Upload, RefreshCw, Clock } from 'lucide-react';
+import { paperService } from '../services/paperService';
+import { useToast } from '../contexts/ToastContext';
+import type { BackupInfo, BackupSchedule, BackupTrigger, RestoreMode, RestoreResult } from '../types/Paper';
+
+interface SettingsPageProps {
+  // Appelé après une restauration (la bibliothèque a changé)
+  onRestored?: (mode: RestoreMode) => void;
+  hasSidebar?: boolean;
+}
+
+const TRIGGER_LABELS: Record<BackupTrigger, { label: string; className: string }> = {
+  manual: { label: 'Manuelle', className: 'bg-blue-100 text-blue-700' },
+  auto: { label: 'Automatique', className: 'bg-gray-100 text-gray-600' },
+  'pre-restore': { label: 'Avant restauration', className: 'bg-amber-100 text-amber-700' }
+};
+
+const RESTORE_CONFIRMATIONS: Record<RestoreMode, string> = {
+  replace: 'Remplacer toute la bibliothèque par cette sauvegarde ? Une sauvegarde de la bibliothèque actuelle sera créée avant.',
+  merge: 'Ajouter à la bibliothèque les papers de cette sauvegarde qui n\'y figurent pas ?'
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDateTime = (iso: string): string => new Date(iso).toLocaleString('fr-FR');
+
+// Bilan d'une restauration affiché dans le toast
+const describeRestore = (result: RestoreResult): string => {
+  if (result.mode === 'replace') {
+    return `Bibliothèque restaurée (${result.backup.counts.papers} papers). Sauvegarde préalable : ${result.safetyBackup}`;
+  }
+
+  const added = result.added?.length ?? 0;
+  const skipped = result.skipped?.length ?? 0;
+  const failed = result.failed?.length ?? 0;
+  return `${added} paper${added > 1 ? 's' : ''} ajouté${added > 1 ? 's' : ''}, ${skipped} déjà présent${skipped > 1 ? 's' : ''}`
+    + (failed > 0 ? `, ${failed} en échec` : '');
+};
+
+interface BackupRowProps {
+  backup: BackupInfo;
+  isBusy: boolean;
+  disabled: boolean;
+  onRestore: (mode: RestoreMode) => void;
+  onDelete: () => void;
+}
+
+// Une sauvegarde : contenu, téléchargement, restauration et suppression
+const BackupRow: React.FC<BackupRowProps> = ({ backup, isBusy, disabled, onRestore, onDelete }) => {
+  const trigger = TRIGGER_LABELS[backup.trigger];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 flex items-center justify-between gap-4">
+      <div className="min-w-0">
+        <div className="flex items-center flex-wrap gap-2 mb-1">
+          <span className="font-medium text-gray-900">{formatDateTime(backup.createdAt)}</span>
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${trigger.className}`}>{trigger.label}</span>
+          <span className="text-xs text-gray-400">{formatSize(backup.size)}</span>
+        </div>
+        {backup.error ? (
+          <p className="text-xs text-red-600">{backup.error}</p>
+        ) : backup.counts && (
+          <p className="text-xs text-gray-500">
+            {backup.counts.papers} papers · {backup.counts.categories} catégories · {backup.counts.authors} auteurs
+            · {backup.counts.venues} venues · {backup.fileCount} fichiers · schéma v{backup.schemaVersion}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2 shrink-0">
+        {isBusy && <RefreshCw className="w-4 h-4 animate-spin text-blue-600" />}
+        <a
+          href={paperService.getBackupDownloadUrl(backup.name)}
+          download={backup.name}
+          className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+          title="Télécharger"
+        >
+          <Download className="w-4 h-4" />
+        </a>
+        <button
+          onClick={() => onRestore('replace')}
+          disabled={disabled || Boolean(backup.error)}
+          className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          title="Restaurer (remplace la bibliothèque)"
+        >
+          <RotateCcw className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onRestore('merge')}
+          disabled={disabled || Boolean(backup.error)}
+          className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          title="Fusionner dans la bibliothèque"
+        >
+          <GitMerge className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onDelete}
+          disabled={disabled}
+          className="p-2 text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+          title="Supprimer"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const SettingsPage: React.FC<SettingsPageProps> = ({ onRestored, hasSidebar = true }) => {
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [schedule, setSchedule] = useState<BackupSchedule | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Nom de la sauvegarde concernée par l'opération en cours ('' pour une création ou un envoi)
+  const [busyName, setBusyName] = useState<string | null>(null);
+  const [uploadMode, setUploadMode] = useState<RestoreMode>('merge');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { success, error: showError } = useToast();
+
+  const loadBackups = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await paperService.getBackups();
+      setBackups(data.backups);
+      setSchedule(data.schedule);
+      setLoadError(null);
+    } catch (error) {
+      console.error('Erreur lors du chargement des sauvegardes:', error);
+      setLoadError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  // Exécuter une opération de sauvegarde puis recharger la liste
+  const runAction = async (name: string, action: () => Promise<string>) => {
+    setBusyName(name);
+    try {
+      success(await action());
+    } catch (error) {
+      console.error('Erreur sauvegarde:', error);
+      showError(error instanceof Error ? error.message : 'Erreur inconnue', 'Erreur');
+    } finally {
+      setBusyName(null);
+      await loadBackups();
+    }
+  };
+
+  const handleCreate = () => {
+    runAction('', async () => {
+      const backup = await paperService.createBackup();
+      return `Sauvegarde créée (${formatSize(backup.size)})`;
+    });
+  };
+
+  const handleRestore = (backup: BackupInfo, mode: RestoreMode) => {
+    if (!window.confirm(RESTORE_CONFIRMATIONS[mode])) {
+      return;
+    }
+    runAction(backup.name, async () => {
+      const result = await paperService.restoreBackup(backup.name, mode);
+      onRestored?.(mode);
+      return describeRestore(result);
+    });
+  };
+
+  const handleDelete = (backup: BackupInfo) => {
+    if (!window.confirm(`Supprimer la sauvegarde du ${formatDateTime(backup.createdAt)} ?`)) {
+      return;
+    }
+    runAction(backup.name, async () => {
+      await paperService.deleteBackup(backup.name);
+      return 'Sauvegarde supprimée';
+    });
+  };
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !window.confirm(RESTORE_CONFIRMATIONS[uploadMode])) {
+      return;
+    }
+    runAction('', async () => {
+      const result = await paperService.restoreBackupFile(file, uploadMode);
+      onRestored?.(uploadMode);
+      return describeRestore(result);
+    });
+  };
+
+  const isBusy = busyName !== null;
+
+  const marginStyle = hasSidebar
+    ? { marginLeft: '16rem', padding: '2rem' }
+    : { padding: '2rem' };
+
+  return (
+    <div className="flex-1 mt-16" style={marginStyle}>
+      <div className="w-full max-w-5xl">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center space-x-3">
+            <Settings className="w-7 h-7 text-blue-600" />
+            <span>Paramètres</span>
+          </h1>
+        </div>
+
+        <section>
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 flex items-center space-x-2">
+                <Archive className="w-5 h-5 text-blue-600" />
+                <span>Sauvegardes</span>
+              </h2>
+              <p className="text-gray-600 mt-1 text-sm">
+                Une sauvegarde contient la base de données et tous les fichiers des papers (PDF, images, notes).
+              </p>
+            </div>
+            <button
+              onClick={handleCreate}
+              disabled={isBusy}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              {busyName === '' ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Archive className="w-4 h-4" />}
+              <span>Créer une sauvegarde</span>
+            </button>
+          </div>
+
+          {schedule && (
+            <p className="text-sm text-gray-500 mb-4 flex items-center space-x-2">
+              <Clock className="w-4 h-4" />
+              <span>
+                {schedule.enabled
+                  ? `Sauvegarde automatique toutes les ${schedule.intervalHours} h`
+                    + (schedule.nextRunAt ? `, prochaine le ${formatDateTime(schedule.nextRunAt)}` : '')
+                    + (schedule.retention > 0 ? ` · ${schedule.retention} dernières conservées` : ' · toutes conservées')
+                  : 'Sauvegardes automatiques désactivées (BACKUP_INTERVAL_HOURS=0)'}
+              </span>
+            </p>
+          )}
+
+          <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex items-center justify-between gap-4">
+            <div>
+              <h3 className="text-sm font-medium text-gray-700">Restaurer une archive</h3>
+              <p className="text-xs text-gray-500">L'archive est vérifiée (manifeste et sommes de contrôle) avant toute modification.</p>
+            </div>
+            <div className="flex items-center space-x-2 shrink-0">
+              <select
+                value={uploadMode}
+                onChange={(e) => setUploadMode(e.target.value as RestoreMode)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="merge">Fusionner</option>
+                <option value="replace">Remplacer</option>
+              </select>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy}
+                className="px-3 py-2 text-sm border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg transition-colors flex items-center space-x-1 disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4" />
+                <span>Choisir une archive</span>
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".zip"
+                onChange={handleFileSelected}
+                className="hidden"
+              />
+            </div>
+          </div>
+
+          {loadError && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              Erreur lors du chargement des sauvegardes : {loadError}
+            </div>
+          )}
+
+          {isLoading && backups.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : backups.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-12">Aucune sauvegarde pour le moment.</p>
+          ) : (
+            <div className="space-y-3">
+              {backups.map(backup => (
+                <BackupRow
+                  key={backup.name}
+                  backup={backup}
+                  isBusy={busyName === backup.name}
+                  disabled={isBusy}
+                  onRestore={(mode) => handleRestore(backup, mode)}
+                  onDelete={() => handleDelete(backup)}
+                />
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { paperService } from '../services/paperService';
+import CategoryTree from './CategoryTree';
 
 interface SidebarProps {
   activeItem?: string;
@@ -12,6 +13,10 @@ interface SidebarProps {
     reading_status: string;  // ✅ CORRECTION: Utiliser string au lieu du type strict
   }>;
   onRecentPaperClick?: (paperId: number) => void;  // ✅ AJOUT: Callback pour ouvrir un article récent
+  selectedCategoryId?: number | null;                       // Catégorie filtrée dans la liste
+  onCategorySelect?: (categoryId: number | null) => void;
+  onPapersCategorized?: () => void;                         // Papers rangés par glisser-déposer
+  libraryVersion?: number;                                  // Incrémenté à chaque rechargement de la bibliothèque
 }
 
 interface Stats {
@@ -27,7 +32,11 @@ const Sidebar: React.FC<SidebarProps> = ({
   onItemSelect, 
   onAddPaperClick,
   recentPapers = [],
-  onRecentPaperClick
+  onRecentPaperClick,
+  selectedCategoryId = null,
+  onCategorySelect,
+  onPapersCategorized,
+  libraryVersion = 0
 }) => {
   const [stats, setStats] = useState<Stats>({
     totalPapers: 0,
@@ -43,6 +52,10 @@ const Sidebar: React.FC<SidebarProps> = ({
   const menuItems = [
     { id: 'home', label: 'Home', icon: '🏠' },
     { id: 'add-paper', label: 'Ajouter un Article', icon: '📄', isSpecial: true },
+    { id: 'duplicates', label: 'Doublons', icon: '🔀' },
+    { id: 'venues', label: 'Conférences et revues', icon: '🏛️' },
+    { id: 'categories', label: 'Catégories', icon: '🏷️' },
+    { id: 'trash', label: 'Corbeille', icon: '🗑️' },
     { id: 'settings', label: 'Paramètres', icon: '⚙️' }
   ];
 
@@ -238,6 +251,16 @@ const Sidebar: React.FC<SidebarProps> = ({
           ))}
         </ul>
       </nav>
+
+      {/* Arborescence des catégories : filtre, comptes, glisser-déposer */}
+      <div className="border-t border-gray-200 mt-6 p-4">
+        <CategoryTree
+          selectedCategoryId={selectedCategoryId}
+          onCategorySelect={onCategorySelect}
+          onPapersCategorized={onPapersCategorized}
+          refreshKey={libraryVersion}
+        />
+      </div>
       
       {/* ✅ AJOUT: Section historique récent */}
       {recentPapers.length > 0 && (
@@ -0,0 +1,188 @@
+// frontend/src/components/TrashView.tsx - Corbeille : restauration et suppression définitive des papers
+import React, { useState, useEffect, useCallback } from 'react';
+import { Trash2, RotateCcw, XCircle } from 'lucide-react';
+import { paperService } from '../services/paperService';
+import { notesStorage } from '../services/notesStorage';
+import { useToast } from '../contexts/ToastContext';
+import { formatDate } from '../types/Paper';
+import type { PaperData } from '../types/Paper';
+
+interface TrashViewProps {
+  // Appelé quand la bibliothèque a changé (papers restaurés)
+  onChanged?: () => void;
+  hasSidebar?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// deleted_at est stocké en UTC par SQLite (« AAAA-MM-JJ HH:MM:SS »)
+const parseDeletedAt = (value?: string | null): Date | null =>
+  value ? new Date(`${value.replace(' ', 'T')}Z`) : null;
+
+const TrashView: React.FC<TrashViewProps> = ({ onChanged, hasSidebar = true }) => {
+  const [papers, setPapers] = useState<PaperData[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const { success, error: showError } = useToast();
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const listing = await paperService.getTrash();
+      setPapers(listing.papers);
+      setRetentionDays(listing.retentionDays);
+      setLoadError(null);
+    } catch (error) {
+      console.error('Erreur lors du chargement de la corbeille:', error);
+      setLoadError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  // Exécuter une action sur la corbeille puis la recharger (busyId -1 : toute la corbeille)
+  const runAction = async (busy: number, action: () => Promise<string>, affectsLibrary = false) => {
+    setBusyId(busy);
+    try {
+      success(await action());
+      await loadTrash();
+      if (affectsLibrary) onChanged?.();
+    } catch (error) {
+      console.error('Erreur corbeille:', error);
+      showError(error instanceof Error ? error.message : 'Erreur inconnue', 'Erreur');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Les notes locales ne sont supprimées qu'avec le paper lui-même
+  const forgetNotes = (paperIds: number[]) => {
+    paperIds.forEach(paperId => notesStorage.deleteNotes(paperId.toString()));
+  };
+
+  const handleRestore = (paper: PaperData) => {
+    runAction(paper.id!, async () => {
+      await paperService.restorePapers([paper.id!]);
+      return `« ${paper.title} » restauré`;
+    }, true);
+  };
+
+  const handlePurge = (paper: PaperData) => {
+    if (!window.confirm(`Supprimer définitivement « ${paper.title} » ? Ses fichiers et ses notes seront perdus.`)) {
+      return;
+    }
+    runAction(paper.id!, async () => {
+      forgetNotes(await paperService.purgePapers([paper.id!]));
+      return 'Paper supprimé définitivement';
+    });
+  };
+
+  const handleEmpty = () => {
+    if (!window.confirm(`Vider la corbeille ? ${papers.length} paper(s) seront supprimés définitivement.`)) {
+      return;
+    }
+    runAction(-1, async () => {
+      const purgedIds = await paperService.emptyTrash();
+      forgetNotes(purgedIds);
+      return `${purgedIds.length} paper(s) supprimé(s) définitivement`;
+    });
+  };
+
+  const marginStyle = hasSidebar
+    ? { marginLeft: '16rem', padding: '2rem' }
+    : { padding: '2rem' };
+
+  return (
+    <div className="flex-1 mt-16" style={marginStyle}>
+      <div className="w-full max-w-6xl">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center space-x-3">
+              <Trash2 className="w-7 h-7 text-blue-600" />
+              <span>Corbeille</span>
+            </h1>
+            <p className="text-gray-600 mt-1">
+              {retentionDays > 0
+                ? `Les papers supprimés sont conservés ${retentionDays} jours avant d'être effacés définitivement.`
+                : 'Les papers supprimés sont conservés jusqu\'à ce que la corbeille soit vidée.'}
+            </p>
+          </div>
+          <button
+            onClick={handleEmpty}
+            disabled={papers.length === 0 || busyId !== null}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            <XCircle className="w-4 h-4" />
+            <span>Vider la corbeille</span>
+          </button>
+        </div>
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            Erreur lors du chargement de la corbeille : {loadError}
+          </div>
+        )}
+
+        {isLoading && papers.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : papers.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">
+            La corbeille est vide.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {papers.map(paper => {
+              const deletedAt = parseDeletedAt(paper.deleted_at);
+              const purgeAt = deletedAt && retentionDays > 0
+                ? new Date(deletedAt.getTime() + retentionDays * DAY_MS)
+                : null;
+              const isBusy = busyId === paper.id || busyId === -1;
+
+              return (
+                <div key={paper.id} className="bg-white rounded-lg shadow-md p-4 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <h2 className="font-medium text-gray-900 truncate" title={paper.title}>{paper.title}</h2>
+                    <p className="text-sm text-gray-600 truncate">{paper.authors}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {deletedAt && <>Supprimé le {formatDate(deletedAt.toISOString())}</>}
+                      {purgeAt && <> · effacé définitivement le {formatDate(purgeAt.toISOString())}</>}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 shrink-0">
+                    <button
+                      onClick={() => handleRestore(paper)}
+                      disabled={isBusy}
+                      className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors flex items-center space-x-1 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>Restaurer</span>
+                    </button>
+                    <button
+                      onClick={() => handlePurge(paper)}
+                      disabled={isBusy}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                      title="Supprimer définitivement"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashView;
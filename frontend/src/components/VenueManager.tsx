@@ -0,0 +1,421 @@
+// frontend/src/components/VenueManager.tsx - Registre des venues : édition, alias et fusion
+import React, { useState, useEffect, useCallback } from 'react';
+import { Landmark, Plus, RefreshCw, GitMerge, Trash2, X, Save, Link2 } from 'lucide-react';
+import { paperService } from '../services/paperService';
+import { useToast } from '../contexts/ToastContext';
+import { VENUE_TYPES } from '../types/Paper';
+import type { Venue, VenueInput, VenueType } from '../types/Paper';
+
+interface VenueManagerProps {
+  // Appelé quand les papers ont pu changer (abréviations, rattachements)
+  onChanged?: () => void;
+  hasSidebar?: boolean;
+}
+
+const EMPTY_VENUE: VenueInput = { name: '', abbreviation: '', type: 'conference', rank: '', notes: '' };
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+interface VenueFieldsProps {
+  value: VenueInput;
+  onChange: (value: VenueInput) => void;
+}
+
+// Champs communs au formulaire d'ajout et à l'édition d'une venue
+const VenueFields: React.FC<VenueFieldsProps> = ({ value, onChange }) => (
+  <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem_9rem_6rem] gap-2">
+    <input
+      type="text"
+      value={value.name}
+      onChange={(e) => onChange({ ...value, name: e.target.value })}
+      placeholder="Nom complet"
+      className={inputClass}
+    />
+    <input
+      type="text"
+      value={value.abbreviation || ''}
+      onChange={(e) => onChange({ ...value, abbreviation: e.target.value })}
+      placeholder="Abréviation"
+      className={inputClass}
+    />
+    <select
+      value={value.type || 'conference'}
+      onChange={(e) => onChange({ ...value, type: e.target.value as VenueType })}
+      className={inputClass}
+    >
+      {(Object.keys(VENUE_TYPES) as VenueType[]).map(type => (
+        <option key={type} value={type}>{VENUE_TYPES[type].label}</option>
+      ))}
+    </select>
+    <input
+      type="text"
+      value={value.rank || ''}
+      onChange={(e) => onChange({ ...value, rank: e.target.value })}
+      placeholder="Rang"
+      className={inputClass}
+    />
+    <input
+      type="text"
+      value={value.notes || ''}
+      onChange={(e) => onChange({ ...value, notes: e.target.value })}
+      placeholder="Notes"
+      className={`${inputClass} md:col-span-4`}
+    />
+  </div>
+);
+
+interface VenueRowProps {
+  venue: Venue;
+  venues: Venue[];
+  isBusy: boolean;
+  onSave: (changes: VenueInput) => void;
+  onDelete: () => void;
+  onMerge: (sourceId: number) => void;
+  onAddAlias: (alias: string) => void;
+  onRemoveAlias: (aliasId: number) => void;
+}
+
+const VenueRow: React.FC<VenueRowProps> = ({
+  venue,
+  venues,
+  isBusy,
+  onSave,
+  onDelete,
+  onMerge,
+  onAddAlias,
+  onRemoveAlias
+}) => {
+  const [draft, setDraft] = useState<VenueInput | null>(null);
+  const [newAlias, setNewAlias] = useState('');
+  const [mergeSource, setMergeSource] = useState('');
+
+  const handleSave = () => {
+    if (!draft) return;
+    onSave(draft);
+    setDraft(null);
+  };
+
+  const handleAddAlias = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newAlias.trim()) return;
+    onAddAlias(newAlias.trim());
+    setNewAlias('');
+  };
+
+  const handleMerge = () => {
+    if (!mergeSource) return;
+    onMerge(parseInt(mergeSource, 10));
+    setMergeSource('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      {draft ? (
+        <div className="space-y-2">
+          <VenueFields value={draft} onChange={setDraft} />
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Annuler
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isBusy || !draft.name.trim()}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors flex items-center space-x-1 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              <span>Enregistrer</span>
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-start justify-between">
+          <button
+            onClick={() => setDraft({
+              name: venue.name,
+              abbreviation: venue.abbreviation || '',
+              type: venue.type,
+              rank: venue.rank || '',
+              notes: venue.notes || ''
+            })}
+            className="text-left min-w-0"
+            title="Modifier"
+          >
+            <div className="flex items-center flex-wrap gap-2">
+              {venue.abbreviation && (
+                <span className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded text-sm font-semibold">
+                  {venue.abbreviation}
+                </span>
+              )}
+              <span className="font-medium text-gray-900 hover:text-blue-600">{venue.name}</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {VENUE_TYPES[venue.type]?.label ?? venue.type}
+              {venue.rank && ` · rang ${venue.rank}`}
+              {` · ${venue.paper_count} paper${venue.paper_count > 1 ? 's' : ''}`}
+              {venue.notes && ` · ${venue.notes}`}
+            </p>
+          </button>
+          <button
+            onClick={onDelete}
+            disabled={isBusy}
+            className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+            title="Supprimer la venue"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Variantes de nom reconnues lors de l'import */}
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        {venue.aliases.map(alias => (
+          <span key={alias.id} className="flex items-center px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs">
+            {alias.alias}
+            <button
+              onClick={() => onRemoveAlias(alias.id)}
+              disabled={isBusy}
+              className="ml-1 text-gray-400 hover:text-red-600"
+              title="Retirer l'alias"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <form onSubmit={handleAddAlias} className="flex items-center">
+          <input
+            type="text"
+            value={newAlias}
+            onChange={(e) => setNewAlias(e.target.value)}
+            placeholder="Ajouter un alias"
+            className="px-2 py-0.5 border border-gray-200 rounded text-xs w-48"
+          />
+        </form>
+      </div>
+
+      <div className="flex items-center space-x-2 mt-3">
+        <select
+          value={mergeSource}
+          onChange={(e) => setMergeSource(e.target.value)}
+          className="px-2 py-1 border border-gray-200 rounded text-xs max-w-xs"
+        >
+          <option value="">Fusionner une autre venue dans celle-ci…</option>
+          {venues
+            .filter(other => other.id !== venue.id)
+            .map(other => (
+              <option key={other.id} value={other.id}>
+                {other.abbreviation ? `${other.abbreviation} — ${other.name}` : other.name}
+              </option>
+            ))}
+        </select>
+        <button
+          onClick={handleMerge}
+          disabled={isBusy || !mergeSource}
+          className="px-2 py-1 text-xs bg-gray-100 text-gray-700 hover:bg-gray-200 rounded flex items-center space-x-1 disabled:opacity-50"
+        >
+          <GitMerge className="w-3 h-3" />
+          <span>Fusionner</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const VenueManager: React.FC<VenueManagerProps> = ({ onChanged, hasSidebar = true }) => {
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [newVenue, setNewVenue] = useState<VenueInput>(EMPTY_VENUE);
+  const [isMatching, setIsMatching] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const { success, error: showError } = useToast();
+
+  const loadVenues = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setVenues(await paperService.getVenues());
+      setLoadError(null);
+    } catch (error) {
+      console.error('Erreur lors du chargement des venues:', error);
+      setLoadError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVenues();
+  }, [loadVenues]);
+
+  // Exécuter une action sur une venue puis recharger le registre
+  const runAction = async (venueId: number | null, action: () => Promise<string | null>, affectsPapers = false) => {
+    setBusyId(venueId);
+    try {
+      const message = await action();
+      if (message) success(message);
+      await loadVenues();
+      if (affectsPapers) onChanged?.();
+    } catch (error) {
+      console.error('Erreur registre des venues:', error);
+      showError(error instanceof Error ? error.message : 'Erreur inconnue', 'Erreur');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newVenue.name.trim()) return;
+    runAction(null, async () => {
+      const venue = await paperService.createVenue(newVenue);
+      setNewVenue(EMPTY_VENUE);
+      return `Venue « ${venue.abbreviation || venue.name} » ajoutée`;
+    });
+  };
+
+  const handleDelete = (venue: Venue) => {
+    if (!window.confirm(`Supprimer la venue « ${venue.name} » ? Ses papers gardent leur conférence / revue.`)) {
+      return;
+    }
+    runAction(venue.id, async () => {
+      await paperService.deleteVenue(venue.id);
+      return 'Venue supprimée';
+    }, true);
+  };
+
+  const handleMerge = (target: Venue, sourceId: number) => {
+    const source = venues.find(venue => venue.id === sourceId);
+    if (!source || !window.confirm(`Fusionner « ${source.name} » dans « ${target.name} » ? Son nom deviendra un alias.`)) {
+      return;
+    }
+    runAction(target.id, async () => {
+      const { movedPapers } = await paperService.mergeVenues(target.id, sourceId);
+      return `Venues fusionnées (${movedPapers} paper${movedPapers > 1 ? 's' : ''} rattaché${movedPapers > 1 ? 's' : ''})`;
+    }, true);
+  };
+
+  const handleMatchPapers = async () => {
+    setIsMatching(true);
+    try {
+      const matched = await paperService.matchVenuePapers();
+      success(`${matched} paper${matched > 1 ? 's' : ''} rattaché${matched > 1 ? 's' : ''} à une venue`);
+      await loadVenues();
+      if (matched > 0) onChanged?.();
+    } catch (error) {
+      console.error('Erreur rapprochement venues:', error);
+      showError(error instanceof Error ? error.message : 'Erreur inconnue', 'Erreur');
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const visibleVenues = term
+    ? venues.filter(venue =>
+        [venue.name, venue.abbreviation || '', ...venue.aliases.map(alias => alias.alias)]
+          .some(text => text.toLowerCase().includes(term))
+      )
+    : venues;
+
+  const marginStyle = hasSidebar
+    ? { marginLeft: '16rem', padding: '2rem' }
+    : { padding: '2rem' };
+
+  return (
+    <div className="flex-1 mt-16" style={marginStyle}>
+      <div className="w-full max-w-6xl">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center space-x-3">
+              <Landmark className="w-7 h-7 text-blue-600" />
+              <span>Conférences et revues</span>
+            </h1>
+            <p className="text-gray-600 mt-1">
+              Les conteneurs importés sont rattachés à ces venues par leur nom, leurs alias ou leur abréviation.
+            </p>
+          </div>
+          <button
+            onClick={handleMatchPapers}
+            disabled={isMatching}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+            title="Rattacher les papers dont la conférence n'est liée à aucune venue"
+          >
+            {isMatching ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+            <span>Rapprocher les papers</span>
+          </button>
+        </div>
+
+        <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-md p-4 mb-6 space-y-2">
+          <h2 className="text-sm font-medium text-gray-700">Nouvelle venue</h2>
+          <VenueFields value={newVenue} onChange={setNewVenue} />
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={!newVenue.name.trim()}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors flex items-center space-x-1 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Ajouter</span>
+            </button>
+          </div>
+        </form>
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            Erreur lors du chargement des venues : {loadError}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mb-4">
+          <p className="text-sm text-gray-500">
+            {visibleVenues.length} venue{visibleVenues.length > 1 ? 's' : ''}
+          </p>
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Filtrer par nom, abréviation ou alias"
+            className={`${inputClass} w-72`}
+          />
+        </div>
+
+        {isLoading && venues.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {visibleVenues.map(venue => (
+              <VenueRow
+                key={venue.id}
+                venue={venue}
+                venues={venues}
+                isBusy={busyId === venue.id}
+                onSave={(changes) => runAction(venue.id, async () => {
+                  await paperService.updateVenue(venue.id, changes);
+                  return 'Venue modifiée';
+                }, true)}
+                onDelete={() => handleDelete(venue)}
+                onMerge={(sourceId) => handleMerge(venue, sourceId)}
+                onAddAlias={(alias) => runAction(venue.id, async () => {
+                  await paperService.addVenueAlias(venue.id, alias);
+                  return null;
+                })}
+                onRemoveAlias={(aliasId) => runAction(venue.id, async () => {
+                  await paperService.removeVenueAlias(venue.id, aliasId);
+                  return null;
+                })}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VenueManager;
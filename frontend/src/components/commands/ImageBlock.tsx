@@ -13,7 +13,8 @@ export const ImageBlock: React.FC<BlockProps> = ({
   const [showUrlInput, setShowUrlInput] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
-  const [caption, setCaption] = useState<string>('');
+  // Légende reprise de la figure insérée depuis la galerie
+  const [caption, setCaption] = useState<string>(block.metadata?.caption || '');
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const urlInputRef = useRef<HTMLInputElement>(null);
@@ -0,0 +1,75 @@
+// commands/QuoteBlock.tsx - Citation d'un passage surligné du PDF
+import React from 'react';
+import type { KeyboardEvent } from 'react';
+import { Quote, BookOpen, X } from 'lucide-react';
+import type { QuoteBlockProps, QuoteBlockMetadata } from '../../types/BlockTypes';
+import { ANNOTATION_COLORS } from '../../types/Paper';
+import type { AnnotationColor } from '../../types/Paper';
+
+export const QuoteBlock: React.FC<QuoteBlockProps> = ({
+  block,
+  onEnter,
+  onDelete,
+  onOpenAnnotation
+}) => {
+  const metadata = block.metadata as QuoteBlockMetadata | undefined;
+  const color = ANNOTATION_COLORS[metadata?.color as AnnotationColor] || ANNOTATION_COLORS.yellow;
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      onEnter();
+    }
+
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      e.preventDefault();
+      onDelete();
+    }
+  };
+
+  return (
+    <div
+      className="group relative my-3 pl-4 pr-8 py-2 rounded-r-lg bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-200"
+      style={{ borderLeft: `4px solid ${color.highlight}` }}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
+    >
+      <div className="flex items-start gap-2">
+        <Quote className="w-4 h-4 text-gray-400 shrink-0 mt-1" />
+        <div className="min-w-0">
+          <p className="text-gray-800 italic">{block.content}</p>
+          {metadata?.comment && (
+            <p className="text-sm text-gray-600 mt-1">{metadata.comment}</p>
+          )}
+          {metadata && (
+            onOpenAnnotation ? (
+              <button
+                type="button"
+                onClick={() => onOpenAnnotation(metadata.annotationId)}
+                className="mt-1 text-xs text-blue-600 hover:underline flex items-center gap-1"
+                title="Afficher le passage dans le PDF"
+              >
+                <BookOpen className="w-3 h-3" />
+                Page {metadata.page}
+              </button>
+            ) : (
+              <span className="mt-1 block text-xs text-gray-400">
+                Page {metadata.page} · annotation supprimée
+              </span>
+            )
+          )}
+        </div>
+      </div>
+
+      {/* Bouton de suppression */}
+      <button
+        type="button"
+        onClick={onDelete}
+        className="absolute top-2 right-2 p-1 text-gray-400 hover:text-red-600 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Supprimer la citation"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -12,6 +12,13 @@ export interface Toast {
   message: string;
   duration?: number;
   isClosing?: boolean;
+  action?: ToastAction;
+}
+
+// Bouton affiché dans le toast (ex. « Annuler »), qui ferme le toast une fois cliqué
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
 }
 
 interface ToastContextType {
@@ -134,6 +141,17 @@ const ToastItem: React.FC<{ toast: Toast; onRemove: (id: string) => void }> = ({
             <p className={`text-sm ${toast.title ? 'mt-1' : ''}`}>
               {toast.message}
             </p>
+            {toast.action && (
+              <button
+                onClick={() => {
+                  toast.action?.onClick();
+                  handleClose();
+                }}
+                className="mt-2 text-sm font-semibold underline hover:no-underline"
+              >
+                {toast.action.label}
+              </button>
+            )}
           </div>
           <div className="ml-4 flex-shrink-0 flex">
             <button
@@ -1,11 +1,12 @@
 // services/navigationService.ts
 import React from 'react';
 
-export type RouteType = 'home' | 'paper';
+export type RouteType = 'home' | 'paper' | 'author';
 
 export interface NavigationRoute {
   type: RouteType;
   paperId?: number;
+  authorId?: number;
   params?: Record<string, any>;
 }
 
@@ -57,6 +58,13 @@ class NavigationService {
         return { type: 'paper', paperId };
       }
     }
+
+    if (segments[0] === 'author' && segments[1]) {
+      const authorId = parseInt(segments[1], 10);
+      if (!isNaN(authorId)) {
+        return { type: 'author', authorId };
+      }
+    }
     
     return { type: 'home' };
   }
@@ -66,6 +74,8 @@ class NavigationService {
     switch (route.type) {
       case 'paper':
         return route.paperId ? `/paper/${route.paperId}` : '/';
+      case 'author':
+        return route.authorId ? `/author/${route.authorId}` : '/';
       case 'home':
       default:
         return '/';
@@ -210,6 +220,10 @@ export const createRoute = {
     type: 'paper',
     paperId,
     params
+  }),
+  author: (authorId: number): NavigationRoute => ({
+    type: 'author',
+    authorId
   })
 };
 
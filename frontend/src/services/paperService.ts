@@ -1,15 +1,66 @@
-import type { PaperData, Category } from '../types/Paper';
+import type {
+  PaperData,
+  ReadingStatus,
+  Category,
+  CategoryInput,
+  CategoryUsage,
+  TrashListing,
+  SearchFilters,
+  SortOptions,
+  PaginationOptions,
+  PaginatedResult,
+  SearchSource,
+  FullTextSearchResult,
+  BibliographyFormat,
+  ImportPreviewEntry,
+  ImportPreviewSummary,
+  ImportResult,
+  CitationStyle,
+  CitationOutput,
+  FormattedCitation,
+  DuplicateCandidate,
+  MergeFieldSources,
+  MergeSummary,
+  ArxivMetadata,
+  ArxivRefreshResult,
+  AuthorSummary,
+  AuthorDetails,
+  Venue,
+  VenueInput,
+  PdfAnnotation,
+  AnnotationInput,
+  PdfUploadResult,
+  Attachment,
+  AttachmentKind,
+  PaperFigure,
+  BackupInfo,
+  BackupSchedule,
+  RestoreMode,
+  RestoreResult
+} from '../types/Paper';
+import { BIBLIOGRAPHY_FORMATS } from '../types/Paper';
 
 const API_BASE_URL = 'http://localhost:5324/api';
 
+// Nombre maximal d'IDs par requête groupée (MAX_BATCH_SIZE côté serveur)
+const BATCH_CHUNK_SIZE = 1000;
+
+// Notice résolue par la chaîne de fournisseurs (Crossref, DataCite, OpenAlex, Semantic Scholar)
 export interface MetadataResponse {
   paperData: PaperData;
+  abstract?: string;
+  keywords?: string[];
+  sources?: string[];
 }
 
 export interface ExtractedImage {
   name: string;
   url: string;
   page: number;
+  width?: number;
+  height?: number;
+  caption?: string | null;
+  hash?: string | null;
 }
 
 export interface ImageExtractionResponse {
@@ -30,6 +81,21 @@ export interface SavePaperResponse {
   };
 }
 
+export interface CreateCompletePaperOptions {
+  pdfFile?: File | null;
+  selectedImages?: ExtractedImage[];
+  categoryIds?: number[];
+  description?: string;
+  coverImage?: File | null;
+  // Télécharger le PDF arXiv côté serveur quand aucun fichier n'est fourni
+  downloadArxivPdf?: boolean;
+}
+
+export interface CreateCompletePaperResponse extends SavePaperResponse {
+  folderName: string;
+  savedImages: number;
+}
+
 export interface HealthResponse {
   status: 'ok' | 'warning' | 'error';
   timestamp: string;
@@ -191,14 +257,15 @@ class PaperService {
     
     try {
       console.log('🔄 Récupération des papers depuis le serveur...');
-      const response = await this.fetchWithRetry(`${API_BASE_URL}/papers`);
+      // limit=0 : le serveur renvoie tous les papers sur une seule page
+      const response = await this.fetchWithRetry(`${API_BASE_URL}/papers?limit=0`);
 
       if (!response.ok) {
         throw new Error(`Erreur HTTP: ${response.status}`);
       }
 
       const data = await response.json();
-      const papers = data.papers || [];
+      const papers = data.data || [];
       
       // Mettre en cache
       this.setCache(cacheKey, papers);
@@ -218,6 +285,477 @@ class PaperService {
     }
   }
 
+  // Paramètres de requête communs à la liste, aux exports et à la bibliographie
+  private buildListParams(filters: SearchFilters = {}, sort?: SortOptions): URLSearchParams {
+    const params = new URLSearchParams();
+
+    if (filters.query?.trim()) params.set('q', filters.query.trim());
+    if (filters.reading_status && filters.reading_status !== 'all') params.set('status', filters.reading_status);
+    if (filters.categories && filters.categories.length > 0) {
+      params.set('categories', filters.categories.join(','));
+      params.set('categoryMode', filters.categoryMode || 'any');
+      if (filters.includeDescendants) params.set('includeDescendants', 'true');
+    }
+    if (filters.year) params.set('year', String(filters.year));
+    if (filters.dateFrom) params.set('dateFrom', filters.dateFrom);
+    if (filters.dateTo) params.set('dateTo', filters.dateTo);
+    if (filters.conference) params.set('conference', filters.conference);
+    if (filters.venue) params.set('venue', String(filters.venue));
+    if (filters.author) params.set('author', String(filters.author));
+
+    if (sort) {
+      params.set('sortBy', sort.sortBy);
+      params.set('sortOrder', sort.sortOrder);
+    }
+
+    return params;
+  }
+
+  // Télécharger un fichier généré par le serveur (nom tiré de Content-Disposition)
+  private async downloadFile(url: string, fallbackName: string): Promise<{ blob: Blob; filename: string }> {
+    const response = await this.fetchWithRetry(url);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filenameMatch = disposition.match(/filename="([^"]+)"/);
+
+    return {
+      blob: await response.blob(),
+      filename: filenameMatch ? filenameMatch[1] : fallbackName
+    };
+  }
+
+  /**
+   * Rechercher, filtrer, trier et paginer les papers côté serveur
+   */
+  async searchPapers(
+    filters: SearchFilters,
+    sort: SortOptions,
+    pagination: PaginationOptions
+  ): Promise<PaginatedResult<PaperData>> {
+    const params = this.buildListParams(filters, sort);
+    params.set('page', String(pagination.page));
+    params.set('limit', String(pagination.limit));
+
+    const response = await this.fetchWithRetry(`${API_BASE_URL}/papers?${params.toString()}`);
+
+    if (!response.ok) {
+      throw new Error(`Erreur HTTP: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    return {
+      data: data.data || [],
+      total: data.total ?? 0,
+      page: data.page ?? pagination.page,
+      limit: data.limit ?? pagination.limit,
+      totalPages: data.totalPages ?? 1,
+      hasNext: Boolean(data.hasNext),
+      hasPrev: Boolean(data.hasPrev)
+    };
+  }
+
+  /**
+   * Nombre de papers de la bibliothèque (hors corbeille), sans charger la liste
+   */
+  async getPaperCount(): Promise<number> {
+    const response = await this.fetchWithRetry(`${API_BASE_URL}/papers?page=1&limit=1`);
+
+    if (!response.ok) {
+      throw new Error(`Erreur HTTP: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return Number(data.total) || 0;
+  }
+
+  /**
+   * Recherche plein texte dans les métadonnées, les notes et le texte des PDF
+   */
+  async fullTextSearch(
+    query: string,
+    pagination: PaginationOptions,
+    sources: SearchSource[] = []
+  ): Promise<FullTextSearchResult> {
+    const params = new URLSearchParams({
+      q: query.trim(),
+      page: String(pagination.page),
+      limit: String(pagination.limit)
+    });
+
+    if (sources.length > 0) {
+      params.set('sources', sources.join(','));
+    }
+
+    const response = await this.fetchWithRetry(`${API_BASE_URL}/search?${params.toString()}`);
+
+    if (!response.ok) {
+      throw new Error(`Erreur HTTP: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    return {
+      query: data.query ?? query,
+      data: data.data || [],
+      total: data.total ?? 0,
+      page: data.page ?? pagination.page,
+      limit: data.limit ?? pagination.limit,
+      totalPages: data.totalPages ?? 1,
+      hasNext: Boolean(data.hasNext),
+      hasPrev: Boolean(data.hasPrev)
+    };
+  }
+
+  /**
+   * Récupérer le registre des venues (alias et nombre de papers)
+   */
+  async getVenues(): Promise<Venue[]> {
+    const cacheKey = 'venues';
+
+    const cached = this.getFromCache<Venue[]>(cacheKey, this.cacheConfig.papers);
+    if (cached !== null) {
+      return cached;
+    }
+
+    try {
+      const data = await this.sendVenueRequest<{ venues?: Venue[] }>('');
+      const venues = data.venues || [];
+
+      this.setCache(cacheKey, venues);
+
+      return venues;
+    } catch (error) {
+      console.error('Erreur getVenues:', error);
+      return [];
+    }
+  }
+
+  // Créer une venue
+  async createVenue(venue: VenueInput): Promise<Venue> {
+    const data = await this.sendVenueRequest<{ venue: Venue }>('', { method: 'POST', body: JSON.stringify(venue) });
+    return data.venue;
+  }
+
+  // Modifier une venue (l'abréviation est reportée sur ses papers)
+  async updateVenue(id: number, changes: Partial<VenueInput>): Promise<Venue> {
+    const data = await this.sendVenueRequest<{ venue: Venue }>(`/${id}`, { method: 'PUT', body: JSON.stringify(changes) });
+    this.invalidateCache();
+    return data.venue;
+  }
+
+  // Supprimer une venue (ses papers gardent leur conteneur)
+  async deleteVenue(id: number): Promise<void> {
+    await this.sendVenueRequest(`/${id}`, { method: 'DELETE' });
+    this.invalidateCache();
+  }
+
+  // Fusionner une venue dans une autre : son nom et ses alias deviennent des alias de la venue conservée
+  async mergeVenues(targetId: number, sourceId: number): Promise<{ venue: Venue; movedPapers: number }> {
+    const data = await this.sendVenueRequest<{ venue: Venue; movedPapers?: number }>(`/${targetId}/merge`, { method: 'POST', body: JSON.stringify({ sourceId }) });
+    this.invalidateCache();
+    return { venue: data.venue, movedPapers: data.movedPapers ?? 0 };
+  }
+
+  // Ajouter une variante de nom à une venue
+  async addVenueAlias(venueId: number, alias: string): Promise<Venue> {
+    const data = await this.sendVenueRequest<{ venue: Venue }>(`/${venueId}/aliases`, { method: 'POST', body: JSON.stringify({ alias }) });
+    return data.venue;
+  }
+
+  // Retirer une variante de nom d'une venue
+  async removeVenueAlias(venueId: number, aliasId: number): Promise<Venue> {
+    const data = await this.sendVenueRequest<{ venue: Venue }>(`/${venueId}/aliases/${aliasId}`, { method: 'DELETE' });
+    return data.venue;
+  }
+
+  // Rattacher aux venues les papers dont le conteneur n'est lié à aucune venue
+  async matchVenuePapers(): Promise<number> {
+    const data = await this.sendVenueRequest<{ matched?: number }>('/match-papers', { method: 'POST' });
+    this.invalidateCache();
+    return data.matched ?? 0;
+  }
+
+  // Requête sur /api/venues (le cache des venues est invalidé après une modification)
+  private async sendVenueRequest<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const response = await this.fetchWithTimeout(`${API_BASE_URL}/venues${path}`, {
+      ...options,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.details || data.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    if (options.method && options.method !== 'GET') {
+      this.invalidateCache('venues');
+    }
+
+    return data;
+  }
+
+  /**
+   * Récupérer les annotations du PDF d'un paper (ordre de lecture)
+   */
+  async getAnnotations(paperId: number): Promise<PdfAnnotation[]> {
+    const data = await this.sendAnnotationRequest<{ annotations?: PdfAnnotation[] }>(paperId, '');
+    return data.annotations || [];
+  }
+
+  // Surligner un passage du PDF
+  async createAnnotation(paperId: number, annotation: AnnotationInput): Promise<PdfAnnotation> {
+    const data = await this.sendAnnotationRequest<{ annotation: PdfAnnotation }>(paperId, '', {
+      method: 'POST',
+      body: JSON.stringify(annotation)
+    });
+    return data.annotation;
+  }
+
+  // Modifier la couleur ou le commentaire d'une annotation
+  async updateAnnotation(paperId: number, annotationId: string, changes: Partial<Pick<PdfAnnotation, 'color' | 'comment'>>): Promise<PdfAnnotation> {
+    const data = await this.sendAnnotationRequest<{ annotation: PdfAnnotation }>(paperId, `/${annotationId}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes)
+    });
+    return data.annotation;
+  }
+
+  // Supprimer une annotation
+  async deleteAnnotation(paperId: number, annotationId: string): Promise<void> {
+    await this.sendAnnotationRequest(paperId, `/${annotationId}`, { method: 'DELETE' });
+  }
+
+  // Requête sur /api/papers/:id/annotations
+  private async sendAnnotationRequest<T>(paperId: number, path: string, options: RequestInit = {}): Promise<T> {
+    const response = await this.fetchWithTimeout(`${API_BASE_URL}/papers/${paperId}/annotations${path}`, {
+      ...options,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.details || data.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Ajouter ou remplacer le PDF d'un paper existant
+   * extractImages : proposer les images du nouveau PDF ; verifyDoi : comparer son DOI à celui du paper
+   */
+  async uploadPaperPdf(paperId: number, file: File, options: { extractImages?: boolean; verifyDoi?: boolean } = {}): Promise<PdfUploadResult> {
+    const formData = new FormData();
+    formData.append('pdf', file);
+    formData.append('extractImages', String(Boolean(options.extractImages)));
+    formData.append('verifyDoi', String(options.verifyDoi !== false));
+
+    const result = await this.sendPaperPdfRequest<PdfUploadResult>(paperId, '/pdf', { method: 'PUT', body: formData });
+    this.invalidateCache(`paper-${paperId}`);
+    return result;
+  }
+
+  // Retirer le PDF d'un paper
+  async removePaperPdf(paperId: number): Promise<PdfUploadResult> {
+    const formData = new FormData();
+    formData.append('remove', 'true');
+
+    const result = await this.sendPaperPdfRequest<PdfUploadResult>(paperId, '/pdf', { method: 'PUT', body: formData });
+    this.invalidateCache(`paper-${paperId}`);
+    return result;
+  }
+
+  // Enregistrer les images sélectionnées parmi celles extraites du PDF
+  async savePaperPdfImages(paperId: number, images: ExtractedImage[]): Promise<number> {
+    const data = await this.sendPaperPdfRequest<{ savedImages: number }>(paperId, '/pdf-images', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        selectedImages: images.map(({ name, url, page, caption, hash, width, height }) => ({ name, url, page, caption, hash, width, height }))
+      })
+    });
+    return data.savedImages;
+  }
+
+  // Réextraire les images du PDF d'un paper (sans les petites images ni celles déjà enregistrées)
+  async extractMorePdfImages(paperId: number): Promise<ExtractedImage[]> {
+    const data = await this.sendPaperPdfRequest<{ images: ExtractedImage[] }>(paperId, '/pdf-images/extract', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({})
+    });
+    return data.images;
+  }
+
+  /**
+   * Récupérer la galerie de figures d'un paper (images extraites du PDF et importées)
+   */
+  async getFigures(paperId: number): Promise<{ folderName: string; figures: PaperFigure[] }> {
+    const data = await this.sendFigureRequest<{ folderName: string; figures?: PaperFigure[] }>(paperId, '');
+    return { folderName: data.folderName, figures: data.figures || [] };
+  }
+
+  // Modifier la légende, la page ou les tags d'une figure
+  async updateFigure(paperId: number, figurePath: string, changes: Partial<Pick<PaperFigure, 'caption' | 'page' | 'tags'>>): Promise<PaperFigure> {
+    const data = await this.sendFigureRequest<{ figure: PaperFigure }>(paperId, `/${figurePath}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes)
+    });
+    return data.figure;
+  }
+
+  // Supprimer une image de la galerie
+  async deleteFigure(paperId: number, figurePath: string): Promise<void> {
+    await this.sendFigureRequest(paperId, `/${figurePath}`, { method: 'DELETE' });
+  }
+
+  // URL d'affichage d'une figure
+  getFigureUrl(folderName: string, figurePath: string): string {
+    return `${API_BASE_URL}/papers/files/${folderName}/${figurePath.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  // Requête sur /api/papers/:id/figures
+  private async sendFigureRequest<T>(paperId: number, path: string, options: RequestInit = {}): Promise<T> {
+    const response = await this.fetchWithTimeout(`${API_BASE_URL}/papers/${paperId}/figures${path.split('/').map(encodeURIComponent).join('/')}`, {
+      ...options,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.details || data.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    return data;
+  }
+
+  // Requête sur le PDF d'un paper (sans limite de durée : extraction du DOI et des images)
+  private async sendPaperPdfRequest<T>(paperId: number, path: string, options: RequestInit): Promise<T> {
+    const response = await fetch(`${API_BASE_URL}/papers/${paperId}${path}`, options);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.message || data.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Récupérer les pièces jointes d'un paper
+   */
+  async getAttachments(paperId: number): Promise<Attachment[]> {
+    const data = await this.sendAttachmentRequest<{ attachments?: Attachment[] }>(paperId, '');
+    return data.attachments || [];
+  }
+
+  // Joindre un fichier (nature déduite de l'extension si elle n'est pas précisée)
+  async uploadAttachment(paperId: number, file: File, options: { kind?: AttachmentKind; label?: string } = {}): Promise<Attachment> {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (options.kind) formData.append('kind', options.kind);
+    if (options.label) formData.append('label', options.label);
+
+    const data = await this.sendAttachmentRequest<{ attachment: Attachment }>(paperId, '', { method: 'POST', body: formData });
+    return data.attachment;
+  }
+
+  // Modifier le libellé ou la nature d'une pièce jointe
+  async updateAttachment(paperId: number, attachmentId: number, changes: Partial<Pick<Attachment, 'label' | 'kind'>>): Promise<Attachment> {
+    const data = await this.sendAttachmentRequest<{ attachment: Attachment }>(paperId, `/${attachmentId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes)
+    });
+    return data.attachment;
+  }
+
+  // Supprimer une pièce jointe et son fichier
+  async deleteAttachment(paperId: number, attachmentId: number): Promise<void> {
+    await this.sendAttachmentRequest(paperId, `/${attachmentId}`, { method: 'DELETE' });
+  }
+
+  // URL de téléchargement d'une pièce jointe (inline : aperçu dans le navigateur)
+  getAttachmentUrl(paperId: number, attachmentId: number, inline = false): string {
+    return `${API_BASE_URL}/papers/${paperId}/attachments/${attachmentId}/download${inline ? '?inline=true' : ''}`;
+  }
+
+  // Requête sur /api/papers/:id/attachments (sans limite de durée : envoi de fichiers volumineux)
+  private async sendAttachmentRequest<T>(paperId: number, path: string, options: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${API_BASE_URL}/papers/${paperId}/attachments${path}`, options);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.details || data.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Récupérer les sauvegardes de la bibliothèque et la planification automatique
+   */
+  async getBackups(): Promise<{ backups: BackupInfo[]; schedule: BackupSchedule }> {
+    const data = await this.sendBackupRequest<{ backups?: BackupInfo[]; schedule: BackupSchedule }>('');
+    return { backups: data.backups || [], schedule: data.schedule };
+  }
+
+  // Créer une sauvegarde complète (base, PDF, images, notes)
+  async createBackup(): Promise<BackupInfo> {
+    const data = await this.sendBackupRequest<{ backup: BackupInfo }>('', { method: 'POST' });
+    return data.backup;
+  }
+
+  // Supprimer une sauvegarde
+  async deleteBackup(name: string): Promise<void> {
+    await this.sendBackupRequest(`/${encodeURIComponent(name)}`, { method: 'DELETE' });
+  }
+
+  // Restaurer une sauvegarde du serveur (toutes les données en cache sont périmées)
+  async restoreBackup(name: string, mode: RestoreMode): Promise<RestoreResult> {
+    const data = await this.sendBackupRequest<RestoreResult>(`/${encodeURIComponent(name)}/restore`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mode })
+    });
+    this.invalidateCache();
+    return data;
+  }
+
+  // Restaurer une archive choisie sur le poste
+  async restoreBackupFile(file: File, mode: RestoreMode): Promise<RestoreResult> {
+    const formData = new FormData();
+    formData.append('archive', file);
+    formData.append('mode', mode);
+
+    const data = await this.sendBackupRequest<RestoreResult>('/restore', { method: 'POST', body: formData });
+    this.invalidateCache();
+    return data;
+  }
+
+  // URL de téléchargement d'une sauvegarde
+  getBackupDownloadUrl(name: string): string {
+    return `${API_BASE_URL}/backups/${encodeURIComponent(name)}/download`;
+  }
+
+  // Requête sur /api/backups (sans limite de durée : une sauvegarde copie tous les PDF)
+  private async sendBackupRequest<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${API_BASE_URL}/backups${path}`, options);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.details || data.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    return data;
+  }
+
   // ✅ CORRECTION: getAllCategories avec cache
   async getAllCategories(): Promise<Category[]> {
     const cacheKey = 'all-categories';
@@ -311,6 +849,7 @@ class PaperService {
       
       // ✅ Invalider le cache après mise à jour
       this.invalidateCache('all-papers');
+      this.invalidateCache('venues');
       this.invalidateCache(`paper-${id}`);
       this.invalidateCache('stats');
       
@@ -321,7 +860,7 @@ class PaperService {
     }
   }
 
-  // ✅ CORRECTION: Supprimer un paper et invalider le cache
+  // ✅ CORRECTION: Mettre un paper à la corbeille (restaurable) et invalider le cache
   async deletePaper(id: number): Promise<boolean> {
     try {
       const response = await this.fetchWithRetry(`${API_BASE_URL}/papers/${id}`, {
@@ -334,8 +873,10 @@ class PaperService {
 
       // ✅ Invalider le cache après suppression
       this.invalidateCache('all-papers');
+      this.invalidateCache('venues');
       this.invalidateCache(`paper-${id}`);
       this.invalidateCache('stats');
+      this.invalidateCache('all-categories');
       
       return true;
     } catch (error) {
@@ -344,6 +885,120 @@ class PaperService {
     }
   }
 
+  /**
+   * Actions groupées : chaque requête est appliquée par le serveur dans une seule transaction
+   * @returns Nombre de papers modifiés
+   */
+  async updatePapersStatus(paperIds: number[], status: ReadingStatus): Promise<number> {
+    const data = await this.sendBatchRequest<{ updated?: number }>('/status', { ids: paperIds, reading_status: status });
+    return data.updated ?? 0;
+  }
+
+  // Ajouter et retirer des catégories sur plusieurs papers
+  async updatePapersCategories(
+    paperIds: number[],
+    changes: { add?: number[]; remove?: number[] }
+  ): Promise<{ added: number; removed: number }> {
+    const data = await this.sendBatchRequest<{ added?: number; removed?: number }>('/categories', { ids: paperIds, ...changes });
+    return { added: data.added ?? 0, removed: data.removed ?? 0 };
+  }
+
+  // Mettre plusieurs papers à la corbeille ; renvoie les IDs concernés
+  async deletePapers(paperIds: number[]): Promise<number[]> {
+    const data = await this.sendBatchRequest<{ deletedIds?: number[] }>('/delete', { ids: paperIds });
+    paperIds.forEach(id => this.invalidateCache(`paper-${id}`));
+    return data.deletedIds || [];
+  }
+
+  /**
+   * Papers de la corbeille (les plus récemment supprimés d'abord)
+   */
+  async getTrash(): Promise<TrashListing> {
+    const response = await this.fetchWithTimeout(`${API_BASE_URL}/papers/trash`);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.details || data.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    return { papers: data.papers || [], total: data.total ?? 0, retentionDays: data.retentionDays ?? 0 };
+  }
+
+  // Remettre des papers de la corbeille dans la bibliothèque ; renvoie les IDs restaurés
+  async restorePapers(paperIds: number[]): Promise<number[]> {
+    const data = await this.sendBatchRequest<{ restoredIds?: number[] }>('/restore', { ids: paperIds }, '/papers/trash');
+    return data.restoredIds || [];
+  }
+
+  // Supprimer définitivement des papers de la corbeille ; renvoie les IDs supprimés
+  async purgePapers(paperIds: number[]): Promise<number[]> {
+    const data = await this.sendBatchRequest<{ purgedIds?: number[] }>('/purge', { ids: paperIds }, '/papers/trash');
+    return data.purgedIds || [];
+  }
+
+  // Vider la corbeille ; renvoie les IDs supprimés
+  async emptyTrash(): Promise<number[]> {
+    const response = await this.fetchWithTimeout(`${API_BASE_URL}/papers/trash`, { method: 'DELETE' });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.details || data.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    return data.purgedIds || [];
+  }
+
+  /**
+   * Requête groupée (/api/papers/batch ou /api/papers/trash) ; elle invalide les listes en cache.
+   * Les IDs sont envoyés par lots de BATCH_CHUNK_SIZE (une transaction serveur par lot) ;
+   * les compteurs des réponses sont additionnés et les listes d'IDs concaténées.
+   */
+  private async sendBatchRequest<T>(
+    path: string,
+    body: { ids: number[]; [key: string]: unknown },
+    basePath = '/papers/batch'
+  ): Promise<T> {
+    const chunks: number[][] = [];
+    for (let start = 0; start < body.ids.length; start += BATCH_CHUNK_SIZE) {
+      chunks.push(body.ids.slice(start, start + BATCH_CHUNK_SIZE));
+    }
+
+    const merged: Record<string, unknown> = {};
+    try {
+      for (const ids of chunks.length > 0 ? chunks : [body.ids]) {
+        const response = await this.fetchWithTimeout(`${API_BASE_URL}${basePath}${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...body, ids })
+        });
+        const data = await response.json().catch(() => ({}));
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.details || data.error || `Erreur HTTP: ${response.status}`);
+        }
+
+        Object.entries(data).forEach(([key, value]) => {
+          const previous = merged[key];
+          if (typeof value === 'number' && typeof previous === 'number') {
+            merged[key] = previous + value;
+          } else if (Array.isArray(value) && Array.isArray(previous)) {
+            merged[key] = [...previous, ...value];
+          } else {
+            merged[key] = value;
+          }
+        });
+      }
+    } finally {
+      // Les lots déjà appliqués ont modifié la bibliothèque, même si un lot suivant échoue
+      this.invalidateCache('all-papers');
+      this.invalidateCache('all-categories');
+      this.invalidateCache('venues');
+      this.invalidateCache('stats');
+    }
+
+    return merged as T;
+  }
+
   // ✅ CORRECTION: Sauvegarder un paper et invalider le cache
   async savePaper(paperData: PaperData, pdfFile?: File): Promise<SavePaperResponse> {
     try {
@@ -383,6 +1038,7 @@ class PaperService {
 
       // ✅ Invalider le cache après ajout
       this.invalidateCache('all-papers');
+      this.invalidateCache('venues');
       this.invalidateCache('stats');
       
       return data;
@@ -392,10 +1048,278 @@ class PaperService {
     }
   }
 
+  // Créer un paper complet (PDF, images extraites, catégories, description) en une seule requête
+  async createCompletePaper(
+    paperData: PaperData,
+    options: CreateCompletePaperOptions = {}
+  ): Promise<CreateCompletePaperResponse> {
+    try {
+      const formData = new FormData();
+
+      // Ajouter les champs simples du paper
+      Object.entries(paperData).forEach(([key, value]) => {
+        if (value !== null && value !== undefined && value !== '' && typeof value !== 'object') {
+          formData.append(key, value.toString());
+        }
+      });
+
+      // Auteurs structurés (ORCID, prénom / nom) fournis par le fournisseur de métadonnées
+      if (paperData.author_list && paperData.author_list.length > 0) {
+        formData.append('author_list', JSON.stringify(paperData.author_list));
+      }
+
+      formData.append('categories', JSON.stringify(options.categoryIds || []));
+
+      if (options.selectedImages && options.selectedImages.length > 0) {
+        formData.append('selectedImages', JSON.stringify(
+          options.selectedImages.map(({ name, url, page, caption, hash, width, height }) => ({ name, url, page, caption, hash, width, height }))
+        ));
+      }
+
+      if (options.description && options.description.trim()) {
+        formData.append('description', options.description.trim());
+      }
+
+      if (options.pdfFile) {
+        formData.append('pdf', options.pdfFile);
+      }
+
+      if (options.coverImage) {
+        formData.append('coverImage', options.coverImage);
+      }
+
+      if (options.downloadArxivPdf && !options.pdfFile) {
+        formData.append('downloadArxivPdf', 'true');
+      }
+
+      // Pas de retry : une requête rejouée créerait un doublon
+      const response = await this.fetchWithTimeout(`${API_BASE_URL}/papers/create-complete`, {
+        method: 'POST',
+        body: formData
+      }, 60000);
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.message || data.error || `Erreur HTTP: ${response.status}`);
+      }
+
+      this.invalidateCache('all-papers');
+      this.invalidateCache('venues');
+      this.invalidateCache('stats');
+
+      return data;
+    } catch (error) {
+      console.error('Erreur createCompletePaper:', error);
+      throw error;
+    }
+  }
+
+  // Exporter des papers dans un format bibliographique (liste filtrée ou sélection)
+  async exportPapers(
+    format: BibliographyFormat,
+    options: { filters?: SearchFilters; sort?: SortOptions; paperIds?: number[] } = {}
+  ): Promise<{ blob: Blob; filename: string }> {
+    try {
+      const params = this.buildListParams(options.filters, options.sort);
+      params.set('format', format);
+
+      if (options.paperIds && options.paperIds.length > 0) {
+        params.set('ids', options.paperIds.join(','));
+      }
+
+      return await this.downloadFile(
+        `${API_BASE_URL}/papers/export?${params.toString()}`,
+        `formpaper-export${BIBLIOGRAPHY_FORMATS[format].extension}`
+      );
+    } catch (error) {
+      console.error('Erreur exportPapers:', error);
+      throw error;
+    }
+  }
+
+  // Exporter une bibliographie formatée (texte brut ou HTML) de la liste filtrée ou d'une sélection
+  async exportBibliography(
+    style: CitationStyle,
+    output: CitationOutput,
+    options: { filters?: SearchFilters; sort?: SortOptions; paperIds?: number[] } = {}
+  ): Promise<{ blob: Blob; filename: string }> {
+    try {
+      const params = this.buildListParams(options.filters, options.sort);
+      params.set('style', style);
+      params.set('output', output);
+
+      if (options.paperIds && options.paperIds.length > 0) {
+        params.set('ids', options.paperIds.join(','));
+      }
+
+      return await this.downloadFile(
+        `${API_BASE_URL}/papers/bibliography?${params.toString()}`,
+        `bibliographie-${style}.${output === 'html' ? 'html' : 'txt'}`
+      );
+    } catch (error) {
+      console.error('Erreur exportBibliography:', error);
+      throw error;
+    }
+  }
+
+  // Référence formatée d'un paper dans chacun des styles de citation
+  async getCitations(id: number): Promise<Record<CitationStyle, FormattedCitation>> {
+    const response = await this.fetchWithRetry(`${API_BASE_URL}/papers/${id}/citation`);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    return data.citations;
+  }
+
+  // Analyser un fichier bibliographique avant import (doublons, entrées invalides, correspondance des champs)
+  // format 'auto' : le serveur détecte le format d'après le contenu
+  async previewImport(
+    format: BibliographyFormat | 'auto',
+    content: string
+  ): Promise<{ format: BibliographyFormat; entries: ImportPreviewEntry[]; summary: ImportPreviewSummary }> {
+    try {
+      const response = await this.fetchWithTimeout(`${API_BASE_URL}/papers/import/preview`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ format, content })
+      }, 30000);
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Erreur HTTP: ${response.status}`);
+      }
+
+      return { format: data.format, entries: data.entries, summary: data.summary };
+    } catch (error) {
+      console.error('Erreur previewImport:', error);
+      throw error;
+    }
+  }
+
+  // Importer les entrées sélectionnées d'un fichier bibliographique
+  async importPapers(
+    format: BibliographyFormat,
+    content: string,
+    options: { selected: number[]; categoryIds?: number[]; keywordsAsCategories?: boolean }
+  ): Promise<ImportResult> {
+    try {
+      // Pas de retry : une requête rejouée créerait des doublons
+      const response = await this.fetchWithTimeout(`${API_BASE_URL}/papers/import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          format,
+          content,
+          selected: options.selected,
+          categoryIds: options.categoryIds || [],
+          keywordsAsCategories: Boolean(options.keywordsAsCategories)
+        })
+      }, 60000);
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Erreur HTTP: ${response.status}`);
+      }
+
+      this.invalidateCache('all-papers');
+      this.invalidateCache('venues');
+      this.invalidateCache('stats');
+      if (options.keywordsAsCategories) {
+        this.invalidateCache('all-categories');
+      }
+
+      return { created: data.created, skipped: data.skipped, conflicts: data.conflicts, failed: data.failed };
+    } catch (error) {
+      console.error('Erreur importPapers:', error);
+      throw error;
+    }
+  }
+
+  // Paires de papers susceptibles d'être des doublons (DOI normalisé, titre, auteurs, année)
+  async findDuplicates(threshold?: number): Promise<DuplicateCandidate[]> {
+    const params = new URLSearchParams();
+    if (threshold !== undefined) {
+      params.set('threshold', String(threshold));
+    }
+
+    const response = await this.fetchWithRetry(`${API_BASE_URL}/papers/duplicates?${params.toString()}`);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    return data.candidates || [];
+  }
+
+  // Fusionner un doublon dans le paper conservé (catégories, description, notes, PDF et images)
+  async mergePapers(
+    survivorId: number,
+    duplicateId: number,
+    fields: MergeFieldSources = {}
+  ): Promise<{ paper: PaperData; summary: MergeSummary }> {
+    try {
+      // Pas de retry : la fusion supprime le doublon
+      const response = await this.fetchWithTimeout(`${API_BASE_URL}/papers/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ survivorId, duplicateId, fields })
+      }, 60000);
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || `Erreur HTTP: ${response.status}`);
+      }
+
+      this.invalidateCache();
+
+      return { paper: data.paper, summary: data.summary };
+    } catch (error) {
+      console.error('Erreur mergePapers:', error);
+      throw error;
+    }
+  }
+
+  // Rechercher des auteurs par nom ou ORCID (autocomplétion)
+  async searchAuthors(query: string, limit: number = 8): Promise<AuthorSummary[]> {
+    const params = new URLSearchParams({ q: query, limit: String(limit) });
+    const response = await this.fetchWithTimeout(`${API_BASE_URL}/authors?${params.toString()}`);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.details || data.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    return data.authors || [];
+  }
+
+  // Fiche d'un auteur et co-auteurs (ses papers : searchPapers avec le filtre author)
+  async getAuthor(id: number): Promise<AuthorDetails> {
+    const response = await this.fetchWithRetry(`${API_BASE_URL}/authors/${id}`);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.details || data.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    return { author: data.author, coauthors: data.coauthors || [] };
+  }
+
   // Récupérer les métadonnées depuis un DOI
   async getMetadataFromDOI(doi: string): Promise<MetadataResponse> {
     try {
-      const response = await this.fetchWithRetry(`${API_BASE_URL}/papers/metadata/doi`, {
+      const response = await this.fetchWithRetry(`${API_BASE_URL}/papers/metadata-from-doi`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -405,7 +1329,7 @@ class PaperService {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `Erreur HTTP: ${response.status}`);
+        throw new Error(errorData.message || errorData.error || `Erreur HTTP: ${response.status}`);
       }
 
       return await response.json();
@@ -415,6 +1339,50 @@ class PaperService {
     }
   }
 
+  // Récupérer les métadonnées d'une prépublication arXiv (identifiant, URL ou DOI arXiv)
+  async getMetadataFromArxiv(identifier: string): Promise<ArxivMetadata> {
+    try {
+      const response = await this.fetchWithRetry(`${API_BASE_URL}/papers/metadata-from-arxiv`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ identifier })
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Erreur HTTP: ${response.status}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Erreur getMetadataFromArxiv:', error);
+      throw error;
+    }
+  }
+
+  // Mettre à jour la version d'une prépublication et rattacher le DOI publié
+  async refreshArxivPaper(paperId: number): Promise<ArxivRefreshResult> {
+    try {
+      const response = await this.fetchWithTimeout(`${API_BASE_URL}/papers/${paperId}/arxiv/refresh`, {
+        method: 'POST'
+      }, 30000);
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || `Erreur HTTP: ${response.status}`);
+      }
+
+      this.invalidateCache();
+
+      return data;
+    } catch (error) {
+      console.error('Erreur refreshArxivPaper:', error);
+      throw error;
+    }
+  }
+
   // Extraire les images d'un PDF
   async extractImagesFromPDF(file: File): Promise<ImageExtractionResponse> {
     try {
@@ -460,15 +1428,15 @@ class PaperService {
     }
   }
 
-  // Créer une nouvelle catégorie
-  async createCategory(name: string): Promise<Category> {
+  // Créer une nouvelle catégorie (facultatif : catégorie parente, couleur, icône)
+  async createCategory(name: string, options: Omit<CategoryInput, 'name'> = {}): Promise<Category> {
     try {
       const response = await this.fetchWithRetry(`${API_BASE_URL}/categories`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ name })
+        body: JSON.stringify({ name, ...options })
       });
 
       if (!response.ok) {
@@ -487,6 +1455,81 @@ class PaperService {
     }
   }
 
+  /**
+   * Modifier une catégorie : nom, couleur, icône ou catégorie parente (parent_id null : racine)
+   */
+  async updateCategory(categoryId: number, changes: CategoryInput): Promise<Category> {
+    const data = await this.sendCategoryRequest<{ category: Category }>(`/${categoryId}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes)
+    });
+    return data.category;
+  }
+
+  /**
+   * Ranger des papers dans une catégorie (glisser-déposer sur l'arbre des catégories)
+   * @returns Nombre de papers ajoutés (ceux déjà rangés sont ignorés)
+   */
+  async addPapersToCategory(categoryId: number, paperIds: number[]): Promise<number> {
+    const data = await this.sendCategoryRequest<{ added: number }>(`/${categoryId}/papers`, {
+      method: 'POST',
+      body: JSON.stringify({ paperIds })
+    });
+    return data.added;
+  }
+
+  /**
+   * Papers et sous-catégories touchés par la suppression d'une catégorie
+   */
+  async getCategoryUsage(categoryId: number): Promise<CategoryUsage> {
+    const data = await this.sendCategoryRequest<CategoryUsage>(`/${categoryId}/usage`);
+    return { category: data.category, papers: data.papers || [], childCount: data.childCount || 0 };
+  }
+
+  /**
+   * Supprimer une catégorie ; confirm requis si des papers l'utilisent (sinon refus du serveur)
+   * @returns Nombre de papers retirés de la catégorie
+   */
+  async deleteCategory(categoryId: number, confirm = false): Promise<number> {
+    const data = await this.sendCategoryRequest<{ affectedPapers?: number }>(
+      `/${categoryId}${confirm ? '?confirm=true' : ''}`,
+      { method: 'DELETE' }
+    );
+    this.invalidateCache();
+    return data.affectedPapers ?? 0;
+  }
+
+  /**
+   * Fusionner une catégorie dans une autre : papers et sous-catégories déplacés, source supprimée
+   */
+  async mergeCategories(targetId: number, sourceId: number): Promise<{ category: Category; movedPapers: number }> {
+    const data = await this.sendCategoryRequest<{ category: Category; movedPapers?: number }>(`/${targetId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ sourceId })
+    });
+    this.invalidateCache();
+    return { category: data.category, movedPapers: data.movedPapers ?? 0 };
+  }
+
+  // Requête sur /api/categories ; les modifications invalident le cache des catégories
+  private async sendCategoryRequest<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const response = await this.fetchWithTimeout(`${API_BASE_URL}/categories${path}`, {
+      ...options,
+      headers: { 'Content-Type': 'application/json' }
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.message || data.error || `Erreur HTTP: ${response.status}`);
+    }
+
+    if (options.method && options.method !== 'GET') {
+      this.invalidateCache('all-categories');
+    }
+
+    return data;
+  }
+
   // ✅ CORRECTION: getStats avec cache
   async getStats(): Promise<{
     totalPapers: number;
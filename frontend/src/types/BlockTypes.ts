@@ -16,7 +16,8 @@ export type BlockType =
   | 'h3' 
   | 'bullet' 
   | 'list' 
-  | 'image';
+  | 'image'
+  | 'quote';
 
 export interface Position {
   top: number;
@@ -39,6 +40,19 @@ export interface ListBlockProps extends BlockProps {
   isOrdered: boolean;
 }
 
+// Citation d'une annotation du PDF : content = passage cité, metadata = QuoteBlockMetadata
+export interface QuoteBlockMetadata {
+  annotationId: string;
+  page: number;
+  color: string;
+  comment?: string | null;
+}
+
+export interface QuoteBlockProps extends BlockProps {
+  // Ouvrir le PDF à l'emplacement de l'annotation (absent si l'annotation a été supprimée)
+  onOpenAnnotation?: (annotationId: string) => void;
+}
+
 export interface SlashCommand {
   name: string;
   command: string;
@@ -1,10 +1,63 @@
 // Types pour les statuts de lecture des papers
 export type ReadingStatus = 'non_lu' | 'en_cours' | 'lu' | 'favoris';
 
+// Types de documents (les champs requis dépendent du type)
+export type ItemType = 'journal_article' | 'conference_paper' | 'preprint' | 'thesis' | 'report' | 'book_chapter' | 'web_page';
+
+// Champs bibliographiques saisis dans le formulaire d'ajout
+export type ItemField = 'title' | 'authors' | 'publication_date' | 'conference' | 'publisher' | 'doi' | 'arxiv_id' | 'isbn' | 'url';
+
 // Interface pour une catégorie
 export interface Category {
   id: number;
   name: string;
+  parent_id?: number | null;  // Catégorie parente (null : racine)
+  color?: string | null;      // Couleur hexadécimale (#rrggbb)
+  icon?: string | null;       // Emoji affiché devant le nom
+  paper_count?: number;       // Papers rangés directement dans la catégorie
+  total_count?: number;       // Papers de la catégorie et de ses sous-catégories
+  last_used_at?: string | null;  // Date du dernier paper rangé dans la catégorie
+}
+
+// Nœud de l'arborescence des catégories
+export interface CategoryNode extends Category {
+  depth: number;
+  children: CategoryNode[];
+}
+
+// Champs modifiables d'une catégorie
+export interface CategoryInput {
+  name?: string;
+  parent_id?: number | null;
+  color?: string | null;
+  icon?: string | null;
+}
+
+// Papers et sous-catégories touchés par la suppression d'une catégorie
+export interface CategoryUsage {
+  category: Category;
+  papers: Array<{ id: number; title: string }>;
+  childCount: number;
+}
+
+// Auteur structuré (ordre de la publication), ORCID si connu
+export interface PaperAuthor {
+  id?: number;
+  given: string;
+  family: string;
+  orcid?: string | null;
+}
+
+// Auteur avec son nombre de papers (autocomplétion, page d'auteur)
+export interface AuthorSummary extends PaperAuthor {
+  id: number;
+  paper_count: number;
+}
+
+// Page d'un auteur : fiche et co-auteurs les plus fréquents (papers communs dans paper_count)
+export interface AuthorDetails {
+  author: AuthorSummary;
+  coauthors: AuthorSummary[];
 }
 
 // Interface principale pour un Paper
@@ -15,18 +68,41 @@ export interface PaperData {
   publication_date: string;
   conference?: string | null;
   conference_abbreviation?: string | null;
+  venue_id?: number | null;
   reading_status: ReadingStatus;
   image?: string | null;
-  doi: string;
-  url: string;
+  item_type?: ItemType;
+  doi?: string | null;
+  url?: string | null;
+  arxiv_id?: string | null;
+  arxiv_version?: string | null;
+  isbn?: string | null;
+  publisher?: string | null;
+  abstract?: string | null;
+  // Mots-clés du fournisseur de métadonnées, séparés par des virgules
+  keywords?: string | null;
+  // Note personnelle de 1 à PAPER_RATING_MAX (null : non noté)
+  rating?: number | null;
   folder_path?: string | null;
+  // PDF du dossier du paper (détail d'un paper uniquement)
+  pdf_url?: string | null;
   created_at?: string;
+  // Date de mise à la corbeille (papers de la corbeille uniquement)
+  deleted_at?: string | null;
   
   // Relations
+  author_list?: PaperAuthor[];
   categories?: Category[];
   description?: Description | null;
 }
 
+// Contenu de la corbeille : papers supprimés, purgés après retentionDays jours (0 : jamais)
+export interface TrashListing {
+  papers: PaperData[];
+  total: number;
+  retentionDays: number;
+}
+
 // Interface pour les descriptions
 export interface Description {
   id?: number;
@@ -47,8 +123,168 @@ export interface SearchFilters {
   query?: string;
   reading_status?: ReadingStatus | 'all';
   categories?: number[];
+  categoryMode?: CategoryMatchMode;
+  includeDescendants?: boolean;  // Inclure les sous-catégories des catégories filtrées
   year?: number;
+  dateFrom?: string;
+  dateTo?: string;
   conference?: string;
+  venue?: number;
+  author?: number;
+}
+
+// Mode de correspondance des catégories : au moins une ou toutes
+export type CategoryMatchMode = 'any' | 'all';
+
+// Type d'une venue du registre
+export type VenueType = 'conference' | 'journal' | 'workshop' | 'other';
+
+// Variante du nom d'une venue (container-title rencontré dans les métadonnées)
+export interface VenueAlias {
+  id: number;
+  alias: string;
+}
+
+// Champs modifiables d'une venue
+export interface VenueInput {
+  name: string;
+  abbreviation?: string | null;
+  type?: VenueType;
+  rank?: string | null;
+  notes?: string | null;
+}
+
+// Venue du registre (conférence, revue) avec ses alias et son nombre de papers
+export interface Venue extends VenueInput {
+  id: number;
+  type: VenueType;
+  aliases: VenueAlias[];
+  paper_count: number;
+}
+
+// Couleur de surlignage d'une annotation PDF
+export type AnnotationColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+// Rectangle surligné, en fractions de la largeur et de la hauteur de la page (indépendant du zoom)
+export interface AnnotationRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Champs saisis lors de la création d'une annotation
+export interface AnnotationInput {
+  page: number;
+  rects: AnnotationRect[];
+  color: AnnotationColor;
+  text: string;
+  comment?: string | null;
+}
+
+// Passage surligné du PDF, enregistré dans annotations.json à côté de notes.json
+export interface PdfAnnotation extends AnnotationInput {
+  id: string;
+  comment: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Nature d'une pièce jointe (mêmes clés que côté serveur)
+export type AttachmentKind = 'supplementary' | 'slides' | 'code' | 'dataset' | 'other';
+
+// Fichier joint à un paper, rangé dans le sous-dossier attachments/
+export interface Attachment {
+  id: number;
+  paper_id: number;
+  kind: AttachmentKind;
+  filename: string;
+  original_name: string;
+  size: number;
+  mime: string | null;
+  // SHA-256 du contenu
+  checksum: string | null;
+  label: string | null;
+  created_at: string;
+}
+
+// Dossier d'origine d'une figure : images extraites du PDF (pdf-images) ou importées (imported-images)
+export type FigureSource = 'pdf' | 'imported';
+
+// Image de la galerie d'un paper, métadonnées enregistrées dans figures.json
+export interface PaperFigure {
+  // Chemin relatif au dossier du paper (pdf-images/page_3_img_1.png)
+  path: string;
+  source: FigureSource;
+  caption: string | null;
+  page: number | null;
+  tags: string[];
+  width: number | null;
+  height: number | null;
+  hash: string | null;
+  size: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Type du glisser-déposer d'une figure de la galerie vers les notes
+export const FIGURE_DRAG_TYPE = 'application/x-formpaper-figure';
+
+// Note maximale d'un paper (étoiles)
+export const PAPER_RATING_MAX = 5;
+
+// Types du glisser-déposer vers l'arbre des catégories (papers à ranger, catégorie à déplacer)
+export const PAPER_DRAG_TYPE = 'application/x-formpaper-paper';
+export const CATEGORY_DRAG_TYPE = 'application/x-formpaper-category';
+
+// Origine d'une sauvegarde et mode de restauration
+export type BackupTrigger = 'manual' | 'auto' | 'pre-restore';
+export type RestoreMode = 'replace' | 'merge';
+
+// Nombre d'éléments de la bibliothèque au moment d'une sauvegarde
+export interface BackupCounts {
+  papers: number;
+  categories: number;
+  authors: number;
+  venues: number;
+}
+
+// Archive de sauvegarde (base, PDF, images et notes)
+export interface BackupInfo {
+  name: string;
+  size: number;
+  createdAt: string;
+  trigger: BackupTrigger;
+  // Absents si le manifeste de l'archive est illisible (voir error)
+  schemaVersion: number | null;
+  counts: BackupCounts | null;
+  fileCount: number | null;
+  error?: string;
+}
+
+// Planification des sauvegardes automatiques
+export interface BackupSchedule {
+  enabled: boolean;
+  intervalHours: number;
+  retention: number;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+}
+
+// Résultat d'une restauration
+export interface RestoreResult {
+  mode: RestoreMode;
+  backup: {
+    createdAt: string;
+    schemaVersion: number;
+    counts: BackupCounts;
+  };
+  // Remplacement : sauvegarde de la bibliothèque prise juste avant
+  safetyBackup?: string;
+  // Fusion : papers ajoutés, déjà présents ou en échec
+  added?: { id: number; title: string }[];
+  skipped?: { title: string; reason: 'doi' | 'arxiv' | 'title' }[];
+  failed?: { title: string; error: string }[];
 }
 
 // Interface pour les statistiques
@@ -72,7 +308,8 @@ export interface ExtendedStatistics extends Statistics {
 }
 
 // Type pour les options de tri
-export type SortBy = 'title' | 'authors' | 'publication_date' | 'conference' | 'created_at';
+export type SortBy =
+  | 'title' | 'authors' | 'publication_date' | 'conference' | 'created_at' | 'reading_status' | 'categories' | 'rating';
 export type SortOrder = 'asc' | 'desc';
 
 // Interface pour les options de tri
@@ -101,6 +338,168 @@ export interface PaginatedResult<T> {
 // Type pour les résultats de recherche
 export type SearchResult = PaginatedResult<PaperData>;
 
+// Source du texte ayant produit une correspondance en recherche plein texte
+export type SearchSource = 'metadata' | 'notes' | 'pdf';
+
+// Extrait surligné (HTML échappé, termes trouvés entourés de <mark>)
+export interface SearchMatch {
+  source: SearchSource;
+  snippet: string;
+}
+
+// Paper trouvé par la recherche plein texte
+export interface FullTextSearchHit {
+  paper: PaperData;
+  score: number;
+  matches: SearchMatch[];
+}
+
+// Résultats classés de la recherche plein texte
+export interface FullTextSearchResult extends PaginatedResult<FullTextSearchHit> {
+  query: string;
+}
+
+// Formats bibliographiques d'import/export
+export type BibliographyFormat = 'bibtex' | 'ris' | 'csljson';
+
+// Correspondance entre un champ du fichier importé et un champ de FormPaper
+export interface ImportFieldMapping {
+  source: string;
+  target: string;
+}
+
+// Statut d'une entrée analysée avant import
+export type ImportEntryStatus = 'new' | 'duplicate' | 'duplicate_in_file' | 'invalid';
+
+// Entrée d'un fichier bibliographique analysée avant import
+export interface ImportPreviewEntry {
+  index: number;
+  citationKey: string;
+  type: string;
+  status: ImportEntryStatus;
+  paper?: Pick<
+    PaperData,
+    'title' | 'authors' | 'publication_date' | 'conference' | 'item_type' | 'publisher' | 'doi' | 'arxiv_id' | 'isbn' | 'url'
+  >;
+  keywords?: string[];
+  abstract?: string;
+  notes?: string;
+  mapping?: ImportFieldMapping[];
+  ignored?: string[];
+  errors: string[];
+  existingPaper?: { id: number; title: string };
+  duplicateOf?: number;
+}
+
+// Nombre d'entrées par statut
+export interface ImportPreviewSummary extends Record<ImportEntryStatus, number> {
+  total: number;
+}
+
+// Entrée non importée et sa raison
+export interface ImportResultEntry {
+  index: number;
+  title: string;
+  status: string;
+  reason: string;
+}
+
+// Résultat d'un import : papers créés, ignorés (invalides), en conflit (doublons) et en erreur
+export interface ImportResult {
+  created: Array<{ index: number; id: number; title: string }>;
+  skipped: ImportResultEntry[];
+  conflicts: ImportResultEntry[];
+  failed: ImportResultEntry[];
+}
+
+// Styles de citation et format de sortie des références formatées
+export type CitationStyle = 'apa' | 'ieee' | 'acm' | 'vancouver';
+export type CitationOutput = 'text' | 'html';
+
+// Référence formatée (texte brut et HTML avec italiques)
+export interface FormattedCitation {
+  text: string;
+  html: string;
+}
+
+// Critère ayant rapproché deux papers lors de la recherche de doublons
+export type DuplicateReason = 'doi' | 'arxiv' | 'title' | 'authors' | 'year';
+
+// Paper d'une paire de doublons (description en texte, résumé de son dossier)
+export interface DuplicatePaper extends Omit<PaperData, 'description'> {
+  id: number;
+  description: string | null;
+  files: {
+    hasPdf: boolean;
+    hasNotes: boolean;
+    imageCount: number;
+  };
+}
+
+// Paire de papers susceptibles d'être des doublons
+export interface DuplicateCandidate {
+  a: DuplicatePaper;
+  b: DuplicatePaper;
+  score: number;
+  reasons: DuplicateReason[];
+  details: {
+    title: number;
+    authors: number | null;
+    year: number | null;
+  };
+}
+
+// Champs dont la valeur est choisie lors d'une fusion
+export type MergeField =
+  | 'title' | 'item_type' | 'authors' | 'publication_date' | 'conference' | 'conference_abbreviation' | 'publisher'
+  | 'doi' | 'arxiv_id' | 'isbn' | 'url' | 'abstract' | 'keywords' | 'reading_status' | 'image' | 'rating';
+
+// Source de chaque champ : paper conservé ou doublon absorbé
+export type MergeFieldSources = Partial<Record<MergeField, 'survivor' | 'duplicate'>>;
+
+// Bilan d'une fusion
+export interface MergeSummary {
+  survivorId: number;
+  removedId: number;
+  updatedFields: MergeField[];
+  categories: number;
+  copiedFiles: number;
+  pdf: string | null;
+  mergedNotes: boolean;
+  mergedAnnotations: number;
+  mergedAttachments: number;
+}
+
+// Versions d'une prépublication arXiv (DOI et référence de la version publiée si elle existe)
+export interface ArxivVersionInfo {
+  current: string | null;
+  published: string;
+  updated: string;
+  publishedDoi: string | null;
+  journalRef: string | null;
+  comment: string | null;
+}
+
+// Métadonnées d'une prépublication arXiv
+export interface ArxivMetadata {
+  paperData: PaperData;
+  abstract: string;
+  keywords: string[];
+  version: ArxivVersionInfo;
+  existingPaper: { id: number; title: string; doi: string | null; arxiv_id: string } | null;
+}
+
+// Résultat de la mise à jour d'une prépublication
+export interface ArxivRefreshResult {
+  paper: PaperData;
+  version: ArxivVersionInfo;
+  changes: {
+    version: { from: string | null; to: string } | null;
+    doi: string | null;
+    doiConflict: { id: number; title: string; doi: string } | null;
+  };
+}
+
 // Interface pour les métadonnées extraites d'un DOI
 export interface DOIMetadata {
   title: string;
@@ -120,6 +519,20 @@ export interface ExtractedImage {
   page: number;
   width?: number;
   height?: number;
+  // Légende détectée sous l'image ("Figure 3: ...") et empreinte perceptuelle (doublons)
+  caption?: string | null;
+  hash?: string | null;
+}
+
+// Résultat de l'ajout, du remplacement ou du retrait du PDF d'un paper existant
+export interface PdfUploadResult {
+  message: string;
+  paper: PaperData;
+  // DOI trouvé dans le PDF comparé à celui du paper (matches null si l'un des deux manque)
+  doiCheck: { pdfDoi: string | null; paperDoi: string | null; matches: boolean | null } | null;
+  // Images du nouveau PDF proposées à la sélection (extractImages)
+  images: ExtractedImage[];
+  warnings: string[];
 }
 
 // Interface pour les données extraites d'un PDF
@@ -287,11 +700,160 @@ export const READING_STATUS_CONFIGS = {
   }
 } as const;
 
+// Configuration d'un type de document
+export interface ItemTypeConfig {
+  label: string;
+  icon: string;
+  // Champs affichés dans le formulaire, dans l'ordre
+  fields: ItemField[];
+  required: ItemField[];
+  // Au moins un de ces champs doit être renseigné
+  requiredOneOf?: ItemField[];
+  // Libellés propres au type (conteneur, éditeur)
+  labels?: Partial<Record<ItemField, string>>;
+}
+
+// Libellés par défaut des champs bibliographiques
+export const ITEM_FIELD_LABELS: Record<ItemField, string> = {
+  title: 'Titre',
+  authors: 'Auteurs',
+  publication_date: 'Date de publication',
+  conference: 'Conférence / revue',
+  publisher: 'Éditeur',
+  doi: 'DOI',
+  arxiv_id: 'Identifiant arXiv',
+  isbn: 'ISBN',
+  url: 'URL'
+};
+
+// Types de documents (mêmes champs requis que la validation côté serveur)
+export const ITEM_TYPE_CONFIGS: Record<ItemType, ItemTypeConfig> = {
+  journal_article: {
+    label: 'Article de revue',
+    icon: '📰',
+    fields: ['title', 'authors', 'publication_date', 'conference', 'doi', 'url'],
+    required: ['title', 'authors', 'publication_date'],
+    labels: { conference: 'Revue' }
+  },
+  conference_paper: {
+    label: 'Article de conférence',
+    icon: '🎤',
+    fields: ['title', 'authors', 'publication_date', 'conference', 'doi', 'url'],
+    required: ['title', 'authors', 'publication_date'],
+    labels: { conference: 'Conférence' }
+  },
+  preprint: {
+    label: 'Prépublication',
+    icon: '📝',
+    fields: ['title', 'authors', 'publication_date', 'arxiv_id', 'doi', 'url', 'publisher'],
+    required: ['title', 'authors', 'publication_date'],
+    requiredOneOf: ['arxiv_id', 'doi', 'url'],
+    labels: { publisher: 'Serveur de prépublication' }
+  },
+  thesis: {
+    label: 'Thèse',
+    icon: '🎓',
+    fields: ['title', 'authors', 'publication_date', 'publisher', 'isbn', 'doi', 'url'],
+    required: ['title', 'authors', 'publication_date', 'publisher'],
+    labels: { publisher: 'Université / établissement' }
+  },
+  report: {
+    label: 'Rapport',
+    icon: '📑',
+    fields: ['title', 'authors', 'publication_date', 'publisher', 'doi', 'url'],
+    required: ['title', 'authors', 'publication_date', 'publisher'],
+    labels: { publisher: 'Institution' }
+  },
+  book_chapter: {
+    label: 'Chapitre de livre',
+    icon: '📚',
+    fields: ['title', 'authors', 'publication_date', 'conference', 'publisher', 'isbn', 'doi', 'url'],
+    required: ['title', 'authors', 'publication_date', 'conference'],
+    labels: { conference: 'Titre de l\'ouvrage' }
+  },
+  web_page: {
+    label: 'Page web',
+    icon: '🌐',
+    fields: ['title', 'url', 'authors', 'publication_date', 'publisher'],
+    required: ['title', 'url'],
+    labels: { publisher: 'Site' }
+  }
+};
+
+// Formats bibliographiques proposés à l'import et à l'export
+export const BIBLIOGRAPHY_FORMATS: Record<BibliographyFormat, { label: string; extension: string }> = {
+  bibtex: { label: 'BibTeX', extension: '.bib' },
+  ris: { label: 'RIS', extension: '.ris' },
+  csljson: { label: 'CSL-JSON', extension: '.json' }
+};
+
+// Styles de citation proposés (rendus côté serveur)
+export const CITATION_STYLES: Record<CitationStyle, { label: string }> = {
+  apa: { label: 'APA 7' },
+  ieee: { label: 'IEEE' },
+  acm: { label: 'ACM' },
+  vancouver: { label: 'Vancouver' }
+};
+
+// Types de venues du registre (mêmes clés que côté serveur)
+export const VENUE_TYPES: Record<VenueType, { label: string }> = {
+  conference: { label: 'Conférence' },
+  journal: { label: 'Revue' },
+  workshop: { label: 'Atelier' },
+  other: { label: 'Autre' }
+};
+
+// Couleurs de surlignage (mêmes clés que côté serveur)
+export const ANNOTATION_COLORS: Record<AnnotationColor, { label: string; highlight: string; swatch: string }> = {
+  yellow: { label: 'Jaune', highlight: 'rgba(250, 204, 21, 0.4)', swatch: 'bg-yellow-400' },
+  green: { label: 'Vert', highlight: 'rgba(74, 222, 128, 0.4)', swatch: 'bg-green-400' },
+  blue: { label: 'Bleu', highlight: 'rgba(96, 165, 250, 0.4)', swatch: 'bg-blue-400' },
+  pink: { label: 'Rose', highlight: 'rgba(244, 114, 182, 0.4)', swatch: 'bg-pink-400' },
+  purple: { label: 'Violet', highlight: 'rgba(192, 132, 252, 0.4)', swatch: 'bg-purple-400' }
+};
+
+// Natures de pièces jointes proposées (mêmes clés que côté serveur)
+export const ATTACHMENT_KINDS: Record<AttachmentKind, { label: string }> = {
+  supplementary: { label: 'Matériel supplémentaire' },
+  slides: { label: 'Présentation' },
+  code: { label: 'Code' },
+  dataset: { label: 'Données' },
+  other: { label: 'Autre' }
+};
+
+// Couleurs proposées pour les catégories
+export const CATEGORY_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#6b7280'];
+
 // Fonction utilitaire pour obtenir la configuration d'un statut
 export function getStatusConfig(status: ReadingStatus): StatusConfig {
   return READING_STATUS_CONFIGS[status] || READING_STATUS_CONFIGS.non_lu;
 }
 
+// Fonction utilitaire pour obtenir la configuration d'un type de document
+export function getItemTypeConfig(itemType?: ItemType | null): ItemTypeConfig {
+  return (itemType && ITEM_TYPE_CONFIGS[itemType]) || ITEM_TYPE_CONFIGS.journal_article;
+}
+
+// Fonction utilitaire pour obtenir le libellé d'un champ selon le type de document
+export function getItemFieldLabel(itemType: ItemType | null | undefined, field: ItemField): string {
+  return getItemTypeConfig(itemType).labels?.[field] || ITEM_FIELD_LABELS[field];
+}
+
+// Fonction utilitaire pour lister les champs requis manquants (libellés)
+export function getMissingItemFields(paper: PaperData): string[] {
+  const config = getItemTypeConfig(paper.item_type);
+  const isEmpty = (field: ItemField) => !String(paper[field] ?? '').trim();
+  const missing = config.required
+    .filter(isEmpty)
+    .map(field => getItemFieldLabel(paper.item_type, field));
+
+  if (config.requiredOneOf && config.requiredOneOf.every(isEmpty)) {
+    missing.push(config.requiredOneOf.map(field => getItemFieldLabel(paper.item_type, field)).join(' ou '));
+  }
+
+  return missing;
+}
+
 // Fonction utilitaire pour valider un DOI
 export function isValidDOI(doi: string): boolean {
   const doiPattern = /^10\.\d{4,}\/[-._;()\/:a-zA-Z0-9]+$/;
@@ -312,20 +874,63 @@ export function formatDate(dateString: string): string {
   }
 }
 
-// Fonction utilitaire pour formater les auteurs
-export function formatAuthors(authors: string, maxLength: number = 50): string {
-  if (authors.length <= maxLength) {
-    return authors;
-  }
-  
-  const truncated = authors.substring(0, maxLength);
-  const lastComma = truncated.lastIndexOf(',');
-  
-  if (lastComma > 0) {
-    return truncated.substring(0, lastComma) + ' et al.';
+// Fonction utilitaire pour afficher le nom d'un auteur structuré
+export function getAuthorName(author: PaperAuthor): string {
+  return [author.given, author.family].filter(Boolean).join(' ');
+}
+
+// Fonction utilitaire pour formater les auteurs (noms entiers, "et al." au-delà de maxLength)
+export function formatAuthors(authors: string | PaperAuthor[], maxLength: number = 50): string {
+  const names = typeof authors === 'string'
+    ? authors.split(',').map(name => name.trim()).filter(Boolean)
+    : authors.map(getAuthorName);
+
+  let formatted = names[0] || '';
+  for (const name of names.slice(1)) {
+    if (`${formatted}, ${name}`.length > maxLength) {
+      return `${formatted} et al.`;
+    }
+    formatted = `${formatted}, ${name}`;
   }
-  
-  return truncated + '...';
+
+  return formatted;
+}
+
+// Fonction utilitaire pour découper les mots-clés enregistrés ("a, b, c")
+export function splitKeywords(keywords?: string | null): string[] {
+  return (keywords || '')
+    .split(/[,;]/)
+    .map(keyword => keyword.trim())
+    .filter(Boolean);
+}
+
+// Fonction utilitaire pour reconstruire l'arborescence des catégories (liste à plat avec parent_id)
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<number, CategoryNode>(
+    categories.map(category => [category.id, { ...category, depth: 0, children: [] }])
+  );
+  const roots: CategoryNode[] = [];
+
+  nodes.forEach(node => {
+    const parent = node.parent_id != null ? nodes.get(node.parent_id) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+
+  const setDepth = (list: CategoryNode[], depth: number) => {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+    list.forEach(node => {
+      node.depth = depth;
+      setDepth(node.children, depth + 1);
+    });
+  };
+  setDepth(roots, 0);
+
+  return roots;
+}
+
+// Fonction utilitaire pour parcourir l'arborescence dans l'ordre d'affichage (parents avant enfants)
+export function flattenCategoryTree(nodes: CategoryNode[]): CategoryNode[] {
+  return nodes.flatMap(node => [node, ...flattenCategoryTree(node.children)]);
 }
 
 // Fonction utilitaire pour générer un slug à partir du titre
@@ -356,12 +961,13 @@ export const PAPER_FORM_VALIDATION: ValidationRules = {
     minLength: 2,
     maxLength: 1000
   },
+  // DOI et URL sont facultatifs (requis selon le type de document, voir ITEM_TYPE_CONFIGS)
   doi: {
-    required: true,
-    custom: (value: string) => isValidDOI(value) ? null : 'Format DOI invalide'
+    required: false,
+    custom: (value: string) => !value || isValidDOI(value) ? null : 'Format DOI invalide'
   },
   url: {
-    required: true,
+    required: false,
     pattern: /^https?:\/\/.+/
   },
   publication_date: {
@@ -372,11 +978,26 @@ export const PAPER_FORM_VALIDATION: ValidationRules = {
 // Export par défaut (seulement les valeurs, pas les types)
 export default {
   getStatusConfig,
+  getItemTypeConfig,
+  getItemFieldLabel,
+  getMissingItemFields,
   isValidDOI,
   formatDate,
+  getAuthorName,
   formatAuthors,
+  splitKeywords,
   generateSlug,
   DEFAULT_PAPER,
   PAPER_FORM_VALIDATION,
-  READING_STATUS_CONFIGS
+  READING_STATUS_CONFIGS,
+  ITEM_FIELD_LABELS,
+  ITEM_TYPE_CONFIGS,
+  BIBLIOGRAPHY_FORMATS,
+  CITATION_STYLES,
+  VENUE_TYPES,
+  ANNOTATION_COLORS,
+  ATTACHMENT_KINDS,
+  CATEGORY_COLORS,
+  buildCategoryTree,
+  flattenCategoryTree
 };
\ No newline at end of file